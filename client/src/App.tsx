@@ -7,6 +7,7 @@ import { AuthProvider } from './contexts/AuthContext';
 import { NotificationProvider } from './contexts/NotificationContext';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { SaveStatusProvider } from './contexts/SaveStatusContext';
+import { OfflineProvider } from './contexts/OfflineContext';
 import { UserSessionProvider } from './contexts/UserSessionContext';
 
 // Components
@@ -21,6 +22,10 @@ import RiskCommandCenter from './pages/RiskCommandCenter';
 import Products from './pages/Products';
 import ProductDetails from './pages/ProductDetails';
 import CSFBaseline from './pages/CSFBaseline';
+import CSFProfiles from './pages/CSFProfiles';
+import CrosswalkProjection from './pages/CrosswalkProjection';
+import PoamRegister from './pages/PoamRegister';
+import RiskRegister from './pages/RiskRegister';
 import Settings from './pages/Settings';
 import SystemDetails from './pages/SystemDetails';
 
@@ -54,6 +59,8 @@ const queryClient = new QueryClient({
       retry: 1,
       refetchOnWindowFocus: false,
       staleTime: 5 * 60 * 1000, // 5 minutes
+      // Run queries offline too, so they can fall back to the device cache (withOfflineCache)
+      networkMode: 'offlineFirst',
     },
   },
 });
@@ -66,6 +73,7 @@ function App() {
           <NotificationProvider>
             <UserSessionProvider>
             <SaveStatusProvider>
+            <OfflineProvider>
             <Router>
               <Box sx={{ display: 'flex', minHeight: '100vh', width: '100%' }}>
                 <Suspense fallback={<LoadingFallback />}>
@@ -96,16 +104,27 @@ function App() {
 
                       {/* Products */}
                       <Route path="/products" element={<Products />} />
-                      <Route path="/products/:id" element={<ProductDetails />} />
-                      <Route path="/products/:id/baseline" element={<CSFBaseline />} />
-                      <Route path="/products/:id/assessments" element={<ProductAssessments />} />
+                      <Route path="/products/:id" element={<ProtectedRoute permission="view"><ProductDetails /></ProtectedRoute>} />
+                      <Route path="/products/:id/baseline" element={<ProtectedRoute permission="view"><CSFBaseline /></ProtectedRoute>} />
+                      <Route path="/products/:id/profiles" element={<ProtectedRoute permission="view"><CSFProfiles /></ProtectedRoute>} />
+                      <Route path="/products/:id/crosswalk" element={<ProtectedRoute permission="view"><CrosswalkProjection /></ProtectedRoute>} />
+                      <Route path="/products/:id/poam" element={<ProtectedRoute permission="view"><PoamRegister /></ProtectedRoute>} />
+                      <Route path="/products/:id/risks" element={<ProtectedRoute permission="view"><RiskRegister /></ProtectedRoute>} />
+                      <Route path="/products/:id/assessments" element={<ProtectedRoute permission="view"><ProductAssessments /></ProtectedRoute>} />
 
                       {/* Systems - Lazy loaded */}
                       <Route path="/systems" element={<Systems />} />
                       <Route path="/systems/:id" element={<SystemDetails />} />
 
                       {/* Assessment Workspace - Single-page assessment flow */}
-                      <Route path="/assess/:productId/:systemId" element={<AssessmentWorkspace />} />
+                      <Route
+                        path="/assess/:productId/:systemId"
+                        element={
+                          <ProtectedRoute permission="view" productParam="productId">
+                            <AssessmentWorkspace />
+                          </ProtectedRoute>
+                        }
+                      />
 
 
                       {/* Analytics - Lazy loaded */}
@@ -127,6 +146,7 @@ function App() {
                 </Suspense>
               </Box>
             </Router>
+            </OfflineProvider>
             </SaveStatusProvider>
             </UserSessionProvider>
           </NotificationProvider>
@@ -1,16 +1,17 @@
 /**
  * Approval Workflow Component
  *
- * Provides a lightweight approval workflow for assessments using comments
- * and the existing data model. Status is determined by:
- * - Draft: Assessment has NOT_ASSESSED status
- * - Pending Review: A "Request Review" comment exists
- * - Approved: An "Approve" comment from a different user exists
+ * Drives the server-side review workflow for an assessment:
+ * - Draft / Reopened: the assessor can submit for review (optionally to a named reviewer)
+ * - Submitted: a reviewer other than the submitter approves or rejects it
+ * - Approved: can be reopened; editing an approved assessment also reopens it
+ * - Rejected: the assessor addresses the feedback and resubmits
  *
- * This allows approval workflow without schema changes.
+ * The server enforces transitions and separation of duties; this component
+ * only offers the actions it reports as allowed for the current user.
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Typography,
@@ -32,6 +33,9 @@ import {
   InputLabel,
   Select,
   MenuItem,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   CheckCircle as ApprovedIcon,
@@ -41,20 +45,15 @@ import {
   Done as ApproveIcon,
   Cancel as RejectIcon,
   Close as CloseIcon,
+  Replay as ReopenIcon,
+  PersonSearch as AssignIcon,
 } from '@mui/icons-material';
-import { useComments, useCreateComment, Comment } from '../hooks/useComments';
-import { useUsers, AssignmentAssignee } from '../hooks/useAssignments';
+import { useAssessmentReview, useReviewAssessment } from '../hooks/useAssessments';
+import { useUsers } from '../hooks/useAssignments';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
-
-// Special comment markers for approval workflow
-const WORKFLOW_MARKERS = {
-  REQUEST_REVIEW: '[WORKFLOW:REQUEST_REVIEW]',
-  APPROVE: '[WORKFLOW:APPROVE]',
-  REJECT: '[WORKFLOW:REJECT]',
-};
-
-type WorkflowStatus = 'draft' | 'pending_review' | 'approved' | 'rejected';
+import { getErrorMessage } from '../services/api';
+import type { ReviewAction, ReviewStatus } from '../types/api.types';
 
 interface ApprovalWorkflowProps {
   assessmentId: string;
@@ -62,81 +61,34 @@ interface ApprovalWorkflowProps {
   compact?: boolean;
 }
 
-// Determine workflow status from comments
-function determineWorkflowStatus(comments: Comment[] | undefined): {
-  status: WorkflowStatus;
-  requestedBy?: string;
-  requestedAt?: string;
-  approvedBy?: string;
-  approvedAt?: string;
-  rejectedBy?: string;
-  rejectedAt?: string;
-  latestReviewRequest?: Comment;
-  latestApproval?: Comment;
-  latestRejection?: Comment;
-} {
-  if (!comments || comments.length === 0) {
-    return { status: 'draft' };
-  }
-
-  // Find workflow-related comments (newest first)
-  const workflowComments = comments.filter(
-    (c) =>
-      c.content.includes(WORKFLOW_MARKERS.REQUEST_REVIEW) ||
-      c.content.includes(WORKFLOW_MARKERS.APPROVE) ||
-      c.content.includes(WORKFLOW_MARKERS.REJECT)
-  ).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-  if (workflowComments.length === 0) {
-    return { status: 'draft' };
-  }
-
-  // Latest workflow action
-  const latest = workflowComments[0];
-
-  // Find the most recent of each type
-  const latestReviewRequest = workflowComments.find((c) =>
-    c.content.includes(WORKFLOW_MARKERS.REQUEST_REVIEW)
-  );
-  const latestApproval = workflowComments.find((c) =>
-    c.content.includes(WORKFLOW_MARKERS.APPROVE)
-  );
-  const latestRejection = workflowComments.find((c) =>
-    c.content.includes(WORKFLOW_MARKERS.REJECT)
-  );
-
-  // Determine current status based on order
-  if (latest.content.includes(WORKFLOW_MARKERS.APPROVE)) {
-    return {
-      status: 'approved',
-      approvedBy: latest.author.name,
-      approvedAt: latest.createdAt,
-      latestApproval,
-      latestReviewRequest,
-    };
-  }
+const STATUS_CONFIG: Record<
+  ReviewStatus,
+  { icon: React.ReactElement; label: string; color: 'default' | 'warning' | 'success' | 'error' | 'info'; step: number }
+> = {
+  DRAFT: { icon: <DraftIcon />, label: 'Draft', color: 'default', step: 0 },
+  REOPENED: { icon: <ReopenIcon />, label: 'Reopened', color: 'info', step: 0 },
+  SUBMITTED: { icon: <PendingIcon />, label: 'Pending Review', color: 'warning', step: 1 },
+  REJECTED: { icon: <RejectIcon />, label: 'Rejected', color: 'error', step: 1 },
+  APPROVED: { icon: <ApprovedIcon />, label: 'Approved', color: 'success', step: 2 },
+};
 
-  if (latest.content.includes(WORKFLOW_MARKERS.REJECT)) {
-    return {
-      status: 'rejected',
-      rejectedBy: latest.author.name,
-      rejectedAt: latest.createdAt,
-      latestRejection,
-      latestReviewRequest,
-    };
-  }
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  SUBMIT: 'Submit for Review',
+  APPROVE: 'Approve',
+  REJECT: 'Reject',
+  REOPEN: 'Reopen',
+  ASSIGN: 'Change Reviewer',
+};
 
-  if (latest.content.includes(WORKFLOW_MARKERS.REQUEST_REVIEW)) {
-    return {
-      status: 'pending_review',
-      requestedBy: latest.author.name,
-      requestedAt: latest.createdAt,
-      latestReviewRequest,
-    };
-  }
+const HISTORY_LABELS: Record<ReviewAction, string> = {
+  SUBMIT: 'Submitted for review',
+  APPROVE: 'Approved',
+  REJECT: 'Rejected',
+  REOPEN: 'Reopened',
+  ASSIGN: 'Reviewer changed',
+};
 
-  return { status: 'draft' };
-}
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleDateString() : '');
 
 const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
   assessmentId,
@@ -145,143 +97,63 @@ const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
 }) => {
   const { user } = useAuth();
   const { showNotification } = useNotification();
-  const [dialogOpen, setDialogOpen] = useState(false);
-  const [dialogMode, setDialogMode] = useState<'request' | 'approve' | 'reject'>('request');
+  const [dialogAction, setDialogAction] = useState<ReviewAction | null>(null);
   const [reviewerNote, setReviewerNote] = useState('');
   const [selectedReviewer, setSelectedReviewer] = useState('');
 
-  // Fetch comments to determine workflow status
-  const { data: comments, isLoading: commentsLoading } = useComments(assessmentId);
-  const createComment = useCreateComment();
+  const { data: review, isLoading } = useAssessmentReview(assessmentId);
+  const reviewAssessment = useReviewAssessment();
   const { data: users } = useUsers();
 
-  const workflowInfo = useMemo(() => determineWorkflowStatus(comments), [comments]);
-
-  const handleRequestReview = async () => {
-    try {
-      let content = `${WORKFLOW_MARKERS.REQUEST_REVIEW} Requesting review for this assessment.`;
-      if (selectedReviewer) {
-        const reviewer = users?.find((u) => u.id === selectedReviewer);
-        if (reviewer) {
-          content = `${WORKFLOW_MARKERS.REQUEST_REVIEW} Requesting review from ${reviewer.name}.`;
-        }
-      }
-      if (reviewerNote) {
-        content += `\n\nNote: ${reviewerNote}`;
-      }
-
-      await createComment.mutateAsync({
-        content,
-        assessmentId,
-        mentions: selectedReviewer ? [selectedReviewer] : undefined,
-      });
-
-      showNotification('Review requested successfully', 'success');
-      setDialogOpen(false);
-      setReviewerNote('');
-      setSelectedReviewer('');
-    } catch (error) {
-      showNotification('Failed to request review', 'error');
-    }
+  const openDialog = (action: ReviewAction) => {
+    setDialogAction(action);
+    setReviewerNote('');
+    setSelectedReviewer(review?.reviewerId || '');
   };
 
-  const handleApprove = async () => {
-    try {
-      let content = `${WORKFLOW_MARKERS.APPROVE} Assessment approved.`;
-      if (reviewerNote) {
-        content += `\n\nComment: ${reviewerNote}`;
-      }
-
-      await createComment.mutateAsync({
-        content,
-        assessmentId,
-      });
-
-      showNotification('Assessment approved', 'success');
-      setDialogOpen(false);
-      setReviewerNote('');
-    } catch (error) {
-      showNotification('Failed to approve assessment', 'error');
-    }
-  };
+  const handleConfirm = async () => {
+    if (!dialogAction) return;
+    const picksReviewer = dialogAction === 'SUBMIT' || dialogAction === 'ASSIGN';
 
-  const handleReject = async () => {
     try {
-      let content = `${WORKFLOW_MARKERS.REJECT} Assessment rejected.`;
-      if (reviewerNote) {
-        content += `\n\nReason: ${reviewerNote}`;
-      }
-
-      await createComment.mutateAsync({
-        content,
-        assessmentId,
+      await reviewAssessment.mutateAsync({
+        id: assessmentId,
+        input: {
+          action: dialogAction,
+          note: reviewerNote.trim() || undefined,
+          ...(picksReviewer && { reviewerId: selectedReviewer || null }),
+        },
       });
-
-      showNotification('Assessment rejected', 'success');
-      setDialogOpen(false);
-      setReviewerNote('');
+      showNotification(`${HISTORY_LABELS[dialogAction]} successfully`, 'success');
+      setDialogAction(null);
     } catch (error) {
-      showNotification('Failed to reject assessment', 'error');
+      showNotification(getErrorMessage(error), 'error');
     }
   };
 
-  const openDialog = (mode: 'request' | 'approve' | 'reject') => {
-    setDialogMode(mode);
-    setReviewerNote('');
-    setSelectedReviewer('');
-    setDialogOpen(true);
-  };
-
-  const getStatusConfig = (status: WorkflowStatus) => {
-    switch (status) {
-      case 'draft':
-        return {
-          icon: <DraftIcon />,
-          label: 'Draft',
-          color: 'default' as const,
-          step: 0,
-        };
-      case 'pending_review':
-        return {
-          icon: <PendingIcon />,
-          label: 'Pending Review',
-          color: 'warning' as const,
-          step: 1,
-        };
-      case 'approved':
-        return {
-          icon: <ApprovedIcon />,
-          label: 'Approved',
-          color: 'success' as const,
-          step: 2,
-        };
-      case 'rejected':
-        return {
-          icon: <RejectIcon />,
-          label: 'Rejected',
-          color: 'error' as const,
-          step: 1,
-        };
-    }
-  };
-
-  const statusConfig = getStatusConfig(workflowInfo.status);
-
-  if (commentsLoading) {
+  if (isLoading) {
     return <CircularProgress size={16} />;
   }
 
+  if (!review) {
+    return null;
+  }
+
+  const status = review.reviewStatus;
+  const statusConfig = STATUS_CONFIG[status] || STATUS_CONFIG.DRAFT;
+  const allowed = review.allowedActions;
+
   // Compact view - just shows a badge
   if (compact) {
     return (
       <Tooltip
         title={
-          workflowInfo.status === 'approved'
-            ? `Approved by ${workflowInfo.approvedBy}`
-            : workflowInfo.status === 'pending_review'
-            ? `Review requested by ${workflowInfo.requestedBy}`
-            : workflowInfo.status === 'rejected'
-            ? `Rejected by ${workflowInfo.rejectedBy}`
+          status === 'APPROVED'
+            ? `Approved by ${review.reviewedBy?.name}`
+            : status === 'SUBMITTED'
+            ? `Submitted by ${review.submittedBy?.name}`
+            : status === 'REJECTED'
+            ? `Rejected by ${review.reviewedBy?.name}`
             : 'Not yet submitted for review'
         }
       >
@@ -290,12 +162,16 @@ const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
           label={statusConfig.label}
           size="small"
           color={statusConfig.color}
-          variant={workflowInfo.status === 'draft' ? 'outlined' : 'filled'}
+          variant={status === 'DRAFT' ? 'outlined' : 'filled'}
         />
       </Tooltip>
     );
   }
 
+  // Reviewer candidates: never the submitter (or the current user when submitting) or the last editor
+  const excludedReviewer = dialogAction === 'SUBMIT' ? user?.id : review.submittedById;
+  const reviewerOptions = (users || []).filter((u) => u.id !== excludedReviewer && u.id !== review.lastEditedById);
+
   // Full view with workflow controls
   return (
     <Box>
@@ -310,108 +186,161 @@ const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
             label={statusConfig.label}
             size="small"
             color={statusConfig.color}
-            variant={workflowInfo.status === 'draft' ? 'outlined' : 'filled'}
+            variant={status === 'DRAFT' ? 'outlined' : 'filled'}
           />
         </Box>
+        {review.reviewer && (
+          <Typography variant="caption" color="text.secondary">
+            Reviewer: {review.reviewer.name}
+          </Typography>
+        )}
       </Box>
 
       {/* Workflow Stepper */}
       <Stepper activeStep={statusConfig.step} alternativeLabel sx={{ mb: 2 }}>
-        <Step completed={workflowInfo.status !== 'draft'}>
-          <StepLabel>Draft</StepLabel>
+        <Step completed={statusConfig.step > 0}>
+          <StepLabel>{status === 'REOPENED' ? 'Reopened' : 'Draft'}</StepLabel>
         </Step>
-        <Step completed={workflowInfo.status === 'approved'}>
-          <StepLabel error={workflowInfo.status === 'rejected'}>
-            {workflowInfo.status === 'rejected' ? 'Rejected' : 'Review'}
+        <Step completed={status === 'APPROVED'}>
+          <StepLabel error={status === 'REJECTED'}>
+            {status === 'REJECTED' ? 'Rejected' : 'Review'}
           </StepLabel>
         </Step>
-        <Step completed={workflowInfo.status === 'approved'}>
+        <Step completed={status === 'APPROVED'}>
           <StepLabel>Approved</StepLabel>
         </Step>
       </Stepper>
 
       {/* Status Info */}
-      {workflowInfo.status === 'pending_review' && (
+      {status === 'SUBMITTED' && (
         <Alert severity="info" sx={{ mb: 2 }}>
-          Review requested by {workflowInfo.requestedBy} on{' '}
-          {new Date(workflowInfo.requestedAt!).toLocaleDateString()}
+          Submitted by {review.submittedBy?.name} on {formatDate(review.submittedAt)}
+          {review.reviewer ? ` for review by ${review.reviewer.name}` : ''}
+          {review.submittedById === user?.id && '. Another reviewer must approve your own submission.'}
+          {review.submittedById !== user?.id && review.lastEditedById === user?.id &&
+            '. Another reviewer must approve an assessment you edited.'}
         </Alert>
       )}
 
-      {workflowInfo.status === 'approved' && (
+      {status === 'APPROVED' && (
         <Alert severity="success" sx={{ mb: 2 }}>
-          Approved by {workflowInfo.approvedBy} on{' '}
-          {new Date(workflowInfo.approvedAt!).toLocaleDateString()}
+          Approved by {review.reviewedBy?.name} on {formatDate(review.reviewedAt)}
+          {review.reviewNote && ` — ${review.reviewNote}`}
         </Alert>
       )}
 
-      {workflowInfo.status === 'rejected' && (
+      {status === 'REJECTED' && (
         <Alert severity="error" sx={{ mb: 2 }}>
-          Rejected by {workflowInfo.rejectedBy} on{' '}
-          {new Date(workflowInfo.rejectedAt!).toLocaleDateString()}
+          Rejected by {review.reviewedBy?.name} on {formatDate(review.reviewedAt)}
+          {review.reviewNote && `: ${review.reviewNote}`}
+        </Alert>
+      )}
+
+      {status === 'REOPENED' && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This assessment was reopened and must be resubmitted for review.
         </Alert>
       )}
 
       {/* Action Buttons */}
       <Box display="flex" gap={1} flexWrap="wrap">
-        {(workflowInfo.status === 'draft' || workflowInfo.status === 'rejected') && (
+        {allowed.includes('SUBMIT') && (
           <Button
             variant="outlined"
             startIcon={<RequestIcon />}
-            onClick={() => openDialog('request')}
+            onClick={() => openDialog('SUBMIT')}
             size="small"
           >
-            Request Review
+            {status === 'DRAFT' ? 'Submit for Review' : 'Resubmit for Review'}
           </Button>
         )}
 
-        {workflowInfo.status === 'pending_review' && (
-          <>
-            <Button
-              variant="contained"
-              color="success"
-              startIcon={<ApproveIcon />}
-              onClick={() => openDialog('approve')}
-              size="small"
-            >
-              Approve
-            </Button>
-            <Button
-              variant="outlined"
-              color="error"
-              startIcon={<RejectIcon />}
-              onClick={() => openDialog('reject')}
-              size="small"
-            >
-              Reject
-            </Button>
-          </>
+        {allowed.includes('APPROVE') && (
+          <Button
+            variant="contained"
+            color="success"
+            startIcon={<ApproveIcon />}
+            onClick={() => openDialog('APPROVE')}
+            size="small"
+          >
+            Approve
+          </Button>
         )}
 
-        {workflowInfo.status === 'approved' && (
+        {allowed.includes('REJECT') && (
           <Button
             variant="outlined"
-            startIcon={<RequestIcon />}
-            onClick={() => openDialog('request')}
+            color="error"
+            startIcon={<RejectIcon />}
+            onClick={() => openDialog('REJECT')}
             size="small"
           >
-            Request Re-review
+            Reject
+          </Button>
+        )}
+
+        {allowed.includes('REOPEN') && (
+          <Button
+            variant="outlined"
+            startIcon={<ReopenIcon />}
+            onClick={() => openDialog('REOPEN')}
+            size="small"
+          >
+            Reopen
+          </Button>
+        )}
+
+        {allowed.includes('ASSIGN') && status === 'SUBMITTED' && (
+          <Button
+            variant="text"
+            startIcon={<AssignIcon />}
+            onClick={() => openDialog('ASSIGN')}
+            size="small"
+          >
+            Change Reviewer
           </Button>
         )}
       </Box>
 
+      {/* Review History */}
+      {review.history.length > 0 && (
+        <Box mt={2}>
+          <Typography variant="caption" color="text.secondary">
+            Review History
+          </Typography>
+          <List dense disablePadding>
+            {review.history.map((event) => (
+              <ListItem key={event.id} disableGutters>
+                <ListItemText
+                  primary={`${HISTORY_LABELS[event.action]} by ${event.actor.name}`}
+                  secondary={
+                    event.note
+                      ? `${new Date(event.createdAt).toLocaleString()} — ${event.note}`
+                      : new Date(event.createdAt).toLocaleString()
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+
       {/* Dialog for workflow actions */}
-      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+      <Dialog open={!!dialogAction} onClose={() => setDialogAction(null)} maxWidth="sm" fullWidth>
         <DialogTitle>
           <Box display="flex" justifyContent="space-between" alignItems="center">
             <Typography variant="h6">
-              {dialogMode === 'request'
-                ? 'Request Review'
-                : dialogMode === 'approve'
+              {dialogAction === 'APPROVE'
                 ? 'Approve Assessment'
-                : 'Reject Assessment'}
+                : dialogAction === 'REJECT'
+                ? 'Reject Assessment'
+                : dialogAction === 'REOPEN'
+                ? 'Reopen Assessment'
+                : dialogAction === 'ASSIGN'
+                ? 'Change Reviewer'
+                : 'Submit for Review'}
             </Typography>
-            <IconButton size="small" onClick={() => setDialogOpen(false)}>
+            <IconButton size="small" onClick={() => setDialogAction(null)}>
               <CloseIcon />
             </IconButton>
           </Box>
@@ -419,80 +348,73 @@ const ApprovalWorkflow: React.FC<ApprovalWorkflowProps> = ({
 
         <DialogContent>
           <Box sx={{ mt: 2 }}>
-            {dialogMode === 'request' && users && users.length > 0 && (
+            {dialogAction === 'SUBMIT' && assessmentStatus === 'Not Assessed' && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                This control has not been assessed yet.
+              </Alert>
+            )}
+
+            {(dialogAction === 'SUBMIT' || dialogAction === 'ASSIGN') && reviewerOptions.length > 0 && (
               <FormControl fullWidth sx={{ mb: 2 }}>
-                <InputLabel>Request review from (optional)</InputLabel>
+                <InputLabel>Reviewer (optional)</InputLabel>
                 <Select
                   value={selectedReviewer}
                   onChange={(e) => setSelectedReviewer(e.target.value)}
-                  label="Request review from (optional)"
+                  label="Reviewer (optional)"
                 >
                   <MenuItem value="">
-                    <em>Anyone</em>
+                    <em>Any eligible reviewer</em>
                   </MenuItem>
-                  {users
-                    .filter((u) => u.id !== user?.id)
-                    .map((u) => (
-                      <MenuItem key={u.id} value={u.id}>
-                        {u.name} ({u.email})
-                      </MenuItem>
-                    ))}
+                  {reviewerOptions.map((u) => (
+                    <MenuItem key={u.id} value={u.id}>
+                      {u.name} ({u.email})
+                    </MenuItem>
+                  ))}
                 </Select>
               </FormControl>
             )}
 
-            <TextField
-              label={
-                dialogMode === 'request'
-                  ? 'Note for reviewer (optional)'
-                  : dialogMode === 'approve'
-                  ? 'Approval comment (optional)'
-                  : 'Reason for rejection'
-              }
-              multiline
-              rows={3}
-              value={reviewerNote}
-              onChange={(e) => setReviewerNote(e.target.value)}
-              fullWidth
-              placeholder={
-                dialogMode === 'request'
-                  ? 'Add any notes for the reviewer...'
-                  : dialogMode === 'approve'
-                  ? 'Add any comments about the approval...'
-                  : 'Please provide a reason for rejection...'
-              }
-              required={dialogMode === 'reject'}
-            />
+            {dialogAction !== 'ASSIGN' && (
+              <TextField
+                label={
+                  dialogAction === 'SUBMIT'
+                    ? 'Note for reviewer (optional)'
+                    : dialogAction === 'APPROVE'
+                    ? 'Approval comment (optional)'
+                    : dialogAction === 'REOPEN'
+                    ? 'Reason for reopening (optional)'
+                    : 'Reason for rejection'
+                }
+                multiline
+                rows={3}
+                value={reviewerNote}
+                onChange={(e) => setReviewerNote(e.target.value)}
+                fullWidth
+                required={dialogAction === 'REJECT'}
+              />
+            )}
           </Box>
         </DialogContent>
 
         <DialogActions>
-          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button onClick={() => setDialogAction(null)}>Cancel</Button>
           <Button
             variant="contained"
             color={
-              dialogMode === 'approve'
+              dialogAction === 'APPROVE'
                 ? 'success'
-                : dialogMode === 'reject'
+                : dialogAction === 'REJECT'
                 ? 'error'
                 : 'primary'
             }
-            onClick={
-              dialogMode === 'request'
-                ? handleRequestReview
-                : dialogMode === 'approve'
-                ? handleApprove
-                : handleReject
-            }
-            disabled={createComment.isPending || (dialogMode === 'reject' && !reviewerNote.trim())}
+            onClick={handleConfirm}
+            disabled={reviewAssessment.isPending || (dialogAction === 'REJECT' && !reviewerNote.trim())}
           >
-            {createComment.isPending
+            {reviewAssessment.isPending
               ? 'Processing...'
-              : dialogMode === 'request'
-              ? 'Request Review'
-              : dialogMode === 'approve'
-              ? 'Approve'
-              : 'Reject'}
+              : dialogAction
+              ? ACTION_LABELS[dialogAction]
+              : ''}
           </Button>
         </DialogActions>
       </Dialog>
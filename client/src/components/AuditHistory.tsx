@@ -1,8 +1,9 @@
 /**
  * Audit History Component
  *
- * Displays the change history/audit trail for an entity (Assessment, Product, etc.).
- * Shows who made what changes and when, with expandable details.
+ * Displays the change history/audit trail for any audited entity (Assessment,
+ * Product, Risk, etc.). Shows who made what changes and when, with expandable
+ * details; creates and deletes list the recorded values.
  */
 
 import React, { useState } from 'react';
@@ -39,6 +40,7 @@ import {
   Logout as LogoutIcon,
   History as HistoryIcon,
   Refresh as RefreshIcon,
+  FactCheck as ReviewIcon,
 } from '@mui/icons-material';
 import {
   useEntityAuditHistory,
@@ -67,7 +69,9 @@ function getActionIcon(action: AuditAction) {
     VIEW: <ViewIcon fontSize="small" />,
     EXPORT: <ExportIcon fontSize="small" />,
     LOGIN: <LoginIcon fontSize="small" />,
+    LOGIN_FAILED: <LoginIcon fontSize="small" />,
     LOGOUT: <LogoutIcon fontSize="small" />,
+    REVIEW: <ReviewIcon fontSize="small" />,
   };
   return icons[action] || <HistoryIcon fontSize="small" />;
 }
@@ -115,8 +119,8 @@ function getInitials(name: string): string {
 const AuditEntry: React.FC<{ log: AuditLog; compact: boolean }> = ({ log, compact }) => {
   const [expanded, setExpanded] = useState(false);
   const timestamp = formatTimestamp(log.timestamp);
-  const hasDetails = log.changedFields && log.changedFields.length > 0;
   const changes = formatChangedFields(log.changedFields, log.previousValue, log.newValue);
+  const hasDetails = changes.length > 0;
 
   return (
     <>
@@ -190,7 +194,7 @@ const AuditEntry: React.FC<{ log: AuditLog; compact: boolean }> = ({ log, compac
           <Box sx={{ px: 2, pb: 2, pl: 7 }}>
             <Paper variant="outlined" sx={{ p: 1 }}>
               <Typography variant="caption" fontWeight="medium" gutterBottom display="block">
-                Changed Fields:
+                {log.action === 'UPDATE' ? 'Changed Fields:' : 'Recorded Values:'}
               </Typography>
               <Table size="small" sx={{ '& td': { py: 0.5, px: 1, fontSize: '0.75rem' } }}>
                 <TableBody>
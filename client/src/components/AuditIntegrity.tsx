@@ -0,0 +1,222 @@
+/**
+ * Audit Integrity
+ *
+ * Admin and auditor view of the tamper-evident audit log: check the hash
+ * chain and checkpoint signatures, sign the current head, and export a
+ * signed audit package for a date range that can be checked offline with
+ * server/scripts/verify-audit-package.ts against the public key shown here.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Draw as SignIcon,
+  VerifiedUser as VerifyIcon,
+} from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  downloadAuditPackage,
+  useAuditSigningKey,
+  useCreateAuditCheckpoint,
+  useVerifyAuditLog,
+} from '../hooks/useAudit';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+
+const AuditIntegrity: React.FC = () => {
+  const { showNotification } = useNotification();
+  const verify = useVerifyAuditLog();
+  const createCheckpoint = useCreateAuditCheckpoint();
+  const { data: signingKey } = useAuditSigningKey();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const result = verify.data;
+
+  const handleVerify = async () => {
+    try {
+      await verify.mutateAsync();
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleCheckpoint = async () => {
+    try {
+      const checkpoint = await createCheckpoint.mutateAsync();
+      showNotification(
+        checkpoint ? `Chain signed up to entry ${checkpoint.sequence}` : 'The audit log is empty',
+        'success'
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      // Dates are whole local days, so the end date includes that day
+      await downloadAuditPackage(
+        startDate ? new Date(`${startDate}T00:00:00`).toISOString() : undefined,
+        endDate ? new Date(`${endDate}T23:59:59.999`).toISOString() : undefined
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6">Audit Log Integrity</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Each entry is hash-chained to the one before it, and the chain head is signed periodically.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+          <Button
+            variant="outlined"
+            startIcon={createCheckpoint.isPending ? <CircularProgress size={16} color="inherit" /> : <SignIcon />}
+            onClick={handleCheckpoint}
+            disabled={createCheckpoint.isPending}
+          >
+            Sign Now
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={verify.isPending ? <CircularProgress size={16} color="inherit" /> : <VerifyIcon />}
+            onClick={handleVerify}
+            disabled={verify.isPending}
+          >
+            Verify Chain
+          </Button>
+        </Box>
+      </Box>
+
+      {result && (
+        <>
+          <Alert severity={result.valid ? 'success' : 'error'} sx={{ mb: 2 }}>
+            {result.valid
+              ? `${result.entriesChecked} entries and ${result.checkpointsChecked} checkpoints verified`
+              : `${result.issueCount} integrity issue(s) found in ${result.entriesChecked} entries`}
+            {result.lastCheckpoint &&
+              `. Last signed at entry ${result.lastCheckpoint.sequence}, ${formatDistanceToNow(
+                new Date(result.lastCheckpoint.createdAt),
+                { addSuffix: true }
+              )}.`}
+          </Alert>
+          {result.legacyEntries > 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {result.legacyEntries} entries were recorded before chaining was enabled and are not covered.
+            </Alert>
+          )}
+          {result.issues.length > 0 && (
+            <TableContainer sx={{ mb: 2 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Entry</TableCell>
+                    <TableCell>Issue</TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.issues.map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{issue.sequence}</TableCell>
+                      <TableCell>
+                        <Chip size="small" color="error" variant="outlined" label={issue.type.replace(/_/g, ' ')} />
+                      </TableCell>
+                      <TableCell>{issue.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {result.issueCount > result.issues.length && (
+                <Typography variant="caption" color="text.secondary">
+                  Showing the first {result.issues.length} of {result.issueCount} issues
+                </Typography>
+              )}
+            </TableContainer>
+          )}
+        </>
+      )}
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h6">Audit Package</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Entries, checkpoints and a signed manifest for external auditors. Leave the dates empty to export everything.
+        </Typography>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+        <TextField
+          size="small"
+          type="date"
+          label="From"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="To"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <Button
+          variant="contained"
+          startIcon={exporting ? <CircularProgress size={16} color="inherit" /> : <DownloadIcon />}
+          onClick={handleExport}
+          disabled={exporting}
+        >
+          Export Package
+        </Button>
+      </Box>
+
+      {signingKey && (
+        <Box>
+          <Typography variant="subtitle2" gutterBottom>
+            Signing key {signingKey.keyId} ({signingKey.algorithm})
+          </Typography>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Give auditors this key to check packages with{' '}
+            <code>npx ts-node scripts/verify-audit-package.ts package.zip --public-key key.pem</code>
+          </Typography>
+          <Box
+            component="pre"
+            sx={{ fontFamily: 'monospace', fontSize: 12, bgcolor: 'action.hover', p: 1.5, borderRadius: 1, m: 0 }}
+          >
+            {signingKey.publicKey}
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AuditIntegrity;
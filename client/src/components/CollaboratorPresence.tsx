@@ -0,0 +1,81 @@
+/**
+ * Collaborator Presence
+ *
+ * Avatars of the other people viewing the same product, from its live
+ * channel (hooks/useRealtime.ts), with what each is editing on hover.
+ */
+
+import React from 'react';
+import { Avatar, AvatarGroup, Box, Chip, Tooltip, Typography } from '@mui/material';
+import type { PresenceFocus, PresenceUser } from '../hooks/useRealtime';
+
+interface CollaboratorPresenceProps {
+  presence: PresenceUser[];
+  connected: boolean;
+  describeFocus?: (focus: PresenceFocus) => string;
+}
+
+// Helper: initials for an avatar
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+}
+
+const CollaboratorPresence: React.FC<CollaboratorPresenceProps> = ({
+  presence,
+  connected,
+  describeFocus = (focus) => focus.controlId,
+}) => {
+  if (!connected) {
+    return (
+      <Tooltip title="Live updates are reconnecting; refresh to see the latest changes">
+        <Chip size="small" variant="outlined" label="Reconnecting" />
+      </Tooltip>
+    );
+  }
+
+  // One avatar per person, even with several tabs open
+  const people = Array.from(
+    presence
+      .reduce((byUser, entry) => {
+        const existing = byUser.get(entry.user.id);
+        byUser.set(entry.user.id, existing?.focus ? existing : entry);
+        return byUser;
+      }, new Map<string, PresenceUser>())
+      .values()
+  );
+
+  if (people.length === 0) {
+    return (
+      <Tooltip title="Changes made by others appear here as they happen">
+        <Chip size="small" color="success" variant="outlined" label="Live" />
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <AvatarGroup max={5} sx={{ '& .MuiAvatar-root': { width: 28, height: 28, fontSize: 12 } }}>
+        {people.map((entry) => (
+          <Tooltip
+            key={entry.user.id}
+            title={
+              entry.focus ? `${entry.user.name} is editing ${describeFocus(entry.focus)}` : `${entry.user.name} is viewing`
+            }
+          >
+            <Avatar sx={{ bgcolor: entry.focus ? 'warning.main' : 'primary.main' }}>{initials(entry.user.name)}</Avatar>
+          </Tooltip>
+        ))}
+      </AvatarGroup>
+      <Typography variant="caption" color="text.secondary">
+        {people.length} other{people.length === 1 ? '' : 's'} here
+      </Typography>
+    </Box>
+  );
+};
+
+export default CollaboratorPresence;
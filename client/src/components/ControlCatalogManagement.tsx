@@ -0,0 +1,234 @@
+/**
+ * Control Catalog Management
+ *
+ * Admin view of the control catalogs products can be assessed against, with
+ * a reload of catalogs added under the server's data/catalogs directory, and
+ * the import of the NIST 800-53 Rev 5 OSCAL catalog and its
+ * LOW/MODERATE/HIGH/PRIVACY baseline profiles, which replace the bundled
+ * control data once imported.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Refresh as RefreshIcon, Upload as UploadIcon } from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import { useOscalSources, useImportOscalDocument } from '../hooks/useOscal';
+import { useControlCatalogs, useSyncControlCatalogs } from '../hooks/useCatalogs';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { OscalBaseline } from '../types/api.types';
+
+const BASELINES: OscalBaseline[] = ['LOW', 'MODERATE', 'HIGH', 'PRIVACY'];
+
+const ControlCatalogManagement: React.FC = () => {
+  const { showNotification } = useNotification();
+  const { data, isLoading } = useOscalSources();
+  const importDocument = useImportOscalDocument();
+  const { data: catalogs = [], isLoading: catalogsLoading } = useControlCatalogs();
+  const syncCatalogs = useSyncControlCatalogs();
+  const fileInput = useRef<HTMLInputElement>(null);
+  // Only needed for profiles whose title doesn't name the baseline
+  const [baseline, setBaseline] = useState<OscalBaseline | ''>('');
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await importDocument.mutateAsync({ file, baseline: baseline || undefined });
+      const what = result.kind === 'catalog' ? 'Catalog' : `${result.baseline} baseline`;
+      showNotification(`${what} imported: ${result.controlCount} controls and enhancements`, 'success');
+      if (result.unknownControlIds.length > 0) {
+        showNotification(
+          `${result.unknownControlIds.length} control IDs in the profile are not in the catalog`,
+          'warning'
+        );
+      }
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      const results = await syncCatalogs.mutateAsync();
+      const loaded = results.filter((r) => r.status === 'LOADED').length;
+      const failed = results.filter((r) => r.status === 'FAILED');
+      showNotification(loaded > 0 ? `${loaded} catalog(s) reloaded` : 'All catalogs are up to date', 'success');
+      failed.forEach((r) => showNotification(`${r.source}: ${r.error}`, 'error'));
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const sources = data?.sources || [];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6">Control Catalogs</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Control sets a product can be baselined and assessed against, chosen per product.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={syncCatalogs.isPending ? <CircularProgress size={16} color="inherit" /> : <RefreshIcon />}
+          onClick={handleSync}
+          disabled={syncCatalogs.isPending}
+          sx={{ flexShrink: 0 }}
+        >
+          Reload Catalogs
+        </Button>
+      </Box>
+
+      {catalogsLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Catalog</TableCell>
+                <TableCell>Version</TableCell>
+                <TableCell>Controls</TableCell>
+                <TableCell>Products</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell>Loaded</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {catalogs.map((catalog) => (
+                <TableRow key={catalog.id} hover>
+                  <TableCell>
+                    {catalog.name}
+                    {catalog.isDefault && <Chip size="small" label="Default" sx={{ ml: 1 }} />}
+                  </TableCell>
+                  <TableCell>{catalog.version || '—'}</TableCell>
+                  <TableCell>{catalog.controlCount}</TableCell>
+                  <TableCell>{catalog.productCount}</TableCell>
+                  <TableCell>
+                    <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+                      {catalog.source}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{formatDistanceToNow(new Date(catalog.loadedAt), { addSuffix: true })}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+        <Box>
+          <Typography variant="h6">NIST 800-53 Catalog</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Import the OSCAL catalog and baseline profiles that controls, baselines and priorities are read from.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexShrink: 0 }}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Baseline</InputLabel>
+            <Select
+              label="Baseline"
+              value={baseline}
+              onChange={(e) => setBaseline(e.target.value as OscalBaseline | '')}
+            >
+              <MenuItem value="">From title</MenuItem>
+              {BASELINES.map((b) => (
+                <MenuItem key={b} value={b}>
+                  {b}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="contained"
+            startIcon={importDocument.isPending ? <CircularProgress size={16} color="inherit" /> : <UploadIcon />}
+            onClick={() => fileInput.current?.click()}
+            disabled={importDocument.isPending}
+          >
+            Import OSCAL
+          </Button>
+          <input ref={fileInput} type="file" accept=".json,application/json" hidden onChange={handleFile} />
+        </Box>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          {data?.format === 'LEGACY' && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              No OSCAL catalog imported yet; the bundled 800-53 data is in use.
+            </Alert>
+          )}
+          {sources.length > 0 && (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Document</TableCell>
+                    <TableCell>Title</TableCell>
+                    <TableCell>Version</TableCell>
+                    <TableCell>Controls</TableCell>
+                    <TableCell>Imported</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sources.map((source) => (
+                    <TableRow key={`${source.kind}-${source.baseline}`} hover>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={source.kind === 'catalog' ? 'Catalog' : `${source.baseline} baseline`}
+                          color={source.kind === 'catalog' ? 'primary' : 'default'}
+                          variant={source.kind === 'catalog' ? 'filled' : 'outlined'}
+                        />
+                      </TableCell>
+                      <TableCell>{source.title}</TableCell>
+                      <TableCell>{source.version || '—'}</TableCell>
+                      <TableCell>{source.controlCount}</TableCell>
+                      <TableCell>
+                        {formatDistanceToNow(new Date(source.importedAt), { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ControlCatalogManagement;
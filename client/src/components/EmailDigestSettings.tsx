@@ -0,0 +1,122 @@
+/**
+ * Email Digest Settings
+ *
+ * Opt-in and frequency for the daily/weekly email digest of open tasks,
+ * overdue items, mentions and score changes. Changes are saved immediately.
+ */
+
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { Send as SendIcon } from '@mui/icons-material';
+import { useEmailDigest, useUpdateEmailDigest, useSendTestDigest } from '../hooks/useNotifications';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { DigestFrequency } from '../types/api.types';
+
+const EmailDigestSettings: React.FC = () => {
+  const { showNotification } = useNotification();
+  const { data: digest, isLoading } = useEmailDigest();
+  const updateDigest = useUpdateEmailDigest();
+  const sendTest = useSendTestDigest();
+
+  const handleUpdate = async (data: { enabled?: boolean; frequency?: DigestFrequency }) => {
+    try {
+      await updateDigest.mutateAsync(data);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleSendTest = async () => {
+    try {
+      const result = await sendTest.mutateAsync();
+      if (result.transport === 'log') {
+        showNotification('SMTP is not configured; the digest was written to the server log', 'warning');
+      } else {
+        showNotification('Test digest sent', 'success');
+      }
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  if (isLoading || !digest) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {digest.transport === 'log' && (
+        <Alert severity="info">
+          Email delivery is not configured on the server. Digests will be logged instead of sent.
+        </Alert>
+      )}
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={digest.enabled}
+            onChange={(e) => handleUpdate({ enabled: e.target.checked })}
+            disabled={updateDigest.isPending}
+          />
+        }
+        label={
+          <Box>
+            <Typography variant="body1">Email Digest</Typography>
+            <Typography variant="caption" color="text.secondary">
+              Your open remediation tasks, overdue items, new mentions and score changes on your products
+            </Typography>
+          </Box>
+        }
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <FormControl size="small" sx={{ minWidth: 160 }} disabled={!digest.enabled || updateDigest.isPending}>
+          <InputLabel>Frequency</InputLabel>
+          <Select
+            value={digest.frequency}
+            label="Frequency"
+            onChange={(e) => handleUpdate({ frequency: e.target.value as DigestFrequency })}
+          >
+            <MenuItem value="DAILY">Daily</MenuItem>
+            <MenuItem value="WEEKLY">Weekly (Mondays)</MenuItem>
+          </Select>
+        </FormControl>
+
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={sendTest.isPending ? <CircularProgress size={16} /> : <SendIcon />}
+          onClick={handleSendTest}
+          disabled={sendTest.isPending}
+        >
+          Send Test Digest
+        </Button>
+
+        {digest.lastSentAt && (
+          <Typography variant="caption" color="text.secondary">
+            Last sent {new Date(digest.lastSentAt).toLocaleString()}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default EmailDigestSettings;
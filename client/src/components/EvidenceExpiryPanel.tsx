@@ -0,0 +1,134 @@
+/**
+ * Evidence Expiry Panel
+ *
+ * Lists a system's evidence that has expired or expires within a chosen window,
+ * and highlights assessments flagged because all of their evidence has lapsed.
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  Alert,
+  Stack,
+  Link,
+} from '@mui/material';
+import { EventBusy as ExpiryIcon } from '@mui/icons-material';
+import { useExpiringEvidence, getEvidenceTypeLabel } from '../hooks/useEvidence';
+
+interface EvidenceExpiryPanelProps {
+  systemId: string;
+  productId: string;
+}
+
+const WINDOWS = [30, 60, 90];
+
+const getExpiryChip = (daysRemaining: number) => {
+  if (daysRemaining <= 0) return <Chip label="Expired" size="small" color="error" />;
+  if (daysRemaining <= 7) return <Chip label={`${daysRemaining}d left`} size="small" color="warning" />;
+  return <Chip label={`${daysRemaining}d left`} size="small" variant="outlined" />;
+};
+
+const EvidenceExpiryPanel: React.FC<EvidenceExpiryPanelProps> = ({ systemId, productId }) => {
+  const navigate = useNavigate();
+  const [days, setDays] = useState(30);
+  const { data, isLoading } = useExpiringEvidence({ systemId, days });
+
+  const evidence = data?.evidence || [];
+
+  return (
+    <Paper sx={{ p: 3, mt: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ExpiryIcon color="primary" />
+            Evidence Expiry
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Expired evidence and evidence expiring in the next {days} days
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={days}
+          onChange={(_, value) => value && setDays(value)}
+        >
+          {WINDOWS.map((option) => (
+            <ToggleButton key={option} value={option}>
+              {option}d
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {data && data.summary.lapsedAssessments > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {data.summary.lapsedAssessments} assessment(s) no longer have any current evidence.
+          Upload fresh evidence or re-assess these controls.
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : evidence.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No evidence has expired or expires in this window.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Control</TableCell>
+              <TableCell>File</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Expires</TableCell>
+              <TableCell>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {evidence.map((item) => (
+              <TableRow key={item.id} hover>
+                <TableCell>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Link
+                      component="button"
+                      variant="body2"
+                      onClick={() =>
+                        navigate(`/assess/${productId}/${systemId}?control=${item.assessment.subcategoryId}`)
+                      }
+                    >
+                      {item.assessment.subcategoryId}
+                    </Link>
+                    {item.assessment.evidenceLapsedAt && (
+                      <Chip label="Evidence lapsed" size="small" color="warning" variant="outlined" />
+                    )}
+                  </Stack>
+                </TableCell>
+                <TableCell>{item.originalName}</TableCell>
+                <TableCell>{getEvidenceTypeLabel(item.evidenceType)}</TableCell>
+                <TableCell>{new Date(item.expiresAt).toLocaleDateString()}</TableCell>
+                <TableCell>{getExpiryChip(item.daysRemaining)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+};
+
+export default EvidenceExpiryPanel;
@@ -60,8 +60,18 @@ import {
 interface EvidenceUploadProps {
   assessmentId: string;
   readOnly?: boolean;
+  // Defaults to !readOnly; evidence deletion is granted separately from upload
+  canDelete?: boolean;
 }
 
+// Helper text describing the expiry applied when no date is entered
+const getValidityHint = (evidenceType: string): string => {
+  const type = EVIDENCE_TYPES.find((t) => t.value === (evidenceType || 'OTHER'));
+  return type?.validityDays
+    ? `Leave blank for the default of ${type.validityDays} days`
+    : 'Leave blank if the evidence does not expire';
+};
+
 const getFileIconComponent = (mimeType: string) => {
   if (mimeType.startsWith('image/')) return <ImageIcon color="primary" />;
   if (mimeType === 'application/pdf') return <PdfIcon color="error" />;
@@ -73,7 +83,11 @@ const getFileIconComponent = (mimeType: string) => {
   return <FileIcon />;
 };
 
-export const EvidenceUpload: React.FC<EvidenceUploadProps> = ({ assessmentId, readOnly = false }) => {
+export const EvidenceUpload: React.FC<EvidenceUploadProps> = ({
+  assessmentId,
+  readOnly = false,
+  canDelete = !readOnly,
+}) => {
   const [description, setDescription] = useState('');
   const [evidenceType, setEvidenceType] = useState('');
   const [expiresAt, setExpiresAt] = useState('');
@@ -308,7 +322,7 @@ export const EvidenceUpload: React.FC<EvidenceUploadProps> = ({ assessmentId, re
                     value={expiresAt}
                     onChange={(e) => setExpiresAt(e.target.value)}
                     InputLabelProps={{ shrink: true }}
-                    helperText="Set if evidence expires"
+                    helperText={getValidityHint(evidenceType)}
                   />
                 </Grid>
               </Grid>
@@ -417,23 +431,23 @@ export const EvidenceUpload: React.FC<EvidenceUploadProps> = ({ assessmentId, re
                     </IconButton>
                   </Tooltip>
                   {!readOnly && (
-                    <>
-                      <Tooltip title="Edit description">
-                        <IconButton onClick={() => handleEditClick(evidence)} size="small">
-                          <EditIcon />
-                        </IconButton>
-                      </Tooltip>
-                      <Tooltip title="Delete">
-                        <IconButton
-                          edge="end"
-                          onClick={() => handleDeleteClick(evidence)}
-                          size="small"
-                          color="error"
-                        >
-                          <DeleteIcon />
-                        </IconButton>
-                      </Tooltip>
-                    </>
+                    <Tooltip title="Edit details">
+                      <IconButton onClick={() => handleEditClick(evidence)} size="small">
+                        <EditIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {canDelete && (
+                    <Tooltip title="Delete">
+                      <IconButton
+                        edge="end"
+                        onClick={() => handleDeleteClick(evidence)}
+                        size="small"
+                        color="error"
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
                   )}
                 </ListItemSecondaryAction>
               </ListItem>
@@ -488,6 +502,7 @@ export const EvidenceUpload: React.FC<EvidenceUploadProps> = ({ assessmentId, re
                   value={editExpiresAt}
                   onChange={(e) => setEditExpiresAt(e.target.value)}
                   InputLabelProps={{ shrink: true }}
+                  helperText={getValidityHint(editEvidenceType)}
                 />
               </Grid>
             </Grid>
@@ -0,0 +1,189 @@
+/**
+ * Loss Estimate Editor
+ *
+ * FAIR-style loss estimate for a register risk or a control gap: minimum,
+ * most likely and maximum loss event frequency (per year) and loss magnitude
+ * (per event). Estimates describe the unmitigated case; the simulation scales
+ * the frequency by how well the risk's controls or the gap's assessment are
+ * implemented.
+ */
+
+import React, { useState } from 'react';
+import { Box, Typography, Button, TextField, Stack, CircularProgress } from '@mui/material';
+import { Edit as EditIcon, Delete as DeleteIcon, Calculate as EstimateIcon } from '@mui/icons-material';
+import { useLossEstimates, useSaveLossEstimate, useDeleteLossEstimate } from '../hooks/useRiskQuantification';
+import { useProductPermissions } from '../hooks/usePermissions';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { LossEstimate, LossEstimateInput } from '../types/api.types';
+
+interface LossEstimateEditorProps {
+  productId: string;
+  // Exactly one of riskId / assessmentId
+  riskId?: string;
+  assessmentId?: string;
+}
+
+type RangeField = Exclude<keyof LossEstimateInput, 'notes'>;
+
+const RANGES: { label: string; unit: string; fields: [RangeField, RangeField, RangeField] }[] = [
+  {
+    label: 'Loss event frequency',
+    unit: 'per year',
+    fields: ['frequencyMin', 'frequencyMostLikely', 'frequencyMax'],
+  },
+  {
+    label: 'Loss magnitude',
+    unit: 'USD per event',
+    fields: ['magnitudeMin', 'magnitudeMostLikely', 'magnitudeMax'],
+  },
+];
+
+const BOUND_LABELS = ['Minimum', 'Most likely', 'Maximum'];
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const toForm = (estimate?: LossEstimate) =>
+  Object.fromEntries(
+    RANGES.flatMap((r) => r.fields).map((field) => [field, estimate ? String(estimate[field]) : ''])
+  ) as Record<RangeField, string>;
+
+const LossEstimateEditor: React.FC<LossEstimateEditorProps> = ({ productId, riskId, assessmentId }) => {
+  const { showNotification } = useNotification();
+  const { can } = useProductPermissions(productId);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState(toForm);
+  const [notes, setNotes] = useState('');
+
+  const { data: estimates = [], isLoading } = useLossEstimates(productId);
+  const saveEstimate = useSaveLossEstimate();
+  const deleteEstimate = useDeleteLossEstimate();
+
+  const estimate = estimates.find((e) => (riskId ? e.riskId === riskId : e.assessmentId === assessmentId));
+
+  const values = Object.fromEntries(Object.entries(form).map(([field, value]) => [field, Number(value)])) as Record<
+    RangeField,
+    number
+  >;
+  const isValid =
+    Object.values(form).every((value) => value.trim() !== '' && Number(value) >= 0) &&
+    RANGES.every(({ fields: [min, mostLikely, max] }) => values[min] <= values[mostLikely] && values[mostLikely] <= values[max]);
+
+  const startEditing = () => {
+    setForm(toForm(estimate));
+    setNotes(estimate?.notes || '');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveEstimate.mutateAsync({ riskId, assessmentId, ...values, notes: notes.trim() || null });
+      showNotification('Loss estimate saved', 'success');
+      setEditing(false);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!estimate || !window.confirm('Remove this loss estimate?')) return;
+    try {
+      await deleteEstimate.mutateAsync(estimate.id);
+      showNotification('Loss estimate removed', 'success');
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  if (isLoading) {
+    return <CircularProgress size={16} />;
+  }
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+        <Typography variant="subtitle2" color="primary">
+          Loss Estimate
+        </Typography>
+        {!editing && can('assessment:edit') && (
+          <Box>
+            {estimate && (
+              <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={handleDelete}>
+                Remove
+              </Button>
+            )}
+            <Button size="small" startIcon={estimate ? <EditIcon /> : <EstimateIcon />} onClick={startEditing}>
+              {estimate ? 'Edit' : 'Add Estimate'}
+            </Button>
+          </Box>
+        )}
+      </Box>
+
+      {editing ? (
+        <Stack spacing={2}>
+          {RANGES.map((range) => (
+            <Box key={range.label}>
+              <Typography variant="caption" color="text.secondary">
+                {range.label} ({range.unit})
+              </Typography>
+              <Stack direction="row" spacing={1} sx={{ mt: 0.5 }}>
+                {range.fields.map((field, i) => (
+                  <TextField
+                    key={field}
+                    label={BOUND_LABELS[i]}
+                    type="number"
+                    size="small"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    inputProps={{ min: 0, step: 'any' }}
+                    fullWidth
+                  />
+                ))}
+              </Stack>
+            </Box>
+          ))}
+          <TextField
+            label="Notes"
+            size="small"
+            multiline
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Sources and assumptions behind the ranges..."
+            fullWidth
+          />
+          <Box display="flex" justifyContent="flex-end" gap={1}>
+            <Button size="small" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button size="small" variant="contained" onClick={handleSave} disabled={!isValid || saveEstimate.isPending}>
+              Save Estimate
+            </Button>
+          </Box>
+        </Stack>
+      ) : estimate ? (
+        <Box>
+          <Typography variant="body2">
+            {estimate.frequencyMin}–{estimate.frequencyMax} events per year (most likely {estimate.frequencyMostLikely})
+          </Typography>
+          <Typography variant="body2">
+            {formatUsd(estimate.magnitudeMin)}–{formatUsd(estimate.magnitudeMax)} per event (most likely{' '}
+            {formatUsd(estimate.magnitudeMostLikely)})
+          </Typography>
+          {estimate.notes && (
+            <Typography variant="caption" color="text.secondary">
+              {estimate.notes}
+            </Typography>
+          )}
+        </Box>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          Estimate how often this loss occurs and what it costs to include it in the product's loss exposure.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default LossEstimateEditor;
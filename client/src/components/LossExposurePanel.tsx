@@ -0,0 +1,220 @@
+/**
+ * Loss Exposure Panel
+ *
+ * Monte Carlo results for one product's loss estimates:
+ * - Expected and tail annualized loss exposure
+ * - Distribution of simulated annual losses and the loss-exceedance curve
+ *   (probability that a year's losses exceed an amount)
+ * - Open remediation tasks ranked by the expected annual loss they remove
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+  LinearProgress,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+} from 'recharts';
+import { format } from 'date-fns';
+import { useLossSimulation } from '../hooks/useRiskQuantification';
+import { getErrorMessage } from '../services/api';
+
+interface LossExposurePanelProps {
+  products: { id: string; name: string }[];
+}
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+// Axis labels: $1.2M, $350K
+const formatCompact = (value: number) =>
+  `$${value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 1 })}`;
+
+const LossExposurePanel: React.FC<LossExposurePanelProps> = ({ products }) => {
+  const theme = useTheme();
+  const [selectedId, setSelectedId] = useState('');
+  const productId = selectedId || products[0]?.id;
+
+  const { data: simulation, isLoading, error } = useLossSimulation(productId);
+
+  const tooltipStyle = {
+    backgroundColor: theme.palette.background.paper,
+    borderRadius: 8,
+    border: `1px solid ${theme.palette.divider}`,
+  };
+
+  const stats = simulation && [
+    { label: 'Expected annual loss', value: simulation.annualizedLoss.mean },
+    { label: 'Median (P50)', value: simulation.annualizedLoss.p50 },
+    { label: '1-in-10 year (P90)', value: simulation.annualizedLoss.p90 },
+    { label: '1-in-100 year (P99)', value: simulation.annualizedLoss.p99 },
+  ];
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Box>
+            <Typography variant="h6" fontWeight="bold">
+              Annualized Loss Exposure
+            </Typography>
+            {simulation && (
+              <Typography variant="caption" color="text.secondary">
+                {simulation.iterations.toLocaleString()} simulated years ·{' '}
+                {format(new Date(simulation.simulatedAt), 'MMM d, HH:mm')}
+              </Typography>
+            )}
+          </Box>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Product</InputLabel>
+            <Select value={productId || ''} label="Product" onChange={(e) => setSelectedId(e.target.value)}>
+              {products.map((p) => (
+                <MenuItem key={p.id} value={p.id}>
+                  {p.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        {!productId ? (
+          <Typography variant="body2" color="text.secondary">
+            No products configured
+          </Typography>
+        ) : isLoading ? (
+          <LinearProgress />
+        ) : error ? (
+          <Alert severity="error">{getErrorMessage(error)}</Alert>
+        ) : !simulation || simulation.scenarios.length === 0 ? (
+          <Alert severity="info">
+            Add loss estimates to register risks or control gaps to quantify this product's loss exposure.
+          </Alert>
+        ) : (
+          <Grid container spacing={3}>
+            {stats!.map((stat) => (
+              <Grid item xs={6} md={3} key={stat.label}>
+                <Box sx={{ p: 2, borderRadius: 2, bgcolor: alpha(theme.palette.error.main, 0.06) }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {stat.label}
+                  </Typography>
+                  <Typography variant="h5" fontWeight="bold">
+                    {formatUsd(stat.value)}
+                  </Typography>
+                </Box>
+              </Grid>
+            ))}
+
+            <Grid item xs={12} md={6}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                Simulated Annual Loss
+              </Typography>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={simulation.histogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={alpha(theme.palette.divider, 0.3)} />
+                  <XAxis dataKey="to" tickFormatter={formatCompact} tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} />
+                  <RechartsTooltip
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? `${formatUsd(payload[0].payload.from)} – ${formatUsd(payload[0].payload.to)}` : ''
+                    }
+                    formatter={(value: number) => [value.toLocaleString(), 'Simulated years']}
+                    contentStyle={tooltipStyle}
+                  />
+                  <Bar dataKey="count" fill={theme.palette.error.main} />
+                </BarChart>
+              </ResponsiveContainer>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                Loss Exceedance
+              </Typography>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={simulation.lossExceedance}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={alpha(theme.palette.divider, 0.3)} />
+                  <XAxis dataKey="loss" tickFormatter={formatCompact} tick={{ fontSize: 11 }} />
+                  <YAxis
+                    domain={[0, 1]}
+                    tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <RechartsTooltip
+                    labelFormatter={(value) => `Annual loss above ${formatUsd(Number(value))}`}
+                    formatter={(value: number) => [`${(value * 100).toFixed(0)}%`, 'Probability']}
+                    contentStyle={tooltipStyle}
+                  />
+                  <Line type="monotone" dataKey="probability" stroke={theme.palette.primary.main} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </Grid>
+
+            <Grid item xs={12}>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                Expected Reduction by Remediation Task
+              </Typography>
+              {simulation.remediation.length > 0 ? (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Task</TableCell>
+                      <TableCell>Control</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Due</TableCell>
+                      <TableCell align="right">Annual loss removed</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {simulation.remediation.slice(0, 10).map((task) => (
+                      <TableRow key={task.taskId}>
+                        <TableCell>{task.title}</TableCell>
+                        <TableCell>
+                          {task.controlId} · {task.systemName}
+                        </TableCell>
+                        <TableCell>{task.status.replace('_', ' ')}</TableCell>
+                        <TableCell>{task.dueDate ? format(new Date(task.dueDate), 'MMM dd, yyyy') : '—'}</TableCell>
+                        <TableCell align="right">
+                          {formatUsd(task.expectedReduction)} ({task.reductionPercent}%)
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No open remediation task addresses an estimated loss.
+                </Typography>
+              )}
+            </Grid>
+          </Grid>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LossExposurePanel;
@@ -0,0 +1,283 @@
+/**
+ * NIST 800-53 Baseline Panel
+ *
+ * For products assessed against NIST SP 800-53: the LOW/MODERATE/HIGH baseline
+ * selected by the product's FIPS 199 impact level, and its tailoring. Controls
+ * and enhancements are added to or removed from the baseline one at a time,
+ * each with a justification.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Refresh as RefreshIcon, Tune as TuneIcon, Undo as UndoIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useNistBaseline, useSelectNistBaseline, useTailorNistBaseline } from '../hooks/useBaseline';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { CSFSubcategory } from '../types/api.types';
+
+interface NistBaselinePanelProps {
+  productId: string;
+  // Every 800-53 control and enhancement
+  controls: CSFSubcategory[];
+  // Controls currently in the product's baseline
+  applicableIds: string[];
+  canEdit: boolean;
+}
+
+const NistBaselinePanel: React.FC<NistBaselinePanelProps> = ({ productId, controls, applicableIds, canEdit }) => {
+  const { showNotification } = useNotification();
+  const { data: status, isLoading } = useNistBaseline(productId);
+  const selectBaseline = useSelectNistBaseline();
+  const tailor = useTailorNistBaseline();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [control, setControl] = useState<CSFSubcategory | null>(null);
+  const [justification, setJustification] = useState('');
+
+  const applicable = useMemo(() => new Set(applicableIds), [applicableIds]);
+  const tailoredIds = useMemo(() => new Set((status?.tailoring || []).map((t) => t.controlId)), [status]);
+  // Tailored controls are changed back with Reset
+  const options = useMemo(() => controls.filter((c) => !tailoredIds.has(c.id)), [controls, tailoredIds]);
+  const action = control && applicable.has(control.id) ? 'REMOVE' : 'ADD';
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setControl(null);
+    setJustification('');
+  };
+
+  const handleSelect = async () => {
+    try {
+      const result = await selectBaseline.mutateAsync(productId);
+      showNotification(
+        `${result.summary.baseline} baseline selected: ${result.summary.controlCount} controls, ${result.summary.assessmentsCreated} assessments created`,
+        'success'
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleTailor = async () => {
+    if (!control) return;
+    try {
+      await tailor.mutateAsync({ productId, controlId: control.id, action, justification: justification.trim() });
+      showNotification(`${control.id} ${action === 'ADD' ? 'added to' : 'removed from'} the baseline`, 'success');
+      closeDialog();
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleReset = async (controlId: string) => {
+    try {
+      await tailor.mutateAsync({ productId, controlId, action: 'RESET' });
+      showNotification(`${controlId} reset to the baseline`, 'success');
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  if (isLoading || !status) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const added = status.tailoring.filter((t) => t.tailoring === 'ADDED').length;
+  const removed = status.tailoring.length - added;
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2, gap: 2 }}>
+          <Box>
+            <Typography variant="h6">NIST SP 800-53 {status.baseline} Baseline</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Selected by the product&apos;s FIPS 199 impact level ({status.impactLevel}). Change the impact level on
+              the product to move to another baseline; tailoring is kept.
+            </Typography>
+          </Box>
+          {canEdit && (
+            <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+              <Button
+                variant="outlined"
+                startIcon={selectBaseline.isPending ? <CircularProgress size={16} color="inherit" /> : <RefreshIcon />}
+                onClick={handleSelect}
+                disabled={!status.profileImported || selectBaseline.isPending}
+              >
+                {status.applicableCount > 0 ? 'Reselect Baseline' : 'Select Baseline'}
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<TuneIcon />}
+                onClick={() => setDialogOpen(true)}
+                disabled={!status.profileImported || status.applicableCount === 0}
+              >
+                Tailor Control
+              </Button>
+            </Box>
+          )}
+        </Box>
+
+        {!status.profileImported ? (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            The {status.baseline} baseline profile has not been imported. An admin can import it under Settings →
+            Integrations.
+          </Alert>
+        ) : (
+          status.pendingCount > 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {status.pendingCount} of the {status.baselineControlCount} {status.baseline} baseline controls are not in
+              the product&apos;s baseline yet. Select the baseline to add them and create their assessments.
+            </Alert>
+          )
+        )}
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {[
+            { label: `In ${status.baseline} baseline`, value: status.baselineControlCount },
+            { label: 'Added by tailoring', value: added },
+            { label: 'Removed by tailoring', value: removed },
+            { label: 'Applicable to product', value: status.applicableCount },
+          ].map((stat) => (
+            <Grid item xs={6} md={3} key={stat.label}>
+              <Typography variant="subtitle2" color="text.secondary">
+                {stat.label}
+              </Typography>
+              <Typography variant="h5" fontWeight="bold">
+                {stat.value}
+              </Typography>
+            </Grid>
+          ))}
+        </Grid>
+
+        {status.tailoring.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Control</TableCell>
+                  <TableCell>Tailoring</TableCell>
+                  <TableCell>Justification</TableCell>
+                  <TableCell>Changed</TableCell>
+                  {canEdit && <TableCell align="right" />}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {status.tailoring.map((entry) => (
+                  <TableRow key={entry.controlId} hover>
+                    <TableCell sx={{ maxWidth: 280 }}>
+                      <Typography variant="body2" fontWeight="medium">
+                        {entry.controlId}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {entry.title}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={entry.tailoring === 'ADDED' ? 'Added' : 'Removed'}
+                        color={entry.tailoring === 'ADDED' ? 'primary' : 'default'}
+                      />
+                    </TableCell>
+                    <TableCell>{entry.justification}</TableCell>
+                    <TableCell>{format(new Date(entry.updatedAt), 'MMM d, yyyy')}</TableCell>
+                    {canEdit && (
+                      <TableCell align="right">
+                        <Tooltip title="Reset to baseline">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleReset(entry.controlId)}
+                              disabled={tailor.isPending}
+                            >
+                              <UndoIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      {/* Tailoring Dialog */}
+      <Dialog open={dialogOpen} onClose={closeDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>Tailor Baseline</DialogTitle>
+        <DialogContent>
+          <Autocomplete
+            options={options}
+            value={control}
+            onChange={(_, value) => setControl(value)}
+            getOptionLabel={(option) => `${option.id} ${option.name}`}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            renderInput={(params) => <TextField {...params} label="Control or enhancement" margin="normal" />}
+          />
+          {control && (
+            <Alert severity={action === 'ADD' ? 'info' : 'warning'} sx={{ my: 1 }}>
+              {action === 'ADD'
+                ? `${control.id} is not in the ${status.baseline} baseline and will be added, with an assessment on every system.`
+                : `${control.id} will be removed from the ${status.baseline} baseline. Existing assessments are kept.`}
+            </Alert>
+          )}
+          <TextField
+            label="Justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            fullWidth
+            multiline
+            minRows={3}
+            margin="normal"
+            required
+            helperText="Why this control is added or removed, e.g. a compensating control or a risk decision"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleTailor}
+            disabled={!control || !justification.trim() || tailor.isPending}
+          >
+            {action === 'ADD' ? 'Add to Baseline' : 'Remove from Baseline'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default NistBaselinePanel;
@@ -1,4 +1,11 @@
-import React, { useState } from 'react';
+/**
+ * Notification Center
+ *
+ * Bell menu combining the user's persistent server notifications (mentions,
+ * assignments, reminders) with notifications raised locally this session.
+ */
+
+import React, { useMemo, useState } from 'react';
 import {
   IconButton,
   Badge,
@@ -32,6 +39,42 @@ import {
 import { formatDistanceToNow } from 'date-fns';
 import { useNotification, Notification, NotificationSeverity } from '../contexts/NotificationContext';
 import { useNavigate } from 'react-router-dom';
+import {
+  useNotifications,
+  useMarkNotificationsRead,
+  useDismissNotification,
+  useClearNotifications,
+} from '../hooks/useNotifications';
+import type { NotificationType, ServerNotification } from '../types/api.types';
+
+// Server notifications are merged with the context's session-local ones
+type CenterNotification = Notification & { source: 'server' | 'local' };
+
+const SERVER_CATEGORIES: Record<NotificationType, Notification['category']> = {
+  MENTION: 'assessment',
+  TASK_ASSIGNED: 'assessment',
+  CONTROL_ASSIGNED: 'product',
+  TASK_DUE: 'assessment',
+  ASSESSMENT_DUE: 'assessment',
+  EVIDENCE_EXPIRING: 'compliance',
+  EVIDENCE_EXPIRED: 'compliance',
+  RISK_EXCEPTION_REQUESTED: 'compliance',
+  RISK_EXCEPTION_DECIDED: 'compliance',
+  RISK_EXCEPTION_EXPIRING: 'compliance',
+  RISK_EXCEPTION_EXPIRED: 'compliance',
+};
+
+const fromServer = (n: ServerNotification): CenterNotification => ({
+  id: n.id,
+  title: n.title,
+  message: n.message,
+  severity: n.severity,
+  timestamp: new Date(n.createdAt),
+  read: !!n.readAt,
+  link: n.link || undefined,
+  category: SERVER_CATEGORIES[n.type],
+  source: 'server',
+});
 
 const getSeverityIcon = (severity: NotificationSeverity) => {
   switch (severity) {
@@ -62,10 +105,10 @@ const getCategoryIcon = (category?: string) => {
 };
 
 interface NotificationItemProps {
-  notification: Notification;
-  onMarkRead: (id: string) => void;
-  onRemove: (id: string) => void;
-  onClick?: (notification: Notification) => void;
+  notification: CenterNotification;
+  onMarkRead: (notification: CenterNotification) => void;
+  onRemove: (notification: CenterNotification) => void;
+  onClick?: (notification: CenterNotification) => void;
 }
 
 const NotificationItem: React.FC<NotificationItemProps> = ({
@@ -76,7 +119,7 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
 }) => {
   const handleClick = () => {
     if (!notification.read) {
-      onMarkRead(notification.id);
+      onMarkRead(notification);
     }
     if (onClick) {
       onClick(notification);
@@ -143,7 +186,7 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
             size="small"
             onClick={(e) => {
               e.stopPropagation();
-              onRemove(notification.id);
+              onRemove(notification);
             }}
           >
             <CloseIcon fontSize="small" />
@@ -158,13 +201,53 @@ export const NotificationCenter: React.FC = () => {
   const [anchorEl, setAnchorEl] = useState<HTMLButtonElement | null>(null);
   const navigate = useNavigate();
   const {
-    notifications,
-    unreadCount,
+    notifications: localNotifications,
+    unreadCount: localUnreadCount,
     markAsRead,
     markAllAsRead,
     removeNotification,
     clearAllNotifications,
   } = useNotification();
+  const { data: serverData } = useNotifications();
+  const markServerRead = useMarkNotificationsRead();
+  const dismissServer = useDismissNotification();
+  const clearServer = useClearNotifications();
+
+  const notifications = useMemo<CenterNotification[]>(
+    () =>
+      [
+        ...(serverData?.notifications || []).map(fromServer),
+        ...localNotifications.map((n) => ({ ...n, source: 'local' as const })),
+      ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+    [serverData, localNotifications]
+  );
+  const unreadCount = (serverData?.unreadCount || 0) + localUnreadCount;
+
+  const handleMarkRead = (notification: CenterNotification) => {
+    if (notification.source === 'server') {
+      markServerRead.mutate([notification.id]);
+    } else {
+      markAsRead(notification.id);
+    }
+  };
+
+  const handleRemove = (notification: CenterNotification) => {
+    if (notification.source === 'server') {
+      dismissServer.mutate(notification.id);
+    } else {
+      removeNotification(notification.id);
+    }
+  };
+
+  const handleMarkAllRead = () => {
+    markServerRead.mutate(undefined);
+    markAllAsRead();
+  };
+
+  const handleClearAll = () => {
+    clearServer.mutate();
+    clearAllNotifications();
+  };
 
   const handleOpen = (event: React.MouseEvent<HTMLButtonElement>) => {
     setAnchorEl(event.currentTarget);
@@ -174,7 +257,7 @@ export const NotificationCenter: React.FC = () => {
     setAnchorEl(null);
   };
 
-  const handleNotificationClick = (notification: Notification) => {
+  const handleNotificationClick = (notification: CenterNotification) => {
     if (notification.link) {
       navigate(notification.link);
       handleClose();
@@ -235,13 +318,13 @@ export const NotificationCenter: React.FC = () => {
             <Box sx={{ display: 'flex', gap: 1 }}>
               {unreadCount > 0 && (
                 <Tooltip title="Mark all as read">
-                  <IconButton size="small" onClick={markAllAsRead}>
+                  <IconButton size="small" onClick={handleMarkAllRead}>
                     <DoneAllIcon fontSize="small" />
                   </IconButton>
                 </Tooltip>
               )}
               <Tooltip title="Clear all">
-                <IconButton size="small" onClick={clearAllNotifications}>
+                <IconButton size="small" onClick={handleClearAll}>
                   <ClearAllIcon fontSize="small" />
                 </IconButton>
               </Tooltip>
@@ -262,7 +345,7 @@ export const NotificationCenter: React.FC = () => {
               <NotificationsIcon sx={{ fontSize: 48, opacity: 0.5, mb: 1 }} />
               <Typography variant="body2">No notifications yet</Typography>
               <Typography variant="caption" color="text.secondary">
-                You'll see updates about assessments, systems, and compliance here.
+                You'll see mentions, assignments and due-date reminders here.
               </Typography>
             </Box>
           ) : (
@@ -271,8 +354,8 @@ export const NotificationCenter: React.FC = () => {
                 <React.Fragment key={notification.id}>
                   <NotificationItem
                     notification={notification}
-                    onMarkRead={markAsRead}
-                    onRemove={removeNotification}
+                    onMarkRead={handleMarkRead}
+                    onRemove={handleRemove}
                     onClick={handleNotificationClick}
                   />
                   {index < notifications.length - 1 && <Divider />}
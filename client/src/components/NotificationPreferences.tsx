@@ -0,0 +1,79 @@
+/**
+ * Notification Preferences
+ *
+ * Per-type switches for the current user's in-app notifications.
+ * Changes are saved immediately.
+ */
+
+import React from 'react';
+import { Box, FormControlLabel, Switch, Typography, CircularProgress } from '@mui/material';
+import { useNotificationPreferences, useUpdateNotificationPreferences } from '../hooks/useNotifications';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { NotificationType } from '../types/api.types';
+
+const TYPE_DESCRIPTIONS: Record<NotificationType, { label: string; description: string }> = {
+  MENTION: { label: 'Mentions', description: 'Someone @mentions you in a comment' },
+  TASK_ASSIGNED: { label: 'Task Assignments', description: 'A remediation task is assigned to you' },
+  CONTROL_ASSIGNED: { label: 'Control Assignments', description: 'You are made owner of a control' },
+  TASK_DUE: { label: 'Task Due Dates', description: 'Your remediation tasks are due soon or overdue' },
+  ASSESSMENT_DUE: { label: 'Assessment Reminders', description: 'Controls you own reach their target date' },
+  EVIDENCE_EXPIRING: { label: 'Evidence Expiring', description: 'Evidence you uploaded expires within 14 days' },
+  EVIDENCE_EXPIRED: { label: 'Evidence Expired', description: 'Evidence you uploaded has expired' },
+  RISK_EXCEPTION_REQUESTED: {
+    label: 'Risk Exception Requests',
+    description: 'Someone asks to accept the risk on a control you review',
+  },
+  RISK_EXCEPTION_DECIDED: { label: 'Risk Exception Decisions', description: 'Your exception request is approved or rejected' },
+  RISK_EXCEPTION_EXPIRING: { label: 'Risk Exceptions Expiring', description: 'An accepted risk expires within 30 days' },
+  RISK_EXCEPTION_EXPIRED: { label: 'Risk Exceptions Expired', description: 'An accepted risk has expired' },
+};
+
+const NotificationPreferences: React.FC = () => {
+  const { showNotification } = useNotification();
+  const { data: preferences = [], isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const handleToggle = async (type: NotificationType, inApp: boolean) => {
+    try {
+      await updatePreferences.mutateAsync([{ type, inApp }]);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {preferences.map((preference) => (
+        <FormControlLabel
+          key={preference.type}
+          control={
+            <Switch
+              checked={preference.inApp}
+              onChange={(e) => handleToggle(preference.type, e.target.checked)}
+              disabled={updatePreferences.isPending}
+            />
+          }
+          label={
+            <Box>
+              <Typography variant="body1">{TYPE_DESCRIPTIONS[preference.type].label}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {TYPE_DESCRIPTIONS[preference.type].description}
+              </Typography>
+            </Box>
+          }
+        />
+      ))}
+    </Box>
+  );
+};
+
+export default NotificationPreferences;
@@ -1,16 +1,34 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useParams } from 'react-router-dom';
 import { Box, CircularProgress } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
+import { useProductPermissions } from '../hooks/usePermissions';
+import type { Permission } from '../types/api.types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Permission required on the product named by `productParam`
+  permission?: Permission;
+  productParam?: string;
+  // Where to send users who lack the permission
+  fallback?: string;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  permission,
+  productParam = 'id',
+  fallback = '/products',
+}) => {
   const { user, isLoading } = useAuth();
+  const params = useParams();
+  const productId = permission ? params[productParam] : undefined;
+  const {
+    can,
+    isLoading: permissionsLoading,
+  } = useProductPermissions(user ? productId : undefined);
 
-  if (isLoading) {
+  if (isLoading || (productId && permissionsLoading)) {
     return (
       <Box
         display="flex"
@@ -27,7 +45,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" replace />;
   }
 
+  if (permission && productId && !can(permission)) {
+    return <Navigate to={fallback} replace />;
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
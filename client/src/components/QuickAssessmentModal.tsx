@@ -68,6 +68,9 @@ const STATUS_OPTIONS: { value: ComplianceStatus; label: string; color: string; i
   { value: 'Not Assessed', label: 'Not Assessed', color: '#9e9e9e', icon: <RadioButtonUncheckedIcon /> },
 ];
 
+// Shown when the save was queued in the offline outbox
+const SAVED_OFFLINE = 'Saved on this device; it will sync when you are back online';
+
 export interface QuickAssessmentData {
   controlCode: string;
   controlName: string;
@@ -146,7 +149,7 @@ const QuickAssessmentModal: React.FC<QuickAssessmentModalProps> = ({
     try {
       if (data.assessmentId) {
         // Update existing assessment
-        await updateAssessment.mutateAsync({
+        const saved = await updateAssessment.mutateAsync({
           id: data.assessmentId,
           updates: {
             status,
@@ -154,10 +157,14 @@ const QuickAssessmentModal: React.FC<QuickAssessmentModalProps> = ({
             evidence,
           },
         });
-        showNotification('Assessment updated successfully', 'success');
+        if (saved.pendingSync) {
+          showNotification(SAVED_OFFLINE, 'info');
+        } else {
+          showNotification('Assessment updated successfully', 'success');
+        }
       } else {
         // Create new assessment
-        await createAssessment.mutateAsync({
+        const saved = await createAssessment.mutateAsync({
           productId: selectedProductId,
           systemId: selectedSystemId,
           controlId: data.controlCode,
@@ -165,7 +172,11 @@ const QuickAssessmentModal: React.FC<QuickAssessmentModalProps> = ({
           implementationNotes: notes,
           evidence,
         });
-        showNotification('Assessment created successfully', 'success');
+        if (saved.pendingSync) {
+          showNotification(SAVED_OFFLINE, 'info');
+        } else {
+          showNotification('Assessment created successfully', 'success');
+        }
       }
 
       onSuccess?.();
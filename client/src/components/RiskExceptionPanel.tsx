@@ -0,0 +1,326 @@
+/**
+ * Risk Exception Panel
+ *
+ * Formal risk acceptance for a failing assessment:
+ * - An assessor requests an exception with a justification, compensating
+ *   controls, the residual risk and an expiry date
+ * - A reviewer other than the requester approves or rejects it
+ * - While approved and unexpired the control counts as accepted risk instead
+ *   of a gap; reviewers can revoke it, and the requester can withdraw a
+ *   pending request
+ *
+ * The server enforces permissions and separation of duties; this component
+ * only hides actions the current user cannot take.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+} from '@mui/material';
+import {
+  GppMaybe as RequestIcon,
+  Done as ApproveIcon,
+  Close as RejectIcon,
+  Undo as RevokeIcon,
+} from '@mui/icons-material';
+import {
+  useAssessmentRiskExceptions,
+  useRequestRiskException,
+  useDecideRiskException,
+  useRevokeRiskException,
+} from '../hooks/useRiskExceptions';
+import { useProductPermissions } from '../hooks/usePermissions';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { ResidualRiskLevel, RiskException, RiskExceptionStatus } from '../types/api.types';
+
+interface RiskExceptionPanelProps {
+  assessmentId: string;
+  productId: string;
+}
+
+type ChipColor = 'default' | 'warning' | 'success' | 'error' | 'info';
+type DialogAction = 'request' | 'approve' | 'reject' | 'revoke';
+
+const STATUS_CONFIG: Record<RiskExceptionStatus, { label: string; color: ChipColor }> = {
+  PENDING: { label: 'Pending Approval', color: 'warning' },
+  APPROVED: { label: 'Risk Accepted', color: 'info' },
+  REJECTED: { label: 'Rejected', color: 'error' },
+  REVOKED: { label: 'Revoked', color: 'default' },
+  EXPIRED: { label: 'Expired', color: 'default' },
+};
+
+const RESIDUAL_RISK_COLORS: Record<ResidualRiskLevel, ChipColor> = {
+  LOW: 'success',
+  MEDIUM: 'warning',
+  HIGH: 'error',
+  CRITICAL: 'error',
+};
+
+const DIALOG_TITLES: Record<DialogAction, string> = {
+  request: 'Request Risk Exception',
+  approve: 'Approve Risk Exception',
+  reject: 'Reject Risk Exception',
+  revoke: 'Revoke Risk Exception',
+};
+
+const formatDate = (date?: string | null) => (date ? new Date(date).toLocaleDateString() : '');
+
+// Default expiry: 90 days out, as yyyy-mm-dd for the date input
+const defaultExpiry = () => new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const emptyForm = () => ({
+  justification: '',
+  compensatingControls: '',
+  residualRisk: 'MEDIUM' as ResidualRiskLevel,
+  expiresAt: defaultExpiry(),
+});
+
+// Helper: an approved exception whose expiry the sweep hasn't caught up with yet is no longer in force
+const isOpen = (e: RiskException) =>
+  e.status === 'PENDING' || (e.status === 'APPROVED' && new Date(e.expiresAt) > new Date());
+
+const RiskExceptionPanel: React.FC<RiskExceptionPanelProps> = ({ assessmentId, productId }) => {
+  const { user } = useAuth();
+  const { showNotification } = useNotification();
+  const { can } = useProductPermissions(productId);
+  const [dialogAction, setDialogAction] = useState<DialogAction | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [note, setNote] = useState('');
+
+  const { data: exceptions = [], isLoading } = useAssessmentRiskExceptions(assessmentId);
+  const requestException = useRequestRiskException();
+  const decideException = useDecideRiskException();
+  const revokeException = useRevokeRiskException();
+
+  const current = exceptions.find(isOpen);
+  const history = exceptions.filter((e) => e !== current);
+  const isRequester = !!current && current.requestedById === user?.id;
+  const canReview = can('assessment:review');
+  const isSaving = requestException.isPending || decideException.isPending || revokeException.isPending;
+
+  const openDialog = (action: DialogAction) => {
+    setDialogAction(action);
+    setForm(emptyForm());
+    setNote('');
+  };
+
+  const handleConfirm = async () => {
+    if (!dialogAction) return;
+
+    try {
+      if (dialogAction === 'request') {
+        await requestException.mutateAsync({
+          assessmentId,
+          justification: form.justification.trim(),
+          compensatingControls: form.compensatingControls.trim() || null,
+          residualRisk: form.residualRisk,
+          expiresAt: new Date(`${form.expiresAt}T23:59:59`).toISOString(),
+        });
+        showNotification('Risk exception requested', 'success');
+      } else if (dialogAction === 'revoke') {
+        await revokeException.mutateAsync({ id: current!.id, note: note.trim() || undefined });
+        showNotification(current!.status === 'PENDING' ? 'Request withdrawn' : 'Risk exception revoked', 'success');
+      } else {
+        await decideException.mutateAsync({
+          id: current!.id,
+          approve: dialogAction === 'approve',
+          note: note.trim() || undefined,
+        });
+        showNotification(`Risk exception ${dialogAction === 'approve' ? 'approved' : 'rejected'}`, 'success');
+      }
+      setDialogAction(null);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  if (isLoading) {
+    return <CircularProgress size={16} />;
+  }
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+        <Typography variant="subtitle2" color="primary">
+          Risk Exception
+        </Typography>
+        {!current && can('assessment:edit') && (
+          <Button size="small" startIcon={<RequestIcon />} onClick={() => openDialog('request')}>
+            Request Exception
+          </Button>
+        )}
+      </Box>
+
+      {current ? (
+        <Alert
+          severity={current.status === 'APPROVED' ? 'info' : 'warning'}
+          action={
+            <Stack direction="row" spacing={1}>
+              {current.status === 'PENDING' && canReview && !isRequester && (
+                <>
+                  <Button size="small" color="success" startIcon={<ApproveIcon />} onClick={() => openDialog('approve')}>
+                    Approve
+                  </Button>
+                  <Button size="small" color="error" startIcon={<RejectIcon />} onClick={() => openDialog('reject')}>
+                    Reject
+                  </Button>
+                </>
+              )}
+              {(canReview || (current.status === 'PENDING' && isRequester)) && (
+                <Button size="small" color="inherit" startIcon={<RevokeIcon />} onClick={() => openDialog('revoke')}>
+                  {current.status === 'PENDING' ? 'Withdraw' : 'Revoke'}
+                </Button>
+              )}
+            </Stack>
+          }
+        >
+          <Box display="flex" alignItems="center" gap={1} mb={0.5}>
+            <Chip size="small" label={STATUS_CONFIG[current.status].label} color={STATUS_CONFIG[current.status].color} />
+            <Chip
+              size="small"
+              variant="outlined"
+              label={`Residual: ${current.residualRisk}`}
+              color={RESIDUAL_RISK_COLORS[current.residualRisk]}
+            />
+            <Typography variant="caption">Expires {formatDate(current.expiresAt)}</Typography>
+          </Box>
+          <Typography variant="body2">{current.justification}</Typography>
+          {current.compensatingControls && (
+            <Typography variant="body2" sx={{ mt: 0.5 }}>
+              <strong>Compensating controls:</strong> {current.compensatingControls}
+            </Typography>
+          )}
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+            Requested by {current.requestedBy?.name || 'Unknown'} on {formatDate(current.createdAt)}
+            {current.decidedBy && ` · Approved by ${current.decidedBy.name} on ${formatDate(current.decidedAt)}`}
+            {isRequester && current.status === 'PENDING' && ' · Another reviewer must approve your own request'}
+          </Typography>
+        </Alert>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          This gap counts against the compliance score until it is remediated or its risk is formally accepted.
+        </Typography>
+      )}
+
+      {history.length > 0 && (
+        <List dense disablePadding sx={{ mt: 1 }}>
+          {history.map((e) => (
+            <ListItem key={e.id} disableGutters>
+              <ListItemText
+                primary={
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <Chip size="small" variant="outlined" label={STATUS_CONFIG[e.status].label} color={STATUS_CONFIG[e.status].color} />
+                    <Typography variant="body2" noWrap>
+                      {e.justification}
+                    </Typography>
+                  </Box>
+                }
+                secondary={`${e.requestedBy?.name || 'Unknown'} · ${formatDate(e.createdAt)} · expiry ${formatDate(e.expiresAt)}${
+                  e.decisionNote ? ` · ${e.decisionNote}` : ''
+                }`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Dialog open={!!dialogAction} onClose={() => setDialogAction(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{dialogAction && DIALOG_TITLES[dialogAction]}</DialogTitle>
+        <DialogContent>
+          {dialogAction === 'request' ? (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label="Justification"
+                multiline
+                rows={3}
+                value={form.justification}
+                onChange={(e) => setForm({ ...form, justification: e.target.value })}
+                placeholder="Why the gap is acceptable for now..."
+                required
+                fullWidth
+              />
+              <TextField
+                label="Compensating Controls"
+                multiline
+                rows={2}
+                value={form.compensatingControls}
+                onChange={(e) => setForm({ ...form, compensatingControls: e.target.value })}
+                placeholder="Controls that reduce the risk while the gap remains..."
+                fullWidth
+              />
+              <Stack direction="row" spacing={2}>
+                <FormControl fullWidth>
+                  <InputLabel>Residual Risk</InputLabel>
+                  <Select
+                    value={form.residualRisk}
+                    label="Residual Risk"
+                    onChange={(e) => setForm({ ...form, residualRisk: e.target.value as ResidualRiskLevel })}
+                  >
+                    {(Object.keys(RESIDUAL_RISK_COLORS) as ResidualRiskLevel[]).map((level) => (
+                      <MenuItem key={level} value={level}>
+                        {level.charAt(0) + level.slice(1).toLowerCase()}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Expires"
+                  type="date"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  fullWidth
+                />
+              </Stack>
+            </Stack>
+          ) : (
+            <TextField
+              label={dialogAction === 'reject' ? 'Reason' : 'Note (optional)'}
+              multiline
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              fullWidth
+              sx={{ mt: 1 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogAction(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleConfirm}
+            disabled={
+              isSaving ||
+              (dialogAction === 'request' && (!form.justification.trim() || !form.expiresAt))
+            }
+          >
+            {isSaving ? <CircularProgress size={20} /> : 'Confirm'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RiskExceptionPanel;
@@ -3,7 +3,9 @@
  *
  * Interactive heat map visualization showing compliance and risk levels
  * across CSF functions, categories, and systems. Supports drill-down,
- * tooltips, and clickable cells for navigation.
+ * tooltips, and clickable cells for navigation. Given a product's risk
+ * register, it also plots the register's risks on a likelihood x impact
+ * matrix, before (inherent) or after (residual) their mitigating controls.
  *
  * Enhanced with Security Operations Dark aesthetic:
  * - Gradient cells with glow effects
@@ -45,7 +47,13 @@ import {
   ExpandLess as ExpandLessIcon,
 } from '@mui/icons-material';
 import { CSF_COLORS } from '../contexts/ThemeContext';
-import type { ComplianceStatus, RiskLevel, FunctionCompliance } from '../types/api.types';
+import type {
+  ComplianceStatus,
+  RiskLevel,
+  FunctionCompliance,
+  RegisterRisk,
+  RiskRating,
+} from '../types/api.types';
 
 // Types for the heat map
 export interface HeatMapCell {
@@ -78,6 +86,9 @@ interface RiskHeatMapProps {
   onSystemChange?: (systemId: string) => void;
   showOnboarding?: boolean;
   onDismissOnboarding?: () => void;
+  // Risk register entries to plot in the Register view (omit to hide the view)
+  registerRisks?: RegisterRisk[];
+  onRiskClick?: (riskId: string) => void;
 }
 
 // Enhanced color functions with gradients
@@ -122,7 +133,164 @@ const CSF_FUNCTIONS = [
   { code: 'RC', name: 'Recover', color: CSF_COLORS.RC },
 ];
 
-type ViewMode = 'compliance' | 'risk' | 'coverage';
+type ViewMode = 'compliance' | 'risk' | 'coverage' | 'register';
+
+const RATING_COLORS: Record<RiskRating, string> = {
+  CRITICAL: '#7f1d1d',
+  HIGH: '#f85149',
+  MEDIUM: '#f0883e',
+  LOW: '#3fb950',
+};
+
+// Same bands as the server's riskRating()
+const getMatrixRating = (score: number): RiskRating => {
+  if (score >= 17) return 'CRITICAL';
+  if (score >= 10) return 'HIGH';
+  if (score >= 5) return 'MEDIUM';
+  return 'LOW';
+};
+
+const LIKELIHOOD_LABELS = ['Rare', 'Unlikely', 'Possible', 'Likely', 'Almost certain'];
+const IMPACT_LABELS = ['Negligible', 'Minor', 'Moderate', 'Major', 'Severe'];
+
+interface RiskRegisterMatrixProps {
+  risks: RegisterRisk[];
+  onRiskClick?: (riskId: string) => void;
+}
+
+/**
+ * 5x5 likelihood x impact matrix of risk register entries. Residual placement
+ * uses the likelihood left after the linked controls' effectiveness.
+ */
+export const RiskRegisterMatrix: React.FC<RiskRegisterMatrixProps> = ({ risks, onRiskClick }) => {
+  const theme = useTheme();
+  const [basis, setBasis] = useState<'inherent' | 'residual'>('residual');
+
+  const cells = useMemo(() => {
+    const grid = new Map<string, RegisterRisk[]>();
+    risks.forEach((risk) => {
+      const likelihood = basis === 'inherent' ? risk.likelihood : risk.residualLikelihood;
+      const impact = basis === 'inherent' ? risk.impact : risk.residualImpact;
+      const key = `${likelihood}-${impact}`;
+      grid.set(key, [...(grid.get(key) || []), risk]);
+    });
+    return grid;
+  }, [risks, basis]);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          {risks.length} risk{risks.length === 1 ? '' : 's'} plotted by {basis} likelihood and impact
+        </Typography>
+        <ToggleButtonGroup
+          value={basis}
+          exclusive
+          onChange={(_, value) => value && setBasis(value)}
+          size="small"
+        >
+          <ToggleButton value="inherent">Inherent</ToggleButton>
+          <ToggleButton value="residual">Residual</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {/* Likelihood axis */}
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <Typography
+            variant="caption"
+            color="text.secondary"
+            sx={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)', letterSpacing: '0.08em' }}
+          >
+            LIKELIHOOD
+          </Typography>
+        </Box>
+        <Box sx={{ flex: 1 }}>
+          {[5, 4, 3, 2, 1].map((likelihood) => (
+            <Box key={likelihood} sx={{ display: 'flex', gap: 0.75, mb: 0.75 }}>
+              <Box sx={{ width: 100, display: 'flex', alignItems: 'center' }}>
+                <Typography variant="caption" color="text.secondary">
+                  {likelihood} · {LIKELIHOOD_LABELS[likelihood - 1]}
+                </Typography>
+              </Box>
+              {[1, 2, 3, 4, 5].map((impact) => {
+                const entries = cells.get(`${likelihood}-${impact}`) || [];
+                const color = RATING_COLORS[getMatrixRating(likelihood * impact)];
+                return (
+                  <Paper
+                    key={impact}
+                    sx={{
+                      flex: 1,
+                      minHeight: 64,
+                      p: 0.75,
+                      display: 'flex',
+                      flexWrap: 'wrap',
+                      alignContent: 'flex-start',
+                      gap: 0.5,
+                      bgcolor: alpha(color, entries.length ? 0.35 : 0.12),
+                      border: `1px solid ${alpha(color, 0.4)}`,
+                      borderRadius: 2,
+                    }}
+                  >
+                    {entries.map((risk) => (
+                      <Tooltip
+                        key={risk.id}
+                        arrow
+                        title={
+                          <Box sx={{ p: 0.5 }}>
+                            <Typography variant="subtitle2" fontWeight="bold">
+                              {risk.riskId}: {risk.title}
+                            </Typography>
+                            <Typography variant="body2">
+                              Inherent: {risk.inherentScore} ({risk.inherentRating})
+                            </Typography>
+                            <Typography variant="body2">
+                              Residual: {risk.residualScore} ({risk.residualRating})
+                            </Typography>
+                            <Typography variant="body2">Control effectiveness: {risk.controlEffectiveness}%</Typography>
+                          </Box>
+                        }
+                      >
+                        <Chip
+                          size="small"
+                          label={risk.riskId}
+                          onClick={onRiskClick ? () => onRiskClick(risk.id) : undefined}
+                          sx={{
+                            height: 20,
+                            fontSize: '0.65rem',
+                            fontFamily: '"JetBrains Mono", monospace',
+                            bgcolor: color,
+                            color: '#ffffff',
+                          }}
+                        />
+                      </Tooltip>
+                    ))}
+                  </Paper>
+                );
+              })}
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', gap: 0.75 }}>
+            <Box sx={{ width: 100 }} />
+            {IMPACT_LABELS.map((label, i) => (
+              <Typography key={label} variant="caption" color="text.secondary" sx={{ flex: 1, textAlign: 'center' }}>
+                {i + 1} · {label}
+              </Typography>
+            ))}
+          </Box>
+          <Typography
+            variant="caption"
+            color="text.secondary"
+            display="block"
+            sx={{ textAlign: 'center', mt: 0.5, letterSpacing: '0.08em', borderTop: `1px solid ${theme.palette.divider}` }}
+          >
+            IMPACT
+          </Typography>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
 
 export const RiskHeatMap: React.FC<RiskHeatMapProps> = ({
   data,
@@ -134,6 +302,8 @@ export const RiskHeatMap: React.FC<RiskHeatMapProps> = ({
   onSystemChange,
   showOnboarding = false,
   onDismissOnboarding,
+  registerRisks,
+  onRiskClick,
 }) => {
   const theme = useTheme();
 
@@ -411,6 +581,13 @@ export const RiskHeatMap: React.FC<RiskHeatMapProps> = ({
                   <span>Coverage</span>
                 </Tooltip>
               </ToggleButton>
+              {registerRisks && (
+                <ToggleButton value="register">
+                  <Tooltip title="Risk Register (likelihood x impact)">
+                    <span>Register</span>
+                  </Tooltip>
+                </ToggleButton>
+              )}
             </ToggleButtonGroup>
 
             {/* Zoom Controls */}
@@ -435,297 +612,303 @@ export const RiskHeatMap: React.FC<RiskHeatMapProps> = ({
           </Box>
         </Box>
 
-        {/* Collapsible Legend */}
-        <Box sx={{ mb: 2 }}>
-          <Button
-            size="small"
-            onClick={() => setLegendExpanded(!legendExpanded)}
-            endIcon={legendExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
-            sx={{ color: 'text.secondary', textTransform: 'none' }}
-          >
-            {legendExpanded ? 'Hide Legend' : 'Show Legend'} ({statusDistribution.high} green, {statusDistribution.medium} yellow, {statusDistribution.low} red)
-          </Button>
-          <Collapse in={legendExpanded}>
-            <Box sx={{ display: 'flex', gap: 3, mt: 2, flexWrap: 'wrap' }}>
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Typography variant="caption" color="text.secondary">
-                  {viewMode === 'compliance' ? 'Compliance:' : 'Coverage:'}
-                </Typography>
-                <Box sx={{ display: 'flex', gap: 0.5 }}>
-                  {[
-                    { label: '0-20%', gradient: 'linear-gradient(135deg, #f85149 0%, #da3633 100%)' },
-                    { label: '20-40%', gradient: 'linear-gradient(135deg, #f0883e 0%, #d18616 100%)' },
-                    { label: '40-60%', gradient: 'linear-gradient(135deg, #d29922 0%, #9e6a03 100%)' },
-                    { label: '60-80%', gradient: 'linear-gradient(135deg, #84cc16 0%, #65a30d 100%)' },
-                    { label: '80-100%', gradient: 'linear-gradient(135deg, #3fb950 0%, #238636 100%)' },
-                  ].map((item) => (
-                    <Tooltip key={item.label} title={item.label}>
-                      <Box
-                        sx={{
-                          width: 24,
-                          height: 18,
-                          background: item.gradient,
-                          borderRadius: 1,
-                          boxShadow: `0 2px 4px ${alpha('#000', 0.2)}`,
-                        }}
-                      />
-                    </Tooltip>
-                  ))}
+        {viewMode === 'register' && registerRisks ? (
+          <RiskRegisterMatrix risks={registerRisks} onRiskClick={onRiskClick} />
+        ) : (
+          <>
+            {/* Collapsible Legend */}
+            <Box sx={{ mb: 2 }}>
+              <Button
+                size="small"
+                onClick={() => setLegendExpanded(!legendExpanded)}
+                endIcon={legendExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                sx={{ color: 'text.secondary', textTransform: 'none' }}
+              >
+                {legendExpanded ? 'Hide Legend' : 'Show Legend'} ({statusDistribution.high} green, {statusDistribution.medium} yellow, {statusDistribution.low} red)
+              </Button>
+              <Collapse in={legendExpanded}>
+                <Box sx={{ display: 'flex', gap: 3, mt: 2, flexWrap: 'wrap' }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="caption" color="text.secondary">
+                      {viewMode === 'compliance' ? 'Compliance:' : 'Coverage:'}
+                    </Typography>
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      {[
+                        { label: '0-20%', gradient: 'linear-gradient(135deg, #f85149 0%, #da3633 100%)' },
+                        { label: '20-40%', gradient: 'linear-gradient(135deg, #f0883e 0%, #d18616 100%)' },
+                        { label: '40-60%', gradient: 'linear-gradient(135deg, #d29922 0%, #9e6a03 100%)' },
+                        { label: '60-80%', gradient: 'linear-gradient(135deg, #84cc16 0%, #65a30d 100%)' },
+                        { label: '80-100%', gradient: 'linear-gradient(135deg, #3fb950 0%, #238636 100%)' },
+                      ].map((item) => (
+                        <Tooltip key={item.label} title={item.label}>
+                          <Box
+                            sx={{
+                              width: 24,
+                              height: 18,
+                              background: item.gradient,
+                              borderRadius: 1,
+                              boxShadow: `0 2px 4px ${alpha('#000', 0.2)}`,
+                            }}
+                          />
+                        </Tooltip>
+                      ))}
+                    </Box>
+                  </Box>
+
+                  {/* CSF Function Legend */}
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="caption" color="text.secondary">
+                      Functions:
+                    </Typography>
+                    {CSF_FUNCTIONS.map((func) => (
+                      <Tooltip key={func.code} title={func.name}>
+                        <Chip
+                          label={func.code}
+                          size="small"
+                          sx={{
+                            bgcolor: func.color,
+                            color: 'white',
+                            fontSize: '0.65rem',
+                            fontWeight: 600,
+                            height: 22,
+                          }}
+                        />
+                      </Tooltip>
+                    ))}
+                  </Box>
                 </Box>
-              </Box>
+              </Collapse>
+            </Box>
 
-              {/* CSF Function Legend */}
-              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                <Typography variant="caption" color="text.secondary">
-                  Functions:
-                </Typography>
-                {CSF_FUNCTIONS.map((func) => (
-                  <Tooltip key={func.code} title={func.name}>
-                    <Chip
-                      label={func.code}
-                      size="small"
+            {/* Heat Map Grid */}
+            <Box
+              sx={{
+                overflowX: 'auto',
+                transform: `scale(${zoomLevel})`,
+                transformOrigin: 'top left',
+                transition: 'transform 0.2s ease',
+              }}
+            >
+              <Box sx={{ minWidth: 600 }}>
+                {sortedData.map((row, rowIndex) => (
+                  <Box
+                    key={row.id}
+                    className="animate-fade-in-up"
+                    sx={{
+                      display: 'flex',
+                      gap: 0.75,
+                      mb: 0.75,
+                      animationDelay: `${rowIndex * 50}ms`,
+                    }}
+                  >
+                    {/* Function Label */}
+                    <Paper
                       sx={{
-                        bgcolor: func.color,
-                        color: 'white',
-                        fontSize: '0.65rem',
-                        fontWeight: 600,
-                        height: 22,
+                        width: 130,
+                        minWidth: 130,
+                        p: 1.5,
+                        display: 'flex',
+                        flexDirection: 'column',
+                        justifyContent: 'center',
+                        background: `linear-gradient(135deg, ${alpha(getFunctionColor(row.code), 0.15)} 0%, ${alpha(getFunctionColor(row.code), 0.05)} 100%)`,
+                        borderLeft: `4px solid ${getFunctionColor(row.code)}`,
+                        borderRadius: 2,
+                        transition: 'all 0.2s ease',
+                        '&:hover': {
+                          background: `linear-gradient(135deg, ${alpha(getFunctionColor(row.code), 0.2)} 0%, ${alpha(getFunctionColor(row.code), 0.1)} 100%)`,
+                        },
                       }}
-                    />
-                  </Tooltip>
+                    >
+                      <Typography variant="subtitle2" fontWeight="bold" color={getFunctionColor(row.code)}>
+                        {row.code}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" noWrap>
+                        {row.name}
+                      </Typography>
+                      <Typography
+                        variant="caption"
+                        fontWeight="bold"
+                        sx={{
+                          fontFamily: '"JetBrains Mono", monospace',
+                          color: getComplianceColor(row.averageScore),
+                        }}
+                      >
+                        {row.averageScore}%
+                      </Typography>
+                    </Paper>
+
+                    {/* Category Cells */}
+                    <Box sx={{ display: 'flex', gap: 0.75, flexWrap: 'wrap' }}>
+                      {row.cells.map((cell, cellIndex) => {
+                        const cellBackground = getCellBackground(cell);
+                        const cellColor = getCellColor(cell);
+                        const isHovered = hoveredCell === cell.id;
+
+                        return (
+                          <Tooltip
+                            key={cell.id}
+                            title={
+                              <Box sx={{ p: 0.5 }}>
+                                <Typography variant="subtitle2" fontWeight="bold">
+                                  {cell.code}: {cell.name}
+                                </Typography>
+                                <Typography variant="body2">
+                                  Compliance: {cell.score}%
+                                </Typography>
+                                <Typography variant="body2">
+                                  Controls: {cell.implemented}/{cell.total} implemented
+                                </Typography>
+                                <Typography variant="body2">
+                                  Assessed: {cell.assessed}/{cell.total}
+                                </Typography>
+                                {onCellClick && (
+                                  <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.8 }}>
+                                    Click to assess
+                                  </Typography>
+                                )}
+                              </Box>
+                            }
+                            arrow
+                            placement="top"
+                          >
+                            <Paper
+                              onClick={() => handleCellClick(row.code, cell.code)}
+                              onMouseEnter={() => setHoveredCell(cell.id)}
+                              onMouseLeave={() => setHoveredCell(null)}
+                              sx={{
+                                width: 85,
+                                height: 70,
+                                display: 'flex',
+                                flexDirection: 'column',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                background: cellBackground,
+                                color: '#ffffff',
+                                cursor: onCellClick ? 'pointer' : 'default',
+                                borderRadius: 2,
+                                transition: 'all 0.2s ease',
+                                transform: isHovered ? 'translateY(-3px)' : 'translateY(0)',
+                                boxShadow: isHovered
+                                  ? `0 8px 24px ${alpha(cellColor, 0.4)}`
+                                  : `0 2px 8px ${alpha(cellColor, 0.2)}`,
+                                border: `1px solid ${alpha(cellColor, isHovered ? 0.6 : 0.3)}`,
+                                animationDelay: `${(rowIndex * 6 + cellIndex) * 20}ms`,
+                                '&:hover': {
+                                  boxShadow: `0 8px 24px ${alpha(cellColor, 0.4)}`,
+                                },
+                              }}
+                            >
+                              <Typography
+                                variant="caption"
+                                fontWeight="bold"
+                                sx={{ opacity: 0.9, fontSize: '0.7rem' }}
+                              >
+                                {cell.code}
+                              </Typography>
+                              <Typography
+                                variant="body1"
+                                fontWeight="bold"
+                                sx={{ fontFamily: '"JetBrains Mono", monospace' }}
+                              >
+                                {getCellValue(cell)}
+                              </Typography>
+                              <Typography
+                                variant="caption"
+                                sx={{ opacity: 0.8, fontSize: '0.65rem' }}
+                              >
+                                {cell.assessed}/{cell.total}
+                              </Typography>
+                            </Paper>
+                          </Tooltip>
+                        );
+                      })}
+                    </Box>
+                  </Box>
                 ))}
               </Box>
             </Box>
-          </Collapse>
-        </Box>
 
-        {/* Heat Map Grid */}
-        <Box
-          sx={{
-            overflowX: 'auto',
-            transform: `scale(${zoomLevel})`,
-            transformOrigin: 'top left',
-            transition: 'transform 0.2s ease',
-          }}
-        >
-          <Box sx={{ minWidth: 600 }}>
-            {sortedData.map((row, rowIndex) => (
-              <Box
-                key={row.id}
-                className="animate-fade-in-up"
-                sx={{
-                  display: 'flex',
-                  gap: 0.75,
-                  mb: 0.75,
-                  animationDelay: `${rowIndex * 50}ms`,
-                }}
-              >
-                {/* Function Label */}
-                <Paper
-                  sx={{
-                    width: 130,
-                    minWidth: 130,
-                    p: 1.5,
-                    display: 'flex',
-                    flexDirection: 'column',
-                    justifyContent: 'center',
-                    background: `linear-gradient(135deg, ${alpha(getFunctionColor(row.code), 0.15)} 0%, ${alpha(getFunctionColor(row.code), 0.05)} 100%)`,
-                    borderLeft: `4px solid ${getFunctionColor(row.code)}`,
-                    borderRadius: 2,
-                    transition: 'all 0.2s ease',
-                    '&:hover': {
-                      background: `linear-gradient(135deg, ${alpha(getFunctionColor(row.code), 0.2)} 0%, ${alpha(getFunctionColor(row.code), 0.1)} 100%)`,
-                    },
-                  }}
-                >
-                  <Typography variant="subtitle2" fontWeight="bold" color={getFunctionColor(row.code)}>
-                    {row.code}
+            {/* Summary Footer */}
+            <Box
+              sx={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                mt: 3,
+                pt: 2,
+                borderTop: `1px solid ${theme.palette.divider}`,
+              }}
+            >
+              <Box sx={{ display: 'flex', gap: 4 }}>
+                <Box>
+                  <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
+                    Total Controls
                   </Typography>
-                  <Typography variant="caption" color="text.secondary" noWrap>
-                    {row.name}
+                  <Typography
+                    variant="h5"
+                    fontWeight="bold"
+                    sx={{ fontFamily: '"JetBrains Mono", monospace' }}
+                  >
+                    {overallMetrics.totalControls}
+                  </Typography>
+                </Box>
+                <Box>
+                  <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
+                    Assessed
+                  </Typography>
+                  <Typography
+                    variant="h5"
+                    fontWeight="bold"
+                    sx={{ fontFamily: '"JetBrains Mono", monospace', color: theme.palette.info.main }}
+                  >
+                    {overallMetrics.assessedControls}
+                  </Typography>
+                </Box>
+                <Box>
+                  <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
+                    Implemented
+                  </Typography>
+                  <Typography
+                    variant="h5"
+                    fontWeight="bold"
+                    sx={{ fontFamily: '"JetBrains Mono", monospace', color: theme.palette.success.main }}
+                  >
+                    {overallMetrics.implementedControls}
+                  </Typography>
+                </Box>
+                <Box>
+                  <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
+                    Coverage
                   </Typography>
                   <Typography
-                    variant="caption"
+                    variant="h5"
                     fontWeight="bold"
                     sx={{
                       fontFamily: '"JetBrains Mono", monospace',
-                      color: getComplianceColor(row.averageScore),
+                      color: getComplianceColor(
+                        overallMetrics.totalControls > 0
+                          ? Math.round((overallMetrics.assessedControls / overallMetrics.totalControls) * 100)
+                          : 0
+                      ),
                     }}
                   >
-                    {row.averageScore}%
+                    {overallMetrics.totalControls > 0
+                      ? Math.round((overallMetrics.assessedControls / overallMetrics.totalControls) * 100)
+                      : 0}
+                    %
                   </Typography>
-                </Paper>
-
-                {/* Category Cells */}
-                <Box sx={{ display: 'flex', gap: 0.75, flexWrap: 'wrap' }}>
-                  {row.cells.map((cell, cellIndex) => {
-                    const cellBackground = getCellBackground(cell);
-                    const cellColor = getCellColor(cell);
-                    const isHovered = hoveredCell === cell.id;
-
-                    return (
-                      <Tooltip
-                        key={cell.id}
-                        title={
-                          <Box sx={{ p: 0.5 }}>
-                            <Typography variant="subtitle2" fontWeight="bold">
-                              {cell.code}: {cell.name}
-                            </Typography>
-                            <Typography variant="body2">
-                              Compliance: {cell.score}%
-                            </Typography>
-                            <Typography variant="body2">
-                              Controls: {cell.implemented}/{cell.total} implemented
-                            </Typography>
-                            <Typography variant="body2">
-                              Assessed: {cell.assessed}/{cell.total}
-                            </Typography>
-                            {onCellClick && (
-                              <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.8 }}>
-                                Click to assess
-                              </Typography>
-                            )}
-                          </Box>
-                        }
-                        arrow
-                        placement="top"
-                      >
-                        <Paper
-                          onClick={() => handleCellClick(row.code, cell.code)}
-                          onMouseEnter={() => setHoveredCell(cell.id)}
-                          onMouseLeave={() => setHoveredCell(null)}
-                          sx={{
-                            width: 85,
-                            height: 70,
-                            display: 'flex',
-                            flexDirection: 'column',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            background: cellBackground,
-                            color: '#ffffff',
-                            cursor: onCellClick ? 'pointer' : 'default',
-                            borderRadius: 2,
-                            transition: 'all 0.2s ease',
-                            transform: isHovered ? 'translateY(-3px)' : 'translateY(0)',
-                            boxShadow: isHovered
-                              ? `0 8px 24px ${alpha(cellColor, 0.4)}`
-                              : `0 2px 8px ${alpha(cellColor, 0.2)}`,
-                            border: `1px solid ${alpha(cellColor, isHovered ? 0.6 : 0.3)}`,
-                            animationDelay: `${(rowIndex * 6 + cellIndex) * 20}ms`,
-                            '&:hover': {
-                              boxShadow: `0 8px 24px ${alpha(cellColor, 0.4)}`,
-                            },
-                          }}
-                        >
-                          <Typography
-                            variant="caption"
-                            fontWeight="bold"
-                            sx={{ opacity: 0.9, fontSize: '0.7rem' }}
-                          >
-                            {cell.code}
-                          </Typography>
-                          <Typography
-                            variant="body1"
-                            fontWeight="bold"
-                            sx={{ fontFamily: '"JetBrains Mono", monospace' }}
-                          >
-                            {getCellValue(cell)}
-                          </Typography>
-                          <Typography
-                            variant="caption"
-                            sx={{ opacity: 0.8, fontSize: '0.65rem' }}
-                          >
-                            {cell.assessed}/{cell.total}
-                          </Typography>
-                        </Paper>
-                      </Tooltip>
-                    );
-                  })}
                 </Box>
               </Box>
-            ))}
-          </Box>
-        </Box>
 
-        {/* Summary Footer */}
-        <Box
-          sx={{
-            display: 'flex',
-            justifyContent: 'space-between',
-            alignItems: 'center',
-            mt: 3,
-            pt: 2,
-            borderTop: `1px solid ${theme.palette.divider}`,
-          }}
-        >
-          <Box sx={{ display: 'flex', gap: 4 }}>
-            <Box>
-              <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
-                Total Controls
-              </Typography>
-              <Typography
-                variant="h5"
-                fontWeight="bold"
-                sx={{ fontFamily: '"JetBrains Mono", monospace' }}
-              >
-                {overallMetrics.totalControls}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
-                Assessed
-              </Typography>
-              <Typography
-                variant="h5"
-                fontWeight="bold"
-                sx={{ fontFamily: '"JetBrains Mono", monospace', color: theme.palette.info.main }}
-              >
-                {overallMetrics.assessedControls}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
-                Implemented
-              </Typography>
-              <Typography
-                variant="h5"
-                fontWeight="bold"
-                sx={{ fontFamily: '"JetBrains Mono", monospace', color: theme.palette.success.main }}
-              >
-                {overallMetrics.implementedControls}
-              </Typography>
-            </Box>
-            <Box>
-              <Typography variant="overline" color="text.secondary" sx={{ letterSpacing: '0.08em' }}>
-                Coverage
-              </Typography>
-              <Typography
-                variant="h5"
-                fontWeight="bold"
-                sx={{
-                  fontFamily: '"JetBrains Mono", monospace',
-                  color: getComplianceColor(
-                    overallMetrics.totalControls > 0
-                      ? Math.round((overallMetrics.assessedControls / overallMetrics.totalControls) * 100)
-                      : 0
-                  ),
-                }}
-              >
-                {overallMetrics.totalControls > 0
-                  ? Math.round((overallMetrics.assessedControls / overallMetrics.totalControls) * 100)
-                  : 0}
-                %
-              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <InfoIcon fontSize="small" sx={{ color: 'text.secondary' }} />
+                <Typography variant="caption" color="text.secondary">
+                  Click on a cell to view detailed assessments
+                </Typography>
+              </Box>
             </Box>
-          </Box>
-
-          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-            <InfoIcon fontSize="small" sx={{ color: 'text.secondary' }} />
-            <Typography variant="caption" color="text.secondary">
-              Click on a cell to view detailed assessments
-            </Typography>
-          </Box>
-        </Box>
+          </>
+        )}
       </CardContent>
     </Card>
   );
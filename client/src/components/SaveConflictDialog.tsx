@@ -0,0 +1,99 @@
+/**
+ * Save Conflict Dialog
+ *
+ * Shown by SaveStatusContext when a save was refused because someone else
+ * changed the same fields. For each field the user keeps their value or takes
+ * the saved one, or discards all of their changes.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Paper,
+  Radio,
+  RadioGroup,
+  Typography,
+} from '@mui/material';
+import type { PendingConflict } from '../contexts/SaveStatusContext';
+
+interface SaveConflictDialogProps {
+  conflict: PendingConflict | null;
+  onClose: (choices: Record<string, 'mine' | 'theirs'> | null) => void;
+}
+
+// Helper: a field value for display
+function display(field: PendingConflict['fields'][number], value: unknown): string {
+  if (field.format) return field.format(value);
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return String(value);
+}
+
+const SaveConflictDialog: React.FC<SaveConflictDialogProps> = ({ conflict, onClose }) => {
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+
+  // Default to keeping the user's own edits
+  useEffect(() => {
+    if (conflict) {
+      setChoices(Object.fromEntries(conflict.fields.map((field) => [field.key, 'mine'])));
+    }
+  }, [conflict]);
+
+  return (
+    <Dialog open={!!conflict} maxWidth="md" fullWidth>
+      <DialogTitle>{conflict?.title}</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Someone else saved changes to the same fields while you were editing. Choose which version of each to
+          keep. Their other changes, and your other edits, are kept as they are.
+        </Alert>
+        {conflict?.fields.map((field) => (
+          <Box key={field.key} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {field.label}
+            </Typography>
+            <RadioGroup
+              value={choices[field.key] || 'mine'}
+              onChange={(e) => setChoices((prev) => ({ ...prev, [field.key]: e.target.value as 'mine' | 'theirs' }))}
+            >
+              {(['mine', 'theirs'] as const).map((side) => (
+                <Paper key={side} variant="outlined" sx={{ px: 1.5, py: 0.5, mb: 1 }}>
+                  <FormControlLabel
+                    value={side}
+                    control={<Radio size="small" />}
+                    label={
+                      <Box>
+                        <Typography variant="caption" color="text.secondary">
+                          {side === 'mine' ? 'Your version' : 'Saved version'}
+                        </Typography>
+                        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                          {display(field, field[side])}
+                        </Typography>
+                      </Box>
+                    }
+                  />
+                </Paper>
+              ))}
+            </RadioGroup>
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button color="inherit" onClick={() => onClose(null)}>
+          Discard My Changes
+        </Button>
+        <Button variant="contained" onClick={() => onClose(choices)}>
+          Save Merged
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveConflictDialog;
@@ -6,6 +6,10 @@
  * - Saving: Animated spinner with "Saving..."
  * - Saved: Green checkmark with "Saved" (auto-fades)
  * - Error: Red warning with error message
+ * - Conflict: Amber warning while an edit conflict waits to be resolved
+ * - Offline: No connection; saves are kept on this device (OfflineContext)
+ * - Queued: Saves waiting in the offline outbox; click to sync now
+ * - Syncing: Spinner while queued saves are replayed
  */
 
 import React from 'react';
@@ -20,9 +24,27 @@ import {
   CloudDone as SavedIcon,
   CloudOff as ErrorIcon,
   Cloud as IdleIcon,
+  SyncProblem as ConflictIcon,
+  CloudUpload as QueuedIcon,
+  WifiOff as OfflineIcon,
 } from '@mui/icons-material';
 import { formatDistanceToNow } from 'date-fns';
-import { useSaveStatus } from '../contexts/SaveStatusContext';
+import { SaveState, useSaveStatus } from '../contexts/SaveStatusContext';
+import { useOffline } from '../contexts/OfflineContext';
+
+type DisplayState = SaveState | 'offline' | 'queued' | 'syncing';
+
+// Helper: what to show; an ongoing save or conflict comes before the outbox
+function useDisplayState(): DisplayState {
+  const { saveState } = useSaveStatus();
+  const { online, pendingCount, syncing } = useOffline();
+
+  if (saveState === 'saving' || saveState === 'conflict' || saveState === 'error') return saveState;
+  if (syncing) return 'syncing';
+  if (pendingCount > 0) return 'queued';
+  if (!online) return 'offline';
+  return saveState;
+}
 
 interface SaveStatusIndicatorProps {
   showIdle?: boolean;
@@ -35,7 +57,10 @@ export const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({
   size = 'small',
   variant = 'full',
 }) => {
-  const { saveState, lastSaved, errorMessage } = useSaveStatus();
+  const { lastSaved, errorMessage } = useSaveStatus();
+  const { online, pendingCount, syncNow } = useOffline();
+  const saveState = useDisplayState();
+  const changes = `${pendingCount} change${pendingCount === 1 ? '' : 's'}`;
 
   const iconSize = size === 'small' ? 18 : 24;
   const fontSize = size === 'small' ? '0.75rem' : '0.875rem';
@@ -97,6 +122,85 @@ export const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({
           </Tooltip>
         );
 
+      case 'conflict':
+        return (
+          <Tooltip title="Someone else changed this record; choose which changes to keep" arrow>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+              <ConflictIcon
+                sx={{
+                  fontSize: iconSize,
+                  color: 'warning.main',
+                }}
+              />
+              {variant === 'full' && (
+                <Typography variant="caption" sx={{ fontSize, color: 'warning.main' }}>
+                  Edit conflict
+                </Typography>
+              )}
+            </Box>
+          </Tooltip>
+        );
+
+      case 'syncing':
+        return (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+            <CircularProgress size={iconSize - 2} thickness={4} />
+            {variant === 'full' && (
+              <Typography variant="caption" sx={{ fontSize, color: 'text.secondary' }}>
+                Syncing {changes}...
+              </Typography>
+            )}
+          </Box>
+        );
+
+      case 'queued':
+        return (
+          <Tooltip
+            title={
+              online
+                ? `${changes} saved on this device could not reach the server yet; click to retry`
+                : `${changes} saved on this device; they sync when you are back online`
+            }
+            arrow
+          >
+            <Box
+              onClick={online ? syncNow : undefined}
+              sx={{ display: 'flex', alignItems: 'center', gap: 0.75, cursor: online ? 'pointer' : 'default' }}
+            >
+              <QueuedIcon
+                sx={{
+                  fontSize: iconSize,
+                  color: 'warning.main',
+                }}
+              />
+              {variant === 'full' && (
+                <Typography variant="caption" sx={{ fontSize, color: 'warning.main' }}>
+                  {changes} waiting to sync
+                </Typography>
+              )}
+            </Box>
+          </Tooltip>
+        );
+
+      case 'offline':
+        return (
+          <Tooltip title="Assessments you save are kept on this device and synced when you are back online" arrow>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+              <OfflineIcon
+                sx={{
+                  fontSize: iconSize,
+                  color: 'text.secondary',
+                }}
+              />
+              {variant === 'full' && (
+                <Typography variant="caption" sx={{ fontSize, color: 'text.secondary' }}>
+                  Offline
+                </Typography>
+              )}
+            </Box>
+          </Tooltip>
+        );
+
       case 'idle':
       default:
         if (!showIdle) return null;
@@ -147,7 +251,7 @@ export const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({
  * Compact save indicator for inline use
  */
 export const SaveStatusBadge: React.FC = () => {
-  const { saveState } = useSaveStatus();
+  const saveState = useDisplayState();
 
   if (saveState === 'idle') return null;
 
@@ -0,0 +1,465 @@
+/**
+ * Scheduled Reports
+ *
+ * Lists the user's saved reports with their cron schedule, next run time and
+ * latest outcome. Reports can be created, paused, run on demand, and their
+ * past runs downloaded. Runs are executed on the server by the report scheduler.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Autocomplete,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Stack,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  PlayArrow as RunIcon,
+  History as HistoryIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Schedule as ScheduleIcon,
+} from '@mui/icons-material';
+import {
+  useSavedReports,
+  useReportRuns,
+  useCreateSavedReport,
+  useUpdateSavedReport,
+  useDeleteSavedReport,
+  useRunSavedReport,
+  downloadReportRun,
+} from '../hooks/useReports';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { Product, ReportRun, SavedReport, SavedReportType, SspFormat } from '../types/api.types';
+
+const REPORT_TYPE_LABELS: Record<SavedReportType, string> = {
+  EXECUTIVE_SUMMARY: 'Executive Summary',
+  GAP_ANALYSIS: 'Gap Analysis',
+  COMPLIANCE_PROGRESS: 'Compliance Progress',
+  RISK_ASSESSMENT: 'Risk Assessment',
+  SYSTEM_SECURITY_PLAN: 'System Security Plan',
+};
+
+const SCHEDULE_PRESETS = [
+  { value: '0 6 * * *', label: 'Daily at 06:00' },
+  { value: '0 6 * * 1', label: 'Weekly on Monday at 06:00' },
+  { value: '0 6 1 * *', label: 'Monthly on the 1st at 06:00' },
+  { value: '0 6 1 1,4,7,10 *', label: 'Quarterly at 06:00' },
+];
+
+const RUN_STATUS_COLORS: Record<ReportRun['status'], 'default' | 'success' | 'error' | 'info'> = {
+  RUNNING: 'info',
+  SUCCESS: 'success',
+  FAILED: 'error',
+};
+
+const describeSchedule = (schedule?: string | null) =>
+  SCHEDULE_PRESETS.find((p) => p.value === schedule)?.label || schedule || 'Not scheduled';
+
+const formatDateTime = (date?: string | null) => (date ? new Date(date).toLocaleString() : '—');
+
+interface ScheduledReportsProps {
+  products: Product[];
+}
+
+const emptyForm = {
+  name: '',
+  reportType: 'EXECUTIVE_SUMMARY' as SavedReportType,
+  productIds: [] as string[],
+  format: 'PDF' as SspFormat,
+  preset: SCHEDULE_PRESETS[1].value,
+  customSchedule: '',
+};
+
+/**
+ * Run history dialog for a saved report
+ */
+const RunHistoryDialog: React.FC<{ report: SavedReport | null; onClose: () => void }> = ({
+  report,
+  onClose,
+}) => {
+  const { showNotification } = useNotification();
+  const { data: runs = [], isLoading } = useReportRuns(report?.id);
+
+  const handleDownload = async (run: ReportRun) => {
+    if (!report) return;
+    try {
+      const date = run.startedAt.split('T')[0];
+      const extension =
+        report.reportType === 'SYSTEM_SECURITY_PLAN' ? (report.config.format || 'PDF').toLowerCase() : 'json';
+      await downloadReportRun(report.id, run.id, `${report.name}-${date}.${extension}`);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  return (
+    <Dialog open={!!report} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Run History: {report?.name}</DialogTitle>
+      <DialogContent>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : runs.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            This report has not run yet.
+          </Typography>
+        ) : (
+          <List dense>
+            {runs.map((run) => (
+              <ListItem key={run.id} sx={{ pr: 8 }}>
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Chip label={run.status} size="small" color={RUN_STATUS_COLORS[run.status]} />
+                      <Typography variant="body2">{formatDateTime(run.startedAt)}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {run.trigger === 'SCHEDULED' ? 'Scheduled' : 'Manual'}
+                      </Typography>
+                    </Stack>
+                  }
+                  secondary={run.error || (run.outputSize ? `${Math.ceil(run.outputSize / 1024)} KB` : undefined)}
+                />
+                {run.status === 'SUCCESS' && (
+                  <ListItemSecondaryAction>
+                    <Tooltip title="Download output">
+                      <IconButton edge="end" onClick={() => handleDownload(run)}>
+                        <DownloadIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </ListItemSecondaryAction>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const ScheduledReports: React.FC<ScheduledReportsProps> = ({ products }) => {
+  const { showNotification } = useNotification();
+  const { data: reports = [], isLoading } = useSavedReports();
+  const createReport = useCreateSavedReport();
+  const updateReport = useUpdateSavedReport();
+  const deleteReport = useDeleteSavedReport();
+  const runReport = useRunSavedReport();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [historyReport, setHistoryReport] = useState<SavedReport | null>(null);
+
+  const productName = (id: string) => products.find((p) => p.id === id)?.name || 'Unknown product';
+  const schedule = form.preset === 'custom' ? form.customSchedule.trim() : form.preset;
+  const isSsp = form.reportType === 'SYSTEM_SECURITY_PLAN';
+
+  const handleCreate = async () => {
+    setFormError('');
+    try {
+      await createReport.mutateAsync({
+        name: form.name.trim(),
+        reportType: form.reportType,
+        config: { productIds: form.productIds, ...(isSsp && { format: form.format }) },
+        isScheduled: true,
+        schedule,
+      });
+      setDialogOpen(false);
+      setForm(emptyForm);
+      showNotification('Scheduled report created', 'success');
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+    }
+  };
+
+  const handleToggle = async (report: SavedReport) => {
+    try {
+      await updateReport.mutateAsync({ id: report.id, isScheduled: !report.isScheduled });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleRun = async (report: SavedReport) => {
+    try {
+      const run = await runReport.mutateAsync(report.id);
+      if (run.status === 'FAILED') {
+        showNotification(`${report.name} failed: ${run.error}`, 'error');
+      } else {
+        showNotification(`${report.name} generated`, 'success');
+      }
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleDelete = async (report: SavedReport) => {
+    if (!window.confirm(`Delete "${report.name}" and all of its stored runs?`)) return;
+    try {
+      await deleteReport.mutateAsync(report.id);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ScheduleIcon color="primary" />
+            Scheduled Reports
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Generated automatically on the server and kept for download
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+          disabled={products.length === 0}
+        >
+          New Schedule
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : reports.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No saved reports yet. Create a schedule to have reports generated automatically.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Report</TableCell>
+              <TableCell>Products</TableCell>
+              <TableCell>Schedule</TableCell>
+              <TableCell>Next Run</TableCell>
+              <TableCell>Last Run</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {reports.map((report) => (
+              <TableRow key={report.id} hover>
+                <TableCell>
+                  <Typography variant="body2" fontWeight={600}>
+                    {report.name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {REPORT_TYPE_LABELS[report.reportType]}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  {(report.config.productIds || []).map(productName).join(', ') || '—'}
+                </TableCell>
+                <TableCell>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Tooltip title={report.isScheduled ? 'Pause schedule' : 'Resume schedule'}>
+                      <Switch
+                        size="small"
+                        checked={report.isScheduled}
+                        onChange={() => handleToggle(report)}
+                        disabled={!report.schedule || updateReport.isPending}
+                      />
+                    </Tooltip>
+                    <Tooltip title={report.schedule || ''}>
+                      <Typography variant="body2">{describeSchedule(report.schedule)}</Typography>
+                    </Tooltip>
+                  </Stack>
+                </TableCell>
+                <TableCell>{report.isScheduled ? formatDateTime(report.nextRunAt) : 'Paused'}</TableCell>
+                <TableCell>
+                  {report.isRunning ? (
+                    <Chip label="RUNNING" size="small" color="info" />
+                  ) : report.lastRun ? (
+                    <Tooltip title={report.lastRun.error || ''}>
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Chip
+                          label={report.lastRun.status}
+                          size="small"
+                          color={RUN_STATUS_COLORS[report.lastRun.status]}
+                        />
+                        <Typography variant="caption">{formatDateTime(report.lastRun.startedAt)}</Typography>
+                      </Stack>
+                    </Tooltip>
+                  ) : (
+                    <Typography variant="caption" color="text.secondary">
+                      Never
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Run now">
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleRun(report)}
+                        disabled={report.isRunning || runReport.isPending}
+                      >
+                        <RunIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Run history">
+                    <IconButton size="small" onClick={() => setHistoryReport(report)}>
+                      <HistoryIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" color="error" onClick={() => handleDelete(report)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Create schedule dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Scheduled Report</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {formError && <Alert severity="error">{formError}</Alert>}
+            <TextField
+              label="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              fullWidth
+              required
+            />
+            <FormControl fullWidth>
+              <InputLabel>Report Type</InputLabel>
+              <Select
+                value={form.reportType}
+                label="Report Type"
+                onChange={(e) => setForm({ ...form, reportType: e.target.value as SavedReportType })}
+              >
+                {(Object.keys(REPORT_TYPE_LABELS) as SavedReportType[]).map((type) => (
+                  <MenuItem key={type} value={type}>
+                    {REPORT_TYPE_LABELS[type]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Autocomplete
+              multiple
+              options={products}
+              getOptionLabel={(option) => option.name}
+              value={products.filter((p) => form.productIds.includes(p.id))}
+              onChange={(_, value) => setForm({ ...form, productIds: value.map((p) => p.id) })}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Products"
+                  required
+                  error={isSsp && form.productIds.length > 1}
+                  helperText={isSsp ? 'A System Security Plan covers exactly one product' : undefined}
+                />
+              )}
+            />
+            {isSsp && (
+              <FormControl fullWidth>
+                <InputLabel>Format</InputLabel>
+                <Select
+                  value={form.format}
+                  label="Format"
+                  onChange={(e) => setForm({ ...form, format: e.target.value as SspFormat })}
+                >
+                  <MenuItem value="PDF">PDF</MenuItem>
+                  <MenuItem value="DOCX">Word (DOCX)</MenuItem>
+                </Select>
+              </FormControl>
+            )}
+            <FormControl fullWidth>
+              <InputLabel>Schedule</InputLabel>
+              <Select
+                value={form.preset}
+                label="Schedule"
+                onChange={(e) => setForm({ ...form, preset: e.target.value })}
+              >
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <MenuItem key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </MenuItem>
+                ))}
+                <MenuItem value="custom">Custom cron expression</MenuItem>
+              </Select>
+            </FormControl>
+            {form.preset === 'custom' && (
+              <TextField
+                label="Cron expression"
+                placeholder="minute hour day-of-month month day-of-week"
+                helperText="Server local time, e.g. 30 7 * * 1-5 for weekdays at 07:30"
+                value={form.customSchedule}
+                onChange={(e) => setForm({ ...form, customSchedule: e.target.value })}
+                fullWidth
+              />
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={
+              !form.name.trim() ||
+              form.productIds.length === 0 ||
+              (isSsp && form.productIds.length > 1) ||
+              !schedule ||
+              createReport.isPending
+            }
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <RunHistoryDialog report={historyReport} onClose={() => setHistoryReport(null)} />
+    </Paper>
+  );
+};
+
+export default ScheduledReports;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Chip,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  PersonAdd as PersonAddIcon,
+} from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useRoleAssignments,
+  useCreateRoleAssignment,
+  useUpdateRoleAssignment,
+  useDeleteRoleAssignment,
+} from '../hooks/usePermissions';
+import { getErrorMessage } from '../services/api';
+import type { RoleScopeType, ScopedRole } from '../types/api.types';
+
+const SCOPED_ROLES: ScopedRole[] = ['ADMIN', 'ASSESSOR', 'AUDITOR', 'VIEWER'];
+
+const ROLE_DESCRIPTIONS: Record<ScopedRole, string> = {
+  ADMIN: 'Full control, including granting access to others',
+  ASSESSOR: 'Edit and review assessments, upload evidence and generate reports',
+  AUDITOR: 'Read-only access plus assessment review and report generation',
+  VIEWER: 'Read-only access',
+};
+
+const SCOPE_LABELS: Record<RoleScopeType, string> = {
+  CAPABILITY_CENTRE: 'capability centre',
+  FRAMEWORK: 'framework',
+  PRODUCT: 'product',
+};
+
+interface ScopeAccessDialogProps {
+  open: boolean;
+  onClose: () => void;
+  scopeType: RoleScopeType;
+  scopeId: string;
+  scopeName: string;
+}
+
+/**
+ * Grant, change and revoke roles on a capability centre, framework or product.
+ * Grants apply to everything beneath the scope.
+ */
+const ScopeAccessDialog: React.FC<ScopeAccessDialogProps> = ({
+  open,
+  onClose,
+  scopeType,
+  scopeId,
+  scopeName,
+}) => {
+  const { user } = useAuth();
+  const { data: assignments = [], isLoading } = useRoleAssignments(scopeType, open ? scopeId : undefined);
+  const createAssignment = useCreateRoleAssignment();
+  const updateAssignment = useUpdateRoleAssignment();
+  const deleteAssignment = useDeleteRoleAssignment();
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ScopedRole>('ASSESSOR');
+  const [error, setError] = useState('');
+
+  const handleGrant = async () => {
+    setError('');
+    try {
+      await createAssignment.mutateAsync({ scopeType, scopeId, role, email: email.trim() });
+      setEmail('');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRoleChange = async (id: string, newRole: ScopedRole) => {
+    setError('');
+    try {
+      await updateAssignment.mutateAsync({ id, role: newRole });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError('');
+    try {
+      await deleteAssignment.mutateAsync(id);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Manage Access: {scopeName}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Roles granted here apply to this {SCOPE_LABELS[scopeType]} and everything beneath it.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : assignments.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            No roles have been granted on this {SCOPE_LABELS[scopeType]} yet.
+          </Typography>
+        ) : (
+          <List dense>
+            {assignments.map((assignment) => {
+              const isSelf = assignment.userId === user?.id;
+              return (
+                <ListItem key={assignment.id} sx={{ pr: 22 }}>
+                  <ListItemText
+                    primary={`${assignment.user.name}${isSelf ? ' (you)' : ''}`}
+                    secondary={assignment.user.email}
+                  />
+                  <ListItemSecondaryAction sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {isSelf ? (
+                      <Tooltip title={ROLE_DESCRIPTIONS[assignment.role]}>
+                        <Chip label={assignment.role} size="small" />
+                      </Tooltip>
+                    ) : (
+                      <Select
+                        size="small"
+                        value={assignment.role}
+                        onChange={(e) => handleRoleChange(assignment.id, e.target.value as ScopedRole)}
+                      >
+                        {SCOPED_ROLES.map((r) => (
+                          <MenuItem key={r} value={r}>
+                            {r}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    )}
+                    <Tooltip title="Revoke">
+                      <IconButton
+                        edge="end"
+                        color="error"
+                        onClick={() => handleRevoke(assignment.id)}
+                        disabled={deleteAssignment.isPending}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </ListItemSecondaryAction>
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            size="small"
+            label="User email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <FormControl size="small" sx={{ minWidth: 130 }}>
+            <InputLabel>Role</InputLabel>
+            <Select value={role} label="Role" onChange={(e) => setRole(e.target.value as ScopedRole)}>
+              {SCOPED_ROLES.map((r) => (
+                <MenuItem key={r} value={r}>
+                  {r}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            startIcon={<PersonAddIcon />}
+            onClick={handleGrant}
+            disabled={!email.trim() || createAssignment.isPending}
+          >
+            Grant
+          </Button>
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {ROLE_DESCRIPTIONS[role]}
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScopeAccessDialog;
@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  TextField,
+  Chip,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  ListItemSecondaryAction,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Groups as GroupsIcon,
+  PersonAdd as PersonAddIcon,
+  ExitToApp as LeaveIcon,
+} from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useTeams,
+  useTeam,
+  useCreateTeam,
+  useDeleteTeam,
+  useAddTeamMember,
+  useUpdateTeamMember,
+  useRemoveTeamMember,
+} from '../hooks/useTeams';
+import { getErrorMessage } from '../services/api';
+import type { TeamRole } from '../types/api.types';
+
+const TEAM_ROLES: TeamRole[] = ['OWNER', 'ADMIN', 'ASSESSOR', 'AUDITOR', 'VIEWER'];
+
+const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  OWNER: 'Full control, including deleting the team',
+  ADMIN: 'Manage members and shared capability centres',
+  ASSESSOR: 'Edit assessments, upload evidence and generate reports',
+  AUDITOR: 'Read-only access plus report generation',
+  VIEWER: 'Read-only access to shared data',
+};
+
+const TeamManagement: React.FC = () => {
+  const { user } = useAuth();
+  const { data: teams = [], isLoading } = useTeams();
+  const [selectedTeamId, setSelectedTeamId] = useState<string | undefined>();
+  const { data: selectedTeam, isLoading: teamLoading } = useTeam(selectedTeamId);
+
+  const createTeam = useCreateTeam();
+  const deleteTeam = useDeleteTeam();
+  const addMember = useAddTeamMember();
+  const updateMember = useUpdateTeamMember();
+  const removeMember = useRemoveTeamMember();
+
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [teamForm, setTeamForm] = useState({ name: '', description: '' });
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<TeamRole>('ASSESSOR');
+  const [error, setError] = useState('');
+
+  // Select the first team once teams load (or after the selected one is removed)
+  useEffect(() => {
+    if (teams.length > 0 && !teams.some((t) => t.id === selectedTeamId)) {
+      setSelectedTeamId(teams[0].id);
+    } else if (teams.length === 0) {
+      setSelectedTeamId(undefined);
+    }
+  }, [teams, selectedTeamId]);
+
+  const myRole = selectedTeam?.role;
+  const canManage = myRole === 'OWNER' || myRole === 'ADMIN';
+
+  const handleCreateTeam = async () => {
+    setError('');
+    try {
+      const team = await createTeam.mutateAsync({
+        name: teamForm.name.trim(),
+        description: teamForm.description.trim() || undefined,
+      });
+      setSelectedTeamId(team.id);
+      setCreateDialogOpen(false);
+      setTeamForm({ name: '', description: '' });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!selectedTeamId) return;
+    setError('');
+    try {
+      await addMember.mutateAsync({
+        teamId: selectedTeamId,
+        data: { email: memberEmail.trim(), role: memberRole },
+      });
+      setMemberEmail('');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: TeamRole) => {
+    if (!selectedTeamId) return;
+    setError('');
+    try {
+      await updateMember.mutateAsync({ teamId: selectedTeamId, userId, role });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!selectedTeamId) return;
+    setError('');
+    try {
+      await removeMember.mutateAsync({ teamId: selectedTeamId, userId });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleDeleteTeam = async () => {
+    if (!selectedTeamId) return;
+    setError('');
+    try {
+      await deleteTeam.mutateAsync(selectedTeamId);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6" gutterBottom sx={{ mb: 0 }}>
+            Teams
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Share capability centres and everything beneath them with your colleagues
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setCreateDialogOpen(true)}
+          size="small"
+        >
+          New Team
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : teams.length === 0 ? (
+        <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+          <GroupsIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2 }} />
+          <Typography variant="h6" gutterBottom>
+            No Teams Yet
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Create a team, invite members, then share a capability centre with it
+            from the Organization tab.
+          </Typography>
+        </Paper>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', md: 'row' } }}>
+          <Paper variant="outlined" sx={{ minWidth: 220 }}>
+            <List dense>
+              {teams.map((team) => (
+                <ListItemButton
+                  key={team.id}
+                  selected={team.id === selectedTeamId}
+                  onClick={() => setSelectedTeamId(team.id)}
+                >
+                  <ListItemText
+                    primary={team.name}
+                    secondary={`${team._count?.members ?? 0} members · ${team.role}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          </Paper>
+
+          <Paper variant="outlined" sx={{ flex: 1, p: 2 }}>
+            {teamLoading || !selectedTeam ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : (
+              <>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                  <Box>
+                    <Typography variant="subtitle1" fontWeight="medium">
+                      {selectedTeam.name}
+                    </Typography>
+                    {selectedTeam.description && (
+                      <Typography variant="body2" color="text.secondary">
+                        {selectedTeam.description}
+                      </Typography>
+                    )}
+                  </Box>
+                  {myRole === 'OWNER' && (
+                    <Tooltip title="Delete team">
+                      <IconButton color="error" onClick={handleDeleteTeam} disabled={deleteTeam.isPending}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </Box>
+
+                {selectedTeam.capabilityCentres && selectedTeam.capabilityCentres.length > 0 && (
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+                    {selectedTeam.capabilityCentres.map((cc) => (
+                      <Chip key={cc.id} label={cc.name} size="small" variant="outlined" />
+                    ))}
+                  </Box>
+                )}
+
+                <Divider sx={{ my: 2 }} />
+
+                <Typography variant="subtitle2" gutterBottom>
+                  Members
+                </Typography>
+                <List dense>
+                  {selectedTeam.members?.map((member) => {
+                    const isSelf = member.userId === user?.id;
+                    const canEditMember = canManage && !isSelf && (member.role !== 'OWNER' || myRole === 'OWNER');
+                    return (
+                      <ListItem key={member.id} sx={{ pr: 22 }}>
+                        <ListItemText
+                          primary={`${member.user.name}${isSelf ? ' (you)' : ''}`}
+                          secondary={member.user.email}
+                        />
+                        <ListItemSecondaryAction sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {canEditMember ? (
+                            <Select
+                              size="small"
+                              value={member.role}
+                              onChange={(e) => handleRoleChange(member.userId, e.target.value as TeamRole)}
+                            >
+                              {TEAM_ROLES.filter((r) => r !== 'OWNER' || myRole === 'OWNER').map((role) => (
+                                <MenuItem key={role} value={role}>
+                                  {role}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          ) : (
+                            <Tooltip title={ROLE_DESCRIPTIONS[member.role]}>
+                              <Chip label={member.role} size="small" />
+                            </Tooltip>
+                          )}
+                          {(canEditMember || isSelf) && (
+                            <Tooltip title={isSelf ? 'Leave team' : 'Remove member'}>
+                              <IconButton
+                                edge="end"
+                                color={isSelf ? 'default' : 'error'}
+                                onClick={() => handleRemoveMember(member.userId)}
+                                disabled={removeMember.isPending}
+                              >
+                                {isSelf ? <LeaveIcon /> : <DeleteIcon />}
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                        </ListItemSecondaryAction>
+                      </ListItem>
+                    );
+                  })}
+                </List>
+
+                {canManage && (
+                  <Box sx={{ display: 'flex', gap: 1, mt: 2, alignItems: 'center' }}>
+                    <TextField
+                      size="small"
+                      label="Member email"
+                      type="email"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      sx={{ flex: 1 }}
+                    />
+                    <FormControl size="small" sx={{ minWidth: 130 }}>
+                      <InputLabel>Role</InputLabel>
+                      <Select
+                        value={memberRole}
+                        label="Role"
+                        onChange={(e) => setMemberRole(e.target.value as TeamRole)}
+                      >
+                        {TEAM_ROLES.filter((r) => r !== 'OWNER' || myRole === 'OWNER').map((role) => (
+                          <MenuItem key={role} value={role}>
+                            {role}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                    <Button
+                      variant="outlined"
+                      startIcon={<PersonAddIcon />}
+                      onClick={handleAddMember}
+                      disabled={!memberEmail.trim() || addMember.isPending}
+                    >
+                      Add
+                    </Button>
+                  </Box>
+                )}
+              </>
+            )}
+          </Paper>
+        </Box>
+      )}
+
+      {/* Create Team Dialog */}
+      <Dialog open={createDialogOpen} onClose={() => setCreateDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Create Team</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            fullWidth
+            required
+            value={teamForm.name}
+            onChange={(e) => setTeamForm({ ...teamForm, name: e.target.value })}
+            placeholder="e.g., Security Assessment Team"
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            margin="dense"
+            label="Description"
+            fullWidth
+            multiline
+            rows={2}
+            value={teamForm.description}
+            onChange={(e) => setTeamForm({ ...teamForm, description: e.target.value })}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleCreateTeam}
+            disabled={!teamForm.name.trim() || createTeam.isPending}
+          >
+            {createTeam.isPending ? <CircularProgress size={20} /> : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TeamManagement;
@@ -0,0 +1,481 @@
+/**
+ * Tracker Connection Management
+ *
+ * Admin view for connecting Jira or generic REST issue trackers that
+ * remediation tasks are mirrored to, and for testing and syncing them.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  NetworkCheck as TestIcon,
+  Sync as SyncIcon,
+} from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  useTrackerConnections,
+  useCreateTrackerConnection,
+  useUpdateTrackerConnection,
+  useDeleteTrackerConnection,
+  useTestTrackerConnection,
+  useSyncTrackerConnection,
+} from '../hooks/useTrackers';
+import { useProducts } from '../hooks/useProducts';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type {
+  TrackerConnection,
+  TrackerConnectionInput,
+  TrackerType,
+  RemediationTaskStatus,
+} from '../types/api.types';
+
+const TYPE_LABELS: Record<TrackerType, string> = {
+  JIRA: 'Jira',
+  GENERIC_REST: 'Generic REST',
+};
+
+const TASK_STATUSES: RemediationTaskStatus[] = ['OPEN', 'IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED'];
+
+const emptyForm: TrackerConnectionInput = {
+  name: '',
+  type: 'JIRA',
+  baseUrl: '',
+  username: '',
+  apiToken: '',
+  projectKey: '',
+  issueType: 'Task',
+  statusMap: null,
+  productId: null,
+  autoCreate: true,
+  isActive: true,
+};
+
+// Status map is edited as "Tracker status = TASK_STATUS" lines
+const formatStatusMap = (map: Record<string, RemediationTaskStatus> | null | undefined) =>
+  map ? Object.entries(map).map(([name, status]) => `${name} = ${status}`).join('\n') : '';
+
+function parseStatusMap(text: string): Record<string, RemediationTaskStatus> | null {
+  const map: Record<string, RemediationTaskStatus> = {};
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const [name, status] = line.split('=').map((part) => part.trim());
+    if (!name || !TASK_STATUSES.includes(status as RemediationTaskStatus)) {
+      throw new Error(`Invalid status mapping "${line.trim()}". Use: Tracker status = ${TASK_STATUSES.join(' | ')}`);
+    }
+    map[name] = status as RemediationTaskStatus;
+  }
+  return Object.keys(map).length > 0 ? map : null;
+}
+
+const TrackerConnectionManagement: React.FC = () => {
+  const { showNotification } = useNotification();
+  const { data: connections = [], isLoading } = useTrackerConnections();
+  const { data: products = [] } = useProducts();
+  const createConnection = useCreateTrackerConnection();
+  const updateConnection = useUpdateTrackerConnection();
+  const deleteConnection = useDeleteTrackerConnection();
+  const testConnection = useTestTrackerConnection();
+  const syncConnection = useSyncTrackerConnection();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TrackerConnection | null>(null);
+  const [form, setForm] = useState<TrackerConnectionInput>(emptyForm);
+  const [statusMapText, setStatusMapText] = useState('');
+  const [formError, setFormError] = useState('');
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setStatusMapText('');
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const openEdit = (connection: TrackerConnection) => {
+    setEditing(connection);
+    setForm({
+      name: connection.name,
+      type: connection.type,
+      baseUrl: connection.baseUrl,
+      username: connection.username || '',
+      apiToken: '',
+      projectKey: connection.projectKey || '',
+      issueType: connection.issueType,
+      productId: connection.productId,
+      autoCreate: connection.autoCreate,
+      isActive: connection.isActive,
+    });
+    setStatusMapText(formatStatusMap(connection.statusMap));
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setFormError('');
+    try {
+      const { apiToken, ...rest } = form;
+      const data: TrackerConnectionInput = {
+        ...rest,
+        username: form.username || null,
+        projectKey: form.projectKey || null,
+        statusMap: parseStatusMap(statusMapText),
+        // Leaving the token blank on edit keeps the stored one
+        ...((apiToken || !editing) && { apiToken: apiToken || null }),
+      };
+
+      if (editing) {
+        await updateConnection.mutateAsync({ id: editing.id, data });
+        showNotification('Tracker connection updated', 'success');
+      } else {
+        await createConnection.mutateAsync(data);
+        showNotification('Tracker connection added', 'success');
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+    }
+  };
+
+  const handleToggleActive = async (connection: TrackerConnection) => {
+    try {
+      await updateConnection.mutateAsync({ id: connection.id, data: { isActive: !connection.isActive } });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleTest = async (connection: TrackerConnection) => {
+    try {
+      const result = await testConnection.mutateAsync(connection.id);
+      showNotification(
+        result.ok ? `Connected to ${connection.name}` : `Connection failed: ${result.error}`,
+        result.ok ? 'success' : 'warning'
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleSync = async (connection: TrackerConnection) => {
+    try {
+      const summary = await syncConnection.mutateAsync(connection.id);
+      showNotification(
+        `Synced ${summary.synced} task(s): ${summary.changed} updated${summary.failed ? `, ${summary.failed} failed` : ''}`,
+        summary.failed ? 'warning' : 'success'
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleDelete = async (connection: TrackerConnection) => {
+    if (!window.confirm(`Delete tracker connection "${connection.name}"? Linked tasks keep their ticket links but stop syncing.`)) {
+      return;
+    }
+    try {
+      await deleteConnection.mutateAsync(connection.id);
+      showNotification('Tracker connection deleted', 'success');
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const productName = (productId: string | null) =>
+    productId ? products.find((p) => p.id === productId)?.name || 'Unknown product' : 'All products';
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6">Issue Trackers</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Open tickets for new remediation tasks and pull status and assignee changes back.
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Add Tracker
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : connections.length === 0 ? (
+        <Alert severity="info">No issue trackers connected yet.</Alert>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Scope</TableCell>
+                <TableCell>Linked Tasks</TableCell>
+                <TableCell>Last Sync</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {connections.map((connection) => (
+                <TableRow key={connection.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>
+                      {connection.name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                      {connection.baseUrl}
+                      {connection.projectKey && ` · ${connection.projectKey}`}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="small" variant="outlined" label={TYPE_LABELS[connection.type]} />
+                    {connection.autoCreate && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        Auto-create
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{productName(connection.productId)}</TableCell>
+                  <TableCell>{connection.linkedTasks ?? 0}</TableCell>
+                  <TableCell>
+                    {connection.lastSyncAt ? (
+                      <Typography variant="caption" color="text.secondary">
+                        {formatDistanceToNow(new Date(connection.lastSyncAt), { addSuffix: true })}
+                      </Typography>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        Never
+                      </Typography>
+                    )}
+                    {connection.lastSyncError && (
+                      <Tooltip title={connection.lastSyncError}>
+                        <Typography variant="caption" color="error" display="block">
+                          Last sync had errors
+                        </Typography>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={connection.isActive}
+                      onChange={() => handleToggleActive(connection)}
+                      disabled={updateConnection.isPending}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Test connection">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleTest(connection)}
+                          disabled={testConnection.isPending}
+                        >
+                          <TestIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Sync now">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleSync(connection)}
+                          disabled={syncConnection.isPending || !connection.isActive}
+                        >
+                          <SyncIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => openEdit(connection)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => handleDelete(connection)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Issue Tracker' : 'Add Issue Tracker'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            fullWidth
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., Security Jira"
+          />
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Type</InputLabel>
+            <Select
+              value={form.type}
+              label="Type"
+              onChange={(e) => setForm({ ...form, type: e.target.value as TrackerType })}
+            >
+              {(Object.keys(TYPE_LABELS) as TrackerType[]).map((type) => (
+                <MenuItem key={type} value={type}>
+                  {TYPE_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            margin="dense"
+            label="Base URL"
+            fullWidth
+            required
+            value={form.baseUrl}
+            onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+            placeholder={form.type === 'JIRA' ? 'https://your-org.atlassian.net' : 'https://tracker.example.com/api'}
+          />
+          {form.type === 'JIRA' && (
+            <>
+              <TextField
+                margin="dense"
+                label="Project Key"
+                fullWidth
+                required
+                value={form.projectKey || ''}
+                onChange={(e) => setForm({ ...form, projectKey: e.target.value })}
+                placeholder="e.g., SEC"
+              />
+              <TextField
+                margin="dense"
+                label="Issue Type"
+                fullWidth
+                value={form.issueType || ''}
+                onChange={(e) => setForm({ ...form, issueType: e.target.value })}
+              />
+              <TextField
+                margin="dense"
+                label="Username"
+                fullWidth
+                value={form.username || ''}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                helperText="Account email for Jira Cloud. Leave blank to send the token as a bearer token."
+              />
+            </>
+          )}
+          <TextField
+            margin="dense"
+            label="API Token"
+            type="password"
+            fullWidth
+            value={form.apiToken || ''}
+            onChange={(e) => setForm({ ...form, apiToken: e.target.value })}
+            helperText={editing?.apiToken ? `Current token ${editing.apiToken}. Leave blank to keep it.` : undefined}
+          />
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Product</InputLabel>
+            <Select
+              value={form.productId || ''}
+              label="Product"
+              onChange={(e) => setForm({ ...form, productId: e.target.value || null })}
+            >
+              <MenuItem value="">All products</MenuItem>
+              {products.map((product) => (
+                <MenuItem key={product.id} value={product.id}>
+                  {product.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            margin="dense"
+            label="Status Mapping"
+            fullWidth
+            multiline
+            minRows={2}
+            value={statusMapText}
+            onChange={(e) => setStatusMapText(e.target.value)}
+            placeholder={'QA Review = IN_PROGRESS\nDeferred = BLOCKED'}
+            helperText="Optional. One per line: tracker status = task status. Common names like To Do, In Progress and Done are mapped automatically."
+          />
+
+          <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
+            <FormControlLabel
+              control={
+                <Switch checked={form.autoCreate} onChange={(e) => setForm({ ...form, autoCreate: e.target.checked })} />
+              }
+              label="Create tickets for new tasks"
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={
+              !form.name ||
+              !form.baseUrl ||
+              (form.type === 'JIRA' && !form.projectKey) ||
+              createConnection.isPending ||
+              updateConnection.isPending
+            }
+          >
+            {editing ? 'Save' : 'Add'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TrackerConnectionManagement;
@@ -0,0 +1,589 @@
+/**
+ * Webhook Management
+ *
+ * Admin view for registering webhook URLs, choosing the compliance events
+ * they receive, and inspecting or retrying their deliveries.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  History as HistoryIcon,
+  Key as KeyIcon,
+  Replay as ReplayIcon,
+  Send as SendIcon,
+} from '@mui/icons-material';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  useWebhooks,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useRotateWebhookSecret,
+  useTestWebhook,
+  useWebhookDeliveries,
+  useRedeliverWebhook,
+} from '../hooks/useWebhooks';
+import { useProducts } from '../hooks/useProducts';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type {
+  Webhook,
+  WebhookInput,
+  WebhookEventType,
+  WebhookDeliveryStatus,
+} from '../types/api.types';
+
+const EVENT_DESCRIPTIONS: Record<WebhookEventType, { label: string; description: string }> = {
+  ASSESSMENT_STATUS_CHANGED: { label: 'Assessment status changed', description: 'A control assessment moves to a new status' },
+  SCORE_THRESHOLD_CROSSED: { label: 'Score crossed threshold', description: 'A product compliance score rises above or falls below the threshold' },
+  TASK_OVERDUE: { label: 'Task overdue', description: 'A remediation task passes its due date' },
+  EVIDENCE_EXPIRED: { label: 'Evidence expired', description: 'Uploaded evidence reaches its expiry date' },
+  BASELINE_CHANGED: { label: 'Baseline changed', description: 'Controls are added to or removed from a product baseline' },
+};
+
+const EVENT_TYPES = Object.keys(EVENT_DESCRIPTIONS) as WebhookEventType[];
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, 'success' | 'warning' | 'error'> = {
+  SUCCEEDED: 'success',
+  PENDING: 'warning',
+  FAILED: 'error',
+};
+
+const emptyForm: WebhookInput = {
+  name: '',
+  url: '',
+  events: [],
+  productId: null,
+  scoreThreshold: 70,
+  isActive: true,
+};
+
+interface DeliveryLogDialogProps {
+  webhook: Webhook | null;
+  onClose: () => void;
+}
+
+const DeliveryLogDialog: React.FC<DeliveryLogDialogProps> = ({ webhook, onClose }) => {
+  const { showNotification } = useNotification();
+  const [status, setStatus] = useState<WebhookDeliveryStatus | undefined>();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(webhook?.id, status);
+  const redeliver = useRedeliverWebhook();
+
+  const handleRedeliver = async (deliveryId: string) => {
+    try {
+      const result = await redeliver.mutateAsync(deliveryId);
+      showNotification(
+        result.status === 'SUCCEEDED' ? 'Delivered' : `Delivery failed: ${result.error}`,
+        result.status === 'SUCCEEDED' ? 'success' : 'warning'
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  return (
+    <Dialog open={!!webhook} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Deliveries: {webhook?.name}</DialogTitle>
+      <DialogContent>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={status || 'ALL'}
+          onChange={(_e, value) => value && setStatus(value === 'ALL' ? undefined : value)}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="ALL">All</ToggleButton>
+          <ToggleButton value="SUCCEEDED">Succeeded</ToggleButton>
+          <ToggleButton value="PENDING">Retrying</ToggleButton>
+          <ToggleButton value="FAILED">Failed</ToggleButton>
+        </ToggleButtonGroup>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : deliveries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            No deliveries yet.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Event</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Attempts</TableCell>
+                  <TableCell>Response</TableCell>
+                  <TableCell>Created</TableCell>
+                  <TableCell align="right" />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <React.Fragment key={delivery.id}>
+                    <TableRow
+                      hover
+                      sx={{ cursor: 'pointer' }}
+                      onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                    >
+                      <TableCell>{delivery.eventType}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={delivery.status} color={STATUS_COLORS[delivery.status]} />
+                      </TableCell>
+                      <TableCell>
+                        {delivery.attempts}
+                        {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            next {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.responseStatus ?? '—'}
+                        {delivery.error && (
+                          <Typography variant="caption" color="error" display="block">
+                            {delivery.error}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Redeliver">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRedeliver(delivery.id);
+                              }}
+                              disabled={redeliver.isPending}
+                            >
+                              <ReplayIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === delivery.id && (
+                      <TableRow>
+                        <TableCell colSpan={6}>
+                          <Box
+                            component="pre"
+                            sx={{ m: 0, p: 1, bgcolor: 'action.hover', fontSize: '0.75rem', overflow: 'auto', maxHeight: 240 }}
+                          >
+                            {JSON.stringify(JSON.parse(delivery.payload), null, 2)}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const WebhookManagement: React.FC = () => {
+  const { showNotification } = useNotification();
+  const { data: webhooks = [], isLoading } = useWebhooks();
+  const { data: products = [] } = useProducts();
+  const createWebhook = useCreateWebhook();
+  const updateWebhook = useUpdateWebhook();
+  const deleteWebhook = useDeleteWebhook();
+  const rotateSecret = useRotateWebhookSecret();
+  const testWebhook = useTestWebhook();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [form, setForm] = useState<WebhookInput>(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [revealedSecret, setRevealedSecret] = useState<Webhook | null>(null);
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const openEdit = (webhook: Webhook) => {
+    setEditing(webhook);
+    setForm({
+      name: webhook.name,
+      url: webhook.url,
+      events: webhook.events,
+      productId: webhook.productId,
+      scoreThreshold: webhook.scoreThreshold,
+      isActive: webhook.isActive,
+    });
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setForm((prev) => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter((e) => e !== event) : [...prev.events, event],
+    }));
+  };
+
+  const handleSave = async () => {
+    setFormError('');
+    try {
+      if (editing) {
+        await updateWebhook.mutateAsync({ id: editing.id, data: form });
+        showNotification('Webhook updated', 'success');
+      } else {
+        const created = await createWebhook.mutateAsync(form);
+        setRevealedSecret(created);
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      setFormError(getErrorMessage(error));
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook) => {
+    try {
+      await updateWebhook.mutateAsync({ id: webhook.id, data: { isActive: !webhook.isActive } });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const delivery = await testWebhook.mutateAsync(webhook.id);
+      if (delivery.status === 'SUCCEEDED') {
+        showNotification(`Test delivered (HTTP ${delivery.responseStatus})`, 'success');
+      } else {
+        showNotification(`Test delivery failed: ${delivery.error}`, 'warning');
+      }
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleRotate = async (webhook: Webhook) => {
+    if (!window.confirm(`Rotate the signing secret for "${webhook.name}"? The receiver must be updated with the new secret.`)) {
+      return;
+    }
+    try {
+      setRevealedSecret(await rotateSecret.mutateAsync(webhook.id));
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete webhook "${webhook.name}" and its delivery log?`)) return;
+    try {
+      await deleteWebhook.mutateAsync(webhook.id);
+      showNotification('Webhook deleted', 'success');
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const productName = (productId: string | null) =>
+    productId ? products.find((p) => p.id === productId)?.name || 'Unknown product' : 'All products';
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6">Webhooks</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Send compliance events to chat, SIEM and other tools. Requests are signed with HMAC-SHA256.
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Add Webhook
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : webhooks.length === 0 ? (
+        <Alert severity="info">No webhooks registered yet.</Alert>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Events</TableCell>
+                <TableCell>Scope</TableCell>
+                <TableCell>Last Delivery</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>
+                      {webhook.name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                      {webhook.url}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                      {webhook.events.map((event) => (
+                        <Chip
+                          key={event}
+                          size="small"
+                          variant="outlined"
+                          label={
+                            event === 'SCORE_THRESHOLD_CROSSED'
+                              ? `${EVENT_DESCRIPTIONS[event].label} (${webhook.scoreThreshold}%)`
+                              : EVENT_DESCRIPTIONS[event].label
+                          }
+                        />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{productName(webhook.productId)}</TableCell>
+                  <TableCell>
+                    {webhook.lastDelivery ? (
+                      <Box>
+                        <Chip
+                          size="small"
+                          label={webhook.lastDelivery.status}
+                          color={STATUS_COLORS[webhook.lastDelivery.status]}
+                        />
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {formatDistanceToNow(new Date(webhook.lastDelivery.createdAt), { addSuffix: true })}
+                        </Typography>
+                      </Box>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        Never
+                      </Typography>
+                    )}
+                    {!!webhook.failedDeliveries && (
+                      <Typography variant="caption" color="error" display="block">
+                        {webhook.failedDeliveries} failed
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={webhook.isActive}
+                      onChange={() => handleToggleActive(webhook)}
+                      disabled={updateWebhook.isPending}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Send test event">
+                      <span>
+                        <IconButton size="small" onClick={() => handleTest(webhook)} disabled={testWebhook.isPending}>
+                          <SendIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Delivery log">
+                      <IconButton size="small" onClick={() => setLogWebhook(webhook)}>
+                        <HistoryIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Rotate secret">
+                      <IconButton size="small" onClick={() => handleRotate(webhook)}>
+                        <KeyIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => openEdit(webhook)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => handleDelete(webhook)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Webhook' : 'Add Webhook'}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            fullWidth
+            required
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., Security channel, SIEM"
+          />
+          <TextField
+            margin="dense"
+            label="Payload URL"
+            fullWidth
+            required
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            placeholder="https://example.com/hooks/compliance"
+          />
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Product</InputLabel>
+            <Select
+              value={form.productId || ''}
+              label="Product"
+              onChange={(e) => setForm({ ...form, productId: e.target.value || null })}
+            >
+              <MenuItem value="">All products</MenuItem>
+              {products.map((product) => (
+                <MenuItem key={product.id} value={product.id}>
+                  {product.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl component="fieldset" margin="normal" fullWidth>
+            <FormLabel component="legend">Events</FormLabel>
+            <FormGroup>
+              {EVENT_TYPES.map((event) => (
+                <FormControlLabel
+                  key={event}
+                  control={<Checkbox checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />}
+                  label={
+                    <Box>
+                      <Typography variant="body2">{EVENT_DESCRIPTIONS[event].label}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {EVENT_DESCRIPTIONS[event].description}
+                      </Typography>
+                    </Box>
+                  }
+                />
+              ))}
+            </FormGroup>
+          </FormControl>
+
+          {form.events.includes('SCORE_THRESHOLD_CROSSED') && (
+            <TextField
+              margin="dense"
+              label="Score threshold (%)"
+              type="number"
+              fullWidth
+              value={form.scoreThreshold}
+              onChange={(e) => setForm({ ...form, scoreThreshold: Number(e.target.value) })}
+              inputProps={{ min: 0, max: 100 }}
+            />
+          )}
+
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={<Switch checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />}
+            label="Active"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!form.name || !form.url || form.events.length === 0 || createWebhook.isPending || updateWebhook.isPending}
+          >
+            {editing ? 'Save' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Signing Secret Dialog */}
+      <Dialog open={!!revealedSecret} onClose={() => setRevealedSecret(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Signing Secret</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Copy this secret now. It will not be shown again.
+          </Alert>
+          <TextField
+            fullWidth
+            value={revealedSecret?.secret || ''}
+            InputProps={{ readOnly: true, sx: { fontFamily: 'monospace' } }}
+            onFocus={(e) => e.target.select()}
+          />
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            Each request carries <code>X-Webhook-Timestamp</code> and <code>X-Webhook-Signature</code> headers.
+            Verify by computing HMAC-SHA256 of <code>timestamp + "." + body</code> with this secret and comparing it
+            to the signature after the <code>sha256=</code> prefix.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setRevealedSecret(null)}>
+            Done
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <DeliveryLogDialog webhook={logWebhook} onClose={() => setLogWebhook(null)} />
+    </Box>
+  );
+};
+
+export default WebhookManagement;
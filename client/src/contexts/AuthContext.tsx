@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import axios from 'axios';
+import { isNetworkError } from '../services/api';
+import { clearCachedQueries } from '../services/offlineStore';
 
 interface User {
   id: string;
@@ -8,6 +10,9 @@ interface User {
   role: string;
 }
 
+// The signed-in user, kept so the app can start offline
+const USER_STORAGE_KEY = 'user';
+
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<void>;
@@ -55,10 +60,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       const response = await axios.get('/api/auth/me');
       setUser(response.data);
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(response.data));
     } catch (error) {
-      // Token is invalid, remove it
-      localStorage.removeItem('token');
-      delete axios.defaults.headers.common['Authorization'];
+      const cachedUser = localStorage.getItem(USER_STORAGE_KEY);
+      if (isNetworkError(error) && cachedUser) {
+        // Offline: carry on as the last signed-in user until the server can check the token
+        setUser(JSON.parse(cachedUser));
+      } else {
+        // Token is invalid, remove it
+        localStorage.removeItem('token');
+        localStorage.removeItem(USER_STORAGE_KEY);
+        delete axios.defaults.headers.common['Authorization'];
+      }
     } finally {
       setIsLoading(false);
     }
@@ -70,6 +83,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const { token, user: userData } = response.data;
       
       localStorage.setItem('token', token);
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(userData));
       axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
       setUser(userData);
     } catch (error: any) {
@@ -79,8 +93,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = () => {
     localStorage.removeItem('token');
+    localStorage.removeItem(USER_STORAGE_KEY);
     delete axios.defaults.headers.common['Authorization'];
     setUser(null);
+    // Unsynced saves stay in the outbox until this user signs in again
+    clearCachedQueries();
   };
 
   const value = {
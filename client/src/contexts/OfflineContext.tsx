@@ -0,0 +1,224 @@
+/**
+ * Offline Context
+ *
+ * Tracks connectivity and syncs the offline outbox (services/offlineStore.ts):
+ * assessment saves made while the server was unreachable are replayed in
+ * order when the browser comes back online, on start-up, and every
+ * RETRY_MS while any are waiting.
+ *
+ * A replayed save refused for a version conflict goes through the same
+ * merge dialog as any other save (SaveStatusContext); a save the server
+ * refuses for good (deleted, no access, invalid) is dropped and reported.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import { useNotification } from './NotificationContext';
+import { useSaveStatus } from './SaveStatusContext';
+import {
+  ASSESSMENT_CONFLICT_FIELDS,
+  assessmentFromServer,
+  assessmentKeys,
+  sendQueuedAssessmentWrite,
+} from '../hooks/useAssessments';
+import { getErrorMessage, getVersionConflict, isNetworkError, newIdempotencyKey } from '../services/api';
+import {
+  QueuedAssessmentWrite,
+  completeQueuedWrite,
+  dropQueuedWrite,
+  listOutbox,
+  onOutboxChange,
+  retargetQueuedWrites,
+  updateQueuedWrite,
+} from '../services/offlineStore';
+import type { Assessment } from '../types/api.types';
+
+const RETRY_MS = 30 * 1000;
+
+interface OfflineContextValue {
+  online: boolean;
+  pendingCount: number; // Saves waiting in the outbox
+  syncing: boolean;
+  syncNow: () => void;
+}
+
+const OfflineContext = createContext<OfflineContextValue | undefined>(undefined);
+
+// Helper: whether a failed replay should be retried later rather than dropped
+function isTransient(error: unknown): boolean {
+  if (isNetworkError(error)) return true;
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  const code = axios.isAxiosError(error) ? (error.response?.data as { code?: string } | undefined)?.code : undefined;
+  // 401: signed out, replayed after signing back in; in-progress: the first attempt is still running
+  return status === undefined || status === 401 || status === 429 || status >= 500 || code === 'IDEMPOTENCY_IN_PROGRESS';
+}
+
+// Helper: the fields a queued write would leave the assessment with
+function editedCopy(entry: QueuedAssessmentWrite): Partial<Assessment> {
+  const changes = Object.fromEntries(Object.entries(entry.input).filter(([, value]) => value !== undefined));
+  return { ...entry.base, ...changes };
+}
+
+interface OfflineProviderProps {
+  children: React.ReactNode;
+}
+
+export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { showNotification } = useNotification();
+  const { setError, setSaved, resolveConflict } = useSaveStatus();
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const userId = user?.id;
+
+  const refreshCount = useCallback(() => {
+    if (!userId) {
+      setPendingCount(0);
+      return;
+    }
+    listOutbox(userId)
+      .then((entries) => setPendingCount(entries.length))
+      .catch(() => setPendingCount(0));
+  }, [userId]);
+
+  useEffect(() => {
+    refreshCount();
+    return onOutboxChange(refreshCount);
+  }, [refreshCount]);
+
+  /**
+   * Replay queued saves oldest first, stopping at the first one that can't
+   * reach the server
+   */
+  const sync = useCallback(async () => {
+    if (!userId || syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let synced = 0;
+    try {
+      for (;;) {
+        const [entry] = await listOutbox(userId);
+        if (!entry) break;
+
+        try {
+          const saved = await sendQueuedAssessmentWrite(entry);
+          await completeQueuedWrite(entry, saved);
+          synced++;
+        } catch (error) {
+          if (isTransient(error)) break;
+
+          const current = getVersionConflict(error);
+          if (!current) {
+            await dropQueuedWrite(entry);
+            setError(getErrorMessage(error));
+            showNotification(`A change to ${entry.controlId} made offline could not be saved: ${getErrorMessage(error)}`, 'error');
+            continue;
+          }
+
+          // Someone else saved it meanwhile: merge, then send again based on their version
+          const theirs = assessmentFromServer(current);
+          const merged = await resolveConflict({
+            title: `${entry.controlId} was changed by someone else while you were offline`,
+            base: entry.base,
+            mine: editedCopy(entry),
+            theirs,
+            fields: ASSESSMENT_CONFLICT_FIELDS,
+          });
+          if (!merged) {
+            await dropQueuedWrite(entry);
+            showNotification(`Your offline change to ${entry.controlId} was discarded`, 'info');
+            continue;
+          }
+          if (entry.assessmentId !== theirs.id) {
+            // A queued create for a control someone else assessed first becomes an update of theirs
+            await retargetQueuedWrites(entry, theirs);
+          }
+          await updateQueuedWrite({
+            ...entry,
+            kind: 'update',
+            assessmentId: theirs.id,
+            input: {
+              status: merged.status,
+              implementationNotes: merged.implementationNotes || undefined,
+              evidence: merged.evidence || undefined,
+              remediationPlan: merged.remediationPlan || undefined,
+              riskLevel: merged.riskLevel || undefined,
+            },
+            base: theirs,
+            version: theirs.version,
+            idempotencyKey: newIdempotencyKey(),
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to sync offline changes:', error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+
+    if (synced > 0) {
+      // Replace the optimistic copies (and local IDs) with the server's
+      queryClient.invalidateQueries({ queryKey: assessmentKeys.all });
+      setSaved();
+      showNotification(`${synced} change${synced === 1 ? '' : 's'} made offline synced`, 'success');
+    }
+  }, [userId, queryClient, resolveConflict, setError, setSaved, showNotification]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+      // Anything served from the device cache may be out of date
+      queryClient.invalidateQueries();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync, queryClient]);
+
+  // On start-up, and periodically while saves are waiting (navigator.onLine
+  // can't tell whether the server itself is reachable)
+  useEffect(() => {
+    if (navigator.onLine) sync();
+  }, [sync]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(() => {
+      if (navigator.onLine) sync();
+    }, RETRY_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, sync]);
+
+  const value: OfflineContextValue = {
+    online,
+    pendingCount,
+    syncing,
+    syncNow: sync,
+  };
+
+  return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>;
+};
+
+export const useOffline = (): OfflineContextValue => {
+  const context = useContext(OfflineContext);
+  if (!context) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+};
+
+export default OfflineContext;
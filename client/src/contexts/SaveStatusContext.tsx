@@ -3,11 +3,36 @@
  *
  * Provides global save status tracking for data persistence indicators.
  * Shows users when data is being saved, has been saved, or encountered errors.
+ *
+ * Also resolves edit conflicts, when the server refuses a save because someone
+ * else changed the record since it was loaded: fields changed on one side only
+ * are merged automatically, and the user picks between the two versions of
+ * fields changed on both.
  */
 
 import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import SaveConflictDialog from '../components/SaveConflictDialog';
+
+export type SaveState = 'idle' | 'saving' | 'saved' | 'error' | 'conflict';
+
+export interface ConflictField {
+  key: string;
+  label: string;
+  format?: (value: unknown) => string;
+}
 
-type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+export interface SaveConflict<T extends object> {
+  title: string;
+  base: T;   // As loaded before editing
+  mine: T;   // The refused edit
+  theirs: T; // Server copy from the conflict response
+  fields: ConflictField[];
+}
+
+export interface PendingConflict {
+  title: string;
+  fields: Array<ConflictField & { mine: unknown; theirs: unknown }>;
+}
 
 interface SaveStatusContextValue {
   saveState: SaveState;
@@ -17,6 +42,8 @@ interface SaveStatusContextValue {
   setSaved: () => void;
   setError: (message: string) => void;
   reset: () => void;
+  // Merged values to save again, or null when the user discards their changes
+  resolveConflict: <T extends object>(conflict: SaveConflict<T>) => Promise<T | null>;
 }
 
 const SaveStatusContext = createContext<SaveStatusContextValue | undefined>(undefined);
@@ -30,6 +57,8 @@ export const SaveStatusProvider: React.FC<SaveStatusProviderProps> = ({ children
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const resetTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const conflictResolverRef = useRef<((choices: Record<string, 'mine' | 'theirs'> | null) => void) | null>(null);
 
   const clearResetTimeout = useCallback(() => {
     if (resetTimeoutRef.current) {
@@ -74,6 +103,51 @@ export const SaveStatusProvider: React.FC<SaveStatusProviderProps> = ({ children
     setErrorMessage(null);
   }, [clearResetTimeout]);
 
+  const resolveConflict = useCallback(<T extends object>(conflict: SaveConflict<T>): Promise<T | null> => {
+    const base = conflict.base as Record<string, unknown>;
+    const mine = conflict.mine as Record<string, unknown>;
+    const theirs = conflict.theirs as Record<string, unknown>;
+    const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+    // Three-way merge onto the server copy
+    const merged: Record<string, unknown> = { ...theirs };
+    const conflicting = conflict.fields.filter(({ key }) => {
+      if (same(mine[key], base[key])) return false;
+      merged[key] = mine[key];
+      return !same(theirs[key], base[key]) && !same(mine[key], theirs[key]);
+    });
+    if (conflicting.length === 0) {
+      return Promise.resolve(merged as T);
+    }
+
+    clearResetTimeout();
+    setSaveState('conflict');
+    setPendingConflict({
+      title: conflict.title,
+      fields: conflicting.map((field) => ({ ...field, mine: mine[field.key], theirs: theirs[field.key] })),
+    });
+
+    return new Promise<T | null>((resolve) => {
+      conflictResolverRef.current = (choices) => {
+        setPendingConflict(null);
+        setSaveState('idle');
+        if (!choices) {
+          resolve(null);
+          return;
+        }
+        conflicting.forEach(({ key }) => {
+          merged[key] = choices[key] === 'theirs' ? theirs[key] : mine[key];
+        });
+        resolve(merged as T);
+      };
+    });
+  }, [clearResetTimeout]);
+
+  const handleConflictClose = useCallback((choices: Record<string, 'mine' | 'theirs'> | null) => {
+    conflictResolverRef.current?.(choices);
+    conflictResolverRef.current = null;
+  }, []);
+
   const value: SaveStatusContextValue = {
     saveState,
     lastSaved,
@@ -82,11 +156,13 @@ export const SaveStatusProvider: React.FC<SaveStatusProviderProps> = ({ children
     setSaved,
     setError,
     reset,
+    resolveConflict,
   };
 
   return (
     <SaveStatusContext.Provider value={value}>
       {children}
+      <SaveConflictDialog conflict={pendingConflict} onClose={handleConflictClose} />
     </SaveStatusContext.Provider>
   );
 };
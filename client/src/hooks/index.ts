@@ -34,6 +34,8 @@ export {
   useCreateAssessment,
   useBulkUpdateAssessments,
   useDeleteAssessment,
+  useAssessmentReview,
+  useReviewAssessment,
   assessmentKeys,
 } from './useAssessments';
 
@@ -75,9 +77,22 @@ export {
   useDeleteBaseline,
   useBaselineControls,
   useHasBaseline,
+  useNistBaseline,
+  useSelectNistBaseline,
+  useTailorNistBaseline,
   baselineKeys,
 } from './useBaseline';
 
+// CSF profile hooks
+export {
+  useOrganizationTier,
+  useUpdateOrganizationTier,
+  useProductProfiles,
+  useProfileGaps,
+  useUpdateProfile,
+  profileKeys,
+} from './useProfiles';
+
 // Framework hooks
 export {
   useFrameworks,
@@ -102,6 +117,155 @@ export {
   capabilityCentreKeys,
 } from './useCapabilityCentres';
 
+// Team hooks
+export {
+  useTeams,
+  useTeam,
+  useCreateTeam,
+  useUpdateTeam,
+  useDeleteTeam,
+  useAddTeamMember,
+  useUpdateTeamMember,
+  useRemoveTeamMember,
+  teamKeys,
+} from './useTeams';
+
+// Permission hooks
+export {
+  usePermissionMatrix,
+  useMyPermissions,
+  useProductPermissions,
+  useRoleAssignments,
+  useCreateRoleAssignment,
+  useUpdateRoleAssignment,
+  useDeleteRoleAssignment,
+  hasPermission,
+  permissionKeys,
+} from './usePermissions';
+
+// Saved report hooks
+export {
+  useSavedReports,
+  useReportRuns,
+  useCreateSavedReport,
+  useUpdateSavedReport,
+  useDeleteSavedReport,
+  useRunSavedReport,
+  downloadReportRun,
+  downloadSystemSecurityPlan,
+  reportKeys,
+} from './useReports';
+
+// Notification hooks
+export {
+  useNotifications,
+  useMarkNotificationsRead,
+  useDismissNotification,
+  useClearNotifications,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+  useEmailDigest,
+  useUpdateEmailDigest,
+  useSendTestDigest,
+  notificationKeys,
+} from './useNotifications';
+
+// Webhook hooks
+export {
+  useWebhooks,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useRotateWebhookSecret,
+  useTestWebhook,
+  useWebhookDeliveries,
+  useRedeliverWebhook,
+  webhookKeys,
+} from './useWebhooks';
+
+// Issue tracker hooks
+export {
+  useTrackerConnections,
+  useCreateTrackerConnection,
+  useUpdateTrackerConnection,
+  useDeleteTrackerConnection,
+  useTestTrackerConnection,
+  useSyncTrackerConnection,
+  trackerKeys,
+} from './useTrackers';
+
+// OSCAL catalog hooks
+export {
+  useOscalSources,
+  useImportOscalDocument,
+  downloadOscalDocument,
+  oscalKeys,
+} from './useOscal';
+
+// Control catalog hooks
+export {
+  useControlCatalogs,
+  useSyncControlCatalogs,
+  catalogKeys,
+  NIST_80053_CATALOG_ID,
+} from './useCatalogs';
+
+// Crosswalk hooks
+export {
+  useCrosswalks,
+  useCrosswalkProjection,
+  crosswalkKeys,
+} from './useCrosswalk';
+
+// POA&M hooks
+export {
+  usePoamItems,
+  usePoamItem,
+  useSyncPoam,
+  useUpdatePoamItem,
+  useAddPoamMilestone,
+  useUpdatePoamMilestone,
+  useDeletePoamMilestone,
+  downloadPoamWorkbook,
+  poamKeys,
+} from './usePoam';
+
+// Risk exception hooks
+export {
+  useAssessmentRiskExceptions,
+  useProductRiskExceptions,
+  useRequestRiskException,
+  useDecideRiskException,
+  useRevokeRiskException,
+  riskExceptionKeys,
+} from './useRiskExceptions';
+
+// Risk register hooks
+export {
+  useRegisterRisks,
+  useRegisterRisk,
+  useCreateRegisterRisk,
+  useUpdateRegisterRisk,
+  useDeleteRegisterRisk,
+  riskRegisterKeys,
+} from './useRiskRegister';
+
+// Risk quantification hooks
+export {
+  useLossEstimates,
+  useLossSimulation,
+  useSaveLossEstimate,
+  useDeleteLossEstimate,
+  riskQuantKeys,
+} from './useRiskQuantification';
+
+// Live collaboration hooks
+export {
+  useProductChannel,
+  applyRealtimeChange,
+  editorsOf,
+} from './useRealtime';
+
 // Risk hooks
 export {
   useRiskConfig,
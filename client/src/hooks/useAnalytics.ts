@@ -148,7 +148,7 @@ export const useProductCompliance = (
 };
 
 /**
- * Fetch compliance trends over time
+ * Fetch compliance trends over time (daily snapshots across the user's products)
  */
 export const useComplianceTrends = (
   days: number = 30,
@@ -157,20 +157,18 @@ export const useComplianceTrends = (
   return useQuery<ComplianceTrend[], Error>({
     queryKey: analyticsKeys.trends(days),
     queryFn: async () => {
-      console.log('[useComplianceTrends] Fetching trends for days:', days);
       const response = await api.get<any>(`/analytics/trends?days=${days}`);
-      console.log('[useComplianceTrends] Raw response:', response.data);
 
       // Transform server response
-      const trends = (response.data.trends || []).map((t: any) => ({
+      return (response.data.trends || []).map((t: any) => ({
         date: t.date,
-        complianceScore: t.cumulativeComplianceScore || t.complianceScore || 0,
-        assessedControls: t.cumulativeTotal || t.totalAssessments || 0,
-        implementedControls: t.compliant || 0,
+        complianceScore: t.complianceScore || 0,
+        riskScore: t.riskScore || 0,
+        totalAssessments: t.totalAssessments || 0,
+        assessedControls: t.assessedCount || 0,
+        implementedControls: t.compliantCount || 0,
+        functions: t.functions || {},
       }));
-
-      console.log('[useComplianceTrends] Transformed data:', trends);
-      return trends;
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...options,
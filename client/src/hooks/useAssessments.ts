@@ -3,10 +3,30 @@
  *
  * Provides hooks for fetching, creating, updating assessments with filtering,
  * assessment matrix data, and bulk update capabilities.
+ *
+ * Assessment queries are cached on the device, and creates and updates that
+ * can't reach the server are queued in the offline outbox (see
+ * services/offlineStore.ts) and returned marked pendingSync.
  */
 
-import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
-import api, { getErrorMessage } from '../services/api';
+import { QueryClient, useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
+import api, {
+  IDEMPOTENCY_KEY_HEADER,
+  getErrorMessage,
+  ifMatch,
+  isNetworkError,
+  newIdempotencyKey,
+} from '../services/api';
+import {
+  QueuedAssessmentWrite,
+  enqueueWrite,
+  isOfflineId,
+  offlineId,
+  persistQueries,
+  withOfflineCache,
+} from '../services/offlineStore';
+import { useAuth } from '../contexts/AuthContext';
+import type { ConflictField } from '../contexts/SaveStatusContext';
 import type {
   Assessment,
   AssessmentWithControl,
@@ -14,12 +34,26 @@ import type {
   AssessmentMatrixRow,
   CreateAssessmentInput,
   UpdateAssessmentInput,
+  AssessmentReview,
+  ReviewActionInput,
   BulkUpdateAssessmentInput,
   AssessmentFilters,
   ComplianceStatus,
 } from '../types/api.types';
 import { productKeys } from './useProducts';
 import { systemKeys } from './useSystems';
+import type { RealtimeChange } from './useRealtime';
+
+/**
+ * Fields a user edits on an assessment, for merging conflicting saves
+ */
+export const ASSESSMENT_CONFLICT_FIELDS: ConflictField[] = [
+  { key: 'status', label: 'Status' },
+  { key: 'implementationNotes', label: 'Implementation Notes' },
+  { key: 'evidence', label: 'Evidence' },
+  { key: 'remediationPlan', label: 'Remediation Plan' },
+  { key: 'riskLevel', label: 'Risk Level' },
+];
 
 /**
  * Query Keys for React Query caching
@@ -32,6 +66,7 @@ export const assessmentKeys = {
   detail: (id: string) => [...assessmentKeys.details(), id] as const,
   matrices: () => [...assessmentKeys.all, 'matrix'] as const,
   matrix: (productId: string) => [...assessmentKeys.matrices(), productId] as const,
+  review: (id: string) => [...assessmentKeys.detail(id), 'review'] as const,
 };
 
 /**
@@ -63,6 +98,30 @@ function mapServerStatusToClient(serverStatus: string): ComplianceStatus {
   return mapping[serverStatus] || 'Not Assessed';
 }
 
+/**
+ * Map a server assessment to the client Assessment shape
+ */
+export function assessmentFromServer(a: any): Assessment {
+  return {
+    id: a.id,
+    productId: a.system?.product?.id || a.system?.productId || '',
+    systemId: a.systemId,
+    controlId: a.subcategoryId,
+    subcategoryCode: a.subcategoryId,
+    status: mapServerStatusToClient(a.status),
+    implementationNotes: a.details || '',
+    evidence: a.evidence || '',
+    assessedBy: a.assessor || '',
+    assessedDate: a.assessedDate || '',
+    targetDate: undefined,
+    riskLevel: a.riskLevel || undefined,
+    remediationPlan: a.remediationPlan || '',
+    createdAt: a.createdAt || '',
+    updatedAt: a.updatedAt || '',
+    version: a.version,
+  };
+}
+
 /**
  * Fetch assessments with optional filtering
  */
@@ -72,7 +131,7 @@ export const useAssessments = (
 ) => {
   return useQuery<Assessment[], Error>({
     queryKey: assessmentKeys.list(filters),
-    queryFn: async () => {
+    queryFn: withOfflineCache(async () => {
       const params = new URLSearchParams();
 
       if (filters) {
@@ -89,27 +148,11 @@ export const useAssessments = (
       console.log('[useAssessments] Raw response:', response.data);
 
       // Transform server response to match client types
-      const assessments = (response.data.assessments || []).map((a: any) => ({
-        id: a.id,
-        productId: a.system?.product?.id || a.system?.productId || '',
-        systemId: a.systemId,
-        controlId: a.subcategoryId,
-        subcategoryCode: a.subcategoryId,
-        status: mapServerStatusToClient(a.status),
-        implementationNotes: a.details || '',
-        evidence: a.evidence || '',
-        assessedBy: a.assessor || '',
-        assessedDate: a.assessedDate || '',
-        targetDate: undefined,
-        riskLevel: undefined,
-        remediationPlan: a.remediationPlan || '',
-        createdAt: a.createdAt || '',
-        updatedAt: a.updatedAt || '',
-      }));
+      const assessments = (response.data.assessments || []).map(assessmentFromServer);
 
       console.log('[useAssessments] Transformed:', assessments);
       return assessments;
-    },
+    }),
     staleTime: 2 * 60 * 1000, // 2 minutes (more frequent updates for assessments)
     ...options,
   });
@@ -124,35 +167,20 @@ export const useAssessment = (
 ) => {
   return useQuery<AssessmentWithControl, Error>({
     queryKey: assessmentKeys.detail(id),
-    queryFn: async () => {
+    queryFn: withOfflineCache(async () => {
       console.log('[useAssessment] Fetching assessment:', id);
       const response = await api.get<any>(`/assessments/${id}`);
       console.log('[useAssessment] Raw response:', response.data);
 
       // Transform server response
-      const a = response.data;
       const transformed: AssessmentWithControl = {
-        id: a.id,
-        productId: a.system?.product?.id || a.system?.productId || '',
-        systemId: a.systemId,
-        controlId: a.subcategoryId,
-        subcategoryCode: a.subcategoryId,
-        status: mapServerStatusToClient(a.status),
-        implementationNotes: a.details || '',
-        evidence: a.evidence || '',
-        assessedBy: a.assessor || '',
-        assessedDate: a.assessedDate || '',
-        targetDate: undefined,
-        riskLevel: undefined,
-        remediationPlan: a.remediationPlan || '',
-        createdAt: a.createdAt || '',
-        updatedAt: a.updatedAt || '',
+        ...assessmentFromServer(response.data),
         control: {} as any, // Will be populated if needed
       };
 
       console.log('[useAssessment] Transformed:', transformed);
       return transformed;
-    },
+    }),
     enabled: !!id,
     staleTime: 2 * 60 * 1000, // 2 minutes
     ...options,
@@ -203,7 +231,7 @@ export const useAssessmentMatrix = (
 ) => {
   return useQuery<AssessmentMatrix, Error>({
     queryKey: assessmentKeys.matrix(productId),
-    queryFn: async () => {
+    queryFn: withOfflineCache(async () => {
       console.log('[useAssessmentMatrix] Fetching matrix for product:', productId);
       const response = await api.get<MatrixResponse>(`/assessments/matrix/${productId}`);
       console.log('[useAssessmentMatrix] Raw response:', response.data);
@@ -254,7 +282,7 @@ export const useAssessmentMatrix = (
 
       console.log('[useAssessmentMatrix] Transformed:', transformed);
       return transformed;
-    },
+    }),
     enabled: !!productId,
     staleTime: 2 * 60 * 1000, // 2 minutes
     ...options,
@@ -275,6 +303,174 @@ function mapClientStatusToServer(clientStatus: string): string {
   return mapping[clientStatus] || 'NOT_ASSESSED';
 }
 
+// Helper: a new assessment in the server's format
+function toServerCreate(input: CreateAssessmentInput) {
+  return {
+    subcategoryId: input.controlId,
+    systemId: input.systemId,
+    status: mapClientStatusToServer(input.status),
+    details: input.implementationNotes,
+    evidence: input.evidence,
+    remediationPlan: input.remediationPlan,
+  };
+}
+
+// Helper: assessment changes in the server's format
+function toServerUpdates(updates: UpdateAssessmentInput) {
+  const serverUpdates: any = {};
+  if (updates.status) serverUpdates.status = mapClientStatusToServer(updates.status);
+  if (updates.implementationNotes !== undefined) serverUpdates.details = updates.implementationNotes;
+  if (updates.evidence !== undefined) serverUpdates.evidence = updates.evidence;
+  if (updates.remediationPlan !== undefined) serverUpdates.remediationPlan = updates.remediationPlan;
+  if (updates.riskLevel !== undefined) serverUpdates.riskLevel = updates.riskLevel;
+  if (updates.targetDate !== undefined) serverUpdates.targetDate = updates.targetDate;
+  return serverUpdates;
+}
+
+// Helper: whatever the cache holds for an assessment (a matrix cell at least)
+function findCachedAssessment(queryClient: QueryClient, id: string): Partial<Assessment> | undefined {
+  const detail = queryClient.getQueryData<Assessment>(assessmentKeys.detail(id));
+  if (detail) return detail;
+
+  for (const [, list] of queryClient.getQueriesData<Assessment[]>({ queryKey: assessmentKeys.lists() })) {
+    const found = list?.find((assessment) => assessment.id === id);
+    if (found) return found;
+  }
+
+  for (const [, matrix] of queryClient.getQueriesData<AssessmentMatrix>({ queryKey: assessmentKeys.matrices() })) {
+    for (const row of matrix?.rows || []) {
+      const systemId = Object.keys(row.systems).find((key) => row.systems[key].assessmentId === id);
+      if (matrix && systemId) {
+        const cell = row.systems[systemId];
+        return {
+          id,
+          productId: matrix.productId,
+          systemId,
+          controlId: row.controlId,
+          subcategoryCode: row.subcategoryCode,
+          status: cell.status,
+          riskLevel: cell.riskLevel,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+// Helper: whether a cached list's filters would include a new assessment
+function listIncludes(filters: AssessmentFilters | undefined, assessment: Assessment): boolean {
+  const { systemId, productId, status, ...others } = filters || {};
+  return (
+    (!systemId || systemId === assessment.systemId) &&
+    (!productId || productId === assessment.productId) &&
+    (!status || status === assessment.status) &&
+    Object.values(others).every((value) => value === undefined)
+  );
+}
+
+/**
+ * Queue a write that couldn't reach the server, and show it in the cached
+ * queries (here and on the device) as if it had been saved. Rethrows the
+ * network error when the cache knows too little about the assessment.
+ */
+async function queueAssessmentWrite(
+  queryClient: QueryClient,
+  userId: string | undefined,
+  write: Pick<QueuedAssessmentWrite, 'kind' | 'assessmentId' | 'input' | 'version' | 'idempotencyKey'> &
+    Partial<Pick<QueuedAssessmentWrite, 'productId' | 'systemId' | 'controlId' | 'base'>>,
+  error: unknown
+): Promise<Assessment> {
+  const cached = write.base || findCachedAssessment(queryClient, write.assessmentId) || {};
+  const productId = write.productId || cached.productId;
+  const systemId = write.systemId || cached.systemId;
+  const controlId = write.controlId || cached.controlId;
+  if (!userId || !productId || !systemId || !controlId) throw error;
+
+  await enqueueWrite({
+    userId,
+    kind: write.kind,
+    assessmentId: write.assessmentId,
+    productId,
+    systemId,
+    controlId,
+    input: write.input,
+    base: cached,
+    version: write.version ?? cached.version,
+    idempotencyKey: write.idempotencyKey,
+    queuedAt: new Date().toISOString(),
+  }).catch(() => {
+    // No device storage to queue in
+    throw error;
+  });
+
+  // Unset fields leave the saved values alone, as they do on the server
+  const changes = Object.fromEntries(Object.entries(write.input).filter(([, value]) => value !== undefined));
+  const now = new Date().toISOString();
+  const assessment: Assessment = {
+    implementationNotes: '',
+    evidence: '',
+    assessedBy: '',
+    assessedDate: '',
+    createdAt: now,
+    version: 0,
+    ...cached,
+    ...changes,
+    id: write.assessmentId,
+    productId,
+    systemId,
+    controlId,
+    subcategoryCode: cached.subcategoryCode || controlId,
+    status: write.input.status || cached.status || 'Not Assessed',
+    updatedAt: now,
+    pendingSync: true,
+  };
+
+  queryClient.setQueryData(assessmentKeys.detail(assessment.id), (previous: AssessmentWithControl | undefined) => ({
+    ...previous,
+    ...assessment,
+    control: previous?.control || ({} as any),
+  }));
+  queryClient.getQueriesData<Assessment[]>({ queryKey: assessmentKeys.lists() }).forEach(([key, list]) => {
+    if (list?.some((item) => item.id === assessment.id)) {
+      queryClient.setQueryData(key, list.map((item) => (item.id === assessment.id ? assessment : item)));
+    } else if (list && write.kind === 'create' && listIncludes(key[2] as AssessmentFilters | undefined, assessment)) {
+      queryClient.setQueryData(key, [...list, assessment]);
+    }
+  });
+  patchMatrixCell(queryClient, productId, systemId, controlId, assessment);
+
+  await persistQueries(queryClient, assessmentKeys.all);
+  return assessment;
+}
+
+/**
+ * Send a write from the offline outbox, under the idempotency key it was
+ * queued with. Conflicts and refusals are thrown as for any other save.
+ */
+export async function sendQueuedAssessmentWrite(entry: QueuedAssessmentWrite): Promise<Assessment> {
+  const headers = { [IDEMPOTENCY_KEY_HEADER]: entry.idempotencyKey };
+
+  if (entry.kind === 'create') {
+    const response = await api.post<any>(
+      '/assessments',
+      toServerCreate({
+        ...entry.input,
+        productId: entry.productId,
+        systemId: entry.systemId,
+        controlId: entry.controlId,
+        status: entry.input.status || 'Not Assessed',
+      }),
+      { headers }
+    );
+    return assessmentFromServer(response.data);
+  }
+
+  const response = await api.put<any>(`/assessments/${entry.assessmentId}`, toServerUpdates(entry.input), {
+    headers: { ...headers, ...ifMatch(entry.version) },
+  });
+  return assessmentFromServer(response.data);
+}
+
 /**
  * Create a new assessment
  */
@@ -282,39 +478,33 @@ export const useCreateAssessment = (
   options?: UseMutationOptions<Assessment, Error, CreateAssessmentInput>
 ) => {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   return useMutation<Assessment, Error, CreateAssessmentInput>({
     mutationFn: async (input: CreateAssessmentInput) => {
       console.log('[useCreateAssessment] Creating assessment:', input);
-      // Transform client input to server format
-      const serverInput = {
-        subcategoryId: input.controlId,
-        systemId: input.systemId,
-        status: mapClientStatusToServer(input.status),
-        details: input.implementationNotes,
-        evidence: input.evidence,
-        remediationPlan: input.remediationPlan,
-      };
-      const response = await api.post<any>('/assessments', serverInput);
-      console.log('[useCreateAssessment] Response:', response.data);
-
-      // Transform server response back to client format
-      const a = response.data;
-      return {
-        id: a.id,
-        productId: a.system?.product?.id || '',
-        systemId: a.systemId,
-        controlId: a.subcategoryId,
-        subcategoryCode: a.subcategoryId,
-        status: mapServerStatusToClient(a.status),
-        implementationNotes: a.details || '',
-        evidence: a.evidence || '',
-        assessedBy: a.assessor || '',
-        assessedDate: a.assessedDate || '',
-        createdAt: a.createdAt || '',
-        updatedAt: a.updatedAt || '',
-      };
+      const idempotencyKey = newIdempotencyKey();
+      try {
+        const response = await api.post<any>('/assessments', toServerCreate(input), {
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+        });
+        console.log('[useCreateAssessment] Response:', response.data);
+
+        // Transform server response back to client format
+        return assessmentFromServer(response.data);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const { productId, systemId, controlId, ...fields } = input;
+        return queueAssessmentWrite(
+          queryClient,
+          user?.id,
+          { kind: 'create', assessmentId: offlineId(idempotencyKey), input: fields, idempotencyKey, productId, systemId, controlId },
+          error
+        );
+      }
     },
+    // Offline, the write is queued rather than paused
+    networkMode: 'always',
     onSuccess: (newAssessment) => {
       // Invalidate assessment lists
       queryClient.invalidateQueries({ queryKey: assessmentKeys.lists() });
@@ -342,52 +532,69 @@ export const useCreateAssessment = (
   });
 };
 
+/**
+ * Update variables. With a version, the server refuses the update (409, see
+ * getVersionConflict) if someone else has saved the assessment since.
+ */
+export interface UpdateAssessmentVariables {
+  id: string;
+  updates: UpdateAssessmentInput;
+  version?: number;
+}
+
+// What the cache held before useUpdateAssessment's optimistic update, by the
+// mutation's variables, so a queued edit keeps the copy it was made on as its
+// conflict base
+const editBases = new WeakMap<UpdateAssessmentVariables, Partial<Assessment> | undefined>();
+
 /**
  * Update an existing assessment
  */
 export const useUpdateAssessment = (
-  options?: UseMutationOptions<Assessment, Error, { id: string; updates: UpdateAssessmentInput }>
+  options?: UseMutationOptions<Assessment, Error, UpdateAssessmentVariables>
 ) => {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
-  return useMutation<Assessment, Error, { id: string; updates: UpdateAssessmentInput }>({
-    mutationFn: async ({ id, updates }) => {
+  return useMutation<Assessment, Error, UpdateAssessmentVariables>({
+    mutationFn: async (variables) => {
+      const { id, updates, version } = variables;
       console.log('[useUpdateAssessment] Updating assessment:', id, updates);
-      // Transform client input to server format
-      const serverUpdates: any = {};
-      if (updates.status) serverUpdates.status = mapClientStatusToServer(updates.status);
-      if (updates.implementationNotes !== undefined) serverUpdates.details = updates.implementationNotes;
-      if (updates.evidence !== undefined) serverUpdates.evidence = updates.evidence;
-      if (updates.remediationPlan !== undefined) serverUpdates.remediationPlan = updates.remediationPlan;
-      if (updates.riskLevel !== undefined) serverUpdates.riskLevel = updates.riskLevel;
-      if (updates.targetDate !== undefined) serverUpdates.targetDate = updates.targetDate;
-
-      const response = await api.put<any>(`/assessments/${id}`, serverUpdates);
-      console.log('[useUpdateAssessment] Response:', response.data);
-
-      // Transform server response back to client format
-      const a = response.data;
-      return {
-        id: a.id,
-        productId: a.system?.product?.id || '',
-        systemId: a.systemId,
-        controlId: a.subcategoryId,
-        subcategoryCode: a.subcategoryId,
-        status: mapServerStatusToClient(a.status),
-        implementationNotes: a.details || '',
-        evidence: a.evidence || '',
-        assessedBy: a.assessor || '',
-        assessedDate: a.assessedDate || '',
-        createdAt: a.createdAt || '',
-        updatedAt: a.updatedAt || '',
-      };
+      const idempotencyKey = newIdempotencyKey();
+      const queue = (error: unknown) =>
+        queueAssessmentWrite(
+          queryClient,
+          user?.id,
+          { kind: 'update', assessmentId: id, input: updates, version, idempotencyKey, base: editBases.get(variables) },
+          error
+        );
+
+      // Edits to an assessment whose create is still queued follow it in the outbox
+      if (isOfflineId(id)) return queue(new Error('Assessment is not synced yet'));
+
+      try {
+        const response = await api.put<any>(`/assessments/${id}`, toServerUpdates(updates), {
+          headers: { ...ifMatch(version), [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+        });
+        console.log('[useUpdateAssessment] Response:', response.data);
+
+        // Transform server response back to client format
+        return assessmentFromServer(response.data);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return queue(error);
+      }
     },
-    onMutate: async ({ id, updates }) => {
+    // Offline, the write is queued rather than paused
+    networkMode: 'always',
+    onMutate: async (variables) => {
+      const { id, updates } = variables;
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey: assessmentKeys.detail(id) });
 
       // Snapshot previous value
       const previousAssessment = queryClient.getQueryData<Assessment>(assessmentKeys.detail(id));
+      editBases.set(variables, findCachedAssessment(queryClient, id));
 
       // Optimistically update cache
       if (previousAssessment) {
@@ -404,6 +611,9 @@ export const useUpdateAssessment = (
       // Update cache with server response
       queryClient.setQueryData(assessmentKeys.detail(updatedAssessment.id), updatedAssessment);
 
+      // Edits reopen submitted/approved assessments on the server
+      queryClient.invalidateQueries({ queryKey: assessmentKeys.review(updatedAssessment.id) });
+
       // Invalidate lists
       queryClient.invalidateQueries({ queryKey: assessmentKeys.lists() });
 
@@ -440,9 +650,18 @@ export const useBulkUpdateAssessments = (
   const queryClient = useQueryClient();
 
   return useMutation<Assessment[], Error, BulkUpdateAssessmentInput>({
-    mutationFn: async (input: BulkUpdateAssessmentInput) => {
-      const response = await api.put<{ data: Assessment[] }>('/assessments/bulk', input);
-      return response.data.data;
+    mutationFn: async ({ assessmentIds, updates, versions }: BulkUpdateAssessmentInput) => {
+      const response = await api.post<{ assessments: any[] }>('/assessments/bulk', {
+        assessments: assessmentIds.map((id) => ({
+          id,
+          ...(updates.status && { status: mapClientStatusToServer(updates.status) }),
+          ...(updates.implementationNotes !== undefined && { details: updates.implementationNotes }),
+          ...(updates.evidence !== undefined && { evidence: updates.evidence }),
+          ...(updates.remediationPlan !== undefined && { remediationPlan: updates.remediationPlan }),
+          version: versions?.[id],
+        })),
+      });
+      return response.data.assessments.map(assessmentFromServer);
     },
     onSuccess: (updatedAssessments) => {
       // Update individual assessment caches
@@ -526,3 +745,117 @@ export const useDeleteAssessment = (
     ...options,
   });
 };
+
+/**
+ * Fetch an assessment's review status, history and the actions open to the user
+ */
+export const useAssessmentReview = (
+  id: string | undefined,
+  options?: Omit<UseQueryOptions<AssessmentReview, Error>, 'queryKey' | 'queryFn'>
+) => {
+  return useQuery<AssessmentReview, Error>({
+    queryKey: assessmentKeys.review(id || ''),
+    queryFn: async () => {
+      const response = await api.get<AssessmentReview>(`/assessments/${id}/review`);
+      return response.data;
+    },
+    enabled: !!id,
+    ...options,
+  });
+};
+
+/**
+ * Submit, approve, reject or reopen an assessment, or assign its reviewer
+ */
+export const useReviewAssessment = (
+  options?: UseMutationOptions<AssessmentReview, Error, { id: string; input: ReviewActionInput }>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<AssessmentReview, Error, { id: string; input: ReviewActionInput }>({
+    mutationFn: async ({ id, input }) => {
+      const response = await api.post<AssessmentReview>(`/assessments/${id}/review`, input);
+      return response.data;
+    },
+    onSuccess: (review) => {
+      queryClient.setQueryData(assessmentKeys.review(review.id), review);
+      queryClient.invalidateQueries({ queryKey: assessmentKeys.matrix(review.system.productId) });
+      queryClient.invalidateQueries({ queryKey: ['hierarchical-compliance'] });
+    },
+    ...options,
+  });
+};
+
+/**
+ * Apply someone else's assessment change, received on the product's live
+ * channel (see useRealtime), to the cached queries. Saved copies are patched
+ * in place; anything the change doesn't carry is refetched.
+ */
+export function applyAssessmentChange(queryClient: QueryClient, productId: string, change: RealtimeChange) {
+  const assessment = change.data ? { ...assessmentFromServer(change.data), productId } : null;
+
+  if (change.action === 'deleted') {
+    queryClient.removeQueries({ queryKey: assessmentKeys.detail(change.id) });
+  } else if (assessment) {
+    queryClient.setQueryData<AssessmentWithControl>(assessmentKeys.detail(change.id), (previous) =>
+      previous ? { ...previous, ...assessment } : previous
+    );
+  } else {
+    queryClient.invalidateQueries({ queryKey: assessmentKeys.detail(change.id) });
+  }
+
+  // Lists: patch updated rows; additions and removals change which lists they belong to
+  if (change.action === 'updated' && assessment) {
+    queryClient.setQueriesData<Assessment[]>({ queryKey: assessmentKeys.lists() }, (list) =>
+      list?.map((item) => (item.id === assessment.id ? assessment : item))
+    );
+  } else {
+    queryClient.invalidateQueries({ queryKey: assessmentKeys.lists() });
+  }
+
+  // Matrix: update the control's cell for the system
+  if (change.controlId && change.systemId && (assessment || change.action === 'deleted')) {
+    patchMatrixCell(queryClient, productId, change.systemId, change.controlId, assessment);
+  } else {
+    queryClient.invalidateQueries({ queryKey: assessmentKeys.matrix(productId) });
+  }
+
+  queryClient.invalidateQueries({ queryKey: assessmentKeys.review(change.id) });
+  queryClient.invalidateQueries({ queryKey: productKeys.detail(productId) });
+  if (change.systemId) {
+    queryClient.invalidateQueries({ queryKey: systemKeys.detail(change.systemId) });
+  }
+}
+
+// Helper: set a control's cell for a system in the cached matrix (null: not assessed)
+function patchMatrixCell(
+  queryClient: QueryClient,
+  productId: string,
+  systemId: string,
+  controlId: string,
+  assessment: Assessment | null
+) {
+  queryClient.setQueryData<AssessmentMatrix>(assessmentKeys.matrix(productId), (matrix) =>
+    matrix && {
+      ...matrix,
+      rows: matrix.rows.map((row) =>
+        row.controlId === controlId
+          ? {
+              ...row,
+              systems: {
+                ...row.systems,
+                [systemId]: assessment
+                  ? {
+                      ...row.systems[systemId],
+                      assessmentId: assessment.id,
+                      status: assessment.status,
+                      assessedDate: assessment.assessedDate || undefined,
+                    }
+                  : { status: 'Not Assessed' },
+              },
+            }
+          : row
+      ),
+    }
+  );
+}
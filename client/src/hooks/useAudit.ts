@@ -2,17 +2,25 @@
  * Audit Hook
  *
  * React Query hooks for audit logs - tracking changes, viewing history,
- * and monitoring user activity across the application.
+ * and monitoring user activity across the application - and for checking the
+ * log's hash chain and exporting signed audit packages.
  */
 
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import api from '../services/api';
 
 const AUDIT_QUERY_KEY = 'audit';
 
 // Types
-export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'EXPORT' | 'LOGIN' | 'LOGOUT';
-export type AuditEntityType = 'Product' | 'System' | 'Assessment' | 'Framework' | 'Evidence' | 'Baseline' | 'User';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'EXPORT' | 'LOGIN' | 'LOGIN_FAILED' | 'LOGOUT' | 'REVIEW';
+// Every audited model has an entity type; changes are captured on the server for all of them
+export type AuditEntityType =
+  | 'Product' | 'System' | 'Assessment' | 'Framework' | 'Evidence' | 'Baseline' | 'User' | 'PoamItem'
+  | 'RiskException' | 'Risk' | 'LossEstimate' | 'Team' | 'TeamMembership' | 'RoleAssignment' | 'CapabilityCentre'
+  | 'OrganizationTier' | 'CSFProfile' | 'CSFProfileEntry' | 'BaselineTemplate' | 'AssessmentReview'
+  | 'ControlCatalog' | 'RemediationTask' | 'TaskUpdate' | 'TrackerConnection' | 'PoamMilestone' | 'Comment'
+  | 'ControlAssignment' | 'AssessmentTemplate' | 'SavedReport' | 'RiskConfig' | 'NotificationPreference'
+  | 'EmailDigestSubscription' | 'Webhook';
 
 export interface AuditLog {
   id: string;
@@ -66,6 +74,49 @@ export interface ActivitySummary {
   }>;
 }
 
+export type AuditIssueType =
+  | 'GAP'
+  | 'BROKEN_LINK'
+  | 'MODIFIED'
+  | 'CHECKPOINT_MISMATCH'
+  | 'CHECKPOINT_SIGNATURE'
+  | 'TRUNCATED';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  sequence: number;
+  message: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  verifiedAt: string;
+  entriesChecked: number;
+  lastSequence: number;
+  headHash: string | null;
+  legacyEntries: number; // Entries written before chaining, not covered
+  checkpointsChecked: number;
+  lastCheckpoint: { sequence: number; createdAt: string } | null;
+  keyId: string;
+  issueCount: number;
+  issues: AuditIssue[]; // First 100 only
+}
+
+export interface AuditCheckpoint {
+  id: string;
+  sequence: number;
+  hash: string;
+  signature: string;
+  keyId: string;
+  createdAt: string;
+}
+
+export interface AuditSigningKey {
+  algorithm: string;
+  keyId: string;
+  publicKey: string;
+}
+
 // Query audit logs with filters
 export function useAuditLogs(params: AuditQueryParams = {}) {
   const searchParams = new URLSearchParams();
@@ -154,6 +205,63 @@ export function useActivitySummary(startDate?: string, endDate?: string) {
   });
 }
 
+// Check the whole hash chain and checkpoint signatures (run on demand, as it reads every entry)
+export function useVerifyAuditLog() {
+  return useMutation({
+    mutationFn: async () => {
+      const { data } = await api.get('/audit/verify');
+      return data.data as AuditVerification;
+    },
+  });
+}
+
+// Sign the current chain head now rather than waiting for the scheduled checkpoint
+export function useCreateAuditCheckpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data } = await api.post('/audit/checkpoints');
+      return data.data as AuditCheckpoint | null;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [AUDIT_QUERY_KEY] });
+    },
+  });
+}
+
+// Public key auditors pin to verify exported packages
+export function useAuditSigningKey() {
+  return useQuery<AuditSigningKey>({
+    queryKey: [AUDIT_QUERY_KEY, 'public-key'],
+    queryFn: async () => {
+      const { data } = await api.get('/audit/public-key');
+      return data.data;
+    },
+    staleTime: Infinity,
+  });
+}
+
+// Helper function to download a signed audit package (zip) for a date range
+export async function downloadAuditPackage(startDate?: string, endDate?: string): Promise<void> {
+  const params = new URLSearchParams();
+  if (startDate) params.set('startDate', startDate);
+  if (endDate) params.set('endDate', endDate);
+
+  const response = await api.get(`/audit/export?${params.toString()}`, {
+    responseType: 'blob',
+  });
+
+  const url = window.URL.createObjectURL(new Blob([response.data]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `audit-package-${new Date().toISOString().slice(0, 10)}.zip`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
+
 // Helper to format audit action for display
 export function formatAuditAction(action: AuditAction): string {
   const actionLabels: Record<AuditAction, string> = {
@@ -163,7 +271,9 @@ export function formatAuditAction(action: AuditAction): string {
     VIEW: 'Viewed',
     EXPORT: 'Exported',
     LOGIN: 'Logged in',
+    LOGIN_FAILED: 'Failed login',
     LOGOUT: 'Logged out',
+    REVIEW: 'Reviewed',
   };
   return actionLabels[action] || action;
 }
@@ -177,29 +287,40 @@ export function getAuditActionColor(action: AuditAction): 'success' | 'info' | '
     VIEW: 'default',
     EXPORT: 'warning',
     LOGIN: 'success',
+    LOGIN_FAILED: 'error',
     LOGOUT: 'default',
+    REVIEW: 'info',
   };
   return actionColors[action] || 'default';
 }
 
-// Helper to format changed fields for display
+// Helper to format a recorded value for display
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '(empty)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Helper to format changed fields for display. Creates and deletes list the
+// recorded values; updates made inside a transaction have no previous values.
 export function formatChangedFields(
   changedFields: string[] | null,
   previousValue: Record<string, unknown> | null,
   newValue: Record<string, unknown> | null
 ): Array<{ field: string; from: string; to: string }> {
-  if (!changedFields || !previousValue || !newValue) return [];
+  const fields = changedFields?.length ? changedFields : Object.keys(newValue || previousValue || {});
 
-  return changedFields.map((field) => ({
-    field,
-    from: String(previousValue[field] ?? '(empty)'),
-    to: String(newValue[field] ?? '(empty)'),
-  }));
+  return fields
+    .filter((field) => !['id', 'createdAt', 'updatedAt'].includes(field))
+    .map((field) => ({
+      field,
+      from: previousValue ? formatAuditValue(previousValue[field]) : changedFields?.length ? '(not recorded)' : '(empty)',
+      to: newValue ? formatAuditValue(newValue[field]) : '(empty)',
+    }));
 }
 
 // Helper to get entity icon name
 export function getEntityIcon(entityType: AuditEntityType): string {
-  const icons: Record<AuditEntityType, string> = {
+  const icons: Partial<Record<AuditEntityType, string>> = {
     Product: 'inventory',
     System: 'computer',
     Assessment: 'assessment',
@@ -7,10 +7,13 @@
 
 import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import api, { getErrorMessage } from '../services/api';
+import { withOfflineCache } from '../services/offlineStore';
 import type {
   ProductBaseline,
   CreateBaselineInput,
   UpdateBaselineInput,
+  NistBaselineStatus,
+  TailorBaselineInput,
 } from '../types/api.types';
 import { productKeys } from './useProducts';
 
@@ -22,6 +25,7 @@ export const baselineKeys = {
   lists: () => [...baselineKeys.all, 'list'] as const,
   details: () => [...baselineKeys.all, 'detail'] as const,
   detail: (productId: string) => [...baselineKeys.details(), productId] as const,
+  nist: (productId: string) => [...baselineKeys.detail(productId), 'nist-800-53'] as const,
 };
 
 /**
@@ -33,12 +37,12 @@ export const useProductBaseline = (
 ) => {
   return useQuery<ProductBaseline, Error>({
     queryKey: baselineKeys.detail(productId),
-    queryFn: async () => {
+    queryFn: withOfflineCache(async () => {
       const response = await api.get<{ data: ProductBaseline }>(
         `/baselines/product/${productId}`
       );
       return response.data.data;
-    },
+    }),
     enabled: !!productId,
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...options,
@@ -357,3 +361,76 @@ export const useApplyBaselineTemplate = (
     ...options,
   });
 };
+
+/**
+ * Fetch the NIST 800-53 baseline selected by a product's impact level and its tailoring
+ */
+export const useNistBaseline = (
+  productId: string,
+  options?: Omit<UseQueryOptions<NistBaselineStatus, Error>, 'queryKey' | 'queryFn'>
+) => {
+  return useQuery<NistBaselineStatus, Error>({
+    queryKey: baselineKeys.nist(productId),
+    queryFn: async () => {
+      const response = await api.get<{ data: NistBaselineStatus }>(
+        `/baselines/product/${productId}/nist-baseline`
+      );
+      return response.data.data;
+    },
+    enabled: !!productId,
+    ...options,
+  });
+};
+
+export interface NistBaselineResult {
+  data: NistBaselineStatus;
+  summary: { assessmentsCreated: number; baseline?: string; controlCount?: number };
+}
+
+// Helper: refresh everything a NIST baseline change touches
+function useNistBaselineSuccess() {
+  const queryClient = useQueryClient();
+  return (result: NistBaselineResult, productId: string) => {
+    queryClient.setQueryData(baselineKeys.nist(productId), result.data);
+    queryClient.invalidateQueries({ queryKey: baselineKeys.detail(productId) });
+    queryClient.invalidateQueries({ queryKey: baselineKeys.lists() });
+    queryClient.invalidateQueries({ queryKey: productKeys.detail(productId) });
+    queryClient.invalidateQueries({ queryKey: ['assessments'] });
+    queryClient.invalidateQueries({ queryKey: ['compliance'] });
+  };
+}
+
+/**
+ * (Re)select the 800-53 baseline for the product's impact level, keeping tailoring
+ */
+export const useSelectNistBaseline = () => {
+  const onSuccess = useNistBaselineSuccess();
+
+  return useMutation<NistBaselineResult, Error, string>({
+    mutationFn: async (productId) => {
+      const response = await api.post<NistBaselineResult>(
+        `/baselines/product/${productId}/nist-baseline/select`
+      );
+      return response.data;
+    },
+    onSuccess: (result, productId) => onSuccess(result, productId),
+  });
+};
+
+/**
+ * Add a control to or remove it from the 800-53 baseline (with a justification), or reset it
+ */
+export const useTailorNistBaseline = () => {
+  const onSuccess = useNistBaselineSuccess();
+
+  return useMutation<NistBaselineResult, Error, { productId: string } & TailorBaselineInput>({
+    mutationFn: async ({ productId, ...input }) => {
+      const response = await api.put<NistBaselineResult>(
+        `/baselines/product/${productId}/nist-baseline/tailoring`,
+        input
+      );
+      return response.data;
+    },
+    onSuccess: (result, { productId }) => onSuccess(result, productId),
+  });
+};
@@ -3,10 +3,13 @@
  *
  * Provides hooks for fetching NIST Cybersecurity Framework functions,
  * categories, subcategories, controls, and 800-53 mappings with search.
+ * Hooks that list controls take an optional catalogId (a product's control
+ * catalog, e.g. ISO 27001 or CIS v8) and default to NIST CSF 2.0.
  */
 
 import { useQuery, UseQueryOptions } from '@tanstack/react-query';
 import api from '../services/api';
+import { withOfflineCache } from '../services/offlineStore';
 import type {
   CSFFunction,
   CSFCategory,
@@ -40,26 +43,51 @@ export const sortByCSFOrder = <T extends { code: string }>(items: T[]): T[] => {
  */
 export const csfKeys = {
   all: ['csf'] as const,
-  functions: () => [...csfKeys.all, 'functions'] as const,
-  categories: () => [...csfKeys.all, 'categories'] as const,
-  category: (functionId: string) => [...csfKeys.categories(), functionId] as const,
-  subcategories: () => [...csfKeys.all, 'subcategories'] as const,
-  controls: () => [...csfKeys.all, 'controls'] as const,
-  control: (id: string) => [...csfKeys.controls(), id] as const,
-  search: (params: CSFSearchParams) => [...csfKeys.all, 'search', params] as const,
+  catalog: (catalogId?: string) => [...csfKeys.all, catalogId || 'default'] as const,
+  functions: (catalogId?: string) => [...csfKeys.catalog(catalogId), 'functions'] as const,
+  categories: (catalogId?: string) => [...csfKeys.catalog(catalogId), 'categories'] as const,
+  category: (functionId: string, catalogId?: string) => [...csfKeys.categories(catalogId), functionId] as const,
+  subcategories: (catalogId?: string) => [...csfKeys.catalog(catalogId), 'subcategories'] as const,
+  controls: (catalogId?: string) => [...csfKeys.catalog(catalogId), 'controls'] as const,
+  control: (id: string) => [...csfKeys.all, 'control', id] as const,
+  search: (params: CSFSearchParams, catalogId?: string) => [...csfKeys.catalog(catalogId), 'search', params] as const,
 };
 
+// Helper to build the query string selecting a control catalog
+function catalogQuery(catalogId?: string, prefix: '?' | '&' = '?'): string {
+  return catalogId ? `${prefix}catalogId=${encodeURIComponent(catalogId)}` : '';
+}
+
+// Helper to map a server control to the client type; names come from the
+// control's catalog, falling back to the CSF 2.0 tables below
+function toCSFControl(c: any): CSFControl {
+  return {
+    id: c.id,
+    subcategoryId: c.id,
+    subcategoryCode: c.id,
+    functionCode: c.functionId,
+    functionName: c.functionName || getFunctionName(c.functionId),
+    categoryCode: c.categoryId,
+    categoryName: c.categoryName || getCategoryName(c.categoryId),
+    subcategoryName: c.title,
+    description: c.text || '',
+    implementationExamples: c.implementationExamples || [],
+    nist80053Mappings: [],
+  };
+}
+
 /**
  * Fetch all CSF functions
  */
 export const useCSFFunctions = (
+  catalogId?: string,
   options?: Omit<UseQueryOptions<CSFFunction[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<CSFFunction[], Error>({
-    queryKey: csfKeys.functions(),
+    queryKey: csfKeys.functions(catalogId),
     queryFn: async () => {
       console.log('[useCSFFunctions] Fetching functions...');
-      const response = await api.get<{ functions: any[]; total: number }>('/csf/functions');
+      const response = await api.get<{ functions: any[]; total: number }>(`/csf/functions${catalogQuery(catalogId)}`);
       console.log('[useCSFFunctions] Raw response:', response.data);
 
       // Transform server response to match client type
@@ -82,47 +110,39 @@ export const useCSFFunctions = (
   });
 };
 
-// Helper to extract category code from subcategory ID (e.g., "DE.AE-01" -> "DE.AE")
-function extractCategoryCode(subcategoryId: string): string {
-  const match = subcategoryId.match(/^([A-Z]{2}\.[A-Z]{2})/);
-  return match ? match[1] : subcategoryId;
-}
-
 /**
  * Fetch categories for a specific function
  */
 export const useCSFCategories = (
   functionId?: string,
+  catalogId?: string,
   options?: Omit<UseQueryOptions<CSFCategory[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<CSFCategory[], Error>({
-    queryKey: csfKeys.category(functionId || 'all'),
+    queryKey: csfKeys.category(functionId || 'all', catalogId),
     queryFn: async () => {
-      // Derive categories from controls since server categoryId is incorrect
       console.log('[useCSFCategories] Deriving categories from controls...');
-      const response = await api.get<{ controls: any[]; total: number }>('/csf/controls');
+      const response = await api.get<{ controls: any[]; total: number }>(`/csf/controls${catalogQuery(catalogId)}`);
 
-      // Extract unique categories from controls
+      // Extract unique categories from controls, keeping catalog order
       const seen = new Set<string>();
       const categories: CSFCategory[] = [];
 
       (response.data.controls || []).forEach((c: any) => {
-        const catCode = extractCategoryCode(c.id);
+        const catCode = c.categoryId;
         if (!seen.has(catCode) && (!functionId || c.functionId === functionId)) {
           seen.add(catCode);
           categories.push({
             id: catCode,
             functionId: c.functionId,
             code: catCode,
-            name: getCategoryName(catCode),
+            name: c.categoryName || getCategoryName(catCode),
             description: getCategoryDescription(catCode),
             subcategories: [],
           });
         }
       });
 
-      // Sort by code
-      categories.sort((a, b) => a.code.localeCompare(b.code));
       console.log('[useCSFCategories] Derived:', categories.length, 'categories');
       return categories;
     },
@@ -142,14 +162,15 @@ function truncateText(text: string, maxLength: number = 80): string {
  * Fetch all subcategories
  */
 export const useCSFSubcategories = (
+  catalogId?: string,
   options?: Omit<UseQueryOptions<CSFSubcategory[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<CSFSubcategory[], Error>({
-    queryKey: csfKeys.subcategories(),
+    queryKey: csfKeys.subcategories(catalogId),
     queryFn: async () => {
       // Note: Server doesn't have a direct subcategories endpoint, derive from controls
       console.log('[useCSFSubcategories] Fetching subcategories via controls...');
-      const response = await api.get<{ controls: any[]; total: number }>('/csf/controls');
+      const response = await api.get<{ controls: any[]; total: number }>(`/csf/controls${catalogQuery(catalogId)}`);
       console.log('[useCSFSubcategories] Raw response:', response.data);
 
       // Extract unique subcategories from controls
@@ -159,14 +180,12 @@ export const useCSFSubcategories = (
       (response.data.controls || []).forEach((c: any) => {
         if (!seen.has(c.id)) {
           seen.add(c.id);
-          // Extract proper categoryId from subcategory code (e.g., "DE.AE-01" -> "DE.AE")
-          const categoryId = extractCategoryCode(c.id);
-          // Use description text as name since title is just "Control"
+          // Use description text as name since CSF titles repeat the category
           const name = truncateText(c.text || c.title, 100);
 
           subcategories.push({
             id: c.id,
-            categoryId: categoryId,
+            categoryId: c.categoryId,
             code: c.id,
             name: name,
             description: c.text || '',
@@ -187,33 +206,22 @@ export const useCSFSubcategories = (
  * Fetch all CSF controls
  */
 export const useCSFControls = (
+  catalogId?: string,
   options?: Omit<UseQueryOptions<CSFControl[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<CSFControl[], Error>({
-    queryKey: csfKeys.controls(),
-    queryFn: async () => {
+    queryKey: csfKeys.controls(catalogId),
+    queryFn: withOfflineCache(async () => {
       console.log('[useCSFControls] Fetching controls...');
-      const response = await api.get<{ controls: any[]; total: number }>('/csf/controls');
+      const response = await api.get<{ controls: any[]; total: number }>(`/csf/controls${catalogQuery(catalogId)}`);
       console.log('[useCSFControls] Raw response:', response.data);
 
       // Transform server response to match client type
-      const controls = (response.data.controls || []).map((c: any) => ({
-        id: c.id,
-        subcategoryId: c.id,
-        subcategoryCode: c.id,
-        functionCode: c.functionId,
-        functionName: getFunctionName(c.functionId),
-        categoryCode: c.categoryId,
-        categoryName: getCategoryName(c.categoryId),
-        subcategoryName: c.title,
-        description: c.text || '',
-        implementationExamples: c.implementationExamples || [],
-        nist80053Mappings: [],
-      }));
+      const controls = (response.data.controls || []).map(toCSFControl);
 
       console.log('[useCSFControls] Transformed:', controls.length, 'controls');
       return controls;
-    },
+    }),
     staleTime: 30 * 60 * 1000, // 30 minutes
     ...options,
   });
@@ -284,16 +292,7 @@ export const useCSFControl = (
 
       const c = response.data;
       const control: CSFControl = {
-        id: c.id,
-        subcategoryId: c.id,
-        subcategoryCode: c.id,
-        functionCode: c.functionId,
-        functionName: getFunctionName(c.functionId),
-        categoryCode: c.categoryId,
-        categoryName: getCategoryName(c.categoryId),
-        subcategoryName: c.title,
-        description: c.text || '',
-        implementationExamples: c.implementationExamples || [],
+        ...toCSFControl(c),
         nist80053Mappings: (c.nist80053Mappings || []).map((m: any) => ({
           id: m.id,
           controlId: m.nist80053Id,
@@ -318,30 +317,19 @@ export const useCSFControl = (
  */
 export const useCSFSearch = (
   params: CSFSearchParams,
+  catalogId?: string,
   options?: Omit<UseQueryOptions<CSFControl[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<CSFControl[], Error>({
-    queryKey: csfKeys.search(params),
+    queryKey: csfKeys.search(params, catalogId),
     queryFn: async () => {
-      const url = `/csf/search?q=${encodeURIComponent(params.query)}`;
+      const url = `/csf/search?q=${encodeURIComponent(params.query)}${catalogQuery(catalogId, '&')}`;
       console.log('[useCSFSearch] Searching:', url);
       const response = await api.get<{ controls: any[]; total: number }>(url);
       console.log('[useCSFSearch] Raw response:', response.data);
 
       // Transform server response
-      const controls = (response.data.controls || []).map((c: any) => ({
-        id: c.id,
-        subcategoryId: c.id,
-        subcategoryCode: c.id,
-        functionCode: c.functionId,
-        functionName: getFunctionName(c.functionId),
-        categoryCode: c.categoryId,
-        categoryName: getCategoryName(c.categoryId),
-        subcategoryName: c.title,
-        description: c.text || '',
-        implementationExamples: c.implementationExamples || [],
-        nist80053Mappings: [],
-      }));
+      const controls = (response.data.controls || []).map(toCSFControl);
 
       // Filter by function/category if specified
       let filtered = controls;
@@ -365,13 +353,14 @@ export const useCSFSearch = (
  * Hook to get controls grouped by function
  */
 export const useCSFControlsByFunction = (
+  catalogId?: string,
   options?: Omit<UseQueryOptions<Record<string, CSFControl[]>, Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<Record<string, CSFControl[]>, Error>({
-    queryKey: [...csfKeys.controls(), 'by-function'],
+    queryKey: [...csfKeys.controls(catalogId), 'by-function'],
     queryFn: async () => {
       console.log('[useCSFControlsByFunction] Fetching controls...');
-      const response = await api.get<{ controls: any[]; total: number }>('/csf/controls');
+      const response = await api.get<{ controls: any[]; total: number }>(`/csf/controls${catalogQuery(catalogId)}`);
       console.log('[useCSFControlsByFunction] Raw response:', response.data);
 
       // Transform and group controls by function code
@@ -382,19 +371,7 @@ export const useCSFControlsByFunction = (
         if (!grouped[funcCode]) {
           grouped[funcCode] = [];
         }
-        grouped[funcCode].push({
-          id: c.id,
-          subcategoryId: c.id,
-          subcategoryCode: c.id,
-          functionCode: c.functionId,
-          functionName: getFunctionName(c.functionId),
-          categoryCode: c.categoryId,
-          categoryName: getCategoryName(c.categoryId),
-          subcategoryName: c.title,
-          description: c.text || '',
-          implementationExamples: c.implementationExamples || [],
-          nist80053Mappings: [],
-        });
+        grouped[funcCode].push(toCSFControl(c));
       });
 
       console.log('[useCSFControlsByFunction] Grouped by', Object.keys(grouped).length, 'functions');
@@ -409,13 +386,14 @@ export const useCSFControlsByFunction = (
  * Hook to get controls grouped by category
  */
 export const useCSFControlsByCategory = (
+  catalogId?: string,
   options?: Omit<UseQueryOptions<Record<string, CSFControl[]>, Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<Record<string, CSFControl[]>, Error>({
-    queryKey: [...csfKeys.controls(), 'by-category'],
+    queryKey: [...csfKeys.controls(catalogId), 'by-category'],
     queryFn: async () => {
       console.log('[useCSFControlsByCategory] Fetching controls...');
-      const response = await api.get<{ controls: any[]; total: number }>('/csf/controls');
+      const response = await api.get<{ controls: any[]; total: number }>(`/csf/controls${catalogQuery(catalogId)}`);
       console.log('[useCSFControlsByCategory] Raw response:', response.data);
 
       // Transform and group controls by category code
@@ -426,19 +404,7 @@ export const useCSFControlsByCategory = (
         if (!grouped[catCode]) {
           grouped[catCode] = [];
         }
-        grouped[catCode].push({
-          id: c.id,
-          subcategoryId: c.id,
-          subcategoryCode: c.id,
-          functionCode: c.functionId,
-          functionName: getFunctionName(c.functionId),
-          categoryCode: c.categoryId,
-          categoryName: getCategoryName(c.categoryId),
-          subcategoryName: c.title,
-          description: c.text || '',
-          implementationExamples: c.implementationExamples || [],
-          nist80053Mappings: [],
-        });
+        grouped[catCode].push(toCSFControl(c));
       });
 
       console.log('[useCSFControlsByCategory] Grouped by', Object.keys(grouped).length, 'categories');
@@ -453,13 +419,14 @@ export const useCSFControlsByCategory = (
  * Hook to get all CSF data in a hierarchical structure
  */
 export const useCSFHierarchy = (
+  catalogId?: string,
   options?: Omit<UseQueryOptions<CSFFunction[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<CSFFunction[], Error>({
-    queryKey: [...csfKeys.all, 'hierarchy'],
-    queryFn: async () => {
+    queryKey: [...csfKeys.catalog(catalogId), 'hierarchy'],
+    queryFn: withOfflineCache(async () => {
       console.log('[useCSFHierarchy] Building hierarchy from controls...');
-      const response = await api.get<{ controls: any[]; total: number }>('/csf/controls');
+      const response = await api.get<{ controls: any[]; total: number }>(`/csf/controls${catalogQuery(catalogId)}`);
       console.log('[useCSFHierarchy] Raw response:', response.data);
 
       // Build hierarchy from flat controls list
@@ -467,14 +434,13 @@ export const useCSFHierarchy = (
 
       (response.data.controls || []).forEach((c: any) => {
         const funcId = c.functionId;
-        // Extract proper categoryId from subcategory code (e.g., "DE.AE-01" -> "DE.AE")
-        const catId = extractCategoryCode(c.id);
+        const catId = c.categoryId;
 
         if (!functionsMap[funcId]) {
           functionsMap[funcId] = {
             id: funcId,
             code: funcId,
-            name: getFunctionName(funcId),
+            name: c.functionName || getFunctionName(funcId),
             description: '',
             categories: [],
           };
@@ -486,14 +452,14 @@ export const useCSFHierarchy = (
             id: catId,
             functionId: funcId,
             code: catId,
-            name: getCategoryName(catId),
+            name: c.categoryName || getCategoryName(catId),
             description: getCategoryDescription(catId),
             subcategories: [],
           };
           functionsMap[funcId].categories.push(category);
         }
 
-        // Use description text as name since title is just "Control"
+        // Use description text as name since CSF titles repeat the category
         const subcategoryName = truncateText(c.text || c.title, 100);
 
         category.subcategories.push({
@@ -510,7 +476,7 @@ export const useCSFHierarchy = (
       const hierarchy = sortByCSFOrder(Object.values(functionsMap));
       console.log('[useCSFHierarchy] Built hierarchy with', hierarchy.length, 'functions (sorted)');
       return hierarchy;
-    },
+    }),
     staleTime: 30 * 60 * 1000, // 30 minutes
     ...options,
   });
@@ -519,9 +485,9 @@ export const useCSFHierarchy = (
 /**
  * Hook to prefetch CSF data for better performance
  */
-export const usePrefetchCSFData = () => {
-  const { data: functions } = useCSFFunctions();
-  const { data: controls } = useCSFControls();
+export const usePrefetchCSFData = (catalogId?: string) => {
+  const { data: functions } = useCSFFunctions(catalogId);
+  const { data: controls } = useCSFControls(catalogId);
 
   return {
     isLoaded: !!functions && !!controls,
@@ -563,13 +529,13 @@ export const useCSFMappings = (
   options?: Omit<UseQueryOptions<NIST80053MappingResponse, Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<NIST80053MappingResponse, Error>({
-    queryKey: [...csfKeys.controls(), 'mappings', controlId],
-    queryFn: async () => {
+    queryKey: [...csfKeys.all, 'mappings', controlId],
+    queryFn: withOfflineCache(async () => {
       console.log('[useCSFMappings] Fetching mappings for:', controlId);
       const response = await api.get<NIST80053MappingResponse>(`/csf/mappings/${controlId}`);
       console.log('[useCSFMappings] Response:', response.data);
       return response.data;
-    },
+    }),
     enabled: !!controlId && options?.enabled !== false,
     staleTime: 30 * 60 * 1000, // 30 minutes - mappings don't change
     ...options,
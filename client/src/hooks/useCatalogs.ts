@@ -0,0 +1,53 @@
+/**
+ * useCatalogs Hook
+ *
+ * React Query hooks for the control catalogs (NIST CSF 2.0, ISO 27001:2022,
+ * CIS Controls v8, SOC 2 TSC, NIST 800-53 and any loaded from the server's
+ * data/catalogs directory) that products are assessed against.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { ControlCatalog, ControlCatalogSyncResult } from '../types/api.types';
+import { csfKeys } from './useCSF';
+
+// Catalog whose product baselines follow the FIPS 199 impact level
+export const NIST_80053_CATALOG_ID = 'nist-800-53-rev5';
+
+// Query keys
+export const catalogKeys = {
+  all: ['catalogs'] as const,
+  lists: () => [...catalogKeys.all, 'list'] as const,
+};
+
+/**
+ * Fetch all control catalogs, the default (NIST CSF 2.0) first
+ */
+export function useControlCatalogs() {
+  return useQuery({
+    queryKey: catalogKeys.lists(),
+    queryFn: async (): Promise<ControlCatalog[]> => {
+      const response = await api.get('/catalogs');
+      return response.data.catalogs;
+    },
+    staleTime: 10 * 60 * 1000, // Catalogs only change on reload
+  });
+}
+
+/**
+ * Reload catalogs from the server's data directory (admin only)
+ */
+export function useSyncControlCatalogs() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<ControlCatalogSyncResult[]> => {
+      const response = await api.post('/catalogs/sync');
+      return response.data.results;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: catalogKeys.all });
+      queryClient.invalidateQueries({ queryKey: csfKeys.all });
+    },
+  });
+}
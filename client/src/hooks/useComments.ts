@@ -1,5 +1,6 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../services/api';
+import type { RealtimeChange } from './useRealtime';
 
 const COMMENTS_QUERY_KEY = 'comments';
 
@@ -117,6 +118,16 @@ export function useDeleteComment() {
   });
 }
 
+// Apply someone else's comment change, received on the product's live channel
+export function applyCommentChange(queryClient: QueryClient, change: RealtimeChange) {
+  if (change.assessmentId) {
+    queryClient.invalidateQueries({ queryKey: [COMMENTS_QUERY_KEY, change.assessmentId] });
+  }
+  // Threads containing the comment: its parent's, or its own
+  const parentId: string | null | undefined = change.data?.parentId;
+  queryClient.invalidateQueries({ queryKey: [COMMENTS_QUERY_KEY, 'single', parentId || change.id] });
+}
+
 // Search users for @mentions
 export function useSearchMentions(query: string) {
   return useQuery<CommentAuthor[]>({
@@ -0,0 +1,78 @@
+/**
+ * useCrosswalk Hook
+ *
+ * React Query hooks for crosswalks between control catalogs and for the
+ * projection of a product's assessments onto another catalog.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import api from '../services/api';
+import { ComplianceStatus, Crosswalk, CrosswalkProjection, ProjectedControl } from '../types/api.types';
+
+// Query keys
+export const crosswalkKeys = {
+  all: ['crosswalks'] as const,
+  lists: () => [...crosswalkKeys.all, 'list'] as const,
+  projection: (productId: string, targetCatalogId: string) =>
+    [...crosswalkKeys.all, 'projection', productId, targetCatalogId] as const,
+};
+
+// Map server status to client status
+function mapServerStatusToClient(serverStatus: string): ComplianceStatus {
+  const mapping: Record<string, ComplianceStatus> = {
+    'NOT_ASSESSED': 'Not Assessed',
+    'NOT_APPLICABLE': 'Not Applicable',
+    'NON_COMPLIANT': 'Not Implemented',
+    'PARTIALLY_COMPLIANT': 'Partially Implemented',
+    'COMPLIANT': 'Implemented',
+  };
+  return mapping[serverStatus] || 'Not Assessed';
+}
+
+/**
+ * Fetch all crosswalks between control catalogs
+ */
+export function useCrosswalks() {
+  return useQuery({
+    queryKey: crosswalkKeys.lists(),
+    queryFn: async (): Promise<Crosswalk[]> => {
+      const response = await api.get('/crosswalks');
+      return response.data.crosswalks;
+    },
+    staleTime: 10 * 60 * 1000, // Crosswalks only change on reload
+  });
+}
+
+/**
+ * Project a product's assessments onto another control catalog
+ */
+export function useCrosswalkProjection(productId: string, targetCatalogId: string) {
+  return useQuery({
+    queryKey: crosswalkKeys.projection(productId, targetCatalogId),
+    queryFn: async (): Promise<CrosswalkProjection> => {
+      const response = await api.get(`/crosswalks/products/${productId}`, { params: { targetCatalogId } });
+      const data = response.data;
+
+      const byStatus: CrosswalkProjection['summary']['byStatus'] = {};
+      Object.entries(data.summary.byStatus as Record<string, number>).forEach(([status, count]) => {
+        byStatus[mapServerStatusToClient(status)] = count;
+      });
+
+      return {
+        ...data,
+        summary: { ...data.summary, byStatus },
+        controls: data.controls.map((control: any): ProjectedControl => ({
+          ...control,
+          status: mapServerStatusToClient(control.status),
+          systems: Object.fromEntries(
+            Object.entries(control.systems).map(([systemId, result]: [string, any]) => [
+              systemId,
+              { ...result, status: mapServerStatusToClient(result.status) },
+            ])
+          ),
+        })),
+      };
+    },
+    enabled: !!productId && !!targetCatalogId,
+  });
+}
@@ -5,8 +5,9 @@
  * and metadata management for compliance assessments.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../services/api';
+import type { RealtimeChange } from './useRealtime';
 
 const EVIDENCE_QUERY_KEY = 'evidence';
 
@@ -54,6 +55,33 @@ export interface EvidenceUploadResponse {
   errors?: Array<{ fileName: string; error: string }>;
 }
 
+export interface ExpiringEvidence {
+  id: string;
+  originalName: string;
+  evidenceType: string;
+  validFrom: string | null;
+  expiresAt: string;
+  isExpired: boolean;
+  daysRemaining: number;
+  assessment: {
+    id: string;
+    subcategoryId: string;
+    status: string;
+    evidenceLapsedAt: string | null;
+    system: { id: string; name: string; productId: string };
+  };
+}
+
+export interface ExpiringEvidenceResponse {
+  days: number;
+  evidence: ExpiringEvidence[];
+  summary: {
+    expired: number;
+    expiringSoon: number;
+    lapsedAssessments: number;
+  };
+}
+
 export interface UploadEvidenceInput {
   assessmentId: string;
   files: File[];
@@ -70,18 +98,19 @@ export interface UpdateEvidenceInput {
   expiresAt?: string;
 }
 
-// Evidence type categories
+// Evidence type categories, with the server's default validity in days (null = no default expiry)
 export const EVIDENCE_TYPES = [
-  { value: 'policy', label: 'Policy Document' },
-  { value: 'procedure', label: 'Procedure/Process' },
-  { value: 'screenshot', label: 'Screenshot/Image' },
-  { value: 'config', label: 'Configuration File' },
-  { value: 'report', label: 'Report/Assessment' },
-  { value: 'log', label: 'Log File' },
-  { value: 'certificate', label: 'Certificate/License' },
-  { value: 'audit', label: 'Audit Evidence' },
-  { value: 'training', label: 'Training Record' },
-  { value: 'other', label: 'Other' },
+  { value: 'PENETRATION_TEST', label: 'Penetration Test', validityDays: 365 },
+  { value: 'VULNERABILITY_SCAN', label: 'Vulnerability Scan', validityDays: 30 },
+  { value: 'AUDIT_REPORT', label: 'Audit Report', validityDays: 365 },
+  { value: 'POLICY_DOCUMENT', label: 'Policy Document', validityDays: 365 },
+  { value: 'PROCEDURE', label: 'Procedure/Process', validityDays: 365 },
+  { value: 'CONFIGURATION', label: 'Configuration File', validityDays: 90 },
+  { value: 'SCREENSHOT', label: 'Screenshot/Image', validityDays: 90 },
+  { value: 'LOG', label: 'Log File', validityDays: 30 },
+  { value: 'CERTIFICATE', label: 'Certificate/License', validityDays: null },
+  { value: 'TRAINING_RECORD', label: 'Training Record', validityDays: 365 },
+  { value: 'OTHER', label: 'Other', validityDays: null },
 ] as const;
 
 export type EvidenceType = (typeof EVIDENCE_TYPES)[number]['value'];
@@ -125,6 +154,18 @@ export function useEvidenceStats(systemId: string | undefined) {
   });
 }
 
+// Get evidence expiring within `days` (including already expired), optionally for one system
+export function useExpiringEvidence(options: { systemId?: string; productId?: string; days?: number } = {}) {
+  const { systemId, productId, days = 30 } = options;
+  return useQuery<ExpiringEvidenceResponse>({
+    queryKey: [EVIDENCE_QUERY_KEY, 'expiring', { systemId, productId, days }],
+    queryFn: async () => {
+      const { data } = await api.get('/evidence/expiring', { params: { systemId, productId, days } });
+      return data;
+    },
+  });
+}
+
 // Upload evidence files
 export function useUploadEvidence() {
   const queryClient = useQueryClient();
@@ -150,6 +191,7 @@ export function useUploadEvidence() {
     onSuccess: (_, { assessmentId }) => {
       queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'assessment', assessmentId] });
       queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'stats'] });
+      queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'expiring'] });
     },
   });
 }
@@ -166,6 +208,7 @@ export function useUpdateEvidence() {
     onSuccess: (data, { assessmentId }) => {
       queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'assessment', assessmentId] });
       queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, data.id] });
+      queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'expiring'] });
     },
   });
 }
@@ -181,10 +224,21 @@ export function useDeleteEvidence() {
     onSuccess: (_, { assessmentId }) => {
       queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'assessment', assessmentId] });
       queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'stats'] });
+      queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'expiring'] });
     },
   });
 }
 
+// Apply someone else's evidence change, received on the product's live channel
+export function applyEvidenceChange(queryClient: QueryClient, change: RealtimeChange) {
+  if (change.assessmentId) {
+    queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'assessment', change.assessmentId] });
+  }
+  queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, change.id] });
+  queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'stats'] });
+  queryClient.invalidateQueries({ queryKey: [EVIDENCE_QUERY_KEY, 'expiring'] });
+}
+
 // Helper function to download evidence file
 export async function downloadEvidence(evidenceId: string, fileName: string): Promise<void> {
   try {
@@ -278,16 +332,17 @@ export function getEvidenceTypeColor(
 ): 'default' | 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info' {
   if (!value) return 'default';
   const colorMap: Record<string, 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info'> = {
-    policy: 'primary',
-    procedure: 'info',
-    screenshot: 'secondary',
-    config: 'warning',
-    report: 'success',
-    log: 'default' as 'info',
-    certificate: 'success',
-    audit: 'error',
-    training: 'info',
-    other: 'default' as 'info',
+    PENETRATION_TEST: 'error',
+    VULNERABILITY_SCAN: 'warning',
+    AUDIT_REPORT: 'success',
+    POLICY_DOCUMENT: 'primary',
+    PROCEDURE: 'info',
+    CONFIGURATION: 'warning',
+    SCREENSHOT: 'secondary',
+    LOG: 'default' as 'info',
+    CERTIFICATE: 'success',
+    TRAINING_RECORD: 'info',
+    OTHER: 'default' as 'info',
   };
   return colorMap[value] || 'default';
 }
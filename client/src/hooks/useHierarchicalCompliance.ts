@@ -21,8 +21,8 @@ import type {
  */
 export const complianceKeys = {
   all: ['hierarchical-compliance'] as const,
-  rollup: (scopeType: ScopeType | null, scopeId: string | null) =>
-    [...complianceKeys.all, 'rollup', scopeType || 'global', scopeId || 'all'] as const,
+  rollup: (scopeType: ScopeType | null, scopeId: string | null, approvedOnly = false) =>
+    [...complianceKeys.all, 'rollup', scopeType || 'global', scopeId || 'all', approvedOnly ? 'approved' : 'all'] as const,
   cc: (ccId: string) => [...complianceKeys.all, 'cc', ccId] as const,
   framework: (frameworkId: string) => [...complianceKeys.all, 'framework', frameworkId] as const,
   product: (productId: string) => [...complianceKeys.all, 'product', productId] as const,
@@ -38,20 +38,25 @@ export const complianceKeys = {
  * @param scopeType - The type of scope ('cc' | 'framework' | 'product' | 'system' | null)
  * @param scopeId - The ID of the scoped entity (or null for global)
  * @param options - Additional React Query options
+ * @param approvedOnly - Count only assessments whose review has been approved
  */
 export const useHierarchicalCompliance = (
   scopeType: ScopeType | null,
   scopeId: string | null,
-  options?: Omit<UseQueryOptions<HierarchicalComplianceResponse, Error>, 'queryKey' | 'queryFn'>
+  options?: Omit<UseQueryOptions<HierarchicalComplianceResponse, Error>, 'queryKey' | 'queryFn'>,
+  approvedOnly = false
 ) => {
   return useQuery<HierarchicalComplianceResponse, Error>({
-    queryKey: complianceKeys.rollup(scopeType, scopeId),
+    queryKey: complianceKeys.rollup(scopeType, scopeId, approvedOnly),
     queryFn: async () => {
       const params = new URLSearchParams();
       if (scopeType && scopeId) {
         params.set('scopeType', scopeType);
         params.set('scopeId', scopeId);
       }
+      if (approvedOnly) {
+        params.set('approvedOnly', 'true');
+      }
 
       const url = params.toString()
         ? `/compliance/rollup?${params.toString()}`
@@ -0,0 +1,159 @@
+/**
+ * useNotifications Hook
+ *
+ * React Query hooks for the current user's persistent notifications
+ * (mentions, assignments, due-date and evidence reminders) and their
+ * per-type preferences, plus the email digest subscription.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  NotificationListResponse,
+  NotificationPreference,
+  EmailDigestSubscription,
+  EmailDigestTestResult,
+  DigestFrequency,
+} from '../types/api.types';
+
+// Query keys
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  list: () => [...notificationKeys.all, 'list'] as const,
+  preferences: () => [...notificationKeys.all, 'preferences'] as const,
+  emailDigest: () => [...notificationKeys.all, 'email-digest'] as const,
+};
+
+/**
+ * Fetch recent notifications with the unread count, polling while the app is open
+ */
+export function useNotifications(limit = 50) {
+  return useQuery({
+    queryKey: [...notificationKeys.list(), limit],
+    queryFn: async (): Promise<NotificationListResponse> => {
+      const response = await api.get('/notifications', { params: { limit } });
+      return response.data;
+    },
+    refetchInterval: 60 * 1000,
+  });
+}
+
+/**
+ * Mark notifications as read; omit ids to mark all as read
+ */
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]): Promise<void> => {
+      await api.post('/notifications/mark-read', { ids });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+    },
+  });
+}
+
+/**
+ * Dismiss a notification
+ */
+export function useDismissNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await api.delete(`/notifications/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+    },
+  });
+}
+
+/**
+ * Dismiss all notifications
+ */
+export function useClearNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<void> => {
+      await api.delete('/notifications');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+    },
+  });
+}
+
+/**
+ * Fetch per-type notification preferences
+ */
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: notificationKeys.preferences(),
+    queryFn: async (): Promise<NotificationPreference[]> => {
+      const response = await api.get('/notifications/preferences');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Update per-type notification preferences
+ */
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (preferences: NotificationPreference[]): Promise<NotificationPreference[]> => {
+      const response = await api.put('/notifications/preferences', { preferences });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(notificationKeys.preferences(), data);
+    },
+  });
+}
+
+/**
+ * Fetch the email digest subscription
+ */
+export function useEmailDigest() {
+  return useQuery({
+    queryKey: notificationKeys.emailDigest(),
+    queryFn: async (): Promise<EmailDigestSubscription> => {
+      const response = await api.get('/notifications/email-digest');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Opt in/out of the email digest or change its frequency
+ */
+export function useUpdateEmailDigest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { enabled?: boolean; frequency?: DigestFrequency }): Promise<EmailDigestSubscription> => {
+      const response = await api.put('/notifications/email-digest', data);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(notificationKeys.emailDigest(), data);
+    },
+  });
+}
+
+/**
+ * Send the current user's digest now
+ */
+export function useSendTestDigest() {
+  return useMutation({
+    mutationFn: async (): Promise<EmailDigestTestResult> => {
+      const response = await api.post('/notifications/email-digest/test');
+      return response.data;
+    },
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * useOscal Hook
+ *
+ * React Query hooks for the OSCAL NIST 800-53 catalog and baseline profiles
+ * the server loads its controls from, and downloads of a product's OSCAL
+ * SSP, assessment results and POA&M.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  OscalBaseline,
+  OscalDocumentType,
+  OscalImportResult,
+  OscalSources,
+} from '../types/api.types';
+import { catalogKeys } from './useCatalogs';
+import { csfKeys } from './useCSF';
+
+// Query keys
+export const oscalKeys = {
+  all: ['oscal'] as const,
+  sources: () => [...oscalKeys.all, 'sources'] as const,
+};
+
+/**
+ * Fetch the imported OSCAL catalog and baseline profiles
+ */
+export function useOscalSources() {
+  return useQuery({
+    queryKey: oscalKeys.sources(),
+    queryFn: async (): Promise<OscalSources> => {
+      const response = await api.get('/nist80053/sources');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Import an OSCAL catalog or baseline profile (admin only). The baseline is
+ * only needed for profiles whose title does not name it.
+ */
+export function useImportOscalDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ file, baseline }: { file: File; baseline?: OscalBaseline }): Promise<OscalImportResult> => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (baseline) formData.append('baseline', baseline);
+
+      const response = await api.post('/nist80053/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: oscalKeys.all });
+      // A new catalog also reloads the NIST 800-53 control catalog
+      queryClient.invalidateQueries({ queryKey: catalogKeys.all });
+      queryClient.invalidateQueries({ queryKey: csfKeys.all });
+    },
+  });
+}
+
+// Helper function to download one of a product's OSCAL documents
+export async function downloadOscalDocument(
+  productId: string,
+  document: OscalDocumentType,
+  fileName: string
+): Promise<void> {
+  const response = await api.get(`/export/oscal/${document}/${productId}`, {
+    responseType: 'blob',
+  });
+
+  const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/json' }));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  window.document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
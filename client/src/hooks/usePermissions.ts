@@ -0,0 +1,175 @@
+/**
+ * usePermissions Hook
+ *
+ * React Query hooks for per-scope permissions. Roles are granted on a
+ * capability centre, framework or product and apply to everything beneath it;
+ * the server resolves the effective permission list for each product.
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  Permission,
+  PermissionMatrix,
+  MyPermissions,
+  RoleAssignment,
+  RoleScopeType,
+  ScopedRole,
+  CreateRoleAssignmentInput,
+} from '../types/api.types';
+
+// Query keys
+export const permissionKeys = {
+  all: ['permissions'] as const,
+  matrix: () => [...permissionKeys.all, 'matrix'] as const,
+  me: () => [...permissionKeys.all, 'me'] as const,
+  product: (productId: string) => [...permissionKeys.all, 'product', productId] as const,
+  assignments: (scopeType: RoleScopeType, scopeId: string) =>
+    [...permissionKeys.all, 'assignments', scopeType, scopeId] as const,
+};
+
+/**
+ * Check whether a permission list includes the given permission
+ */
+export function hasPermission(permissions: Permission[] | undefined, permission: Permission): boolean {
+  return !!permissions && permissions.includes(permission);
+}
+
+/**
+ * Role grants change what is visible and editable,
+ * so resource caches are refreshed alongside the permission caches.
+ */
+const invalidateScopedData = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: permissionKeys.all });
+  queryClient.invalidateQueries({ queryKey: ['capabilityCentres'] });
+  queryClient.invalidateQueries({ queryKey: ['frameworks'] });
+  queryClient.invalidateQueries({ queryKey: ['products'] });
+  queryClient.invalidateQueries({ queryKey: ['systems'] });
+};
+
+/**
+ * Fetch the role → permission matrix
+ */
+export function usePermissionMatrix() {
+  return useQuery({
+    queryKey: permissionKeys.matrix(),
+    queryFn: async (): Promise<PermissionMatrix> => {
+      const response = await api.get('/permissions/matrix');
+      return response.data;
+    },
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Fetch the current user's team memberships and scoped role grants
+ */
+export function useMyPermissions() {
+  return useQuery({
+    queryKey: permissionKeys.me(),
+    queryFn: async (): Promise<MyPermissions> => {
+      const response = await api.get('/permissions/me');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Fetch the current user's effective permissions on a product.
+ * Returns a `can` helper for gating routes and action buttons.
+ */
+export function useProductPermissions(productId: string | undefined) {
+  const query = useQuery({
+    queryKey: permissionKeys.product(productId || ''),
+    queryFn: async (): Promise<Permission[]> => {
+      const response = await api.get<{ productId: string; permissions: Permission[] }>(
+        `/permissions/product/${productId}`
+      );
+      return response.data.permissions;
+    },
+    enabled: !!productId,
+    staleTime: 60 * 1000,
+  });
+
+  const { data: permissions } = query;
+  const can = useCallback(
+    (permission: Permission) => hasPermission(permissions, permission),
+    [permissions]
+  );
+
+  return { ...query, permissions: permissions || [], can };
+}
+
+/**
+ * Fetch role grants on a scope (requires access:manage on the scope)
+ */
+export function useRoleAssignments(scopeType: RoleScopeType, scopeId: string | undefined) {
+  return useQuery({
+    queryKey: permissionKeys.assignments(scopeType, scopeId || ''),
+    queryFn: async (): Promise<RoleAssignment[]> => {
+      const response = await api.get<{ assignments: RoleAssignment[]; total: number }>(
+        '/permissions/assignments',
+        { params: { scopeType, scopeId } }
+      );
+      return response.data.assignments;
+    },
+    enabled: !!scopeId,
+  });
+}
+
+/**
+ * Grant a role on a scope by email or user ID
+ */
+export function useCreateRoleAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateRoleAssignmentInput): Promise<RoleAssignment> => {
+      const response = await api.post('/permissions/assignments', data);
+      return response.data;
+    },
+    onSuccess: () => invalidateScopedData(queryClient),
+  });
+}
+
+/**
+ * Change the role of an existing grant
+ */
+export function useUpdateRoleAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: ScopedRole }): Promise<RoleAssignment> => {
+      const response = await api.put(`/permissions/assignments/${id}`, { role });
+      return response.data;
+    },
+    onSuccess: () => invalidateScopedData(queryClient),
+  });
+}
+
+/**
+ * Revoke a role grant
+ */
+export function useDeleteRoleAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await api.delete(`/permissions/assignments/${id}`);
+    },
+    onSuccess: () => invalidateScopedData(queryClient),
+  });
+}
+
+const permissionHooks = {
+  usePermissionMatrix,
+  useMyPermissions,
+  useProductPermissions,
+  useRoleAssignments,
+  useCreateRoleAssignment,
+  useUpdateRoleAssignment,
+  useDeleteRoleAssignment,
+};
+
+export default permissionHooks;
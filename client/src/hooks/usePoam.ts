@@ -0,0 +1,166 @@
+/**
+ * usePoam Hook
+ *
+ * React Query hooks for a product's POA&M register: items opened from failing
+ * assessments, their milestones and status history, and the FedRAMP workbook
+ * export.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  PoamItem,
+  PoamMilestone,
+  PoamMilestoneInput,
+  PoamStatus,
+  PoamSyncResult,
+  UpdatePoamItemInput,
+} from '../types/api.types';
+
+// Query keys
+export const poamKeys = {
+  all: ['poam'] as const,
+  lists: () => [...poamKeys.all, 'list'] as const,
+  list: (productId: string, status?: PoamStatus) => [...poamKeys.lists(), productId, status] as const,
+  details: () => [...poamKeys.all, 'detail'] as const,
+  detail: (id: string) => [...poamKeys.details(), id] as const,
+};
+
+/**
+ * Fetch a product's POA&M items, optionally by status
+ */
+export function usePoamItems(productId: string | undefined, status?: PoamStatus) {
+  return useQuery({
+    queryKey: poamKeys.list(productId || '', status),
+    queryFn: async (): Promise<PoamItem[]> => {
+      const response = await api.get(`/poam/product/${productId}`, { params: { status } });
+      return response.data.items;
+    },
+    enabled: !!productId,
+  });
+}
+
+/**
+ * Fetch one POA&M item with its milestones and status history
+ */
+export function usePoamItem(id: string | undefined) {
+  return useQuery({
+    queryKey: poamKeys.detail(id || ''),
+    queryFn: async (): Promise<PoamItem> => {
+      const response = await api.get(`/poam/${id}`);
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Open and close items from the product's current assessments
+ */
+export function useSyncPoam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productId: string): Promise<PoamSyncResult> => {
+      const response = await api.post(`/poam/product/${productId}/sync`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: poamKeys.all });
+    },
+  });
+}
+
+/**
+ * Update a POA&M item's fields, status or deviation
+ */
+export function useUpdatePoamItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: UpdatePoamItemInput & { id: string }): Promise<PoamItem> => {
+      const response = await api.put(`/poam/${id}`, data);
+      return response.data;
+    },
+    onSuccess: (item) => {
+      queryClient.invalidateQueries({ queryKey: poamKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: poamKeys.detail(item.id) });
+    },
+  });
+}
+
+/**
+ * Add a milestone to a POA&M item
+ */
+export function useAddPoamMilestone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      poamItemId,
+      ...data
+    }: PoamMilestoneInput & { poamItemId: string; description: string }): Promise<PoamMilestone> => {
+      const response = await api.post(`/poam/${poamItemId}/milestones`, data);
+      return response.data;
+    },
+    onSuccess: (_, { poamItemId }) => {
+      queryClient.invalidateQueries({ queryKey: poamKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: poamKeys.detail(poamItemId) });
+    },
+  });
+}
+
+/**
+ * Update a milestone (milestones that follow a remediation task only take a new description)
+ */
+export function useUpdatePoamMilestone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      poamItemId,
+      milestoneId,
+      ...data
+    }: PoamMilestoneInput & { poamItemId: string; milestoneId: string }): Promise<PoamMilestone> => {
+      const response = await api.put(`/poam/${poamItemId}/milestones/${milestoneId}`, data);
+      return response.data;
+    },
+    onSuccess: (_, { poamItemId }) => {
+      queryClient.invalidateQueries({ queryKey: poamKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: poamKeys.detail(poamItemId) });
+    },
+  });
+}
+
+/**
+ * Delete a milestone
+ */
+export function useDeletePoamMilestone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ poamItemId, milestoneId }: { poamItemId: string; milestoneId: string }) => {
+      await api.delete(`/poam/${poamItemId}/milestones/${milestoneId}`);
+    },
+    onSuccess: (_, { poamItemId }) => {
+      queryClient.invalidateQueries({ queryKey: poamKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: poamKeys.detail(poamItemId) });
+    },
+  });
+}
+
+// Helper function to download the product's register as a FedRAMP POA&M workbook
+export async function downloadPoamWorkbook(productId: string, fileName: string): Promise<void> {
+  const response = await api.get(`/poam/product/${productId}/export`, {
+    responseType: 'blob',
+  });
+
+  const url = window.URL.createObjectURL(new Blob([response.data]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
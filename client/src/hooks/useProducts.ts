@@ -7,7 +7,8 @@
 
 import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import api, { getErrorMessage } from '../services/api';
-import type { Product, CreateProductInput, UpdateProductInput } from '../types/api.types';
+import { withOfflineCache } from '../services/offlineStore';
+import type { Product, CreateProductInput, UpdateProductInput, ProductFilters } from '../types/api.types';
 
 /**
  * Query Keys for React Query caching
@@ -21,19 +22,23 @@ export const productKeys = {
 };
 
 /**
- * Fetch all products
+ * Fetch all products visible to the user (owned and team-shared),
+ * optionally filtered to a single team
  */
 export const useProducts = (
+  filters?: ProductFilters,
   options?: Omit<UseQueryOptions<Product[], Error>, 'queryKey' | 'queryFn'>
 ) => {
   return useQuery<Product[], Error>({
-    queryKey: productKeys.lists(),
-    queryFn: async () => {
+    queryKey: filters?.teamId ? productKeys.list({ ...filters }) : productKeys.lists(),
+    queryFn: withOfflineCache(async () => {
       console.log('[useProducts] Fetching all products...');
-      const response = await api.get<{ products: Product[]; total: number }>('/products');
+      const response = await api.get<{ products: Product[]; total: number }>('/products', {
+        params: filters?.teamId ? { teamId: filters.teamId } : undefined,
+      });
       console.log('[useProducts] Response:', response.data);
       return response.data.products;
-    },
+    }),
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...options,
   });
@@ -48,12 +53,12 @@ export const useProduct = (
 ) => {
   return useQuery<Product, Error>({
     queryKey: productKeys.detail(id),
-    queryFn: async () => {
+    queryFn: withOfflineCache(async () => {
       console.log('[useProduct] Fetching product:', id);
       const response = await api.get<Product>(`/products/${id}`);
       console.log('[useProduct] Response:', response.data);
       return response.data;
-    },
+    }),
     enabled: !!id,
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...options,
@@ -122,12 +127,18 @@ export const useUpdateProduct = (
 
       return { previousProduct };
     },
-    onSuccess: (updatedProduct) => {
+    onSuccess: (updatedProduct, { updates }) => {
       // Update cache with server response
       queryClient.setQueryData(productKeys.detail(updatedProduct.id), updatedProduct);
 
       // Invalidate lists to reflect changes
       queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+
+      // An 800-53 product's baseline follows its impact level
+      if (updates.impactLevel || updates.catalogId) {
+        queryClient.invalidateQueries({ queryKey: ['baselines'] });
+        queryClient.invalidateQueries({ queryKey: ['assessments'] });
+      }
     },
     onError: (error, { id }, context) => {
       // Rollback on error
@@ -0,0 +1,117 @@
+/**
+ * React Query Hooks for CSF Profiles
+ *
+ * Current and Target Organizational Profiles per product, the
+ * organization-wide Implementation Tiers they inherit, and the gap
+ * report between the two profiles.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import type {
+  OrganizationTier,
+  ProductProfiles,
+  ProfileGapReport,
+  ProfileType,
+  CSFProfile,
+  UpdateProfileInput,
+} from '../types/api.types';
+
+/**
+ * Query Keys for React Query caching
+ */
+export const profileKeys = {
+  all: ['profiles'] as const,
+  orgTier: () => [...profileKeys.all, 'org-tier'] as const,
+  product: (productId: string) => [...profileKeys.all, 'product', productId] as const,
+  gaps: (productId: string) => [...profileKeys.product(productId), 'gaps'] as const,
+};
+
+/**
+ * Fetch the organization-wide Tiers
+ */
+export const useOrganizationTier = () => {
+  return useQuery({
+    queryKey: profileKeys.orgTier(),
+    queryFn: async (): Promise<OrganizationTier> => {
+      const response = await api.get<{ data: OrganizationTier }>('/baselines/org-tier');
+      return response.data.data;
+    },
+  });
+};
+
+/**
+ * Set the organization-wide Tiers (admin only). Every product inherits them,
+ * so all profile data is refetched.
+ */
+export const useUpdateOrganizationTier = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      data: Partial<Pick<OrganizationTier, 'currentTier' | 'targetTier' | 'notes'>>
+    ): Promise<OrganizationTier> => {
+      const response = await api.put<{ data: OrganizationTier }>('/baselines/org-tier', data);
+      return response.data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: profileKeys.all });
+    },
+  });
+};
+
+/**
+ * Fetch a product's Current and Target Profiles
+ */
+export const useProductProfiles = (productId: string) => {
+  return useQuery({
+    queryKey: profileKeys.product(productId),
+    queryFn: async (): Promise<ProductProfiles> => {
+      const response = await api.get<{ data: ProductProfiles }>(`/baselines/product/${productId}/profiles`);
+      return response.data.data;
+    },
+    enabled: !!productId,
+  });
+};
+
+/**
+ * Fetch the gap report between a product's Current and Target Profiles
+ */
+export const useProfileGaps = (productId: string) => {
+  return useQuery({
+    queryKey: profileKeys.gaps(productId),
+    queryFn: async (): Promise<ProfileGapReport> => {
+      const response = await api.get<{ data: ProfileGapReport }>(`/baselines/product/${productId}/profiles/gaps`);
+      return response.data.data;
+    },
+    enabled: !!productId,
+  });
+};
+
+/**
+ * Update a profile's tier, description or category/subcategory tiers
+ */
+export const useUpdateProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productId,
+      type,
+      data,
+    }: {
+      productId: string;
+      type: ProfileType;
+      data: UpdateProfileInput;
+    }): Promise<CSFProfile> => {
+      const response = await api.put<{ data: CSFProfile }>(
+        `/baselines/product/${productId}/profiles/${type}`,
+        data
+      );
+      return response.data.data;
+    },
+    onSuccess: (_profile, { productId }) => {
+      queryClient.invalidateQueries({ queryKey: profileKeys.product(productId) });
+    },
+  });
+};
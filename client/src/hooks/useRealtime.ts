@@ -0,0 +1,245 @@
+/**
+ * Live Collaboration Channel
+ *
+ * Keeps a Server-Sent Events stream open to a product while a page is showing
+ * it. Changes other people make to its assessments, comments, evidence and
+ * tasks are applied to the React Query cache as they happen, and presence
+ * shows who else is connected and which control and field they are editing.
+ *
+ * A focused field is a soft lock: others see a warning, but saves are still
+ * guarded only by version checks. The stream reconnects with backoff and
+ * refetches assessments afterwards, since changes made while it was down
+ * were missed.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import api, { CLIENT_ID, CLIENT_ID_HEADER } from '../services/api';
+import { applyAssessmentChange, assessmentKeys } from './useAssessments';
+import { applyCommentChange } from './useComments';
+import { applyEvidenceChange } from './useEvidence';
+import { poamKeys } from './usePoam';
+import { riskKeys } from './useRisk';
+import { riskQuantKeys } from './useRiskQuantification';
+
+export type RealtimeEntity = 'assessment' | 'comment' | 'evidence' | 'task';
+
+export interface RealtimeChange {
+  entity: RealtimeEntity;
+  action: 'created' | 'updated' | 'deleted';
+  id: string;
+  assessmentId?: string;
+  systemId?: string;
+  controlId?: string;
+  data?: any;
+  actor: { id: string; name: string } | null;
+  at: string;
+}
+
+export interface PresenceFocus {
+  systemId: string;
+  controlId: string;
+  field?: string;
+}
+
+export interface PresenceUser {
+  clientId: string;
+  user: { id: string; name: string };
+  focus: (PresenceFocus & { since: string }) | null;
+}
+
+// The server releases a lock not refreshed within two minutes
+const FOCUS_REFRESH_MS = 60 * 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+// The server refused the stream (signed out or no access); retrying won't help
+class StreamRefusedError extends Error {}
+
+// Helper: read an event stream until it ends, calling onEvent for each event
+async function readEventStream(
+  url: string,
+  signal: AbortSignal,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  const token = localStorage.getItem('token');
+  const response = await fetch(url, {
+    headers: {
+      Accept: 'text/event-stream',
+      [CLIENT_ID_HEADER]: CLIENT_ID,
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    signal,
+  });
+  if (response.status >= 400 && response.status < 500) {
+    throw new StreamRefusedError(`Realtime stream refused (${response.status})`);
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Realtime stream failed (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+    }
+  }
+}
+
+/**
+ * Apply a change received from the channel to the cached queries
+ */
+export function applyRealtimeChange(queryClient: QueryClient, productId: string, change: RealtimeChange) {
+  switch (change.entity) {
+    case 'assessment':
+      applyAssessmentChange(queryClient, productId, change);
+      break;
+    case 'comment':
+      applyCommentChange(queryClient, change);
+      break;
+    case 'evidence':
+      applyEvidenceChange(queryClient, change);
+      break;
+    case 'task':
+      // Remediation tasks feed risk priorities, the loss-reduction ranking and POA&M milestones
+      queryClient.invalidateQueries({ queryKey: riskKeys.all });
+      queryClient.invalidateQueries({ queryKey: riskQuantKeys.all });
+      queryClient.invalidateQueries({ queryKey: poamKeys.all });
+      break;
+  }
+}
+
+/**
+ * Other people editing a control, optionally only those in one field
+ */
+export function editorsOf(presence: PresenceUser[], systemId: string | undefined, controlId: string | null | undefined, field?: string) {
+  return presence.filter(
+    (p) =>
+      p.focus &&
+      p.focus.systemId === systemId &&
+      p.focus.controlId === controlId &&
+      (field === undefined || p.focus.field === field)
+  );
+}
+
+/**
+ * Open the product's live channel while the calling component is mounted.
+ * `presence` excludes this tab; `setFocus` announces what this tab is editing.
+ */
+export function useProductChannel(
+  productId: string | undefined,
+  options?: { onChange?: (change: RealtimeChange) => void }
+) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [presence, setPresence] = useState<PresenceUser[]>([]);
+  const focusRef = useRef<PresenceFocus | null>(null);
+  const onChangeRef = useRef(options?.onChange);
+  onChangeRef.current = options?.onChange;
+
+  const sendFocus = useCallback(
+    (focus: PresenceFocus | null) => {
+      if (!productId) return;
+      api.put(`/realtime/product/${productId}/presence`, { focus }).catch(() => {
+        // Presence is best-effort; the next refresh or reconnect resends it
+      });
+    },
+    [productId]
+  );
+
+  useEffect(() => {
+    if (!productId) return;
+
+    const controller = new AbortController();
+    const url = `${api.defaults.baseURL}/realtime/product/${productId}/stream`;
+    let attempt = 0;
+    let hasConnected = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        await readEventStream(url, controller.signal, (event, data) => {
+          if (event === 'ready') {
+            attempt = 0;
+            setConnected(true);
+            if (focusRef.current) sendFocus(focusRef.current);
+            // Catch up on anything missed while disconnected
+            if (hasConnected) queryClient.invalidateQueries({ queryKey: assessmentKeys.all });
+            hasConnected = true;
+          } else if (event === 'presence') {
+            setPresence((data.users as PresenceUser[]).filter((p) => p.clientId !== CLIENT_ID));
+          } else if (event === 'change') {
+            applyRealtimeChange(queryClient, productId, data);
+            onChangeRef.current?.(data);
+          }
+        });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof StreamRefusedError) {
+          setConnected(false);
+          setPresence([]);
+          return;
+        }
+      }
+      if (controller.signal.aborted) return;
+
+      setConnected(false);
+      setPresence([]);
+      retryTimer = setTimeout(connect, Math.min(MAX_RETRY_MS, 1000 * 2 ** attempt++));
+    };
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+      setConnected(false);
+      setPresence([]);
+    };
+  }, [productId, queryClient, sendFocus]);
+
+  // Keep holding the lock while the field stays focused
+  useEffect(() => {
+    if (!connected) return;
+    const timer = setInterval(() => {
+      if (focusRef.current) sendFocus(focusRef.current);
+    }, FOCUS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [connected, sendFocus]);
+
+  const setFocus = useCallback(
+    (focus: PresenceFocus | null) => {
+      const current = focusRef.current;
+      if (
+        current === focus ||
+        (current &&
+          focus &&
+          current.systemId === focus.systemId &&
+          current.controlId === focus.controlId &&
+          current.field === focus.field)
+      ) {
+        return;
+      }
+      focusRef.current = focus;
+      if (connected) sendFocus(focus);
+    },
+    [connected, sendFocus]
+  );
+
+  return { connected, presence, setFocus };
+}
@@ -0,0 +1,160 @@
+/**
+ * useReports Hook
+ *
+ * React Query hooks for saved report configurations, their schedules and
+ * run history. Scheduled reports are executed by the server's report scheduler.
+ * System Security Plans are rendered on the server as PDF or DOCX.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  SavedReport,
+  ReportRun,
+  CreateSavedReportInput,
+  UpdateSavedReportInput,
+  SspFormat,
+} from '../types/api.types';
+
+// Query keys
+export const reportKeys = {
+  all: ['reports'] as const,
+  lists: () => [...reportKeys.all, 'list'] as const,
+  runs: (id: string) => [...reportKeys.all, 'runs', id] as const,
+};
+
+/**
+ * Fetch the current user's saved reports with next run time and latest run
+ */
+export function useSavedReports() {
+  return useQuery({
+    queryKey: reportKeys.lists(),
+    queryFn: async (): Promise<SavedReport[]> => {
+      const response = await api.get('/reports');
+      return response.data;
+    },
+    // Keep next-run times and run outcomes current while the page is open
+    refetchInterval: 60 * 1000,
+  });
+}
+
+/**
+ * Fetch run history for a saved report
+ */
+export function useReportRuns(id: string | undefined, limit = 20) {
+  return useQuery({
+    queryKey: [...reportKeys.runs(id || ''), limit],
+    queryFn: async (): Promise<ReportRun[]> => {
+      const response = await api.get(`/reports/${id}/runs`, { params: { limit } });
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Create a saved report (optionally scheduled)
+ */
+export function useCreateSavedReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateSavedReportInput): Promise<SavedReport> => {
+      const response = await api.post('/reports', data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Update a saved report's configuration or schedule
+ */
+export function useUpdateSavedReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: UpdateSavedReportInput & { id: string }): Promise<SavedReport> => {
+      const response = await api.put(`/reports/${id}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Delete a saved report and its stored output
+ */
+export function useDeleteSavedReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await api.delete(`/reports/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.all });
+    },
+  });
+}
+
+/**
+ * Run a saved report immediately
+ */
+export function useRunSavedReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<ReportRun> => {
+      const response = await api.post(`/reports/${id}/run`);
+      return response.data;
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: reportKeys.runs(id) });
+    },
+  });
+}
+
+// Helper function to download the output of a report run
+export async function downloadReportRun(reportId: string, runId: string, fileName: string): Promise<void> {
+  const response = await api.get(`/reports/${reportId}/runs/${runId}/output`, {
+    responseType: 'blob',
+  });
+
+  const url = window.URL.createObjectURL(new Blob([response.data]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
+
+// Helper function to generate and download a product's System Security Plan
+export async function downloadSystemSecurityPlan(
+  productId: string,
+  format: SspFormat,
+  fileName: string,
+  systemIds?: string[]
+): Promise<void> {
+  const response = await api.post(
+    '/reports/generate/ssp',
+    { productId, format, systemIds },
+    { responseType: 'blob' }
+  );
+
+  const url = window.URL.createObjectURL(new Blob([response.data]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,117 @@
+/**
+ * useRiskExceptions Hook
+ *
+ * React Query hooks for risk exceptions: requesting acceptance of a failing
+ * control, approving or rejecting the request, and revoking it.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { complianceKeys } from './useHierarchicalCompliance';
+import { analyticsKeys } from './useAnalytics';
+import { productKeys } from './useProducts';
+import { riskKeys } from './useRisk';
+import { RiskException, RiskExceptionInput, RiskExceptionStatus } from '../types/api.types';
+
+// Query keys
+export const riskExceptionKeys = {
+  all: ['riskExceptions'] as const,
+  assessment: (assessmentId: string) => [...riskExceptionKeys.all, 'assessment', assessmentId] as const,
+  product: (productId: string, status?: RiskExceptionStatus) =>
+    [...riskExceptionKeys.all, 'product', productId, status] as const,
+};
+
+// Accepting or lapsing a risk changes scores and risk views, so refresh those too
+function invalidateRiskViews(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: riskExceptionKeys.all });
+  queryClient.invalidateQueries({ queryKey: complianceKeys.all });
+  queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
+  queryClient.invalidateQueries({ queryKey: productKeys.all });
+  queryClient.invalidateQueries({ queryKey: riskKeys.all });
+}
+
+/**
+ * Fetch an assessment's exceptions, newest first
+ */
+export function useAssessmentRiskExceptions(assessmentId: string | undefined) {
+  return useQuery({
+    queryKey: riskExceptionKeys.assessment(assessmentId || ''),
+    queryFn: async (): Promise<RiskException[]> => {
+      const response = await api.get(`/risk-exceptions/assessment/${assessmentId}`);
+      return response.data;
+    },
+    enabled: !!assessmentId,
+  });
+}
+
+/**
+ * Fetch the exceptions across a product, optionally by status
+ */
+export function useProductRiskExceptions(productId: string | undefined, status?: RiskExceptionStatus) {
+  return useQuery({
+    queryKey: riskExceptionKeys.product(productId || '', status),
+    queryFn: async (): Promise<RiskException[]> => {
+      const response = await api.get(`/risk-exceptions/product/${productId}`, { params: { status } });
+      return response.data.exceptions;
+    },
+    enabled: !!productId,
+  });
+}
+
+/**
+ * Request an exception for a failing assessment
+ */
+export function useRequestRiskException() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      assessmentId,
+      ...data
+    }: RiskExceptionInput & { assessmentId: string }): Promise<RiskException> => {
+      const response = await api.post(`/risk-exceptions/assessment/${assessmentId}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: riskExceptionKeys.all });
+    },
+  });
+}
+
+/**
+ * Approve or reject a pending request
+ */
+export function useDecideRiskException() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      approve,
+      note,
+    }: {
+      id: string;
+      approve: boolean;
+      note?: string;
+    }): Promise<RiskException> => {
+      const response = await api.post(`/risk-exceptions/${id}/${approve ? 'approve' : 'reject'}`, { note });
+      return response.data;
+    },
+    onSuccess: () => invalidateRiskViews(queryClient),
+  });
+}
+
+/**
+ * Withdraw a pending request or revoke an approved exception
+ */
+export function useRevokeRiskException() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, note }: { id: string; note?: string }): Promise<RiskException> => {
+      const response = await api.post(`/risk-exceptions/${id}/revoke`, { note });
+      return response.data;
+    },
+    onSuccess: () => invalidateRiskViews(queryClient),
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * useRiskQuantification Hook
+ *
+ * React Query hooks for quantitative risk: loss frequency and magnitude
+ * estimates on register risks and control gaps, and the server's Monte Carlo
+ * simulation of a product's annualized loss exposure.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { LossEstimate, LossEstimateInput, LossSimulation } from '../types/api.types';
+
+// Query keys
+export const riskQuantKeys = {
+  all: ['riskQuant'] as const,
+  estimates: (productId: string) => [...riskQuantKeys.all, 'estimates', productId] as const,
+  simulation: (productId: string, iterations?: number) =>
+    [...riskQuantKeys.all, 'simulation', productId, iterations] as const,
+};
+
+/**
+ * Fetch a product's loss estimates
+ */
+export function useLossEstimates(productId: string | undefined) {
+  return useQuery({
+    queryKey: riskQuantKeys.estimates(productId || ''),
+    queryFn: async (): Promise<LossEstimate[]> => {
+      const response = await api.get(`/risk-quant/product/${productId}/estimates`);
+      return response.data;
+    },
+    enabled: !!productId,
+  });
+}
+
+/**
+ * Run the loss simulation for a product
+ */
+export function useLossSimulation(productId: string | undefined, iterations?: number) {
+  return useQuery({
+    queryKey: riskQuantKeys.simulation(productId || '', iterations),
+    queryFn: async (): Promise<LossSimulation> => {
+      const response = await api.get(`/risk-quant/product/${productId}/simulation`, { params: { iterations } });
+      return response.data;
+    },
+    enabled: !!productId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Set the loss estimate for a register risk or a control gap
+ */
+export function useSaveLossEstimate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      riskId,
+      assessmentId,
+      ...data
+    }: LossEstimateInput & { riskId?: string; assessmentId?: string }): Promise<LossEstimate> => {
+      const path = riskId ? `/risk-quant/risk/${riskId}/estimate` : `/risk-quant/assessment/${assessmentId}/estimate`;
+      const response = await api.put(path, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: riskQuantKeys.all });
+    },
+  });
+}
+
+/**
+ * Remove a loss estimate
+ */
+export function useDeleteLossEstimate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/risk-quant/estimates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: riskQuantKeys.all });
+    },
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * useRiskRegister Hook
+ *
+ * React Query hooks for a product's risk register: risk scenarios with
+ * likelihood x impact scoring, linked systems and mitigating controls, and
+ * residual scores derived from those controls' assessments.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { RegisterRisk, RegisterRiskInput, RiskRegisterStatus } from '../types/api.types';
+
+// Query keys
+export const riskRegisterKeys = {
+  all: ['riskRegister'] as const,
+  lists: () => [...riskRegisterKeys.all, 'list'] as const,
+  list: (productId: string, status?: RiskRegisterStatus) => [...riskRegisterKeys.lists(), productId, status] as const,
+  details: () => [...riskRegisterKeys.all, 'detail'] as const,
+  detail: (id: string) => [...riskRegisterKeys.details(), id] as const,
+};
+
+/**
+ * Fetch a product's risks, highest residual score first
+ */
+export function useRegisterRisks(productId: string | undefined, status?: RiskRegisterStatus) {
+  return useQuery({
+    queryKey: riskRegisterKeys.list(productId || '', status),
+    queryFn: async (): Promise<RegisterRisk[]> => {
+      const response = await api.get(`/risk-register/product/${productId}`, { params: { status } });
+      return response.data.risks;
+    },
+    enabled: !!productId,
+  });
+}
+
+/**
+ * Fetch one risk with its per-control effectiveness
+ */
+export function useRegisterRisk(id: string | undefined) {
+  return useQuery({
+    queryKey: riskRegisterKeys.detail(id || ''),
+    queryFn: async (): Promise<RegisterRisk> => {
+      const response = await api.get(`/risk-register/${id}`);
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Record a risk
+ */
+export function useCreateRegisterRisk() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productId,
+      ...data
+    }: RegisterRiskInput & { productId: string }): Promise<RegisterRisk> => {
+      const response = await api.post(`/risk-register/product/${productId}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: riskRegisterKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Update a risk; systemIds and controlIds replace its links
+ */
+export function useUpdateRegisterRisk() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: Partial<RegisterRiskInput> & { id: string }): Promise<RegisterRisk> => {
+      const response = await api.put(`/risk-register/${id}`, data);
+      return response.data;
+    },
+    onSuccess: (risk) => {
+      queryClient.invalidateQueries({ queryKey: riskRegisterKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: riskRegisterKeys.detail(risk.id) });
+    },
+  });
+}
+
+/**
+ * Delete a risk
+ */
+export function useDeleteRegisterRisk() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/risk-register/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: riskRegisterKeys.all });
+    },
+  });
+}
@@ -7,7 +7,8 @@
 
 import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import api, { getErrorMessage } from '../services/api';
-import type { System, CreateSystemInput, UpdateSystemInput } from '../types/api.types';
+import { withOfflineCache } from '../services/offlineStore';
+import type { System, CreateSystemInput, UpdateSystemInput, SystemFilters } from '../types/api.types';
 import { productKeys } from './useProducts';
 
 /**
@@ -16,25 +17,28 @@ import { productKeys } from './useProducts';
 export const systemKeys = {
   all: ['systems'] as const,
   lists: () => [...systemKeys.all, 'list'] as const,
-  list: (filters?: { productId?: string }) => [...systemKeys.lists(), filters] as const,
+  list: (filters?: SystemFilters) => [...systemKeys.lists(), filters] as const,
   details: () => [...systemKeys.all, 'detail'] as const,
   detail: (id: string) => [...systemKeys.details(), id] as const,
 };
 
 /**
- * Fetch systems, optionally filtered by product
+ * Fetch systems visible to the user (owned and team-shared),
+ * optionally filtered by product and/or team
  */
 export const useSystems = (
   productId?: string,
-  options?: Omit<UseQueryOptions<System[], Error>, 'queryKey' | 'queryFn'>
+  options?: Omit<UseQueryOptions<System[], Error>, 'queryKey' | 'queryFn'>,
+  teamId?: string
 ) => {
   return useQuery<System[], Error>({
-    queryKey: systemKeys.list({ productId }),
-    queryFn: async () => {
-      const url = productId ? `/systems?productId=${productId}` : '/systems';
-      const response = await api.get<{ systems: System[]; total: number }>(url);
+    queryKey: systemKeys.list({ productId, teamId }),
+    queryFn: withOfflineCache(async () => {
+      const response = await api.get<{ systems: System[]; total: number }>('/systems', {
+        params: { productId, teamId },
+      });
       return response.data.systems;
-    },
+    }),
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...options,
   });
@@ -49,10 +53,10 @@ export const useSystem = (
 ) => {
   return useQuery<System, Error>({
     queryKey: systemKeys.detail(id),
-    queryFn: async () => {
+    queryFn: withOfflineCache(async () => {
       const response = await api.get<System>(`/systems/${id}`);
       return response.data;
-    },
+    }),
     enabled: !!id,
     staleTime: 5 * 60 * 1000, // 5 minutes
     ...options,
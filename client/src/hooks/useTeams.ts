@@ -0,0 +1,187 @@
+/**
+ * useTeams Hook
+ *
+ * React Query hooks for managing Teams (shared workspaces) and their members.
+ * Capability centres shared with a team expose their frameworks, products and
+ * systems to every member according to their team role.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  Team,
+  TeamMember,
+  TeamRole,
+  CreateTeamInput,
+  UpdateTeamInput,
+  AddTeamMemberInput,
+} from '../types/api.types';
+
+// Query keys
+export const teamKeys = {
+  all: ['teams'] as const,
+  lists: () => [...teamKeys.all, 'list'] as const,
+  details: () => [...teamKeys.all, 'detail'] as const,
+  detail: (id: string) => [...teamKeys.details(), id] as const,
+};
+
+/**
+ * Team membership changes alter which resources are visible,
+ * so shared-data caches are refreshed alongside the team caches.
+ */
+const invalidateSharedData = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: teamKeys.all });
+  queryClient.invalidateQueries({ queryKey: ['capabilityCentres'] });
+  queryClient.invalidateQueries({ queryKey: ['frameworks'] });
+  queryClient.invalidateQueries({ queryKey: ['products'] });
+  queryClient.invalidateQueries({ queryKey: ['systems'] });
+};
+
+/**
+ * Fetch all teams the current user belongs to
+ */
+export function useTeams() {
+  return useQuery({
+    queryKey: teamKeys.lists(),
+    queryFn: async (): Promise<Team[]> => {
+      const response = await api.get<{ teams: Team[]; total: number }>('/teams');
+      return response.data.teams;
+    },
+  });
+}
+
+/**
+ * Fetch a single team with members and shared capability centres
+ */
+export function useTeam(id: string | undefined) {
+  return useQuery({
+    queryKey: teamKeys.detail(id || ''),
+    queryFn: async (): Promise<Team> => {
+      const response = await api.get(`/teams/${id}`);
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Create a new team (the creator becomes its owner)
+ */
+export function useCreateTeam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateTeamInput): Promise<Team> => {
+      const response = await api.post('/teams', data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    },
+  });
+}
+
+/**
+ * Update team details
+ */
+export function useUpdateTeam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateTeamInput }): Promise<Team> => {
+      const response = await api.put(`/teams/${id}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    },
+  });
+}
+
+/**
+ * Delete a team (shared capability centres revert to their owners)
+ */
+export function useDeleteTeam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await api.delete(`/teams/${id}`);
+    },
+    onSuccess: () => invalidateSharedData(queryClient),
+  });
+}
+
+/**
+ * Add a member to a team by email or user ID
+ */
+export function useAddTeamMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      teamId,
+      data,
+    }: {
+      teamId: string;
+      data: AddTeamMemberInput;
+    }): Promise<TeamMember> => {
+      const response = await api.post(`/teams/${teamId}/members`, data);
+      return response.data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.detail(variables.teamId) });
+      queryClient.invalidateQueries({ queryKey: teamKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Change a team member's role
+ */
+export function useUpdateTeamMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      teamId,
+      userId,
+      role,
+    }: {
+      teamId: string;
+      userId: string;
+      role: TeamRole;
+    }): Promise<TeamMember> => {
+      const response = await api.put(`/teams/${teamId}/members/${userId}`, { role });
+      return response.data;
+    },
+    onSuccess: () => invalidateSharedData(queryClient),
+  });
+}
+
+/**
+ * Remove a member from a team (or leave the team when removing yourself)
+ */
+export function useRemoveTeamMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ teamId, userId }: { teamId: string; userId: string }): Promise<void> => {
+      await api.delete(`/teams/${teamId}/members/${userId}`);
+    },
+    onSuccess: () => invalidateSharedData(queryClient),
+  });
+}
+
+const teamHooks = {
+  useTeams,
+  useTeam,
+  useCreateTeam,
+  useUpdateTeam,
+  useDeleteTeam,
+  useAddTeamMember,
+  useUpdateTeamMember,
+  useRemoveTeamMember,
+};
+
+export default teamHooks;
@@ -0,0 +1,119 @@
+/**
+ * useTrackers Hook
+ *
+ * React Query hooks for admin-managed issue tracker connections that
+ * remediation tasks are mirrored to.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  TrackerConnection,
+  TrackerConnectionInput,
+  TrackerTestResult,
+  TrackerSyncSummary,
+} from '../types/api.types';
+
+// Query keys
+export const trackerKeys = {
+  all: ['trackers'] as const,
+  lists: () => [...trackerKeys.all, 'list'] as const,
+};
+
+/**
+ * Fetch all tracker connections
+ */
+export function useTrackerConnections() {
+  return useQuery({
+    queryKey: trackerKeys.lists(),
+    queryFn: async (): Promise<TrackerConnection[]> => {
+      const response = await api.get('/trackers');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Add a tracker connection
+ */
+export function useCreateTrackerConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: TrackerConnectionInput): Promise<TrackerConnection> => {
+      const response = await api.post('/trackers', data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trackerKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Update a tracker connection
+ */
+export function useUpdateTrackerConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<TrackerConnectionInput>;
+    }): Promise<TrackerConnection> => {
+      const response = await api.put(`/trackers/${id}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trackerKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Delete a tracker connection; linked tasks keep their ticket reference
+ */
+export function useDeleteTrackerConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await api.delete(`/trackers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trackerKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Check a connection's credentials and project access
+ */
+export function useTestTrackerConnection() {
+  return useMutation({
+    mutationFn: async (id: string): Promise<TrackerTestResult> => {
+      const response = await api.post(`/trackers/${id}/test`);
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Pull changes for every task linked through a connection now
+ */
+export function useSyncTrackerConnection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<TrackerSyncSummary> => {
+      const response = await api.post(`/trackers/${id}/sync`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trackerKeys.lists() });
+    },
+  });
+}
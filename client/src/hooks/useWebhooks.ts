@@ -0,0 +1,152 @@
+/**
+ * useWebhooks Hook
+ *
+ * React Query hooks for admin-managed webhook subscriptions and their
+ * delivery logs.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import {
+  Webhook,
+  WebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../types/api.types';
+
+// Query keys
+export const webhookKeys = {
+  all: ['webhooks'] as const,
+  lists: () => [...webhookKeys.all, 'list'] as const,
+  deliveries: (id: string) => [...webhookKeys.all, 'deliveries', id] as const,
+};
+
+/**
+ * Fetch all webhooks with their latest delivery
+ */
+export function useWebhooks() {
+  return useQuery({
+    queryKey: webhookKeys.lists(),
+    queryFn: async (): Promise<Webhook[]> => {
+      const response = await api.get('/webhooks');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * Register a webhook; the response carries the full signing secret
+ */
+export function useCreateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: WebhookInput): Promise<Webhook> => {
+      const response = await api.post('/webhooks', data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Update a webhook
+ */
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<WebhookInput> }): Promise<Webhook> => {
+      const response = await api.put(`/webhooks/${id}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      await api.delete(`/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Issue a new signing secret; the response carries it in full
+ */
+export function useRotateWebhookSecret() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<Webhook> => {
+      const response = await api.post(`/webhooks/${id}/rotate-secret`);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Send a PING and return the delivery result
+ */
+export function useTestWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<WebhookDelivery> => {
+      const response = await api.post(`/webhooks/${id}/test`);
+      return response.data;
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries(id) });
+    },
+  });
+}
+
+/**
+ * Fetch a webhook's delivery log, newest first
+ */
+export function useWebhookDeliveries(id: string | undefined, status?: WebhookDeliveryStatus) {
+  return useQuery({
+    queryKey: [...webhookKeys.deliveries(id || ''), status],
+    queryFn: async (): Promise<WebhookDelivery[]> => {
+      const response = await api.get(`/webhooks/${id}/deliveries`, { params: { status } });
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Retry a delivery now
+ */
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (deliveryId: string): Promise<WebhookDelivery> => {
+      const response = await api.post(`/webhooks/deliveries/${deliveryId}/redeliver`);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries(data.webhookId) });
+    },
+  });
+}
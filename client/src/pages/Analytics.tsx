@@ -73,6 +73,7 @@ import {
   useFunctionCompliance,
   useGapAnalysis,
   useProducts,
+  useRegisterRisks,
 } from '../hooks';
 import { useOrganizationalHierarchy } from '../hooks/useCapabilityCentres';
 import type { ComplianceStatus, HierarchyCapabilityCentre, HierarchyFramework, HierarchyProduct, HierarchySystem } from '../types/api.types';
@@ -301,6 +302,10 @@ const Analytics: React.FC = () => {
     selectedProductId === 'all' ? '' : selectedProductId,
     { enabled: selectedProductId !== 'all' }
   );
+  const { data: registerRisks } = useRegisterRisks(
+    selectedProductId === 'all' ? undefined : selectedProductId,
+    'OPEN'
+  );
   const { data: products } = useProducts();
   const { data: hierarchy, isLoading: hierarchyLoading } = useOrganizationalHierarchy();
 
@@ -1160,6 +1165,8 @@ const Analytics: React.FC = () => {
               setSelectedHeatmapCell({ functionCode, categoryCode });
               setHeatmapDialogOpen(true);
             }}
+            registerRisks={selectedProductId === 'all' ? undefined : registerRisks}
+            onRiskClick={(riskId) => navigate(`/products/${selectedProductId}/risks?risk=${riskId}`)}
           />
         </Grid>
       </Grid>
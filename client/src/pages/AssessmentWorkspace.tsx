@@ -5,6 +5,7 @@
  * - Three-panel layout (control tree | form | context)
  * - Keyboard navigation (j/k, 1-4, n, s)
  * - Auto-save with debounce
+ * - Live updates and presence from others working on the product
  * - Progress tracking
  * - NIST 800-53 mappings visible
  */
@@ -17,6 +18,7 @@ import {
   Button,
   TextField,
   FormControl,
+  FormHelperText,
   InputLabel,
   Select,
   MenuItem,
@@ -65,12 +67,20 @@ import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useProduct } from '../hooks/useProducts';
 import { useSystem, useSystems } from '../hooks/useSystems';
 import {
+  ASSESSMENT_CONFLICT_FIELDS,
+  assessmentFromServer,
   useAssessments,
   useUpdateAssessment,
   useCreateAssessment,
 } from '../hooks/useAssessments';
 import { useCSFHierarchy, useCSFMappings, CSF_FUNCTION_ORDER } from '../hooks/useCSF';
+import { editorsOf, PresenceFocus, RealtimeChange, useProductChannel } from '../hooks/useRealtime';
 import { useNotification } from '../contexts/NotificationContext';
+import { useSaveStatus } from '../contexts/SaveStatusContext';
+import { getErrorMessage, getVersionConflict } from '../services/api';
+import RiskExceptionPanel from '../components/RiskExceptionPanel';
+import LossEstimateEditor from '../components/LossEstimateEditor';
+import CollaboratorPresence from '../components/CollaboratorPresence';
 import type {
   ComplianceStatus,
   RiskLevel,
@@ -362,6 +372,7 @@ const AssessmentWorkspace: React.FC = () => {
   const { productId, systemId } = useParams<{ productId: string; systemId: string }>();
   const [searchParams] = useSearchParams();
   const { showNotification } = useNotification();
+  const { startSaving, setSaved, setError, reset, resolveConflict } = useSaveStatus();
 
   // Local state
   const [selectedControlId, setSelectedControlId] = useState<string | null>(
@@ -377,12 +388,19 @@ const AssessmentWorkspace: React.FC = () => {
 
   // Refs for debounced auto-save
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const handleSaveRef = useRef<(isAutoSave?: boolean) => Promise<void>>(async () => {});
+
+  // Control and saved copy the form was last loaded from, and whether it has unsaved edits
+  const loadedControlRef = useRef<string | null>(null);
+  const baseAssessmentRef = useRef<Assessment | undefined>(undefined);
+  const isDirtyRef = useRef(false);
+  isDirtyRef.current = isDirty;
 
   // Data fetching
   const { data: product, isLoading: productLoading } = useProduct(productId || '');
   const { data: system, isLoading: systemLoading } = useSystem(systemId || '');
   const { data: siblingSystemsData = [], isLoading: siblingsLoading } = useSystems(productId, { enabled: !!productId });
-  const { data: hierarchy, isLoading: hierarchyLoading } = useCSFHierarchy();
+  const { data: hierarchy, isLoading: hierarchyLoading } = useCSFHierarchy(product?.catalogId, { enabled: !!product });
   const { data: assessments = [], isLoading: assessmentsLoading, refetch: refetchAssessments } = useAssessments(
     systemId ? { systemId } : undefined,
     { enabled: !!systemId }
@@ -506,14 +524,23 @@ const AssessmentWorkspace: React.FC = () => {
     return { total, completed, compliant, partial, nonCompliant };
   }, [baselineControlIds, assessmentMap]);
 
+  // Saved assessment for the selected control
+  const selectedAssessment = selectedControlId ? assessmentMap.get(selectedControlId) : undefined;
+
   // Get current index in control list
   const currentIndex = useMemo(() => {
     if (!selectedControlId) return -1;
     return controlList.indexOf(selectedControlId);
   }, [controlList, selectedControlId]);
 
-  // Load assessment data when control changes
+  // Load assessment data when control changes, or when a save (ours or someone
+  // else's) changes it. Someone else's save doesn't replace unsaved edits;
+  // saving them goes through conflict resolution instead.
   useEffect(() => {
+    if (isDirtyRef.current && loadedControlRef.current === selectedControlId) return;
+    loadedControlRef.current = selectedControlId;
+    baseAssessmentRef.current = selectedControlId ? assessmentMap.get(selectedControlId) : undefined;
+
     if (selectedControlId && assessmentMap.has(selectedControlId)) {
       const assessment = assessmentMap.get(selectedControlId)!;
       setStatus(assessment.status);
@@ -533,6 +560,57 @@ const AssessmentWorkspace: React.FC = () => {
     }
   }, [selectedControlId, assessmentMap]);
 
+  // Live updates, and who else is working on the product
+  const handleRemoteChange = useCallback(
+    (change: RealtimeChange) => {
+      if (
+        change.entity === 'assessment' &&
+        change.actor &&
+        change.systemId === systemId &&
+        change.controlId === selectedControlId
+      ) {
+        showNotification(
+          isDirtyRef.current
+            ? `${change.actor.name} saved ${change.controlId}; saving will ask how to merge your edits`
+            : `${change.actor.name} updated ${change.controlId}`,
+          'info'
+        );
+      }
+    },
+    [systemId, selectedControlId, showNotification]
+  );
+  const { connected, presence, setFocus } = useProductChannel(productId, { onChange: handleRemoteChange });
+
+  // Announce the selected control, and the field being edited (a soft lock)
+  const focusField = useCallback(
+    (field?: string) => {
+      if (systemId && selectedControlId) setFocus({ systemId, controlId: selectedControlId, field });
+    },
+    [systemId, selectedControlId, setFocus]
+  );
+  useEffect(() => {
+    focusField();
+  }, [focusField]);
+
+  const describeFocus = useCallback(
+    (focus: PresenceFocus) => {
+      const field = ASSESSMENT_CONFLICT_FIELDS.find((f) => f.key === focus.field);
+      const where = focus.systemId === systemId ? focus.controlId : `${focus.controlId} on another system`;
+      return field ? `${where} (${field.label})` : where;
+    },
+    [systemId]
+  );
+
+  const controlEditors = editorsOf(presence, systemId, selectedControlId);
+  const lockHint = (field: string) => {
+    const names = editorsOf(presence, systemId, selectedControlId, field).map((p) => p.user.name);
+    return names.length > 0 ? `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} editing this field` : undefined;
+  };
+  const fieldProps = (field: string) => ({
+    onFocus: () => focusField(field),
+    onBlur: () => focusField(),
+  });
+
   // Auto-select first control if none selected
   useEffect(() => {
     if (!selectedControlId && controlList.length > 0) {
@@ -549,9 +627,9 @@ const AssessmentWorkspace: React.FC = () => {
       clearTimeout(autoSaveTimerRef.current);
     }
 
-    // Set new auto-save timer (3 seconds)
+    // Set new auto-save timer (3 seconds), saving the form as it is by then
     autoSaveTimerRef.current = setTimeout(() => {
-      handleSave(true);
+      handleSaveRef.current(true);
     }, 3000);
   }, []);
 
@@ -575,24 +653,69 @@ const AssessmentWorkspace: React.FC = () => {
         autoSaveTimerRef.current = null;
       }
 
+      startSaving();
       try {
-        const existingAssessment = assessmentMap.get(selectedControlId);
+        // The copy the form was loaded from, so saves made by others since count as conflicts
+        const existingAssessment = baseAssessmentRef.current || assessmentMap.get(selectedControlId);
+        // Offline, the save is kept on this device until it can be synced
+        let saved: Assessment;
 
         if (existingAssessment) {
-          // Update existing
-          await updateAssessment.mutateAsync({
-            id: existingAssessment.id,
-            updates: {
-              status,
-              implementationNotes: notes || undefined,
-              evidence: evidence || undefined,
-              remediationPlan: remediationPlan || undefined,
-              riskLevel: riskLevel || undefined,
-            },
-          });
+          // Update existing, unless someone else has saved it since it was loaded
+          try {
+            saved = await updateAssessment.mutateAsync({
+              id: existingAssessment.id,
+              updates: {
+                status,
+                implementationNotes: notes || undefined,
+                evidence: evidence || undefined,
+                remediationPlan: remediationPlan || undefined,
+                riskLevel: riskLevel || undefined,
+              },
+              version: existingAssessment.version,
+            });
+          } catch (error) {
+            const current = getVersionConflict(error);
+            if (!current) throw error;
+
+            const theirs = assessmentFromServer(current);
+            const merged = await resolveConflict({
+              title: `${selectedControlId} was changed by someone else`,
+              base: existingAssessment,
+              mine: {
+                ...existingAssessment,
+                status,
+                implementationNotes: notes,
+                evidence,
+                remediationPlan,
+                riskLevel: riskLevel || undefined,
+              },
+              theirs,
+              fields: ASSESSMENT_CONFLICT_FIELDS,
+            });
+
+            if (!merged) {
+              showNotification('Your changes were discarded; showing the saved version', 'info');
+              setIsDirty(false);
+              reset();
+              refetchAssessments();
+              return;
+            }
+            saved = await updateAssessment.mutateAsync({
+              id: existingAssessment.id,
+              updates: {
+                status: merged.status,
+                implementationNotes: merged.implementationNotes || undefined,
+                evidence: merged.evidence || undefined,
+                remediationPlan: merged.remediationPlan || undefined,
+                riskLevel: merged.riskLevel || undefined,
+              },
+              version: theirs.version,
+            });
+          }
         } else {
           // Create new
-          await createAssessment.mutateAsync({
+          saved = await createAssessment.mutateAsync({
             productId,
             systemId,
             controlId: selectedControlId,
@@ -605,11 +728,16 @@ const AssessmentWorkspace: React.FC = () => {
         }
 
         setIsDirty(false);
+        setSaved();
         if (!isAutoSave) {
-          showNotification('Assessment saved', 'success');
+          showNotification(
+            saved.pendingSync ? 'Saved on this device; it will sync when you are back online' : 'Assessment saved',
+            saved.pendingSync ? 'info' : 'success'
+          );
         }
         refetchAssessments();
       } catch (error) {
+        setError(getErrorMessage(error));
         showNotification('Failed to save assessment', 'error');
       }
     },
@@ -627,8 +755,14 @@ const AssessmentWorkspace: React.FC = () => {
       createAssessment,
       showNotification,
       refetchAssessments,
+      startSaving,
+      setSaved,
+      setError,
+      reset,
+      resolveConflict,
     ]
   );
+  handleSaveRef.current = handleSave;
 
   // Navigate to previous control
   const goToPrevious = useCallback(() => {
@@ -851,6 +985,7 @@ const AssessmentWorkspace: React.FC = () => {
           </Box>
 
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CollaboratorPresence presence={presence} connected={connected} describeFocus={describeFocus} />
             <Tooltip title="Keyboard shortcuts (?)">
               <IconButton onClick={() => setShowKeyboardHelp((prev) => !prev)}>
                 <KeyboardIcon />
@@ -954,12 +1089,21 @@ const AssessmentWorkspace: React.FC = () => {
 
               <Divider sx={{ my: 3 }} />
 
+              {controlEditors.length > 0 && (
+                <Alert severity="info" sx={{ mb: 3 }}>
+                  {controlEditors.map((p) => p.user.name).join(', ')}{' '}
+                  {controlEditors.length === 1 ? 'is' : 'are'} also working on this control. Their saves appear here
+                  as they happen.
+                </Alert>
+              )}
+
               {/* Assessment form */}
               <Stack spacing={3}>
                 {/* Status selection */}
                 <FormControl fullWidth>
                   <InputLabel>Compliance Status</InputLabel>
                   <Select
+                    {...fieldProps('status')}
                     value={status}
                     onChange={(e) => {
                       setStatus(e.target.value as ComplianceStatus);
@@ -979,12 +1123,14 @@ const AssessmentWorkspace: React.FC = () => {
                       </MenuItem>
                     ))}
                   </Select>
+                  {lockHint('status') && <FormHelperText sx={{ color: 'warning.main' }}>{lockHint('status')}</FormHelperText>}
                 </FormControl>
 
                 {/* Risk level */}
                 <FormControl fullWidth>
                   <InputLabel>Risk Level</InputLabel>
                   <Select
+                    {...fieldProps('riskLevel')}
                     value={riskLevel}
                     onChange={(e) => {
                       setRiskLevel(e.target.value as RiskLevel | '');
@@ -1000,10 +1146,16 @@ const AssessmentWorkspace: React.FC = () => {
                     <MenuItem value="High">High</MenuItem>
                     <MenuItem value="Critical">Critical</MenuItem>
                   </Select>
+                  {lockHint('riskLevel') && (
+                    <FormHelperText sx={{ color: 'warning.main' }}>{lockHint('riskLevel')}</FormHelperText>
+                  )}
                 </FormControl>
 
                 {/* Implementation notes */}
                 <TextField
+                  {...fieldProps('implementationNotes')}
+                  helperText={lockHint('implementationNotes')}
+                  FormHelperTextProps={{ sx: { color: 'warning.main' } }}
                   label="Implementation Notes"
                   multiline
                   rows={4}
@@ -1018,6 +1170,9 @@ const AssessmentWorkspace: React.FC = () => {
 
                 {/* Evidence */}
                 <TextField
+                  {...fieldProps('evidence')}
+                  helperText={lockHint('evidence')}
+                  FormHelperTextProps={{ sx: { color: 'warning.main' } }}
                   label="Evidence"
                   multiline
                   rows={3}
@@ -1033,6 +1188,9 @@ const AssessmentWorkspace: React.FC = () => {
                 {/* Remediation plan (show if not compliant) */}
                 {(status === 'Not Implemented' || status === 'Partially Implemented') && (
                   <TextField
+                    {...fieldProps('remediationPlan')}
+                    helperText={lockHint('remediationPlan')}
+                    FormHelperTextProps={{ sx: { color: 'warning.main' } }}
                     label="Remediation Plan"
                     multiline
                     rows={4}
@@ -1047,6 +1205,17 @@ const AssessmentWorkspace: React.FC = () => {
                 )}
               </Stack>
 
+              {/* Risk exception and loss estimate (saved failing assessments only) */}
+              {selectedAssessment &&
+                (selectedAssessment.status === 'Not Implemented' ||
+                  selectedAssessment.status === 'Partially Implemented') && (
+                  <Paper variant="outlined" sx={{ p: 2, mt: 3 }}>
+                    <RiskExceptionPanel assessmentId={selectedAssessment.id} productId={productId!} />
+                    <Divider sx={{ my: 2 }} />
+                    <LossEstimateEditor assessmentId={selectedAssessment.id} productId={productId!} />
+                  </Paper>
+                )}
+
               {/* Navigation buttons */}
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 4 }}>
                 <Button
@@ -46,6 +46,7 @@ import {
   ExpandMore as CollapseIcon,
   CheckCircle as CheckCircleIcon,
   Dashboard as DashboardIcon,
+  CompareArrows as CompareIcon,
 } from '@mui/icons-material';
 import {
   PieChart,
@@ -57,9 +58,15 @@ import {
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
 import { useProducts, productKeys } from '../hooks/useProducts';
-import { useCSFFunctions, useCSFCategories, useCSFSubcategories, sortByCSFOrder, CSF_FUNCTION_ORDER } from '../hooks/useCSF';
+import { useCSFFunctions, useCSFCategories, useCSFSubcategories, sortByCSFOrder } from '../hooks/useCSF';
 import { useProductBaseline, useUpdateBaseline } from '../hooks/useBaseline';
-import api from '../services/api';
+import { useProductPermissions } from '../hooks/usePermissions';
+import { NIST_80053_CATALOG_ID } from '../hooks/useCatalogs';
+import NistBaselinePanel from '../components/NistBaselinePanel';
+import api, { getErrorMessage, getVersionConflict } from '../services/api';
+import { useSaveStatus } from '../contexts/SaveStatusContext';
+import { useNotification } from '../contexts/NotificationContext';
+import type { ProductBaseline } from '../types/api.types';
 
 // Template definitions
 interface BaselineTemplate {
@@ -90,9 +97,9 @@ const BASELINE_TEMPLATES: BaselineTemplate[] = [
     controls: [], // Would be populated with high-security control IDs
   },
   {
-    name: 'Full CSF Coverage',
-    description: 'All 185 controls',
-    controlCount: 185,
+    name: 'Full Catalog Coverage',
+    description: "Every control in the product's catalog",
+    controlCount: 0, // Size of the product's catalog
     controls: [], // Would include all control IDs
   },
 ];
@@ -126,6 +133,16 @@ const FUNCTION_COLORS: Record<string, string> = {
   RC: '#0288d1',
 };
 
+// Colors for functions of other catalogs (ISO themes, CIS controls, ...)
+const CATALOG_COLORS = ['#1976d2', '#2e7d32', '#ed6c02', '#9c27b0', '#d32f2f', '#0288d1', '#5d4037', '#455a64'];
+
+// Helper: color for a function code, stable across renders
+const functionColor = (code: string): string => {
+  if (FUNCTION_COLORS[code]) return FUNCTION_COLORS[code];
+  const hash = Array.from(code).reduce((sum, ch) => sum + ch.charCodeAt(0), 0);
+  return CATALOG_COLORS[hash % CATALOG_COLORS.length];
+};
+
 const CSFBaseline: React.FC = () => {
   // Get product ID from URL params (when navigating from product details)
   const { id: productIdFromUrl } = useParams<{ id: string }>();
@@ -148,18 +165,22 @@ const CSFBaseline: React.FC = () => {
 
   // API hooks
   const { data: products, isLoading: productsLoading } = useProducts();
-  const { data: functions, isLoading: functionsLoading } = useCSFFunctions();
-  const { data: categories, isLoading: categoriesLoading } = useCSFCategories();
-  const { data: subcategories, isLoading: subcategoriesLoading } = useCSFSubcategories();
-  const { data: baseline } = useProductBaseline(selectedProductId, {
+  // Controls come from the selected product's catalog (NIST CSF 2.0 by default)
+  const selectedProduct = products?.find((p) => p.id === selectedProductId);
+  const catalogId = selectedProduct?.catalogId;
+  const { data: functions, isLoading: functionsLoading } = useCSFFunctions(catalogId);
+  const { data: categories, isLoading: categoriesLoading } = useCSFCategories(undefined, catalogId);
+  const { data: subcategories, isLoading: subcategoriesLoading } = useCSFSubcategories(catalogId);
+  const { data: baseline, refetch: refetchBaseline } = useProductBaseline(selectedProductId, {
     enabled: !!selectedProductId,
   });
-  const updateBaseline = useUpdateBaseline({
-    onSuccess: () => {
-      setSaveSuccess(true);
-      setTimeout(() => setSaveSuccess(false), 3000);
-    },
-  });
+  const { startSaving, setSaved, setError, reset, resolveConflict } = useSaveStatus();
+  const { showNotification } = useNotification();
+  const { can, isSuccess: permissionsLoaded } = useProductPermissions(selectedProductId || undefined);
+  const canChangeBaseline = can('baseline:change');
+  // 800-53 baselines follow the impact level and are changed by tailoring only
+  const selectedByImpact = catalogId === NIST_80053_CATALOG_ID;
+  const updateBaseline = useUpdateBaseline();
 
   // Control selections state (local until saved)
   const [selections, setSelections] = useState<Map<string, ControlSelection>>(new Map());
@@ -269,7 +290,7 @@ const CSFBaseline: React.FC = () => {
 
   // Calculate statistics
   const statistics = useMemo(() => {
-    const total = subcategories?.length || 185;
+    const total = subcategories?.length || 0;
     const selected = Array.from(selections.values()).filter((s) => s.applicable).length;
     const mustHave = Array.from(selections.values()).filter(
       (s) => s.applicable && s.categoryLevel === 'MUST_HAVE'
@@ -302,16 +323,16 @@ const CSFBaseline: React.FC = () => {
     };
   }, [selections, functions, categories, subcategories]);
 
-  // Chart data - sorted in NIST CSF 2.0 order: GV → ID → PR → DE → RS → RC
+  // Chart data - in catalog order (GV → ID → PR → DE → RS → RC for NIST CSF 2.0)
   const chartData = useMemo(() => {
-    return CSF_FUNCTION_ORDER
-      .filter((code) => code in statistics.byFunction)
-      .map((code) => ({
-        name: code,
-        value: statistics.byFunction[code] || 0,
-        color: FUNCTION_COLORS[code] || '#999999',
+    return (functions || [])
+      .filter((func) => func.code in statistics.byFunction)
+      .map((func) => ({
+        name: func.code,
+        value: statistics.byFunction[func.code] || 0,
+        color: functionColor(func.code),
       }));
-  }, [statistics.byFunction]);
+  }, [functions, statistics.byFunction]);
 
   // Handlers
   const handleProductChange = (productId: string) => {
@@ -514,7 +535,7 @@ const CSFBaseline: React.FC = () => {
       'Minimum Viable Security': 'minimal-startup',
       'Standard Enterprise': 'standard-enterprise',
       'High Security': 'standard-enterprise', // Use standard for now
-      'Full CSF Coverage': 'comprehensive',
+      'Full Catalog Coverage': 'comprehensive',
     };
 
     const templateId = templateIdMap[template.name] || 'minimal-startup';
@@ -567,13 +588,67 @@ const CSFBaseline: React.FC = () => {
       .filter(([_, selection]) => selection.applicable)
       .map(([id, _]) => id);
 
-    await updateBaseline.mutateAsync({
-      productId: selectedProductId,
-      updates: {
-        controlIds: selectedControlIds,
-        description: `Baseline with ${selectedControlIds.length} controls`,
-      },
-    });
+    startSaving();
+    try {
+      try {
+        await updateBaseline.mutateAsync({
+          productId: selectedProductId,
+          updates: {
+            controlIds: selectedControlIds,
+            description: `Baseline with ${selectedControlIds.length} controls`,
+            version: baseline?.version,
+          },
+        });
+      } catch (error) {
+        const current = getVersionConflict<ProductBaseline>(error);
+        if (!current || !baseline) throw error;
+
+        // Apply this edit's additions and removals to the saved baseline
+        const loaded = new Set(baseline.controlIds);
+        const selected = new Set(selectedControlIds);
+        const mergedIds = [
+          ...current.controlIds.filter((id) => selected.has(id) || !loaded.has(id)),
+          ...selectedControlIds.filter((id) => !loaded.has(id) && !current.controlIds.includes(id)),
+        ];
+        const describe = (value: unknown) => {
+          const ids = value as string[];
+          const added = ids.filter((id) => !current.controlIds.includes(id)).length;
+          const removed = current.controlIds.filter((id) => !ids.includes(id)).length;
+          return added || removed
+            ? `${ids.length} controls: your changes applied to the saved baseline (${added} added, ${removed} removed)`
+            : `${ids.length} controls`;
+        };
+
+        const merged = await resolveConflict({
+          title: 'The baseline was changed by someone else',
+          base: baseline,
+          mine: { ...baseline, controlIds: mergedIds },
+          theirs: current,
+          fields: [{ key: 'controlIds', label: 'Controls in scope', format: describe }],
+        });
+        if (!merged) {
+          reset();
+          refetchBaseline();
+          showNotification('Your changes were discarded; showing the saved baseline', 'info');
+          return;
+        }
+        await updateBaseline.mutateAsync({
+          productId: selectedProductId,
+          updates: {
+            controlIds: merged.controlIds,
+            description: `Baseline with ${merged.controlIds.length} controls`,
+            version: current.version,
+          },
+        });
+      }
+
+      setSaved();
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+    } catch (error) {
+      setError(getErrorMessage(error));
+      showNotification('Failed to save baseline', 'error');
+    }
   };
 
   // Loading state
@@ -589,14 +664,26 @@ const CSFBaseline: React.FC = () => {
   return (
     <Box>
       {/* Header */}
-      <Box sx={{ mb: 3 }}>
-        <Typography variant="h4" component="h1" fontWeight="bold" gutterBottom>
-          CSF Baseline Configuration
-        </Typography>
-        <Typography variant="body1" color="text.secondary" gutterBottom>
-          Select which NIST CSF controls apply to your product. Use templates for quick start
-          or customize your baseline control by control.
-        </Typography>
+      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight="bold" gutterBottom>
+            CSF Baseline Configuration
+          </Typography>
+          <Typography variant="body1" color="text.secondary" gutterBottom>
+            Select which controls of the product&apos;s catalog
+            {selectedProduct?.catalog ? ` (${selectedProduct.catalog.name})` : ''} apply. Use templates
+            for quick start or customize your baseline control by control.
+          </Typography>
+        </Box>
+        {selectedProductId && (
+          <Button
+            variant="outlined"
+            startIcon={<CompareIcon />}
+            onClick={() => navigate(`/products/${selectedProductId}/profiles`)}
+          >
+            Profiles & Tiers
+          </Button>
+        )}
       </Box>
 
       {/* Success Alert */}
@@ -606,6 +693,12 @@ const CSFBaseline: React.FC = () => {
         </Alert>
       )}
 
+      {permissionsLoaded && !canChangeBaseline && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          You have read-only access to this product's baseline.
+        </Alert>
+      )}
+
       {/* Controls Row */}
       <Grid container spacing={2} sx={{ mb: 3 }}>
         <Grid item xs={12} md={3}>
@@ -624,54 +717,67 @@ const CSFBaseline: React.FC = () => {
             </Select>
           </FormControl>
         </Grid>
-        <Grid item xs={12} md={3}>
-          <Button
-            variant="outlined"
-            fullWidth
-            sx={{ height: '56px' }}
-            startIcon={<AssessmentIcon />}
-            onClick={() => setTemplateDialogOpen(true)}
-            disabled={!selectedProductId}
-          >
-            Load Template
-          </Button>
-        </Grid>
-        <Grid item xs={12} md={2}>
-          <Button
-            variant="outlined"
-            fullWidth
-            sx={{ height: '56px' }}
-            onClick={handleSelectAll}
-            disabled={!selectedProductId}
-          >
-            Select All
-          </Button>
-        </Grid>
-        <Grid item xs={12} md={2}>
-          <Button
-            variant="outlined"
-            fullWidth
-            sx={{ height: '56px' }}
-            onClick={handleDeselectAll}
-            disabled={!selectedProductId}
-          >
-            Deselect All
-          </Button>
-        </Grid>
-        <Grid item xs={12} md={2}>
-          <Button
-            variant="contained"
-            fullWidth
-            sx={{ height: '56px' }}
-            startIcon={<SaveIcon />}
-            onClick={handleSave}
-            disabled={!selectedProductId || updateBaseline.isPending}
-          >
-            {updateBaseline.isPending ? 'Saving...' : 'Save'}
-          </Button>
-        </Grid>
+        {(!selectedProductId || canChangeBaseline) && !selectedByImpact && (
+          <>
+            <Grid item xs={12} md={3}>
+              <Button
+                variant="outlined"
+                fullWidth
+                sx={{ height: '56px' }}
+                startIcon={<AssessmentIcon />}
+                onClick={() => setTemplateDialogOpen(true)}
+                disabled={!selectedProductId}
+              >
+                Load Template
+              </Button>
+            </Grid>
+            <Grid item xs={12} md={2}>
+              <Button
+                variant="outlined"
+                fullWidth
+                sx={{ height: '56px' }}
+                onClick={handleSelectAll}
+                disabled={!selectedProductId}
+              >
+                Select All
+              </Button>
+            </Grid>
+            <Grid item xs={12} md={2}>
+              <Button
+                variant="outlined"
+                fullWidth
+                sx={{ height: '56px' }}
+                onClick={handleDeselectAll}
+                disabled={!selectedProductId}
+              >
+                Deselect All
+              </Button>
+            </Grid>
+            <Grid item xs={12} md={2}>
+              <Button
+                variant="contained"
+                fullWidth
+                sx={{ height: '56px' }}
+                startIcon={<SaveIcon />}
+                onClick={handleSave}
+                disabled={!selectedProductId || updateBaseline.isPending}
+              >
+                {updateBaseline.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </Grid>
+          </>
+        )}
       </Grid>
 
+      {selectedProductId && selectedByImpact && (
+        <NistBaselinePanel
+          productId={selectedProductId}
+          controls={subcategories || []}
+          applicableIds={baseline?.controlIds || []}
+          canEdit={canChangeBaseline}
+        />
+      )}
+
       {/* Progress Indicator */}
       {selectedProductId && (
         <Card sx={{ mb: 3 }}>
@@ -810,8 +916,8 @@ const CSFBaseline: React.FC = () => {
                         <Paper
                           elevation={0}
                           sx={{
-                            bgcolor: FUNCTION_COLORS[func.code] + '15',
-                            border: `2px solid ${FUNCTION_COLORS[func.code]}`,
+                            bgcolor: functionColor(func.code) + '15',
+                            border: `2px solid ${functionColor(func.code)}`,
                             borderRadius: 2,
                           }}
                         >
@@ -846,7 +952,7 @@ const CSFBaseline: React.FC = () => {
                             <Chip
                               label={func.code}
                               sx={{
-                                bgcolor: FUNCTION_COLORS[func.code],
+                                bgcolor: functionColor(func.code),
                                 color: 'white',
                                 fontWeight: 'bold',
                                 mr: 2,
@@ -1176,10 +1282,9 @@ const CSFBaseline: React.FC = () => {
                     </PieChart>
                   </ResponsiveContainer>
                   <Box sx={{ mt: 2 }}>
-                    {/* Display functions in NIST CSF 2.0 order: GV → ID → PR → DE → RS → RC */}
-                    {CSF_FUNCTION_ORDER
-                      .filter((code) => code in statistics.byFunction)
-                      .map((code) => (
+                    {/* Display functions in catalog order (GV → ID → PR → DE → RS → RC for NIST CSF 2.0) */}
+                    {chartData
+                      .map(({ name: code, color }) => (
                         <Box
                           key={code}
                           sx={{
@@ -1195,7 +1300,7 @@ const CSFBaseline: React.FC = () => {
                                 width: 12,
                                 height: 12,
                                 borderRadius: '50%',
-                                bgcolor: FUNCTION_COLORS[code],
+                                bgcolor: color,
                                 mr: 1,
                               }}
                             />
@@ -1247,7 +1352,7 @@ const CSFBaseline: React.FC = () => {
                   secondary={template.description}
                   primaryTypographyProps={{ fontWeight: 'medium' }}
                 />
-                <Chip label={`${template.controlCount} controls`} color="primary" />
+                <Chip label={`${template.controlCount || subcategories?.length || 0} controls`} color="primary" />
               </ListItem>
             ))}
           </List>
@@ -0,0 +1,501 @@
+/**
+ * CSF Profiles Page
+ *
+ * Compares a product's Current and Target Organizational Profiles. Implementation
+ * Tiers (1-4) can be set for the whole organization, per profile, per category or
+ * per subcategory; the most specific setting wins. Gaps are shown per subcategory
+ * and rolled up by function and category.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ExpandLess as ExpandLessIcon,
+  ExpandMore as ExpandMoreIcon,
+  Tune as TuneIcon,
+} from '@mui/icons-material';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useProducts } from '../hooks/useProducts';
+import { useCSFCategories, useCSFFunctions } from '../hooks/useCSF';
+import {
+  useOrganizationTier,
+  useProductProfiles,
+  useProfileGaps,
+  useUpdateOrganizationTier,
+  useUpdateProfile,
+} from '../hooks/useProfiles';
+import { useProductPermissions } from '../hooks/usePermissions';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { ImplementationTier, ProfileType, SubcategoryGap, TierSource } from '../types/api.types';
+
+const TIERS: ImplementationTier[] = [1, 2, 3, 4];
+
+const TIER_NAMES: Record<ImplementationTier, string> = {
+  1: 'Partial',
+  2: 'Risk Informed',
+  3: 'Repeatable',
+  4: 'Adaptive',
+};
+
+const SOURCE_LABELS: Record<TierSource, string> = {
+  SUBCATEGORY: 'Set on subcategory',
+  CATEGORY: 'Inherited from category',
+  PROFILE: 'Inherited from profile',
+  ORGANIZATION: 'Inherited from organization',
+};
+
+const gapColor = (gap: number): 'default' | 'success' | 'warning' | 'error' =>
+  gap <= 0 ? (gap < 0 ? 'default' : 'success') : gap === 1 ? 'warning' : 'error';
+
+interface TierSelectProps {
+  label?: string;
+  value: ImplementationTier | null;
+  // Shown as the "inherit" option; omit to require an explicit tier
+  inheritedTier?: ImplementationTier;
+  onChange: (tier: ImplementationTier | null) => void;
+  disabled?: boolean;
+}
+
+const TierSelect: React.FC<TierSelectProps> = ({ label, value, inheritedTier, onChange, disabled }) => (
+  <FormControl size="small" fullWidth={!!label} sx={label ? undefined : { minWidth: 150 }}>
+    {label && <InputLabel>{label}</InputLabel>}
+    <Select<ImplementationTier | ''>
+      value={value ?? ''}
+      label={label}
+      displayEmpty={!label}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value === '' ? null : (Number(e.target.value) as ImplementationTier))}
+      renderValue={(selected) =>
+        selected === '' ? (inheritedTier ? `Inherit (Tier ${inheritedTier})` : '') : `Tier ${selected} · ${TIER_NAMES[selected]}`
+      }
+    >
+      {inheritedTier !== undefined && <MenuItem value="">Inherit (Tier {inheritedTier})</MenuItem>}
+      {TIERS.map((tier) => (
+        <MenuItem key={tier} value={tier}>
+          Tier {tier} · {TIER_NAMES[tier]}
+        </MenuItem>
+      ))}
+    </Select>
+  </FormControl>
+);
+
+const CSFProfiles: React.FC = () => {
+  const { id: productId = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { showNotification } = useNotification();
+
+  const { data: products = [] } = useProducts();
+  const catalogId = products.find((p) => p.id === productId)?.catalogId;
+  const { data: functions = [] } = useCSFFunctions(catalogId, { enabled: products.length > 0 });
+  const { data: categories = [] } = useCSFCategories(undefined, catalogId, { enabled: products.length > 0 });
+  const { data: orgTier } = useOrganizationTier();
+  const { data: productProfiles, isLoading: profilesLoading } = useProductProfiles(productId);
+  const { data: report, isLoading: gapsLoading } = useProfileGaps(productId);
+  const { can } = useProductPermissions(productId || undefined);
+  const updateProfile = useUpdateProfile();
+  const updateOrgTier = useUpdateOrganizationTier();
+
+  const canEdit = can('baseline:change');
+  const isAdmin = user?.role === 'ADMIN';
+
+  const [onlyGaps, setOnlyGaps] = useState(true);
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
+
+  const [currentProfile, targetProfile] = productProfiles?.profiles || [];
+
+  // Explicit entries by targetId, per profile
+  const entryTiers = useMemo(() => {
+    const toMap = (entries: { targetId: string; tier: ImplementationTier }[] = []) =>
+      new Map(entries.map((e) => [e.targetId, e.tier]));
+    return {
+      CURRENT: toMap(currentProfile?.entries),
+      TARGET: toMap(targetProfile?.entries),
+    } as Record<ProfileType, Map<string, ImplementationTier>>;
+  }, [currentProfile, targetProfile]);
+
+  const categoryNames = useMemo(() => new Map(categories.map((c) => [c.code, c.name])), [categories]);
+  const functionNames = useMemo(() => new Map(functions.map((f) => [f.code, f.name])), [functions]);
+
+  // Subcategories grouped by category, in report order
+  const rowsByCategory = useMemo(() => {
+    const groups = new Map<string, SubcategoryGap[]>();
+    for (const row of report?.subcategories || []) {
+      groups.set(row.categoryId, [...(groups.get(row.categoryId) || []), row]);
+    }
+    return groups;
+  }, [report]);
+
+  const functionChartData = useMemo(
+    () =>
+      (report?.byFunction || []).map((f) => ({
+        name: f.id,
+        Current: f.averageCurrentTier,
+        Target: f.averageTargetTier,
+      })),
+    [report]
+  );
+
+  const saveEntry = async (type: ProfileType, targetId: string, tier: ImplementationTier | null) => {
+    try {
+      await updateProfile.mutateAsync({ productId, type, data: { entries: [{ targetId, tier }] } });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const saveProfileTier = async (type: ProfileType, tier: ImplementationTier | null) => {
+    try {
+      await updateProfile.mutateAsync({ productId, type, data: { tier } });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const saveOrgTier = async (field: 'currentTier' | 'targetTier', tier: ImplementationTier | null) => {
+    if (!tier) return;
+    try {
+      await updateOrgTier.mutateAsync({ [field]: tier });
+      showNotification('Organization tier updated', 'success');
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    setExpandedCategories((prev) => {
+      const next = new Set(prev);
+      if (next.has(categoryId)) next.delete(categoryId);
+      else next.add(categoryId);
+      return next;
+    });
+  };
+
+  const visibleCategories = (report?.byCategory || []).filter((c) => !onlyGaps || c.gapCount > 0);
+  const saving = updateProfile.isPending;
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight="bold" gutterBottom>
+            CSF Profiles
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Compare where the product is today (Current Profile) with where it needs to be (Target Profile).
+          </Typography>
+        </Box>
+        {productId && (
+          <Button
+            variant="outlined"
+            startIcon={<TuneIcon />}
+            onClick={() => navigate(`/products/${productId}/baseline`)}
+          >
+            Baseline
+          </Button>
+        )}
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Product</InputLabel>
+            <Select
+              value={productId}
+              label="Product"
+              onChange={(e) => navigate(`/products/${e.target.value}/profiles`)}
+            >
+              {products.map((product) => (
+                <MenuItem key={product.id} value={product.id}>
+                  {product.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+      </Grid>
+
+      {/* Tier selection */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={4}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                Organization Tiers
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <TierSelect
+                  label="Current"
+                  value={orgTier?.currentTier ?? null}
+                  onChange={(tier) => saveOrgTier('currentTier', tier)}
+                  disabled={!isAdmin || updateOrgTier.isPending}
+                />
+                <TierSelect
+                  label="Target"
+                  value={orgTier?.targetTier ?? null}
+                  onChange={(tier) => saveOrgTier('targetTier', tier)}
+                  disabled={!isAdmin || updateOrgTier.isPending}
+                />
+              </Box>
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                Default for every product profile. {!isAdmin && 'Only admins can change it.'}
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+        {(['CURRENT', 'TARGET'] as ProfileType[]).map((type) => {
+          const profile = type === 'CURRENT' ? currentProfile : targetProfile;
+          const inherited = type === 'CURRENT' ? orgTier?.currentTier : orgTier?.targetTier;
+          return (
+            <Grid item xs={12} md={4} key={type}>
+              <Card sx={{ height: '100%' }}>
+                <CardContent>
+                  <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                    {type === 'CURRENT' ? 'Current Profile' : 'Target Profile'}
+                  </Typography>
+                  <TierSelect
+                    label="Product tier"
+                    value={profile?.tier ?? null}
+                    inheritedTier={inherited}
+                    onChange={(tier) => saveProfileTier(type, tier)}
+                    disabled={!productId || !canEdit || saving}
+                  />
+                  <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                    {profile?.entries.length || 0} category/subcategory override(s)
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          );
+        })}
+      </Grid>
+
+      {!productId ? (
+        <Alert severity="info">Select a product to compare its profiles.</Alert>
+      ) : profilesLoading || gapsLoading || !report ? (
+        <LinearProgress />
+      ) : (
+        <>
+          {report.scope === 'FULL_CSF' && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              This product has no baseline, so every CSF subcategory is compared. Configure the baseline to limit
+              the comparison to applicable controls.
+            </Alert>
+          )}
+
+          {/* Summary */}
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {[
+              { label: 'Subcategories compared', value: report.summary.subcategoryCount },
+              { label: 'With a gap', value: report.summary.gapCount, color: report.summary.gapCount ? 'error.main' : 'success.main' },
+              { label: 'Average current tier', value: report.summary.averageCurrentTier.toFixed(2) },
+              { label: 'Average target tier', value: report.summary.averageTargetTier.toFixed(2) },
+            ].map((stat) => (
+              <Grid item xs={6} md={3} key={stat.label}>
+                <Paper sx={{ p: 2, textAlign: 'center' }}>
+                  <Typography variant="h4" fontWeight="bold" color={stat.color}>
+                    {stat.value}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {stat.label}
+                  </Typography>
+                </Paper>
+              </Grid>
+            ))}
+          </Grid>
+
+          {/* By function */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Average Tier by Function
+              </Typography>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={functionChartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis domain={[0, 4]} ticks={[1, 2, 3, 4]} />
+                  <RechartsTooltip
+                    labelFormatter={(code) => `${code} · ${functionNames.get(String(code)) || ''}`}
+                  />
+                  <Legend />
+                  <Bar dataKey="Current" fill="#90a4ae" />
+                  <Bar dataKey="Target" fill="#1976d2" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Category / subcategory comparison */}
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="h6">Profile Comparison</Typography>
+                <FormControlLabel
+                  control={<Switch checked={onlyGaps} onChange={(e) => setOnlyGaps(e.target.checked)} />}
+                  label="Only show gaps"
+                />
+              </Box>
+
+              {visibleCategories.length === 0 ? (
+                <Alert severity="success">The Current Profile meets the Target Profile everywhere.</Alert>
+              ) : (
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell width={40} />
+                        <TableCell>Category / Subcategory</TableCell>
+                        <TableCell>Current</TableCell>
+                        <TableCell>Target</TableCell>
+                        <TableCell align="center">Gap</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {visibleCategories.map((category) => {
+                        const expanded = expandedCategories.has(category.id);
+                        const rows = (rowsByCategory.get(category.id) || []).filter((r) => !onlyGaps || r.gap > 0);
+                        return (
+                          <React.Fragment key={category.id}>
+                            <TableRow hover sx={{ bgcolor: 'action.hover' }}>
+                              <TableCell>
+                                <IconButton size="small" onClick={() => toggleCategory(category.id)}>
+                                  {expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                                </IconButton>
+                              </TableCell>
+                              <TableCell>
+                                <Typography variant="body2" fontWeight={600}>
+                                  {category.id} · {categoryNames.get(category.id) || ''}
+                                </Typography>
+                                <Typography variant="caption" color="text.secondary">
+                                  {category.gapCount} of {category.subcategoryCount} below target · avg{' '}
+                                  {category.averageCurrentTier.toFixed(1)} → {category.averageTargetTier.toFixed(1)}
+                                </Typography>
+                              </TableCell>
+                              {(['CURRENT', 'TARGET'] as ProfileType[]).map((type) => (
+                                <TableCell key={type}>
+                                  <TierSelect
+                                    value={entryTiers[type].get(category.id) ?? null}
+                                    inheritedTier={type === 'CURRENT' ? report.profileTiers.current : report.profileTiers.target}
+                                    onChange={(tier) => saveEntry(type, category.id, tier)}
+                                    disabled={!canEdit || saving}
+                                  />
+                                </TableCell>
+                              ))}
+                              <TableCell align="center">
+                                <Chip
+                                  size="small"
+                                  label={category.totalGap > 0 ? `+${category.totalGap}` : '0'}
+                                  color={category.gapCount > 0 ? 'warning' : 'success'}
+                                />
+                              </TableCell>
+                            </TableRow>
+                            <TableRow>
+                              <TableCell colSpan={5} sx={{ p: 0, border: expanded ? undefined : 0 }}>
+                                <Collapse in={expanded} unmountOnExit>
+                                  <Table size="small">
+                                    <TableBody>
+                                      {rows.map((row) => (
+                                        <TableRow key={row.subcategoryId}>
+                                          <TableCell width={40} />
+                                          <TableCell>
+                                            <Typography variant="body2" fontWeight={500}>
+                                              {row.subcategoryId}
+                                              {row.categoryLevel === 'MUST_HAVE' && (
+                                                <Chip size="small" label="Must have" sx={{ ml: 1 }} />
+                                              )}
+                                            </Typography>
+                                            <Typography variant="caption" color="text.secondary">
+                                              {row.title}
+                                            </Typography>
+                                          </TableCell>
+                                          {(['CURRENT', 'TARGET'] as ProfileType[]).map((type) => {
+                                            const source = type === 'CURRENT' ? row.currentSource : row.targetSource;
+                                            // What the subcategory falls back to without its own tier
+                                            const inherited =
+                                              entryTiers[type].get(row.categoryId) ??
+                                              (type === 'CURRENT' ? report.profileTiers.current : report.profileTiers.target);
+                                            return (
+                                              <TableCell key={type}>
+                                                <Tooltip title={SOURCE_LABELS[source]}>
+                                                  <span>
+                                                    <TierSelect
+                                                      value={entryTiers[type].get(row.subcategoryId) ?? null}
+                                                      inheritedTier={inherited}
+                                                      onChange={(tier) => saveEntry(type, row.subcategoryId, tier)}
+                                                      disabled={!canEdit || saving}
+                                                    />
+                                                  </span>
+                                                </Tooltip>
+                                              </TableCell>
+                                            );
+                                          })}
+                                          <TableCell align="center">
+                                            <Chip
+                                              size="small"
+                                              label={row.gap > 0 ? `+${row.gap}` : row.gap}
+                                              color={gapColor(row.gap)}
+                                            />
+                                          </TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </Collapse>
+                              </TableCell>
+                            </TableRow>
+                          </React.Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default CSFProfiles;
@@ -0,0 +1,415 @@
+/**
+ * Crosswalk Projection Page
+ *
+ * Shows how a product's assessments against its own control catalog carry over
+ * to another catalog through crosswalk mappings: the inferred status of every
+ * target control, how confident the mapping is, the evidence behind it, and
+ * which controls still need their own assessment.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  LinearProgress,
+  Link,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Assessment as AssessmentIcon, CheckCircle as CheckCircleIcon } from '@mui/icons-material';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useProducts } from '../hooks/useProducts';
+import { useControlCatalogs } from '../hooks/useCatalogs';
+import { useCrosswalkProjection } from '../hooks/useCrosswalk';
+import { downloadEvidence } from '../hooks/useEvidence';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type { ComplianceStatus, CrosswalkGap, MappingConfidence } from '../types/api.types';
+
+// Status configuration
+const COMPLIANCE_STATUSES: { value: ComplianceStatus; label: string; color: string }[] = [
+  { value: 'Implemented', label: 'Compliant', color: '#4caf50' },
+  { value: 'Partially Implemented', label: 'Partially Compliant', color: '#ff9800' },
+  { value: 'Not Implemented', label: 'Non-Compliant', color: '#f44336' },
+  { value: 'Not Assessed', label: 'Not Assessed', color: '#9e9e9e' },
+  { value: 'Not Applicable', label: 'Not Applicable', color: '#757575' },
+];
+
+const GAP_LABELS: Record<CrosswalkGap, string> = {
+  UNMAPPED: 'No mapping',
+  NOT_ASSESSED: 'Sources not assessed',
+  NON_COMPLIANT: 'Sources non-compliant',
+  PARTIALLY_COMPLIANT: 'Partially met',
+  LOW_CONFIDENCE: 'Low mapping confidence',
+};
+
+const CONFIDENCE_COLORS: Record<MappingConfidence, 'success' | 'warning' | 'error'> = {
+  HIGH: 'success',
+  MEDIUM: 'warning',
+  LOW: 'error',
+};
+
+const CrosswalkProjection: React.FC = () => {
+  const { id: productId = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showNotification } = useNotification();
+
+  const { data: products = [] } = useProducts();
+  const { data: catalogs = [] } = useControlCatalogs();
+  const product = products.find((p) => p.id === productId);
+
+  const targetCatalogs = catalogs.filter((c) => c.id !== product?.catalogId);
+  const [selectedCatalogId, setSelectedCatalogId] = useState('');
+  const targetCatalogId = selectedCatalogId || targetCatalogs[0]?.id || '';
+
+  const { data: projection, isLoading, error } = useCrosswalkProjection(productId, product ? targetCatalogId : '');
+
+  const [onlyGaps, setOnlyGaps] = useState(false);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const sourceCatalog = catalogs.find((c) => c.id === product?.catalogId);
+  const targetCatalog = catalogs.find((c) => c.id === targetCatalogId);
+
+  const rows = useMemo(
+    () => (projection?.controls || []).filter((c) => !onlyGaps || c.gap !== null),
+    [projection, onlyGaps]
+  );
+
+  const handleDownload = async (evidenceId: string, fileName: string) => {
+    try {
+      await downloadEvidence(evidenceId, fileName);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const gapCount = Object.values(projection?.summary.byGap || {}).reduce((sum, n) => sum + (n || 0), 0);
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight="bold" gutterBottom>
+            Crosswalk
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Results assessed against {sourceCatalog?.name || "the product's catalog"}, projected onto another catalog
+            through control mappings.
+          </Typography>
+        </Box>
+        {productId && (
+          <Button
+            variant="outlined"
+            startIcon={<AssessmentIcon />}
+            onClick={() => navigate(`/products/${productId}/assessments`)}
+          >
+            Assessments
+          </Button>
+        )}
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Product</InputLabel>
+            <Select
+              value={product ? productId : ''}
+              label="Product"
+              onChange={(e) => {
+                setSelectedCatalogId('');
+                setPage(0);
+                navigate(`/products/${e.target.value}/crosswalk`);
+              }}
+            >
+              {products.map((p) => (
+                <MenuItem key={p.id} value={p.id}>
+                  {p.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <FormControl fullWidth>
+            <InputLabel>Target catalog</InputLabel>
+            <Select
+              value={targetCatalogs.some((c) => c.id === targetCatalogId) ? targetCatalogId : ''}
+              label="Target catalog"
+              onChange={(e) => {
+                setSelectedCatalogId(e.target.value);
+                setPage(0);
+              }}
+            >
+              {targetCatalogs.map((catalog) => (
+                <MenuItem key={catalog.id} value={catalog.id}>
+                  {catalog.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+      </Grid>
+
+      {!product ? (
+        <Alert severity="info">Select a product to project its assessments.</Alert>
+      ) : error ? (
+        <Alert severity="error">{getErrorMessage(error)}</Alert>
+      ) : isLoading || !projection ? (
+        <LinearProgress />
+      ) : (
+        <>
+          {projection.summary.mappedControls === 0 && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              No crosswalk maps {sourceCatalog?.name} to {targetCatalog?.name}. Add one under the server's
+              data/crosswalks directory and reload catalogs.
+            </Alert>
+          )}
+
+          {/* Summary */}
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {[
+              {
+                label: 'Controls mapped',
+                value: `${projection.summary.mappedControls} / ${projection.summary.totalControls}`,
+              },
+              {
+                label: 'Satisfied via mapping',
+                value: projection.summary.satisfiedViaMapping,
+                color: projection.summary.satisfiedViaMapping ? 'success.main' : undefined,
+              },
+              {
+                label: 'Average confidence',
+                value: `${Math.round(projection.summary.averageConfidence * 100)}%`,
+              },
+              {
+                label: 'Gaps',
+                value: gapCount,
+                color: gapCount ? 'error.main' : 'success.main',
+              },
+            ].map((stat) => (
+              <Grid item xs={6} md={3} key={stat.label}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      {stat.label}
+                    </Typography>
+                    <Typography variant="h4" fontWeight="bold" color={stat.color}>
+                      {stat.value}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          {/* Coverage by function */}
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Coverage by {targetCatalog?.levels.function || 'Function'}
+            </Typography>
+            <Grid container spacing={2}>
+              {projection.summary.byFunction.map((fn) => (
+                <Grid item xs={12} sm={6} md={4} key={fn.functionId}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                    <Typography variant="body2" noWrap title={fn.name}>
+                      {fn.functionId} · {fn.name}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ flexShrink: 0, ml: 1 }}>
+                      {fn.satisfied} / {fn.total}
+                    </Typography>
+                  </Box>
+                  <LinearProgress
+                    variant="buffer"
+                    value={fn.total ? (fn.satisfied / fn.total) * 100 : 0}
+                    valueBuffer={fn.total ? (fn.mapped / fn.total) * 100 : 0}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+              Solid: satisfied via mapping. Light: mapped from {sourceCatalog?.name}.
+            </Typography>
+          </Paper>
+
+          {/* Controls */}
+          <Paper>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', p: 2 }}>
+              <Typography variant="h6">{targetCatalog?.levels.control || 'Control'}s</Typography>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={onlyGaps}
+                    onChange={(e) => {
+                      setOnlyGaps(e.target.checked);
+                      setPage(0);
+                    }}
+                  />
+                }
+                label="Only gaps"
+              />
+            </Box>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Control</TableCell>
+                    <TableCell>Inferred status</TableCell>
+                    <TableCell>Confidence</TableCell>
+                    <TableCell>Mapped from</TableCell>
+                    <TableCell>Evidence</TableCell>
+                    <TableCell>Gap</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage).map((control) => {
+                    const status = COMPLIANCE_STATUSES.find((s) => s.value === control.status);
+                    return (
+                      <TableRow key={control.controlId} hover>
+                        <TableCell sx={{ maxWidth: 280 }}>
+                          <Typography variant="body2" fontWeight="medium">
+                            {control.controlId}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {control.title}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>
+                          <Tooltip
+                            title={projection.systems
+                              .map((s) => {
+                                const result = control.systems[s.id];
+                                return `${s.name}: ${result?.status || 'Not Assessed'} (${Math.round((result?.coverage || 0) * 100)}% assessed)`;
+                              })
+                              .join(' · ')}
+                          >
+                            <Chip
+                              size="small"
+                              label={status?.label || control.status}
+                              sx={{ bgcolor: status?.color, color: '#fff' }}
+                            />
+                          </Tooltip>
+                          {control.satisfiedViaMapping && (
+                            <Chip
+                              size="small"
+                              icon={<CheckCircleIcon />}
+                              label="Satisfied via mapping"
+                              color="success"
+                              variant="outlined"
+                              sx={{ ml: 1, mt: 0.5 }}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {control.confidenceLevel ? (
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              color={CONFIDENCE_COLORS[control.confidenceLevel]}
+                              label={`${control.confidenceLevel} · ${Math.round(control.confidence * 100)}%`}
+                            />
+                          ) : (
+                            '—'
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                            {control.mappings.map((m) => (
+                              <Tooltip
+                                key={m.sourceControlId}
+                                title={`${m.sourceTitle} · ${m.relationship.replace('_', ' ').toLowerCase()}${m.via ? ` via ${m.via}` : ''}`}
+                              >
+                                <Chip
+                                  size="small"
+                                  label={m.via ? `${m.sourceControlId} → ${m.via}` : m.sourceControlId}
+                                  variant={m.via ? 'outlined' : 'filled'}
+                                />
+                              </Tooltip>
+                            ))}
+                          </Box>
+                        </TableCell>
+                        <TableCell>
+                          {control.evidence.length === 0
+                            ? '—'
+                            : control.evidence.map((file) => (
+                                <Box key={`${file.id}-${file.assessmentId}`}>
+                                  <Link
+                                    component="button"
+                                    variant="caption"
+                                    color={file.isExpired ? 'error' : 'primary'}
+                                    onClick={() => handleDownload(file.id, file.originalName)}
+                                  >
+                                    {file.originalName}
+                                  </Link>
+                                  <Typography variant="caption" color="text.secondary">
+                                    {' '}
+                                    ({file.sourceControlId}
+                                    {file.isExpired && ', expired'})
+                                  </Typography>
+                                </Box>
+                              ))}
+                        </TableCell>
+                        <TableCell>
+                          {control.gap && (
+                            <Chip
+                              size="small"
+                              label={GAP_LABELS[control.gap]}
+                              color={control.gap === 'UNMAPPED' || control.gap === 'NOT_ASSESSED' ? 'default' : 'warning'}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                          No gaps: every control is satisfied via mapping.
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={rows.length}
+              page={page}
+              onPageChange={(_, p) => setPage(p)}
+              rowsPerPage={rowsPerPage}
+              onRowsPerPageChange={(e) => {
+                setRowsPerPage(parseInt(e.target.value, 10));
+                setPage(0);
+              }}
+              rowsPerPageOptions={[25, 50, 100]}
+            />
+          </Paper>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default CrosswalkProjection;
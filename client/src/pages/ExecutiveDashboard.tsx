@@ -3,8 +3,9 @@
  *
  * High-level view for security leadership with:
  * - Key Performance Indicators (KPIs)
- * - Compliance trend charts
+ * - Compliance trend charts (from daily compliance snapshots)
  * - Risk summary across all products
+ * - Monte Carlo annualized loss exposure per product
  * - Exportable executive summary
  */
 
@@ -63,11 +64,12 @@ import {
   Bar,
   Legend,
 } from 'recharts';
-import { format, subDays } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 
 import { useProducts } from '../hooks/useProducts';
-import { useAnalyticsOverview } from '../hooks/useAnalytics';
+import { useAnalyticsOverview, useComplianceTrends } from '../hooks/useAnalytics';
+import LossExposurePanel from '../components/LossExposurePanel';
 
 // Colors
 const RISK_COLORS = {
@@ -348,6 +350,7 @@ const ExecutiveDashboard: React.FC = () => {
   // Fetch data
   const { data: products, isLoading: productsLoading } = useProducts();
   const { data: overview, isLoading: overviewLoading } = useAnalyticsOverview();
+  const { data: trends, isLoading: trendsLoading } = useComplianceTrends(parseInt(timeRange));
 
   // Navigation handlers
   const handleProductClick = (productId: string) => {
@@ -371,7 +374,7 @@ const ExecutiveDashboard: React.FC = () => {
     navigate('/command-center');
   };
 
-  const isLoading = productsLoading || overviewLoading;
+  const isLoading = productsLoading || overviewLoading || trendsLoading;
 
   // Calculate aggregate metrics
   const metrics = useMemo(() => {
@@ -386,6 +389,7 @@ const ExecutiveDashboard: React.FC = () => {
         complianceByFunction: [],
         riskDistribution: [],
         trendData: [],
+        complianceChange: 0,
       };
     }
 
@@ -405,28 +409,26 @@ const ExecutiveDashboard: React.FC = () => {
       { name: 'Low', value: 45, color: RISK_COLORS.Low }, // Mock - not in current API
     ];
 
-    // Compliance by function
+    // Compliance by function, from the most recent snapshot
+    const latestFunctions = trends?.[trends.length - 1]?.functions || {};
     const complianceByFunction = [
-      { name: 'Govern', code: 'GV', compliance: 78, color: FUNCTION_COLORS.GV },
-      { name: 'Identify', code: 'ID', compliance: 82, color: FUNCTION_COLORS.ID },
-      { name: 'Protect', code: 'PR', compliance: 65, color: FUNCTION_COLORS.PR },
-      { name: 'Detect', code: 'DE', compliance: 71, color: FUNCTION_COLORS.DE },
-      { name: 'Respond', code: 'RS', compliance: 68, color: FUNCTION_COLORS.RS },
-      { name: 'Recover', code: 'RC', compliance: 74, color: FUNCTION_COLORS.RC },
-    ];
-
-    // Generate trend data
-    const days = parseInt(timeRange);
-    const trendData = Array.from({ length: days }, (_, i) => {
-      const date = subDays(new Date(), days - 1 - i);
-      const baseCompliance = avgCompliance - 5 + Math.random() * 10;
-      const baseRisk = 100 - avgCompliance + 5 - Math.random() * 10;
-      return {
-        date: format(date, 'MMM d'),
-        compliance: Math.round(Math.min(100, Math.max(0, baseCompliance + i * 0.2))),
-        risk: Math.round(Math.min(100, Math.max(0, baseRisk - i * 0.15))),
-      };
-    });
+      { name: 'Govern', code: 'GV' },
+      { name: 'Identify', code: 'ID' },
+      { name: 'Protect', code: 'PR' },
+      { name: 'Detect', code: 'DE' },
+      { name: 'Respond', code: 'RS' },
+      { name: 'Recover', code: 'RC' },
+    ].map((fn) => ({ ...fn, compliance: latestFunctions[fn.code] || 0, color: FUNCTION_COLORS[fn.code] }));
+
+    // Trend data from daily snapshots
+    const trendData = (trends || []).map((t) => ({
+      date: format(parseISO(t.date), 'MMM d'),
+      compliance: t.complianceScore,
+      risk: t.riskScore,
+    }));
+    const complianceChange = trendData.length > 1
+      ? trendData[trendData.length - 1].compliance - trendData[0].compliance
+      : 0;
 
     return {
       totalProducts,
@@ -438,8 +440,9 @@ const ExecutiveDashboard: React.FC = () => {
       complianceByFunction,
       riskDistribution,
       trendData,
+      complianceChange,
     };
-  }, [products, overview, timeRange]);
+  }, [products, overview, trends]);
 
   // Export handler
   const handleExport = () => {
@@ -517,8 +520,8 @@ const ExecutiveDashboard: React.FC = () => {
               <KPICard
                 title="Overall Compliance"
                 value={`${Math.round(metrics.avgCompliance)}%`}
-                trend="up"
-                trendValue="+3.2%"
+                trend={metrics.complianceChange > 0 ? 'up' : metrics.complianceChange < 0 ? 'down' : 'flat'}
+                trendValue={`${metrics.complianceChange > 0 ? '+' : ''}${metrics.complianceChange}%`}
                 trendPositive={true}
                 icon={<ShieldIcon />}
                 color={theme.palette.success.main}
@@ -589,6 +592,11 @@ const ExecutiveDashboard: React.FC = () => {
               <Typography variant="h6" fontWeight="bold" sx={{ mb: 2 }}>
                 Compliance & Risk Trend
               </Typography>
+              {metrics.trendData.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  No compliance snapshots have been recorded for this period yet.
+                </Typography>
+              )}
               <ResponsiveContainer width="100%" height={300}>
                 <AreaChart data={metrics.trendData}>
                   <defs>
@@ -738,6 +746,11 @@ const ExecutiveDashboard: React.FC = () => {
           </Card>
         </Grid>
 
+        {/* Quantified Loss Exposure */}
+        <Grid item xs={12}>
+          <LossExposurePanel products={products || []} />
+        </Grid>
+
         {/* Quick Stats Footer */}
         <Grid item xs={12}>
           <Paper variant="outlined" sx={{ p: 2 }}>
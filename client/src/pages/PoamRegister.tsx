@@ -0,0 +1,725 @@
+/**
+ * POA&M Register Page
+ *
+ * A product's Plan of Action and Milestones: one item per weakness found by an
+ * assessment, with its risk, schedule, milestones (mirrored from remediation
+ * tasks or added by hand), deviations and status history. The register exports
+ * as a FedRAMP POA&M workbook.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Assessment as AssessmentIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Link as LinkIcon,
+  Sync as SyncIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useProducts } from '../hooks/useProducts';
+import {
+  downloadPoamWorkbook,
+  useAddPoamMilestone,
+  useDeletePoamMilestone,
+  usePoamItem,
+  usePoamItems,
+  useSyncPoam,
+  useUpdatePoamItem,
+  useUpdatePoamMilestone,
+} from '../hooks/usePoam';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type {
+  PoamDeviationType,
+  PoamItem,
+  PoamMilestoneStatus,
+  PoamRiskRating,
+  PoamStatus,
+  PoamWeaknessSource,
+} from '../types/api.types';
+
+// Status configuration
+type ChipColor = 'default' | 'info' | 'warning' | 'success' | 'secondary';
+
+const POAM_STATUSES: { value: PoamStatus; label: string; color: ChipColor }[] = [
+  { value: 'OPEN', label: 'Open', color: 'default' },
+  { value: 'IN_PROGRESS', label: 'In Progress', color: 'info' },
+  { value: 'DELAYED', label: 'Delayed', color: 'warning' },
+  { value: 'RISK_ACCEPTED', label: 'Risk Accepted', color: 'secondary' },
+  { value: 'CLOSED', label: 'Closed', color: 'success' },
+];
+
+const RISK_COLORS: Record<PoamRiskRating, string> = {
+  CRITICAL: '#b71c1c',
+  HIGH: '#f44336',
+  MODERATE: '#ff9800',
+  LOW: '#4caf50',
+};
+
+const WEAKNESS_SOURCES: { value: PoamWeaknessSource; label: string }[] = [
+  { value: 'SECURITY_ASSESSMENT', label: 'Security assessment' },
+  { value: 'CONTINUOUS_MONITORING', label: 'Continuous monitoring' },
+  { value: 'VULNERABILITY_SCAN', label: 'Vulnerability scan' },
+  { value: 'PENETRATION_TEST', label: 'Penetration test' },
+  { value: 'AUDIT', label: 'Audit' },
+  { value: 'INCIDENT', label: 'Incident' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const DEVIATION_TYPES: { value: PoamDeviationType; label: string }[] = [
+  { value: 'RISK_ACCEPTANCE', label: 'Risk acceptance' },
+  { value: 'FALSE_POSITIVE', label: 'False positive' },
+  { value: 'OPERATIONAL_REQUIREMENT', label: 'Operational requirement' },
+];
+
+const MILESTONE_STATUSES: PoamMilestoneStatus[] = ['PENDING', 'COMPLETED', 'CANCELLED'];
+
+// Helper: ISO date to a date input value and back
+const toInputDate = (value?: string | null) => (value ? value.slice(0, 10) : '');
+const fromInputDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const statusChip = (status: PoamStatus) => {
+  const config = POAM_STATUSES.find((s) => s.value === status);
+  return <Chip size="small" label={config?.label || status} color={config?.color} />;
+};
+
+const PoamRegister: React.FC = () => {
+  const { id: productId = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showNotification } = useNotification();
+
+  const { data: products = [] } = useProducts();
+  const product = products.find((p) => p.id === productId);
+
+  const [statusFilter, setStatusFilter] = useState<PoamStatus | ''>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const {
+    data: items = [],
+    isLoading,
+    error,
+  } = usePoamItems(product ? productId : undefined, statusFilter || undefined);
+  const syncPoam = useSyncPoam();
+
+  const handleSync = async () => {
+    try {
+      const result = await syncPoam.mutateAsync(productId);
+      showNotification(
+        `Opened ${result.opened}, closed ${result.closed}, ${result.milestonesAdded} milestone(s) added`,
+        'success'
+      );
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!product) return;
+    setExporting(true);
+    try {
+      await downloadPoamWorkbook(productId, `poam-${product.name.replace(/[^a-z0-9]/gi, '-')}.xlsx`);
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight="bold" gutterBottom>
+            POA&amp;M
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Weaknesses found by assessments, with the plan and milestones to correct them.
+          </Typography>
+        </Box>
+        {productId && (
+          <Button
+            variant="outlined"
+            startIcon={<AssessmentIcon />}
+            onClick={() => navigate(`/products/${productId}/assessments`)}
+          >
+            Assessments
+          </Button>
+        )}
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }} alignItems="center">
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Product</InputLabel>
+            <Select
+              value={product ? productId : ''}
+              label="Product"
+              onChange={(e) => navigate(`/products/${e.target.value}/poam`)}
+            >
+              {products.map((p) => (
+                <MenuItem key={p.id} value={p.id}>
+                  {p.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={statusFilter}
+              label="Status"
+              onChange={(e) => setStatusFilter(e.target.value as PoamStatus | '')}
+            >
+              <MenuItem value="">All</MenuItem>
+              {POAM_STATUSES.map((s) => (
+                <MenuItem key={s.value} value={s.value}>
+                  {s.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={6} sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<SyncIcon />}
+            onClick={handleSync}
+            disabled={!product || syncPoam.isPending}
+          >
+            Sync from Assessments
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<DownloadIcon />}
+            onClick={handleExport}
+            disabled={!product || exporting}
+          >
+            Export FedRAMP (.xlsx)
+          </Button>
+        </Grid>
+      </Grid>
+
+      {!product ? (
+        <Alert severity="info">Select a product to view its POA&amp;M.</Alert>
+      ) : error ? (
+        <Alert severity="error">{getErrorMessage(error)}</Alert>
+      ) : isLoading ? (
+        <LinearProgress />
+      ) : (
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>POA&amp;M ID</TableCell>
+                  <TableCell>Control</TableCell>
+                  <TableCell>System</TableCell>
+                  <TableCell>Weakness</TableCell>
+                  <TableCell>Risk</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Scheduled completion</TableCell>
+                  <TableCell>Milestones</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.map((item) => {
+                  const done = item.milestones.filter((m) => m.status !== 'PENDING').length;
+                  const overdue =
+                    item.status !== 'CLOSED' &&
+                    !!item.scheduledCompletionDate &&
+                    new Date(item.scheduledCompletionDate) < new Date();
+                  return (
+                    <TableRow key={item.id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelectedId(item.id)}>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight="medium">
+                          {item.poamId}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{item.controlId}</TableCell>
+                      <TableCell>{item.systemName}</TableCell>
+                      <TableCell sx={{ maxWidth: 320 }}>
+                        <Typography variant="body2" noWrap title={item.weakness}>
+                          {item.weakness}
+                        </Typography>
+                        {item.deviationType && (
+                          <Typography variant="caption" color="text.secondary">
+                            Deviation: {DEVIATION_TYPES.find((d) => d.value === item.deviationType)?.label}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={item.riskRating}
+                          sx={{ bgcolor: RISK_COLORS[item.riskRating], color: '#fff' }}
+                        />
+                      </TableCell>
+                      <TableCell>{statusChip(item.status)}</TableCell>
+                      <TableCell>
+                        {item.scheduledCompletionDate ? (
+                          <Typography variant="body2" color={overdue ? 'error' : undefined}>
+                            {format(new Date(item.scheduledCompletionDate), 'MMM dd, yyyy')}
+                          </Typography>
+                        ) : (
+                          '—'
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ minWidth: 120 }}>
+                        {item.milestones.length === 0 ? (
+                          '—'
+                        ) : (
+                          <>
+                            <Typography variant="caption" color="text.secondary">
+                              {done} / {item.milestones.length}
+                            </Typography>
+                            <LinearProgress variant="determinate" value={(done / item.milestones.length) * 100} />
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center">
+                      <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                        No POA&amp;M items. Items open when an assessment is non-compliant or partially compliant.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      {selectedId && <PoamItemDialog id={selectedId} onClose={() => setSelectedId(null)} />}
+    </Box>
+  );
+};
+
+// Detail dialog: loads the item with its history, then hands it to the form
+const PoamItemDialog: React.FC<{ id: string; onClose: () => void }> = ({ id, onClose }) => {
+  const { data: item, isLoading, error } = usePoamItem(id);
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      {error ? (
+        <DialogContent>
+          <Alert severity="error">{getErrorMessage(error)}</Alert>
+        </DialogContent>
+      ) : isLoading || !item ? (
+        <DialogContent>
+          <LinearProgress />
+        </DialogContent>
+      ) : (
+        <PoamItemForm key={item.updatedAt} item={item} onClose={onClose} />
+      )}
+    </Dialog>
+  );
+};
+
+const PoamItemForm: React.FC<{ item: PoamItem; onClose: () => void }> = ({ item, onClose }) => {
+  const { showNotification } = useNotification();
+  const updateItem = useUpdatePoamItem();
+  const addMilestone = useAddPoamMilestone();
+  const updateMilestone = useUpdatePoamMilestone();
+  const deleteMilestone = useDeletePoamMilestone();
+
+  const [form, setForm] = useState({
+    weakness: item.weakness,
+    weaknessDescription: item.weaknessDescription || '',
+    weaknessSource: item.weaknessSource,
+    sourceIdentifier: item.sourceIdentifier || '',
+    riskRating: item.riskRating,
+    status: item.status,
+    statusNote: '',
+    pointOfContact: item.pointOfContact || '',
+    resourcesRequired: item.resourcesRequired || '',
+    remediationPlan: item.remediationPlan || '',
+    scheduledCompletionDate: toInputDate(item.scheduledCompletionDate),
+    deviationType: (item.deviationType || '') as PoamDeviationType | '',
+    deviationRationale: item.deviationRationale || '',
+    vendorDependency: item.vendorDependency,
+    comments: item.comments || '',
+  });
+  const [newMilestone, setNewMilestone] = useState({ description: '', dueDate: '' });
+
+  const set = <K extends keyof typeof form>(key: K, value: (typeof form)[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    try {
+      await updateItem.mutateAsync({
+        id: item.id,
+        weakness: form.weakness,
+        weaknessDescription: form.weaknessDescription || null,
+        weaknessSource: form.weaknessSource,
+        sourceIdentifier: form.sourceIdentifier || null,
+        riskRating: form.riskRating,
+        ...(form.status !== item.status && { status: form.status, statusNote: form.statusNote || undefined }),
+        pointOfContact: form.pointOfContact || null,
+        resourcesRequired: form.resourcesRequired || null,
+        remediationPlan: form.remediationPlan || null,
+        scheduledCompletionDate: fromInputDate(form.scheduledCompletionDate),
+        deviationType: form.deviationType || null,
+        deviationRationale: form.deviationRationale || null,
+        vendorDependency: form.vendorDependency,
+        comments: form.comments || null,
+      });
+      showNotification(`${item.poamId} updated`, 'success');
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleAddMilestone = async () => {
+    try {
+      await addMilestone.mutateAsync({
+        poamItemId: item.id,
+        description: newMilestone.description,
+        dueDate: fromInputDate(newMilestone.dueDate),
+      });
+      setNewMilestone({ description: '', dueDate: '' });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleMilestoneStatus = async (milestoneId: string, status: PoamMilestoneStatus) => {
+    try {
+      await updateMilestone.mutateAsync({ poamItemId: item.id, milestoneId, status });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleDeleteMilestone = async (milestoneId: string) => {
+    try {
+      await deleteMilestone.mutateAsync({ poamItemId: item.id, milestoneId });
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  return (
+    <>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {item.poamId} · {item.controlId}
+          {statusChip(item.status)}
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          {item.systemName} · detected {format(new Date(item.detectedAt), 'MMM dd, yyyy')} · original risk{' '}
+          {item.originalRiskRating}
+        </Typography>
+      </DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2}>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Weakness"
+              value={form.weakness}
+              onChange={(e) => set('weakness', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Description"
+              value={form.weaknessDescription}
+              onChange={(e) => set('weaknessDescription', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel>Source</InputLabel>
+              <Select
+                value={form.weaknessSource}
+                label="Source"
+                onChange={(e) => set('weaknessSource', e.target.value as PoamWeaknessSource)}
+              >
+                {WEAKNESS_SOURCES.map((s) => (
+                  <MenuItem key={s.value} value={s.value}>
+                    {s.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              label="Source identifier"
+              value={form.sourceIdentifier}
+              onChange={(e) => set('sourceIdentifier', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel>Risk rating</InputLabel>
+              <Select
+                value={form.riskRating}
+                label="Risk rating"
+                onChange={(e) => set('riskRating', e.target.value as PoamRiskRating)}
+              >
+                {(Object.keys(RISK_COLORS) as PoamRiskRating[]).map((r) => (
+                  <MenuItem key={r} value={r}>
+                    {r}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel>Status</InputLabel>
+              <Select value={form.status} label="Status" onChange={(e) => set('status', e.target.value as PoamStatus)}>
+                {POAM_STATUSES.map((s) => (
+                  <MenuItem key={s.value} value={s.value}>
+                    {s.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              label="Status change note"
+              value={form.statusNote}
+              onChange={(e) => set('statusNote', e.target.value)}
+              disabled={form.status === item.status}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              label="Point of contact"
+              value={form.pointOfContact}
+              onChange={(e) => set('pointOfContact', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              type="date"
+              label="Scheduled completion"
+              InputLabelProps={{ shrink: true }}
+              value={form.scheduledCompletionDate}
+              onChange={(e) => set('scheduledCompletionDate', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControlLabel
+              control={
+                <Switch checked={form.vendorDependency} onChange={(e) => set('vendorDependency', e.target.checked)} />
+              }
+              label="Vendor dependency"
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Remediation plan"
+              value={form.remediationPlan}
+              onChange={(e) => set('remediationPlan', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              label="Resources required"
+              value={form.resourcesRequired}
+              onChange={(e) => set('resourcesRequired', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel>Deviation</InputLabel>
+              <Select
+                value={form.deviationType}
+                label="Deviation"
+                onChange={(e) => set('deviationType', e.target.value as PoamDeviationType | '')}
+              >
+                <MenuItem value="">None</MenuItem>
+                {DEVIATION_TYPES.map((d) => (
+                  <MenuItem key={d.value} value={d.value}>
+                    {d.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              label="Deviation rationale"
+              value={form.deviationRationale}
+              onChange={(e) => set('deviationRationale', e.target.value)}
+              disabled={!form.deviationType}
+              helperText={
+                item.deviationApprovedBy && item.deviationApprovedAt
+                  ? `Approved by ${item.deviationApprovedBy.name} on ${format(new Date(item.deviationApprovedAt), 'MMM dd, yyyy')}`
+                  : 'Deviations and risk acceptance need review permission'
+              }
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Comments"
+              value={form.comments}
+              onChange={(e) => set('comments', e.target.value)}
+            />
+          </Grid>
+        </Grid>
+
+        {/* Milestones */}
+        <Divider sx={{ my: 2 }} />
+        <Typography variant="h6" gutterBottom>
+          Milestones
+        </Typography>
+        <Table size="small">
+          <TableBody>
+            {item.milestones.map((milestone) => (
+              <TableRow key={milestone.id}>
+                <TableCell>
+                  {milestone.remediationTaskId && (
+                    <Tooltip title="Follows a remediation task">
+                      <LinkIcon fontSize="small" color="action" sx={{ mr: 1, verticalAlign: 'middle' }} />
+                    </Tooltip>
+                  )}
+                  {milestone.description}
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  {milestone.dueDate ? format(new Date(milestone.dueDate), 'MMM dd, yyyy') : '—'}
+                </TableCell>
+                <TableCell sx={{ width: 160 }}>
+                  <Select
+                    size="small"
+                    fullWidth
+                    value={milestone.status}
+                    disabled={!!milestone.remediationTaskId}
+                    onChange={(e) => handleMilestoneStatus(milestone.id, e.target.value as PoamMilestoneStatus)}
+                  >
+                    {MILESTONE_STATUSES.map((s) => (
+                      <MenuItem key={s} value={s}>
+                        {s}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell padding="checkbox">
+                  <IconButton size="small" onClick={() => handleDeleteMilestone(milestone.id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="New milestone"
+            value={newMilestone.description}
+            onChange={(e) => setNewMilestone((prev) => ({ ...prev, description: e.target.value }))}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="Due"
+            InputLabelProps={{ shrink: true }}
+            value={newMilestone.dueDate}
+            onChange={(e) => setNewMilestone((prev) => ({ ...prev, dueDate: e.target.value }))}
+          />
+          <Button
+            startIcon={<AddIcon />}
+            onClick={handleAddMilestone}
+            disabled={!newMilestone.description.trim() || addMilestone.isPending}
+          >
+            Add
+          </Button>
+        </Box>
+
+        {/* History */}
+        {item.history && item.history.length > 0 && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="h6" gutterBottom>
+              Status history
+            </Typography>
+            {item.history.map((change) => (
+              <Box key={change.id} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+                <Typography variant="caption" color="text.secondary" sx={{ minWidth: 130 }}>
+                  {format(new Date(change.createdAt), 'MMM dd, yyyy HH:mm')}
+                </Typography>
+                {change.fromStatus && statusChip(change.fromStatus)}
+                {change.fromStatus && '→'}
+                {statusChip(change.toStatus)}
+                <Typography variant="body2" color="text.secondary">
+                  {change.changedBy?.name || 'System'}
+                  {change.note && ` · ${change.note}`}
+                </Typography>
+              </Box>
+            ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!form.weakness.trim() || updateItem.isPending}>
+          Save
+        </Button>
+      </DialogActions>
+    </>
+  );
+};
+
+export default PoamRegister;
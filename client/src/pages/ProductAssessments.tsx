@@ -2,7 +2,8 @@
  * Product Assessments Page
  *
  * Shows the assessment matrix for a specific product with all its systems.
- * Allows users to assess each CSF control across all systems.
+ * Allows users to assess each CSF control across all systems. Changes others
+ * make appear live, and cells someone is editing are highlighted.
  */
 
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
@@ -22,6 +23,7 @@ import {
   DialogContent,
   DialogActions,
   FormControl,
+  FormHelperText,
   InputLabel,
   Select,
   MenuItem,
@@ -74,6 +76,7 @@ import { useProduct } from '../hooks/useProducts';
 import { useSystems } from '../hooks/useSystems';
 import { useAssessmentMatrix, useUpdateAssessment } from '../hooks/useAssessments';
 import { useCSFControls, useCSFMappings } from '../hooks/useCSF';
+import { useProductPermissions } from '../hooks/usePermissions';
 import { useNotification } from '../contexts/NotificationContext';
 import { useAuth } from '../contexts/AuthContext';
 import Comments from '../components/Comments';
@@ -82,7 +85,9 @@ import ApprovalWorkflow from '../components/ApprovalWorkflow';
 import AuditHistory from '../components/AuditHistory';
 import EvidenceUpload from '../components/EvidenceUpload';
 import MobileAssessmentCard from '../components/MobileAssessmentCard';
+import CollaboratorPresence from '../components/CollaboratorPresence';
 import { useMobileView } from '../hooks/useResponsive';
+import { editorsOf, PresenceFocus, PresenceUser, useProductChannel } from '../hooks/useRealtime';
 import type {
   ComplianceStatus,
   AssessmentMatrixRow,
@@ -101,6 +106,18 @@ const COMPLIANCE_STATUSES: { value: ComplianceStatus; label: string; color: stri
   { value: 'Not Applicable', label: 'Not Applicable', color: '#757575' },
 ];
 
+// Assessment fields, as named in presence (what someone is editing)
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  riskLevel: 'Risk Level',
+  implementationNotes: 'Implementation Notes',
+  evidence: 'Evidence',
+  remediationPlan: 'Remediation Plan',
+};
+
+// Shown instead of the success message when a save was queued in the offline outbox
+const SAVED_OFFLINE = 'Saved on this device; it will sync when you are back online';
+
 // CSF Functions for filtering
 const CSF_FUNCTIONS = [
   { code: 'GV', name: 'Govern' },
@@ -369,6 +386,8 @@ interface AssessmentDetailModalProps {
   systemId: string;
   productId: string;
   onSave: () => void;
+  editors: PresenceUser[];
+  onFieldFocus: (field?: string) => void;
 }
 
 const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
@@ -381,10 +400,14 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
   systemId,
   productId,
   onSave,
+  editors,
+  onFieldFocus,
 }) => {
   const { showNotification } = useNotification();
   const { user } = useAuth();
   const updateAssessment = useUpdateAssessment();
+  const { can } = useProductPermissions(productId);
+  const canEdit = can('assessment:edit');
 
   // Fetch NIST 800-53 mappings for this control
   const { data: mappingsData, isLoading: mappingsLoading } = useCSFMappings(controlCode, {
@@ -405,7 +428,7 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
     }
 
     try {
-      await updateAssessment.mutateAsync({
+      const saved = await updateAssessment.mutateAsync({
         id: assessmentData.assessmentId,
         updates: {
           status,
@@ -415,7 +438,10 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
           riskLevel: riskLevel || undefined,
         },
       });
-      showNotification('Assessment updated successfully', 'success');
+      showNotification(
+        saved.pendingSync ? SAVED_OFFLINE : 'Assessment updated successfully',
+        saved.pendingSync ? 'info' : 'success'
+      );
       onSave();
       onClose();
     } catch (error) {
@@ -425,6 +451,17 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
 
   const needsRemediation = status === 'Not Implemented' || status === 'Partially Implemented';
 
+  // Soft locks: who else is editing this cell, and each of its fields
+  const editorNames = Array.from(new Set(editors.map((p) => p.user.name)));
+  const lockHint = (field: string) => {
+    const names = editors.filter((p) => p.focus?.field === field).map((p) => p.user.name);
+    return names.length > 0 ? `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} editing this field` : undefined;
+  };
+  const fieldProps = (field: string) => ({
+    onFocus: () => onFieldFocus(field),
+    onBlur: () => onFieldFocus(),
+  });
+
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
       <DialogTitle sx={{ pb: 1 }}>
@@ -561,9 +598,16 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
 
           <Divider />
 
+          {editorNames.length > 0 && (
+            <Alert severity="info">
+              {editorNames.join(', ')} {editorNames.length === 1 ? 'is' : 'are'} also working on this assessment.
+            </Alert>
+          )}
+
           <FormControl fullWidth required>
             <InputLabel>Compliance Status</InputLabel>
             <Select
+              {...fieldProps('status')}
               value={status}
               onChange={(e) => setStatus(e.target.value as ComplianceStatus)}
               label="Compliance Status"
@@ -577,11 +621,13 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
                 </MenuItem>
               ))}
             </Select>
+            {lockHint('status') && <FormHelperText sx={{ color: 'warning.main' }}>{lockHint('status')}</FormHelperText>}
           </FormControl>
 
           <FormControl fullWidth>
             <InputLabel>Risk Level</InputLabel>
             <Select
+              {...fieldProps('riskLevel')}
               value={riskLevel}
               onChange={(e) => setRiskLevel(e.target.value as RiskLevel | '')}
               label="Risk Level"
@@ -594,9 +640,15 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
               <MenuItem value="High">High</MenuItem>
               <MenuItem value="Critical">Critical</MenuItem>
             </Select>
+            {lockHint('riskLevel') && (
+              <FormHelperText sx={{ color: 'warning.main' }}>{lockHint('riskLevel')}</FormHelperText>
+            )}
           </FormControl>
 
           <TextField
+            {...fieldProps('implementationNotes')}
+            helperText={lockHint('implementationNotes')}
+            FormHelperTextProps={{ sx: { color: 'warning.main' } }}
             label="Implementation Notes / Findings"
             multiline
             rows={4}
@@ -614,11 +666,16 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
             onChange={(e) => setEvidence(e.target.value)}
             placeholder="List evidence items, documentation, or proof of implementation..."
             fullWidth
-            helperText="Enter evidence descriptions (file upload feature coming soon)"
+            {...fieldProps('evidence')}
+            helperText={lockHint('evidence') || 'Enter evidence descriptions (file upload feature coming soon)'}
+            FormHelperTextProps={{ sx: { color: lockHint('evidence') ? 'warning.main' : undefined } }}
           />
 
           {needsRemediation && (
             <TextField
+              {...fieldProps('remediationPlan')}
+              helperText={lockHint('remediationPlan')}
+              FormHelperTextProps={{ sx: { color: 'warning.main' } }}
               label="Remediation Plan"
               multiline
               rows={4}
@@ -718,7 +775,11 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
                 </Box>
               </AccordionSummary>
               <AccordionDetails>
-                <EvidenceUpload assessmentId={assessmentData.assessmentId} />
+                <EvidenceUpload
+                  assessmentId={assessmentData.assessmentId}
+                  readOnly={!can('evidence:upload')}
+                  canDelete={can('evidence:delete')}
+                />
               </AccordionDetails>
             </Accordion>
           )}
@@ -763,16 +824,18 @@ const AssessmentDetailModal: React.FC<AssessmentDetailModalProps> = ({
 
       <DialogActions sx={{ px: 3, py: 2 }}>
         <Button onClick={onClose} color="inherit">
-          Cancel
-        </Button>
-        <Button
-          onClick={handleSave}
-          variant="contained"
-          disabled={updateAssessment.isPending}
-          startIcon={updateAssessment.isPending ? <CircularProgress size={16} /> : null}
-        >
-          Save Assessment
+          {canEdit ? 'Cancel' : 'Close'}
         </Button>
+        {canEdit && (
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            disabled={updateAssessment.isPending}
+            startIcon={updateAssessment.isPending ? <CircularProgress size={16} /> : null}
+          >
+            Save Assessment
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   );
@@ -786,6 +849,8 @@ const ProductAssessments: React.FC = () => {
   const theme = useTheme();
   const isMobileView = useMobileView();
   const isSmallScreen = useMediaQuery(theme.breakpoints.down('md'));
+  const { can } = useProductPermissions(productId);
+  const canEdit = can('assessment:edit');
 
   // View mode: 'matrix' for desktop grid, 'cards' for mobile card view
   const [viewMode, setViewMode] = useState<'matrix' | 'cards'>(() => {
@@ -860,7 +925,7 @@ const ProductAssessments: React.FC = () => {
   } = useAssessmentMatrix(productId || '', {
     enabled: !!productId,
   });
-  const { data: allControls } = useCSFControls();
+  const { data: allControls } = useCSFControls(product?.catalogId, { enabled: !!product });
 
   // Get systems from matrix data or from useSystems (moved here for keyboard navigation)
   const displaySystems = useMemo(() => matrixData?.systems || systems || [], [matrixData?.systems, systems]);
@@ -868,6 +933,18 @@ const ProductAssessments: React.FC = () => {
   // Mutations
   const updateAssessment = useUpdateAssessment();
 
+  // Live updates, and who else is working on the product
+  const { connected, presence, setFocus } = useProductChannel(productId);
+
+  const describeFocus = useCallback(
+    (focus: PresenceFocus) => {
+      const systemName = displaySystems.find((s) => s.id === focus.systemId)?.name;
+      const field = focus.field && FIELD_LABELS[focus.field];
+      return `${focus.controlId}${systemName ? ` on ${systemName}` : ''}${field ? ` (${field})` : ''}`;
+    },
+    [displaySystems]
+  );
+
   // Filter matrix rows based on filters
   const filteredRows = useMemo(() => {
     if (!matrixData) return [];
@@ -1012,6 +1089,21 @@ const ProductAssessments: React.FC = () => {
     refetchMatrix();
   }, [refetchMatrix]);
 
+  // The open cell is what this user is editing
+  const focusCellField = useCallback(
+    (field?: string) => {
+      if (selectedCell) setFocus({ systemId: selectedCell.systemId, controlId: selectedCell.controlId, field });
+    },
+    [selectedCell, setFocus]
+  );
+  useEffect(() => {
+    if (modalOpen && selectedCell) {
+      focusCellField();
+    } else {
+      setFocus(null);
+    }
+  }, [modalOpen, selectedCell, focusCellField, setFocus]);
+
   // Handle copy assessments from source system to target system
   const handleCopyAssessments = useCallback(
     async (sourceSystemId: string) => {
@@ -1080,7 +1172,7 @@ const ProductAssessments: React.FC = () => {
   const handleCellRightClick = useCallback(
     (event: React.MouseEvent, systemData: { assessmentId?: string; status: ComplianceStatus }) => {
       event.preventDefault();
-      if (systemData.assessmentId) {
+      if (canEdit && systemData.assessmentId) {
         setInlineMenuAnchor(event.currentTarget as HTMLElement);
         setInlineMenuCell({
           assessmentId: systemData.assessmentId,
@@ -1088,7 +1180,7 @@ const ProductAssessments: React.FC = () => {
         });
       }
     },
-    []
+    [canEdit]
   );
 
   // Handle inline status change
@@ -1098,11 +1190,11 @@ const ProductAssessments: React.FC = () => {
 
       setInlineUpdating(true);
       try {
-        await updateAssessment.mutateAsync({
+        const saved = await updateAssessment.mutateAsync({
           id: inlineMenuCell.assessmentId,
           updates: { status: newStatus },
         });
-        showNotification('Status updated', 'success');
+        showNotification(saved.pendingSync ? SAVED_OFFLINE : 'Status updated', saved.pendingSync ? 'info' : 'success');
         refetchMatrix();
       } catch (error) {
         showNotification('Failed to update status', 'error');
@@ -1125,11 +1217,11 @@ const ProductAssessments: React.FC = () => {
   const handleMobileStatusChange = useCallback(
     async (assessmentId: string, newStatus: ComplianceStatus) => {
       try {
-        await updateAssessment.mutateAsync({
+        const saved = await updateAssessment.mutateAsync({
           id: assessmentId,
           updates: { status: newStatus },
         });
-        showNotification('Status updated', 'success');
+        showNotification(saved.pendingSync ? SAVED_OFFLINE : 'Status updated', saved.pendingSync ? 'info' : 'success');
         refetchMatrix();
       } catch (error) {
         showNotification('Failed to update status', 'error');
@@ -1189,13 +1281,16 @@ const ProductAssessments: React.FC = () => {
           updates.implementationNotes = quickPanelNotes.trim();
         }
 
-        await updateAssessment.mutateAsync({
+        const saved = await updateAssessment.mutateAsync({
           id: focusedCell.assessmentId,
           updates,
         });
 
         const statusLabel = COMPLIANCE_STATUSES.find((s) => s.value === newStatus)?.label || newStatus;
-        showNotification(`Status updated to ${statusLabel}`, 'success');
+        showNotification(
+          saved.pendingSync ? SAVED_OFFLINE : `Status updated to ${statusLabel}`,
+          saved.pendingSync ? 'info' : 'success'
+        );
         setFocusedCell((prev) => prev ? { ...prev, status: newStatus } : null);
         setQuickPanelNotes('');
         refetchMatrix();
@@ -1233,11 +1328,14 @@ const ProductAssessments: React.FC = () => {
 
       setKeyboardUpdating(true);
       try {
-        await updateAssessment.mutateAsync({
+        const saved = await updateAssessment.mutateAsync({
           id: focusedCell.assessmentId,
           updates: { status: newStatus },
         });
-        showNotification(`Status updated to ${COMPLIANCE_STATUSES[statusIndex].label}`, 'success');
+        showNotification(
+          saved.pendingSync ? SAVED_OFFLINE : `Status updated to ${COMPLIANCE_STATUSES[statusIndex].label}`,
+          saved.pendingSync ? 'info' : 'success'
+        );
         setFocusedCell((prev) => prev ? { ...prev, status: newStatus } : null);
         refetchMatrix();
       } catch (error) {
@@ -1405,7 +1503,8 @@ const ProductAssessments: React.FC = () => {
             {product.name} - Compliance Assessment
           </Typography>
         </Box>
-        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap alignItems="center">
+          <CollaboratorPresence presence={presence} connected={connected} describeFocus={describeFocus} />
           {/* View Toggle - only show on larger screens */}
           {!isSmallScreen && (
             <ToggleButtonGroup
@@ -1427,7 +1526,7 @@ const ProductAssessments: React.FC = () => {
             </ToggleButtonGroup>
           )}
           {/* Speed Mode - hide on mobile */}
-          {!isSmallScreen && (
+          {!isSmallScreen && canEdit && (
             <Button
               variant={quickPanelOpen ? 'contained' : 'outlined'}
               startIcon={<SpeedIcon />}
@@ -1708,7 +1807,7 @@ const ProductAssessments: React.FC = () => {
                     {system.environment}
                   </Typography>
                   {/* Copy from system button */}
-                  {displaySystems.length > 1 && (
+                  {canEdit && displaySystems.length > 1 && (
                     <Tooltip title="Copy assessments from another system">
                       <IconButton
                         size="small"
@@ -1775,6 +1874,8 @@ const ProductAssessments: React.FC = () => {
                   const hasEvidence = systemData?.hasEvidence || false;
                   // Check if this cell is keyboard-focused
                   const isKeyboardFocused = focusedCell?.rowIndex === rowIndex && focusedCell?.systemIndex === systemIndex;
+                  // Others editing this cell
+                  const cellEditors = editorsOf(presence, system.id, row.controlId);
                   return (
                     <Box
                       key={system.id}
@@ -1791,8 +1892,8 @@ const ProductAssessments: React.FC = () => {
                         justifyContent: 'center',
                         cursor: 'pointer',
                         transition: 'all 0.2s',
-                        outline: isKeyboardFocused ? '2px solid' : 'none',
-                        outlineColor: 'primary.main',
+                        outline: isKeyboardFocused || cellEditors.length > 0 ? '2px solid' : 'none',
+                        outlineColor: isKeyboardFocused ? 'primary.main' : 'warning.main',
                         outlineOffset: '-2px',
                         bgcolor: isKeyboardFocused ? 'action.selected' : 'inherit',
                         '&:hover': {
@@ -1809,6 +1910,14 @@ const ProductAssessments: React.FC = () => {
                         <Tooltip
                           title={
                             <>
+                              {cellEditors.length > 0 && (
+                                <>
+                                  <strong>
+                                    {Array.from(new Set(cellEditors.map((p) => p.user.name))).join(', ')} editing
+                                  </strong>
+                                  <br />
+                                </>
+                              )}
                               {COMPLIANCE_STATUSES.find((s) => s.value === systemData.status)?.label || systemData.status}
                               {hasEvidence && ' • Has evidence'}
                               <br />
@@ -1846,6 +1955,8 @@ const ProductAssessments: React.FC = () => {
           systemId={selectedCell.systemId}
           productId={productId || ''}
           onSave={handleModalSave}
+          editors={editorsOf(presence, selectedCell.systemId, selectedCell.controlId)}
+          onFieldFocus={focusCellField}
         />
       )}
 
@@ -28,6 +28,10 @@ import {
   Security as SecurityIcon,
   TrendingUp as TrendingUpIcon,
   Add as AddIcon,
+  AdminPanelSettings as AccessIcon,
+  CompareArrows as CrosswalkIcon,
+  PlaylistAddCheck as PoamIcon,
+  ReportProblem as RiskRegisterIcon,
 } from '@mui/icons-material';
 import { useNavigate, useParams } from 'react-router-dom';
 import { format } from 'date-fns';
@@ -48,8 +52,11 @@ import { useProduct } from '../hooks/useProducts';
 import { useProductCompliance, useFunctionCompliance } from '../hooks/useAnalytics';
 import { useSystems } from '../hooks/useSystems';
 import { useHasBaseline } from '../hooks/useBaseline';
+import { NIST_80053_CATALOG_ID } from '../hooks/useCatalogs';
+import { hasPermission } from '../hooks/usePermissions';
 import AddSystemDialog from '../components/AddSystemDialog';
 import ApplyBaselineModal from '../components/ApplyBaselineModal';
+import ScopeAccessDialog from '../components/ScopeAccessDialog';
 import type { ComplianceStatus } from '../types/api.types';
 
 interface TabPanelProps {
@@ -88,6 +95,12 @@ const ProductDetails: React.FC = () => {
   const { data: functionCompliance, isLoading: functionLoading } = useFunctionCompliance(id);
   const { data: systems = [], isLoading: systemsLoading } = useSystems(id);
   const { hasBaseline, isLoading: baselineLoading, controlCount } = useHasBaseline(id || '');
+  const canManageProduct = hasPermission(product?.permissions, 'scope:manage');
+  const canManageSystems = hasPermission(product?.permissions, 'system:manage');
+  const canChangeBaseline = hasPermission(product?.permissions, 'baseline:change');
+  const selectedByImpact = product?.catalogId === NIST_80053_CATALOG_ID;
+  const canManageAccess = hasPermission(product?.permissions, 'access:manage');
+  const [accessDialogOpen, setAccessDialogOpen] = useState(false);
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setCurrentTab(newValue);
@@ -187,12 +200,21 @@ const ProductDetails: React.FC = () => {
             </Typography>
           </Box>
           <Box sx={{ display: 'flex', gap: 1 }}>
-            <IconButton color="primary" onClick={handleEdit}>
-              <EditIcon />
-            </IconButton>
-            <IconButton color="error" onClick={handleDelete}>
-              <DeleteIcon />
-            </IconButton>
+            {canManageAccess && (
+              <IconButton onClick={() => setAccessDialogOpen(true)} aria-label="Manage access">
+                <AccessIcon />
+              </IconButton>
+            )}
+            {canManageProduct && (
+              <>
+                <IconButton color="primary" onClick={handleEdit}>
+                  <EditIcon />
+                </IconButton>
+                <IconButton color="error" onClick={handleDelete}>
+                  <DeleteIcon />
+                </IconButton>
+              </>
+            )}
           </Box>
         </Box>
 
@@ -515,14 +537,16 @@ const ProductDetails: React.FC = () => {
           <CardContent>
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
               <Typography variant="h6">Systems ({systems.length})</Typography>
-              <Button
-                variant="contained"
-                size="small"
-                startIcon={<AddIcon />}
-                onClick={() => setAddSystemDialogOpen(true)}
-              >
-                Add System
-              </Button>
+              {canManageSystems && (
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={() => setAddSystemDialogOpen(true)}
+                >
+                  Add System
+                </Button>
+              )}
             </Box>
             {systemsLoading ? (
               <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
@@ -606,28 +630,44 @@ const ProductDetails: React.FC = () => {
             {!hasBaseline && !baselineLoading ? (
               <>
                 <Alert severity="warning" sx={{ mb: 2 }}>
-                  No baseline has been configured for this product. Apply a baseline template to get started.
+                  No baseline has been configured for this product. {selectedByImpact
+                    ? `Select the ${product.impactLevel || 'MODERATE'} baseline to get started.`
+                    : 'Apply a baseline template to get started.'}
                 </Alert>
                 <Typography variant="body2" color="text.secondary" paragraph>
-                  A baseline defines which NIST CSF 2.0 controls are applicable to this product.
+                  A baseline defines which {product.catalog?.name || 'NIST CSF 2.0'} controls are applicable to this product.
                   When you apply a baseline, it will automatically create compliance assessment records
                   for all {systems.length} system{systems.length !== 1 ? 's' : ''} under this product.
                 </Typography>
                 <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
-                  <Button
-                    variant="contained"
-                    color="primary"
-                    startIcon={<SecurityIcon />}
-                    onClick={() => setApplyBaselineModalOpen(true)}
-                  >
-                    Apply Baseline Template
-                  </Button>
-                  <Button
-                    variant="outlined"
-                    onClick={() => navigate(`/products/${id}/baseline`)}
-                  >
-                    Configure Manually
-                  </Button>
+                  {canChangeBaseline && selectedByImpact && (
+                    <Button
+                      variant="contained"
+                      color="primary"
+                      startIcon={<SecurityIcon />}
+                      onClick={() => navigate(`/products/${id}/baseline`)}
+                    >
+                      Select {product.impactLevel || 'MODERATE'} Baseline
+                    </Button>
+                  )}
+                  {canChangeBaseline && !selectedByImpact && (
+                    <>
+                      <Button
+                        variant="contained"
+                        color="primary"
+                        startIcon={<SecurityIcon />}
+                        onClick={() => setApplyBaselineModalOpen(true)}
+                      >
+                        Apply Baseline Template
+                      </Button>
+                      <Button
+                        variant="outlined"
+                        onClick={() => navigate(`/products/${id}/baseline`)}
+                      >
+                        Configure Manually
+                      </Button>
+                    </>
+                  )}
                 </Box>
               </>
             ) : (
@@ -641,14 +681,16 @@ const ProductDetails: React.FC = () => {
                     variant="contained"
                     onClick={() => navigate(`/products/${id}/baseline`)}
                   >
-                    Configure Baseline
-                  </Button>
-                  <Button
-                    variant="outlined"
-                    onClick={() => setApplyBaselineModalOpen(true)}
-                  >
-                    Apply Different Template
+                    {canChangeBaseline ? 'Configure Baseline' : 'View Baseline'}
                   </Button>
+                  {canChangeBaseline && !selectedByImpact && (
+                    <Button
+                      variant="outlined"
+                      onClick={() => setApplyBaselineModalOpen(true)}
+                    >
+                      Apply Different Template
+                    </Button>
+                  )}
                 </Box>
               </>
             )}
@@ -666,9 +708,20 @@ const ProductDetails: React.FC = () => {
             <Typography variant="body2" color="text.secondary" paragraph>
               View and manage compliance assessments across all systems for this product.
             </Typography>
-            <Button variant="contained" onClick={() => navigate(`/products/${id}/assessments`)}>
-              View Assessment Matrix
-            </Button>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <Button variant="contained" onClick={() => navigate(`/products/${id}/assessments`)}>
+                View Assessment Matrix
+              </Button>
+              <Button variant="outlined" startIcon={<CrosswalkIcon />} onClick={() => navigate(`/products/${id}/crosswalk`)}>
+                Crosswalk to Other Catalogs
+              </Button>
+              <Button variant="outlined" startIcon={<PoamIcon />} onClick={() => navigate(`/products/${id}/poam`)}>
+                POA&amp;M Register
+              </Button>
+              <Button variant="outlined" startIcon={<RiskRegisterIcon />} onClick={() => navigate(`/products/${id}/risks`)}>
+                Risk Register
+              </Button>
+            </Box>
           </CardContent>
         </Card>
       </TabPanel>
@@ -756,6 +809,17 @@ const ProductDetails: React.FC = () => {
         productName={product?.name || ''}
         systemCount={systems.length}
       />
+
+      {/* Manage Access Dialog */}
+      {canManageAccess && (
+        <ScopeAccessDialog
+          open={accessDialogOpen}
+          onClose={() => setAccessDialogOpen(false)}
+          scopeType="PRODUCT"
+          scopeId={id || ''}
+          scopeName={product?.name || ''}
+        />
+      )}
     </Box>
   );
 };
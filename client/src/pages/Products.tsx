@@ -50,6 +50,8 @@ import {
   useDeleteProduct,
 } from '../hooks/useProducts';
 import { useOrganizationalHierarchy } from '../hooks/useCapabilityCentres';
+import { useTeams } from '../hooks/useTeams';
+import { useControlCatalogs } from '../hooks/useCatalogs';
 import type { Product, CreateProductInput } from '../types/api.types';
 
 // Product type options
@@ -223,6 +225,7 @@ interface ProductFormData {
   criticality: string;
   impactLevel: string;
   frameworkId: string; // Required - products must belong to a framework
+  catalogId: string;
 }
 
 const Products: React.FC = () => {
@@ -230,14 +233,19 @@ const Products: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('ALL');
   const [criticalityFilter, setCriticalityFilter] = useState<string>('ALL');
+  const [teamFilter, setTeamFilter] = useState<string>('ALL');
   const [openModal, setOpenModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<ExtendedProduct | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [productToDelete, setProductToDelete] = useState<ExtendedProduct | null>(null);
 
   // API hooks
-  const { data: products = [], isLoading } = useProducts();
+  const { data: teams = [] } = useTeams();
+  const { data: products = [], isLoading } = useProducts(
+    teamFilter === 'ALL' ? undefined : { teamId: teamFilter }
+  );
   const { data: hierarchy = [] } = useOrganizationalHierarchy();
+  const { data: catalogs = [] } = useControlCatalogs();
   const createMutation = useCreateProduct();
   const updateMutation = useUpdateProduct();
   const deleteMutation = useDeleteProduct();
@@ -273,6 +281,7 @@ const Products: React.FC = () => {
       criticality: 'MEDIUM',
       impactLevel: 'MODERATE',
       frameworkId: '',
+      catalogId: '',
     },
   });
 
@@ -297,6 +306,7 @@ const Products: React.FC = () => {
       criticality: 'MEDIUM',
       impactLevel: 'MODERATE',
       frameworkId: frameworkOptions[0]?.id || '',
+      catalogId: catalogs.find((c) => c.isDefault)?.id || '',
     });
     setOpenModal(true);
   };
@@ -311,10 +321,16 @@ const Products: React.FC = () => {
       criticality: product.criticality || 'MEDIUM',
       impactLevel: product.impactLevel || 'MODERATE',
       frameworkId: product.frameworkId || frameworkOptions[0]?.id || '',
+      catalogId: product.catalogId || '',
     });
     setOpenModal(true);
   };
 
+  // The catalog is fixed once controls of it have been baselined or assessed
+  const catalogLocked =
+    !!editingProduct &&
+    ((editingProduct.metrics?.totalAssessments || 0) > 0 || (editingProduct._count?.csfBaseline || 0) > 0);
+
   // Handle modal close
   const handleCloseModal = () => {
     setOpenModal(false);
@@ -336,6 +352,7 @@ const Products: React.FC = () => {
             type: data.type,
             criticality: data.criticality,
             impactLevel: data.impactLevel as 'LOW' | 'MODERATE' | 'HIGH',
+            ...(data.catalogId && data.catalogId !== editingProduct.catalogId && { catalogId: data.catalogId }),
           },
         });
       } else {
@@ -347,6 +364,7 @@ const Products: React.FC = () => {
           criticality: data.criticality,
           impactLevel: data.impactLevel as 'LOW' | 'MODERATE' | 'HIGH',
           frameworkId: data.frameworkId, // Required - products must belong to a framework
+          ...(data.catalogId && { catalogId: data.catalogId }),
         };
         await createMutation.mutateAsync(createInput);
       }
@@ -555,7 +573,7 @@ const Products: React.FC = () => {
       <Card sx={{ mb: 3 }}>
         <CardContent>
           <Grid container spacing={2} alignItems="center">
-            <Grid item xs={12} md={4}>
+            <Grid item xs={12} md={teams.length > 0 ? 3 : 4}>
               <TextField
                 fullWidth
                 placeholder="Search products..."
@@ -566,7 +584,7 @@ const Products: React.FC = () => {
                 }}
               />
             </Grid>
-            <Grid item xs={12} md={4}>
+            <Grid item xs={12} md={teams.length > 0 ? 3 : 4}>
               <FormControl fullWidth>
                 <InputLabel>Type</InputLabel>
                 <Select
@@ -583,7 +601,7 @@ const Products: React.FC = () => {
                 </Select>
               </FormControl>
             </Grid>
-            <Grid item xs={12} md={4}>
+            <Grid item xs={12} md={teams.length > 0 ? 3 : 4}>
               <FormControl fullWidth>
                 <InputLabel>Criticality</InputLabel>
                 <Select
@@ -600,6 +618,25 @@ const Products: React.FC = () => {
                 </Select>
               </FormControl>
             </Grid>
+            {teams.length > 0 && (
+              <Grid item xs={12} md={3}>
+                <FormControl fullWidth>
+                  <InputLabel>Team</InputLabel>
+                  <Select
+                    value={teamFilter}
+                    onChange={(e) => setTeamFilter(e.target.value)}
+                    label="Team"
+                  >
+                    <MenuItem value="ALL">All Teams</MenuItem>
+                    {teams.map((team) => (
+                      <MenuItem key={team.id} value={team.id}>
+                        {team.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            )}
           </Grid>
         </CardContent>
       </Card>
@@ -757,6 +794,29 @@ const Products: React.FC = () => {
                 )}
               />
 
+              <Controller
+                name="catalogId"
+                control={control}
+                render={({ field }) => (
+                  <FormControl fullWidth disabled={catalogLocked}>
+                    <InputLabel>Control Catalog</InputLabel>
+                    <Select {...field} label="Control Catalog">
+                      {catalogs.map((catalog) => (
+                        <MenuItem key={catalog.id} value={catalog.id}>
+                          {catalog.name}
+                          {catalog.version ? ` ${catalog.version}` : ''}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                    <FormHelperText>
+                      {catalogLocked
+                        ? 'Cannot be changed once the product has assessments or a baseline'
+                        : 'Controls this product is baselined and assessed against'}
+                    </FormHelperText>
+                  </FormControl>
+                )}
+              />
+
               {/* FIPS 199 Guidance */}
               <FIPS199Guidance />
             </Box>
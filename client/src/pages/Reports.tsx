@@ -2,7 +2,9 @@
  * Reports Page
  *
  * Central hub for generating compliance reports and exports.
- * Supports multiple report types: PDF audit reports, Excel workbooks, CSV exports.
+ * Supports multiple report types: PDF audit reports, Excel workbooks, CSV exports,
+ * and server-generated documents: the System Security Plan (PDF or DOCX) and
+ * OSCAL JSON (SSP, assessment results, POA&M).
  */
 
 import React, { useState, useMemo } from 'react';
@@ -36,11 +38,18 @@ import {
   Download as DownloadIcon,
   CheckCircle as CheckIcon,
   Business as ProductIcon,
+  DataObject as OscalIcon,
+  Policy as SspIcon,
 } from '@mui/icons-material';
 import { useProducts } from '../hooks/useProducts';
+import { hasPermission } from '../hooks/usePermissions';
 import { useAssessmentMatrix } from '../hooks/useAssessments';
 import { useSystems } from '../hooks/useSystems';
 import { useNotification } from '../contexts/NotificationContext';
+import ScheduledReports from '../components/ScheduledReports';
+import { downloadOscalDocument } from '../hooks/useOscal';
+import { downloadSystemSecurityPlan } from '../hooks/useReports';
+import type { OscalDocumentType, SspFormat } from '../types/api.types';
 import {
   exportToCSV,
   exportToExcel,
@@ -58,9 +67,12 @@ interface ReportType {
   name: string;
   description: string;
   icon: React.ReactNode;
-  format: 'pdf' | 'excel' | 'csv';
+  format: 'pdf' | 'excel' | 'csv' | 'json' | 'docx';
   features: string[];
   recommended?: boolean;
+  // Generated on the server rather than from the assessment matrix
+  oscal?: OscalDocumentType;
+  ssp?: SspFormat;
 }
 
 const REPORT_TYPES: ReportType[] = [
@@ -144,6 +156,76 @@ const REPORT_TYPES: ReportType[] = [
       'Editable in Excel',
     ],
   },
+  {
+    id: 'ssp-pdf',
+    name: 'System Security Plan (PDF)',
+    description: 'Authorization-ready SSP document generated from the product',
+    icon: <SspIcon fontSize="large" />,
+    format: 'pdf',
+    ssp: 'PDF',
+    features: [
+      'System identification and categorization',
+      'Implementation statement per control and system',
+      'Control owners from assignments',
+      'Evidence appendix',
+    ],
+  },
+  {
+    id: 'ssp-docx',
+    name: 'System Security Plan (Word)',
+    description: 'Editable SSP document for review before submission',
+    icon: <SspIcon fontSize="large" />,
+    format: 'docx',
+    ssp: 'DOCX',
+    features: [
+      'Same content as the PDF SSP',
+      'Heading styles for a table of contents',
+      'Editable implementation statements',
+      'DOCX format',
+    ],
+  },
+  {
+    id: 'oscal-ssp',
+    name: 'OSCAL System Security Plan',
+    description: 'Machine-readable SSP for GRC tools and authorization packages',
+    icon: <OscalIcon fontSize="large" />,
+    format: 'json',
+    oscal: 'ssp',
+    features: [
+      'Systems as SSP components',
+      'Baseline mapped to 800-53 controls',
+      'Implementation status per system',
+      'OSCAL 1.1.2 JSON',
+    ],
+  },
+  {
+    id: 'oscal-assessment-results',
+    name: 'OSCAL Assessment Results',
+    description: 'Assessment findings and observations in OSCAL format',
+    icon: <OscalIcon fontSize="large" />,
+    format: 'json',
+    oscal: 'assessment-results',
+    features: [
+      'Finding per assessed control and system',
+      'Observations with assessor and date',
+      'Evidence files as relevant evidence',
+      'OSCAL 1.1.2 JSON',
+    ],
+  },
+  {
+    id: 'oscal-poam',
+    name: 'OSCAL POA&M',
+    description: 'Plan of action and milestones for open findings in OSCAL format',
+    icon: <OscalIcon fontSize="large" />,
+    format: 'json',
+    oscal: 'poam',
+    features: [
+      'Item per non-compliant or partial control',
+      'Risks with deadlines',
+      'Remediation tasks as milestones',
+      'OSCAL 1.1.2 JSON',
+    ],
+  },
 ];
 
 const Reports: React.FC = () => {
@@ -155,7 +237,12 @@ const Reports: React.FC = () => {
   >([]);
 
   const { showNotification, addNotification } = useNotification();
-  const { data: products, isLoading: productsLoading } = useProducts();
+  const { data: allProducts, isLoading: productsLoading } = useProducts();
+  // Only offer products the user may generate reports for
+  const products = useMemo(
+    () => allProducts?.filter((p) => hasPermission(p.permissions, 'report:generate')),
+    [allProducts]
+  );
   const { data: systems } = useSystems(selectedProduct || undefined);
   const { data: matrixData, isLoading: matrixLoading } = useAssessmentMatrix(
     selectedProduct || '',
@@ -242,7 +329,10 @@ const Reports: React.FC = () => {
       return;
     }
 
-    if (matrixRows.length === 0) {
+    const reportType = REPORT_TYPES.find((r) => r.id === selectedReport);
+
+    const serverGenerated = !!(reportType?.oscal || reportType?.ssp);
+    if (matrixRows.length === 0 && !serverGenerated) {
       showNotification('No assessment data available for this product', 'warning');
       return;
     }
@@ -250,40 +340,52 @@ const Reports: React.FC = () => {
     setIsGenerating(true);
 
     try {
-      const reportType = REPORT_TYPES.find((r) => r.id === selectedReport);
-
-      switch (selectedReport) {
-        case 'audit-pdf':
-          exportAuditReportToPDF(exportProduct, assessments);
-          break;
-
-        case 'audit-excel':
-          exportAuditWorkbookToExcel(
-            exportProduct,
-            matrixRows,
-            systemNames,
-            assessments
-          );
-          break;
-
-        case 'matrix-pdf':
-          exportMatrixToPDF(exportProduct.name, matrixRows, systemNames);
-          break;
-
-        case 'full-excel':
-          exportFullReportToExcel(exportProduct, matrixRows, systemNames);
-          break;
-
-        case 'data-csv':
-          exportToCSV(matrixRows);
-          break;
-
-        case 'simple-excel':
-          exportToExcel(matrixRows);
-          break;
-
-        default:
-          throw new Error('Unknown report type');
+      if (reportType?.ssp) {
+        await downloadSystemSecurityPlan(
+          exportProduct.id,
+          reportType.ssp,
+          `ssp-${exportProduct.name.replace(/[^a-z0-9]/gi, '-')}.${reportType.ssp.toLowerCase()}`
+        );
+      } else if (reportType?.oscal) {
+        await downloadOscalDocument(
+          exportProduct.id,
+          reportType.oscal,
+          `oscal-${reportType.oscal}-${exportProduct.name.replace(/[^a-z0-9]/gi, '-')}.json`
+        );
+      } else {
+        switch (selectedReport) {
+          case 'audit-pdf':
+            exportAuditReportToPDF(exportProduct, assessments);
+            break;
+
+          case 'audit-excel':
+            exportAuditWorkbookToExcel(
+              exportProduct,
+              matrixRows,
+              systemNames,
+              assessments
+            );
+            break;
+
+          case 'matrix-pdf':
+            exportMatrixToPDF(exportProduct.name, matrixRows, systemNames);
+            break;
+
+          case 'full-excel':
+            exportFullReportToExcel(exportProduct, matrixRows, systemNames);
+            break;
+
+          case 'data-csv':
+            exportToCSV(matrixRows);
+            break;
+
+          case 'simple-excel':
+            exportToExcel(matrixRows);
+            break;
+
+          default:
+            throw new Error('Unknown report type');
+        }
       }
 
       // Track recent report
@@ -579,8 +681,9 @@ const Reports: React.FC = () => {
                   disabled={
                     !selectedProduct ||
                     isGenerating ||
-                    matrixLoading ||
-                    matrixRows.length === 0
+                    (!selectedReportType.oscal &&
+                      !selectedReportType.ssp &&
+                      (matrixLoading || matrixRows.length === 0))
                   }
                 >
                   {isGenerating ? 'Generating...' : 'Generate Report'}
@@ -592,7 +695,11 @@ const Reports: React.FC = () => {
                   </Alert>
                 )}
 
-                {selectedProduct && matrixRows.length === 0 && !matrixLoading && (
+                {selectedProduct &&
+                  !selectedReportType.oscal &&
+                  !selectedReportType.ssp &&
+                  matrixRows.length === 0 &&
+                  !matrixLoading && (
                   <Alert severity="warning" sx={{ mt: 2 }}>
                     No assessment data available for this product
                   </Alert>
@@ -603,6 +710,11 @@ const Reports: React.FC = () => {
         </Grid>
 
         {/* Recent Reports */}
+        {/* Scheduled Reports */}
+        <Grid item xs={12}>
+          <ScheduledReports products={products || []} />
+        </Grid>
+
         {recentReports.length > 0 && (
           <Grid item xs={12}>
             <Paper sx={{ p: 3 }}>
@@ -617,6 +729,10 @@ const Reports: React.FC = () => {
                         <PdfIcon color="error" />
                       ) : report.type === 'excel' ? (
                         <ExcelIcon color="success" />
+                      ) : report.type === 'json' ? (
+                        <OscalIcon color="secondary" />
+                      ) : report.type === 'docx' ? (
+                        <SspIcon color="primary" />
                       ) : (
                         <CsvIcon color="primary" />
                       )}
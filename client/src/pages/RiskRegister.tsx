@@ -0,0 +1,652 @@
+/**
+ * Risk Register Page
+ *
+ * A product's risk scenarios: threat, vulnerability, owner and treatment, with
+ * an inherent likelihood x impact score. Each risk links to systems and to the
+ * controls that mitigate it; the compliance of those controls on the linked
+ * systems sets the residual score. Risks are plotted on the likelihood x
+ * impact matrix and listed by residual score.
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  Grid,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  OutlinedInput,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Assessment as AssessmentIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useProducts } from '../hooks/useProducts';
+import { useSystems } from '../hooks/useSystems';
+import { useUsers } from '../hooks/useAssignments';
+import { useProductBaseline } from '../hooks/useBaseline';
+import { useProductPermissions } from '../hooks/usePermissions';
+import {
+  useCreateRegisterRisk,
+  useDeleteRegisterRisk,
+  useRegisterRisk,
+  useRegisterRisks,
+  useUpdateRegisterRisk,
+} from '../hooks/useRiskRegister';
+import { RiskRegisterMatrix } from '../components/RiskHeatMap';
+import LossEstimateEditor from '../components/LossEstimateEditor';
+import AuditHistory from '../components/AuditHistory';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { getErrorMessage } from '../services/api';
+import type {
+  RegisterRisk,
+  RiskRating,
+  RiskRegisterStatus,
+  RiskTreatment,
+} from '../types/api.types';
+
+const RATING_COLORS: Record<RiskRating, string> = {
+  CRITICAL: '#b71c1c',
+  HIGH: '#f44336',
+  MEDIUM: '#ff9800',
+  LOW: '#4caf50',
+};
+
+const TREATMENTS: { value: RiskTreatment; label: string }[] = [
+  { value: 'MITIGATE', label: 'Mitigate' },
+  { value: 'ACCEPT', label: 'Accept' },
+  { value: 'TRANSFER', label: 'Transfer' },
+  { value: 'AVOID', label: 'Avoid' },
+];
+
+const LEVELS = [
+  { value: 1, likelihood: 'Rare', impact: 'Negligible' },
+  { value: 2, likelihood: 'Unlikely', impact: 'Minor' },
+  { value: 3, likelihood: 'Possible', impact: 'Moderate' },
+  { value: 4, likelihood: 'Likely', impact: 'Major' },
+  { value: 5, likelihood: 'Almost certain', impact: 'Severe' },
+];
+
+// Helper: ISO date to a date input value and back
+const toInputDate = (value?: string | null) => (value ? value.slice(0, 10) : '');
+const fromInputDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const scoreChip = (score: number, rating: RiskRating) => (
+  <Chip size="small" label={`${score} ${rating}`} sx={{ bgcolor: RATING_COLORS[rating], color: '#fff' }} />
+);
+
+const RiskRegister: React.FC = () => {
+  const { id: productId = '' } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const { data: products = [] } = useProducts();
+  const product = products.find((p) => p.id === productId);
+  const { can } = useProductPermissions(product ? productId : undefined);
+
+  const [statusFilter, setStatusFilter] = useState<RiskRegisterStatus | ''>('OPEN');
+  const [creating, setCreating] = useState(false);
+
+  const {
+    data: risks = [],
+    isLoading,
+    error,
+  } = useRegisterRisks(product ? productId : undefined, statusFilter || undefined);
+
+  // The open risk is kept in the URL so the analytics heat map can link to it
+  const selectedId = searchParams.get('risk');
+  const selectRisk = (id: string | null) => setSearchParams(id ? { risk: id } : {});
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3 }}>
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight="bold" gutterBottom>
+            Risk Register
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Risk scenarios scored by likelihood and impact, with residual risk from their mitigating controls.
+          </Typography>
+        </Box>
+        {productId && (
+          <Button
+            variant="outlined"
+            startIcon={<AssessmentIcon />}
+            onClick={() => navigate(`/products/${productId}/assessments`)}
+          >
+            Assessments
+          </Button>
+        )}
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }} alignItems="center">
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Product</InputLabel>
+            <Select
+              value={product ? productId : ''}
+              label="Product"
+              onChange={(e) => navigate(`/products/${e.target.value}/risks`)}
+            >
+              {products.map((p) => (
+                <MenuItem key={p.id} value={p.id}>
+                  {p.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <FormControl fullWidth>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={statusFilter}
+              label="Status"
+              onChange={(e) => setStatusFilter(e.target.value as RiskRegisterStatus | '')}
+            >
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="OPEN">Open</MenuItem>
+              <MenuItem value="CLOSED">Closed</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} md={6} sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setCreating(true)}
+            disabled={!product || !can('assessment:edit')}
+          >
+            Add Risk
+          </Button>
+        </Grid>
+      </Grid>
+
+      {!product ? (
+        <Alert severity="info">Select a product to view its risk register.</Alert>
+      ) : error ? (
+        <Alert severity="error">{getErrorMessage(error)}</Alert>
+      ) : isLoading ? (
+        <LinearProgress />
+      ) : (
+        <Grid container spacing={3}>
+          <Grid item xs={12} lg={5}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" fontWeight="bold" gutterBottom>
+                  Risk Matrix
+                </Typography>
+                <RiskRegisterMatrix risks={risks} onRiskClick={selectRisk} />
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid item xs={12} lg={7}>
+            <Paper>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Risk ID</TableCell>
+                      <TableCell>Risk</TableCell>
+                      <TableCell>Owner</TableCell>
+                      <TableCell>Treatment</TableCell>
+                      <TableCell>Inherent</TableCell>
+                      <TableCell>Controls</TableCell>
+                      <TableCell>Residual</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {risks.map((risk) => (
+                      <TableRow key={risk.id} hover sx={{ cursor: 'pointer' }} onClick={() => selectRisk(risk.id)}>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight="medium">
+                            {risk.riskId}
+                          </Typography>
+                        </TableCell>
+                        <TableCell sx={{ maxWidth: 260 }}>
+                          <Typography variant="body2" noWrap title={risk.title}>
+                            {risk.title}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary" noWrap display="block">
+                            {risk.systems.map((s) => s.name).join(', ') || 'All systems'}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>{risk.owner?.name || '—'}</TableCell>
+                        <TableCell>{TREATMENTS.find((t) => t.value === risk.treatment)?.label}</TableCell>
+                        <TableCell>{scoreChip(risk.inherentScore, risk.inherentRating)}</TableCell>
+                        <TableCell sx={{ minWidth: 110 }}>
+                          {risk.controls.length === 0 ? (
+                            '—'
+                          ) : (
+                            <>
+                              <Typography variant="caption" color="text.secondary">
+                                {risk.controls.length} · {risk.controlEffectiveness}% effective
+                              </Typography>
+                              <LinearProgress variant="determinate" value={risk.controlEffectiveness} />
+                            </>
+                          )}
+                        </TableCell>
+                        <TableCell>{scoreChip(risk.residualScore, risk.residualRating)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {risks.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} align="center">
+                          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                            No risks recorded.
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+
+      {creating && (
+        <Dialog open onClose={() => setCreating(false)} maxWidth="md" fullWidth>
+          <RiskForm productId={productId} canEdit onClose={() => setCreating(false)} />
+        </Dialog>
+      )}
+      {selectedId && (
+        <RiskDialog id={selectedId} productId={productId} canEdit={can('assessment:edit')} onClose={() => selectRisk(null)} />
+      )}
+    </Box>
+  );
+};
+
+// Detail dialog: loads the risk with its control effectiveness, then hands it to the form
+const RiskDialog: React.FC<{ id: string; productId: string; canEdit: boolean; onClose: () => void }> = ({
+  id,
+  productId,
+  canEdit,
+  onClose,
+}) => {
+  const { data: risk, isLoading, error } = useRegisterRisk(id);
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      {error ? (
+        <DialogContent>
+          <Alert severity="error">{getErrorMessage(error)}</Alert>
+        </DialogContent>
+      ) : isLoading || !risk ? (
+        <DialogContent>
+          <LinearProgress />
+        </DialogContent>
+      ) : (
+        <RiskForm key={risk.updatedAt} productId={productId} risk={risk} canEdit={canEdit} onClose={onClose} />
+      )}
+    </Dialog>
+  );
+};
+
+const RiskForm: React.FC<{ productId: string; risk?: RegisterRisk; canEdit: boolean; onClose: () => void }> = ({
+  productId,
+  risk,
+  canEdit,
+  onClose,
+}) => {
+  const { showNotification } = useNotification();
+  const { user } = useAuth();
+  const { data: systems = [] } = useSystems(productId);
+  const { data: users = [] } = useUsers();
+  const { data: baseline } = useProductBaseline(productId);
+  const createRisk = useCreateRegisterRisk();
+  const updateRisk = useUpdateRegisterRisk();
+  const deleteRisk = useDeleteRegisterRisk();
+
+  const [form, setForm] = useState({
+    title: risk?.title || '',
+    description: risk?.description || '',
+    threat: risk?.threat || '',
+    vulnerability: risk?.vulnerability || '',
+    likelihood: risk?.likelihood || 3,
+    impact: risk?.impact || 3,
+    treatment: risk?.treatment || ('MITIGATE' as RiskTreatment),
+    treatmentPlan: risk?.treatmentPlan || '',
+    status: risk?.status || ('OPEN' as RiskRegisterStatus),
+    reviewDate: toInputDate(risk?.reviewDate),
+    ownerId: risk?.ownerId || '',
+    systemIds: risk?.systems.map((s) => s.id) || [],
+    controlIds: risk?.controls.map((c) => c.controlId) || [],
+  });
+
+  const set = <K extends keyof typeof form>(key: K, value: (typeof form)[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const isSaving = createRisk.isPending || updateRisk.isPending;
+  const isValid = !!form.title.trim() && !!form.threat.trim() && !!form.vulnerability.trim();
+
+  const handleSave = async () => {
+    const data = {
+      title: form.title.trim(),
+      description: form.description || null,
+      threat: form.threat.trim(),
+      vulnerability: form.vulnerability.trim(),
+      likelihood: form.likelihood,
+      impact: form.impact,
+      treatment: form.treatment,
+      treatmentPlan: form.treatmentPlan || null,
+      status: form.status,
+      reviewDate: fromInputDate(form.reviewDate),
+      ownerId: form.ownerId || null,
+      systemIds: form.systemIds,
+      controlIds: form.controlIds,
+    };
+
+    try {
+      if (risk) {
+        await updateRisk.mutateAsync({ id: risk.id, ...data });
+        showNotification(`${risk.riskId} updated`, 'success');
+      } else {
+        const created = await createRisk.mutateAsync({ productId, ...data });
+        showNotification(`${created.riskId} recorded`, 'success');
+        onClose();
+      }
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!risk || !window.confirm(`Delete ${risk.riskId}?`)) return;
+    try {
+      await deleteRisk.mutateAsync(risk.id);
+      showNotification(`${risk.riskId} deleted`, 'success');
+      onClose();
+    } catch (error) {
+      showNotification(getErrorMessage(error), 'error');
+    }
+  };
+
+  return (
+    <>
+      <DialogTitle>{risk ? `${risk.riskId} · ${risk.title}` : 'Add Risk'}</DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2}>
+          <Grid item xs={12}>
+            <TextField
+              label="Title"
+              value={form.title}
+              onChange={(e) => set('title', e.target.value)}
+              placeholder="e.g., Ransomware on the billing database"
+              required
+              fullWidth
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              label="Threat"
+              value={form.threat}
+              onChange={(e) => set('threat', e.target.value)}
+              multiline
+              rows={2}
+              required
+              fullWidth
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              label="Vulnerability"
+              value={form.vulnerability}
+              onChange={(e) => set('vulnerability', e.target.value)}
+              multiline
+              rows={2}
+              required
+              fullWidth
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              label="Description"
+              value={form.description}
+              onChange={(e) => set('description', e.target.value)}
+              multiline
+              rows={2}
+              fullWidth
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <FormControl fullWidth disabled={!canEdit}>
+              <InputLabel>Likelihood</InputLabel>
+              <Select value={form.likelihood} label="Likelihood" onChange={(e) => set('likelihood', Number(e.target.value))}>
+                {LEVELS.map((l) => (
+                  <MenuItem key={l.value} value={l.value}>
+                    {l.value} · {l.likelihood}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <FormControl fullWidth disabled={!canEdit}>
+              <InputLabel>Impact</InputLabel>
+              <Select value={form.impact} label="Impact" onChange={(e) => set('impact', Number(e.target.value))}>
+                {LEVELS.map((l) => (
+                  <MenuItem key={l.value} value={l.value}>
+                    {l.value} · {l.impact}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <FormControl fullWidth disabled={!canEdit}>
+              <InputLabel>Owner</InputLabel>
+              <Select value={form.ownerId} label="Owner" onChange={(e) => set('ownerId', e.target.value)}>
+                <MenuItem value="">
+                  <em>Unassigned</em>
+                </MenuItem>
+                {users.map((u) => (
+                  <MenuItem key={u.id} value={u.id}>
+                    {u.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <FormControl fullWidth disabled={!canEdit}>
+              <InputLabel>Status</InputLabel>
+              <Select
+                value={form.status}
+                label="Status"
+                onChange={(e) => set('status', e.target.value as RiskRegisterStatus)}
+              >
+                <MenuItem value="OPEN">Open</MenuItem>
+                <MenuItem value="CLOSED">Closed</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <FormControl fullWidth disabled={!canEdit}>
+              <InputLabel>Treatment</InputLabel>
+              <Select
+                value={form.treatment}
+                label="Treatment"
+                onChange={(e) => set('treatment', e.target.value as RiskTreatment)}
+              >
+                {TREATMENTS.map((t) => (
+                  <MenuItem key={t.value} value={t.value}>
+                    {t.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              label="Next review"
+              type="date"
+              value={form.reviewDate}
+              onChange={(e) => set('reviewDate', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              label="Treatment plan"
+              value={form.treatmentPlan}
+              onChange={(e) => set('treatmentPlan', e.target.value)}
+              fullWidth
+              disabled={!canEdit}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <FormControl fullWidth disabled={!canEdit}>
+              <InputLabel>Systems</InputLabel>
+              <Select
+                multiple
+                value={form.systemIds}
+                onChange={(e) => set('systemIds', e.target.value as string[])}
+                input={<OutlinedInput label="Systems" />}
+                renderValue={(selected) =>
+                  selected.map((id) => systems.find((s) => s.id === id)?.name || id).join(', ')
+                }
+              >
+                {systems.map((s) => (
+                  <MenuItem key={s.id} value={s.id}>
+                    {s.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <Autocomplete
+              multiple
+              freeSolo
+              options={baseline?.controlIds || []}
+              value={form.controlIds}
+              onChange={(_, value) => set('controlIds', value)}
+              disabled={!canEdit}
+              renderInput={(params) => (
+                <TextField {...params} label="Mitigating controls" placeholder="e.g., PR.DS-01" />
+              )}
+            />
+          </Grid>
+        </Grid>
+
+        {risk && (
+          <>
+            <Divider sx={{ my: 3 }} />
+            <Box sx={{ display: 'flex', gap: 3, alignItems: 'center', mb: 2 }}>
+              <Box>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  Inherent
+                </Typography>
+                {scoreChip(risk.inherentScore, risk.inherentRating)}
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  Control effectiveness
+                </Typography>
+                <Typography variant="body2" fontWeight="bold">
+                  {risk.controlEffectiveness}%
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  Residual (likelihood {risk.residualLikelihood} × impact {risk.residualImpact})
+                </Typography>
+                {scoreChip(risk.residualScore, risk.residualRating)}
+              </Box>
+              <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+                Updated {format(new Date(risk.updatedAt), 'MMM dd, yyyy')}
+              </Typography>
+            </Box>
+            {risk.controls.length > 0 ? (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Control</TableCell>
+                    <TableCell>Effectiveness</TableCell>
+                    <TableCell>Assessments</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {risk.controls.map((control) => (
+                    <TableRow key={control.controlId}>
+                      <TableCell>{control.controlId}</TableCell>
+                      <TableCell>
+                        {control.effectiveness === null
+                          ? control.assessments.length
+                            ? 'Not applicable'
+                            : 'Not assessed'
+                          : `${Math.round(control.effectiveness * 100)}%`}
+                      </TableCell>
+                      <TableCell>
+                        {control.assessments.map((a) => `${a.systemName}: ${a.status}`).join(' · ') || '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <Alert severity="info">
+                Link mitigating controls to derive residual risk from their assessments.
+              </Alert>
+            )}
+            <Divider sx={{ my: 3 }} />
+            <LossEstimateEditor productId={productId} riskId={risk.id} />
+            {/* The audit log is limited to admins and auditors */}
+            {(user?.role === 'ADMIN' || user?.role === 'AUDITOR') && (
+              <>
+                <Divider sx={{ my: 3 }} />
+                <AuditHistory entityType="Risk" entityId={risk.id} compact maxItems={10} />
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {risk && canEdit && (
+          <Button color="error" startIcon={<DeleteIcon />} onClick={handleDelete} sx={{ mr: 'auto' }}>
+            Delete
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+        {canEdit && (
+          <Button variant="contained" onClick={handleSave} disabled={!isValid || isSaving}>
+            {risk ? 'Save' : 'Add Risk'}
+          </Button>
+        )}
+      </DialogActions>
+    </>
+  );
+};
+
+export default RiskRegister;
@@ -47,6 +47,10 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Folder as FolderIcon,
+  Groups as GroupsIcon,
+  AdminPanelSettings as AccessIcon,
+  Webhook as WebhookIcon,
+  FactCheck as AuditIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
@@ -56,8 +60,16 @@ import {
   useUpdateCapabilityCentre,
   useDeleteCapabilityCentre,
 } from '../hooks/useCapabilityCentres';
-import { useFrameworks } from '../hooks';
+import { useFrameworks, useTeams, hasPermission } from '../hooks';
 import type { CapabilityCentre } from '../types/api.types';
+import TeamManagement from '../components/TeamManagement';
+import WebhookManagement from '../components/WebhookManagement';
+import TrackerConnectionManagement from '../components/TrackerConnectionManagement';
+import ControlCatalogManagement from '../components/ControlCatalogManagement';
+import AuditIntegrity from '../components/AuditIntegrity';
+import ScopeAccessDialog from '../components/ScopeAccessDialog';
+import NotificationPreferences from '../components/NotificationPreferences';
+import EmailDigestSettings from '../components/EmailDigestSettings';
 import axios from 'axios';
 import { format } from 'date-fns';
 
@@ -113,6 +125,7 @@ interface CCFormData {
   description: string;
   code: string;
   color: string;
+  teamId: string;
 }
 
 const Settings: React.FC = () => {
@@ -142,9 +155,6 @@ const Settings: React.FC = () => {
     const saved = localStorage.getItem('darkMode');
     return saved ? JSON.parse(saved) : false;
   });
-  const [emailNotifications, setEmailNotifications] = useState(true);
-  const [assessmentReminders, setAssessmentReminders] = useState(true);
-  const [complianceAlerts, setComplianceAlerts] = useState(true);
   const [defaultProduct, setDefaultProduct] = useState('');
   const [defaultDateRange, setDefaultDateRange] = useState('30');
   const [exportFormat, setExportFormat] = useState('pdf');
@@ -158,16 +168,21 @@ const Settings: React.FC = () => {
   const createCC = useCreateCapabilityCentre();
   const updateCC = useUpdateCapabilityCentre();
   const deleteCC = useDeleteCapabilityCentre();
+  const { data: teams = [] } = useTeams();
+  // Only teams where the user is owner/admin can receive shared capability centres
+  const shareableTeams = teams.filter((t) => t.role === 'OWNER' || t.role === 'ADMIN');
 
   const [ccDialogOpen, setCcDialogOpen] = useState(false);
   const [editingCC, setEditingCC] = useState<CapabilityCentre | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [ccToDelete, setCcToDelete] = useState<CapabilityCentre | null>(null);
+  const [accessCC, setAccessCC] = useState<CapabilityCentre | null>(null);
   const [ccFormData, setCcFormData] = useState<CCFormData>({
     name: '',
     description: '',
     code: '',
     color: CC_COLORS[0],
+    teamId: '',
   });
 
   // Load preferences from localStorage
@@ -175,9 +190,6 @@ const Settings: React.FC = () => {
     const savedPreferences = localStorage.getItem('userPreferences');
     if (savedPreferences) {
       const prefs = JSON.parse(savedPreferences);
-      setEmailNotifications(prefs.emailNotifications ?? true);
-      setAssessmentReminders(prefs.assessmentReminders ?? true);
-      setComplianceAlerts(prefs.complianceAlerts ?? true);
       setDefaultProduct(prefs.defaultProduct || '');
       setDefaultDateRange(prefs.defaultDateRange || '30');
       setExportFormat(prefs.exportFormat || 'pdf');
@@ -325,9 +337,6 @@ const Settings: React.FC = () => {
 
       // Save other preferences
       const preferences = {
-        emailNotifications,
-        assessmentReminders,
-        complianceAlerts,
         defaultProduct,
         defaultDateRange,
         exportFormat,
@@ -357,6 +366,7 @@ const Settings: React.FC = () => {
         description: cc.description || '',
         code: cc.code || '',
         color: cc.color || CC_COLORS[0],
+        teamId: cc.teamId || '',
       });
     } else {
       setEditingCC(null);
@@ -365,6 +375,7 @@ const Settings: React.FC = () => {
         description: '',
         code: '',
         color: CC_COLORS[0],
+        teamId: '',
       });
     }
     setCcDialogOpen(true);
@@ -384,6 +395,7 @@ const Settings: React.FC = () => {
           description: ccFormData.description || undefined,
           code: ccFormData.code || undefined,
           color: ccFormData.color,
+          teamId: ccFormData.teamId || null,
         },
       });
     } else {
@@ -392,6 +404,7 @@ const Settings: React.FC = () => {
         description: ccFormData.description || undefined,
         code: ccFormData.code || undefined,
         color: ccFormData.color,
+        teamId: ccFormData.teamId || null,
       });
     }
     handleCloseCCDialog();
@@ -458,6 +471,29 @@ const Settings: React.FC = () => {
               label="Organization"
               {...a11yProps(3)}
             />
+            <Tab
+              icon={<GroupsIcon />}
+              iconPosition="start"
+              label="Teams"
+              {...a11yProps(4)}
+            />
+            {user?.role === 'ADMIN' && (
+              <Tab
+                icon={<WebhookIcon />}
+                iconPosition="start"
+                label="Integrations"
+                {...a11yProps(5)}
+              />
+            )}
+            {(user?.role === 'ADMIN' || user?.role === 'AUDITOR') && (
+              <Tab
+                icon={<AuditIcon />}
+                iconPosition="start"
+                label="Audit"
+                value={6}
+                {...a11yProps(6)}
+              />
+            )}
           </Tabs>
         </Box>
 
@@ -793,62 +829,18 @@ const Settings: React.FC = () => {
               Manage how you receive notifications.
             </Typography>
 
+            <Typography variant="subtitle1" gutterBottom>
+              Email Digest
+            </Typography>
             <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={emailNotifications}
-                    onChange={(e) => setEmailNotifications(e.target.checked)}
-                    disabled={preferencesLoading}
-                  />
-                }
-                label={
-                  <Box>
-                    <Typography variant="body1">Email Notifications</Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      Receive notifications via email
-                    </Typography>
-                  </Box>
-                }
-                sx={{ mb: 2 }}
-              />
-
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={assessmentReminders}
-                    onChange={(e) => setAssessmentReminders(e.target.checked)}
-                    disabled={preferencesLoading}
-                  />
-                }
-                label={
-                  <Box>
-                    <Typography variant="body1">Assessment Reminders</Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      Get reminded about pending assessments
-                    </Typography>
-                  </Box>
-                }
-                sx={{ mb: 2 }}
-              />
+              <EmailDigestSettings />
+            </Paper>
 
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={complianceAlerts}
-                    onChange={(e) => setComplianceAlerts(e.target.checked)}
-                    disabled={preferencesLoading}
-                  />
-                }
-                label={
-                  <Box>
-                    <Typography variant="body1">Compliance Alerts</Typography>
-                    <Typography variant="caption" color="text.secondary">
-                      Receive alerts for compliance issues
-                    </Typography>
-                  </Box>
-                }
-              />
+            <Typography variant="subtitle1" gutterBottom>
+              In-App Notifications
+            </Typography>
+            <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+              <NotificationPreferences />
             </Paper>
 
             <Divider sx={{ my: 3 }} />
@@ -986,7 +978,7 @@ const Settings: React.FC = () => {
                     return (
                       <React.Fragment key={cc.id}>
                         {index > 0 && <Divider />}
-                        <ListItem sx={{ py: 2 }}>
+                        <ListItem sx={{ py: 2, pr: 18 }}>
                           <Box
                             sx={{
                               width: 40,
@@ -1011,6 +1003,15 @@ const Settings: React.FC = () => {
                                 {cc.code && (
                                   <Chip label={cc.code} size="small" variant="outlined" />
                                 )}
+                                {cc.team && (
+                                  <Chip
+                                    icon={<GroupsIcon />}
+                                    label={cc.team.name}
+                                    size="small"
+                                    color="primary"
+                                    variant="outlined"
+                                  />
+                                )}
                               </Box>
                             }
                             secondary={
@@ -1027,24 +1028,40 @@ const Settings: React.FC = () => {
                             }
                           />
                           <ListItemSecondaryAction>
-                            <Tooltip title="Edit">
-                              <IconButton
-                                edge="end"
-                                onClick={() => handleOpenCCDialog(cc)}
-                                sx={{ mr: 1 }}
-                              >
-                                <EditIcon />
-                              </IconButton>
-                            </Tooltip>
-                            <Tooltip title="Delete">
-                              <IconButton
-                                edge="end"
-                                onClick={() => handleDeleteCC(cc)}
-                                color="error"
-                              >
-                                <DeleteIcon />
-                              </IconButton>
-                            </Tooltip>
+                            {hasPermission(cc.permissions, 'access:manage') && (
+                              <Tooltip title="Manage access">
+                                <IconButton
+                                  edge="end"
+                                  onClick={() => setAccessCC(cc)}
+                                  sx={{ mr: 1 }}
+                                >
+                                  <AccessIcon />
+                                </IconButton>
+                              </Tooltip>
+                            )}
+                            {hasPermission(cc.permissions, 'scope:manage') && (
+                              <Tooltip title="Edit">
+                                <IconButton
+                                  edge="end"
+                                  onClick={() => handleOpenCCDialog(cc)}
+                                  sx={{ mr: 1 }}
+                                >
+                                  <EditIcon />
+                                </IconButton>
+                              </Tooltip>
+                            )}
+                            {/* Only the owner may delete a capability centre */}
+                            {cc.userId === user?.id && (
+                              <Tooltip title="Delete">
+                                <IconButton
+                                  edge="end"
+                                  onClick={() => handleDeleteCC(cc)}
+                                  color="error"
+                                >
+                                  <DeleteIcon />
+                                </IconButton>
+                              </Tooltip>
+                            )}
                           </ListItemSecondaryAction>
                         </ListItem>
                       </React.Fragment>
@@ -1156,6 +1173,31 @@ const Settings: React.FC = () => {
             </Grid>
           </Box>
         </TabPanel>
+
+        {/* Teams Tab */}
+        <TabPanel value={activeTab} index={4}>
+          <Box sx={{ maxWidth: 800, mx: 'auto' }}>
+            <TeamManagement />
+          </Box>
+        </TabPanel>
+
+        {/* Integrations Tab (admins only) */}
+        {user?.role === 'ADMIN' && (
+          <TabPanel value={activeTab} index={5}>
+            <WebhookManagement />
+            <Divider sx={{ my: 4 }} />
+            <TrackerConnectionManagement />
+            <Divider sx={{ my: 4 }} />
+            <ControlCatalogManagement />
+          </TabPanel>
+        )}
+
+        {/* Audit Tab (admins and auditors) */}
+        {(user?.role === 'ADMIN' || user?.role === 'AUDITOR') && (
+          <TabPanel value={activeTab} index={6}>
+            <AuditIntegrity />
+          </TabPanel>
+        )}
       </Paper>
 
       {/* Capability Centre Dialog */}
@@ -1194,8 +1236,30 @@ const Settings: React.FC = () => {
             value={ccFormData.description}
             onChange={(e) => setCcFormData({ ...ccFormData, description: e.target.value })}
             placeholder="Brief description of this capability centre"
-            sx={{ mb: 3 }}
+            sx={{ mb: 2 }}
           />
+          <FormControl fullWidth margin="dense" sx={{ mb: 3 }}>
+            <InputLabel>Shared With Team</InputLabel>
+            <Select
+              value={ccFormData.teamId}
+              label="Shared With Team"
+              onChange={(e) => setCcFormData({ ...ccFormData, teamId: e.target.value })}
+            >
+              <MenuItem value="">
+                <em>Not shared (private)</em>
+              </MenuItem>
+              {shareableTeams.map((team) => (
+                <MenuItem key={team.id} value={team.id}>
+                  {team.name}
+                </MenuItem>
+              ))}
+              {editingCC?.team && !shareableTeams.some((t) => t.id === editingCC.team?.id) && (
+                <MenuItem value={editingCC.team.id} disabled>
+                  {editingCC.team.name}
+                </MenuItem>
+              )}
+            </Select>
+          </FormControl>
           <Typography variant="subtitle2" gutterBottom>
             Color
           </Typography>
@@ -1236,6 +1300,17 @@ const Settings: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Capability Centre Access Dialog */}
+      {accessCC && (
+        <ScopeAccessDialog
+          open={!!accessCC}
+          onClose={() => setAccessCC(null)}
+          scopeType="CAPABILITY_CENTRE"
+          scopeId={accessCC.id}
+          scopeName={accessCC.name}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
         <DialogTitle>Delete Capability Centre?</DialogTitle>
@@ -5,6 +5,7 @@
  * - System metadata (name, environment, criticality, data classification)
  * - Compliance score and status
  * - List of assessments for the system
+ * - Expired and soon-to-expire evidence
  */
 
 import React from 'react';
@@ -45,6 +46,7 @@ import {
 import { useSystem } from '../hooks/useSystems';
 import { useProduct } from '../hooks/useProducts';
 import { useAssessments } from '../hooks/useAssessments';
+import EvidenceExpiryPanel from '../components/EvidenceExpiryPanel';
 
 const getComplianceColor = (score: number): 'success' | 'info' | 'warning' | 'error' => {
   if (score >= 80) return 'success';
@@ -607,6 +609,8 @@ const SystemDetails: React.FC = () => {
           </Box>
         )}
       </Paper>
+
+      <EvidenceExpiryPanel systemId={system.id} productId={system.productId} />
     </Box>
   );
 };
@@ -46,6 +46,7 @@ import { format } from 'date-fns';
 // Hooks
 import { useSystems, useCreateSystem, useUpdateSystem, useDeleteSystem } from '../hooks/useSystems';
 import { useProducts } from '../hooks/useProducts';
+import { hasPermission } from '../hooks/usePermissions';
 
 // Types
 import type { System, CreateSystemInput, UpdateSystemInput } from '../types/api.types';
@@ -133,6 +134,11 @@ const Systems: React.FC = () => {
   // Fetch data
   const { data: systems = [], isLoading: systemsLoading, error: systemsError } = useSystems(filters.productId);
   const { data: products = [], isLoading: productsLoading } = useProducts();
+  // Products the user may add systems to
+  const manageableProducts = useMemo(
+    () => products.filter((p) => hasPermission(p.permissions, 'system:manage')),
+    [products]
+  );
 
   // Mutations
   const createSystemMutation = useCreateSystem();
@@ -159,10 +165,10 @@ const Systems: React.FC = () => {
 
   // Auto-select first product if no context and products are loaded
   React.useEffect(() => {
-    if (!contextProductId && products.length > 0) {
-      setCreateValue('productId', products[0].id);
+    if (!contextProductId && manageableProducts.length > 0) {
+      setCreateValue('productId', manageableProducts[0].id);
     }
-  }, [products, contextProductId, setCreateValue]);
+  }, [manageableProducts, contextProductId, setCreateValue]);
 
   const {
     control: editControl,
@@ -372,18 +378,22 @@ const Systems: React.FC = () => {
           onClick={() => handleViewClick(params.row)}
           showInMenu={false}
         />,
-        <GridActionsCellItem
-          icon={<EditIcon />}
-          label="Edit"
-          onClick={() => handleEditClick(params.row)}
-          showInMenu={false}
-        />,
-        <GridActionsCellItem
-          icon={<DeleteIcon />}
-          label="Delete"
-          onClick={() => handleDeleteClick(params.row)}
-          showInMenu={false}
-        />,
+        ...(hasPermission(params.row.permissions, 'system:manage')
+          ? [
+              <GridActionsCellItem
+                icon={<EditIcon />}
+                label="Edit"
+                onClick={() => handleEditClick(params.row)}
+                showInMenu={false}
+              />,
+              <GridActionsCellItem
+                icon={<DeleteIcon />}
+                label="Delete"
+                onClick={() => handleDeleteClick(params.row)}
+                showInMenu={false}
+              />,
+            ]
+          : []),
       ],
     },
   ];
@@ -433,13 +443,15 @@ const Systems: React.FC = () => {
           <Typography variant="h4" component="h1" fontWeight={600}>
             Systems Management
           </Typography>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={() => setIsCreateModalOpen(true)}
-          >
-            Add System
-          </Button>
+          {(products.length === 0 || manageableProducts.length > 0) && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setIsCreateModalOpen(true)}
+            >
+              Add System
+            </Button>
+          )}
         </Box>
       </Box>
 
@@ -573,7 +585,7 @@ const Systems: React.FC = () => {
         </DialogTitle>
         <form onSubmit={handleCreateSubmit(onCreateSubmit)}>
           <DialogContent dividers>
-            {products.length === 0 && (
+            {manageableProducts.length === 0 && (
               <Alert severity="warning" sx={{ mb: 2 }}>
                 No products available. Please create a product first before adding a system.
               </Alert>
@@ -628,7 +640,7 @@ const Systems: React.FC = () => {
                     error={!!createErrors.productId}
                     helperText={createErrors.productId?.message}
                   >
-                    {products.map((product) => (
+                    {manageableProducts.map((product) => (
                       <MenuItem key={product.id} value={product.id}>
                         {product.name}
                       </MenuItem>
@@ -709,7 +721,7 @@ const Systems: React.FC = () => {
             <Button
               type="submit"
               variant="contained"
-              disabled={createSystemMutation.isPending || products.length === 0}
+              disabled={createSystemMutation.isPending || manageableProducts.length === 0}
             >
               {createSystemMutation.isPending ? 'Creating...' : 'Create System'}
             </Button>
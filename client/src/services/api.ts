@@ -14,6 +14,26 @@ import { logger } from './logger';
 const API_BASE_URL = process.env.REACT_APP_API_URL ||
   (process.env.NODE_ENV === 'production' ? '' : 'http://localhost:3001');
 
+// Helper: 32 random hex characters
+function randomId(): string {
+  return Array.from(window.crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Identifies this browser tab to the server, which leaves a tab's own changes
+ * out of the live updates it sends back (see hooks/useRealtime.ts)
+ */
+export const CLIENT_ID_HEADER = 'X-Client-Id';
+export const CLIENT_ID = randomId();
+
+/**
+ * A write sent with an idempotency key is applied at most once: retrying it
+ * with the same key returns the first response (see services/offlineStore.ts)
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const newIdempotencyKey = randomId;
+
 /**
  * Create and configure axios instance
  */
@@ -35,6 +55,9 @@ api.interceptors.request.use(
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    if (config.headers) {
+      config.headers[CLIENT_ID_HEADER] = CLIENT_ID;
+    }
 
     // Log the request
     logger.api.request(
@@ -141,6 +164,29 @@ export const getErrorMessage = (error: unknown): string => {
   return 'An unexpected error occurred';
 };
 
+/**
+ * Server copy from a 409 version conflict, or null for any other error. The
+ * server refuses an edit based on a version someone else has since changed.
+ */
+export const getVersionConflict = <T = any>(error: unknown): T | null => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 409) return null;
+  const data = error.response.data as { code?: string; current?: T } | undefined;
+  return data?.code === 'VERSION_CONFLICT' && data.current ? data.current : null;
+};
+
+/**
+ * Whether a request failed without reaching the server (offline, DNS, timeout),
+ * as opposed to being refused by it
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !error.response && !axios.isCancel(error);
+
+/**
+ * Request headers making a write conditional on the version it was based on
+ */
+export const ifMatch = (version: number | string | undefined) =>
+  version === undefined ? {} : { 'If-Match': `"${version}"` };
+
 /**
  * Type guard to check if error is an AxiosError
  */
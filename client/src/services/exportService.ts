@@ -1030,251 +1030,6 @@ export const exportAuditTrailToExcel = (
   downloadBlob(blob, filename || defaultFilename);
 };
 
-/**
- * POA&M (Plan of Action & Milestones) Types
- * Standard format for federal compliance documentation
- */
-export interface POAMItem {
-  poamId: string;
-  weakness: string;
-  controlCode: string;
-  controlName: string;
-  systemName: string;
-  status: string;
-  severity: 'Low' | 'Moderate' | 'High' | 'Critical';
-  responsibleParty?: string;
-  resourcesRequired?: string;
-  scheduledCompletionDate?: string;
-  milestones?: string[];
-  changes?: string;
-  sourceOfWeakness?: string;
-  createdDate: string;
-  lastUpdatedDate?: string;
-}
-
-export interface POAMExportOptions {
-  productName: string;
-  productId: string;
-  exportDate?: Date;
-  includeCompliant?: boolean;
-  formatType?: 'standard' | 'fisma' | 'nist';
-}
-
-/**
- * Generate POA&M items from assessment data
- */
-const generatePOAMItems = (
-  assessments: Array<{
-    controlCode: string;
-    controlName?: string;
-    systemName: string;
-    status: string;
-    notes?: string;
-    riskLevel?: string;
-    remediationPlan?: string;
-    assignedTo?: string;
-    dueDate?: string;
-    assessedAt?: string;
-    updatedAt?: string;
-  }>,
-  options: POAMExportOptions
-): POAMItem[] => {
-  let poamCounter = 1;
-
-  return assessments
-    .filter((a) => !options.includeCompliant && a.status !== 'COMPLIANT' && a.status !== 'Implemented')
-    .map((assessment) => {
-      const severity = assessment.riskLevel === 'HIGH' || assessment.riskLevel === 'CRITICAL'
-        ? assessment.riskLevel as 'High' | 'Critical'
-        : assessment.riskLevel === 'MODERATE' || assessment.riskLevel === 'MEDIUM'
-          ? 'Moderate'
-          : 'Low';
-
-      return {
-        poamId: `POAM-${options.productId.slice(0, 8).toUpperCase()}-${String(poamCounter++).padStart(4, '0')}`,
-        weakness: assessment.notes || `Control ${assessment.controlCode} requires remediation`,
-        controlCode: assessment.controlCode,
-        controlName: assessment.controlName || assessment.controlCode,
-        systemName: assessment.systemName,
-        status: assessment.status === 'NOT_ASSESSED' ? 'Pending' :
-                assessment.status === 'NON_COMPLIANT' || assessment.status === 'Not Implemented' ? 'Open' :
-                assessment.status === 'PARTIALLY_COMPLIANT' || assessment.status === 'Partially Implemented' ? 'In Progress' : 'Open',
-        severity,
-        responsibleParty: assessment.assignedTo || 'TBD',
-        resourcesRequired: assessment.remediationPlan ? 'See remediation plan' : 'TBD',
-        scheduledCompletionDate: assessment.dueDate || '',
-        milestones: assessment.remediationPlan ? [assessment.remediationPlan] : [],
-        changes: '',
-        sourceOfWeakness: 'Security Assessment',
-        createdDate: assessment.assessedAt || new Date().toISOString(),
-        lastUpdatedDate: assessment.updatedAt || assessment.assessedAt || new Date().toISOString(),
-      };
-    });
-};
-
-/**
- * Export POA&M to Excel (Standard Format)
- * Follows federal POA&M template structure
- */
-export const exportPOAMToExcel = (
-  assessments: Array<{
-    controlCode: string;
-    controlName?: string;
-    systemName: string;
-    status: string;
-    notes?: string;
-    riskLevel?: string;
-    remediationPlan?: string;
-    assignedTo?: string;
-    dueDate?: string;
-    assessedAt?: string;
-    updatedAt?: string;
-  }>,
-  options: POAMExportOptions
-): void => {
-  const poamItems = generatePOAMItems(assessments, options);
-
-  if (poamItems.length === 0) {
-    throw new Error('No POA&M items to export (all controls are compliant)');
-  }
-
-  const wb = XLSX.utils.book_new();
-  const exportDate = options.exportDate || new Date();
-
-  // Cover Sheet
-  const coverData = [
-    ['PLAN OF ACTION AND MILESTONES (POA&M)'],
-    [''],
-    ['System/Product Name:', options.productName],
-    ['Export Date:', format(exportDate, 'MMMM dd, yyyy')],
-    ['Prepared By:', 'NIST Control Mapper'],
-    [''],
-    ['SUMMARY'],
-    ['Total Open Items:', String(poamItems.filter((i) => i.status === 'Open').length)],
-    ['In Progress Items:', String(poamItems.filter((i) => i.status === 'In Progress').length)],
-    ['Pending Items:', String(poamItems.filter((i) => i.status === 'Pending').length)],
-    [''],
-    ['By Severity:'],
-    ['  Critical:', String(poamItems.filter((i) => i.severity === 'Critical').length)],
-    ['  High:', String(poamItems.filter((i) => i.severity === 'High').length)],
-    ['  Moderate:', String(poamItems.filter((i) => i.severity === 'Moderate').length)],
-    ['  Low:', String(poamItems.filter((i) => i.severity === 'Low').length)],
-  ];
-
-  const coverWs = XLSX.utils.aoa_to_sheet(coverData);
-  coverWs['!cols'] = [{ wch: 25 }, { wch: 50 }];
-  XLSX.utils.book_append_sheet(wb, coverWs, 'Cover');
-
-  // Main POA&M Sheet
-  const poamData = poamItems.map((item) => ({
-    'POA&M ID': item.poamId,
-    'Weakness/Deficiency': item.weakness,
-    'Control ID': item.controlCode,
-    'Control Name': item.controlName,
-    'System': item.systemName,
-    'Status': item.status,
-    'Severity': item.severity,
-    'Responsible Party': item.responsibleParty,
-    'Resources Required': item.resourcesRequired,
-    'Scheduled Completion Date': item.scheduledCompletionDate ? format(new Date(item.scheduledCompletionDate), 'yyyy-MM-dd') : '',
-    'Milestones': item.milestones?.join('; ') || '',
-    'Source': item.sourceOfWeakness,
-    'Created Date': format(new Date(item.createdDate), 'yyyy-MM-dd'),
-    'Last Updated': item.lastUpdatedDate ? format(new Date(item.lastUpdatedDate), 'yyyy-MM-dd') : '',
-  }));
-
-  const poamWs = XLSX.utils.json_to_sheet(poamData);
-  poamWs['!cols'] = [
-    { wch: 20 }, { wch: 50 }, { wch: 15 }, { wch: 30 },
-    { wch: 20 }, { wch: 12 }, { wch: 12 }, { wch: 20 },
-    { wch: 20 }, { wch: 20 }, { wch: 40 }, { wch: 20 },
-    { wch: 12 }, { wch: 12 },
-  ];
-  XLSX.utils.book_append_sheet(wb, poamWs, 'POA&M Items');
-
-  // By System Sheet
-  const systemGroups = poamItems.reduce((acc, item) => {
-    if (!acc[item.systemName]) acc[item.systemName] = [];
-    acc[item.systemName].push(item);
-    return acc;
-  }, {} as Record<string, POAMItem[]>);
-
-  const bySystemData = Object.entries(systemGroups).flatMap(([system, items]) => [
-    { System: system, 'Total Items': items.length.toString(), Open: items.filter((i) => i.status === 'Open').length.toString(), 'In Progress': items.filter((i) => i.status === 'In Progress').length.toString(), High: items.filter((i) => i.severity === 'High' || i.severity === 'Critical').length.toString() },
-  ]);
-
-  const bySystemWs = XLSX.utils.json_to_sheet(bySystemData);
-  bySystemWs['!cols'] = [{ wch: 30 }, { wch: 15 }, { wch: 10 }, { wch: 15 }, { wch: 10 }];
-  XLSX.utils.book_append_sheet(wb, bySystemWs, 'By System');
-
-  // Generate and download
-  const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-  const blob = new Blob([excelBuffer], {
-    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  });
-  downloadBlob(blob, `${options.productName.replace(/\s+/g, '_')}_POAM_${getDateString()}.xlsx`);
-};
-
-/**
- * Export POA&M to CSV
- */
-export const exportPOAMToCSV = (
-  assessments: Array<{
-    controlCode: string;
-    controlName?: string;
-    systemName: string;
-    status: string;
-    notes?: string;
-    riskLevel?: string;
-    remediationPlan?: string;
-    assignedTo?: string;
-    dueDate?: string;
-    assessedAt?: string;
-    updatedAt?: string;
-  }>,
-  options: POAMExportOptions
-): void => {
-  const poamItems = generatePOAMItems(assessments, options);
-
-  if (poamItems.length === 0) {
-    throw new Error('No POA&M items to export (all controls are compliant)');
-  }
-
-  const csvData = poamItems.map((item) => ({
-    'POA&M ID': item.poamId,
-    'Weakness': item.weakness,
-    'Control ID': item.controlCode,
-    'Control Name': item.controlName,
-    'System': item.systemName,
-    'Status': item.status,
-    'Severity': item.severity,
-    'Responsible Party': item.responsibleParty || '',
-    'Scheduled Completion': item.scheduledCompletionDate || '',
-    'Milestones': item.milestones?.join('; ') || '',
-    'Source': item.sourceOfWeakness || '',
-    'Created': format(new Date(item.createdDate), 'yyyy-MM-dd'),
-  }));
-
-  const headers = Object.keys(csvData[0]);
-  const csvContent = [
-    headers.join(','),
-    ...csvData.map((row) =>
-      headers
-        .map((header) => {
-          const value = row[header as keyof typeof row] || '';
-          const escaped = String(value).replace(/"/g, '""');
-          return escaped.includes(',') || escaped.includes('"') || escaped.includes('\n')
-            ? `"${escaped}"`
-            : escaped;
-        })
-        .join(',')
-    ),
-  ].join('\n');
-
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  downloadBlob(blob, `${options.productName.replace(/\s+/g, '_')}_POAM_${getDateString()}.csv`);
-};
-
 /**
  * Export Evidence Coverage Report
  * Shows which controls have evidence attached vs those that don't
@@ -0,0 +1,232 @@
+/**
+ * Offline Store
+ *
+ * Lets assessors keep working without connectivity, backed by IndexedDB:
+ * - Query cache: the last successful response of queries wrapped in
+ *   withOfflineCache (a product's controls, baseline, systems and assessments)
+ *   is kept on the device and served when the network is unreachable
+ * - Outbox: assessment writes that could not reach the server are queued in
+ *   order and replayed by OfflineContext once connectivity returns. Each keeps
+ *   the idempotency key it was first sent with, so a write that did reach the
+ *   server before the connection dropped is not applied twice.
+ *
+ * Everything degrades to plain online behaviour where IndexedDB is unavailable.
+ */
+
+import { QueryClient, QueryKey } from '@tanstack/react-query';
+import { isNetworkError } from './api';
+import { logger } from './logger';
+import type { Assessment, UpdateAssessmentInput } from '../types/api.types';
+
+const DB_NAME = 'posture-offline';
+const DB_VERSION = 1;
+const QUERY_STORE = 'queries';
+const OUTBOX_STORE = 'outbox';
+
+/**
+ * An assessment write waiting to be sent
+ */
+export interface QueuedAssessmentWrite {
+  id: number;            // Also the order writes are replayed in
+  userId: string;        // Only replayed while this user is signed in
+  kind: 'create' | 'update';
+  assessmentId: string;  // Server ID, or a local one (isOfflineId) for a queued create
+  productId: string;
+  systemId: string;
+  controlId: string;
+  input: UpdateAssessmentInput;
+  base: Partial<Assessment>; // As cached when the edit was made, for conflict merging
+  version?: number;          // Version the edit was based on; a stale one is a conflict
+  idempotencyKey: string;
+  queuedAt: string;
+}
+
+const OFFLINE_ID_PREFIX = 'offline-';
+
+/**
+ * Whether an assessment ID is a local placeholder for a create still in the outbox
+ */
+export const isOfflineId = (id: string) => id.startsWith(OFFLINE_ID_PREFIX);
+export const offlineId = (idempotencyKey: string) => `${OFFLINE_ID_PREFIX}${idempotencyKey}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Helper: open (and on first use create) the database
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(QUERY_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Helper: run one request in its own transaction, resolving once it commits
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// ============================================================================
+// Query cache
+// ============================================================================
+
+const cacheKey = (queryKey: QueryKey) => JSON.stringify(queryKey);
+
+async function readCachedQuery<T>(queryKey: QueryKey): Promise<T | undefined> {
+  const entry = await run<{ data: T } | undefined>(QUERY_STORE, 'readonly', (store) => store.get(cacheKey(queryKey)));
+  return entry?.data;
+}
+
+async function writeCachedQuery(queryKey: QueryKey, data: unknown): Promise<void> {
+  await run(QUERY_STORE, 'readwrite', (store) => store.put({ data, savedAt: new Date().toISOString() }, cacheKey(queryKey)));
+}
+
+/**
+ * Wrap a query function so its results are kept on the device and served
+ * from there when the server can't be reached
+ */
+export function withOfflineCache<T>(fetcher: () => Promise<T>) {
+  return async ({ queryKey }: { queryKey: QueryKey }): Promise<T> => {
+    try {
+      const data = await fetcher();
+      writeCachedQuery(queryKey, data).catch((error) =>
+        logger.warn('API', 'Could not cache query for offline use', error)
+      );
+      return data;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      const cached = await readCachedQuery<T>(queryKey).catch(() => undefined);
+      if (cached === undefined) throw error;
+      return cached;
+    }
+  };
+}
+
+/**
+ * Save the in-memory copies of matching queries to the device, after they
+ * were patched with writes made offline, so a reload still shows them
+ */
+export async function persistQueries(queryClient: QueryClient, queryKey: QueryKey): Promise<void> {
+  await Promise.all(
+    queryClient
+      .getQueriesData({ queryKey })
+      .filter(([, data]) => data !== undefined)
+      .map(([key, data]) => writeCachedQuery(key, data))
+  ).catch((error) => logger.warn('API', 'Could not cache queries for offline use', error));
+}
+
+/**
+ * Forget cached queries, e.g. when the user signs out. The outbox is kept.
+ */
+export async function clearCachedQueries(): Promise<void> {
+  await run(QUERY_STORE, 'readwrite', (store) => store.clear()).catch(() => undefined);
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+const outboxListeners = new Set<() => void>();
+
+/**
+ * Be told whenever the outbox changes; returns the unsubscribe function
+ */
+export function onOutboxChange(listener: () => void): () => void {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+// Helper: run an outbox request and tell listeners once it commits
+async function changeOutbox<T>(action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const result = await run(OUTBOX_STORE, 'readwrite', action);
+  outboxListeners.forEach((listener) => listener());
+  return result;
+}
+
+/**
+ * The user's queued writes, oldest first
+ */
+export async function listOutbox(userId: string): Promise<QueuedAssessmentWrite[]> {
+  const entries = await run<QueuedAssessmentWrite[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+  return entries.filter((entry) => entry.userId === userId).sort((a, b) => a.id - b.id);
+}
+
+export async function enqueueWrite(entry: Omit<QueuedAssessmentWrite, 'id'>): Promise<void> {
+  await changeOutbox((store) => store.add(entry));
+}
+
+export async function updateQueuedWrite(entry: QueuedAssessmentWrite): Promise<void> {
+  await changeOutbox((store) => store.put(entry));
+}
+
+export async function removeQueuedWrite(id: number): Promise<void> {
+  await changeOutbox((store) => store.delete(id));
+}
+
+/**
+ * Point the other queued writes to an entry's assessment at a new ID and
+ * version, since they were made on top of it
+ */
+export async function retargetQueuedWrites(
+  entry: QueuedAssessmentWrite,
+  target: { id: string; version: number }
+): Promise<void> {
+  const later = (await listOutbox(entry.userId)).filter(
+    (other) => other.id !== entry.id && other.assessmentId === entry.assessmentId
+  );
+  await Promise.all(
+    later.map((other) => updateQueuedWrite({ ...other, assessmentId: target.id, version: target.version }))
+  );
+}
+
+/**
+ * Remove a write the server has applied; later writes to the same assessment
+ * now expect the version it produced (and the server ID, for a queued create)
+ */
+export async function completeQueuedWrite(
+  entry: QueuedAssessmentWrite,
+  saved: { id: string; version: number }
+): Promise<void> {
+  await retargetQueuedWrites(entry, saved);
+  await removeQueuedWrite(entry.id);
+}
+
+/**
+ * Remove a write that will never be applied, along with later edits to an
+ * assessment whose create it was
+ */
+export async function dropQueuedWrite(entry: QueuedAssessmentWrite): Promise<void> {
+  if (isOfflineId(entry.assessmentId)) {
+    const later = (await listOutbox(entry.userId)).filter(
+      (other) => other.id !== entry.id && other.assessmentId === entry.assessmentId
+    );
+    await Promise.all(later.map((other) => removeQueuedWrite(other.id)));
+  }
+  await removeQueuedWrite(entry.id);
+}
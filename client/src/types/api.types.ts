@@ -18,6 +18,7 @@ export interface Product {
   criticality?: string;  // 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
   impactLevel?: ImpactLevel;  // FIPS 199 security categorization
   frameworkId?: string;
+  catalogId?: string;  // Control catalog the product is assessed against
   createdAt: string;
   updatedAt: string;
   // Direct properties (sometimes returned)
@@ -42,6 +43,8 @@ export interface Product {
     subcategoryId: string;
     categoryLevel: string;
   }>;
+  // Control catalog (list/detail endpoints)
+  catalog?: ControlCatalogSummary;
   // Framework hierarchy (included from detail endpoint)
   framework?: {
     id: string;
@@ -53,8 +56,21 @@ export interface Product {
       name: string;
       code?: string;
       color?: string;
+      team?: TeamSummary | null;
     };
   };
+  // Current user's effective permissions (list/detail endpoints)
+  permissions?: Permission[];
+  // Owning user (list/detail endpoints)
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface ProductFilters {
+  teamId?: string;
 }
 
 export interface CreateProductInput {
@@ -64,6 +80,7 @@ export interface CreateProductInput {
   criticality?: string;
   impactLevel?: ImpactLevel;
   frameworkId: string; // Required - products must belong to a framework
+  catalogId?: string;  // Defaults to NIST CSF 2.0
 }
 
 export interface UpdateProductInput {
@@ -73,6 +90,7 @@ export interface UpdateProductInput {
   type?: string;
   criticality?: string;
   impactLevel?: ImpactLevel;
+  catalogId?: string;  // Only while the product has no assessments or baseline
 }
 
 /**
@@ -91,6 +109,25 @@ export interface System {
   assessmentCount?: number;
   complianceScore?: number;
   dataClassification?: string;
+  product?: {
+    id: string;
+    name: string;
+    type?: string;
+    criticality?: string;
+    userId?: string;
+    framework?: {
+      capabilityCentre?: {
+        team?: TeamSummary | null;
+      };
+    };
+  };
+  // Current user's effective permissions (detail endpoint)
+  permissions?: Permission[];
+}
+
+export interface SystemFilters {
+  productId?: string;
+  teamId?: string;
 }
 
 export interface CreateSystemInput {
@@ -188,14 +225,64 @@ export interface Assessment {
   targetDate?: string;
   riskLevel?: RiskLevel;
   remediationPlan?: string;
+  reviewStatus?: ReviewStatus;
   createdAt: string;
   updatedAt: string;
+  version: number;  // Sent back with edits; a stale version is refused with a conflict
+  pendingSync?: boolean;  // Saved on this device only, waiting in the offline outbox
 }
 
 export interface AssessmentWithControl extends Assessment {
   control: CSFControl;
 }
 
+/**
+ * Assessment Review Workflow Types
+ */
+export type ReviewStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'REOPENED';
+export type ReviewAction = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'REOPEN' | 'ASSIGN';
+
+export interface ReviewUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface AssessmentReviewEvent {
+  id: string;
+  action: ReviewAction;
+  fromStatus: ReviewStatus;
+  toStatus: ReviewStatus;
+  note?: string | null;
+  createdAt: string;
+  actor: ReviewUser;
+}
+
+export interface AssessmentReview {
+  id: string;
+  subcategoryId: string;
+  reviewStatus: ReviewStatus;
+  submittedAt?: string | null;
+  reviewedAt?: string | null;
+  reviewNote?: string | null;
+  submittedById?: string | null;
+  lastEditedById?: string | null;
+  reviewerId?: string | null;
+  submittedBy?: ReviewUser | null;
+  reviewer?: ReviewUser | null;
+  reviewedBy?: ReviewUser | null;
+  system: { id: string; name: string; productId: string };
+  history: AssessmentReviewEvent[];
+  // Review actions the current user may perform
+  allowedActions: ReviewAction[];
+}
+
+export interface ReviewActionInput {
+  action: ReviewAction;
+  reviewerId?: string | null;
+  note?: string;
+}
+
 export interface CreateAssessmentInput {
   productId: string;
   systemId: string;
@@ -220,6 +307,7 @@ export interface UpdateAssessmentInput {
 export interface BulkUpdateAssessmentInput {
   assessmentIds: string[];
   updates: UpdateAssessmentInput;
+  versions?: Record<string, number>;  // Loaded version per assessment ID
 }
 
 /**
@@ -259,6 +347,7 @@ export interface ProductBaseline {
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  version: string;
 }
 
 export interface CreateBaselineInput {
@@ -270,6 +359,118 @@ export interface CreateBaselineInput {
 export interface UpdateBaselineInput {
   controlIds?: string[];
   description?: string;
+  version?: string;  // Version the edit is based on
+}
+
+/**
+ * NIST 800-53 Baseline Types (selected by FIPS 199 impact level, with tailoring)
+ */
+export type TailoringAction = 'ADD' | 'REMOVE' | 'RESET';
+
+export interface TailoringEntry {
+  controlId: string;
+  title: string;
+  tailoring: 'ADDED' | 'REMOVED';
+  justification: string | null;
+  updatedAt: string;
+}
+
+export interface NistBaselineStatus {
+  productId: string;
+  impactLevel: ImpactLevel;
+  baseline: ImpactLevel;
+  profileImported: boolean;  // False until the baseline's OSCAL profile is imported
+  baselineControlCount: number;
+  applicableCount: number;
+  pendingCount: number;  // Baseline controls not yet in the product's baseline
+  tailoring: TailoringEntry[];
+}
+
+export interface TailorBaselineInput {
+  controlId: string;
+  action: TailoringAction;
+  justification?: string;
+}
+
+/**
+ * CSF Profile Types
+ */
+export type ImplementationTier = 1 | 2 | 3 | 4;
+
+export type ProfileType = 'CURRENT' | 'TARGET';
+
+export type TierSource = 'SUBCATEGORY' | 'CATEGORY' | 'PROFILE' | 'ORGANIZATION';
+
+export interface OrganizationTier {
+  id: string;
+  currentTier: ImplementationTier;
+  targetTier: ImplementationTier;
+  notes: string | null;
+  updatedById: string | null;
+  updatedAt: string;
+}
+
+export interface CSFProfileEntry {
+  id: string;
+  targetId: string; // subcategory (GV.OC-01) or category (GV.OC)
+  scope: 'SUBCATEGORY' | 'CATEGORY';
+  tier: ImplementationTier;
+  notes: string | null;
+}
+
+export interface CSFProfile {
+  id: string | null; // null until the profile is first saved
+  productId: string;
+  type: ProfileType;
+  tier: ImplementationTier | null; // null inherits the organization tier
+  description: string | null;
+  updatedAt: string | null;
+  entries: CSFProfileEntry[];
+}
+
+export interface ProductProfiles {
+  productId: string;
+  organizationTier: OrganizationTier;
+  profiles: CSFProfile[];
+}
+
+export interface UpdateProfileInput {
+  tier?: ImplementationTier | null;
+  description?: string | null;
+  entries?: { targetId: string; tier: ImplementationTier | null; notes?: string | null }[];
+}
+
+export interface SubcategoryGap {
+  subcategoryId: string;
+  categoryId: string;
+  functionId: string;
+  title: string;
+  categoryLevel: string | null;
+  currentTier: ImplementationTier;
+  currentSource: TierSource;
+  targetTier: ImplementationTier;
+  targetSource: TierSource;
+  gap: number;
+}
+
+export interface ProfileGroupGap {
+  id: string;
+  subcategoryCount: number;
+  gapCount: number;
+  averageCurrentTier: number;
+  averageTargetTier: number;
+  totalGap: number;
+}
+
+export interface ProfileGapReport {
+  productId: string;
+  scope: 'BASELINE' | 'FULL_CSF';
+  organizationTier: { currentTier: ImplementationTier; targetTier: ImplementationTier };
+  profileTiers: { current: ImplementationTier; target: ImplementationTier };
+  summary: ProfileGroupGap & { maxGap: number; gapsByTier: Record<number, number> };
+  byFunction: ProfileGroupGap[];
+  byCategory: (ProfileGroupGap & { functionId: string })[];
+  subcategories: SubcategoryGap[];
 }
 
 /**
@@ -307,11 +508,17 @@ export interface ProductComplianceMetrics {
   }[];
 }
 
+/**
+ * One day of compliance history, read from recorded snapshots
+ */
 export interface ComplianceTrend {
-  date: string;
+  date: string; // YYYY-MM-DD
   complianceScore: number;
+  riskScore: number; // share of assessed controls with open gaps
+  totalAssessments: number;
   assessedControls: number;
   implementedControls: number;
+  functions: Record<string, number>; // CSF function code -> compliance score
 }
 
 export interface GapAnalysis {
@@ -441,10 +648,15 @@ export interface CapabilityCentre {
   code?: string;
   color?: string;
   icon?: string;
+  userId?: string;
+  teamId?: string | null;
+  team?: TeamSummary | null;
   createdAt: string;
   updatedAt: string;
   stats?: CapabilityCentreStats;
   frameworks?: CapabilityCentreFramework[];
+  // Current user's effective permissions (list endpoint)
+  permissions?: Permission[];
 }
 
 export interface CapabilityCentreStats {
@@ -484,6 +696,7 @@ export interface CreateCapabilityCentreInput {
   code?: string;
   color?: string;
   icon?: string;
+  teamId?: string | null;
 }
 
 export interface UpdateCapabilityCentreInput {
@@ -492,6 +705,618 @@ export interface UpdateCapabilityCentreInput {
   code?: string;
   color?: string;
   icon?: string;
+  teamId?: string | null;
+}
+
+/**
+ * Team Types (shared workspaces)
+ */
+export type TeamRole = 'OWNER' | 'ADMIN' | 'ASSESSOR' | 'AUDITOR' | 'VIEWER';
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+}
+
+export interface TeamMember {
+  id: string;
+  teamId: string;
+  userId: string;
+  role: TeamRole;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Current user's role in the team
+  role?: TeamRole;
+  _count?: {
+    members: number;
+    capabilityCentres: number;
+  };
+  members?: TeamMember[];
+  capabilityCentres?: Array<{
+    id: string;
+    name: string;
+    code?: string;
+    color?: string;
+  }>;
+}
+
+export interface CreateTeamInput {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateTeamInput {
+  name?: string;
+  description?: string;
+}
+
+export interface AddTeamMemberInput {
+  email?: string;
+  userId?: string;
+  role?: TeamRole;
+}
+
+/**
+ * Permission Types (per-scope role grants)
+ */
+export type Permission =
+  | 'view'
+  | 'assessment:edit'
+  | 'assessment:review'
+  | 'evidence:upload'
+  | 'evidence:delete'
+  | 'baseline:change'
+  | 'report:generate'
+  | 'system:manage'
+  | 'scope:manage'
+  | 'access:manage';
+
+export type ScopedRole = 'ADMIN' | 'ASSESSOR' | 'AUDITOR' | 'VIEWER';
+export type RoleScopeType = 'CAPABILITY_CENTRE' | 'FRAMEWORK' | 'PRODUCT';
+
+export interface RoleAssignment {
+  id: string;
+  role: ScopedRole;
+  scopeType: RoleScopeType;
+  userId: string;
+  capabilityCentreId?: string | null;
+  frameworkId?: string | null;
+  productId?: string | null;
+  grantedById?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  grantedBy?: { id: string; name: string } | null;
+  capabilityCentre?: { id: string; name: string } | null;
+  framework?: { id: string; name: string } | null;
+  product?: { id: string; name: string } | null;
+}
+
+export interface CreateRoleAssignmentInput {
+  scopeType: RoleScopeType;
+  scopeId: string;
+  role: ScopedRole;
+  email?: string;
+  userId?: string;
+}
+
+export interface PermissionMatrix {
+  permissions: Permission[];
+  roles: Record<TeamRole, Permission[]>;
+  scopedRoles: ScopedRole[];
+  scopeTypes: RoleScopeType[];
+}
+
+export interface MyPermissions {
+  globalRole: string;
+  memberships: Array<{
+    id: string;
+    teamId: string;
+    role: TeamRole;
+    team: TeamSummary;
+  }>;
+  assignments: RoleAssignment[];
+}
+
+/**
+ * Saved & Scheduled Report Types
+ */
+export type SavedReportType =
+  | 'EXECUTIVE_SUMMARY'
+  | 'GAP_ANALYSIS'
+  | 'COMPLIANCE_PROGRESS'
+  | 'RISK_ASSESSMENT'
+  | 'SYSTEM_SECURITY_PLAN';
+export type ReportRunStatus = 'RUNNING' | 'SUCCESS' | 'FAILED';
+export type SspFormat = 'PDF' | 'DOCX';
+
+export interface SavedReportConfig {
+  productIds?: string[];
+  systemIds?: string[];
+  dateRange?: { start?: string; end?: string };
+  priorityThreshold?: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+  // System Security Plan document format (one product per SSP)
+  format?: SspFormat;
+}
+
+export interface ReportRun {
+  id: string;
+  reportId: string;
+  trigger: 'SCHEDULED' | 'MANUAL';
+  status: ReportRunStatus;
+  startedAt: string;
+  finishedAt?: string | null;
+  outputPath?: string | null;
+  outputSize?: number | null;
+  error?: string | null;
+}
+
+export interface SavedReport {
+  id: string;
+  name: string;
+  description?: string | null;
+  reportType: SavedReportType;
+  config: SavedReportConfig;
+  isScheduled: boolean;
+  schedule?: string | null; // cron expression
+  nextRunAt?: string | null;
+  lastRunAt?: string | null;
+  lastRun?: ReportRun | null;
+  isRunning?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedReportInput {
+  name: string;
+  description?: string;
+  reportType: SavedReportType;
+  config: SavedReportConfig;
+  isScheduled?: boolean;
+  schedule?: string;
+}
+
+export interface UpdateSavedReportInput {
+  name?: string;
+  description?: string;
+  config?: SavedReportConfig;
+  isScheduled?: boolean;
+  schedule?: string;
+}
+
+/**
+ * POA&M Types (Plan of Action and Milestones register)
+ */
+export type PoamStatus = 'OPEN' | 'IN_PROGRESS' | 'DELAYED' | 'RISK_ACCEPTED' | 'CLOSED';
+export type PoamRiskRating = 'LOW' | 'MODERATE' | 'HIGH' | 'CRITICAL';
+export type PoamWeaknessSource =
+  | 'SECURITY_ASSESSMENT'
+  | 'CONTINUOUS_MONITORING'
+  | 'VULNERABILITY_SCAN'
+  | 'PENETRATION_TEST'
+  | 'AUDIT'
+  | 'INCIDENT'
+  | 'OTHER';
+export type PoamDeviationType = 'RISK_ACCEPTANCE' | 'FALSE_POSITIVE' | 'OPERATIONAL_REQUIREMENT';
+export type PoamMilestoneStatus = 'PENDING' | 'COMPLETED' | 'CANCELLED';
+
+export interface PoamMilestone {
+  id: string;
+  poamItemId: string;
+  description: string;
+  dueDate?: string | null;
+  status: PoamMilestoneStatus;
+  completedAt?: string | null;
+  // Set when the milestone follows a remediation task
+  remediationTaskId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PoamStatusChange {
+  id: string;
+  fromStatus?: PoamStatus | null;
+  toStatus: PoamStatus;
+  note?: string | null;
+  changedBy?: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+export interface PoamItem {
+  id: string;
+  poamId: string;
+  productId: string;
+  assessmentId?: string | null;
+  assessment?: { id: string; status: string; systemId: string } | null;
+  controlId: string;
+  systemName: string;
+  weakness: string;
+  weaknessDescription?: string | null;
+  weaknessSource: PoamWeaknessSource;
+  sourceIdentifier?: string | null;
+  detectedAt: string;
+  originalRiskRating: PoamRiskRating;
+  riskRating: PoamRiskRating;
+  status: PoamStatus;
+  pointOfContact?: string | null;
+  resourcesRequired?: string | null;
+  remediationPlan?: string | null;
+  scheduledCompletionDate?: string | null;
+  completedAt?: string | null;
+  deviationType?: PoamDeviationType | null;
+  deviationRationale?: string | null;
+  deviationApprovedBy?: { id: string; name: string } | null;
+  deviationApprovedAt?: string | null;
+  vendorDependency: boolean;
+  comments?: string | null;
+  milestones: PoamMilestone[];
+  // Only on a single item
+  history?: PoamStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdatePoamItemInput {
+  weakness?: string;
+  weaknessDescription?: string | null;
+  weaknessSource?: PoamWeaknessSource;
+  sourceIdentifier?: string | null;
+  riskRating?: PoamRiskRating;
+  status?: PoamStatus;
+  statusNote?: string;
+  pointOfContact?: string | null;
+  resourcesRequired?: string | null;
+  remediationPlan?: string | null;
+  scheduledCompletionDate?: string | null;
+  deviationType?: PoamDeviationType | null;
+  deviationRationale?: string | null;
+  vendorDependency?: boolean;
+  comments?: string | null;
+}
+
+export interface PoamMilestoneInput {
+  description?: string;
+  dueDate?: string | null;
+  status?: PoamMilestoneStatus;
+}
+
+export interface PoamSyncResult {
+  opened: number;
+  closed: number;
+  milestonesAdded: number;
+}
+
+/**
+ * Risk Register Types (risk scenarios scored on a 5x5 likelihood x impact matrix)
+ */
+export type RiskTreatment = 'MITIGATE' | 'ACCEPT' | 'TRANSFER' | 'AVOID';
+export type RiskRegisterStatus = 'OPEN' | 'CLOSED';
+export type RiskRating = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export interface RiskControlEffectiveness {
+  controlId: string;
+  effectiveness: number | null; // 0-1 over the assessed systems, null when none applies
+  assessments: { systemId: string; systemName: string; status: string }[];
+}
+
+export interface RegisterRisk {
+  id: string;
+  riskId: string; // e.g., "RISK-0003"
+  productId: string;
+  title: string;
+  description?: string | null;
+  threat: string;
+  vulnerability: string;
+  likelihood: number;
+  impact: number;
+  treatment: RiskTreatment;
+  treatmentPlan?: string | null;
+  status: RiskRegisterStatus;
+  reviewDate?: string | null;
+  ownerId?: string | null;
+  owner?: { id: string; name: string; email: string } | null;
+  systems: { id: string; name: string }[];
+  controls: RiskControlEffectiveness[];
+  inherentScore: number;
+  inherentRating: RiskRating;
+  controlEffectiveness: number; // 0-100
+  residualLikelihood: number;
+  residualImpact: number;
+  residualScore: number;
+  residualRating: RiskRating;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RegisterRiskInput {
+  title: string;
+  description?: string | null;
+  threat: string;
+  vulnerability: string;
+  likelihood: number;
+  impact: number;
+  treatment?: RiskTreatment;
+  treatmentPlan?: string | null;
+  status?: RiskRegisterStatus;
+  reviewDate?: string | null;
+  ownerId?: string | null;
+  systemIds?: string[];
+  controlIds?: string[];
+}
+
+/**
+ * Risk Quantification Types (FAIR-style loss estimates and Monte Carlo results)
+ */
+export interface LossEstimateInput {
+  frequencyMin: number; // loss events per year
+  frequencyMostLikely: number;
+  frequencyMax: number;
+  magnitudeMin: number; // USD per loss event
+  magnitudeMostLikely: number;
+  magnitudeMax: number;
+  notes?: string | null;
+}
+
+export interface LossEstimate extends LossEstimateInput {
+  id: string;
+  productId: string;
+  riskId?: string | null;
+  assessmentId?: string | null;
+  risk?: { id: string; riskId: string; title: string; status: RiskRegisterStatus } | null;
+  assessment?: { id: string; subcategoryId: string; status: string; system: { id: string; name: string } } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LossSimulation {
+  productId: string;
+  iterations: number;
+  seed: number;
+  currency: string;
+  annualizedLoss: { mean: number; p10: number; p50: number; p90: number; p95: number; p99: number; max: number };
+  histogram: { from: number; to: number; count: number }[];
+  lossExceedance: { loss: number; probability: number }[]; // probability of annual loss above `loss`, 0-1
+  scenarios: {
+    estimateId: string;
+    type: 'RISK' | 'GAP';
+    targetId: string;
+    label: string;
+    exposure: number; // 0-1 share of the estimated frequency left after mitigation
+    mean: number;
+    p90: number;
+  }[];
+  remediation: {
+    taskId: string;
+    title: string;
+    status: string;
+    dueDate?: string | null;
+    assessmentId: string;
+    controlId: string;
+    systemName: string;
+    expectedReduction: number; // USD per year
+    reductionPercent: number;
+  }[];
+  simulatedAt: string;
+}
+
+/**
+ * Risk Exception Types (formal acceptance of a failing control)
+ */
+export type RiskExceptionStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'REVOKED' | 'EXPIRED';
+export type ResidualRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export interface RiskException {
+  id: string;
+  assessmentId: string;
+  status: RiskExceptionStatus;
+  justification: string;
+  compensatingControls?: string | null;
+  residualRisk: ResidualRiskLevel;
+  expiresAt: string;
+  requestedById?: string | null;
+  requestedBy?: { id: string; name: string } | null;
+  decidedById?: string | null;
+  decidedBy?: { id: string; name: string } | null;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  assessment?: {
+    id: string;
+    subcategoryId: string;
+    status: string;
+    system: { id: string; name: string };
+  };
+}
+
+export interface RiskExceptionInput {
+  justification: string;
+  compensatingControls?: string | null;
+  residualRisk: ResidualRiskLevel;
+  expiresAt: string;
+}
+
+/**
+ * Notification Types (persistent, server-side)
+ */
+export type NotificationType =
+  | 'MENTION'
+  | 'TASK_ASSIGNED'
+  | 'CONTROL_ASSIGNED'
+  | 'TASK_DUE'
+  | 'ASSESSMENT_DUE'
+  | 'EVIDENCE_EXPIRING'
+  | 'EVIDENCE_EXPIRED'
+  | 'RISK_EXCEPTION_REQUESTED'
+  | 'RISK_EXCEPTION_DECIDED'
+  | 'RISK_EXCEPTION_EXPIRING'
+  | 'RISK_EXCEPTION_EXPIRED';
+
+export interface ServerNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  severity: 'info' | 'success' | 'warning' | 'error';
+  title: string;
+  message: string;
+  link?: string | null;
+  entityType?: string | null;
+  entityId?: string | null;
+  actorId?: string | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface NotificationListResponse {
+  notifications: ServerNotification[];
+  unreadCount: number;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  inApp: boolean;
+}
+
+export type DigestFrequency = 'DAILY' | 'WEEKLY';
+
+export interface EmailDigestSubscription {
+  enabled: boolean;
+  frequency: DigestFrequency;
+  lastSentAt: string | null;
+  transport: 'smtp' | 'log' | string; // 'log' = SMTP not configured on the server
+}
+
+export interface EmailDigestTestResult {
+  sent: boolean;
+  reason?: string;
+  transport: string;
+}
+
+/**
+ * Webhook Types
+ */
+export type WebhookEventType =
+  | 'ASSESSMENT_STATUS_CHANGED'
+  | 'SCORE_THRESHOLD_CROSSED'
+  | 'TASK_OVERDUE'
+  | 'EVIDENCE_EXPIRED'
+  | 'BASELINE_CHANGED';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string; // masked except in create/rotate responses
+  events: WebhookEventType[];
+  productId: string | null;
+  scoreThreshold: number;
+  isActive: boolean;
+  createdById: string;
+  createdBy?: { id: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+  lastDelivery?: { status: WebhookDeliveryStatus; responseStatus: number | null; createdAt: string } | null;
+  failedDeliveries?: number;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  productId?: string | null;
+  scoreThreshold?: number;
+  isActive?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: WebhookEventType | 'PING';
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Issue Tracker Types
+ */
+export type TrackerType = 'JIRA' | 'GENERIC_REST';
+
+export type RemediationTaskStatus = 'OPEN' | 'IN_PROGRESS' | 'BLOCKED' | 'COMPLETED' | 'CANCELLED';
+
+export interface TrackerConnection {
+  id: string;
+  name: string;
+  type: TrackerType;
+  baseUrl: string;
+  username: string | null;
+  apiToken: string | null; // masked
+  projectKey: string | null;
+  issueType: string;
+  statusMap: Record<string, RemediationTaskStatus> | null;
+  productId: string | null;
+  autoCreate: boolean;
+  isActive: boolean;
+  lastSyncAt: string | null;
+  lastSyncError: string | null;
+  createdById: string;
+  createdBy?: { id: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+  linkedTasks?: number;
+}
+
+export interface TrackerConnectionInput {
+  name: string;
+  type: TrackerType;
+  baseUrl: string;
+  username?: string | null;
+  apiToken?: string | null; // omit on update to keep the current token
+  projectKey?: string | null;
+  issueType?: string;
+  statusMap?: Record<string, RemediationTaskStatus> | null;
+  productId?: string | null;
+  autoCreate?: boolean;
+  isActive?: boolean;
+}
+
+export interface TrackerTestResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface TrackerSyncSummary {
+  synced: number;
+  changed: number;
+  failed: number;
 }
 
 /**
@@ -539,6 +1364,146 @@ export interface HierarchySystem {
   assessmentCount: number;
 }
 
+/**
+ * Control Catalog Types (control sets products are assessed against)
+ */
+export interface ControlCatalogSummary {
+  id: string;
+  name: string;
+  version: string | null;
+  controlLabel: string;
+}
+
+export interface ControlCatalog {
+  id: string;
+  name: string;
+  version: string | null;
+  publisher: string | null;
+  description: string | null;
+  // Display names of the three hierarchy levels, e.g. Function/Category/Subcategory
+  levels: {
+    function: string;
+    category: string;
+    control: string;
+  };
+  isDefault: boolean;
+  controlCount: number;
+  productCount: number;
+  source: string;
+  loadedAt: string;
+}
+
+export interface ControlCatalogSyncResult {
+  id: string;
+  source: string;
+  status: 'LOADED' | 'UNCHANGED' | 'FAILED';
+  controlCount: number;
+  error?: string;
+}
+
+/**
+ * Crosswalk Types (assessment results projected onto other catalogs)
+ */
+export type MappingRelationship = 'EQUIVALENT' | 'SUBSET_OF' | 'SUPERSET_OF' | 'INTERSECTS';
+export type MappingConfidence = 'HIGH' | 'MEDIUM' | 'LOW';
+export type CrosswalkGap = 'UNMAPPED' | 'NOT_ASSESSED' | 'NON_COMPLIANT' | 'PARTIALLY_COMPLIANT' | 'LOW_CONFIDENCE';
+
+export interface Crosswalk {
+  id: string;
+  name: string;
+  description?: string;
+  sourceCatalogId: string;
+  targetCatalogId: string;
+  mappingCount: number;
+  source: string;
+}
+
+export interface ProjectedMapping {
+  sourceControlId: string;
+  sourceTitle: string;
+  relationship: MappingRelationship;
+  weight: number;
+  via: string | null;  // Pivot control when mapped through a third catalog
+  crosswalkIds: string[];
+}
+
+export interface ProjectedControl {
+  controlId: string;
+  title: string;
+  functionId: string;
+  categoryId: string;
+  mappings: ProjectedMapping[];
+  confidence: number;  // 0-1, how fully the mapped controls cover this one
+  confidenceLevel: MappingConfidence | null;
+  status: ComplianceStatus;
+  satisfiedViaMapping: boolean;
+  gap: CrosswalkGap | null;
+  systems: Record<string, {
+    status: ComplianceStatus;
+    coverage: number;  // 0-1, share of mapped controls assessed
+    satisfiedViaMapping: boolean;
+    assessmentIds: string[];
+  }>;
+  evidence: Array<{
+    id: string;
+    originalName: string;
+    isExpired: boolean;
+    assessmentId: string;
+    sourceControlId: string;
+    systemId: string;
+  }>;
+}
+
+export interface CrosswalkProjection {
+  productId: string;
+  sourceCatalogId: string;
+  targetCatalogId: string;
+  systems: Array<{ id: string; name: string }>;
+  summary: {
+    totalControls: number;
+    mappedControls: number;
+    satisfiedViaMapping: number;
+    averageConfidence: number;
+    byStatus: Partial<Record<ComplianceStatus, number>>;
+    byGap: Partial<Record<CrosswalkGap, number>>;
+    byFunction: Array<{ functionId: string; name: string; total: number; mapped: number; satisfied: number }>;
+  };
+  controls: ProjectedControl[];
+}
+
+/**
+ * OSCAL Types (NIST 800-53 catalog import and SSP/assessment/POA&M export)
+ */
+export type OscalBaseline = 'LOW' | 'MODERATE' | 'HIGH' | 'PRIVACY';
+
+export type OscalDocumentType = 'ssp' | 'assessment-results' | 'poam';
+
+export interface OscalSource {
+  kind: 'catalog' | 'profile';
+  baseline: OscalBaseline | null;
+  title: string;
+  version: string | null;
+  lastModified: string | null;
+  oscalVersion: string | null;
+  controlCount: number;
+  importedAt: string;
+}
+
+export interface OscalSources {
+  // LEGACY until an OSCAL catalog has been imported
+  format: 'OSCAL' | 'LEGACY';
+  sources: OscalSource[];
+}
+
+export interface OscalImportResult {
+  kind: 'catalog' | 'profile';
+  baseline: OscalBaseline | null;
+  title: string;
+  controlCount: number;
+  enhancementCount: number;
+  unknownControlIds: string[];
+}
+
 /**
  * Framework Types (Business Domain Portfolio)
  */
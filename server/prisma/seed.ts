@@ -3,27 +3,10 @@ import * as fs from 'fs';
 import * as path from 'path';
 import bcrypt from 'bcryptjs';
 import { randomUUID } from 'crypto';
+import { controlCatalogService } from '../src/services/controlCatalog.service';
 
 const prisma = new PrismaClient();
 
-interface CSFElement {
-  doc_identifier: string;
-  element_identifier: string;
-  element_type: string;
-  text: string;
-  title: string;
-}
-
-interface CSFDataStructure {
-  response: {
-    requestType: number;
-    elements: {
-      documents: any[];
-      elements: CSFElement[];
-    };
-  };
-}
-
 interface NIST80053Control {
   id: string;
   family: string;
@@ -68,23 +51,12 @@ async function main() {
 
   console.log('\n📂 Loading data files...');
 
-  const csfDataPath = path.join(__dirname, '../data/csf2_clean.json');
   const nist80053DataPath = path.join(__dirname, '../data/nist-800-53.json');
   const mappingsDataPath = path.join(__dirname, '../data/csf-800-53-mappings.json');
 
-  let csfData: CSFDataStructure;
   let nist80053Data: NIST80053DataStructure;
   let mappingsData: MappingsDataStructure;
 
-  try {
-    const csfRawData = fs.readFileSync(csfDataPath, 'utf8');
-    csfData = JSON.parse(csfRawData);
-    console.log('✅ Loaded CSF 2.0 data');
-  } catch (error) {
-    console.error('❌ Could not load CSF data file:', error);
-    throw new Error('CSF data file is required for seeding');
-  }
-
   try {
     const nist80053RawData = fs.readFileSync(nist80053DataPath, 'utf8');
     nist80053Data = JSON.parse(nist80053RawData);
@@ -117,114 +89,30 @@ async function main() {
   await prisma.capabilityCentre.deleteMany();
   await prisma.user.deleteMany();
   await prisma.nIST80053Mapping.deleteMany();
-  await prisma.cSFControl.deleteMany();
+  await prisma.controlCatalog.deleteMany(); // Cascades to the catalogs' controls
 
   console.log('✅ Database cleared');
 
   // ========================================================================
-  // PROCESS AND LOAD CSF 2.0 CONTROLS
+  // LOAD CONTROL CATALOGS (NIST CSF 2.0, 800-53 and data/catalogs/)
   // ========================================================================
 
-  console.log('\n📋 Processing CSF 2.0 controls...');
+  console.log('\n📋 Loading control catalogs...');
 
-  const elements = csfData.response.elements.elements;
-
-  // Extract all subcategories (note: there are duplicates, we need to deduplicate)
-  const allSubcategories = elements.filter(e => e.element_type === 'subcategory');
-  console.log(`   Found ${allSubcategories.length} subcategory elements (including duplicates)`);
-
-  // Deduplicate subcategories - prefer entries with text content
-  const subcategoryMap: { [key: string]: CSFElement } = {};
-  allSubcategories.forEach(sub => {
-    const id = sub.element_identifier;
-    const hasText = sub.text && sub.text.trim();
-
-    // Keep this entry if we don't have one yet, or if this one has text and the existing one doesn't
-    if (!subcategoryMap[id] || (hasText && !subcategoryMap[id].text)) {
-      subcategoryMap[id] = sub;
-    }
-  });
-
-  const subcategories = Object.values(subcategoryMap);
-  console.log(`   Deduplicated to ${subcategories.length} unique subcategories`);
-
-  // Extract implementation examples and group by subcategory
-  const implementationExamples = elements.filter(e => e.element_type === 'implementation_example');
-  console.log(`   Found ${implementationExamples.length} implementation examples`);
-
-  // Group implementation examples by subcategory
-  const examplesBySubcategory: { [key: string]: any[] } = {};
-  implementationExamples.forEach(example => {
-    // Implementation example IDs are like "GV.OC-01.001" where parent is "GV.OC-01"
-    const subcategoryId = example.element_identifier.split('.').slice(0, 2).join('.');
-    if (!examplesBySubcategory[subcategoryId]) {
-      examplesBySubcategory[subcategoryId] = [];
-    }
-    examplesBySubcategory[subcategoryId].push({
-      id: example.element_identifier,
-      text: example.text,
-      title: example.title
-    });
-  });
-
-  // Extract categories for metadata
-  const categories = elements.filter(e => e.element_type === 'category');
-  const categoryMap: { [key: string]: CSFElement } = {};
-  categories.forEach(cat => {
-    categoryMap[cat.element_identifier] = cat;
-  });
-
-  console.log('\n📝 Seeding CSF controls...');
-  let controlsCreated = 0;
-  let controlsFailed = 0;
-
-  for (const subcategory of subcategories) {
-    try {
-      const subcategoryId = subcategory.element_identifier;
-      const functionId = subcategoryId.split('.')[0];
-      const categoryId = subcategoryId.split('.').slice(0, 2).join('.');
-
-      // Get category title for better control titles
-      const category = categoryMap[categoryId];
-      const categoryTitle = category ? category.title : '';
-
-      // Get implementation examples for this subcategory
-      const examples = examplesBySubcategory[subcategoryId] || [];
-
-      // Skip if no text (shouldn't happen after deduplication, but safety check)
-      if (!subcategory.text || !subcategory.text.trim()) {
-        console.warn(`   ⚠️  Skipping ${subcategoryId}: no text content`);
-        continue;
-      }
-
-      await prisma.cSFControl.create({
-        data: {
-          id: subcategoryId,
-          functionId: functionId,
-          categoryId: categoryId,
-          title: categoryTitle || subcategory.title || 'Control',
-          text: subcategory.text,
-          implementationExamples: JSON.stringify(examples),
-          informativeReferences: JSON.stringify([])
-        }
-      });
-
-      controlsCreated++;
-
-      if (controlsCreated % 50 === 0) {
-        console.log(`   Progress: ${controlsCreated}/${subcategories.length} controls created`);
-      }
-    } catch (error) {
-      console.warn(`   ⚠️  Failed to create control ${subcategory.element_identifier}:`, error);
-      controlsFailed++;
+  const catalogResults = await controlCatalogService.syncAll();
+  for (const result of catalogResults) {
+    if (result.status === 'FAILED') {
+      console.warn(`   ⚠️  ${result.id}: ${result.error}`);
+    } else {
+      console.log(`   ${result.id}: ${result.controlCount} controls`);
     }
   }
-
-  console.log(`✅ Created ${controlsCreated} CSF controls`);
-  if (controlsFailed > 0) {
-    console.log(`   ⚠️  Failed to create ${controlsFailed} controls`);
+  if (!catalogResults.some(r => r.id === 'nist-csf-2.0' && r.status !== 'FAILED')) {
+    throw new Error('CSF data file is required for seeding');
   }
 
+  console.log(`✅ Loaded ${catalogResults.filter(r => r.status !== 'FAILED').length} control catalogs`);
+
   // ========================================================================
   // LOAD NIST 800-53 MAPPINGS
   // ========================================================================
@@ -681,7 +569,9 @@ async function main() {
   console.log('🎉 Database seeding completed successfully!');
   console.log('='.repeat(70));
   console.log('\n📊 Summary:');
-  console.log(`   ✓ ${controlsCreated} CSF 2.0 controls (subcategories)`);
+  for (const result of catalogResults.filter(r => r.status !== 'FAILED')) {
+    console.log(`   ✓ ${result.controlCount} ${result.id} controls`);
+  }
   console.log(`   ✓ ${mappingsCreated} CSF-to-800-53 mappings`);
   console.log(`   ✓ 1 demo user (demo@nistmapper.com / demo123)`);
   console.log(`   ✓ ${createdCapabilityCentres.length} capability centres`);
@@ -0,0 +1,160 @@
+/**
+ * In-memory issue tracker for exercising issue tracker sync locally
+ * Run with: npx ts-node scripts/mock-tracker.ts [port]
+ *
+ * Serves both connection types on one port (default 4010):
+ * - JIRA:         base URL http://localhost:4010 (any project key, any token)
+ * - GENERIC_REST: base URL http://localhost:4010
+ *
+ * Simulate changes made in the tracker, then sync from Settings -> Integrations:
+ *   curl -X PATCH localhost:4010/issues/MOCK-1 -H 'Content-Type: application/json' \
+ *     -d '{"status":"In Progress","assignee":{"name":"Demo User","email":"demo@posture.app"}}'
+ */
+
+import * as http from 'http';
+
+interface MockIssue {
+  key: string;
+  title: string;
+  description: string;
+  priority: string;
+  labels: string[];
+  externalId: string | null;
+  status: string;
+  assignee: { name: string | null; email: string | null } | null;
+}
+
+const PORT = parseInt(process.argv[2] || process.env.MOCK_TRACKER_PORT || '4010', 10);
+const BASE_URL = `http://localhost:${PORT}`;
+
+const issues = new Map<string, MockIssue>();
+let nextId = 1;
+
+// Status categories the Jira adapter uses for names it doesn't recognise
+const CATEGORIES: Record<string, string> = {
+  'To Do': 'new',
+  'In Progress': 'indeterminate',
+  'Blocked': 'indeterminate',
+  'Done': 'done',
+};
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function createIssue(fields: Omit<MockIssue, 'key' | 'status' | 'assignee'>): MockIssue {
+  const issue: MockIssue = { ...fields, key: `MOCK-${nextId++}`, status: 'To Do', assignee: null };
+  issues.set(issue.key, issue);
+  console.log(`Created ${issue.key}: ${issue.title}`);
+  return issue;
+}
+
+function toJira(issue: MockIssue) {
+  return {
+    id: issue.key.replace('MOCK-', ''),
+    key: issue.key,
+    self: `${BASE_URL}/rest/api/2/issue/${issue.key}`,
+    fields: {
+      summary: issue.title,
+      status: { name: issue.status, statusCategory: { key: CATEGORIES[issue.status] || 'indeterminate' } },
+      assignee: issue.assignee
+        ? { displayName: issue.assignee.name, emailAddress: issue.assignee.email }
+        : null,
+    },
+  };
+}
+
+function toGeneric(issue: MockIssue) {
+  return { id: issue.key, url: `${BASE_URL}/issues/${issue.key}`, ...issue };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', BASE_URL);
+  const path = url.pathname.replace(/\/+$/, '');
+  const method = req.method || 'GET';
+  console.log(`${method} ${url.pathname}`);
+
+  try {
+    let match: RegExpMatchArray | null;
+
+    // Jira REST v2
+    if (method === 'GET' && path === '/rest/api/2/myself') {
+      return send(res, 200, { displayName: 'Mock Tracker', emailAddress: 'mock@tracker.local' });
+    }
+    if (method === 'GET' && (match = path.match(/^\/rest\/api\/2\/project\/([^/]+)$/))) {
+      return send(res, 200, { key: decodeURIComponent(match[1]), name: 'Mock Project' });
+    }
+    if (method === 'POST' && path === '/rest/api/2/issue') {
+      const { fields = {} } = await readBody(req);
+      const issue = createIssue({
+        title: fields.summary || 'Untitled',
+        description: fields.description || '',
+        priority: fields.priority?.name || 'Medium',
+        labels: fields.labels || [],
+        externalId: null,
+      });
+      const { id, key, self } = toJira(issue);
+      return send(res, 201, { id, key, self });
+    }
+    if (method === 'GET' && (match = path.match(/^\/rest\/api\/2\/issue\/([^/]+)$/))) {
+      const issue = issues.get(decodeURIComponent(match[1]));
+      return issue ? send(res, 200, toJira(issue)) : send(res, 404, { errorMessages: ['Issue does not exist'] });
+    }
+
+    // Generic REST
+    if (method === 'GET' && path === '/issues') {
+      const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+      return send(res, 200, Array.from(issues.values()).slice(0, limit).map(toGeneric));
+    }
+    if (method === 'POST' && path === '/issues') {
+      const body = await readBody(req);
+      const issue = createIssue({
+        title: body.title || 'Untitled',
+        description: body.description || '',
+        priority: body.priority || 'MEDIUM',
+        labels: body.labels || [],
+        externalId: body.externalId || null,
+      });
+      return send(res, 201, toGeneric(issue));
+    }
+    if ((match = path.match(/^\/issues\/([^/]+)$/))) {
+      const issue = issues.get(decodeURIComponent(match[1]));
+      if (!issue) return send(res, 404, { error: 'Issue not found' });
+
+      if (method === 'GET') return send(res, 200, toGeneric(issue));
+
+      // Simulate a change made in the tracker
+      if (method === 'PATCH') {
+        const body = await readBody(req);
+        if (typeof body.status === 'string') issue.status = body.status;
+        if (body.assignee !== undefined) issue.assignee = body.assignee;
+        console.log(`Updated ${issue.key}: status=${issue.status} assignee=${issue.assignee?.email || 'none'}`);
+        return send(res, 200, toGeneric(issue));
+      }
+    }
+
+    send(res, 404, { error: `No mock route for ${method} ${url.pathname}` });
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock issue tracker listening on ${BASE_URL}`);
+});
@@ -0,0 +1,152 @@
+/**
+ * Offline verifier for signed audit packages (Settings -> Audit -> Export)
+ * Run with: npx ts-node scripts/verify-audit-package.ts <package.zip | extracted dir> [--public-key key.pem]
+ *
+ * Needs no database or server. Checks that:
+ * - manifest.sig is a valid signature of manifest.json. Pass the key from
+ *   GET /api/audit/public-key with --public-key; otherwise the key embedded in
+ *   the manifest is used, which proves integrity but not who signed
+ * - every file matches the size and SHA-256 recorded in the manifest
+ * - entries are contiguous, each links to the previous hash, and each hash
+ *   matches its contents
+ * - every checkpoint signature verifies and matches the entry it covers
+ *
+ * Exits with status 1 when any check fails.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import {
+  ChainedAuditEntry,
+  checkpointPayload,
+  hashAuditEntry,
+  keyFingerprint,
+  sha256,
+  verifyPayload,
+} from '../src/services/auditChain';
+
+// Files of a zip package (stored or deflated entries, as the server writes them)
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end < 0) throw new Error('Not a zip file');
+
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const size = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const local = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+    const data = buffer.subarray(dataStart, dataStart + size);
+    files.set(name, method === 8 ? zlib.inflateRawSync(data) : data);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function readPackage(target: string): Map<string, Buffer> {
+  if (fs.statSync(target).isDirectory()) {
+    return new Map(fs.readdirSync(target).map((name) => [name, fs.readFileSync(path.join(target, name))]));
+  }
+  return unzip(fs.readFileSync(target));
+}
+
+function parseLines<T>(data: Buffer | undefined): T[] {
+  return (data?.toString('utf8') || '')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const keyIndex = args.indexOf('--public-key');
+  const keyFile = keyIndex >= 0 ? args[keyIndex + 1] : undefined;
+  const target = args.find((arg, i) => !arg.startsWith('--') && (keyIndex < 0 || i !== keyIndex + 1));
+  if (!target) {
+    console.error('Usage: verify-audit-package.ts <package.zip | directory> [--public-key key.pem]');
+    process.exit(2);
+  }
+
+  const files = readPackage(target);
+  const failures: string[] = [];
+  const fail = (message: string) => failures.push(message);
+
+  const manifestData = files.get('manifest.json');
+  const signature = files.get('manifest.sig')?.toString('utf8').trim();
+  if (!manifestData || !signature) {
+    console.error('manifest.json or manifest.sig is missing');
+    process.exit(1);
+  }
+  const manifest = JSON.parse(manifestData.toString('utf8'));
+
+  // Manifest signature
+  const publicKey = keyFile ? fs.readFileSync(keyFile, 'utf8') : manifest.signing.publicKey;
+  if (!keyFile) {
+    console.warn('No --public-key given: using the key in the manifest, which does not prove who signed it');
+  } else if (keyFingerprint(publicKey) !== manifest.signing.keyId) {
+    fail(`Manifest names key ${manifest.signing.keyId}, but the given key is ${keyFingerprint(publicKey)}`);
+  }
+  if (!verifyPayload(manifestData, signature, publicKey)) {
+    fail('manifest.sig is not a valid signature of manifest.json');
+  }
+
+  // File digests
+  for (const file of manifest.files as { name: string; sha256: string; bytes: number }[]) {
+    const data = files.get(file.name);
+    if (!data) fail(`${file.name} is missing`);
+    else if (data.length !== file.bytes || sha256(data) !== file.sha256) fail(`${file.name} does not match the manifest`);
+  }
+
+  // Hash chain
+  const entries = parseLines<ChainedAuditEntry & { prevHash: string; hash: string }>(files.get('audit-log.jsonl'));
+  const hashes = new Map<number, string>();
+  let prevHash: string | null = manifest.chain.prevHash;
+  let expected: number | null = manifest.range.firstSequence;
+  for (const entry of entries) {
+    if (entry.sequence !== expected) fail(`Entry ${expected} is missing (found ${entry.sequence})`);
+    else if (entry.prevHash !== prevHash) fail(`Entry ${entry.sequence} does not link to the previous entry`);
+    if (hashAuditEntry(entry, entry.prevHash) !== entry.hash) fail(`Entry ${entry.sequence} has been modified`);
+
+    hashes.set(entry.sequence, entry.hash);
+    prevHash = entry.hash;
+    expected = entry.sequence + 1;
+  }
+  if (entries.length !== manifest.entryCount) fail(`Manifest lists ${manifest.entryCount} entries, found ${entries.length}`);
+  if (entries.length && prevHash !== manifest.chain.headHash) fail('Last entry does not match the manifest head hash');
+
+  // Checkpoints
+  const checkpoints = parseLines<{ sequence: number; hash: string; createdAt: string; signature: string }>(
+    files.get('checkpoints.jsonl')
+  );
+  for (const checkpoint of checkpoints) {
+    if (!verifyPayload(checkpointPayload(checkpoint), checkpoint.signature, publicKey)) {
+      fail(`Checkpoint at entry ${checkpoint.sequence} has an invalid signature`);
+    }
+    if (hashes.get(checkpoint.sequence) !== checkpoint.hash) {
+      fail(`Entry ${checkpoint.sequence} does not match its signed checkpoint`);
+    }
+  }
+
+  console.log(`Package: ${manifest.generatedAt} by ${manifest.generatedBy.email}`);
+  console.log(
+    `Entries: ${entries.length} (sequence ${manifest.range.firstSequence ?? '-'} to ${manifest.range.lastSequence ?? '-'})`
+  );
+  console.log(`Checkpoints: ${checkpoints.length}, signing key ${manifest.signing.keyId}`);
+
+  if (failures.length) {
+    failures.slice(0, 50).forEach((message) => console.error(`FAIL ${message}`));
+    if (failures.length > 50) console.error(`... and ${failures.length - 50} more`);
+    process.exit(1);
+  }
+  console.log('OK: signature, files, hash chain and checkpoints verified');
+}
+
+main();
@@ -12,4 +12,23 @@ export const config = {
   enableDemoLogin: process.env.ENABLE_DEMO_LOGIN === 'true' || NODE_ENV !== 'production',
   demoEmail: process.env.DEMO_EMAIL || 'demo@posture.app',
   demoPassword: process.env.DEMO_PASSWORD || 'demo123',
+  // What the evidence expiry sweep does to a COMPLIANT assessment once all of its evidence has expired
+  evidenceLapseAction: (process.env.EVIDENCE_LAPSE_ACTION || 'flag') as 'none' | 'flag' | 'downgrade',
+  // Ed25519 private key (PEM, \n escapes allowed) that signs audit checkpoints and exports.
+  // Without it a key is derived from JWT_SECRET, which anyone holding that secret can reproduce.
+  auditSigningKey: process.env.AUDIT_SIGNING_KEY?.replace(/\\n/g, '\n'),
+  auditCheckpointMinutes: parseInt(process.env.AUDIT_CHECKPOINT_MINUTES || '60', 10),
+  // How often remediation task status/assignee is pulled back from issue trackers
+  trackerSyncMinutes: parseInt(process.env.TRACKER_SYNC_MINUTES || '5', 10),
+  // Outbound email; without SMTP_HOST messages are logged instead of sent
+  mail: {
+    smtpHost: process.env.SMTP_HOST,
+    smtpPort: parseInt(process.env.SMTP_PORT || '1025', 10), // MailHog's default SMTP port
+    smtpSecure: process.env.SMTP_SECURE === 'true',
+    smtpUser: process.env.SMTP_USER,
+    smtpPass: process.env.SMTP_PASS,
+    from: process.env.MAIL_FROM || 'Posture <no-reply@posture.local>',
+    appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, ''),
+    digestHourUtc: parseInt(process.env.DIGEST_HOUR_UTC || '7', 10),
+  },
 };
@@ -28,10 +28,39 @@ import templatesRoutes from './routes/templates';
 import reportsRoutes from './routes/reports';
 import riskRoutes from './routes/risk';
 import complianceRoutes from './routes/compliance';
+import teamRoutes from './routes/teams';
+import permissionRoutes from './routes/permissions';
+import notificationRoutes from './routes/notifications';
+import webhookRoutes from './routes/webhooks';
+import trackerRoutes from './routes/trackers';
+import catalogRoutes from './routes/catalogs';
+import crosswalkRoutes from './routes/crosswalks';
+import poamRoutes from './routes/poam';
+import riskExceptionRoutes from './routes/riskExceptions';
+import riskRegisterRoutes from './routes/riskRegister';
+import riskQuantificationRoutes from './routes/riskQuantification';
+import realtimeRoutes from './routes/realtime';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
 import { authMiddleware, requireRole } from './middleware/auth';
+import { auditCaptureMiddleware, registerAuditCapture } from './services/auditCapture.service';
+import { registerVersioning } from './services/concurrency';
+
+// Import background jobs
+import { complianceCalculationService } from './services/complianceCalculation.service';
+import { complianceSnapshotService } from './services/complianceSnapshot.service';
+import { reportScheduler } from './services/reportScheduler.service';
+import { evidenceExpiryService } from './services/evidenceExpiry.service';
+import { riskExceptionService } from './services/riskException.service';
+import { notificationService } from './services/notification.service';
+import { emailDigestService } from './services/emailDigest.service';
+import { webhookService } from './services/webhook.service';
+import { issueTrackerService } from './services/issueTracker.service';
+import { controlCatalogService } from './services/controlCatalog.service';
+import { auditIntegrityService } from './services/auditIntegrity.service';
+import { realtimeService } from './services/realtime.service';
+import { idempotencyService } from './services/idempotency.service';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -89,6 +118,13 @@ app.use((req, res, next) => {
   next();
 });
 
+// Version tokens for optimistic concurrency on assessments and tasks
+registerVersioning();
+
+// Audit trail: every write made while handling an API request is recorded
+registerAuditCapture();
+app.use('/api/', auditCaptureMiddleware);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ 
@@ -99,26 +135,40 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
+// Resource routers enforce per-scope permissions (see services/access.service.ts);
+// global roles only gate organisation-wide data such as the audit log.
 app.use('/api/auth', authRoutes);
-app.use('/api/products', authMiddleware, requireRole(['USER', 'ADMIN']), productRoutes);
-app.use('/api/systems', authMiddleware, requireRole(['USER', 'ADMIN']), systemRoutes);
-app.use('/api/csf', authMiddleware, requireRole(['USER', 'ADMIN', 'AUDITOR']), csfRoutes);
-app.use('/api/nist80053', authMiddleware, requireRole(['USER', 'ADMIN', 'AUDITOR']), nist80053Routes);
-app.use('/api/assessments', authMiddleware, requireRole(['USER', 'ADMIN']), assessmentRoutes);
-app.use('/api/export', authMiddleware, requireRole(['USER', 'ADMIN', 'AUDITOR']), exportRoutes);
-app.use('/api/analytics', authMiddleware, requireRole(['ADMIN', 'AUDITOR']), analyticsRoutes);
-app.use('/api/evidence', authMiddleware, requireRole(['USER', 'ADMIN']), evidenceRoutes);
-app.use('/api/frameworks', authMiddleware, requireRole(['USER', 'ADMIN']), frameworkRoutes);
-app.use('/api/capability-centres', authMiddleware, requireRole(['USER', 'ADMIN']), capabilityCentreRoutes);
-app.use('/api/baselines', authMiddleware, requireRole(['USER', 'ADMIN']), baselineRoutes);
+app.use('/api/products', authMiddleware, productRoutes);
+app.use('/api/systems', authMiddleware, systemRoutes);
+app.use('/api/csf', authMiddleware, csfRoutes);
+app.use('/api/nist80053', authMiddleware, nist80053Routes);
+app.use('/api/assessments', authMiddleware, assessmentRoutes);
+app.use('/api/export', authMiddleware, exportRoutes);
+app.use('/api/analytics', authMiddleware, analyticsRoutes);
+app.use('/api/evidence', authMiddleware, evidenceRoutes);
+app.use('/api/frameworks', authMiddleware, frameworkRoutes);
+app.use('/api/capability-centres', authMiddleware, capabilityCentreRoutes);
+app.use('/api/baselines', authMiddleware, baselineRoutes);
 app.use('/api/audit', authMiddleware, requireRole(['ADMIN', 'AUDITOR']), auditRoutes);
-app.use('/api/remediation', authMiddleware, requireRole(['USER', 'ADMIN']), remediationRoutes);
-app.use('/api/comments', authMiddleware, requireRole(['USER', 'ADMIN']), commentsRoutes);
-app.use('/api/assignments', authMiddleware, requireRole(['USER', 'ADMIN']), assignmentsRoutes);
-app.use('/api/templates', authMiddleware, requireRole(['USER', 'ADMIN']), templatesRoutes);
-app.use('/api/reports', authMiddleware, requireRole(['ADMIN', 'AUDITOR']), reportsRoutes);
-app.use('/api/risk', authMiddleware, requireRole(['ADMIN', 'USER']), riskRoutes);
-app.use('/api/compliance', authMiddleware, requireRole(['USER', 'ADMIN', 'AUDITOR']), complianceRoutes);
+app.use('/api/remediation', authMiddleware, remediationRoutes);
+app.use('/api/comments', authMiddleware, commentsRoutes);
+app.use('/api/assignments', authMiddleware, assignmentsRoutes);
+app.use('/api/templates', authMiddleware, templatesRoutes);
+app.use('/api/reports', authMiddleware, reportsRoutes);
+app.use('/api/risk', authMiddleware, riskRoutes);
+app.use('/api/compliance', authMiddleware, complianceRoutes);
+app.use('/api/teams', authMiddleware, teamRoutes);
+app.use('/api/permissions', authMiddleware, permissionRoutes);
+app.use('/api/notifications', authMiddleware, notificationRoutes);
+app.use('/api/webhooks', authMiddleware, requireRole(['ADMIN']), webhookRoutes);
+app.use('/api/trackers', authMiddleware, requireRole(['ADMIN']), trackerRoutes);
+app.use('/api/catalogs', authMiddleware, catalogRoutes);
+app.use('/api/crosswalks', authMiddleware, crosswalkRoutes);
+app.use('/api/poam', authMiddleware, poamRoutes);
+app.use('/api/risk-exceptions', authMiddleware, riskExceptionRoutes);
+app.use('/api/risk-register', authMiddleware, riskRegisterRoutes);
+app.use('/api/risk-quant', authMiddleware, riskQuantificationRoutes);
+app.use('/api/realtime', authMiddleware, realtimeRoutes);
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -157,6 +207,42 @@ process.on('SIGINT', async () => {
 app.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  // Load control catalogs added or changed under data/ since the last start
+  controlCatalogService.syncAll().catch((error) => logger.error('Failed to sync control catalogs', { error }));
+
+  // Recalculate and snapshot every compliance scope once a day
+  complianceSnapshotService.scheduleDaily(() => complianceCalculationService.recalculateAll('SCHEDULED'));
+
+  // Run scheduled SavedReports
+  reportScheduler.start().catch((error) => logger.error('Failed to start report scheduler', { error }));
+
+  // Expire lapsed evidence and flag assessments that relied on it
+  evidenceExpiryService.start().catch((error) => logger.error('Failed to start evidence expiry sweep', { error }));
+
+  // Expire lapsed risk exceptions so their controls count as gaps again
+  riskExceptionService.start().catch((error) => logger.error('Failed to start risk exception sweep', { error }));
+
+  // Due-date and expiring-evidence reminders
+  notificationService.start().catch((error) => logger.error('Failed to start notification reminders', { error }));
+
+  // Send daily/weekly email digests to opted-in users
+  emailDigestService.start().catch((error) => logger.error('Failed to start email digests', { error }));
+
+  // Deliver queued webhook events and retry failed ones
+  webhookService.start().catch((error) => logger.error('Failed to start webhook delivery', { error }));
+
+  // Pull status/assignee changes for remediation tasks from linked issue trackers
+  issueTrackerService.start().catch((error) => logger.error('Failed to start issue tracker sync', { error }));
+
+  // Sign the audit chain head periodically
+  auditIntegrityService.start().catch((error) => logger.error('Failed to start audit checkpoints', { error }));
+
+  // Keep live collaboration streams open and release stale edit locks
+  realtimeService.start();
+
+  // Forget idempotency keys once retries of their requests are no longer expected
+  idempotencyService.start().catch((error) => logger.error('Failed to start idempotency key pruning', { error }));
 });
 
 export default app;
@@ -9,6 +9,13 @@ interface AuthenticatedRequest extends Request {
     email: string;
     name: string;
     role: string;
+    memberships: { teamId: string; role: string }[];
+    roleAssignments: {
+      role: string;
+      capabilityCentreId: string | null;
+      frameworkId: string | null;
+      productId: string | null;
+    }[];
   };
 }
 
@@ -32,7 +39,16 @@ export const authMiddleware = async (
     // Verify user still exists
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, email: true, name: true, role: true }
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        teamMemberships: { select: { teamId: true, role: true } },
+        roleAssignments: {
+          select: { role: true, capabilityCentreId: true, frameworkId: true, productId: true },
+        },
+      }
     });
 
     if (!user) {
@@ -42,7 +58,8 @@ export const authMiddleware = async (
       });
     }
 
-    req.user = user;
+    const { teamMemberships, ...profile } = user;
+    req.user = { ...profile, memberships: teamMemberships };
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -79,4 +96,35 @@ export const requireRole = (roles: string[]) => {
   };
 };
 
+/**
+ * Require the current user to hold one of the given roles on the team
+ * identified by the named route param (defaults to :teamId).
+ */
+export const requireTeamRole = (roles: string[], param = 'teamId') => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Authentication required',
+        message: 'Please log in'
+      });
+    }
+
+    const teamId = req.params[param];
+    const membership = req.user.memberships.find((m) => m.teamId === teamId);
+
+    if (!membership) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    if (!roles.includes(membership.role)) {
+      return res.status(403).json({ 
+        error: 'Insufficient permissions',
+        message: 'Access denied'
+      });
+    }
+
+    next();
+  };
+};
+
 export { AuthenticatedRequest };
@@ -1,21 +1,13 @@
 import express from 'express';
 import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { productScope, verifyProductAccess } from '../services/access.service';
+import { complianceSnapshotService } from '../services/complianceSnapshot.service';
+import { controlCatalogService } from '../services/controlCatalog.service';
 
 const router = express.Router();
 
 
-// Helper function to verify product ownership
-async function verifyProductOwnership(productId: string, userId: string): Promise<boolean> {
-  const product = await prisma.product.findFirst({
-    where: {
-      id: productId,
-      userId: userId
-    }
-  });
-  return !!product;
-}
-
 // Helper function to calculate compliance score
 function calculateComplianceScore(assessments: any[]): number {
   const completed = assessments.filter(a => a.status !== 'NOT_ASSESSED' && a.status !== 'NOT_APPLICABLE');
@@ -39,7 +31,7 @@ router.get('/overview', async (req: AuthenticatedRequest, res) => {
   try {
     // Get all products for user
     const products = await prisma.product.findMany({
-      where: { userId: req.user!.id },
+      where: productScope(req.user!),
       include: {
         systems: {
           include: {
@@ -115,8 +107,8 @@ router.get('/overview', async (req: AuthenticatedRequest, res) => {
 // GET /api/analytics/compliance/:productId - Product-level compliance breakdown by function/category
 router.get('/compliance/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -220,69 +212,26 @@ router.get('/compliance/:productId', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// GET /api/analytics/trends - Compliance trend over time
+// GET /api/analytics/trends - Compliance trend over time, from daily snapshots of the user's products
 router.get('/trends', async (req: AuthenticatedRequest, res) => {
   try {
     const { days = '30' } = req.query;
-    const daysNum = parseInt(days as string);
-
-    // Calculate date range
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysNum);
-
-    // Get all assessments for user's products within date range
-    const assessments = await prisma.complianceAssessment.findMany({
-      where: {
-        system: {
-          product: {
-            userId: req.user!.id
-          }
-        },
-        assessedDate: {
-          gte: startDate,
-          lte: endDate
-        }
-      },
-      orderBy: { assessedDate: 'asc' }
-    });
-
-    // Group assessments by date
-    const trendData = new Map<string, any>();
-
-    assessments.forEach(assessment => {
-      if (!assessment.assessedDate) return;
-
-      const dateKey = assessment.assessedDate.toISOString().split('T')[0];
+    const daysNum = Math.min(Math.max(parseInt(days as string) || 30, 1), 730);
 
-      if (!trendData.has(dateKey)) {
-        trendData.set(dateKey, {
-          date: dateKey,
-          assessments: []
-        });
-      }
-
-      trendData.get(dateKey)!.assessments.push(assessment);
+    const products = await prisma.product.findMany({
+      where: productScope(req.user!),
+      select: { id: true }
     });
 
-    // Calculate cumulative compliance score
-    let cumulativeAssessments: any[] = [];
-    const trends = Array.from(trendData.entries())
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([date, data]) => {
-        cumulativeAssessments = [...cumulativeAssessments, ...data.assessments];
+    const trends = await complianceSnapshotService.getTrend(
+      'product',
+      products.map(p => p.id),
+      daysNum
+    );
 
-        return {
-          date,
-          totalAssessments: data.assessments.length,
-          cumulativeTotal: cumulativeAssessments.length,
-          complianceScore: calculateComplianceScore(data.assessments),
-          cumulativeComplianceScore: calculateComplianceScore(cumulativeAssessments),
-          compliant: data.assessments.filter((a: any) => a.status === 'COMPLIANT').length,
-          partiallyCompliant: data.assessments.filter((a: any) => a.status === 'PARTIALLY_COMPLIANT').length,
-          nonCompliant: data.assessments.filter((a: any) => a.status === 'NON_COMPLIANT').length
-        };
-      });
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - (daysNum - 1));
 
     res.json({
       startDate: startDate.toISOString(),
@@ -299,8 +248,8 @@ router.get('/trends', async (req: AuthenticatedRequest, res) => {
 // GET /api/analytics/gaps/:productId - Gap analysis
 router.get('/gaps/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -432,7 +381,7 @@ router.get('/functions', async (req: AuthenticatedRequest, res) => {
   try {
     // Get all products for user
     const products = await prisma.product.findMany({
-      where: { userId: req.user!.id },
+      where: productScope(req.user!),
       include: {
         systems: {
           include: {
@@ -442,9 +391,10 @@ router.get('/functions', async (req: AuthenticatedRequest, res) => {
       }
     });
 
-    // Get all CSF controls
+    // Get all controls, with function names from their catalogs
     const controls = await prisma.cSFControl.findMany();
     const controlsMap = new Map(controls.map(c => [c.id, c]));
+    const groupNames = await controlCatalogService.getGroupNames();
 
     // Aggregate all assessments
     const allAssessments = products.flatMap(p =>
@@ -471,7 +421,7 @@ router.get('/functions', async (req: AuthenticatedRequest, res) => {
 
       return {
         functionId,
-        functionName: getFunctionName(functionId),
+        functionName: groupNames.functions.get(functionId)?.name || functionId,
         total,
         completed,
         compliant: assessments.filter(a => a.status === 'COMPLIANT').length,
@@ -496,17 +446,4 @@ router.get('/functions', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// Helper function to get function name
-function getFunctionName(functionId: string): string {
-  const names: Record<string, string> = {
-    'GV': 'Govern',
-    'ID': 'Identify',
-    'PR': 'Protect',
-    'DE': 'Detect',
-    'RS': 'Respond',
-    'RC': 'Recover'
-  };
-  return names[functionId] || functionId;
-}
-
 export default router;
@@ -4,6 +4,27 @@ import { AuthenticatedRequest } from '../middleware/auth';
 import { z } from 'zod';
 import { logAuditFromRequest, getChangedFields } from '../services/auditService';
 import { complianceCalculationService } from '../services/complianceCalculation.service';
+import { assessmentScope, verifyAssessmentAccess, verifyProductAccess, verifySystemAccess } from '../services/access.service';
+import { controlCatalogService } from '../services/controlCatalog.service';
+import { poamService } from '../services/poam.service';
+import {
+  VERSION_CONFLICT,
+  expectedVersion,
+  isStaleUpdate,
+  sendVersionConflict,
+  setVersionHeader,
+  versionMatches,
+} from '../services/concurrency';
+import { realtimeService } from '../services/realtime.service';
+import { idempotent } from '../services/idempotency.service';
+import {
+  REVIEW_ACTIONS,
+  ReviewAction,
+  ReviewError,
+  applyReviewAction,
+  getAssessmentReview,
+  reopenOnEdit,
+} from '../services/assessmentReview.service';
 
 const router = express.Router();
 
@@ -51,6 +72,17 @@ const updateAssessmentSchema = z.object({
   remediationPlan: z.string().optional(),
   riskLevel: z.string().optional(),
   targetDate: z.string().optional(),
+  // Version the edit is based on; If-Match works too
+  version: z.number().int().positive().optional(),
+});
+
+const reviewActionSchema = z.object({
+  action: z.enum(REVIEW_ACTIONS as [ReviewAction, ...ReviewAction[]]),
+  reviewerId: z.string().uuid().nullable().optional(),
+  note: z.string().max(2000).optional(),
+}).refine((data) => data.action !== 'REJECT' || !!data.note?.trim(), {
+  message: 'A reason is required when rejecting an assessment',
+  path: ['note'],
 });
 
 const bulkUpdateSchema = z.object({
@@ -61,47 +93,25 @@ const bulkUpdateSchema = z.object({
     assessor: z.string().optional(),
     assessedDate: z.string().datetime().optional(),
     evidence: z.string().optional(),
-    remediationPlan: z.string().optional()
+    remediationPlan: z.string().optional(),
+    version: z.number().int().positive().optional()
   }))
 });
 
-// Helper function to verify assessment ownership through system->product
-async function verifyAssessmentOwnership(assessmentId: string, userId: string): Promise<boolean> {
-  const assessment = await prisma.complianceAssessment.findFirst({
-    where: {
-      id: assessmentId,
+// Helper: an assessment as the update routes return it, for conflict responses
+function currentAssessment(id: string) {
+  return prisma.complianceAssessment.findUnique({
+    where: { id },
+    include: {
       system: {
-        product: {
-          userId: userId
+        select: {
+          id: true,
+          name: true,
+          product: { select: { id: true, name: true } }
         }
       }
     }
   });
-  return !!assessment;
-}
-
-// Helper function to verify system ownership through product
-async function verifySystemOwnership(systemId: string, userId: string): Promise<boolean> {
-  const system = await prisma.system.findFirst({
-    where: {
-      id: systemId,
-      product: {
-        userId: userId
-      }
-    }
-  });
-  return !!system;
-}
-
-// Helper function to verify product ownership
-async function verifyProductOwnership(productId: string, userId: string): Promise<boolean> {
-  const product = await prisma.product.findFirst({
-    where: {
-      id: productId,
-      userId: userId
-    }
-  });
-  return !!product;
 }
 
 // GET /api/assessments - List all assessments (filter by systemId, productId, status)
@@ -109,13 +119,7 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
     const { systemId, productId, status } = req.query;
 
-    const where: any = {
-      system: {
-        product: {
-          userId: req.user!.id
-        }
-      }
-    };
+    const where: any = assessmentScope(req.user!);
 
     if (systemId) {
       where.systemId = systemId as string;
@@ -173,7 +177,7 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
 // GET /api/assessments/:id - Get single assessment with details
 router.get('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    const hasAccess = await verifyAssessmentOwnership(req.params.id, req.user!.id);
+    const hasAccess = await verifyAssessmentAccess(req.params.id, req.user!);
 
     if (!hasAccess) {
       return res.status(404).json({ error: 'Assessment not found' });
@@ -222,12 +226,12 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /api/assessments - Create assessment
-router.post('/', async (req: AuthenticatedRequest, res) => {
+router.post('/', idempotent, async (req: AuthenticatedRequest, res) => {
   try {
     const validatedData = createAssessmentSchema.parse(req.body);
 
-    // Verify system ownership
-    const hasAccess = await verifySystemOwnership(validatedData.systemId, req.user!.id);
+    // Verify system access
+    const hasAccess = await verifySystemAccess(validatedData.systemId, req.user!, 'assessment:edit');
     if (!hasAccess) {
       return res.status(403).json({
         error: 'Access denied',
@@ -235,8 +239,14 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       });
     }
 
+    // subcategoryId must be a control in the product's catalog
+    const [unknown] = await controlCatalogService.findUnknownControls(hasAccess.product.catalogId, [validatedData.subcategoryId]);
+    if (unknown) {
+      return res.status(400).json({ error: `Control ${unknown} is not in the product's control catalog` });
+    }
+
     // Convert assessedDate string to Date if provided
-    const data: any = { ...validatedData };
+    const data: any = { ...validatedData, lastEditedById: req.user!.id };
     if (data.assessedDate) {
       data.assessedDate = new Date(data.assessedDate);
     }
@@ -246,6 +256,16 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       delete data.evidence;
     }
 
+    // Someone else assessed this control first (e.g. while this create sat in
+    // an offline outbox): answer as a conflict so the client can merge
+    const existing = await prisma.complianceAssessment.findUnique({
+      where: { systemId_subcategoryId: { systemId: validatedData.systemId, subcategoryId: validatedData.subcategoryId } },
+      select: { id: true },
+    });
+    if (existing) {
+      return sendVersionConflict(res, 'assessment', (await currentAssessment(existing.id))!);
+    }
+
     const assessment = await prisma.complianceAssessment.create({
       data,
       include: {
@@ -267,6 +287,18 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
     // Invalidate cached compliance scores up the hierarchy
     await complianceCalculationService.invalidateHierarchy(assessment.id);
 
+    // Open a POA&M item if the control is failing
+    await poamService.syncAssessments([assessment.id], req.user!.id);
+
+    realtimeService.publish(assessment.system.product.id, {
+      entity: 'assessment',
+      action: 'created',
+      id: assessment.id,
+      systemId: assessment.systemId,
+      controlId: assessment.subcategoryId,
+      data: assessment,
+    }, req);
+
     res.status(201).json(assessment);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -281,25 +313,22 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
 });
 
 // PUT /api/assessments/:id - Update assessment
-router.put('/:id', async (req: AuthenticatedRequest, res) => {
+router.put('/:id', idempotent, async (req: AuthenticatedRequest, res) => {
   try {
-    const validatedData = updateAssessmentSchema.parse(req.body);
+    const { version, ...validatedData } = updateAssessmentSchema.parse(req.body);
+    const expected = expectedVersion(req, version);
 
     // Verify ownership and get previous state for audit
     const previousAssessment = await prisma.complianceAssessment.findFirst({
       where: {
         id: req.params.id,
-        system: {
-          product: {
-            userId: req.user!.id
-          }
-        }
+        ...assessmentScope(req.user!, 'assessment:edit')
       },
       include: {
         system: {
           select: {
             name: true,
-            product: { select: { name: true } }
+            product: { select: { name: true, catalogId: true } }
           }
         }
       }
@@ -309,8 +338,22 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Assessment not found' });
     }
 
+    if (!versionMatches(expected, previousAssessment.version)) {
+      return sendVersionConflict(res, 'assessment', (await currentAssessment(req.params.id))!);
+    }
+
+    if (validatedData.subcategoryId && validatedData.subcategoryId !== previousAssessment.subcategoryId) {
+      const [unknown] = await controlCatalogService.findUnknownControls(
+        previousAssessment.system.product.catalogId,
+        [validatedData.subcategoryId]
+      );
+      if (unknown) {
+        return res.status(400).json({ error: `Control ${unknown} is not in the product's control catalog` });
+      }
+    }
+
     // Convert assessedDate string to Date if provided
-    const data: any = { ...validatedData };
+    const data: any = { ...validatedData, lastEditedById: req.user!.id };
     if (data.assessedDate) {
       data.assessedDate = new Date(data.assessedDate);
     }
@@ -320,8 +363,9 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       delete data.evidence;
     }
 
+    // Conditional on the version, in case it changed since the check above
     const assessment = await prisma.complianceAssessment.update({
-      where: { id: req.params.id },
+      where: { id: req.params.id, ...(expected && { version: previousAssessment.version }) },
       data,
       include: {
         system: {
@@ -343,7 +387,12 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
     const changedFields = getChangedFields(
       previousAssessment as unknown as Record<string, unknown>,
       assessment as unknown as Record<string, unknown>
-    );
+    ).filter((field) => field !== 'system' && field !== 'lastEditedById');
+
+    // Changing reviewed content sends the assessment back through review
+    const reopened = changedFields.length > 0
+      ? await reopenOnEdit(previousAssessment, req.user!.id)
+      : null;
 
     await logAuditFromRequest(req, {
       action: 'UPDATE',
@@ -366,13 +415,30 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
         systemId: assessment.systemId,
         systemName: assessment.system.name,
         productName: assessment.system.product.name,
+        ...(reopened && { reviewReopened: true }),
       },
     });
 
     // Invalidate cached compliance scores up the hierarchy
     await complianceCalculationService.invalidateHierarchy(assessment.id);
 
-    res.json(assessment);
+    // Open or close the POA&M item when the status moves to or from failing
+    if (assessment.status !== previousAssessment.status) {
+      await poamService.syncAssessments([assessment.id], req.user!.id);
+    }
+
+    const saved = reopened ? { ...assessment, ...reopened } : assessment;
+    realtimeService.publish(assessment.system.product.id, {
+      entity: 'assessment',
+      action: 'updated',
+      id: assessment.id,
+      systemId: assessment.systemId,
+      controlId: assessment.subcategoryId,
+      data: saved,
+    }, req);
+
+    setVersionHeader(res, saved.version);
+    res.json(saved);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
@@ -380,11 +446,90 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
         details: error.errors
       });
     }
+    if (isStaleUpdate(error)) {
+      const current = await currentAssessment(req.params.id);
+      if (current) return sendVersionConflict(res, 'assessment', current);
+    }
     console.error('Error updating assessment:', error);
     res.status(500).json({ error: 'Failed to update assessment' });
   }
 });
 
+// GET /api/assessments/:id/review - Review status, history and the actions open to the user
+router.get('/:id/review', async (req: AuthenticatedRequest, res) => {
+  try {
+    const hasAccess = await verifyAssessmentAccess(req.params.id, req.user!);
+    if (!hasAccess) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    const review = await getAssessmentReview(req.params.id, req.user!);
+    res.json(review);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching assessment review:', error);
+    res.status(500).json({ error: 'Failed to fetch assessment review' });
+  }
+});
+
+// POST /api/assessments/:id/review - Submit, approve, reject, reopen or assign a reviewer
+router.post('/:id/review', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { action, reviewerId, note } = reviewActionSchema.parse(req.body);
+
+    const assessment = await verifyAssessmentAccess(req.params.id, req.user!);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    const result = await applyReviewAction(req.params.id, req.user!, action, { reviewerId, note });
+
+    // Audit log: review transitions are part of the compliance record
+    await logAuditFromRequest(req, {
+      action: 'REVIEW',
+      entityType: 'Assessment',
+      entityId: assessment.id,
+      entityName: `${assessment.subcategoryId} - ${assessment.system.name}`,
+      previousValue: { reviewStatus: result.fromStatus },
+      newValue: { reviewStatus: result.toStatus, reviewerId: result.reviewerId },
+      changedFields: result.fromStatus !== result.toStatus ? ['reviewStatus'] : ['reviewerId'],
+      details: {
+        reviewAction: action,
+        note,
+        subcategoryId: assessment.subcategoryId,
+        systemId: assessment.systemId,
+        systemName: assessment.system.name,
+        productName: assessment.system.product.name,
+      },
+    });
+
+    realtimeService.publish(assessment.system.product.id, {
+      entity: 'assessment',
+      action: 'updated',
+      id: assessment.id,
+      systemId: assessment.systemId,
+      controlId: assessment.subcategoryId,
+    }, req);
+
+    const review = await getAssessmentReview(req.params.id, req.user!);
+    res.json(review);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    if (error instanceof ReviewError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error applying review action:', error);
+    res.status(500).json({ error: 'Failed to apply review action' });
+  }
+});
+
 // DELETE /api/assessments/:id - Delete assessment
 router.delete('/:id', async (req: AuthenticatedRequest, res) => {
   try {
@@ -392,9 +537,9 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
     const assessment = await prisma.complianceAssessment.findFirst({
       where: {
         id: req.params.id,
-        system: { product: { userId: req.user!.id } }
+        ...assessmentScope(req.user!, 'assessment:edit')
       },
-      select: { id: true, systemId: true }
+      select: { id: true, systemId: true, subcategoryId: true, system: { select: { productId: true } } }
     });
 
     if (!assessment) {
@@ -411,6 +556,14 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
     // Invalidate cached compliance scores for the system's hierarchy
     await complianceCalculationService.invalidateSystemHierarchy(systemId);
 
+    realtimeService.publish(assessment.system.productId, {
+      entity: 'assessment',
+      action: 'deleted',
+      id: assessment.id,
+      systemId,
+      controlId: assessment.subcategoryId,
+    }, req);
+
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting assessment:', error);
@@ -419,13 +572,13 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
 });
 
 // POST /api/assessments/bulk - Bulk update assessments
-router.post('/bulk', async (req: AuthenticatedRequest, res) => {
+router.post('/bulk', idempotent, async (req: AuthenticatedRequest, res) => {
   try {
     const validatedData = bulkUpdateSchema.parse(req.body);
 
-    // Verify ownership of all assessments
+    // Verify access to all assessments
     const ownershipChecks = await Promise.all(
-      validatedData.assessments.map(a => verifyAssessmentOwnership(a.id, req.user!.id))
+      validatedData.assessments.map(a => verifyAssessmentAccess(a.id, req.user!, 'assessment:edit'))
     );
 
     if (ownershipChecks.some(check => !check)) {
@@ -435,13 +588,29 @@ router.post('/bulk', async (req: AuthenticatedRequest, res) => {
       });
     }
 
-    // Perform bulk updates
-    const updates = await Promise.all(
-      validatedData.assessments.map(async (assessment) => {
-        const { id, ...updateData } = assessment;
+    // Nothing is applied when any assessment has changed since it was loaded
+    const stale = validatedData.assessments.filter((a, i) =>
+      !versionMatches(a.version === undefined ? undefined : String(a.version), ownershipChecks[i]!.version)
+    );
+    if (stale.length > 0) {
+      const current = await Promise.all(stale.map(a => currentAssessment(a.id)));
+      return res.status(409).json({
+        error: `${stale.length} assessment(s) were changed by someone else since you loaded them`,
+        code: VERSION_CONFLICT,
+        conflicts: current,
+      });
+    }
+
+    // Perform bulk updates, all or nothing: an assessment changed since the
+    // check above rolls back the whole batch
+    const reopenedIds = new Set<string>();
+    const updates = await prisma.$transaction(async (tx) => {
+      const results = [];
+      for (const assessment of validatedData.assessments) {
+        const { id, version, ...updateData } = assessment;
 
         // Convert assessedDate string to Date if provided
-        const data: any = { ...updateData };
+        const data: any = { ...updateData, lastEditedById: req.user!.id };
         if (data.assessedDate) {
           data.assessedDate = new Date(data.assessedDate);
         }
@@ -457,16 +626,74 @@ router.post('/bulk', async (req: AuthenticatedRequest, res) => {
           delete data.evidence;
         }
 
-        return prisma.complianceAssessment.update({
-          where: { id },
+        const updated = await tx.complianceAssessment.update({
+          where: { id, ...(version !== undefined && { version }) },
           data
         });
-      })
-    );
+
+        // Changing reviewed content sends the assessment back through review
+        const previous = ownershipChecks.find(check => check!.id === id)!;
+        const reopened = await reopenOnEdit(previous, req.user!.id, tx);
+        if (reopened) reopenedIds.add(id);
+        results.push(reopened ? { ...updated, ...reopened } : updated);
+      }
+      return results;
+    });
+
+    // Audit log: one entry per assessment, as for single updates
+    for (const updated of updates) {
+      const previous = ownershipChecks.find(check => check!.id === updated.id)!;
+      const changedFields = getChangedFields(
+        previous as unknown as Record<string, unknown>,
+        updated as unknown as Record<string, unknown>
+      ).filter((field) => !['system', 'lastEditedById', 'reviewStatus'].includes(field));
+
+      await logAuditFromRequest(req, {
+        action: 'UPDATE',
+        entityType: 'Assessment',
+        entityId: updated.id,
+        entityName: `${updated.subcategoryId} - ${previous.system.name}`,
+        previousValue: {
+          status: previous.status,
+          details: previous.details,
+          assessor: previous.assessor,
+        },
+        newValue: {
+          status: updated.status,
+          details: updated.details,
+          assessor: updated.assessor,
+        },
+        changedFields,
+        details: {
+          subcategoryId: updated.subcategoryId,
+          systemId: updated.systemId,
+          systemName: previous.system.name,
+          productName: previous.system.product.name,
+          bulk: true,
+          ...(reopenedIds.has(updated.id) && { reviewReopened: true }),
+        },
+      });
+    }
 
     // Invalidate cached compliance scores for all affected assessments
     const assessmentIds = validatedData.assessments.map(a => a.id);
     await complianceCalculationService.invalidateBulk(assessmentIds);
+    await poamService.syncAssessments(
+      validatedData.assessments.filter(a => a.status).map(a => a.id),
+      req.user!.id
+    );
+
+    updates.forEach((updated) => {
+      const previous = ownershipChecks.find(check => check!.id === updated.id)!;
+      realtimeService.publish(previous.system.product.id, {
+        entity: 'assessment',
+        action: 'updated',
+        id: updated.id,
+        systemId: updated.systemId,
+        controlId: updated.subcategoryId,
+        data: updated,
+      }, req);
+    });
 
     res.json({
       message: 'Bulk update successful',
@@ -480,6 +707,12 @@ router.post('/bulk', async (req: AuthenticatedRequest, res) => {
         details: error.errors
       });
     }
+    if (isStaleUpdate(error)) {
+      return res.status(409).json({
+        error: 'Assessments were changed by someone else while saving; reload and try again',
+        code: VERSION_CONFLICT,
+      });
+    }
     console.error('Error bulk updating assessments:', error);
     res.status(500).json({ error: 'Failed to bulk update assessments' });
   }
@@ -488,8 +721,8 @@ router.post('/bulk', async (req: AuthenticatedRequest, res) => {
 // GET /api/assessments/matrix/:productId - Get assessment matrix (systems x controls)
 router.get('/matrix/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify product access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -518,6 +751,7 @@ router.get('/matrix/:productId', async (req: AuthenticatedRequest, res) => {
         systemId: true,
         subcategoryId: true,
         status: true,
+        reviewStatus: true,
         assessedDate: true
       }
     });
@@ -534,15 +768,17 @@ router.get('/matrix/:productId', async (req: AuthenticatedRequest, res) => {
       }
     });
 
-    // Get all CSF controls to create complete matrix
+    // Get the controls of the product's catalog to create complete matrix
+    const catalogId = await controlCatalogService.getProductCatalogId(req.params.productId);
     const controls = await prisma.cSFControl.findMany({
+      where: { catalogId },
       select: {
         id: true,
         functionId: true,
         categoryId: true,
         title: true
       },
-      orderBy: { id: 'asc' }
+      orderBy: { sortOrder: 'asc' }
     });
 
     // Build matrix: rows = controls, columns = systems
@@ -559,7 +795,8 @@ router.get('/matrix/:productId', async (req: AuthenticatedRequest, res) => {
             systemName: system.name,
             status: assessment?.status || 'NOT_ASSESSED',
             assessmentId: assessment?.id || null,
-            assessedDate: assessment?.assessedDate || null
+            assessedDate: assessment?.assessedDate || null,
+            reviewStatus: assessment?.reviewStatus || null
           };
         });
 
@@ -580,6 +817,7 @@ router.get('/matrix/:productId', async (req: AuthenticatedRequest, res) => {
     const compliantCells = assessments.filter(a => a.status === 'COMPLIANT').length;
 
     res.json({
+      catalogId,
       matrix,
       systems,
       summary: {
@@ -2,6 +2,9 @@ import express, { Response } from 'express';
 import { prisma } from '../prisma';
 import { z } from 'zod';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth';
+import { verifyProductAccess } from '../services/access.service';
+import { generatePossiblePatterns } from '../services/controlAssignment.service';
+import { notificationService } from '../services/notification.service';
 
 const router = express.Router();
 
@@ -29,15 +32,36 @@ const bulkAssignmentSchema = z.object({
   notes: z.string().optional(),
 });
 
-// Helper to verify product ownership
-async function verifyProductOwnership(productId: string, userId: string): Promise<boolean> {
-  const product = await prisma.product.findFirst({
-    where: {
-      id: productId,
-      userId: userId,
-    },
+// Helper: Notify a user that they now own one or more controls on a product
+async function notifyControlAssigned(
+  assignment: { id: string; assigneeId: string; productId: string; systemId: string | null },
+  controlPatterns: string[],
+  actor: { id: string; name: string }
+) {
+  if (controlPatterns.length === 0) return;
+
+  const [product, system] = await Promise.all([
+    prisma.product.findUnique({ where: { id: assignment.productId }, select: { name: true } }),
+    assignment.systemId
+      ? prisma.system.findUnique({ where: { id: assignment.systemId }, select: { name: true } })
+      : null,
+  ]);
+
+  const scope = system ? `${product?.name} / ${system.name}` : product?.name;
+  const controls = controlPatterns.length > 5
+    ? `${controlPatterns.slice(0, 5).join(', ')} and ${controlPatterns.length - 5} more`
+    : controlPatterns.join(', ');
+
+  await notificationService.notify({
+    userId: assignment.assigneeId,
+    type: 'CONTROL_ASSIGNED',
+    title: `${actor.name} assigned you ${controlPatterns.length === 1 ? 'a control' : `${controlPatterns.length} controls`}`,
+    message: `${controls} on ${scope}`,
+    link: `/products/${assignment.productId}/assessments`,
+    entityType: 'ControlAssignment',
+    entityId: assignment.id,
+    actorId: actor.id,
   });
-  return !!product;
 }
 
 // GET /api/assignments - List control assignments with filters
@@ -49,8 +73,8 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
       return res.status(400).json({ error: 'productId is required' });
     }
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId as string, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId as string, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -104,8 +128,8 @@ router.get('/by-control/:controlId', authMiddleware, async (req: AuthenticatedRe
       return res.status(400).json({ error: 'productId is required' });
     }
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId as string, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId as string, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -156,36 +180,14 @@ router.get('/by-control/:controlId', authMiddleware, async (req: AuthenticatedRe
   }
 });
 
-// Helper to generate possible pattern matches for a control ID
-function generatePossiblePatterns(controlId: string): string[] {
-  const patterns = [controlId, '*'];
-
-  // e.g., "PR.AC-01" -> ["PR.AC-01", "PR.AC.*", "PR.*", "*"]
-  const parts = controlId.split('.');
-  if (parts.length >= 2) {
-    // Function + category wildcard (e.g., "PR.*")
-    patterns.push(`${parts[0]}.*`);
-
-    // Full category wildcard (e.g., "PR.AC.*")
-    const categoryParts = parts[1].split('-');
-    if (categoryParts.length === 2) {
-      patterns.push(`${parts[0]}.${categoryParts[0]}.*`);
-    } else {
-      patterns.push(`${parts[0]}.${parts[1]}.*`);
-    }
-  }
-
-  return patterns;
-}
-
 // GET /api/assignments/summary/:productId - Get assignment coverage summary
 router.get('/summary/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
     const { systemId } = req.query;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -270,8 +272,8 @@ router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(assignment.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(assignment.productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
@@ -293,8 +295,8 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
 
     const { controlPattern, assigneeId, productId, systemId, notes } = validation.data;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!, 'assessment:edit');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -339,6 +341,8 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       },
     });
 
+    await notifyControlAssigned(assignment, [controlPattern], req.user!);
+
     res.status(201).json(assignment);
   } catch (error: any) {
     console.error('Error creating assignment:', error);
@@ -359,8 +363,8 @@ router.post('/bulk', authMiddleware, async (req: AuthenticatedRequest, res: Resp
 
     const { controlPatterns, assigneeId, productId, systemId, notes } = validation.data;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!, 'assessment:edit');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -411,6 +415,14 @@ router.post('/bulk', authMiddleware, async (req: AuthenticatedRequest, res: Resp
       return { created, skipped };
     });
 
+    if (results.created.length > 0) {
+      await notifyControlAssigned(
+        results.created[0],
+        results.created.map((a) => a.controlPattern),
+        req.user!
+      );
+    }
+
     res.status(201).json({
       message: `Created ${results.created.length} assignments, skipped ${results.skipped.length} duplicates`,
       created: results.created,
@@ -440,7 +452,7 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
-    const hasAccess = await verifyProductOwnership(existingAssignment.productId, req.user!.id);
+    const hasAccess = await verifyProductAccess(existingAssignment.productId, req.user!, 'assessment:edit');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
@@ -475,6 +487,10 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       },
     });
 
+    if (assignment.assigneeId !== existingAssignment.assigneeId) {
+      await notifyControlAssigned(assignment, [assignment.controlPattern], req.user!);
+    }
+
     res.json(assignment);
   } catch (error: any) {
     console.error('Error updating assignment:', error);
@@ -499,7 +515,7 @@ router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Res
       return res.status(404).json({ error: 'Assignment not found' });
     }
 
-    const hasAccess = await verifyProductOwnership(existingAssignment.productId, req.user!.id);
+    const hasAccess = await verifyProductAccess(existingAssignment.productId, req.user!, 'assessment:edit');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Assignment not found' });
     }
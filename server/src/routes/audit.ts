@@ -7,7 +7,10 @@ import {
   getActivitySummary,
   AuditAction,
   AuditEntityType,
+  AUDIT_ENTITY_TYPES,
+  logAuditFromRequest,
 } from '../services/auditService';
+import { auditIntegrityService } from '../services/auditIntegrity.service';
 
 const router = Router();
 
@@ -58,11 +61,7 @@ router.get('/entity/:entityType/:entityId', async (req: AuthenticatedRequest, re
     const { entityType, entityId } = req.params;
 
     // Validate entity type
-    const validEntityTypes: AuditEntityType[] = [
-      'Product', 'System', 'Assessment', 'Framework', 'Evidence', 'Baseline', 'User'
-    ];
-
-    if (!validEntityTypes.includes(entityType as AuditEntityType)) {
+    if (!AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
       return res.status(400).json({ error: 'Invalid entity type' });
     }
 
@@ -157,4 +156,75 @@ router.get('/recent', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/audit/verify
+ * Check the hash chain and signed checkpoints for gaps and modifications
+ */
+router.get('/verify', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await auditIntegrityService.verify();
+    res.json({ data: result });
+  } catch (error) {
+    console.error('Error verifying audit log:', error);
+    res.status(500).json({ error: 'Failed to verify audit log' });
+  }
+});
+
+/**
+ * POST /api/audit/checkpoints
+ * Sign the current chain head now
+ */
+router.post('/checkpoints', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const checkpoint = await auditIntegrityService.checkpoint();
+    res.status(201).json({ data: checkpoint });
+  } catch (error) {
+    console.error('Error creating audit checkpoint:', error);
+    res.status(500).json({ error: 'Failed to create audit checkpoint' });
+  }
+});
+
+/**
+ * GET /api/audit/public-key
+ * Key that signs checkpoints and exports, for verifying packages offline
+ */
+router.get('/public-key', (req: AuthenticatedRequest, res: Response) => {
+  res.json({ data: auditIntegrityService.publicKey() });
+});
+
+/**
+ * GET /api/audit/export
+ * Signed audit package (zip of JSONL entries, checkpoints, manifest and signature)
+ */
+router.get('/export', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const range = {
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+    };
+    if ((range.startDate && isNaN(range.startDate.getTime())) || (range.endDate && isNaN(range.endDate.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    const { buffer, entryCount } = await auditIntegrityService.exportPackage(range, req.user!);
+
+    await logAuditFromRequest(req, {
+      action: 'EXPORT',
+      entityType: 'User',
+      entityId: req.user!.id,
+      entityName: req.user!.email,
+      details: { type: 'audit_package', entryCount, startDate, endDate },
+    });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-package-${stamp}.zip"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error exporting audit package:', error);
+    res.status(500).json({ error: 'Failed to export audit package' });
+  }
+});
+
 export default router;
@@ -5,6 +5,7 @@ import { prisma } from '../prisma';
 import { z } from 'zod';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
 import { config } from '../config';
+import { AuditAction, AuditLogInput, createAuditLog } from '../services/auditService';
 
 const router = express.Router();
 
@@ -22,6 +23,25 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+// Helper: audit an authentication event as the account it concerns (there is no session user yet)
+async function logAuthEvent(
+  req: express.Request,
+  user: { id: string; name: string; email: string },
+  action: AuditAction,
+  input: Partial<AuditLogInput> = {}
+) {
+  await createAuditLog(
+    {
+      userId: user.id,
+      userName: user.name,
+      userEmail: user.email,
+      ipAddress: req.ip || undefined,
+      userAgent: req.headers['user-agent'] || undefined,
+    },
+    { action, entityType: 'User', entityId: user.id, entityName: user.email, ...input }
+  );
+}
+
 // POST /api/auth/register - Register new user
 router.post('/register', async (req, res) => {
   try {
@@ -66,6 +86,8 @@ router.post('/register', async (req, res) => {
       { expiresIn: JWT_EXPIRES_IN }
     );
 
+    await logAuthEvent(req, user, 'CREATE', { newValue: { email: user.email, name: user.name, role: user.role } });
+
     res.status(201).json({
       message: 'User created successfully',
       token,
@@ -120,6 +142,8 @@ router.post('/login', async (req, res) => {
         { expiresIn: JWT_EXPIRES_IN }
       );
 
+      await logAuthEvent(req, demoUser, 'LOGIN', { details: { demo: true } });
+
       return res.json({
         message: 'Login successful',
         token,
@@ -148,6 +172,7 @@ router.post('/login', async (req, res) => {
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
+      await logAuthEvent(req, user, 'LOGIN_FAILED', { details: { reason: 'Invalid password' } });
       return res.status(401).json({
         error: 'Invalid credentials',
         message: 'Email or password is incorrect'
@@ -161,6 +186,8 @@ router.post('/login', async (req, res) => {
       { expiresIn: JWT_EXPIRES_IN }
     );
 
+    await logAuthEvent(req, user, 'LOGIN');
+
     res.json({
       message: 'Login successful',
       token,
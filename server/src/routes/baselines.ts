@@ -1,9 +1,120 @@
 import { Router, Response } from 'express';
+import { z } from 'zod';
 import { prisma } from '../prisma';
-import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { authMiddleware, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { frameworkScope, productScope } from '../services/access.service';
+import { logAuditFromRequest } from '../services/auditService';
+import { csfProfileService, PROFILE_TYPES, ProfileTargetError, ProfileType } from '../services/csfProfile.service';
+import { controlCatalogService, NIST_80053_CATALOG_ID } from '../services/controlCatalog.service';
+import { nistBaselineService, NistBaselineError, TAILORING_ACTIONS } from '../services/nistBaseline.service';
+import { baselineVersion, expectedVersion, sendVersionConflict, setVersionHeader, versionMatches } from '../services/concurrency';
 
 const router = Router();
 
+// Validation schemas
+const tierSchema = z.number().int().min(1, 'Tier must be 1-4').max(4, 'Tier must be 1-4');
+
+const organizationTierSchema = z.object({
+  currentTier: tierSchema.optional(),
+  targetTier: tierSchema.optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const profileUpdateSchema = z.object({
+  tier: tierSchema.nullable().optional(),
+  description: z.string().max(2000).nullable().optional(),
+  entries: z
+    .array(
+      z.object({
+        // Control (GV.OC-01) or category (GV.OC) of the product's catalog
+        targetId: z.string().min(1).max(50),
+        tier: tierSchema.nullable(),
+        notes: z.string().max(2000).nullable().optional(),
+      })
+    )
+    .optional(),
+});
+
+const tailoringSchema = z.object({
+  controlId: z.string().min(1).max(50),
+  action: z.enum(TAILORING_ACTIONS),
+  justification: z.string().max(2000).nullable().optional(),
+});
+
+// Helper: IDs of the controls currently in a product's baseline
+async function getApplicableControlIds(productId: string): Promise<string[]> {
+  const entries = await prisma.cSFBaseline.findMany({
+    where: { productId, applicable: true },
+    select: { subcategoryId: true },
+  });
+  return entries.map(e => e.subcategoryId);
+}
+
+// Helper: error body when control IDs aren't in the product's catalog, null when they all are
+async function catalogMismatch(product: { catalogId: string }, controlIds: string[]) {
+  const unknown = await controlCatalogService.findUnknownControls(product.catalogId, controlIds);
+  return unknown.length > 0
+    ? { error: `Not in the product's control catalog: ${unknown.slice(0, 10).join(', ')}`, unknownControlIds: unknown }
+    : null;
+}
+
+// Helper: error body when a product's baseline is selected by impact level and must be tailored instead
+function impactBaselineOnly(product: { catalogId: string }) {
+  return product.catalogId === NIST_80053_CATALOG_ID
+    ? { error: 'The NIST SP 800-53 baseline follows the product\'s impact level; tailor it instead' }
+    : null;
+}
+
+// Helper: a product's baseline in the shape the client edits, with its version
+async function loadBaseline(product: { id: string; name: string }, userId: string) {
+  const baselineEntries = await prisma.cSFBaseline.findMany({
+    where: { productId: product.id },
+    orderBy: { subcategoryId: 'asc' },
+  });
+
+  return {
+    id: `baseline-${product.id}`,
+    productId: product.id,
+    controlIds: baselineEntries.filter(entry => entry.applicable).map(entry => entry.subcategoryId),
+    entries: baselineEntries.map(entry => ({
+      subcategoryId: entry.subcategoryId,
+      applicable: entry.applicable,
+      categoryLevel: entry.categoryLevel,
+      justification: entry.justification,
+      tailoring: entry.tailoring,
+    })),
+    description: `CSF Baseline for ${product.name}`,
+    createdBy: userId,
+    createdAt: baselineEntries[0]?.createdAt?.toISOString() || new Date().toISOString(),
+    updatedAt: baselineEntries[0]?.updatedAt?.toISOString() || new Date().toISOString(),
+    version: baselineVersion(baselineEntries),
+  };
+}
+
+// Helper: audit a baseline change with the controls brought into and taken out of scope
+async function auditBaselineChange(
+  req: AuthenticatedRequest,
+  product: { id: string; name: string },
+  previousControlIds: string[],
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const controlIds = await getApplicableControlIds(product.id);
+  const previous = new Set(previousControlIds);
+  const current = new Set(controlIds);
+  const added = controlIds.filter(id => !previous.has(id));
+  const removed = previousControlIds.filter(id => !current.has(id));
+
+  await logAuditFromRequest(req, {
+    action: previousControlIds.length === 0 ? 'CREATE' : controlIds.length === 0 ? 'DELETE' : 'UPDATE',
+    entityType: 'Baseline',
+    entityId: product.id,
+    entityName: product.name,
+    previousValue: { controlCount: previousControlIds.length },
+    newValue: { controlCount: controlIds.length },
+    changedFields: added.length > 0 || removed.length > 0 ? ['controls'] : [],
+    details: { ...details, added, removed },
+  });
+}
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
@@ -17,42 +128,16 @@ router.get('/product/:productId', async (req: AuthenticatedRequest, res: Respons
     const { productId } = req.params;
     const userId = req.user!.id;
 
-    // Verify product ownership
+    // Verify product access
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!) },
     });
 
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    // Get all baseline entries for this product
-    const baselineEntries = await prisma.cSFBaseline.findMany({
-      where: { productId },
-      orderBy: { subcategoryId: 'asc' },
-    });
-
-    // Transform to expected format
-    const controlIds = baselineEntries
-      .filter(entry => entry.applicable)
-      .map(entry => entry.subcategoryId);
-
-    const baseline = {
-      id: `baseline-${productId}`,
-      productId,
-      controlIds,
-      entries: baselineEntries.map(entry => ({
-        subcategoryId: entry.subcategoryId,
-        applicable: entry.applicable,
-        categoryLevel: entry.categoryLevel,
-        justification: entry.justification,
-      })),
-      description: `CSF Baseline for ${product.name}`,
-      createdBy: userId,
-      createdAt: baselineEntries[0]?.createdAt?.toISOString() || new Date().toISOString(),
-      updatedAt: baselineEntries[0]?.updatedAt?.toISOString() || new Date().toISOString(),
-    };
-
+    const baseline = await loadBaseline(product, userId);
     res.json({ data: baseline });
   } catch (error) {
     console.error('Error fetching baseline:', error);
@@ -70,7 +155,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
 
     // Get all products with their baseline counts
     const products = await prisma.product.findMany({
-      where: { userId },
+      where: productScope(req.user!),
       include: {
         csfBaseline: {
           where: { applicable: true },
@@ -110,15 +195,22 @@ router.post('/', async (req: AuthenticatedRequest, res: Response) => {
       return res.status(400).json({ error: 'Product ID is required' });
     }
 
-    // Verify product ownership
+    // Verify product access
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!, 'baseline:change') },
     });
 
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    const mismatch = await catalogMismatch(product, controlIds || []);
+    if (mismatch) {
+      return res.status(400).json(mismatch);
+    }
+
+    const previousControlIds = await getApplicableControlIds(productId);
+
     // Delete existing baseline entries
     await prisma.cSFBaseline.deleteMany({
       where: { productId },
@@ -152,6 +244,8 @@ router.post('/', async (req: AuthenticatedRequest, res: Response) => {
       updatedAt: new Date().toISOString(),
     };
 
+    await auditBaselineChange(req, product, previousControlIds);
+
     res.status(201).json({ data: baseline });
   } catch (error) {
     console.error('Error creating baseline:', error);
@@ -166,18 +260,39 @@ router.post('/', async (req: AuthenticatedRequest, res: Response) => {
 router.put('/product/:productId', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
-    const { controlIds, entries } = req.body;
+    const { controlIds, entries, version } = req.body;
     const userId = req.user!.id;
 
-    // Verify product ownership
+    // Verify product access
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!, 'baseline:change') },
     });
 
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    const selectedByImpact = impactBaselineOnly(product);
+    if (selectedByImpact) {
+      return res.status(409).json(selectedByImpact);
+    }
+
+    const mismatch = await catalogMismatch(product, [
+      ...(Array.isArray(entries) ? entries.map((entry: { subcategoryId: string }) => entry.subcategoryId) : []),
+      ...(Array.isArray(controlIds) ? controlIds : []),
+    ]);
+    if (mismatch) {
+      return res.status(400).json(mismatch);
+    }
+
+    // Refuse to overwrite a baseline changed since the client loaded it
+    const current = await loadBaseline(product, userId);
+    if (!versionMatches(expectedVersion(req, version), current.version)) {
+      return sendVersionConflict(res, 'baseline', current);
+    }
+
+    const previousControlIds = await getApplicableControlIds(productId);
+
     // If entries are provided, use them for detailed update
     if (entries && Array.isArray(entries)) {
       // Process each entry
@@ -244,28 +359,11 @@ router.put('/product/:productId', async (req: AuthenticatedRequest, res: Respons
       }
     }
 
-    // Fetch updated baseline
-    const baselineEntries = await prisma.cSFBaseline.findMany({
-      where: { productId },
-      orderBy: { subcategoryId: 'asc' },
-    });
+    const baseline = await loadBaseline(product, userId);
 
-    const baseline = {
-      id: `baseline-${productId}`,
-      productId,
-      controlIds: baselineEntries.filter(e => e.applicable).map(e => e.subcategoryId),
-      entries: baselineEntries.map(entry => ({
-        subcategoryId: entry.subcategoryId,
-        applicable: entry.applicable,
-        categoryLevel: entry.categoryLevel,
-        justification: entry.justification,
-      })),
-      description: `CSF Baseline for ${product.name}`,
-      createdBy: userId,
-      createdAt: baselineEntries[0]?.createdAt?.toISOString() || new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    await auditBaselineChange(req, product, previousControlIds);
 
+    setVersionHeader(res, baseline.version);
     res.json({ data: baseline });
   } catch (error) {
     console.error('Error updating baseline:', error);
@@ -280,22 +378,25 @@ router.put('/product/:productId', async (req: AuthenticatedRequest, res: Respons
 router.delete('/product/:productId', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
-    const userId = req.user!.id;
 
-    // Verify product ownership
+    // Verify product access
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!, 'baseline:change') },
     });
 
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    const previousControlIds = await getApplicableControlIds(productId);
+
     // Delete all baseline entries
     await prisma.cSFBaseline.deleteMany({
       where: { productId },
     });
 
+    await auditBaselineChange(req, product, previousControlIds);
+
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting baseline:', error);
@@ -313,9 +414,9 @@ router.post('/product/:productId/apply-template', async (req: AuthenticatedReque
     const { templateId, controlIds } = req.body;
     const userId = req.user!.id;
 
-    // Verify product ownership and get systems
+    // Verify product access and get systems
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!, 'baseline:change') },
       include: {
         systems: true,
       },
@@ -325,6 +426,13 @@ router.post('/product/:productId/apply-template', async (req: AuthenticatedReque
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    const selectedByImpact = impactBaselineOnly(product);
+    if (selectedByImpact) {
+      return res.status(409).json(selectedByImpact);
+    }
+
+    const previousControlIds = await getApplicableControlIds(productId);
+
     // Define baseline templates
     const templates: Record<string, string[]> = {
       'standard-enterprise': [
@@ -377,9 +485,11 @@ router.post('/product/:productId/apply-template', async (req: AuthenticatedReque
     } else if (templateId && templates[templateId]) {
       selectedControlIds = templates[templateId];
     } else if (templateId === 'comprehensive') {
-      // Fetch all CSF controls from database
+      // Every control in the product's catalog
       const allControls = await prisma.cSFControl.findMany({
+        where: { catalogId: product.catalogId },
         select: { id: true },
+        orderBy: { sortOrder: 'asc' },
       });
       selectedControlIds = allControls.map(c => c.id);
     } else {
@@ -389,6 +499,12 @@ router.post('/product/:productId/apply-template', async (req: AuthenticatedReque
       });
     }
 
+    // The predefined templates are CSF subcategories
+    const mismatch = await catalogMismatch(product, selectedControlIds);
+    if (mismatch) {
+      return res.status(400).json(mismatch);
+    }
+
     // Start transaction to ensure atomicity
     const result = await prisma.$transaction(async (tx) => {
       // 1. Delete existing baseline entries for this product
@@ -449,6 +565,8 @@ router.post('/product/:productId/apply-template', async (req: AuthenticatedReque
       orderBy: { subcategoryId: 'asc' },
     });
 
+    await auditBaselineChange(req, product, previousControlIds, { templateId: templateId || 'custom' });
+
     res.status(201).json({
       data: {
         id: `baseline-${productId}`,
@@ -520,15 +638,12 @@ router.get('/templates', async (_req: AuthenticatedRequest, res: Response) => {
 router.get('/framework/:frameworkId/templates', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { frameworkId } = req.params;
-    const userId = req.user!.id;
 
-    // Verify framework access (via capability centre ownership)
+    // Verify framework access (via capability centre)
     const framework = await prisma.framework.findFirst({
       where: {
         id: frameworkId,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!),
       },
     });
 
@@ -565,7 +680,6 @@ router.post('/framework/:frameworkId/templates', async (req: AuthenticatedReques
   try {
     const { frameworkId } = req.params;
     const { name, description, templateData, isDefault } = req.body;
-    const userId = req.user!.id;
 
     if (!name || !templateData || !Array.isArray(templateData)) {
       return res.status(400).json({ error: 'name and templateData (array) are required' });
@@ -575,9 +689,7 @@ router.post('/framework/:frameworkId/templates', async (req: AuthenticatedReques
     const framework = await prisma.framework.findFirst({
       where: {
         id: frameworkId,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'baseline:change'),
       },
     });
 
@@ -624,15 +736,12 @@ router.put('/framework/:frameworkId/templates/:templateId', async (req: Authenti
   try {
     const { frameworkId, templateId } = req.params;
     const { name, description, templateData, isDefault } = req.body;
-    const userId = req.user!.id;
 
     // Verify framework access
     const framework = await prisma.framework.findFirst({
       where: {
         id: frameworkId,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'baseline:change'),
       },
     });
 
@@ -686,15 +795,12 @@ router.put('/framework/:frameworkId/templates/:templateId', async (req: Authenti
 router.delete('/framework/:frameworkId/templates/:templateId', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { frameworkId, templateId } = req.params;
-    const userId = req.user!.id;
 
     // Verify framework access
     const framework = await prisma.framework.findFirst({
       where: {
         id: frameworkId,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'baseline:change'),
       },
     });
 
@@ -729,15 +835,14 @@ router.post('/product/:productId/apply-framework-template', async (req: Authenti
   try {
     const { productId } = req.params;
     const { templateId } = req.body;
-    const userId = req.user!.id;
 
     if (!templateId) {
       return res.status(400).json({ error: 'templateId is required' });
     }
 
-    // Verify product ownership and get framework
+    // Verify product access and get framework
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!, 'baseline:change') },
       include: {
         framework: true,
         systems: true,
@@ -748,6 +853,11 @@ router.post('/product/:productId/apply-framework-template', async (req: Authenti
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    const selectedByImpact = impactBaselineOnly(product);
+    if (selectedByImpact) {
+      return res.status(409).json(selectedByImpact);
+    }
+
     // Get the template
     const template = await prisma.frameworkBaselineTemplate.findFirst({
       where: { id: templateId, frameworkId: product.frameworkId },
@@ -764,6 +874,13 @@ router.post('/product/:productId/apply-framework-template', async (req: Authenti
       justification?: string;
     }>;
 
+    const mismatch = await catalogMismatch(product, templateData.map(item => item.subcategoryId));
+    if (mismatch) {
+      return res.status(400).json(mismatch);
+    }
+
+    const previousControlIds = await getApplicableControlIds(productId);
+
     // Start transaction
     const result = await prisma.$transaction(async (tx) => {
       // Delete existing baseline entries
@@ -820,6 +937,8 @@ router.post('/product/:productId/apply-framework-template', async (req: Authenti
       };
     });
 
+    await auditBaselineChange(req, product, previousControlIds, { templateId, templateName: template.name });
+
     res.status(201).json({
       data: {
         productId,
@@ -845,7 +964,6 @@ router.post('/framework/:frameworkId/templates/from-product/:productId', async (
   try {
     const { frameworkId, productId } = req.params;
     const { name, description, isDefault } = req.body;
-    const userId = req.user!.id;
 
     if (!name) {
       return res.status(400).json({ error: 'name is required' });
@@ -855,9 +973,7 @@ router.post('/framework/:frameworkId/templates/from-product/:productId', async (
     const framework = await prisma.framework.findFirst({
       where: {
         id: frameworkId,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'baseline:change'),
       },
     });
 
@@ -867,7 +983,7 @@ router.post('/framework/:frameworkId/templates/from-product/:productId', async (
 
     // Verify product access and belongs to this framework
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId, frameworkId },
+      where: { id: productId, frameworkId, ...productScope(req.user!) },
     });
 
     if (!product) {
@@ -922,4 +1038,241 @@ router.post('/framework/:frameworkId/templates/from-product/:productId', async (
   }
 });
 
+/**
+ * GET /api/baselines/org-tier
+ * Organization-wide Current and Target Tiers that product profiles inherit
+ */
+router.get('/org-tier', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const tier = await csfProfileService.getOrganizationTier();
+    res.json({ data: tier });
+  } catch (error) {
+    console.error('Error fetching organization tier:', error);
+    res.status(500).json({ error: 'Failed to fetch organization tier' });
+  }
+});
+
+/**
+ * PUT /api/baselines/org-tier
+ * Set the organization-wide Tiers. Admin only.
+ */
+router.put('/org-tier', requireRole(['ADMIN']), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = organizationTierSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const previous = await csfProfileService.getOrganizationTier();
+    const tier = await csfProfileService.updateOrganizationTier(validation.data, req.user!.id);
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'OrganizationTier',
+      entityId: tier.id,
+      entityName: 'Organization Tier',
+      previousValue: { currentTier: previous.currentTier, targetTier: previous.targetTier },
+      newValue: { currentTier: tier.currentTier, targetTier: tier.targetTier },
+    });
+
+    res.json({ data: tier });
+  } catch (error) {
+    console.error('Error updating organization tier:', error);
+    res.status(500).json({ error: 'Failed to update organization tier' });
+  }
+});
+
+/**
+ * GET /api/baselines/product/:productId/profiles
+ * Current and Target Profiles for a product
+ */
+router.get('/product/:productId/profiles', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!) },
+    });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const [profiles, organizationTier] = await Promise.all([
+      csfProfileService.getProfiles(product.id),
+      csfProfileService.getOrganizationTier(),
+    ]);
+
+    res.json({ data: { productId: product.id, organizationTier, profiles } });
+  } catch (error) {
+    console.error('Error fetching profiles:', error);
+    res.status(500).json({ error: 'Failed to fetch profiles' });
+  }
+});
+
+/**
+ * GET /api/baselines/product/:productId/profiles/gaps
+ * Per-subcategory gaps between the Current and Target Profiles
+ */
+router.get('/product/:productId/profiles/gaps', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!) },
+    });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const report = await csfProfileService.computeGaps(product.id);
+    res.json({ data: report });
+  } catch (error) {
+    console.error('Error computing profile gaps:', error);
+    res.status(500).json({ error: 'Failed to compute profile gaps' });
+  }
+});
+
+/**
+ * PUT /api/baselines/product/:productId/profiles/:type
+ * Update the CURRENT or TARGET profile: product-wide tier, description and
+ * category/subcategory tiers (tier null clears an entry)
+ */
+router.put('/product/:productId/profiles/:type', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const type = req.params.type.toUpperCase() as ProfileType;
+    if (!PROFILE_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Profile type must be CURRENT or TARGET' });
+    }
+
+    const validation = profileUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!, 'baseline:change') },
+    });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const profile = await csfProfileService.updateProfile(product.id, type, validation.data, req.user!.id);
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'Baseline',
+      entityId: product.id,
+      entityName: product.name,
+      newValue: { tier: profile.tier, entryCount: profile.entries.length },
+      changedFields: [
+        ...(validation.data.tier !== undefined ? ['tier'] : []),
+        ...(validation.data.entries?.length ? ['entries'] : []),
+      ],
+      details: { type: 'CSFProfile', profileType: type, entries: validation.data.entries },
+    });
+
+    res.json({ data: profile });
+  } catch (error) {
+    if (error instanceof ProfileTargetError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating profile:', error);
+    res.status(500).json({ error: 'Failed to update profile' });
+  }
+});
+
+// ============================================================================
+// NIST 800-53 BASELINES - Selected by FIPS 199 impact level, with tailoring
+// ============================================================================
+
+/**
+ * GET /api/baselines/product/:productId/nist-baseline
+ * LOW/MODERATE/HIGH baseline selected by the product's impact level and its tailoring
+ */
+router.get('/product/:productId/nist-baseline', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!) },
+    });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json({ data: await nistBaselineService.getStatus(product.id) });
+  } catch (error) {
+    if (error instanceof NistBaselineError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching NIST baseline:', error);
+    res.status(500).json({ error: 'Failed to fetch NIST baseline' });
+  }
+});
+
+/**
+ * POST /api/baselines/product/:productId/nist-baseline/select
+ * (Re)select the baseline for the product's impact level, keeping tailoring
+ */
+router.post('/product/:productId/nist-baseline/select', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!, 'baseline:change') },
+    });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const previousControlIds = await getApplicableControlIds(product.id);
+    const result = await nistBaselineService.selectBaseline(product.id);
+
+    await auditBaselineChange(req, product, previousControlIds, { nistBaseline: result.baseline });
+
+    res.json({ data: await nistBaselineService.getStatus(product.id), summary: result });
+  } catch (error) {
+    if (error instanceof NistBaselineError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error selecting NIST baseline:', error);
+    res.status(500).json({ error: 'Failed to select NIST baseline' });
+  }
+});
+
+/**
+ * PUT /api/baselines/product/:productId/nist-baseline/tailoring
+ * Add a control or enhancement to the baseline, remove one (both need a
+ * justification), or RESET it to what the baseline selects
+ */
+router.put('/product/:productId/nist-baseline/tailoring', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validation = tailoringSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!, 'baseline:change') },
+    });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const { controlId, action, justification } = validation.data;
+    const previousControlIds = await getApplicableControlIds(product.id);
+    const result = await nistBaselineService.tailor(product.id, controlId, action, justification);
+
+    await auditBaselineChange(req, product, previousControlIds, {
+      tailoring: { controlId, action, justification: justification || null },
+    });
+
+    res.json({ data: await nistBaselineService.getStatus(product.id), summary: result });
+  } catch (error) {
+    if (error instanceof NistBaselineError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error tailoring NIST baseline:', error);
+    res.status(500).json({ error: 'Failed to tailor NIST baseline' });
+  }
+});
+
 export default router;
@@ -1,18 +1,18 @@
 import { Router, Response } from 'express';
 import { prisma } from '../prisma';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { capabilityCentreScope, getCapabilityCentrePermissions, hasTeamPermission } from '../services/access.service';
 
 const router = Router();
 
 
-// Get all capability centres for the current user with hierarchy and compliance stats
+// Get all capability centres visible to the current user (own + team-shared) with compliance stats
 router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userId = req.user!.id;
-
     const capabilityCentres = await prisma.capabilityCentre.findMany({
-      where: { userId },
+      where: capabilityCentreScope(req.user!),
       include: {
+        team: { select: { id: true, name: true } },
         frameworks: {
           include: {
             products: {
@@ -82,6 +82,10 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
         description: cc.description,
         color: cc.color,
         icon: cc.icon,
+        userId: cc.userId,
+        teamId: cc.teamId,
+        team: cc.team,
+        permissions: getCapabilityCentrePermissions(req.user!, cc),
         createdAt: cc.createdAt,
         updatedAt: cc.updatedAt,
         stats: {
@@ -110,11 +114,11 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
 router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.user!.id;
 
     const capabilityCentre = await prisma.capabilityCentre.findFirst({
-      where: { id, userId },
+      where: { id, ...capabilityCentreScope(req.user!) },
       include: {
+        team: { select: { id: true, name: true } },
         frameworks: {
           include: {
             products: {
@@ -204,13 +208,18 @@ router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
 // Create a new capability centre
 router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { name, code, description, color, icon } = req.body;
+    const { name, code, description, color, icon, teamId } = req.body;
     const userId = req.user!.id;
 
     if (!name || name.trim() === '') {
       return res.status(400).json({ error: 'Capability centre name is required' });
     }
 
+    // Sharing with a team requires an owner/admin role on that team
+    if (teamId && !hasTeamPermission(req.user!, teamId, 'access:manage')) {
+      return res.status(403).json({ error: 'You cannot share with this team' });
+    }
+
     const capabilityCentre = await prisma.capabilityCentre.create({
       data: {
         name: name.trim(),
@@ -219,6 +228,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
         color: color || '#1976d2',
         icon: icon || 'Business',
         userId,
+        teamId: teamId || null,
       },
     });
 
@@ -233,18 +243,24 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
 router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, code, description, color, icon } = req.body;
-    const userId = req.user!.id;
+    const { name, code, description, color, icon, teamId } = req.body;
 
-    // Verify ownership
+    // Verify access
     const existing = await prisma.capabilityCentre.findFirst({
-      where: { id, userId },
+      where: { id, ...capabilityCentreScope(req.user!, 'scope:manage') },
     });
 
     if (!existing) {
       return res.status(404).json({ error: 'Capability centre not found' });
     }
 
+    // Changing the shared team requires an owner/admin role on the new team
+    if (teamId !== undefined && teamId !== existing.teamId) {
+      if (teamId && !hasTeamPermission(req.user!, teamId, 'access:manage')) {
+        return res.status(403).json({ error: 'You cannot share with this team' });
+      }
+    }
+
     const capabilityCentre = await prisma.capabilityCentre.update({
       where: { id },
       data: {
@@ -253,6 +269,7 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
         description: description?.trim() ?? existing.description,
         color: color || existing.color,
         icon: icon || existing.icon,
+        teamId: teamId === undefined ? existing.teamId : teamId || null,
       },
     });
 
@@ -267,11 +284,10 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
 router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.user!.id;
 
-    // Verify ownership
+    // Only the owner can delete a capability centre
     const existing = await prisma.capabilityCentre.findFirst({
-      where: { id, userId },
+      where: { id, userId: req.user!.id },
     });
 
     if (!existing) {
@@ -292,10 +308,8 @@ router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Res
 // Get the complete organizational hierarchy with compliance roll-up
 router.get('/hierarchy/full', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userId = req.user!.id;
-
     const capabilityCentres = await prisma.capabilityCentre.findMany({
-      where: { userId },
+      where: capabilityCentreScope(req.user!),
       include: {
         frameworks: {
           include: {
@@ -0,0 +1,120 @@
+import express from 'express';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest, requireRole } from '../middleware/auth';
+import { logAuditFromRequest } from '../services/auditService';
+import { controlCatalogService, DEFAULT_CATALOG_ID } from '../services/controlCatalog.service';
+import { crosswalkService } from '../services/crosswalk.service';
+
+const router = express.Router();
+
+// Helper: API shape of a catalog row
+function toCatalogResponse(catalog: {
+  id: string;
+  name: string;
+  version: string | null;
+  publisher: string | null;
+  description: string | null;
+  functionLabel: string;
+  categoryLabel: string;
+  controlLabel: string;
+  source: string;
+  loadedAt: Date;
+  _count: { controls: number; products: number };
+}) {
+  return {
+    id: catalog.id,
+    name: catalog.name,
+    version: catalog.version,
+    publisher: catalog.publisher,
+    description: catalog.description,
+    levels: {
+      function: catalog.functionLabel,
+      category: catalog.categoryLabel,
+      control: catalog.controlLabel,
+    },
+    isDefault: catalog.id === DEFAULT_CATALOG_ID,
+    controlCount: catalog._count.controls,
+    productCount: catalog._count.products,
+    source: catalog.source,
+    loadedAt: catalog.loadedAt,
+  };
+}
+
+const catalogInclude = {
+  _count: { select: { controls: true, products: true } },
+} as const;
+
+// GET /api/catalogs - List the control catalogs products can be assessed against
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const catalogs = await prisma.controlCatalog.findMany({
+      include: catalogInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    // Default catalog first, then alphabetical
+    const sorted = [
+      ...catalogs.filter(c => c.id === DEFAULT_CATALOG_ID),
+      ...catalogs.filter(c => c.id !== DEFAULT_CATALOG_ID),
+    ];
+
+    res.json({
+      catalogs: sorted.map(toCatalogResponse),
+      total: sorted.length,
+    });
+  } catch (error) {
+    console.error('Error fetching control catalogs:', error);
+    res.status(500).json({ error: 'Failed to fetch control catalogs' });
+  }
+});
+
+// GET /api/catalogs/:id - Catalog with its function -> category hierarchy
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const catalog = await prisma.controlCatalog.findUnique({
+      where: { id: req.params.id },
+      include: catalogInclude,
+    });
+
+    if (!catalog) {
+      return res.status(404).json({ error: 'Control catalog not found' });
+    }
+
+    res.json({
+      ...toCatalogResponse(catalog),
+      functions: await controlCatalogService.getGroups(catalog.id),
+    });
+  } catch (error) {
+    console.error('Error fetching control catalog:', error);
+    res.status(500).json({ error: 'Failed to fetch control catalog' });
+  }
+});
+
+// POST /api/catalogs/sync - Reload catalogs and crosswalks from data/ (admin only)
+router.post('/sync', requireRole(['ADMIN']), async (req: AuthenticatedRequest, res) => {
+  try {
+    const results = await controlCatalogService.syncAll();
+    crosswalkService.reload();
+    const loaded = results.filter(r => r.status === 'LOADED');
+
+    if (loaded.length > 0) {
+      await logAuditFromRequest(req, {
+        action: 'UPDATE',
+        entityType: 'Framework',
+        entityId: 'control-catalogs',
+        entityName: 'Control catalogs',
+        details: {
+          loaded: loaded.map(r => ({ id: r.id, controlCount: r.controlCount })),
+          failed: results.filter(r => r.status === 'FAILED').map(r => r.id),
+        },
+      });
+    }
+
+    res.json({ results });
+  } catch (error) {
+    console.error('Error syncing control catalogs:', error);
+    res.status(500).json({ error: 'Failed to sync control catalogs' });
+  }
+});
+
+export default router;
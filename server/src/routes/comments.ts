@@ -2,6 +2,9 @@ import express, { Response } from 'express';
 import { prisma } from '../prisma';
 import { z } from 'zod';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth';
+import { verifyAssessmentAccess } from '../services/access.service';
+import { notificationService, assessmentLink } from '../services/notification.service';
+import { realtimeService } from '../services/realtime.service';
 
 const router = express.Router();
 
@@ -19,19 +22,38 @@ const updateCommentSchema = z.object({
   mentions: z.array(z.string().uuid()).optional(),
 });
 
-// Helper to verify user owns the assessment through product chain
-async function verifyAssessmentAccess(assessmentId: string, userId: string): Promise<boolean> {
-  const assessment = await prisma.complianceAssessment.findFirst({
-    where: {
-      id: assessmentId,
-      system: {
-        product: {
-          userId: userId,
-        },
-      },
-    },
-  });
-  return !!assessment;
+// Helper: Notify users newly mentioned in a comment
+async function notifyMentions(
+  comment: { id: string; content: string; assessmentId: string | null },
+  mentionIds: string[],
+  author: { id: string; name: string }
+) {
+  if (mentionIds.length === 0) return;
+
+  const assessment = comment.assessmentId
+    ? await prisma.complianceAssessment.findUnique({
+        where: { id: comment.assessmentId },
+        select: { subcategoryId: true, systemId: true, system: { select: { productId: true } } },
+      })
+    : null;
+
+  const excerpt = comment.content.length > 140 ? `${comment.content.slice(0, 137)}...` : comment.content;
+
+  await notificationService.notify(
+    mentionIds.map((userId) => ({
+      userId,
+      type: 'MENTION' as const,
+      title: assessment
+        ? `${author.name} mentioned you on ${assessment.subcategoryId}`
+        : `${author.name} mentioned you in a comment`,
+      message: excerpt,
+      link: assessment ? assessmentLink(assessment) : undefined,
+      entityType: 'Comment',
+      entityId: comment.id,
+      actorId: author.id,
+      dedupeKey: `mention:${comment.id}`,
+    }))
+  );
 }
 
 // GET /api/comments - List comments for an assessment
@@ -44,7 +66,7 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
     }
 
     // Verify access
-    const hasAccess = await verifyAssessmentAccess(assessmentId as string, req.user!.id);
+    const hasAccess = await verifyAssessmentAccess(assessmentId as string, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Assessment not found' });
     }
@@ -176,7 +198,6 @@ router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
                   select: {
                     id: true,
                     name: true,
-                    userId: true,
                   },
                 },
               },
@@ -191,7 +212,7 @@ router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
     }
 
     // Verify access through assessment
-    if (comment.assessment && comment.assessment.system.product.userId !== req.user!.id) {
+    if (comment.assessment && !(await verifyAssessmentAccess(comment.assessment.id, req.user!))) {
       return res.status(404).json({ error: 'Comment not found' });
     }
 
@@ -244,7 +265,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
 
     // Verify access
     if (finalAssessmentId) {
-      const hasAccess = await verifyAssessmentAccess(finalAssessmentId, req.user!.id);
+      const hasAccess = await verifyAssessmentAccess(finalAssessmentId, req.user!);
       if (!hasAccess) {
         return res.status(404).json({ error: 'Assessment not found' });
       }
@@ -278,6 +299,17 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       });
     }
 
+    await notifyMentions(comment, mentionedUsers.map((u) => u.id), req.user!);
+
+    if (comment.assessmentId) {
+      await realtimeService.publishForAssessment(comment.assessmentId, {
+        entity: 'comment',
+        action: 'created',
+        id: comment.id,
+        data: { ...comment, mentionedUsers },
+      }, req);
+    }
+
     res.status(201).json({
       ...comment,
       mentionedUsers,
@@ -339,6 +371,23 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       });
     }
 
+    // Only users added by this edit are notified
+    const previousMentions: string[] = existingComment.mentions ? JSON.parse(existingComment.mentions) : [];
+    await notifyMentions(
+      comment,
+      mentionedUsers.map((u) => u.id).filter((id) => !previousMentions.includes(id)),
+      req.user!
+    );
+
+    if (comment.assessmentId) {
+      await realtimeService.publishForAssessment(comment.assessmentId, {
+        entity: 'comment',
+        action: 'updated',
+        id: comment.id,
+        data: { ...comment, mentionedUsers },
+      }, req);
+    }
+
     res.json({
       ...comment,
       mentionedUsers,
@@ -372,6 +421,14 @@ router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Res
       where: { id },
     });
 
+    if (existingComment.assessmentId) {
+      await realtimeService.publishForAssessment(existingComment.assessmentId, {
+        entity: 'comment',
+        action: 'deleted',
+        id,
+      }, req);
+    }
+
     res.json({ message: 'Comment deleted successfully' });
   } catch (error) {
     console.error('Error deleting comment:', error);
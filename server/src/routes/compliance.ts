@@ -3,17 +3,50 @@
  *
  * Provides hierarchical compliance data with scoping support.
  * GET /api/compliance/rollup - Main endpoint for scoped compliance
+ * GET /api/compliance/history - Daily snapshot trend for a scope
+ * GET /api/compliance/as-of - A scope's snapshot as it stood on a given date
  * POST /api/compliance/recalculate - Recalculate all cached scores
+ *
+ * GET endpoints accept ?approvedOnly=true to count only approved assessments.
  */
 
-import { Router, Request, Response } from 'express';
-import { complianceCalculationService, ScopeType } from '../services/complianceCalculation.service';
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { complianceCalculationService, ComplianceQueryOptions, ScopeType } from '../services/complianceCalculation.service';
+import { complianceSnapshotService } from '../services/complianceSnapshot.service';
+import {
+  AccessUser,
+  capabilityCentreScope,
+  verifyAssessmentAccess,
+  verifyScopeAccess,
+  verifySystemAccess,
+} from '../services/access.service';
 
 const router = Router();
 
-// Extend Request to include user (from auth middleware)
-interface AuthenticatedRequest extends Request {
-  user?: { id: string; email: string; name: string; role: string };
+// Helper to verify the user can view a compliance scope
+async function canViewScope(scopeType: ScopeType, scopeId: string, user: AccessUser): Promise<boolean> {
+  switch (scopeType) {
+    case 'cc':
+      return !!(await verifyScopeAccess('CAPABILITY_CENTRE', scopeId, user));
+    case 'framework':
+      return !!(await verifyScopeAccess('FRAMEWORK', scopeId, user));
+    case 'product':
+      return !!(await verifyScopeAccess('PRODUCT', scopeId, user));
+    case 'system':
+      return !!(await verifySystemAccess(scopeId, user));
+    default:
+      return false;
+  }
+}
+
+// Helper to read rollup options from the query string; the global scope only
+// covers the capability centres the user can view
+function queryOptions(req: AuthenticatedRequest): ComplianceQueryOptions {
+  return {
+    approvedOnly: req.query.approvedOnly === 'true',
+    visibleCentres: capabilityCentreScope(req.user!),
+  };
 }
 
 /**
@@ -24,6 +57,7 @@ interface AuthenticatedRequest extends Request {
  * Query params:
  *   - scopeType: 'cc' | 'framework' | 'product' | 'system' (optional - null for global)
  *   - scopeId: UUID of the scoped entity (required if scopeType is set)
+ *   - approvedOnly: 'true' to count only approved assessments (optional)
  */
 router.get('/rollup', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -44,9 +78,14 @@ router.get('/rollup', async (req: AuthenticatedRequest, res: Response) => {
       });
     }
 
+    if (parsedScopeType && !(await canViewScope(parsedScopeType, parsedScopeId!, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+
     const result = await complianceCalculationService.getHierarchicalCompliance(
       parsedScopeType,
-      parsedScopeId
+      parsedScopeId,
+      queryOptions(req)
     );
 
     res.json(result);
@@ -74,7 +113,10 @@ router.get('/rollup', async (req: AuthenticatedRequest, res: Response) => {
  */
 router.get('/capability-centres/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const result = await complianceCalculationService.getHierarchicalCompliance('cc', req.params.id);
+    if (!(await canViewScope('cc', req.params.id, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+    const result = await complianceCalculationService.getHierarchicalCompliance('cc', req.params.id, queryOptions(req));
     res.json(result);
   } catch (error: any) {
     console.error('[CC Compliance Error]', error);
@@ -92,7 +134,10 @@ router.get('/capability-centres/:id', async (req: AuthenticatedRequest, res: Res
  */
 router.get('/frameworks/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const result = await complianceCalculationService.getHierarchicalCompliance('framework', req.params.id);
+    if (!(await canViewScope('framework', req.params.id, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+    const result = await complianceCalculationService.getHierarchicalCompliance('framework', req.params.id, queryOptions(req));
     res.json(result);
   } catch (error: any) {
     console.error('[Framework Compliance Error]', error);
@@ -110,7 +155,10 @@ router.get('/frameworks/:id', async (req: AuthenticatedRequest, res: Response) =
  */
 router.get('/products/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const result = await complianceCalculationService.getHierarchicalCompliance('product', req.params.id);
+    if (!(await canViewScope('product', req.params.id, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+    const result = await complianceCalculationService.getHierarchicalCompliance('product', req.params.id, queryOptions(req));
     res.json(result);
   } catch (error: any) {
     console.error('[Product Compliance Error]', error);
@@ -128,7 +176,10 @@ router.get('/products/:id', async (req: AuthenticatedRequest, res: Response) =>
  */
 router.get('/systems/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const result = await complianceCalculationService.getHierarchicalCompliance('system', req.params.id);
+    if (!(await canViewScope('system', req.params.id, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+    const result = await complianceCalculationService.getHierarchicalCompliance('system', req.params.id, queryOptions(req));
     res.json(result);
   } catch (error: any) {
     console.error('[System Compliance Error]', error);
@@ -139,18 +190,91 @@ router.get('/systems/:id', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Helper to read a required scope from the query string
+function requiredScope(req: AuthenticatedRequest): { scopeType: ScopeType; scopeId: string } | null {
+  const { scopeType, scopeId } = req.query;
+  if (!['cc', 'framework', 'product', 'system'].includes(scopeType as string) || !scopeId) {
+    return null;
+  }
+  return { scopeType: scopeType as ScopeType, scopeId: scopeId as string };
+}
+
+/**
+ * GET /api/compliance/history
+ *
+ * Daily compliance trend for a scope, read from recorded snapshots.
+ *
+ * Query params:
+ *   - scopeType: 'cc' | 'framework' | 'product' | 'system'
+ *   - scopeId: UUID of the scoped entity
+ *   - days: number of days to include (default 30, max 730)
+ */
+router.get('/history', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = requiredScope(req);
+    if (!scope) {
+      return res.status(400).json({ error: 'Bad Request', message: 'scopeType and scopeId are required' });
+    }
+
+    if (!(await canViewScope(scope.scopeType, scope.scopeId, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 730);
+    const trends = await complianceSnapshotService.getTrend(scope.scopeType, [scope.scopeId], days);
+
+    res.json({ ...scope, days, trends });
+  } catch (error: any) {
+    console.error('[Compliance History Error]', error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to fetch compliance history' });
+  }
+});
+
+/**
+ * GET /api/compliance/as-of
+ *
+ * A scope's rollup and CSF function scores as they stood at the end of a date,
+ * e.g. "what was our PR score on March 1st".
+ *
+ * Query params:
+ *   - scopeType: 'cc' | 'framework' | 'product' | 'system'
+ *   - scopeId: UUID of the scoped entity
+ *   - date: ISO date (YYYY-MM-DD)
+ */
+router.get('/as-of', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = requiredScope(req);
+    if (!scope) {
+      return res.status(400).json({ error: 'Bad Request', message: 'scopeType and scopeId are required' });
+    }
+
+    const date = new Date(req.query.date as string);
+    if (!req.query.date || isNaN(date.getTime())) {
+      return res.status(400).json({ error: 'Bad Request', message: 'A valid date is required' });
+    }
+
+    if (!(await canViewScope(scope.scopeType, scope.scopeId, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Scope not found' });
+    }
+
+    res.json(await complianceSnapshotService.getAsOf(scope.scopeType, scope.scopeId, date));
+  } catch (error: any) {
+    console.error('[Compliance As-Of Error]', error);
+    res.status(500).json({ error: 'Internal Server Error', message: 'Failed to fetch compliance snapshot' });
+  }
+});
+
 /**
  * POST /api/compliance/recalculate
  *
- * Recalculate all cached compliance scores. Admin only.
+ * Recalculate all cached compliance scores and snapshot every scope. Admin only.
  * Use for initial backfill or cache repair.
  */
 router.post('/recalculate', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Optional: Add admin role check here
-    // if (req.user?.role !== 'ADMIN') {
-    //   return res.status(403).json({ error: 'Forbidden', message: 'Admin access required' });
-    // }
+    if (req.user?.role !== 'ADMIN') {
+      return res.status(403).json({ error: 'Forbidden', message: 'Admin access required' });
+    }
 
     await complianceCalculationService.recalculateAll();
 
@@ -175,6 +299,10 @@ router.post('/recalculate', async (req: AuthenticatedRequest, res: Response) =>
  */
 router.post('/invalidate/:assessmentId', async (req: AuthenticatedRequest, res: Response) => {
   try {
+    if (!(await verifyAssessmentAccess(req.params.assessmentId, req.user!))) {
+      return res.status(404).json({ error: 'Not Found', message: 'Assessment not found' });
+    }
+
     await complianceCalculationService.invalidateHierarchy(req.params.assessmentId);
 
     res.json({
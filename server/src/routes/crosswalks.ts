@@ -0,0 +1,53 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { productScope } from '../services/access.service';
+import { crosswalkService, CrosswalkError } from '../services/crosswalk.service';
+
+const router = express.Router();
+
+// Validation schemas
+const projectionQuerySchema = z.object({
+  targetCatalogId: z.string().min(1, 'targetCatalogId is required'),
+});
+
+// GET /api/crosswalks - List the control mappings between catalogs
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const crosswalks = await crosswalkService.listCrosswalks();
+    res.json({ crosswalks, total: crosswalks.length });
+  } catch (error) {
+    console.error('Error fetching crosswalks:', error);
+    res.status(500).json({ error: 'Failed to fetch crosswalks' });
+  }
+});
+
+// GET /api/crosswalks/products/:productId?targetCatalogId= - Project a product's
+// assessments onto another catalog
+router.get('/products/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = projectionQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const product = await prisma.product.findFirst({
+      where: { id: req.params.productId, ...productScope(req.user!) },
+      select: { id: true },
+    });
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json(await crosswalkService.project(product.id, validation.data.targetCatalogId));
+  } catch (error) {
+    if (error instanceof CrosswalkError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error projecting assessments:', error);
+    res.status(500).json({ error: 'Failed to project assessments' });
+  }
+});
+
+export default router;
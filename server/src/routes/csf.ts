@@ -1,25 +1,44 @@
 import express from 'express';
 import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { controlCatalogService, DEFAULT_CATALOG_ID } from '../services/controlCatalog.service';
 
 const router = express.Router();
 
+// Helper: catalog selected with ?catalogId=, NIST CSF 2.0 when not given
+function requestedCatalogId(req: AuthenticatedRequest): string {
+  const { catalogId } = req.query;
+  return typeof catalogId === 'string' && catalogId ? catalogId : DEFAULT_CATALOG_ID;
+}
+
+// Helper: parse JSON fields and attach function/category names from the catalog
+async function withGroupNames<T extends { catalogId: string; functionId: string; categoryId: string; implementationExamples: string | null; informativeReferences: string | null }>(
+  controls: T[]
+) {
+  const names = await controlCatalogService.getGroupNames(Array.from(new Set(controls.map(c => c.catalogId))));
+  return controls.map(control => ({
+    ...control,
+    functionName: names.functions.get(control.functionId)?.name || control.functionId,
+    categoryName: names.categories.get(control.categoryId)?.name || control.categoryId,
+    implementationExamples: control.implementationExamples ? JSON.parse(control.implementationExamples) : [],
+    informativeReferences: control.informativeReferences ? JSON.parse(control.informativeReferences) : []
+  }));
+}
 
-// GET /api/csf/controls - Get all CSF controls
+
+// GET /api/csf/controls?catalogId= - Get all controls of a catalog (default NIST CSF 2.0)
 router.get('/controls', async (req: AuthenticatedRequest, res) => {
   try {
+    const catalogId = requestedCatalogId(req);
     const controls = await prisma.cSFControl.findMany({
-      orderBy: { id: 'asc' }
+      where: { catalogId },
+      orderBy: { sortOrder: 'asc' }
     });
 
-    // Parse JSON fields
-    const parsedControls = controls.map(control => ({
-      ...control,
-      implementationExamples: control.implementationExamples ? JSON.parse(control.implementationExamples) : [],
-      informativeReferences: control.informativeReferences ? JSON.parse(control.informativeReferences) : []
-    }));
+    const parsedControls = await withGroupNames(controls);
 
     res.json({
+      catalogId,
       controls: parsedControls,
       total: parsedControls.length
     });
@@ -29,26 +48,16 @@ router.get('/controls', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// GET /api/csf/functions - List all CSF functions
+// GET /api/csf/functions?catalogId= - List the functions (top-level groups) of a catalog
 router.get('/functions', async (req: AuthenticatedRequest, res) => {
   try {
-    const controls = await prisma.cSFControl.findMany({
-      select: {
-        functionId: true
-      },
-      distinct: ['functionId'],
-      orderBy: { functionId: 'asc' }
-    });
+    const groups = await controlCatalogService.getGroups(requestedCatalogId(req));
 
-    // Map function IDs to full names and descriptions
-    const functions = controls.map(c => {
-      const funcData = getFunctionData(c.functionId);
-      return {
-        id: c.functionId,
-        name: funcData.name,
-        description: funcData.description
-      };
-    });
+    const functions = groups.map(fn => ({
+      id: fn.id,
+      name: fn.name,
+      description: fn.description || ''
+    }));
 
     res.json({
       functions,
@@ -60,30 +69,19 @@ router.get('/functions', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// GET /api/csf/categories/:functionId - Get categories for a function
+// GET /api/csf/categories/:functionId?catalogId= - Get categories for a function
 router.get('/categories/:functionId', async (req: AuthenticatedRequest, res) => {
   try {
     const { functionId } = req.params;
+    const groups = await controlCatalogService.getGroups(requestedCatalogId(req));
+    const fn = groups.find(g => g.id === functionId);
 
-    const controls = await prisma.cSFControl.findMany({
-      where: { functionId },
-      select: {
-        categoryId: true
-      },
-      distinct: ['categoryId'],
-      orderBy: { categoryId: 'asc' }
-    });
-
-    // Get full category details
-    const categories = controls.map(c => {
-      const categoryData = getCategoryData(c.categoryId);
-      return {
-        id: c.categoryId,
-        functionId,
-        name: categoryData.name,
-        description: categoryData.description
-      };
-    });
+    const categories = (fn?.categories || []).map(category => ({
+      id: category.id,
+      functionId,
+      name: category.name,
+      description: category.description || ''
+    }));
 
     res.json({
       functionId,
@@ -115,11 +113,9 @@ router.get('/controls/:controlId', async (req: AuthenticatedRequest, res) => {
       orderBy: { nist80053Id: 'asc' }
     });
 
-    // Parse JSON fields
+    const [parsed] = await withGroupNames([control]);
     const parsedControl = {
-      ...control,
-      implementationExamples: control.implementationExamples ? JSON.parse(control.implementationExamples) : [],
-      informativeReferences: control.informativeReferences ? JSON.parse(control.informativeReferences) : [],
+      ...parsed,
       nist80053Mappings: mappings.map(m => ({
         id: m.id,
         nist80053Id: m.nist80053Id,
@@ -135,7 +131,7 @@ router.get('/controls/:controlId', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// GET /api/csf/search?q=term - Search controls by text
+// GET /api/csf/search?q=term&catalogId= - Search a catalog's controls by text
 router.get('/search', async (req: AuthenticatedRequest, res) => {
   try {
     const { q } = req.query;
@@ -151,7 +147,8 @@ router.get('/search', async (req: AuthenticatedRequest, res) => {
 
     // Search in multiple fields
     const controls = await prisma.cSFControl.findMany({
-      orderBy: { id: 'asc' }
+      where: { catalogId: requestedCatalogId(req) },
+      orderBy: { sortOrder: 'asc' }
     });
 
     // Filter controls based on search term
@@ -167,12 +164,7 @@ router.get('/search', async (req: AuthenticatedRequest, res) => {
       return searchableText.includes(searchTerm);
     });
 
-    // Parse JSON fields for matching controls
-    const parsedControls = matchingControls.map(control => ({
-      ...control,
-      implementationExamples: control.implementationExamples ? JSON.parse(control.implementationExamples) : [],
-      informativeReferences: control.informativeReferences ? JSON.parse(control.informativeReferences) : []
-    }));
+    const parsedControls = await withGroupNames(matchingControls);
 
     res.json({
       query: q,
@@ -250,35 +242,29 @@ router.get('/mappings/:controlId', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// GET /api/csf/categories - Get all categories with control counts
+// GET /api/csf/categories?catalogId= - Get all categories of a catalog with control counts
 router.get('/categories', async (req: AuthenticatedRequest, res) => {
   try {
-    const controls = await prisma.cSFControl.findMany({
-      select: {
-        categoryId: true,
-        functionId: true
-      }
-    });
-
-    // Group by category
-    const categoryMap = new Map<string, { functionId: string; count: number }>();
-    controls.forEach(c => {
-      if (!categoryMap.has(c.categoryId)) {
-        categoryMap.set(c.categoryId, { functionId: c.functionId, count: 0 });
-      }
-      categoryMap.get(c.categoryId)!.count++;
-    });
-
-    const categories = Array.from(categoryMap.entries()).map(([categoryId, data]) => {
-      const categoryData = getCategoryData(categoryId);
-      return {
-        id: categoryId,
-        functionId: data.functionId,
-        name: categoryData.name,
-        description: categoryData.description,
-        controlCount: data.count
-      };
-    }).sort((a, b) => a.id.localeCompare(b.id));
+    const catalogId = requestedCatalogId(req);
+    const [groups, counts] = await Promise.all([
+      controlCatalogService.getGroups(catalogId),
+      prisma.cSFControl.groupBy({
+        by: ['categoryId'],
+        where: { catalogId },
+        _count: { _all: true }
+      })
+    ]);
+    const controlCounts = new Map(counts.map(c => [c.categoryId, c._count._all]));
+
+    const categories = groups.flatMap(fn =>
+      fn.categories.map(category => ({
+        id: category.id,
+        functionId: fn.id,
+        name: category.name,
+        description: category.description || '',
+        controlCount: controlCounts.get(category.id) || 0
+      }))
+    );
 
     res.json({
       categories,
@@ -290,65 +276,4 @@ router.get('/categories', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// Helper function to get function data
-function getFunctionData(functionId: string): { name: string; description: string } {
-  const functions: Record<string, { name: string; description: string }> = {
-    'GV': {
-      name: 'Govern',
-      description: 'The organization\'s cybersecurity risk management strategy, expectations, and policy are established, communicated, and monitored.'
-    },
-    'ID': {
-      name: 'Identify',
-      description: 'The organization\'s current cybersecurity risks are understood.'
-    },
-    'PR': {
-      name: 'Protect',
-      description: 'Safeguards to manage the organization\'s cybersecurity risks are used.'
-    },
-    'DE': {
-      name: 'Detect',
-      description: 'Possible cybersecurity attacks and compromises are found and analyzed.'
-    },
-    'RS': {
-      name: 'Respond',
-      description: 'Actions regarding a detected cybersecurity incident are taken.'
-    },
-    'RC': {
-      name: 'Recover',
-      description: 'Assets and operations affected by a cybersecurity incident are restored.'
-    }
-  };
-
-  return functions[functionId] || { name: functionId, description: 'Unknown function' };
-}
-
-// Helper function to get category data (simplified - in production, this would be more comprehensive)
-function getCategoryData(categoryId: string): { name: string; description: string } {
-  const categories: Record<string, { name: string; description: string }> = {
-    'GV.OC': { name: 'Organizational Context', description: 'Understanding organizational context and priorities' },
-    'GV.RM': { name: 'Risk Management Strategy', description: 'Risk management strategy and governance' },
-    'GV.RR': { name: 'Roles, Responsibilities, and Authorities', description: 'Cybersecurity roles and responsibilities' },
-    'GV.PO': { name: 'Policy', description: 'Organizational policies and procedures' },
-    'GV.OV': { name: 'Oversight', description: 'Cybersecurity oversight and accountability' },
-    'GV.SC': { name: 'Cybersecurity Supply Chain Risk Management', description: 'Supply chain risk management' },
-    'ID.AM': { name: 'Asset Management', description: 'Identification and management of assets' },
-    'ID.RA': { name: 'Risk Assessment', description: 'Risk identification and assessment' },
-    'ID.IM': { name: 'Improvement', description: 'Continuous improvement processes' },
-    'PR.AA': { name: 'Identity Management, Authentication, and Access Control', description: 'Access control and authentication' },
-    'PR.AT': { name: 'Awareness and Training', description: 'Security awareness and training' },
-    'PR.DS': { name: 'Data Security', description: 'Data protection and privacy' },
-    'PR.PS': { name: 'Platform Security', description: 'Platform and infrastructure security' },
-    'PR.IR': { name: 'Technology Infrastructure Resilience', description: 'Infrastructure resilience and recovery' },
-    'DE.CM': { name: 'Continuous Monitoring', description: 'Continuous security monitoring' },
-    'DE.AE': { name: 'Adverse Event Analysis', description: 'Analysis of security events' },
-    'RS.MA': { name: 'Incident Management', description: 'Incident response management' },
-    'RS.AN': { name: 'Incident Analysis', description: 'Incident analysis and response' },
-    'RS.MI': { name: 'Incident Mitigation', description: 'Incident mitigation activities' },
-    'RC.RP': { name: 'Incident Recovery Plan Execution', description: 'Recovery planning and execution' },
-    'RC.CO': { name: 'Incident Recovery Communication', description: 'Recovery communication' }
-  };
-
-  return categories[categoryId] || { name: categoryId, description: 'Category description' };
-}
-
 export default router;
@@ -2,12 +2,28 @@ import express from 'express';
 import multer from 'multer';
 import * as path from 'path';
 import * as os from 'os';
+import { z } from 'zod';
 import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { storageService } from '../services/storage.service';
+import { productScope } from '../services/access.service';
+import { evidenceExpiryService, resolveExpiry, EVIDENCE_TYPES } from '../services/evidenceExpiry.service';
+import { realtimeService } from '../services/realtime.service';
 
 const router = express.Router();
 
+// Multipart fields arrive as strings; treat empty values as not provided
+const optionalDate = z.preprocess(
+  (value) => (value === '' ? undefined : value),
+  z.coerce.date().nullable().optional()
+);
+
+const evidenceMetadataSchema = z.object({
+  description: z.string().optional(),
+  evidenceType: z.preprocess((value) => (value === '' ? undefined : value), z.enum(EVIDENCE_TYPES).optional()),
+  validFrom: optionalDate,
+  expiresAt: optionalDate,
+});
 
 // Configure multer for file uploads
 const upload = multer({
@@ -22,16 +38,13 @@ const upload = multer({
 router.get('/assessment/:assessmentId', async (req: AuthenticatedRequest, res) => {
   try {
     const { assessmentId } = req.params;
-    const userId = req.user!.id;
 
     // Verify user has access to this assessment
     const assessment = await prisma.complianceAssessment.findFirst({
       where: {
         id: assessmentId,
         system: {
-          product: {
-            userId,
-          },
+          product: productScope(req.user!),
         },
       },
       include: {
@@ -62,20 +75,24 @@ router.post('/upload/:assessmentId', upload.array('files', 10), async (req: Auth
     const { assessmentId } = req.params;
     const userId = req.user!.id;
     const files = req.files as Express.Multer.File[];
-    const { description } = req.body;
 
     if (!files || files.length === 0) {
       return res.status(400).json({ error: 'No files provided' });
     }
 
+    const validation = evidenceMetadataSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+    const { description, evidenceType = 'OTHER', validFrom, expiresAt } = validation.data;
+    const validity = resolveExpiry(evidenceType, validFrom, expiresAt);
+
     // Verify user has access to this assessment
     const assessment = await prisma.complianceAssessment.findFirst({
       where: {
         id: assessmentId,
         system: {
-          product: {
-            userId,
-          },
+          product: productScope(req.user!, 'evidence:upload'),
         },
       },
     });
@@ -102,6 +119,8 @@ router.post('/upload/:assessmentId', upload.array('files', 10), async (req: Auth
             storageType: storedFile.storageType,
             description: description || null,
             uploadedBy: userId,
+            evidenceType,
+            ...validity,
           },
         });
 
@@ -121,6 +140,18 @@ router.post('/upload/:assessmentId', upload.array('files', 10), async (req: Auth
       });
     }
 
+    // New evidence may clear a lapsed-evidence flag (or arrive already expired)
+    await evidenceExpiryService.refreshAssessment(assessmentId);
+
+    for (const evidence of uploadedEvidence) {
+      await realtimeService.publishForAssessment(assessmentId, {
+        entity: 'evidence',
+        action: 'created',
+        id: evidence.id,
+        data: evidence,
+      }, req);
+    }
+
     res.status(201).json({
       message: `Successfully uploaded ${uploadedEvidence.length} file(s)`,
       evidence: uploadedEvidence,
@@ -132,20 +163,37 @@ router.post('/upload/:assessmentId', upload.array('files', 10), async (req: Auth
   }
 });
 
+// GET /api/evidence/expiring - Evidence expiring soon (and already expired) across accessible systems
+router.get('/expiring', async (req: AuthenticatedRequest, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const { systemId, productId } = req.query as { systemId?: string; productId?: string };
+
+    const result = await evidenceExpiryService.getExpiring(req.user!, {
+      days,
+      includeExpired: req.query.includeExpired !== 'false',
+      systemId,
+      productId,
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error fetching expiring evidence:', error);
+    res.status(500).json({ error: 'Failed to fetch expiring evidence' });
+  }
+});
+
 // GET /api/evidence/:evidenceId - Get evidence metadata
 router.get('/:evidenceId', async (req: AuthenticatedRequest, res) => {
   try {
     const { evidenceId } = req.params;
-    const userId = req.user!.id;
 
     const evidence = await prisma.evidence.findFirst({
       where: {
         id: evidenceId,
         assessment: {
           system: {
-            product: {
-              userId,
-            },
+            product: productScope(req.user!),
           },
         },
       },
@@ -175,16 +223,13 @@ router.get('/:evidenceId', async (req: AuthenticatedRequest, res) => {
 router.get('/:evidenceId/download', async (req: AuthenticatedRequest, res) => {
   try {
     const { evidenceId } = req.params;
-    const userId = req.user!.id;
 
     const evidence = await prisma.evidence.findFirst({
       where: {
         id: evidenceId,
         assessment: {
           system: {
-            product: {
-              userId,
-            },
+            product: productScope(req.user!),
           },
         },
       },
@@ -213,12 +258,16 @@ router.get('/:evidenceId/download', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-// PUT /api/evidence/:evidenceId - Update evidence metadata (description)
+// PUT /api/evidence/:evidenceId - Update evidence metadata (description, type, validity)
 router.put('/:evidenceId', async (req: AuthenticatedRequest, res) => {
   try {
     const { evidenceId } = req.params;
-    const userId = req.user!.id;
-    const { description } = req.body;
+
+    const validation = evidenceMetadataSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+    const { description, evidenceType, validFrom, expiresAt } = validation.data;
 
     // Verify access
     const existing = await prisma.evidence.findFirst({
@@ -226,9 +275,7 @@ router.put('/:evidenceId', async (req: AuthenticatedRequest, res) => {
         id: evidenceId,
         assessment: {
           system: {
-            product: {
-              userId,
-            },
+            product: productScope(req.user!, 'evidence:upload'),
           },
         },
       },
@@ -238,11 +285,37 @@ router.put('/:evidenceId', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Evidence not found or access denied' });
     }
 
+    // Recompute validity when the type or dates change; without an explicit
+    // expiry date the type's default validity applies
+    const validityChanged = evidenceType !== undefined || validFrom !== undefined || expiresAt !== undefined;
+    const validity = validityChanged
+      ? resolveExpiry(
+          evidenceType || existing.evidenceType,
+          validFrom === undefined ? existing.validFrom : validFrom,
+          expiresAt
+        )
+      : {};
+
     const updated = await prisma.evidence.update({
       where: { id: evidenceId },
-      data: { description },
+      data: {
+        description,
+        ...(evidenceType && { evidenceType }),
+        ...validity,
+      },
     });
 
+    if (validityChanged) {
+      await evidenceExpiryService.refreshAssessment(existing.assessmentId);
+    }
+
+    await realtimeService.publishForAssessment(existing.assessmentId, {
+      entity: 'evidence',
+      action: 'updated',
+      id: evidenceId,
+      data: updated,
+    }, req);
+
     res.json(updated);
   } catch (error) {
     console.error('Error updating evidence:', error);
@@ -254,16 +327,13 @@ router.put('/:evidenceId', async (req: AuthenticatedRequest, res) => {
 router.delete('/:evidenceId', async (req: AuthenticatedRequest, res) => {
   try {
     const { evidenceId } = req.params;
-    const userId = req.user!.id;
 
     const evidence = await prisma.evidence.findFirst({
       where: {
         id: evidenceId,
         assessment: {
           system: {
-            product: {
-              userId,
-            },
+            product: productScope(req.user!, 'evidence:delete'),
           },
         },
       },
@@ -285,6 +355,13 @@ router.delete('/:evidenceId', async (req: AuthenticatedRequest, res) => {
     await prisma.evidence.delete({
       where: { id: evidenceId },
     });
+    await evidenceExpiryService.refreshAssessment(evidence.assessmentId);
+
+    await realtimeService.publishForAssessment(evidence.assessmentId, {
+      entity: 'evidence',
+      action: 'deleted',
+      id: evidenceId,
+    }, req);
 
     res.json({ message: 'Evidence deleted successfully' });
   } catch (error) {
@@ -297,15 +374,12 @@ router.delete('/:evidenceId', async (req: AuthenticatedRequest, res) => {
 router.get('/stats/system/:systemId', async (req: AuthenticatedRequest, res) => {
   try {
     const { systemId } = req.params;
-    const userId = req.user!.id;
 
     // Verify access
     const system = await prisma.system.findFirst({
       where: {
         id: systemId,
-        product: {
-          userId,
-        },
+        product: productScope(req.user!),
       },
     });
 
@@ -2,21 +2,12 @@ import express from 'express';
 import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import PDFDocument from 'pdfkit';
+import { verifyProductAccess } from '../services/access.service';
+import { oscalExportService } from '../services/oscalExport.service';
 
 const router = express.Router();
 
 
-// Helper function to verify product ownership
-async function verifyProductOwnership(productId: string, userId: string): Promise<boolean> {
-  const product = await prisma.product.findFirst({
-    where: {
-      id: productId,
-      userId: userId
-    }
-  });
-  return !!product;
-}
-
 // Helper function to calculate compliance score
 function calculateComplianceScore(assessments: any[]): number {
   const completed = assessments.filter(a => a.status !== 'NOT_ASSESSED' && a.status !== 'NOT_APPLICABLE');
@@ -38,8 +29,8 @@ function calculateComplianceScore(assessments: any[]): number {
 // GET /api/export/pdf/:productId - Generate PDF compliance report
 router.get('/pdf/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!, 'report:generate');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -190,8 +181,8 @@ router.get('/pdf/:productId', async (req: AuthenticatedRequest, res) => {
 // GET /api/export/excel/:productId - Generate Excel assessment workbook
 router.get('/excel/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!, 'report:generate');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -261,8 +252,8 @@ router.get('/excel/:productId', async (req: AuthenticatedRequest, res) => {
 // GET /api/export/csv/:productId - Generate CSV data export
 router.get('/csv/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!, 'report:generate');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -328,8 +319,8 @@ router.get('/csv/:productId', async (req: AuthenticatedRequest, res) => {
 // GET /api/export/json/:productId - Generate JSON data export
 router.get('/json/:productId', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(req.params.productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!, 'report:generate');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -461,4 +452,43 @@ router.get('/json/:productId', async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// OSCAL document builders by route segment
+const OSCAL_DOCUMENTS = new Map<string, (productId: string, user: NonNullable<AuthenticatedRequest['user']>) => Promise<object | null>>([
+  ['ssp', (productId, user) => oscalExportService.buildSSP(productId, user)],
+  ['assessment-results', (productId, user) => oscalExportService.buildAssessmentResults(productId, user)],
+  ['poam', (productId, user) => oscalExportService.buildPOAM(productId, user)],
+]);
+
+// GET /api/export/oscal/:document/:productId - OSCAL JSON SSP, assessment results or POA&M
+router.get('/oscal/:document/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const build = OSCAL_DOCUMENTS.get(req.params.document);
+    if (!build) {
+      return res.status(404).json({ error: 'Unknown OSCAL document type' });
+    }
+
+    // Verify access
+    const hasAccess = await verifyProductAccess(req.params.productId, req.user!, 'report:generate');
+    if (!hasAccess) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const oscal = await build(req.params.productId, req.user!);
+    if (!oscal) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const product = await prisma.product.findUnique({ where: { id: req.params.productId }, select: { name: true } });
+
+    // Set response headers
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="oscal-${req.params.document}-${product!.name.replace(/[^a-z0-9]/gi, '-')}.json"`);
+
+    res.send(JSON.stringify(oscal, null, 2));
+  } catch (error) {
+    console.error('Error generating OSCAL export:', error);
+    res.status(500).json({ error: 'Failed to generate OSCAL export' });
+  }
+});
+
 export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../prisma';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { capabilityCentreScope, frameworkScope, productScope } from '../services/access.service';
 
 const router = Router();
 
@@ -8,15 +9,10 @@ const router = Router();
 // Get all frameworks for the current user with product counts and compliance stats
 router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userId = req.user!.id;
     const { capabilityCentreId } = req.query;
 
-    // Get frameworks through capability centres owned by user
-    const whereClause: any = {
-      capabilityCentre: {
-        userId,
-      },
-    };
+    // Get frameworks through capability centres owned by or shared with the user
+    const whereClause: any = frameworkScope(req.user!);
 
     // Optional filter by capability centre
     if (capabilityCentreId) {
@@ -121,14 +117,11 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
 router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.user!.id;
 
     const framework = await prisma.framework.findFirst({
       where: {
         id,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!),
       },
       include: {
         capabilityCentre: true,
@@ -219,7 +212,6 @@ router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
 router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { name, code, description, color, icon, capabilityCentreId } = req.body;
-    const userId = req.user!.id;
 
     if (!name || name.trim() === '') {
       return res.status(400).json({ error: 'Framework name is required' });
@@ -229,9 +221,9 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       return res.status(400).json({ error: 'Capability centre ID is required' });
     }
 
-    // Verify user owns the capability centre
+    // Verify user can manage the capability centre
     const capabilityCentre = await prisma.capabilityCentre.findFirst({
-      where: { id: capabilityCentreId, userId },
+      where: { id: capabilityCentreId, ...capabilityCentreScope(req.user!, 'scope:manage') },
     });
 
     if (!capabilityCentre) {
@@ -264,15 +256,12 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
   try {
     const { id } = req.params;
     const { name, code, description, color, icon } = req.body;
-    const userId = req.user!.id;
 
-    // Verify ownership through capability centre
+    // Verify access through capability centre
     const existing = await prisma.framework.findFirst({
       where: {
         id,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'scope:manage'),
       },
     });
 
@@ -305,15 +294,12 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
 router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.user!.id;
 
-    // Verify ownership through capability centre
+    // Verify access through capability centre
     const existing = await prisma.framework.findFirst({
       where: {
         id,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'scope:manage'),
       },
     });
 
@@ -336,15 +322,12 @@ router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Res
 router.post('/:id/products/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id, productId } = req.params;
-    const userId = req.user!.id;
 
-    // Verify framework ownership through capability centre
+    // Verify framework access through capability centre
     const framework = await prisma.framework.findFirst({
       where: {
         id,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'scope:manage'),
       },
     });
 
@@ -352,9 +335,9 @@ router.post('/:id/products/:productId', authMiddleware, async (req: Authenticate
       return res.status(404).json({ error: 'Framework not found' });
     }
 
-    // Verify product ownership
+    // Verify product access
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId },
+      where: { id: productId, ...productScope(req.user!, 'scope:manage') },
     });
 
     if (!product) {
@@ -378,15 +361,12 @@ router.post('/:id/products/:productId', authMiddleware, async (req: Authenticate
 router.delete('/:id/products/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id, productId } = req.params;
-    const userId = req.user!.id;
 
-    // Verify framework ownership through capability centre
+    // Verify framework access through capability centre
     const framework = await prisma.framework.findFirst({
       where: {
         id,
-        capabilityCentre: {
-          userId,
-        },
+        ...frameworkScope(req.user!, 'scope:manage'),
       },
       include: {
         capabilityCentre: true,
@@ -399,7 +379,7 @@ router.delete('/:id/products/:productId', authMiddleware, async (req: Authentica
 
     // Verify product belongs to this framework
     const product = await prisma.product.findFirst({
-      where: { id: productId, userId, frameworkId: id },
+      where: { id: productId, frameworkId: id },
     });
 
     if (!product) {
@@ -443,11 +423,9 @@ router.delete('/:id/products/:productId', authMiddleware, async (req: Authentica
 // Get aggregate compliance stats across all frameworks
 router.get('/stats/overview', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const userId = req.user!.id;
-
     // Get all products (both in frameworks and unassigned)
     const products = await prisma.product.findMany({
-      where: { userId },
+      where: productScope(req.user!),
       include: {
         framework: true,
         systems: {
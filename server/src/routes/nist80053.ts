@@ -1,72 +1,39 @@
 import express from 'express';
+import multer from 'multer';
 import * as fs from 'fs';
-import * as path from 'path';
-import { AuthenticatedRequest } from '../middleware/auth';
+import * as os from 'os';
+import { z } from 'zod';
+import { AuthenticatedRequest, requireRole } from '../middleware/auth';
+import { logAuditFromRequest } from '../services/auditService';
+import {
+  oscalCatalogService,
+  OscalImportError,
+  OSCAL_BASELINES,
+} from '../services/oscalCatalog.service';
+import {
+  controlCatalogService,
+  CatalogLoadError,
+  NIST_80053_CATALOG_ID,
+} from '../services/controlCatalog.service';
 
 const router = express.Router();
 
-// Load NIST 800-53 Rev 5 data from JSON
-interface NIST80053Enhancement {
-  id: string;
-  title: string;
-  statement: string;
-  guidance: string;
-}
-
-interface NIST80053Control {
-  id: string;
-  family: string;
-  familyName: string;
-  title: string;
-  description: string;
-  statement: string;
-  guidance: string;
-  priority: string;
-  baselineImpact: string[];
-  relatedControls: string[];
-  enhancements: NIST80053Enhancement[];
-}
-
-interface ControlFamily {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface NIST80053Data {
-  metadata: {
-    source: string;
-    version: string;
-    lastModified: string;
-    generatedAt: string;
-    totalControls: number;
-    totalEnhancements: number;
-  };
-  families: ControlFamily[];
-  controls: NIST80053Control[];
-}
-
-// Load data once at startup
-let nist80053Data: NIST80053Data | null = null;
-
-function loadNIST80053Data(): NIST80053Data {
-  if (nist80053Data) {
-    return nist80053Data;
-  }
-
-  const dataPath = path.join(__dirname, '../../data/nist-800-53-rev5.json');
-
-  if (!fs.existsSync(dataPath)) {
-    throw new Error('NIST 800-53 Rev 5 data file not found. Run: npx ts-node scripts/fetch-800-53-rev5.ts');
-  }
-
-  const rawData = fs.readFileSync(dataPath, 'utf-8');
-  nist80053Data = JSON.parse(rawData);
+// OSCAL catalogs run to ~10MB of JSON, so they are uploaded as files rather
+// than request bodies
+const upload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB
+  },
+});
 
-  console.log(`[NIST 800-53] Loaded ${nist80053Data!.controls.length} controls with ${nist80053Data!.metadata.totalEnhancements} enhancements`);
+// Validation schemas
+const importSchema = z.object({
+  baseline: z.enum(OSCAL_BASELINES).optional(),
+});
 
-  return nist80053Data!;
-}
+// Catalog is loaded from the imported OSCAL documents (see oscalCatalog.service)
+const loadNIST80053Data = () => oscalCatalogService.getCatalog();
 
 // GET /api/nist80053/metadata - Get catalog metadata
 router.get('/metadata', (req: AuthenticatedRequest, res) => {
@@ -314,4 +281,73 @@ router.get('/statistics', (req: AuthenticatedRequest, res) => {
   }
 });
 
+// GET /api/nist80053/sources - List imported OSCAL catalog and baseline profiles
+router.get('/sources', (req: AuthenticatedRequest, res) => {
+  try {
+    const data = loadNIST80053Data();
+    res.json({
+      format: data.metadata.format,
+      sources: oscalCatalogService.getSources(),
+    });
+  } catch (error) {
+    console.error('Error listing OSCAL sources:', error);
+    res.status(500).json({ error: 'Failed to list OSCAL sources' });
+  }
+});
+
+// POST /api/nist80053/import - Import an OSCAL catalog or baseline profile (admin only)
+router.post('/import', requireRole(['ADMIN']), upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  const file = req.file;
+  try {
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const validation = importSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    let document: any;
+    try {
+      document = JSON.parse(await fs.promises.readFile(file.path, 'utf-8'));
+    } catch {
+      return res.status(400).json({ error: 'File is not valid JSON (only OSCAL JSON is supported)' });
+    }
+
+    const result = oscalCatalogService.importDocument(document, validation.data.baseline);
+
+    // Products assessed against 800-53 pick up the new controls
+    if (result.kind === 'catalog') {
+      await controlCatalogService.syncCatalog(NIST_80053_CATALOG_ID);
+    }
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'Framework',
+      entityId: result.kind === 'catalog' ? NIST_80053_CATALOG_ID : `${NIST_80053_CATALOG_ID}-${result.baseline!.toLowerCase()}`,
+      entityName: result.title,
+      details: {
+        kind: result.kind,
+        baseline: result.baseline,
+        fileName: file.originalname,
+        controlCount: result.controlCount,
+        unknownControlIds: result.unknownControlIds.length,
+      },
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof OscalImportError || error instanceof CatalogLoadError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing OSCAL document:', error);
+    res.status(500).json({ error: 'Failed to import OSCAL document' });
+  } finally {
+    if (file) {
+      fs.promises.unlink(file.path).catch(() => undefined);
+    }
+  }
+});
+
 export default router;
@@ -0,0 +1,166 @@
+import express from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { notificationService, NOTIFICATION_TYPES } from '../services/notification.service';
+import { emailDigestService, DIGEST_FREQUENCIES } from '../services/emailDigest.service';
+import { getMailTransport } from '../services/mailTransport.service';
+
+const router = express.Router();
+
+
+// Validation schemas
+const markReadSchema = z.object({
+  ids: z.array(z.string().uuid()).optional(), // omitted = mark all
+});
+
+const preferencesSchema = z.object({
+  preferences: z.array(
+    z.object({
+      type: z.enum(NOTIFICATION_TYPES),
+      inApp: z.boolean(),
+    })
+  ),
+});
+
+const emailDigestSchema = z.object({
+  enabled: z.boolean().optional(),
+  frequency: z.enum(DIGEST_FREQUENCIES).optional(),
+});
+
+// GET /api/notifications - List the current user's notifications with unread count
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const before = req.query.before ? new Date(req.query.before as string) : undefined;
+
+    const result = await notificationService.list(req.user!.id, {
+      unreadOnly: req.query.unreadOnly === 'true',
+      limit,
+      before: before && !isNaN(before.getTime()) ? before : undefined,
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// GET /api/notifications/unread-count - Unread notification count
+router.get('/unread-count', async (req: AuthenticatedRequest, res) => {
+  try {
+    const unreadCount = await notificationService.unreadCount(req.user!.id);
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Error fetching unread count:', error);
+    res.status(500).json({ error: 'Failed to fetch unread count' });
+  }
+});
+
+// POST /api/notifications/mark-read - Mark notifications (or all) as read
+router.post('/mark-read', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = markReadSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const updated = await notificationService.markRead(req.user!.id, validation.data.ids);
+    res.json({ updated });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// GET /api/notifications/preferences - Per-type notification settings
+router.get('/preferences', async (req: AuthenticatedRequest, res) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.user!.id);
+    res.json(preferences);
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// PUT /api/notifications/preferences - Update per-type notification settings
+router.put('/preferences', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = preferencesSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const preferences = await notificationService.updatePreferences(req.user!.id, validation.data.preferences);
+    res.json(preferences);
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+// GET /api/notifications/email-digest - Current user's email digest subscription
+router.get('/email-digest', async (req: AuthenticatedRequest, res) => {
+  try {
+    const subscription = await emailDigestService.getSubscription(req.user!.id);
+    res.json({ ...subscription, transport: getMailTransport().name });
+  } catch (error) {
+    console.error('Error fetching email digest settings:', error);
+    res.status(500).json({ error: 'Failed to fetch email digest settings' });
+  }
+});
+
+// PUT /api/notifications/email-digest - Opt in/out of the email digest or change its frequency
+router.put('/email-digest', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = emailDigestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const subscription = await emailDigestService.updateSubscription(req.user!.id, validation.data);
+    res.json({ ...subscription, transport: getMailTransport().name });
+  } catch (error) {
+    console.error('Error updating email digest settings:', error);
+    res.status(500).json({ error: 'Failed to update email digest settings' });
+  }
+});
+
+// POST /api/notifications/email-digest/test - Send the current user's digest now
+router.post('/email-digest/test', async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await emailDigestService.sendDigest(req.user!.id, { force: true });
+    res.json(result);
+  } catch (error) {
+    console.error('Error sending test digest:', error);
+    res.status(500).json({ error: 'Failed to send test digest' });
+  }
+});
+
+// DELETE /api/notifications/:id - Dismiss a notification
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await notificationService.remove(req.user!.id, req.params.id);
+    if (deleted === 0) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    res.json({ message: 'Notification dismissed' });
+  } catch (error) {
+    console.error('Error deleting notification:', error);
+    res.status(500).json({ error: 'Failed to delete notification' });
+  }
+});
+
+// DELETE /api/notifications - Dismiss all notifications
+router.delete('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await notificationService.remove(req.user!.id);
+    res.json({ deleted });
+  } catch (error) {
+    console.error('Error clearing notifications:', error);
+    res.status(500).json({ error: 'Failed to clear notifications' });
+  }
+});
+
+export default router;
@@ -0,0 +1,272 @@
+import express from 'express';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { z } from 'zod';
+import {
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  SCOPED_ROLES,
+  ROLE_SCOPE_TYPES,
+  RoleScopeType,
+  ScopedRole,
+  resolveProductPermissions,
+  verifyScopeAccess,
+} from '../services/access.service';
+
+const router = express.Router();
+
+
+// Validation schemas
+const scopeSchema = z.object({
+  scopeType: z.enum(ROLE_SCOPE_TYPES as [RoleScopeType, ...RoleScopeType[]]),
+  scopeId: z.string().uuid(),
+});
+
+const createAssignmentSchema = scopeSchema.extend({
+  role: z.enum(SCOPED_ROLES as [ScopedRole, ...ScopedRole[]]),
+  userId: z.string().uuid().optional(),
+  email: z.string().email().optional(),
+}).refine((data) => data.userId || data.email, {
+  message: 'userId or email is required',
+});
+
+const updateAssignmentSchema = z.object({
+  role: z.enum(SCOPED_ROLES as [ScopedRole, ...ScopedRole[]]),
+});
+
+const assignmentInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  grantedBy: { select: { id: true, name: true } },
+  capabilityCentre: { select: { id: true, name: true } },
+  framework: { select: { id: true, name: true } },
+  product: { select: { id: true, name: true } },
+} as const;
+
+// Map a scope to the RoleAssignment foreign key column
+function scopeColumn(scopeType: RoleScopeType, scopeId: string) {
+  switch (scopeType) {
+    case 'CAPABILITY_CENTRE':
+      return { capabilityCentreId: scopeId };
+    case 'FRAMEWORK':
+      return { frameworkId: scopeId };
+    case 'PRODUCT':
+      return { productId: scopeId };
+  }
+}
+
+// Resolve the scope a stored assignment belongs to
+function assignmentScope(assignment: {
+  scopeType: string;
+  capabilityCentreId: string | null;
+  frameworkId: string | null;
+  productId: string | null;
+}): { scopeType: RoleScopeType; scopeId: string } {
+  const scopeId = assignment.capabilityCentreId || assignment.frameworkId || assignment.productId || '';
+  return { scopeType: assignment.scopeType as RoleScopeType, scopeId };
+}
+
+// GET /api/permissions/matrix - Roles and the permissions each grants
+router.get('/matrix', async (_req: AuthenticatedRequest, res) => {
+  res.json({
+    permissions: PERMISSIONS,
+    roles: ROLE_PERMISSIONS,
+    scopedRoles: SCOPED_ROLES,
+    scopeTypes: ROLE_SCOPE_TYPES,
+  });
+});
+
+// GET /api/permissions/me - Current user's team memberships and scoped role grants
+router.get('/me', async (req: AuthenticatedRequest, res) => {
+  try {
+    const [memberships, assignments] = await Promise.all([
+      prisma.teamMembership.findMany({
+        where: { userId: req.user!.id },
+        include: { team: { select: { id: true, name: true } } },
+      }),
+      prisma.roleAssignment.findMany({
+        where: { userId: req.user!.id },
+        include: assignmentInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    res.json({
+      globalRole: req.user!.role,
+      memberships,
+      assignments,
+    });
+  } catch (error) {
+    console.error('Error fetching user permissions:', error);
+    res.status(500).json({ error: 'Failed to fetch permissions' });
+  }
+});
+
+// GET /api/permissions/product/:productId - Effective permissions on a product
+router.get('/product/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const permissions = await resolveProductPermissions(req.params.productId, req.user!);
+
+    if (!permissions.includes('view')) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json({ productId: req.params.productId, permissions });
+  } catch (error) {
+    console.error('Error resolving product permissions:', error);
+    res.status(500).json({ error: 'Failed to resolve permissions' });
+  }
+});
+
+// GET /api/permissions/assignments - List role grants on a scope
+router.get('/assignments', async (req: AuthenticatedRequest, res) => {
+  try {
+    const { scopeType, scopeId } = scopeSchema.parse(req.query);
+
+    const scope = await verifyScopeAccess(scopeType, scopeId, req.user!, 'access:manage');
+    if (!scope) {
+      return res.status(404).json({ error: 'Scope not found' });
+    }
+
+    const assignments = await prisma.roleAssignment.findMany({
+      where: scopeColumn(scopeType, scopeId),
+      include: assignmentInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ assignments, total: assignments.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error fetching role assignments:', error);
+    res.status(500).json({ error: 'Failed to fetch role assignments' });
+  }
+});
+
+// POST /api/permissions/assignments - Grant a role on a scope
+router.post('/assignments', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validatedData = createAssignmentSchema.parse(req.body);
+    const { scopeType, scopeId, role } = validatedData;
+
+    const scope = await verifyScopeAccess(scopeType, scopeId, req.user!, 'access:manage');
+    if (!scope) {
+      return res.status(404).json({ error: 'Scope not found' });
+    }
+
+    const user = await prisma.user.findFirst({
+      where: validatedData.userId
+        ? { id: validatedData.userId }
+        : { email: validatedData.email },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const existing = await prisma.roleAssignment.findFirst({
+      where: { userId: user.id, ...scopeColumn(scopeType, scopeId) },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: 'User already has a role on this scope' });
+    }
+
+    const assignment = await prisma.roleAssignment.create({
+      data: {
+        role,
+        scopeType,
+        userId: user.id,
+        grantedById: req.user!.id,
+        ...scopeColumn(scopeType, scopeId),
+      },
+      include: assignmentInclude,
+    });
+
+    res.status(201).json(assignment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error creating role assignment:', error);
+    res.status(500).json({ error: 'Failed to create role assignment' });
+  }
+});
+
+// PUT /api/permissions/assignments/:id - Change the granted role
+router.put('/assignments/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validatedData = updateAssignmentSchema.parse(req.body);
+
+    const existing = await prisma.roleAssignment.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Role assignment not found' });
+    }
+
+    const { scopeType, scopeId } = assignmentScope(existing);
+    const scope = await verifyScopeAccess(scopeType, scopeId, req.user!, 'access:manage');
+    if (!scope) {
+      return res.status(404).json({ error: 'Role assignment not found' });
+    }
+
+    const assignment = await prisma.roleAssignment.update({
+      where: { id: existing.id },
+      data: { role: validatedData.role, grantedById: req.user!.id },
+      include: assignmentInclude,
+    });
+
+    res.json(assignment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error updating role assignment:', error);
+    res.status(500).json({ error: 'Failed to update role assignment' });
+  }
+});
+
+// DELETE /api/permissions/assignments/:id - Revoke a role grant
+router.delete('/assignments/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.roleAssignment.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Role assignment not found' });
+    }
+
+    // Users may always give up their own grants
+    if (existing.userId !== req.user!.id) {
+      const { scopeType, scopeId } = assignmentScope(existing);
+      const scope = await verifyScopeAccess(scopeType, scopeId, req.user!, 'access:manage');
+      if (!scope) {
+        return res.status(404).json({ error: 'Role assignment not found' });
+      }
+    }
+
+    await prisma.roleAssignment.delete({
+      where: { id: existing.id },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting role assignment:', error);
+    res.status(500).json({ error: 'Failed to delete role assignment' });
+  }
+});
+
+export default router;
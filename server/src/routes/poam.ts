@@ -0,0 +1,285 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logAuditFromRequest } from '../services/auditService';
+import { AccessUser, Permission, productScope, verifyProductAccess } from '../services/access.service';
+import {
+  POAM_DEVIATION_TYPES,
+  POAM_MILESTONE_STATUSES,
+  POAM_RISK_RATINGS,
+  POAM_STATUSES,
+  POAM_WEAKNESS_SOURCES,
+  PoamError,
+  poamService,
+} from '../services/poam.service';
+
+const router = express.Router();
+
+// Validation schemas
+const listQuerySchema = z.object({
+  status: z.enum(POAM_STATUSES).optional(),
+});
+
+const updateItemSchema = z.object({
+  weakness: z.string().min(1).max(500).optional(),
+  weaknessDescription: z.string().nullable().optional(),
+  weaknessSource: z.enum(POAM_WEAKNESS_SOURCES).optional(),
+  sourceIdentifier: z.string().max(255).nullable().optional(),
+  riskRating: z.enum(POAM_RISK_RATINGS).optional(),
+  status: z.enum(POAM_STATUSES).optional(),
+  statusNote: z.string().max(2000).optional(),
+  pointOfContact: z.string().max(255).nullable().optional(),
+  resourcesRequired: z.string().nullable().optional(),
+  remediationPlan: z.string().nullable().optional(),
+  scheduledCompletionDate: z.string().datetime().nullable().optional(),
+  deviationType: z.enum(POAM_DEVIATION_TYPES).nullable().optional(),
+  deviationRationale: z.string().nullable().optional(),
+  vendorDependency: z.boolean().optional(),
+  comments: z.string().nullable().optional(),
+});
+
+const createMilestoneSchema = z.object({
+  description: z.string().min(1, 'Description is required').max(1000),
+  dueDate: z.string().datetime().nullable().optional(),
+});
+
+const updateMilestoneSchema = z.object({
+  description: z.string().min(1).max(1000).optional(),
+  dueDate: z.string().datetime().nullable().optional(),
+  status: z.enum(POAM_MILESTONE_STATUSES).optional(),
+});
+
+// Helper: POA&M item the user can access with the given permission
+async function verifyPoamAccess(id: string, user: AccessUser, permission: Permission = 'view') {
+  return prisma.poamItem.findFirst({
+    where: { id, product: productScope(user, permission) },
+    select: { id: true, poamId: true, productId: true, status: true, riskRating: true, deviationType: true },
+  });
+}
+
+// Helper: date string to Date, keeping null and undefined
+function toDate(value: string | null | undefined) {
+  return value === undefined ? undefined : value === null ? null : new Date(value);
+}
+
+// GET /api/poam/product/:productId - List a product's POA&M items (filter by status)
+router.get('/product/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (!(await verifyProductAccess(req.params.productId, req.user!))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const items = await poamService.list(req.params.productId, validation.data);
+    res.json({ items, total: items.length });
+  } catch (error) {
+    console.error('Error fetching POA&M items:', error);
+    res.status(500).json({ error: 'Failed to fetch POA&M items' });
+  }
+});
+
+// POST /api/poam/product/:productId/sync - Open and close items from the product's assessments
+router.post('/product/:productId/sync', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!(await verifyProductAccess(req.params.productId, req.user!, 'assessment:edit'))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json(await poamService.syncProduct(req.params.productId, req.user!.id));
+  } catch (error) {
+    console.error('Error syncing POA&M items:', error);
+    res.status(500).json({ error: 'Failed to sync POA&M items' });
+  }
+});
+
+// GET /api/poam/product/:productId/export - FedRAMP POA&M workbook (.xlsx)
+router.get('/product/:productId/export', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!(await verifyProductAccess(req.params.productId, req.user!, 'report:generate'))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const workbook = await poamService.exportFedRamp(req.params.productId);
+    if (!workbook) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="poam-${workbook.productName.replace(/[^a-z0-9]/gi, '-')}.xlsx"`
+    );
+    res.send(workbook.content);
+  } catch (error) {
+    console.error('Error exporting POA&M:', error);
+    res.status(500).json({ error: 'Failed to export POA&M' });
+  }
+});
+
+// GET /api/poam/:id - POA&M item with milestones and status history
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!(await verifyPoamAccess(req.params.id, req.user!))) {
+      return res.status(404).json({ error: 'POA&M item not found' });
+    }
+
+    res.json(await poamService.get(req.params.id));
+  } catch (error) {
+    console.error('Error fetching POA&M item:', error);
+    res.status(500).json({ error: 'Failed to fetch POA&M item' });
+  }
+});
+
+// PUT /api/poam/:id - Update a POA&M item. Deviations and risk acceptance need
+// review permission on the product.
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = updateItemSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const existing = await verifyPoamAccess(req.params.id, req.user!, 'assessment:edit');
+    if (!existing) {
+      return res.status(404).json({ error: 'POA&M item not found' });
+    }
+
+    const data = validation.data;
+    const approvesDeviation =
+      (data.deviationType !== undefined && data.deviationType !== existing.deviationType) ||
+      (data.status === 'RISK_ACCEPTED' && existing.status !== 'RISK_ACCEPTED');
+    if (approvesDeviation && !(await verifyProductAccess(existing.productId, req.user!, 'assessment:review'))) {
+      return res.status(403).json({ error: 'Approving deviations requires review permission on the product' });
+    }
+
+    const item = await poamService.update(
+      req.params.id,
+      { ...data, scheduledCompletionDate: toDate(data.scheduledCompletionDate) },
+      req.user!.id
+    );
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'PoamItem',
+      entityId: item.id,
+      entityName: item.poamId,
+      previousValue: { status: existing.status, riskRating: existing.riskRating, deviationType: existing.deviationType },
+      newValue: { status: item.status, riskRating: item.riskRating, deviationType: item.deviationType },
+      details: { productId: item.productId, controlId: item.controlId },
+    });
+
+    res.json(item);
+  } catch (error) {
+    if (error instanceof PoamError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating POA&M item:', error);
+    res.status(500).json({ error: 'Failed to update POA&M item' });
+  }
+});
+
+// POST /api/poam/:id/milestones - Add a milestone
+router.post('/:id/milestones', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = createMilestoneSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const item = await verifyPoamAccess(req.params.id, req.user!, 'assessment:edit');
+    if (!item) {
+      return res.status(404).json({ error: 'POA&M item not found' });
+    }
+
+    const milestone = await poamService.addMilestone(item.id, {
+      description: validation.data.description,
+      dueDate: toDate(validation.data.dueDate),
+    });
+
+    await logAuditFromRequest(req, {
+      action: 'CREATE',
+      entityType: 'PoamItem',
+      entityId: item.id,
+      entityName: item.poamId,
+      newValue: { description: milestone.description, dueDate: milestone.dueDate },
+      details: { type: 'PoamMilestone', milestoneId: milestone.id },
+    });
+
+    res.status(201).json(milestone);
+  } catch (error) {
+    console.error('Error adding POA&M milestone:', error);
+    res.status(500).json({ error: 'Failed to add POA&M milestone' });
+  }
+});
+
+// PUT /api/poam/:id/milestones/:milestoneId - Update a milestone
+router.put('/:id/milestones/:milestoneId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = updateMilestoneSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const item = await verifyPoamAccess(req.params.id, req.user!, 'assessment:edit');
+    if (!item) {
+      return res.status(404).json({ error: 'POA&M item not found' });
+    }
+
+    const milestone = await poamService.updateMilestone(item.id, req.params.milestoneId, {
+      ...validation.data,
+      dueDate: toDate(validation.data.dueDate),
+    });
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'PoamItem',
+      entityId: item.id,
+      entityName: item.poamId,
+      newValue: { description: milestone.description, dueDate: milestone.dueDate, status: milestone.status },
+      details: { type: 'PoamMilestone', milestoneId: milestone.id },
+    });
+
+    res.json(milestone);
+  } catch (error) {
+    if (error instanceof PoamError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating POA&M milestone:', error);
+    res.status(500).json({ error: 'Failed to update POA&M milestone' });
+  }
+});
+
+// DELETE /api/poam/:id/milestones/:milestoneId - Delete a milestone
+router.delete('/:id/milestones/:milestoneId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const item = await verifyPoamAccess(req.params.id, req.user!, 'assessment:edit');
+    if (!item) {
+      return res.status(404).json({ error: 'POA&M item not found' });
+    }
+
+    await poamService.deleteMilestone(item.id, req.params.milestoneId);
+
+    await logAuditFromRequest(req, {
+      action: 'DELETE',
+      entityType: 'PoamItem',
+      entityId: item.id,
+      entityName: item.poamId,
+      details: { type: 'PoamMilestone', milestoneId: req.params.milestoneId },
+    });
+
+    res.json({ message: 'Milestone deleted' });
+  } catch (error) {
+    if (error instanceof PoamError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error deleting POA&M milestone:', error);
+    res.status(500).json({ error: 'Failed to delete POA&M milestone' });
+  }
+});
+
+export default router;
@@ -3,6 +3,9 @@ import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { z } from 'zod';
 import { logAuditFromRequest, getChangedFields } from '../services/auditService';
+import { getProductPermissions, productScope, verifyFrameworkAccess } from '../services/access.service';
+import { controlCatalogService, NIST_80053_CATALOG_ID } from '../services/controlCatalog.service';
+import { nistBaselineService } from '../services/nistBaseline.service';
 
 const router = express.Router();
 
@@ -15,16 +18,68 @@ const createProductSchema = z.object({
   criticality: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
   impactLevel: z.enum(['LOW', 'MODERATE', 'HIGH']).optional(), // FIPS 199 security categorization
   frameworkId: z.string().uuid(), // Products MUST belong to a framework
+  catalogId: z.string().min(1).optional(), // Control catalog to assess against (default NIST CSF 2.0)
 });
 
+const catalogSelect = { select: { id: true, name: true, version: true, controlLabel: true } } as const;
+
 const updateProductSchema = createProductSchema.partial();
 
-// GET /api/products - Get all products for user
+// Helper: select the 800-53 baseline for the product's impact level (skipped
+// until the baseline's OSCAL profile has been imported)
+async function selectImpactBaseline(
+  req: AuthenticatedRequest,
+  product: { id: string; name: string; catalogId: string }
+): Promise<void> {
+  if (product.catalogId !== NIST_80053_CATALOG_ID) return;
+  try {
+    const result = await nistBaselineService.selectBaseline(product.id);
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'Baseline',
+      entityId: product.id,
+      entityName: product.name,
+      newValue: { controlCount: result.controlCount },
+      changedFields: ['controls'],
+      details: { nistBaseline: result.baseline, assessmentsCreated: result.assessmentsCreated },
+    });
+  } catch (error) {
+    console.warn(`800-53 baseline not selected for product ${product.id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// GET /api/products - Get all products visible to user (own + team-shared)
 router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
+    const { teamId } = req.query;
+
     const products = await prisma.product.findMany({
-      where: { userId: req.user!.id },
+      where: {
+        AND: [
+          productScope(req.user!),
+          ...(teamId ? [{ framework: { capabilityCentre: { teamId: teamId as string } } }] : [])
+        ]
+      },
       include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        },
+        framework: {
+          select: {
+            id: true,
+            name: true,
+            capabilityCentreId: true,
+            capabilityCentre: {
+              select: {
+                id: true,
+                name: true,
+                userId: true,
+                teamId: true,
+                team: { select: { id: true, name: true } }
+              }
+            }
+          }
+        },
         systems: {
           select: {
             id: true,
@@ -35,6 +90,7 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
             }
           }
         },
+        catalog: catalogSelect,
         csfBaseline: {
           where: { applicable: true },
           select: {
@@ -88,6 +144,7 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
 
         return {
           ...product,
+          permissions: getProductPermissions(req.user!, product),
           metrics: {
             totalAssessments,
             completedAssessments,
@@ -115,9 +172,12 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
     const product = await prisma.product.findFirst({
       where: {
         id: req.params.id,
-        userId: req.user!.id
+        ...productScope(req.user!)
       },
       include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        },
         framework: {
           include: {
             capabilityCentre: {
@@ -125,7 +185,10 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
                 id: true,
                 name: true,
                 code: true,
-                color: true
+                color: true,
+                userId: true,
+                teamId: true,
+                team: { select: { id: true, name: true } }
               }
             }
           }
@@ -141,7 +204,8 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
             }
           }
         },
-        csfBaseline: true
+        csfBaseline: true,
+        catalog: catalogSelect
       }
     });
 
@@ -149,7 +213,7 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    res.json(product);
+    res.json({ ...product, permissions: getProductPermissions(req.user!, product) });
   } catch (error) {
     console.error('Error fetching product:', error);
     res.status(500).json({ error: 'Failed to fetch product' });
@@ -161,12 +225,26 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
     const validatedData = createProductSchema.parse(req.body);
 
+    // Products can only be added to frameworks the user can write to
+    const framework = await verifyFrameworkAccess(validatedData.frameworkId, req.user!, 'scope:manage');
+    if (!framework) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'You do not have access to this framework'
+      });
+    }
+
+    if (validatedData.catalogId && !(await controlCatalogService.exists(validatedData.catalogId))) {
+      return res.status(400).json({ error: 'Unknown control catalog' });
+    }
+
     const product = await prisma.product.create({
       data: {
         ...validatedData,
         userId: req.user!.id
       },
       include: {
+        catalog: catalogSelect,
         _count: {
           select: {
             systems: true,
@@ -182,9 +260,11 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       entityType: 'Product',
       entityId: product.id,
       entityName: product.name,
-      newValue: { name: product.name, type: product.type, criticality: product.criticality, impactLevel: product.impactLevel },
+      newValue: { name: product.name, type: product.type, criticality: product.criticality, impactLevel: product.impactLevel, catalogId: product.catalogId },
     });
 
+    await selectImpactBaseline(req, product);
+
     res.status(201).json(product);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -207,7 +287,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
     const previousProduct = await prisma.product.findFirst({
       where: {
         id: req.params.id,
-        userId: req.user!.id
+        ...productScope(req.user!, 'scope:manage')
       }
     });
 
@@ -215,10 +295,37 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    if (validatedData.frameworkId && validatedData.frameworkId !== previousProduct.frameworkId) {
+      const framework = await verifyFrameworkAccess(validatedData.frameworkId, req.user!, 'scope:manage');
+      if (!framework) {
+        return res.status(403).json({
+          error: 'Access denied',
+          message: 'You do not have access to this framework'
+        });
+      }
+    }
+
+    // Assessments and baseline entries refer to controls of the current catalog
+    if (validatedData.catalogId && validatedData.catalogId !== previousProduct.catalogId) {
+      if (!(await controlCatalogService.exists(validatedData.catalogId))) {
+        return res.status(400).json({ error: 'Unknown control catalog' });
+      }
+      const [assessmentCount, baselineCount] = await Promise.all([
+        prisma.complianceAssessment.count({ where: { system: { productId: previousProduct.id } } }),
+        prisma.cSFBaseline.count({ where: { productId: previousProduct.id } })
+      ]);
+      if (assessmentCount > 0 || baselineCount > 0) {
+        return res.status(409).json({
+          error: 'Catalog cannot be changed',
+          message: 'Remove the product\'s baseline and assessments before switching it to another control catalog'
+        });
+      }
+    }
+
     const product = await prisma.product.updateMany({
       where: {
         id: req.params.id,
-        userId: req.user!.id
+        ...productScope(req.user!, 'scope:manage')
       },
       data: validatedData
     });
@@ -250,11 +357,16 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       entityType: 'Product',
       entityId: req.params.id,
       entityName: updatedProduct?.name || previousProduct.name,
-      previousValue: { name: previousProduct.name, type: previousProduct.type, criticality: previousProduct.criticality, impactLevel: previousProduct.impactLevel },
-      newValue: { name: updatedProduct?.name, type: updatedProduct?.type, criticality: updatedProduct?.criticality, impactLevel: updatedProduct?.impactLevel },
+      previousValue: { name: previousProduct.name, type: previousProduct.type, criticality: previousProduct.criticality, impactLevel: previousProduct.impactLevel, catalogId: previousProduct.catalogId },
+      newValue: { name: updatedProduct?.name, type: updatedProduct?.type, criticality: updatedProduct?.criticality, impactLevel: updatedProduct?.impactLevel, catalogId: updatedProduct?.catalogId },
       changedFields,
     });
 
+    // The 800-53 baseline follows the impact level
+    if (updatedProduct && (updatedProduct.impactLevel !== previousProduct.impactLevel || updatedProduct.catalogId !== previousProduct.catalogId)) {
+      await selectImpactBaseline(req, updatedProduct);
+    }
+
     res.json(updatedProduct);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -275,7 +387,7 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
     const productToDelete = await prisma.product.findFirst({
       where: {
         id: req.params.id,
-        userId: req.user!.id
+        ...productScope(req.user!, 'scope:manage')
       }
     });
 
@@ -286,7 +398,7 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
     const deleted = await prisma.product.deleteMany({
       where: {
         id: req.params.id,
-        userId: req.user!.id
+        ...productScope(req.user!, 'scope:manage')
       }
     });
 
@@ -319,11 +431,11 @@ router.post('/:id/csf-baseline', async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Baseline must be an array' });
     }
 
-    // Verify product ownership
+    // Verify product access
     const product = await prisma.product.findFirst({
       where: {
         id: req.params.id,
-        userId: req.user!.id
+        ...productScope(req.user!, 'baseline:change')
       }
     });
 
@@ -331,6 +443,14 @@ router.post('/:id/csf-baseline', async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Product not found' });
     }
 
+    const unknown = await controlCatalogService.findUnknownControls(
+      product.catalogId,
+      baseline.map((item: any) => item.subcategoryId)
+    );
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Not in the product's control catalog: ${unknown.slice(0, 10).join(', ')}` });
+    }
+
     // Delete existing baseline
     await prisma.cSFBaseline.deleteMany({
       where: { productId: req.params.id }
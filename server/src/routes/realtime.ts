@@ -0,0 +1,78 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { verifyProductAccess } from '../services/access.service';
+import { CLIENT_ID_HEADER, realtimeService } from '../services/realtime.service';
+
+const router = Router();
+
+const clientIdSchema = z.string().min(8).max(64).regex(/^[A-Za-z0-9_-]+$/, 'Invalid client ID');
+
+const presenceSchema = z.object({
+  focus: z
+    .object({
+      systemId: z.string().uuid(),
+      controlId: z.string().min(1).max(50),
+      field: z.string().max(50).optional(),
+    })
+    .nullable(),
+});
+
+/**
+ * GET /api/realtime/product/:productId/stream
+ * Server-Sent Events for the product: `ready`, `presence` and `change` events.
+ * Stays open until the client disconnects.
+ */
+router.get('/product/:productId/stream', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const clientId = clientIdSchema.safeParse(req.get(CLIENT_ID_HEADER));
+    if (!clientId.success) {
+      return res.status(400).json({ error: `${CLIENT_ID_HEADER} header is required` });
+    }
+
+    const product = await verifyProductAccess(req.params.productId, req.user!);
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (!realtimeService.subscribe(product.id, req.user!, clientId.data, req, res)) {
+      return res.status(409).json({ error: `${CLIENT_ID_HEADER} is in use by another stream` });
+    }
+  } catch (error) {
+    console.error('Error opening realtime stream:', error);
+    if (!res.headersSent) res.status(500).json({ error: 'Failed to open realtime stream' });
+  }
+});
+
+/**
+ * PUT /api/realtime/product/:productId/presence
+ * Set or clear the control and field this tab is editing (a soft lock). Send
+ * again within two minutes to keep holding it.
+ */
+router.put('/product/:productId/presence', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const clientId = clientIdSchema.safeParse(req.get(CLIENT_ID_HEADER));
+    if (!clientId.success) {
+      return res.status(400).json({ error: `${CLIENT_ID_HEADER} header is required` });
+    }
+    const validation = presenceSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const product = await verifyProductAccess(req.params.productId, req.user!);
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (!realtimeService.setFocus(product.id, clientId.data, req.user!.id, validation.data.focus)) {
+      return res.status(409).json({ error: 'No open stream for this product; reconnect and try again' });
+    }
+    res.json({ users: realtimeService.getPresence(product.id) });
+  } catch (error) {
+    console.error('Error updating presence:', error);
+    res.status(500).json({ error: 'Failed to update presence' });
+  }
+});
+
+export default router;
@@ -3,6 +3,19 @@ import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { z } from 'zod';
 import { logAuditFromRequest } from '../services/auditService';
+import { AccessUser, Permission, productScope } from '../services/access.service';
+import { notificationService, assessmentLink } from '../services/notification.service';
+import { issueTrackerService } from '../services/issueTracker.service';
+import { TrackerError } from '../services/trackerAdapters';
+import { poamService } from '../services/poam.service';
+import {
+  expectedVersion,
+  isStaleUpdate,
+  sendVersionConflict,
+  setVersionHeader,
+  versionMatches,
+} from '../services/concurrency';
+import { realtimeService } from '../services/realtime.service';
 
 const router = express.Router();
 
@@ -18,6 +31,8 @@ const createTaskSchema = z.object({
   externalTicketId: z.string().optional(),
   externalTicketUrl: z.string().url().optional(),
   estimatedHours: z.number().positive().optional(),
+  // Open a ticket in the product's issue tracker (defaults to the connection's autoCreate setting)
+  createExternalTicket: z.boolean().optional(),
 });
 
 const updateTaskSchema = z.object({
@@ -31,6 +46,8 @@ const updateTaskSchema = z.object({
   externalTicketUrl: z.string().url().nullable().optional(),
   estimatedHours: z.number().positive().nullable().optional(),
   percentComplete: z.number().min(0).max(100).optional(),
+  // Version the edit is based on; If-Match works too
+  version: z.number().int().positive().optional(),
 });
 
 const taskUpdateSchema = z.object({
@@ -39,16 +56,44 @@ const taskUpdateSchema = z.object({
   hoursLogged: z.number().positive().optional(),
 });
 
-// Helper: Verify task ownership through assessment -> system -> product
-async function verifyTaskAccess(taskId: string, userId: string) {
+const externalTicketSchema = z.object({
+  connectionId: z.string().uuid().optional(),
+});
+
+// Helper: Notify a user that a task has been assigned to them
+async function notifyTaskAssigned(
+  task: {
+    id: string;
+    title: string;
+    assigneeId: string | null;
+    dueDate: Date | null;
+    assessment: { subcategoryId: string; systemId: string; system: { name: string; productId: string } };
+  },
+  actor: { id: string; name: string }
+) {
+  if (!task.assigneeId) return;
+
+  const due = task.dueDate ? ` (due ${task.dueDate.toISOString().split('T')[0]})` : '';
+  await notificationService.notify({
+    userId: task.assigneeId,
+    type: 'TASK_ASSIGNED',
+    title: `${actor.name} assigned you a remediation task`,
+    message: `"${task.title}" for ${task.assessment.subcategoryId} on ${task.assessment.system.name}${due}`,
+    link: assessmentLink(task.assessment),
+    entityType: 'RemediationTask',
+    entityId: task.id,
+    actorId: actor.id,
+  });
+}
+
+// Helper: Verify task access through assessment -> system -> product
+async function verifyTaskAccess(taskId: string, user: AccessUser, permission: Permission = 'view') {
   return prisma.remediationTask.findFirst({
     where: {
       id: taskId,
       assessment: {
         system: {
-          product: {
-            userId,
-          },
+          product: productScope(user, permission),
         },
       },
     },
@@ -79,15 +124,12 @@ async function verifyTaskAccess(taskId: string, userId: string) {
 // GET /api/remediation - List all tasks with filters
 router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user!.id;
     const { status, priority, assigneeId, productId, systemId, overdue } = req.query;
 
     const where: any = {
       assessment: {
         system: {
-          product: {
-            userId,
-          },
+          product: productScope(req.user!),
         },
       },
     };
@@ -172,15 +214,12 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
 // GET /api/remediation/dashboard - Dashboard data for remediation tracking
 router.get('/dashboard', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user!.id;
 
     const tasks = await prisma.remediationTask.findMany({
       where: {
         assessment: {
           system: {
-            product: {
-              userId,
-            },
+            product: productScope(req.user!),
           },
         },
       },
@@ -289,7 +328,7 @@ router.get('/dashboard', async (req: AuthenticatedRequest, res) => {
 // GET /api/remediation/:id - Get single task with details
 router.get('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    const task = await verifyTaskAccess(req.params.id, req.user!.id);
+    const task = await verifyTaskAccess(req.params.id, req.user!);
 
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
@@ -313,9 +352,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       where: {
         id: data.assessmentId,
         system: {
-          product: {
-            userId,
-          },
+          product: productScope(req.user!, 'assessment:edit'),
         },
       },
       include: {
@@ -349,8 +386,9 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
         assessment: {
           select: {
             subcategoryId: true,
+            systemId: true,
             system: {
-              select: { name: true },
+              select: { name: true, productId: true },
             },
           },
         },
@@ -370,6 +408,39 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    await notifyTaskAssigned(task, req.user!);
+
+    // The task becomes a milestone on the assessment's POA&M item
+    await poamService.syncAssessments([data.assessmentId], userId);
+
+    realtimeService.publish(task.assessment.system.productId, {
+      entity: 'task',
+      action: 'created',
+      id: task.id,
+      assessmentId: task.assessmentId,
+      systemId: task.assessment.systemId,
+      controlId: task.assessment.subcategoryId,
+      data: task,
+    }, req);
+
+    // Mirror to the issue tracker; a tracker failure is recorded on the task, not returned
+    if (!data.externalTicketId && data.createExternalTicket !== false) {
+      const connection = await issueTrackerService.resolveConnection(task.assessment.system.productId);
+      if (connection && (data.createExternalTicket || connection.autoCreate)) {
+        try {
+          const linked = await issueTrackerService.createTicket(task.id, connection.id);
+          return res.status(201).json({ ...task, ...linked });
+        } catch (error) {
+          console.error('Error creating external ticket:', error);
+          return res.status(201).json({
+            ...task,
+            trackerConnectionId: connection.id,
+            externalSyncError: (error as Error).message,
+          });
+        }
+      }
+    }
+
     res.status(201).json(task);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -383,14 +454,18 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
 // PUT /api/remediation/:id - Update task
 router.put('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user!.id;
-    const existing = await verifyTaskAccess(req.params.id, userId);
+    const existing = await verifyTaskAccess(req.params.id, req.user!, 'assessment:edit');
 
     if (!existing) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    const data = updateTaskSchema.parse(req.body);
+    const { version, ...data } = updateTaskSchema.parse(req.body);
+    const expected = expectedVersion(req, version);
+    if (!versionMatches(expected, existing.version)) {
+      return sendVersionConflict(res, 'task', existing);
+    }
+
     const updateData: any = { ...data };
 
     // Handle date conversion
@@ -407,7 +482,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
     }
 
     const task = await prisma.remediationTask.update({
-      where: { id: req.params.id },
+      where: { id: req.params.id, ...(expected && { version: existing.version }) },
       data: updateData,
       include: {
         assignee: {
@@ -416,8 +491,9 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
         assessment: {
           select: {
             subcategoryId: true,
+            systemId: true,
             system: {
-              select: { name: true },
+              select: { name: true, productId: true },
             },
           },
         },
@@ -434,11 +510,33 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
       details: { type: 'RemediationTask' },
     });
 
+    if (task.assigneeId !== existing.assigneeId) {
+      await notifyTaskAssigned(task, req.user!);
+    }
+
+    // Keep the task's POA&M milestone in step
+    await poamService.syncAssessments([existing.assessmentId], req.user!.id);
+
+    realtimeService.publish(task.assessment.system.productId, {
+      entity: 'task',
+      action: 'updated',
+      id: task.id,
+      assessmentId: task.assessmentId,
+      systemId: task.assessment.systemId,
+      controlId: task.assessment.subcategoryId,
+      data: task,
+    }, req);
+
+    setVersionHeader(res, task.version);
     res.json(task);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation failed', details: error.errors });
     }
+    if (isStaleUpdate(error)) {
+      const current = await verifyTaskAccess(req.params.id, req.user!);
+      if (current) return sendVersionConflict(res, 'task', current);
+    }
     console.error('Error updating remediation task:', error);
     res.status(500).json({ error: 'Failed to update remediation task' });
   }
@@ -448,7 +546,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
 router.post('/:id/update', async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user!.id;
-    const existing = await verifyTaskAccess(req.params.id, userId);
+    const existing = await verifyTaskAccess(req.params.id, req.user!, 'assessment:edit');
 
     if (!existing) {
       return res.status(404).json({ error: 'Task not found' });
@@ -487,6 +585,18 @@ router.post('/:id/update', async (req: AuthenticatedRequest, res) => {
         data: taskUpdateData,
       });
     }
+    if (data.newStatus) {
+      await poamService.syncAssessments([existing.assessmentId], userId);
+    }
+
+    realtimeService.publish(existing.assessment.system.productId, {
+      entity: 'task',
+      action: 'updated',
+      id: existing.id,
+      assessmentId: existing.assessmentId,
+      systemId: existing.assessment.systemId,
+      controlId: existing.assessment.subcategoryId,
+    }, req);
 
     res.status(201).json(update);
   } catch (error) {
@@ -498,11 +608,82 @@ router.post('/:id/update', async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// POST /api/remediation/:id/external-ticket - Create the task's ticket in an issue tracker
+router.post('/:id/external-ticket', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await verifyTaskAccess(req.params.id, req.user!, 'assessment:edit');
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const validation = externalTicketSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (existing.externalTicketId && existing.trackerConnectionId) {
+      return res.status(409).json({ error: `Task is already linked to ${existing.externalTicketId}` });
+    }
+
+    const connection = validation.data.connectionId
+      ? await prisma.trackerConnection.findFirst({ where: { id: validation.data.connectionId, isActive: true } })
+      : await issueTrackerService.resolveConnection(existing.assessment.system.productId);
+    if (!connection) {
+      return res.status(404).json({ error: 'No active issue tracker connection for this product' });
+    }
+
+    const task = await issueTrackerService.createTicket(existing.id, connection.id);
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'Assessment',
+      entityId: task.id,
+      entityName: task.title,
+      newValue: { externalTicketId: task.externalTicketId, externalTicketUrl: task.externalTicketUrl },
+      details: { type: 'RemediationTask', tracker: connection.name },
+    });
+
+    res.status(201).json(task);
+  } catch (error) {
+    if (error instanceof TrackerError) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error('Error creating external ticket:', error);
+    res.status(500).json({ error: 'Failed to create external ticket' });
+  }
+});
+
+// POST /api/remediation/:id/sync - Pull status/assignee changes from the linked ticket now
+router.post('/:id/sync', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await verifyTaskAccess(req.params.id, req.user!, 'assessment:edit');
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (!existing.externalTicketId || !existing.trackerConnectionId) {
+      return res.status(400).json({ error: 'Task is not linked to an issue tracker' });
+    }
+
+    const result = await issueTrackerService.syncTask(existing.id);
+    const task = await verifyTaskAccess(existing.id, req.user!);
+
+    res.json({ ...result, task });
+  } catch (error) {
+    if (error instanceof TrackerError) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error('Error syncing remediation task:', error);
+    res.status(500).json({ error: 'Failed to sync remediation task' });
+  }
+});
+
 // DELETE /api/remediation/:id - Delete task
 router.delete('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user!.id;
-    const existing = await verifyTaskAccess(req.params.id, userId);
+    const existing = await verifyTaskAccess(req.params.id, req.user!, 'assessment:edit');
 
     if (!existing) {
       return res.status(404).json({ error: 'Task not found' });
@@ -521,6 +702,15 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
       details: { type: 'RemediationTask' },
     });
 
+    realtimeService.publish(existing.assessment.system.productId, {
+      entity: 'task',
+      action: 'deleted',
+      id: existing.id,
+      assessmentId: existing.assessmentId,
+      systemId: existing.assessment.systemId,
+      controlId: existing.assessment.subcategoryId,
+    }, req);
+
     res.json({ message: 'Task deleted successfully' });
   } catch (error) {
     console.error('Error deleting remediation task:', error);
@@ -531,16 +721,13 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
 // GET /api/remediation/assessment/:assessmentId - Get all tasks for an assessment
 router.get('/assessment/:assessmentId', async (req: AuthenticatedRequest, res) => {
   try {
-    const userId = req.user!.id;
 
     // Verify access to assessment
     const assessment = await prisma.complianceAssessment.findFirst({
       where: {
         id: req.params.assessmentId,
         system: {
-          product: {
-            userId,
-          },
+          product: productScope(req.user!),
         },
       },
     });
@@ -2,6 +2,10 @@ import express, { Response } from 'express';
 import { prisma } from '../prisma';
 import { z } from 'zod';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth';
+import { verifyProductAccess } from '../services/access.service';
+import { complianceSnapshotService } from '../services/complianceSnapshot.service';
+import { controlCatalogService } from '../services/controlCatalog.service';
+import { activeRiskExceptionInclude } from '../services/riskException.service';
 
 const router = express.Router();
 
@@ -16,14 +20,6 @@ const riskConfigSchema = z.object({
   customPriorities: z.record(z.number()).optional(),
 });
 
-// Helper to verify product ownership
-async function verifyProductOwnership(productId: string, userId: string): Promise<boolean> {
-  const product = await prisma.product.findFirst({
-    where: { id: productId, userId },
-  });
-  return !!product;
-}
-
 // CSF Function priorities (default)
 const DEFAULT_FUNCTION_PRIORITIES: Record<string, number> = {
   GV: 0.9,  // Govern - foundational
@@ -39,8 +35,8 @@ router.get('/config/:productId', authMiddleware, async (req: AuthenticatedReques
   try {
     const { productId } = req.params;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -84,8 +80,8 @@ router.put('/config/:productId', authMiddleware, async (req: AuthenticatedReques
       return res.status(400).json({ error: validation.error.errors[0].message });
     }
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!, 'scope:manage');
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -122,14 +118,15 @@ router.put('/config/:productId', authMiddleware, async (req: AuthenticatedReques
   }
 });
 
-// GET /api/risk/score/:productId - Calculate risk scores for all non-compliant controls
+// GET /api/risk/score/:productId - Calculate risk scores for all non-compliant controls.
+// Controls with an active risk exception are listed separately as accepted risks.
 router.get('/score/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
     const { systemId } = req.query;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -145,6 +142,9 @@ router.get('/score/:productId', authMiddleware, async (req: AuthenticatedRequest
               where: {
                 status: { in: ['NON_COMPLIANT', 'PARTIALLY_COMPLIANT'] },
               },
+              include: {
+                riskExceptions: activeRiskExceptionInclude(),
+              },
             },
           },
         },
@@ -173,6 +173,7 @@ router.get('/score/:productId', authMiddleware, async (req: AuthenticatedRequest
 
     // Calculate scores
     const scores: any[] = [];
+    const acceptedRisks: any[] = [];
     for (const system of product.systems) {
       for (const assessment of system.assessments) {
         const score = calculateRiskScore(
@@ -182,24 +183,29 @@ router.get('/score/:productId', authMiddleware, async (req: AuthenticatedRequest
           weights,
           customPriorities
         );
-        scores.push({
+        const [exception] = assessment.riskExceptions;
+        (exception ? acceptedRisks : scores).push({
           systemId: system.id,
           systemName: system.name,
           controlId: assessment.subcategoryId,
           status: assessment.status,
           ...score,
+          ...(exception && { riskException: exception }),
         });
       }
     }
 
     // Sort by risk score descending
     scores.sort((a, b) => b.riskScore - a.riskScore);
+    acceptedRisks.sort((a, b) => b.riskScore - a.riskScore);
 
     res.json({
       productId,
       systemCount: product.systems.length,
       totalRiskItems: scores.length,
+      totalAcceptedRisks: acceptedRisks.length,
       scores,
+      acceptedRisks,
     });
   } catch (error) {
     console.error('Error calculating risk scores:', error);
@@ -207,13 +213,14 @@ router.get('/score/:productId', authMiddleware, async (req: AuthenticatedRequest
   }
 });
 
-// GET /api/risk/heatmap/:productId - Get risk heat map data
+// GET /api/risk/heatmap/:productId - Get risk heat map data. Accepted risks are
+// counted per cell but left out of the cell's scores.
 router.get('/heatmap/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -228,6 +235,9 @@ router.get('/heatmap/:productId', authMiddleware, async (req: AuthenticatedReque
               where: {
                 status: { in: ['NON_COMPLIANT', 'PARTIALLY_COMPLIANT'] },
               },
+              include: {
+                riskExceptions: activeRiskExceptionInclude(),
+              },
             },
           },
         },
@@ -250,23 +260,38 @@ router.get('/heatmap/:productId', authMiddleware, async (req: AuthenticatedReque
       dataClassificationWeight: 0.3,
     };
 
-    // Build heat map: function x system
-    const heatMap: Record<string, Record<string, { count: number; avgScore: number; maxScore: number }>> = {};
-    const functionNames = ['GV', 'ID', 'PR', 'DE', 'RS', 'RC'];
+    // Build heat map: function x system, over the functions of the product's catalog
+    const heatMap: Record<
+      string,
+      Record<string, { count: number; avgScore: number; maxScore: number; acceptedCount: number }>
+    > = {};
+    const [groups, controls] = await Promise.all([
+      controlCatalogService.getGroups(product.catalogId),
+      prisma.cSFControl.findMany({
+        where: { catalogId: product.catalogId },
+        select: { id: true, functionId: true },
+      }),
+    ]);
+    const functionNames = groups.map((fn) => fn.id);
+    const controlFunctions = new Map(controls.map((c) => [c.id, c.functionId]));
 
     // Initialize
     for (const func of functionNames) {
       heatMap[func] = {};
       for (const system of product.systems) {
-        heatMap[func][system.name] = { count: 0, avgScore: 0, maxScore: 0 };
+        heatMap[func][system.name] = { count: 0, avgScore: 0, maxScore: 0, acceptedCount: 0 };
       }
     }
 
     // Populate
     for (const system of product.systems) {
       for (const assessment of system.assessments) {
-        const func = assessment.subcategoryId.split('.')[0];
-        if (heatMap[func] && heatMap[func][system.name]) {
+        const func = controlFunctions.get(assessment.subcategoryId);
+        if (func && heatMap[func] && heatMap[func][system.name]) {
+          if (assessment.riskExceptions.length > 0) {
+            heatMap[func][system.name].acceptedCount++;
+            continue;
+          }
           const score = calculateRiskScore(assessment, system, product.csfBaseline, weights, null);
           heatMap[func][system.name].count++;
           heatMap[func][system.name].avgScore += score.riskScore;
@@ -287,11 +312,12 @@ router.get('/heatmap/:productId', authMiddleware, async (req: AuthenticatedReque
     }
 
     // Also build function-only heat map
-    const byFunction: Record<string, { count: number; totalScore: number; avgScore: number }> = {};
+    const byFunction: Record<string, { count: number; totalScore: number; avgScore: number; acceptedCount: number }> = {};
     for (const func of functionNames) {
-      byFunction[func] = { count: 0, totalScore: 0, avgScore: 0 };
+      byFunction[func] = { count: 0, totalScore: 0, avgScore: 0, acceptedCount: 0 };
       for (const systemData of Object.values(heatMap[func])) {
         byFunction[func].count += systemData.count;
+        byFunction[func].acceptedCount += systemData.acceptedCount;
         byFunction[func].totalScore += systemData.avgScore * systemData.count;
       }
       if (byFunction[func].count > 0) {
@@ -312,14 +338,15 @@ router.get('/heatmap/:productId', authMiddleware, async (req: AuthenticatedReque
   }
 });
 
-// GET /api/risk/priorities/:productId - Get prioritized remediation recommendations
+// GET /api/risk/priorities/:productId - Get prioritized remediation recommendations.
+// Controls with an active risk exception are not prioritized; they are returned as accepted risks.
 router.get('/priorities/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
     const { limit = 20 } = req.query;
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
@@ -339,6 +366,7 @@ router.get('/priorities/:productId', authMiddleware, async (req: AuthenticatedRe
                   orderBy: { createdAt: 'desc' },
                   take: 1,
                 },
+                riskExceptions: activeRiskExceptionInclude(),
               },
             },
           },
@@ -364,9 +392,26 @@ router.get('/priorities/:productId', authMiddleware, async (req: AuthenticatedRe
 
     // Calculate priorities
     const priorities: any[] = [];
+    const acceptedRisks: any[] = [];
     for (const system of product.systems) {
       for (const assessment of system.assessments) {
         const score = calculateRiskScore(assessment, system, product.csfBaseline, weights, null);
+        const [exception] = assessment.riskExceptions;
+        if (exception) {
+          acceptedRisks.push({
+            systemId: system.id,
+            systemName: system.name,
+            controlId: assessment.subcategoryId,
+            status: assessment.status,
+            riskScore: score.riskScore,
+            riskLevel: score.riskLevel,
+            residualRisk: exception.residualRisk,
+            expiresAt: exception.expiresAt,
+            riskExceptionId: exception.id,
+          });
+          continue;
+        }
+
         const hasTask = assessment.remediationTasks.length > 0;
         const taskStatus = hasTask ? assessment.remediationTasks[0].status : null;
 
@@ -411,6 +456,7 @@ router.get('/priorities/:productId', authMiddleware, async (req: AuthenticatedRe
         LOW: byRiskLevel.LOW.length,
       },
       criticalItems: byRiskLevel.CRITICAL,
+      acceptedRisks: acceptedRisks.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime()),
     });
   } catch (error) {
     console.error('Error calculating priorities:', error);
@@ -418,108 +464,55 @@ router.get('/priorities/:productId', authMiddleware, async (req: AuthenticatedRe
   }
 });
 
-// GET /api/risk/trends/:productId - Get risk trends over time
+// GET /api/risk/trends/:productId - Get risk trends over time from daily compliance snapshots
 router.get('/trends/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { productId } = req.params;
     const { days = 30 } = req.query;
+    const daysNum = Math.min(Math.max(Number(days) || 30, 1), 730);
 
-    // Verify ownership
-    const hasAccess = await verifyProductOwnership(productId, req.user!.id);
+    // Verify access
+    const hasAccess = await verifyProductAccess(productId, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - Number(days));
-
-    // Get audit logs for assessment status changes
-    const auditLogs = await prisma.auditLog.findMany({
-      where: {
-        entityType: 'Assessment',
-        action: 'UPDATE',
-        timestamp: { gte: startDate },
-      },
-      orderBy: { timestamp: 'asc' },
-    });
-
-    // Get product systems to filter relevant logs
-    const product = await prisma.product.findUnique({
-      where: { id: productId },
-      include: { systems: { select: { id: true } } },
-    });
-
-    if (!product) {
-      return res.status(404).json({ error: 'Product not found' });
-    }
-
-    const systemIds = new Set(product.systems.map((s) => s.id));
-
-    // Build trend data
-    const dailyData: Record<string, { improvements: number; regressions: number; netChange: number }> = {};
-
-    for (const log of auditLogs) {
-      try {
-        if (log.changedFields && log.changedFields.includes('status')) {
-          const details = log.details ? JSON.parse(log.details) : null;
-          if (!details || !systemIds.has(details.systemId)) continue;
-
-          const prev = log.previousValue ? JSON.parse(log.previousValue) : null;
-          const next = log.newValue ? JSON.parse(log.newValue) : null;
-
-          if (prev?.status && next?.status) {
-            const dateKey = log.timestamp.toISOString().split('T')[0];
-            if (!dailyData[dateKey]) {
-              dailyData[dateKey] = { improvements: 0, regressions: 0, netChange: 0 };
-            }
-
-            const change = getStatusChangeDirection(prev.status, next.status);
-            if (change > 0) {
-              dailyData[dateKey].improvements++;
-              dailyData[dateKey].netChange++;
-            } else if (change < 0) {
-              dailyData[dateKey].regressions++;
-              dailyData[dateKey].netChange--;
-            }
-          }
-        }
-      } catch {
-        // Skip malformed logs
-      }
+    const snapshots = await complianceSnapshotService.getTrend('product', [productId], daysNum);
+
+    const trends = snapshots.map((s) => ({
+      date: s.date,
+      riskScore: s.riskScore,
+      complianceScore: s.complianceScore,
+      assessedControls: s.assessedCount,
+      nonCompliantCount: s.nonCompliantCount,
+      partialCount: s.partialCount,
+      functions: s.functions,
+    }));
+
+    // Day-over-day movement in risk score
+    let improvements = 0;
+    let regressions = 0;
+    for (let i = 1; i < trends.length; i++) {
+      const change = trends[i].riskScore - trends[i - 1].riskScore;
+      if (change < 0) improvements++;
+      else if (change > 0) regressions++;
     }
 
-    // Convert to array and fill gaps
-    const trendData: any[] = [];
-    const currentDate = new Date(startDate);
+    const netChange = trends.length > 0 ? trends[trends.length - 1].riskScore - trends[0].riskScore : 0;
     const endDate = new Date();
-
-    while (currentDate <= endDate) {
-      const dateKey = currentDate.toISOString().split('T')[0];
-      trendData.push({
-        date: dateKey,
-        ...(dailyData[dateKey] || { improvements: 0, regressions: 0, netChange: 0 }),
-      });
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    // Calculate cumulative trend
-    let cumulative = 0;
-    const cumulativeTrend = trendData.map((d) => {
-      cumulative += d.netChange;
-      return { date: d.date, cumulative };
-    });
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - (daysNum - 1));
 
     res.json({
       productId,
       period: { start: startDate.toISOString(), end: endDate.toISOString() },
       summary: {
-        totalImprovements: Object.values(dailyData).reduce((acc, d) => acc + d.improvements, 0),
-        totalRegressions: Object.values(dailyData).reduce((acc, d) => acc + d.regressions, 0),
-        netChange: cumulative,
-        trend: cumulative > 0 ? 'IMPROVING' : cumulative < 0 ? 'DECLINING' : 'STABLE',
+        totalImprovements: improvements,
+        totalRegressions: regressions,
+        netChange,
+        trend: netChange < 0 ? 'IMPROVING' : netChange > 0 ? 'DECLINING' : 'STABLE',
       },
-      dailyData: trendData,
-      cumulativeTrend,
+      trends,
     });
   } catch (error) {
     console.error('Error calculating risk trends:', error);
@@ -638,16 +631,4 @@ function isQuickWin(assessment: any, system: any, score: any): boolean {
   return false;
 }
 
-function getStatusChangeDirection(oldStatus: string, newStatus: string): number {
-  const statusOrder: Record<string, number> = {
-    NOT_ASSESSED: 0,
-    NON_COMPLIANT: 1,
-    PARTIALLY_COMPLIANT: 2,
-    COMPLIANT: 3,
-    NOT_APPLICABLE: 3,
-  };
-
-  return (statusOrder[newStatus] || 0) - (statusOrder[oldStatus] || 0);
-}
-
 export default router;
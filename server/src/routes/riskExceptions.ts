@@ -0,0 +1,211 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logAuditFromRequest } from '../services/auditService';
+import {
+  AccessUser,
+  Permission,
+  assessmentScope,
+  verifyAssessmentAccess,
+  verifyProductAccess,
+} from '../services/access.service';
+import {
+  RESIDUAL_RISK_LEVELS,
+  RISK_EXCEPTION_STATUSES,
+  RiskExceptionError,
+  riskExceptionService,
+} from '../services/riskException.service';
+
+const router = express.Router();
+
+// Validation schemas
+const listQuerySchema = z.object({
+  status: z.enum(RISK_EXCEPTION_STATUSES).optional(),
+});
+
+const requestSchema = z.object({
+  justification: z.string().min(1, 'Justification is required').max(5000),
+  compensatingControls: z.string().max(5000).nullable().optional(),
+  residualRisk: z.enum(RESIDUAL_RISK_LEVELS),
+  expiresAt: z.string().datetime(),
+});
+
+const decisionSchema = z.object({
+  note: z.string().max(2000).optional(),
+});
+
+// Helper: exception on an assessment the user can access with the given permission
+async function verifyExceptionAccess(id: string, user: AccessUser, permission: Permission = 'view') {
+  return prisma.riskException.findFirst({
+    where: { id, assessment: assessmentScope(user, permission) },
+    select: { id: true },
+  });
+}
+
+// Helper: audit entry for an exception's status change
+function exceptionAuditEntry(
+  previous: { status: string; assessment: { id: string; subcategoryId: string; system: { name: string } } },
+  exception: { id: string; status: string; residualRisk: string; expiresAt: Date }
+) {
+  return {
+    action: 'UPDATE' as const,
+    entityType: 'RiskException' as const,
+    entityId: exception.id,
+    entityName: `${previous.assessment.subcategoryId} - ${previous.assessment.system.name}`,
+    previousValue: { status: previous.status },
+    newValue: { status: exception.status, residualRisk: exception.residualRisk, expiresAt: exception.expiresAt },
+    changedFields: ['status'],
+    details: { assessmentId: previous.assessment.id },
+  };
+}
+
+// GET /api/risk-exceptions/product/:productId - List exceptions across a product (filter by status)
+router.get('/product/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (!(await verifyProductAccess(req.params.productId, req.user!))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const exceptions = await riskExceptionService.listForProduct(req.params.productId, validation.data);
+    res.json({ exceptions, total: exceptions.length });
+  } catch (error) {
+    console.error('Error fetching risk exceptions:', error);
+    res.status(500).json({ error: 'Failed to fetch risk exceptions' });
+  }
+});
+
+// GET /api/risk-exceptions/assessment/:assessmentId - An assessment's exceptions, newest first
+router.get('/assessment/:assessmentId', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!(await verifyAssessmentAccess(req.params.assessmentId, req.user!))) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    res.json(await riskExceptionService.listForAssessment(req.params.assessmentId));
+  } catch (error) {
+    console.error('Error fetching risk exceptions:', error);
+    res.status(500).json({ error: 'Failed to fetch risk exceptions' });
+  }
+});
+
+// POST /api/risk-exceptions/assessment/:assessmentId - Request an exception
+router.post('/assessment/:assessmentId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = requestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const assessment = await verifyAssessmentAccess(req.params.assessmentId, req.user!, 'assessment:edit');
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    const exception = await riskExceptionService.request(
+      assessment.id,
+      { ...validation.data, expiresAt: new Date(validation.data.expiresAt) },
+      req.user!.id
+    );
+
+    await logAuditFromRequest(req, {
+      action: 'CREATE',
+      entityType: 'RiskException',
+      entityId: exception.id,
+      entityName: `${assessment.subcategoryId} - ${assessment.system.name}`,
+      newValue: {
+        status: exception.status,
+        residualRisk: exception.residualRisk,
+        expiresAt: exception.expiresAt,
+        justification: exception.justification,
+      },
+      details: { assessmentId: assessment.id, productId: assessment.system.productId },
+    });
+
+    res.status(201).json(exception);
+  } catch (error) {
+    if (error instanceof RiskExceptionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error requesting risk exception:', error);
+    res.status(500).json({ error: 'Failed to request risk exception' });
+  }
+});
+
+// Helper: approve or reject a pending request (review permission)
+async function decide(req: AuthenticatedRequest, res: express.Response, approve: boolean) {
+  try {
+    const validation = decisionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (!(await verifyExceptionAccess(req.params.id, req.user!, 'assessment:review'))) {
+      return res.status(404).json({ error: 'Risk exception not found' });
+    }
+
+    const { previous, exception } = await riskExceptionService.decide(
+      req.params.id,
+      approve,
+      validation.data.note,
+      req.user!.id
+    );
+
+    await logAuditFromRequest(req, exceptionAuditEntry(previous, exception));
+
+    res.json(exception);
+  } catch (error) {
+    if (error instanceof RiskExceptionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error deciding risk exception:', error);
+    res.status(500).json({ error: `Failed to ${approve ? 'approve' : 'reject'} risk exception` });
+  }
+}
+
+// POST /api/risk-exceptions/:id/approve - Approve a pending request
+router.post('/:id/approve', (req: AuthenticatedRequest, res) => decide(req, res, true));
+
+// POST /api/risk-exceptions/:id/reject - Reject a pending request
+router.post('/:id/reject', (req: AuthenticatedRequest, res) => decide(req, res, false));
+
+// POST /api/risk-exceptions/:id/revoke - Withdraw a request or revoke an approved exception
+// (review permission, or edit permission to withdraw one's own pending request)
+router.post('/:id/revoke', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = decisionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const existing = await riskExceptionService.get(req.params.id);
+    const ownPendingRequest = existing?.status === 'PENDING' && existing.requestedById === req.user!.id;
+    const permission: Permission = ownPendingRequest ? 'assessment:edit' : 'assessment:review';
+    if (!existing || !(await verifyExceptionAccess(existing.id, req.user!, permission))) {
+      return res.status(404).json({ error: 'Risk exception not found' });
+    }
+
+    const { previous, exception } = await riskExceptionService.revoke(
+      existing.id,
+      validation.data.note,
+      req.user!.id
+    );
+
+    await logAuditFromRequest(req, exceptionAuditEntry(previous, exception));
+
+    res.json(exception);
+  } catch (error) {
+    if (error instanceof RiskExceptionError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error revoking risk exception:', error);
+    res.status(500).json({ error: 'Failed to revoke risk exception' });
+  }
+});
+
+export default router;
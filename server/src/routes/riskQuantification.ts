@@ -0,0 +1,179 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logAuditFromRequest } from '../services/auditService';
+import {
+  productScope,
+  verifyAssessmentAccess,
+  verifyProductAccess,
+} from '../services/access.service';
+import {
+  MAX_FREQUENCY,
+  MAX_ITERATIONS,
+  MIN_ITERATIONS,
+  RiskQuantificationError,
+  riskQuantificationService,
+} from '../services/riskQuantification.service';
+
+const router = express.Router();
+
+// Validation schemas
+const estimateSchema = z.object({
+  frequencyMin: z.number().min(0),
+  frequencyMostLikely: z.number().min(0),
+  frequencyMax: z.number().min(0).max(MAX_FREQUENCY),
+  magnitudeMin: z.number().min(0),
+  magnitudeMostLikely: z.number().min(0),
+  magnitudeMax: z.number().min(0).max(1e12),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const simulationQuerySchema = z.object({
+  iterations: z.coerce.number().int().min(MIN_ITERATIONS).max(MAX_ITERATIONS).optional(),
+  seed: z.coerce.number().int().min(0).optional(),
+});
+
+// Helper: ranges recorded in the audit log
+function estimateValues(estimate: z.infer<typeof estimateSchema>) {
+  return {
+    frequency: [estimate.frequencyMin, estimate.frequencyMostLikely, estimate.frequencyMax],
+    magnitude: [estimate.magnitudeMin, estimate.magnitudeMostLikely, estimate.magnitudeMax],
+  };
+}
+
+// GET /api/risk-quant/product/:productId/estimates - List a product's loss estimates
+router.get('/product/:productId/estimates', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!(await verifyProductAccess(req.params.productId, req.user!))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json(await riskQuantificationService.list(req.params.productId));
+  } catch (error) {
+    console.error('Error fetching loss estimates:', error);
+    res.status(500).json({ error: 'Failed to fetch loss estimates' });
+  }
+});
+
+// GET /api/risk-quant/product/:productId/simulation - Simulate annualized loss exposure
+router.get('/product/:productId/simulation', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = simulationQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (!(await verifyProductAccess(req.params.productId, req.user!))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json(await riskQuantificationService.simulate(req.params.productId, validation.data));
+  } catch (error) {
+    console.error('Error simulating loss exposure:', error);
+    res.status(500).json({ error: 'Failed to simulate loss exposure' });
+  }
+});
+
+// PUT /api/risk-quant/risk/:riskId/estimate - Set the loss estimate for a register risk
+router.put('/risk/:riskId/estimate', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = estimateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const risk = await prisma.risk.findFirst({
+      where: { id: req.params.riskId, product: productScope(req.user!, 'assessment:edit') },
+      select: { id: true, riskId: true, title: true, productId: true, lossEstimate: true },
+    });
+    if (!risk) {
+      return res.status(404).json({ error: 'Risk not found' });
+    }
+
+    const estimate = await riskQuantificationService.saveForRisk(risk.id, validation.data, req.user!.id);
+
+    await logAuditFromRequest(req, {
+      action: risk.lossEstimate ? 'UPDATE' : 'CREATE',
+      entityType: 'LossEstimate',
+      entityId: estimate.id,
+      entityName: `${risk.riskId} ${risk.title}`,
+      previousValue: risk.lossEstimate ? estimateValues(risk.lossEstimate) : undefined,
+      newValue: estimateValues(estimate),
+      details: { productId: risk.productId, riskId: risk.id },
+    });
+
+    res.json(estimate);
+  } catch (error) {
+    if (error instanceof RiskQuantificationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error saving loss estimate:', error);
+    res.status(500).json({ error: 'Failed to save loss estimate' });
+  }
+});
+
+// PUT /api/risk-quant/assessment/:assessmentId/estimate - Set the loss estimate for a control gap
+router.put('/assessment/:assessmentId/estimate', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = estimateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const assessment = await verifyAssessmentAccess(req.params.assessmentId, req.user!, 'assessment:edit');
+    if (!assessment) {
+      return res.status(404).json({ error: 'Assessment not found' });
+    }
+
+    const existing = await prisma.lossEstimate.findUnique({ where: { assessmentId: assessment.id } });
+    const estimate = await riskQuantificationService.saveForAssessment(assessment.id, validation.data, req.user!.id);
+
+    await logAuditFromRequest(req, {
+      action: existing ? 'UPDATE' : 'CREATE',
+      entityType: 'LossEstimate',
+      entityId: estimate.id,
+      entityName: `${assessment.subcategoryId} on ${assessment.system.name}`,
+      previousValue: existing ? estimateValues(existing) : undefined,
+      newValue: estimateValues(estimate),
+      details: { productId: assessment.system.productId, assessmentId: assessment.id },
+    });
+
+    res.json(estimate);
+  } catch (error) {
+    if (error instanceof RiskQuantificationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error saving loss estimate:', error);
+    res.status(500).json({ error: 'Failed to save loss estimate' });
+  }
+});
+
+// DELETE /api/risk-quant/estimates/:id - Remove a loss estimate
+router.delete('/estimates/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.lossEstimate.findFirst({
+      where: { id: req.params.id, product: productScope(req.user!, 'assessment:edit') },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Loss estimate not found' });
+    }
+
+    await riskQuantificationService.delete(existing.id);
+
+    await logAuditFromRequest(req, {
+      action: 'DELETE',
+      entityType: 'LossEstimate',
+      entityId: existing.id,
+      previousValue: estimateValues(existing),
+      details: { productId: existing.productId, riskId: existing.riskId, assessmentId: existing.assessmentId },
+    });
+
+    res.json({ message: 'Loss estimate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting loss estimate:', error);
+    res.status(500).json({ error: 'Failed to delete loss estimate' });
+  }
+});
+
+export default router;
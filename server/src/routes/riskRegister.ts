@@ -0,0 +1,214 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logAuditFromRequest } from '../services/auditService';
+import { AccessUser, Permission, productScope, verifyProductAccess } from '../services/access.service';
+import {
+  RISK_STATUSES,
+  RISK_TREATMENTS,
+  RiskRegisterError,
+  riskRegisterService,
+} from '../services/riskRegister.service';
+
+const router = express.Router();
+
+// Validation schemas
+const listQuerySchema = z.object({
+  status: z.enum(RISK_STATUSES).optional(),
+  ownerId: z.string().uuid().optional(),
+  systemId: z.string().uuid().optional(),
+});
+
+const riskFields = {
+  title: z.string().min(1, 'Title is required').max(255),
+  description: z.string().max(5000).nullable().optional(),
+  threat: z.string().min(1, 'Threat is required').max(2000),
+  vulnerability: z.string().min(1, 'Vulnerability is required').max(2000),
+  likelihood: z.number().int().min(1).max(5),
+  impact: z.number().int().min(1).max(5),
+  treatment: z.enum(RISK_TREATMENTS).optional(),
+  treatmentPlan: z.string().max(5000).nullable().optional(),
+  status: z.enum(RISK_STATUSES).optional(),
+  reviewDate: z.string().datetime().nullable().optional(),
+  ownerId: z.string().uuid().nullable().optional(),
+  systemIds: z.array(z.string().uuid()).max(100).optional(),
+  controlIds: z.array(z.string().min(1)).max(200).optional(),
+};
+
+const createRiskSchema = z.object(riskFields);
+const updateRiskSchema = z.object(riskFields).partial();
+
+// Helper: risk the user can access with the given permission
+async function verifyRiskAccess(id: string, user: AccessUser, permission: Permission = 'view') {
+  return prisma.risk.findFirst({
+    where: { id, product: productScope(user, permission) },
+    select: {
+      id: true,
+      riskId: true,
+      productId: true,
+      title: true,
+      likelihood: true,
+      impact: true,
+      treatment: true,
+      status: true,
+      ownerId: true,
+    },
+  });
+}
+
+// Helper: date string to Date, keeping null and undefined
+function toDate(value: string | null | undefined) {
+  return value === undefined ? undefined : value === null ? null : new Date(value);
+}
+
+// GET /api/risk-register/product/:productId - List a product's risks with residual scores
+router.get('/product/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = listQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (!(await verifyProductAccess(req.params.productId, req.user!))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const risks = await riskRegisterService.list(req.params.productId, validation.data);
+    res.json({ risks, total: risks.length });
+  } catch (error) {
+    console.error('Error fetching risks:', error);
+    res.status(500).json({ error: 'Failed to fetch risks' });
+  }
+});
+
+// POST /api/risk-register/product/:productId - Record a risk
+router.post('/product/:productId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = createRiskSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    if (!(await verifyProductAccess(req.params.productId, req.user!, 'assessment:edit'))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const data = validation.data;
+    const risk = await riskRegisterService.create(
+      req.params.productId,
+      { ...data, reviewDate: toDate(data.reviewDate) },
+      req.user!.id
+    );
+
+    await logAuditFromRequest(req, {
+      action: 'CREATE',
+      entityType: 'Risk',
+      entityId: risk.id,
+      entityName: `${risk.riskId} ${risk.title}`,
+      newValue: {
+        likelihood: risk.likelihood,
+        impact: risk.impact,
+        treatment: risk.treatment,
+        ownerId: risk.ownerId,
+        systemIds: risk.systems.map((s) => s.id),
+        controlIds: risk.controls.map((c) => c.controlId),
+      },
+      details: { productId: risk.productId },
+    });
+
+    res.status(201).json(risk);
+  } catch (error) {
+    if (error instanceof RiskRegisterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating risk:', error);
+    res.status(500).json({ error: 'Failed to create risk' });
+  }
+});
+
+// GET /api/risk-register/:id - Risk with per-control effectiveness
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!(await verifyRiskAccess(req.params.id, req.user!))) {
+      return res.status(404).json({ error: 'Risk not found' });
+    }
+
+    res.json(await riskRegisterService.get(req.params.id));
+  } catch (error) {
+    console.error('Error fetching risk:', error);
+    res.status(500).json({ error: 'Failed to fetch risk' });
+  }
+});
+
+// PUT /api/risk-register/:id - Update a risk; systemIds and controlIds replace the links
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = updateRiskSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const existing = await verifyRiskAccess(req.params.id, req.user!, 'assessment:edit');
+    if (!existing) {
+      return res.status(404).json({ error: 'Risk not found' });
+    }
+
+    const data = validation.data;
+    const risk = await riskRegisterService.update(existing.id, { ...data, reviewDate: toDate(data.reviewDate) });
+
+    const tracked = ['title', 'likelihood', 'impact', 'treatment', 'status', 'ownerId'] as const;
+    const changedFields = tracked.filter((field) => data[field] !== undefined && data[field] !== existing[field]);
+
+    await logAuditFromRequest(req, {
+      action: 'UPDATE',
+      entityType: 'Risk',
+      entityId: risk.id,
+      entityName: `${risk.riskId} ${risk.title}`,
+      previousValue: Object.fromEntries(changedFields.map((field) => [field, existing[field]])),
+      newValue: Object.fromEntries(changedFields.map((field) => [field, risk[field]])),
+      changedFields: [
+        ...changedFields,
+        ...(data.systemIds ? ['systemIds'] : []),
+        ...(data.controlIds ? ['controlIds'] : []),
+      ],
+      details: { productId: risk.productId, residualScore: risk.residualScore },
+    });
+
+    res.json(risk);
+  } catch (error) {
+    if (error instanceof RiskRegisterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating risk:', error);
+    res.status(500).json({ error: 'Failed to update risk' });
+  }
+});
+
+// DELETE /api/risk-register/:id - Delete a risk
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await verifyRiskAccess(req.params.id, req.user!, 'assessment:edit');
+    if (!existing) {
+      return res.status(404).json({ error: 'Risk not found' });
+    }
+
+    await riskRegisterService.delete(existing.id);
+
+    await logAuditFromRequest(req, {
+      action: 'DELETE',
+      entityType: 'Risk',
+      entityId: existing.id,
+      entityName: `${existing.riskId} ${existing.title}`,
+      previousValue: { likelihood: existing.likelihood, impact: existing.impact, status: existing.status },
+      details: { productId: existing.productId },
+    });
+
+    res.json({ message: 'Risk deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting risk:', error);
+    res.status(500).json({ error: 'Failed to delete risk' });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import express from 'express';
 import { prisma } from '../prisma';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { z } from 'zod';
+import { getProductPermissions, resolveProductPermissions, systemScope, verifyProductAccess, verifySystemAccess } from '../services/access.service';
 
 const router = express.Router();
 
@@ -18,41 +19,18 @@ const createSystemSchema = z.object({
 
 const updateSystemSchema = createSystemSchema.partial().omit({ productId: true });
 
-// Helper function to verify product ownership
-async function verifyProductOwnership(productId: string, userId: string): Promise<boolean> {
-  const product = await prisma.product.findFirst({
-    where: {
-      id: productId,
-      userId: userId
-    }
-  });
-  return !!product;
-}
-
-// Helper function to verify system ownership through product
-async function verifySystemOwnership(systemId: string, userId: string): Promise<boolean> {
-  const system = await prisma.system.findFirst({
-    where: {
-      id: systemId,
-      product: {
-        userId: userId
-      }
-    }
-  });
-  return !!system;
-}
-
 // GET /api/systems - List all systems (with filtering)
 router.get('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const { productId, criticality, environment } = req.query;
+    const { productId, criticality, environment, teamId } = req.query;
 
     const where: any = {
-      product: {
-        userId: req.user!.id
-      }
+      AND: [systemScope(req.user!)]
     };
 
+    if (teamId) {
+      where.AND.push({ product: { framework: { capabilityCentre: { teamId: teamId as string } } } });
+    }
     if (productId) {
       where.productId = productId as string;
     }
@@ -71,7 +49,17 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
             id: true,
             name: true,
             type: true,
-            criticality: true
+            criticality: true,
+            userId: true,
+            frameworkId: true,
+            framework: {
+              select: {
+                capabilityCentreId: true,
+                capabilityCentre: {
+                  select: { userId: true, teamId: true, team: { select: { id: true, name: true } } }
+                }
+              }
+            }
           }
         },
         _count: {
@@ -115,7 +103,8 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
             compliantAssessments,
             completionRate: Math.round(completionRate),
             complianceScore: Math.round(complianceScore)
-          }
+          },
+          permissions: getProductPermissions(req.user!, system.product)
         };
       })
     );
@@ -133,7 +122,7 @@ router.get('/', async (req: AuthenticatedRequest, res) => {
 // GET /api/systems/:id - Get single system with assessments
 router.get('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    const hasAccess = await verifySystemOwnership(req.params.id, req.user!.id);
+    const hasAccess = await verifySystemAccess(req.params.id, req.user!);
 
     if (!hasAccess) {
       return res.status(404).json({ error: 'System not found' });
@@ -172,6 +161,7 @@ router.get('/:id', async (req: AuthenticatedRequest, res) => {
 
     res.json({
       ...system,
+      permissions: await resolveProductPermissions(system.productId, req.user!),
       metrics: {
         totalAssessments,
         completedAssessments,
@@ -193,8 +183,8 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
   try {
     const validatedData = createSystemSchema.parse(req.body);
 
-    // Verify product ownership
-    const hasAccess = await verifyProductOwnership(validatedData.productId, req.user!.id);
+    // Verify product access
+    const hasAccess = await verifyProductAccess(validatedData.productId, req.user!, 'system:manage');
     if (!hasAccess) {
       return res.status(403).json({
         error: 'Access denied',
@@ -238,8 +228,8 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
   try {
     const validatedData = updateSystemSchema.parse(req.body);
 
-    // Verify ownership
-    const hasAccess = await verifySystemOwnership(req.params.id, req.user!.id);
+    // Verify access
+    const hasAccess = await verifySystemAccess(req.params.id, req.user!, 'system:manage');
     if (!hasAccess) {
       return res.status(404).json({ error: 'System not found' });
     }
@@ -279,8 +269,8 @@ router.put('/:id', async (req: AuthenticatedRequest, res) => {
 // DELETE /api/systems/:id - Delete system (cascade assessments)
 router.delete('/:id', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify ownership
-    const hasAccess = await verifySystemOwnership(req.params.id, req.user!.id);
+    // Verify access
+    const hasAccess = await verifySystemAccess(req.params.id, req.user!, 'system:manage');
     if (!hasAccess) {
       return res.status(404).json({ error: 'System not found' });
     }
@@ -300,8 +290,8 @@ router.delete('/:id', async (req: AuthenticatedRequest, res) => {
 // GET /api/systems/:id/assessments - Get all assessments for a system
 router.get('/:id/assessments', async (req: AuthenticatedRequest, res) => {
   try {
-    // Verify ownership
-    const hasAccess = await verifySystemOwnership(req.params.id, req.user!.id);
+    // Verify access
+    const hasAccess = await verifySystemAccess(req.params.id, req.user!);
     if (!hasAccess) {
       return res.status(404).json({ error: 'System not found' });
     }
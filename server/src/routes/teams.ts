@@ -0,0 +1,306 @@
+import express from 'express';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest, requireTeamRole } from '../middleware/auth';
+import { z } from 'zod';
+import { TEAM_ROLES, TeamRole } from '../services/access.service';
+
+const router = express.Router();
+
+
+// Validation schemas
+const createTeamSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+});
+
+const updateTeamSchema = createTeamSchema.partial();
+
+const addMemberSchema = z.object({
+  userId: z.string().uuid().optional(),
+  email: z.string().email().optional(),
+  role: z.enum(TEAM_ROLES as [TeamRole, ...TeamRole[]]).default('ASSESSOR'),
+}).refine((data) => data.userId || data.email, {
+  message: 'userId or email is required',
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(TEAM_ROLES as [TeamRole, ...TeamRole[]]),
+});
+
+const memberInclude = {
+  user: {
+    select: { id: true, name: true, email: true },
+  },
+} as const;
+
+// Helper to ensure a team always keeps at least one owner
+async function isLastOwner(teamId: string, userId: string): Promise<boolean> {
+  const owners = await prisma.teamMembership.findMany({
+    where: { teamId, role: 'OWNER' },
+    select: { userId: true },
+  });
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+// GET /api/teams - List teams the user belongs to
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const memberships = await prisma.teamMembership.findMany({
+      where: { userId: req.user!.id },
+      include: {
+        team: {
+          include: {
+            _count: {
+              select: { members: true, capabilityCentres: true },
+            },
+          },
+        },
+      },
+      orderBy: { team: { name: 'asc' } },
+    });
+
+    res.json({
+      teams: memberships.map((m) => ({ ...m.team, role: m.role })),
+      total: memberships.length,
+    });
+  } catch (error) {
+    console.error('Error fetching teams:', error);
+    res.status(500).json({ error: 'Failed to fetch teams' });
+  }
+});
+
+// GET /api/teams/:teamId - Get team with members and shared capability centres
+router.get('/:teamId', requireTeamRole(TEAM_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const team = await prisma.team.findUnique({
+      where: { id: req.params.teamId },
+      include: {
+        members: {
+          include: memberInclude,
+          orderBy: { createdAt: 'asc' },
+        },
+        capabilityCentres: {
+          select: { id: true, name: true, code: true, color: true },
+          orderBy: { name: 'asc' },
+        },
+      },
+    });
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const membership = req.user!.memberships.find((m) => m.teamId === team.id);
+    res.json({ ...team, role: membership?.role });
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    res.status(500).json({ error: 'Failed to fetch team' });
+  }
+});
+
+// POST /api/teams - Create team (creator becomes OWNER)
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validatedData = createTeamSchema.parse(req.body);
+
+    const team = await prisma.team.create({
+      data: {
+        ...validatedData,
+        members: {
+          create: { userId: req.user!.id, role: 'OWNER' },
+        },
+      },
+      include: {
+        members: { include: memberInclude },
+      },
+    });
+
+    res.status(201).json({ ...team, role: 'OWNER' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error creating team:', error);
+    res.status(500).json({ error: 'Failed to create team' });
+  }
+});
+
+// PUT /api/teams/:teamId - Update team details
+router.put('/:teamId', requireTeamRole(['OWNER', 'ADMIN']), async (req: AuthenticatedRequest, res) => {
+  try {
+    const validatedData = updateTeamSchema.parse(req.body);
+
+    const team = await prisma.team.update({
+      where: { id: req.params.teamId },
+      data: validatedData,
+    });
+
+    res.json(team);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error updating team:', error);
+    res.status(500).json({ error: 'Failed to update team' });
+  }
+});
+
+// DELETE /api/teams/:teamId - Delete team (shared capability centres revert to their owners)
+router.delete('/:teamId', requireTeamRole(['OWNER']), async (req: AuthenticatedRequest, res) => {
+  try {
+    await prisma.team.delete({
+      where: { id: req.params.teamId },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting team:', error);
+    res.status(500).json({ error: 'Failed to delete team' });
+  }
+});
+
+// POST /api/teams/:teamId/members - Add member by userId or email
+router.post('/:teamId/members', requireTeamRole(['OWNER', 'ADMIN']), async (req: AuthenticatedRequest, res) => {
+  try {
+    const validatedData = addMemberSchema.parse(req.body);
+    const { teamId } = req.params;
+
+    // Only owners can grant the OWNER role
+    const membership = req.user!.memberships.find((m) => m.teamId === teamId);
+    if (validatedData.role === 'OWNER' && membership?.role !== 'OWNER') {
+      return res.status(403).json({ error: 'Only team owners can add owners' });
+    }
+
+    const user = await prisma.user.findFirst({
+      where: validatedData.userId
+        ? { id: validatedData.userId }
+        : { email: validatedData.email },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const existing = await prisma.teamMembership.findUnique({
+      where: { teamId_userId: { teamId, userId: user.id } },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: 'User is already a member of this team' });
+    }
+
+    const member = await prisma.teamMembership.create({
+      data: {
+        teamId,
+        userId: user.id,
+        role: validatedData.role,
+      },
+      include: memberInclude,
+    });
+
+    res.status(201).json(member);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error adding team member:', error);
+    res.status(500).json({ error: 'Failed to add team member' });
+  }
+});
+
+// PUT /api/teams/:teamId/members/:userId - Change a member's role
+router.put('/:teamId/members/:userId', requireTeamRole(['OWNER', 'ADMIN']), async (req: AuthenticatedRequest, res) => {
+  try {
+    const validatedData = updateMemberSchema.parse(req.body);
+    const { teamId, userId } = req.params;
+
+    const existing = await prisma.teamMembership.findUnique({
+      where: { teamId_userId: { teamId, userId } },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    // Owner role changes (granting or revoking) are restricted to owners
+    const membership = req.user!.memberships.find((m) => m.teamId === teamId);
+    if ((validatedData.role === 'OWNER' || existing.role === 'OWNER') && membership?.role !== 'OWNER') {
+      return res.status(403).json({ error: 'Only team owners can change owner roles' });
+    }
+
+    if (existing.role === 'OWNER' && validatedData.role !== 'OWNER' && await isLastOwner(teamId, userId)) {
+      return res.status(400).json({ error: 'A team must have at least one owner' });
+    }
+
+    const member = await prisma.teamMembership.update({
+      where: { id: existing.id },
+      data: { role: validatedData.role },
+      include: memberInclude,
+    });
+
+    res.json(member);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.errors
+      });
+    }
+    console.error('Error updating team member:', error);
+    res.status(500).json({ error: 'Failed to update team member' });
+  }
+});
+
+// DELETE /api/teams/:teamId/members/:userId - Remove member (members may remove themselves)
+router.delete('/:teamId/members/:userId', requireTeamRole(TEAM_ROLES), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { teamId, userId } = req.params;
+    const membership = req.user!.memberships.find((m) => m.teamId === teamId);
+    const isSelf = userId === req.user!.id;
+
+    const existing = await prisma.teamMembership.findUnique({
+      where: { teamId_userId: { teamId, userId } },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (!isSelf) {
+      const canRemove = existing.role === 'OWNER'
+        ? membership?.role === 'OWNER'
+        : membership?.role === 'OWNER' || membership?.role === 'ADMIN';
+      if (!canRemove) {
+        return res.status(403).json({
+          error: 'Insufficient permissions',
+          message: 'Access denied'
+        });
+      }
+    }
+
+    if (existing.role === 'OWNER' && await isLastOwner(teamId, userId)) {
+      return res.status(400).json({ error: 'A team must have at least one owner' });
+    }
+
+    await prisma.teamMembership.delete({
+      where: { id: existing.id },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    res.status(500).json({ error: 'Failed to remove team member' });
+  }
+});
+
+export default router;
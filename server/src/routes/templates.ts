@@ -2,6 +2,7 @@ import express, { Response } from 'express';
 import { prisma } from '../prisma';
 import { z } from 'zod';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth';
+import { productScope } from '../services/access.service';
 
 const router = express.Router();
 
@@ -154,9 +155,7 @@ router.post('/from-system/:systemId', authMiddleware, async (req: AuthenticatedR
     const system = await prisma.system.findFirst({
       where: {
         id: systemId,
-        product: {
-          userId: req.user!.id,
-        },
+        product: productScope(req.user!),
       },
       include: {
         assessments: true,
@@ -227,9 +226,7 @@ router.post('/apply', authMiddleware, async (req: AuthenticatedRequest, res: Res
     const system = await prisma.system.findFirst({
       where: {
         id: systemId,
-        product: {
-          userId: req.user!.id,
-        },
+        product: productScope(req.user!, 'assessment:edit'),
       },
     });
 
@@ -266,6 +263,7 @@ router.post('/apply', authMiddleware, async (req: AuthenticatedRequest, res: Res
               data: {
                 status: assessmentData.status,
                 details: assessmentData.details || existing.details,
+                lastEditedById: req.user!.id,
               },
             });
             results.updated++;
@@ -279,6 +277,7 @@ router.post('/apply', authMiddleware, async (req: AuthenticatedRequest, res: Res
               subcategoryId,
               status: assessmentData.status,
               details: assessmentData.details,
+              lastEditedById: req.user!.id,
             },
           });
           results.created++;
@@ -305,19 +304,19 @@ router.post('/copy-assessments', authMiddleware, async (req: AuthenticatedReques
       return res.status(400).json({ error: 'sourceSystemId and targetSystemId are required' });
     }
 
-    // Verify both systems exist and user owns them
+    // Verify both systems exist and user can access them
     const [sourceSystem, targetSystem] = await Promise.all([
       prisma.system.findFirst({
         where: {
           id: sourceSystemId,
-          product: { userId: req.user!.id },
+          product: productScope(req.user!),
         },
         include: { assessments: true },
       }),
       prisma.system.findFirst({
         where: {
           id: targetSystemId,
-          product: { userId: req.user!.id },
+          product: productScope(req.user!, 'assessment:edit'),
         },
       }),
     ]);
@@ -364,6 +363,7 @@ router.post('/copy-assessments', authMiddleware, async (req: AuthenticatedReques
                 status: assessment.status,
                 details: assessment.details,
                 assessor: assessment.assessor,
+                lastEditedById: req.user!.id,
               },
             });
             results.updated++;
@@ -378,6 +378,7 @@ router.post('/copy-assessments', authMiddleware, async (req: AuthenticatedReques
               status: assessment.status,
               details: assessment.details,
               assessor: assessment.assessor,
+              lastEditedById: req.user!.id,
             },
           });
           results.created++;
@@ -0,0 +1,167 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { issueTrackerService } from '../services/issueTracker.service';
+import { TrackerError, TRACKER_TYPES, TASK_STATUSES } from '../services/trackerAdapters';
+
+const router = express.Router();
+
+
+// Validation schemas
+const trackerSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  type: z.enum(TRACKER_TYPES),
+  baseUrl: z
+    .string()
+    .url('Base URL must be valid')
+    .refine((url) => /^https?:\/\//i.test(url), 'Base URL must use http or https'),
+  username: z.string().max(255).nullable().optional(),
+  apiToken: z.string().max(1000).nullable().optional(),
+  projectKey: z.string().max(50).nullable().optional(),
+  issueType: z.string().min(1).max(50).optional(),
+  statusMap: z.record(z.enum(TASK_STATUSES)).nullable().optional(),
+  productId: z.string().uuid().nullable().optional(),
+  autoCreate: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Helper: connection as returned by the API; the token is never sent back
+function serializeConnection<T extends { apiToken: string | null; statusMap: string | null }>(connection: T) {
+  return {
+    ...connection,
+    apiToken: connection.apiToken ? `••••${connection.apiToken.slice(-4)}` : null,
+    statusMap: connection.statusMap ? (JSON.parse(connection.statusMap) as Record<string, string>) : null,
+  };
+}
+
+// GET /api/trackers - List issue tracker connections
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const connections = await prisma.trackerConnection.findMany({
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { tasks: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(
+      connections.map(({ _count, ...connection }) => ({
+        ...serializeConnection(connection),
+        linkedTasks: _count.tasks,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching tracker connections:', error);
+    res.status(500).json({ error: 'Failed to fetch tracker connections' });
+  }
+});
+
+// POST /api/trackers - Add an issue tracker connection
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = trackerSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const { statusMap, ...data } = validation.data;
+    if (data.type === 'JIRA' && !data.projectKey) {
+      return res.status(400).json({ error: 'Jira connections require a project key' });
+    }
+
+    const connection = await prisma.trackerConnection.create({
+      data: {
+        ...data,
+        statusMap: statusMap ? JSON.stringify(statusMap) : null,
+        createdById: req.user!.id,
+      },
+    });
+
+    res.status(201).json(serializeConnection(connection));
+  } catch (error) {
+    console.error('Error creating tracker connection:', error);
+    res.status(500).json({ error: 'Failed to create tracker connection' });
+  }
+});
+
+// PUT /api/trackers/:id - Update a connection (omit apiToken to keep the current one)
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = trackerSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const existing = await prisma.trackerConnection.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Tracker connection not found' });
+    }
+
+    const { statusMap, ...data } = validation.data;
+    const connection = await prisma.trackerConnection.update({
+      where: { id: req.params.id },
+      data: {
+        ...data,
+        ...(statusMap !== undefined && { statusMap: statusMap ? JSON.stringify(statusMap) : null }),
+      },
+    });
+
+    res.json(serializeConnection(connection));
+  } catch (error) {
+    console.error('Error updating tracker connection:', error);
+    res.status(500).json({ error: 'Failed to update tracker connection' });
+  }
+});
+
+// DELETE /api/trackers/:id - Remove a connection; linked tasks keep their ticket reference
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await prisma.trackerConnection.deleteMany({ where: { id: req.params.id } });
+    if (deleted.count === 0) {
+      return res.status(404).json({ error: 'Tracker connection not found' });
+    }
+    res.json({ message: 'Tracker connection deleted' });
+  } catch (error) {
+    console.error('Error deleting tracker connection:', error);
+    res.status(500).json({ error: 'Failed to delete tracker connection' });
+  }
+});
+
+// POST /api/trackers/:id/test - Check credentials and project access
+router.post('/:id/test', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.trackerConnection.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Tracker connection not found' });
+    }
+
+    await issueTrackerService.testConnection(existing.id);
+    res.json({ ok: true });
+  } catch (error) {
+    if (error instanceof TrackerError) {
+      return res.json({ ok: false, error: error.message });
+    }
+    console.error('Error testing tracker connection:', error);
+    res.status(500).json({ error: 'Failed to test tracker connection' });
+  }
+});
+
+// POST /api/trackers/:id/sync - Pull changes for every task linked through this connection
+router.post('/:id/sync', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.trackerConnection.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Tracker connection not found' });
+    }
+
+    const summary = await issueTrackerService.syncAll(existing.id);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error syncing tracker connection:', error);
+    res.status(500).json({ error: 'Failed to sync tracker connection' });
+  }
+});
+
+export default router;
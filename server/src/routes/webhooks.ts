@@ -0,0 +1,220 @@
+import express from 'express';
+import { z } from 'zod';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  webhookService,
+  generateWebhookSecret,
+  parseEvents,
+  WEBHOOK_EVENT_TYPES,
+} from '../services/webhook.service';
+
+const router = express.Router();
+
+
+// Validation schemas
+const webhookSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  url: z
+    .string()
+    .url('URL must be valid')
+    .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Select at least one event'),
+  productId: z.string().uuid().nullable().optional(),
+  scoreThreshold: z.number().int().min(0).max(100).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const deliveryQuerySchema = z.object({
+  status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Helper: webhook as returned by the API; the secret is only shown in full on create/rotate
+function serializeWebhook<T extends { secret: string; events: string }>(webhook: T, revealSecret = false) {
+  return {
+    ...webhook,
+    events: parseEvents(webhook.events),
+    secret: revealSecret ? webhook.secret : `••••${webhook.secret.slice(-4)}`,
+  };
+}
+
+// GET /api/webhooks - List webhooks with their latest delivery
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        deliveries: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { status: true, responseStatus: true, createdAt: true },
+        },
+        _count: { select: { deliveries: { where: { status: 'FAILED' } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(
+      webhooks.map(({ deliveries, _count, ...webhook }) => ({
+        ...serializeWebhook(webhook),
+        lastDelivery: deliveries[0] || null,
+        failedDeliveries: _count.deliveries,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// POST /api/webhooks - Register a webhook
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = webhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const { events, ...data } = validation.data;
+    const webhook = await prisma.webhook.create({
+      data: {
+        ...data,
+        events: JSON.stringify(events),
+        secret: generateWebhookSecret(),
+        createdById: req.user!.id,
+      },
+    });
+
+    res.status(201).json(serializeWebhook(webhook, true));
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// PUT /api/webhooks/:id - Update a webhook
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = webhookSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const existing = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const { events, ...data } = validation.data;
+    const webhook = await prisma.webhook.update({
+      where: { id: req.params.id },
+      data: {
+        ...data,
+        ...(events && { events: JSON.stringify(events) }),
+      },
+    });
+
+    res.json(serializeWebhook(webhook));
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// DELETE /api/webhooks/:id - Remove a webhook and its delivery log
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await prisma.webhook.deleteMany({ where: { id: req.params.id } });
+    if (deleted.count === 0) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.json({ message: 'Webhook deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// POST /api/webhooks/:id/rotate-secret - Issue a new signing secret
+router.post('/:id/rotate-secret', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id: req.params.id },
+      data: { secret: generateWebhookSecret() },
+    });
+
+    res.json(serializeWebhook(webhook, true));
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+// POST /api/webhooks/:id/test - Send a PING and return the delivery result
+router.post('/:id/test', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await webhookService.sendTest(existing.id, { id: req.user!.id, name: req.user!.name });
+    res.json(delivery);
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    res.status(500).json({ error: 'Failed to send test webhook' });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery log, newest first
+router.get('/:id/deliveries', async (req: AuthenticatedRequest, res) => {
+  try {
+    const validation = deliveryQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.errors[0].message });
+    }
+
+    const existing = await prisma.webhook.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        webhookId: req.params.id,
+        ...(validation.data.status && { status: validation.data.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: validation.data.limit,
+    });
+
+    res.json(deliveries);
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// POST /api/webhooks/deliveries/:deliveryId/redeliver - Retry a delivery now
+router.post('/deliveries/:deliveryId/redeliver', async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = await prisma.webhookDelivery.findUnique({ where: { id: req.params.deliveryId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const delivery = await webhookService.redeliver(existing.id);
+    res.json(delivery);
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ error: 'Failed to redeliver webhook' });
+  }
+});
+
+export default router;
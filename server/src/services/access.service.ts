@@ -0,0 +1,336 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+export type TeamRole = 'OWNER' | 'ADMIN' | 'ASSESSOR' | 'AUDITOR' | 'VIEWER';
+export type ScopedRole = 'ADMIN' | 'ASSESSOR' | 'AUDITOR' | 'VIEWER';
+export type RoleScopeType = 'CAPABILITY_CENTRE' | 'FRAMEWORK' | 'PRODUCT';
+
+export const TEAM_ROLES: TeamRole[] = ['OWNER', 'ADMIN', 'ASSESSOR', 'AUDITOR', 'VIEWER'];
+export const SCOPED_ROLES: ScopedRole[] = ['ADMIN', 'ASSESSOR', 'AUDITOR', 'VIEWER'];
+export const ROLE_SCOPE_TYPES: RoleScopeType[] = ['CAPABILITY_CENTRE', 'FRAMEWORK', 'PRODUCT'];
+
+/**
+ * Actions that can be granted on a scope (capability centre, framework or product).
+ * Grants apply to everything beneath the scope in the hierarchy.
+ */
+export type Permission =
+  | 'view'              // Read assessments, evidence, analytics, comments
+  | 'assessment:edit'   // Create/update assessments, remediation tasks, control assignments
+  | 'assessment:review' // Approve or reject submitted assessments
+  | 'evidence:upload'   // Upload and describe evidence files
+  | 'evidence:delete'   // Delete evidence files
+  | 'baseline:change'   // Change CSF baselines and baseline templates
+  | 'report:generate'   // Generate reports and exports
+  | 'system:manage'     // Create, update and delete systems
+  | 'scope:manage'      // Edit/delete the scope itself (CC, framework, product, risk config)
+  | 'access:manage';    // Grant and revoke roles on the scope
+
+export const PERMISSIONS: Permission[] = [
+  'view',
+  'assessment:edit',
+  'assessment:review',
+  'evidence:upload',
+  'evidence:delete',
+  'baseline:change',
+  'report:generate',
+  'system:manage',
+  'scope:manage',
+  'access:manage',
+];
+
+/**
+ * Permissions granted by each role. Team roles and scoped roles share this
+ * matrix; the personal owner of a resource (userId) always has every permission.
+ */
+export const ROLE_PERMISSIONS: Record<TeamRole, Permission[]> = {
+  OWNER: PERMISSIONS,
+  ADMIN: PERMISSIONS,
+  ASSESSOR: ['view', 'assessment:edit', 'assessment:review', 'evidence:upload', 'report:generate'],
+  AUDITOR: ['view', 'assessment:review', 'report:generate'],
+  VIEWER: ['view'],
+};
+
+export interface AccessUser {
+  id: string;
+  memberships?: { teamId: string; role: string }[];
+  roleAssignments?: {
+    role: string;
+    capabilityCentreId: string | null;
+    frameworkId: string | null;
+    productId: string | null;
+  }[];
+}
+
+/**
+ * Load the memberships and role grants needed to check another user's access
+ */
+export async function loadAccessUser(userId: string): Promise<AccessUser | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      teamMemberships: { select: { teamId: true, role: true } },
+      roleAssignments: {
+        select: { role: true, capabilityCentreId: true, frameworkId: true, productId: true },
+      },
+    },
+  });
+  if (!user) return null;
+
+  const { teamMemberships, ...rest } = user;
+  return { ...rest, memberships: teamMemberships };
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function roleGrants(role: string, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[role as TeamRole] || []).includes(permission);
+}
+
+/**
+ * IDs of the teams in which the user holds a role granting the permission
+ */
+export function teamIdsFor(user: AccessUser, permission: Permission = 'view'): string[] {
+  return (user.memberships || [])
+    .filter((m) => roleGrants(m.role, permission))
+    .map((m) => m.teamId);
+}
+
+/**
+ * Check whether the user's role on a team grants the permission
+ */
+export function hasTeamPermission(
+  user: AccessUser,
+  teamId: string | null | undefined,
+  permission: Permission
+): boolean {
+  if (!teamId) return false;
+  return teamIdsFor(user, permission).includes(teamId);
+}
+
+/**
+ * IDs of each scope type on which the user has a role granting the permission
+ */
+function grantedScopeIds(user: AccessUser, permission: Permission) {
+  const grants = (user.roleAssignments || []).filter((a) => roleGrants(a.role, permission));
+  return {
+    capabilityCentreIds: grants.map((a) => a.capabilityCentreId).filter((id): id is string => !!id),
+    frameworkIds: grants.map((a) => a.frameworkId).filter((id): id is string => !!id),
+    productIds: grants.map((a) => a.productId).filter((id): id is string => !!id),
+  };
+}
+
+// ============================================================================
+// WHERE BUILDERS - Prisma filters for resources where a user holds a permission
+// ============================================================================
+
+export function capabilityCentreScope(
+  user: AccessUser,
+  permission: Permission = 'view'
+): Prisma.CapabilityCentreWhereInput {
+  const teamIds = teamIdsFor(user, permission);
+  const { capabilityCentreIds } = grantedScopeIds(user, permission);
+  const or: Prisma.CapabilityCentreWhereInput[] = [{ userId: user.id }];
+  if (teamIds.length > 0) or.push({ teamId: { in: teamIds } });
+  if (capabilityCentreIds.length > 0) or.push({ id: { in: capabilityCentreIds } });
+  return or.length === 1 ? or[0] : { OR: or };
+}
+
+export function frameworkScope(
+  user: AccessUser,
+  permission: Permission = 'view'
+): Prisma.FrameworkWhereInput {
+  const { frameworkIds } = grantedScopeIds(user, permission);
+  const ccScope = { capabilityCentre: capabilityCentreScope(user, permission) };
+  if (frameworkIds.length === 0) {
+    return ccScope;
+  }
+  return { OR: [ccScope, { id: { in: frameworkIds } }] };
+}
+
+export function productScope(
+  user: AccessUser,
+  permission: Permission = 'view'
+): Prisma.ProductWhereInput {
+  const { productIds } = grantedScopeIds(user, permission);
+  const or: Prisma.ProductWhereInput[] = [
+    { userId: user.id },
+    { framework: frameworkScope(user, permission) },
+  ];
+  if (productIds.length > 0) or.push({ id: { in: productIds } });
+  return { OR: or };
+}
+
+export function systemScope(
+  user: AccessUser,
+  permission: Permission = 'view'
+): Prisma.SystemWhereInput {
+  return { product: productScope(user, permission) };
+}
+
+export function assessmentScope(
+  user: AccessUser,
+  permission: Permission = 'view'
+): Prisma.ComplianceAssessmentWhereInput {
+  return { system: systemScope(user, permission) };
+}
+
+// ============================================================================
+// VERIFIERS - Resolve a single resource if the user holds the permission
+// ============================================================================
+
+export async function verifyCapabilityCentreAccess(
+  capabilityCentreId: string,
+  user: AccessUser,
+  permission: Permission = 'view'
+) {
+  return prisma.capabilityCentre.findFirst({
+    where: { id: capabilityCentreId, ...capabilityCentreScope(user, permission) },
+  });
+}
+
+export async function verifyFrameworkAccess(
+  frameworkId: string,
+  user: AccessUser,
+  permission: Permission = 'view'
+) {
+  return prisma.framework.findFirst({
+    where: { id: frameworkId, ...frameworkScope(user, permission) },
+  });
+}
+
+export async function verifyProductAccess(
+  productId: string,
+  user: AccessUser,
+  permission: Permission = 'view'
+) {
+  return prisma.product.findFirst({
+    where: { id: productId, ...productScope(user, permission) },
+  });
+}
+
+export async function verifySystemAccess(
+  systemId: string,
+  user: AccessUser,
+  permission: Permission = 'view'
+) {
+  return prisma.system.findFirst({
+    where: { id: systemId, ...systemScope(user, permission) },
+    include: { product: true },
+  });
+}
+
+export async function verifyAssessmentAccess(
+  assessmentId: string,
+  user: AccessUser,
+  permission: Permission = 'view'
+) {
+  return prisma.complianceAssessment.findFirst({
+    where: { id: assessmentId, ...assessmentScope(user, permission) },
+    include: { system: { include: { product: true } } },
+  });
+}
+
+export async function verifyScopeAccess(
+  scopeType: RoleScopeType,
+  scopeId: string,
+  user: AccessUser,
+  permission: Permission = 'view'
+) {
+  switch (scopeType) {
+    case 'CAPABILITY_CENTRE':
+      return verifyCapabilityCentreAccess(scopeId, user, permission);
+    case 'FRAMEWORK':
+      return verifyFrameworkAccess(scopeId, user, permission);
+    case 'PRODUCT':
+      return verifyProductAccess(scopeId, user, permission);
+  }
+}
+
+// ============================================================================
+// EFFECTIVE PERMISSIONS - For returning to the client alongside resources
+// ============================================================================
+
+/** Hierarchy fields needed to resolve a product's permissions without extra queries */
+export const productHierarchySelect = {
+  id: true,
+  userId: true,
+  frameworkId: true,
+  framework: {
+    select: {
+      capabilityCentreId: true,
+      capabilityCentre: { select: { userId: true, teamId: true } },
+    },
+  },
+} as const;
+
+export interface ProductHierarchy {
+  id: string;
+  userId: string;
+  frameworkId: string;
+  framework: {
+    capabilityCentreId: string;
+    capabilityCentre: { userId: string; teamId: string | null };
+  };
+}
+
+/**
+ * Compute every permission the user holds on a product, combining personal
+ * ownership, team membership and scoped role grants up the hierarchy.
+ */
+export function getProductPermissions(user: AccessUser, product: ProductHierarchy): Permission[] {
+  const cc = product.framework.capabilityCentre;
+  if (product.userId === user.id || cc.userId === user.id) {
+    return PERMISSIONS;
+  }
+
+  const roles = new Set<string>();
+  const membership = (user.memberships || []).find((m) => m.teamId === cc.teamId);
+  if (cc.teamId && membership) roles.add(membership.role);
+
+  for (const a of user.roleAssignments || []) {
+    if (
+      a.productId === product.id ||
+      a.frameworkId === product.frameworkId ||
+      a.capabilityCentreId === product.framework.capabilityCentreId
+    ) {
+      roles.add(a.role);
+    }
+  }
+
+  return PERMISSIONS.filter((p) => Array.from(roles).some((role) => roleGrants(role, p)));
+}
+
+/**
+ * Compute every permission the user holds on a capability centre
+ */
+export function getCapabilityCentrePermissions(
+  user: AccessUser,
+  capabilityCentre: { id: string; userId: string; teamId: string | null }
+): Permission[] {
+  if (capabilityCentre.userId === user.id) {
+    return PERMISSIONS;
+  }
+
+  const roles = new Set<string>();
+  const membership = (user.memberships || []).find((m) => m.teamId === capabilityCentre.teamId);
+  if (capabilityCentre.teamId && membership) roles.add(membership.role);
+
+  for (const a of user.roleAssignments || []) {
+    if (a.capabilityCentreId === capabilityCentre.id) roles.add(a.role);
+  }
+
+  return PERMISSIONS.filter((p) => Array.from(roles).some((role) => roleGrants(role, p)));
+}
+
+/**
+ * Load a product's hierarchy and compute the user's permissions on it
+ */
+export async function resolveProductPermissions(productId: string, user: AccessUser): Promise<Permission[]> {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: productHierarchySelect,
+  });
+  return product ? getProductPermissions(user, product) : [];
+}
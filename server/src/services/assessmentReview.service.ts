@@ -0,0 +1,299 @@
+/**
+ * Assessment Review Service
+ *
+ * Server-side review workflow for compliance assessments:
+ *
+ *   DRAFT ──submit──▶ SUBMITTED ──approve──▶ APPROVED ──reopen──▶ REOPENED
+ *                         │                                          │
+ *                         └──reject──▶ REJECTED ◀──── (resubmit) ────┘
+ *
+ * Separation of duties: the user who submitted an assessment can never
+ * approve or reject it, and an assigned reviewer must be someone else.
+ * Editing a submitted or approved assessment reopens it.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { AccessUser, Permission, loadAccessUser, resolveProductPermissions } from './access.service';
+
+export type ReviewStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'REOPENED';
+export type ReviewAction = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'REOPEN' | 'ASSIGN';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'REOPENED'];
+export const REVIEW_ACTIONS: ReviewAction[] = ['SUBMIT', 'APPROVE', 'REJECT', 'REOPEN', 'ASSIGN'];
+
+// Statuses in which the assessment content is locked to what was reviewed
+const LOCKED_STATUSES: ReviewStatus[] = ['SUBMITTED', 'APPROVED'];
+
+interface Transition {
+  from: ReviewStatus[];
+  to: ReviewStatus | null; // null keeps the current status
+  permissions: Permission[]; // any one of these is sufficient
+}
+
+const TRANSITIONS: Record<ReviewAction, Transition> = {
+  SUBMIT: { from: ['DRAFT', 'REJECTED', 'REOPENED'], to: 'SUBMITTED', permissions: ['assessment:edit'] },
+  APPROVE: { from: ['SUBMITTED'], to: 'APPROVED', permissions: ['assessment:review'] },
+  REJECT: { from: ['SUBMITTED'], to: 'REJECTED', permissions: ['assessment:review'] },
+  REOPEN: { from: ['APPROVED'], to: 'REOPENED', permissions: ['assessment:edit', 'assessment:review'] },
+  ASSIGN: { from: ['DRAFT', 'SUBMITTED', 'REJECTED', 'REOPENED'], to: null, permissions: ['assessment:edit'] },
+};
+
+export class ReviewError extends Error {
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+interface ReviewableAssessment {
+  reviewStatus: string;
+  submittedById: string | null;
+  lastEditedById: string | null;
+  reviewerId: string | null;
+}
+
+const userSelect = { select: { id: true, name: true, email: true } } as const;
+
+/**
+ * Check whether a user may perform a review action; returns the reason if not
+ */
+function checkAction(
+  assessment: ReviewableAssessment,
+  action: ReviewAction,
+  userId: string,
+  permissions: Permission[]
+): ReviewError | null {
+  const transition = TRANSITIONS[action];
+
+  if (!transition.permissions.some((p) => permissions.includes(p))) {
+    return new ReviewError('You do not have permission to perform this review action', 403);
+  }
+  if (!transition.from.includes(assessment.reviewStatus as ReviewStatus)) {
+    return new ReviewError(`Cannot ${action.toLowerCase()} an assessment in ${assessment.reviewStatus} state`);
+  }
+
+  if (action === 'APPROVE' || action === 'REJECT') {
+    if (assessment.submittedById === userId) {
+      return new ReviewError('The assessor who submitted an assessment cannot review it', 403);
+    }
+    if (assessment.lastEditedById === userId) {
+      return new ReviewError('The last person to edit an assessment cannot review it', 403);
+    }
+    if (assessment.reviewerId && assessment.reviewerId !== userId) {
+      return new ReviewError('This assessment is assigned to a different reviewer', 403);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Review actions available to a user on an assessment
+ */
+export function getAllowedActions(
+  assessment: ReviewableAssessment,
+  userId: string,
+  permissions: Permission[]
+): ReviewAction[] {
+  return REVIEW_ACTIONS.filter((action) => !checkAction(assessment, action, userId, permissions));
+}
+
+/**
+ * Verify a user can be assigned as reviewer for an assessment on a product
+ */
+async function verifyReviewer(
+  reviewerId: string,
+  productId: string,
+  submitterId: string | null,
+  editorId: string | null
+) {
+  if (reviewerId === submitterId) {
+    throw new ReviewError('The reviewer cannot be the assessor who submitted the assessment', 400);
+  }
+  if (reviewerId === editorId) {
+    throw new ReviewError('The reviewer cannot be the last person to edit the assessment', 400);
+  }
+
+  const reviewer = await loadAccessUser(reviewerId);
+  if (!reviewer) {
+    throw new ReviewError('Reviewer not found', 404);
+  }
+
+  const permissions = await resolveProductPermissions(productId, reviewer);
+  if (!permissions.includes('assessment:review')) {
+    throw new ReviewError('The selected reviewer cannot review assessments on this product', 400);
+  }
+}
+
+/**
+ * Load an assessment's review state, history and the actions open to the user
+ */
+export async function getAssessmentReview(assessmentId: string, user: AccessUser) {
+  const assessment = await prisma.complianceAssessment.findUnique({
+    where: { id: assessmentId },
+    select: {
+      id: true,
+      subcategoryId: true,
+      reviewStatus: true,
+      submittedAt: true,
+      reviewedAt: true,
+      reviewNote: true,
+      submittedById: true,
+      lastEditedById: true,
+      reviewerId: true,
+      submittedBy: userSelect,
+      reviewer: userSelect,
+      reviewedBy: userSelect,
+      system: { select: { id: true, name: true, productId: true } },
+      reviews: {
+        include: { actor: userSelect },
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  });
+
+  if (!assessment) {
+    throw new ReviewError('Assessment not found', 404);
+  }
+
+  const permissions = await resolveProductPermissions(assessment.system.productId, user);
+  const { reviews, ...rest } = assessment;
+
+  return {
+    ...rest,
+    history: reviews,
+    allowedActions: getAllowedActions(assessment, user.id, permissions),
+  };
+}
+
+/**
+ * Apply a review action, recording the transition in the review history.
+ * Returns the previous and new status for audit logging.
+ */
+export async function applyReviewAction(
+  assessmentId: string,
+  user: AccessUser,
+  action: ReviewAction,
+  options: { reviewerId?: string | null; note?: string } = {}
+) {
+  const assessment = await prisma.complianceAssessment.findUnique({
+    where: { id: assessmentId },
+    select: {
+      reviewStatus: true,
+      submittedById: true,
+      lastEditedById: true,
+      reviewerId: true,
+      system: { select: { productId: true } },
+    },
+  });
+
+  if (!assessment) {
+    throw new ReviewError('Assessment not found', 404);
+  }
+
+  const permissions = await resolveProductPermissions(assessment.system.productId, user);
+  const error = checkAction(assessment, action, user.id, permissions);
+  if (error) {
+    throw error;
+  }
+
+  const fromStatus = assessment.reviewStatus as ReviewStatus;
+  const toStatus = TRANSITIONS[action].to || fromStatus;
+  const reviewerId = options.reviewerId !== undefined ? options.reviewerId : assessment.reviewerId;
+  const now = new Date();
+  const data: Prisma.ComplianceAssessmentUncheckedUpdateInput = { reviewStatus: toStatus, reviewerId };
+
+  switch (action) {
+    case 'SUBMIT':
+      // The submitter becomes the assessor and can't also be the reviewer
+      if (reviewerId) {
+        await verifyReviewer(reviewerId, assessment.system.productId, user.id, assessment.lastEditedById);
+      }
+      Object.assign(data, {
+        submittedById: user.id,
+        submittedAt: now,
+        reviewedById: null,
+        reviewedAt: null,
+        reviewNote: options.note ?? null,
+      });
+      break;
+    case 'APPROVE':
+    case 'REJECT':
+      Object.assign(data, {
+        reviewedById: user.id,
+        reviewedAt: now,
+        reviewNote: options.note ?? null,
+      });
+      break;
+    case 'REOPEN':
+      data.reviewNote = options.note ?? null;
+      break;
+    case 'ASSIGN':
+      if (reviewerId) {
+        await verifyReviewer(
+          reviewerId,
+          assessment.system.productId,
+          assessment.submittedById,
+          assessment.lastEditedById
+        );
+      }
+      break;
+  }
+
+  await prisma.$transaction([
+    prisma.complianceAssessment.update({
+      where: { id: assessmentId },
+      data,
+    }),
+    prisma.assessmentReview.create({
+      data: {
+        assessmentId,
+        action,
+        fromStatus,
+        toStatus,
+        note: options.note,
+        actorId: user.id,
+      },
+    }),
+  ]);
+
+  return { fromStatus, toStatus, reviewerId };
+}
+
+/**
+ * Editing a submitted or approved assessment invalidates its review, so it is
+ * reopened and must be resubmitted. Returns the reopened assessment's review
+ * status and version (reopening bumps it again), or null if it was not reopened.
+ * Pass `tx` to reopen as part of the caller's transaction.
+ */
+export async function reopenOnEdit(
+  assessment: { id: string; reviewStatus: string },
+  actorId: string,
+  tx?: Prisma.TransactionClient
+): Promise<{ reviewStatus: string; version: number } | null> {
+  if (!LOCKED_STATUSES.includes(assessment.reviewStatus as ReviewStatus)) {
+    return null;
+  }
+
+  const reopen = async (client: Prisma.TransactionClient) => {
+    const reopened = await client.complianceAssessment.update({
+      where: { id: assessment.id },
+      data: { reviewStatus: 'REOPENED' },
+      select: { reviewStatus: true, version: true },
+    });
+    await client.assessmentReview.create({
+      data: {
+        assessmentId: assessment.id,
+        action: 'REOPEN',
+        fromStatus: assessment.reviewStatus,
+        toStatus: 'REOPENED',
+        note: 'Reopened automatically after the assessment was edited',
+        actorId,
+      },
+    });
+    return reopened;
+  };
+
+  return tx ? reopen(tx) : prisma.$transaction(reopen);
+}
@@ -0,0 +1,318 @@
+/**
+ * Audit Capture Service
+ *
+ * Records every create, update and delete made while handling an API request,
+ * so no route can forget to audit:
+ * - A Prisma middleware sees each write, reads the affected records before
+ *   and after it, and queues an entry with the previous and new values and
+ *   the changed fields (see captureWrites for writes inside transactions)
+ * - Queued entries are written once the response has gone out successfully,
+ *   so writes rolled back by a failed request are not recorded
+ * - Entities the handler audited itself (logAuditFromRequest) are skipped, as
+ *   those entries carry more context
+ * - Writes outside a request (background jobs) are not captured; jobs audit
+ *   as the system user where it matters
+ * - Derived fields (cached scores) are not user changes; writes touching only
+ *   those are not captured
+ * - Secrets are redacted and long text is shortened before it is stored
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import {
+  AuditEntityType,
+  AuditLogInput,
+  RequestAuditState,
+  createAuditLog,
+  getAuditContext,
+  getChangedFields,
+  requestAuditStorage,
+} from './auditService';
+
+// Audit entity type per model; null for history, link and generated records
+const ENTITY_TYPES: Record<Prisma.ModelName, AuditEntityType | null> = {
+  User: 'User',
+  Team: 'Team',
+  TeamMembership: 'TeamMembership',
+  RoleAssignment: 'RoleAssignment',
+  CapabilityCentre: 'CapabilityCentre',
+  Framework: 'Framework',
+  Product: 'Product',
+  System: 'System',
+  CSFBaseline: 'Baseline',
+  OrganizationTier: 'OrganizationTier',
+  CSFProfile: 'CSFProfile',
+  CSFProfileEntry: 'CSFProfileEntry',
+  FrameworkBaselineTemplate: 'BaselineTemplate',
+  ComplianceAssessment: 'Assessment',
+  AssessmentReview: 'AssessmentReview',
+  ControlCatalog: 'ControlCatalog',
+  CSFControl: null,
+  NIST80053Mapping: null,
+  Evidence: 'Evidence',
+  AuditLog: null,
+  AuditCheckpoint: null,
+  RemediationTask: 'RemediationTask',
+  TaskUpdate: 'TaskUpdate',
+  TrackerConnection: 'TrackerConnection',
+  PoamItem: 'PoamItem',
+  PoamMilestone: 'PoamMilestone',
+  PoamStatusChange: null,
+  RiskException: 'RiskException',
+  Risk: 'Risk',
+  RiskSystem: null,
+  RiskControl: null,
+  LossEstimate: 'LossEstimate',
+  Comment: 'Comment',
+  ControlAssignment: 'ControlAssignment',
+  AssessmentTemplate: 'AssessmentTemplate',
+  SavedReport: 'SavedReport',
+  ReportRun: null,
+  RiskConfig: 'RiskConfig',
+  ComplianceSnapshot: null,
+  Notification: null,
+  NotificationPreference: 'NotificationPreference',
+  EmailDigestSubscription: 'EmailDigestSubscription',
+  Webhook: 'Webhook',
+  WebhookDelivery: null,
+  IdempotencyKey: null,
+};
+
+// Records audited under their parent entity, as the routes audit them
+const ENTITY_ID_FIELDS: Partial<Record<Prisma.ModelName, string>> = {
+  CSFBaseline: 'productId',
+};
+
+// Fields maintained by the compliance calculation rather than written by users
+const DERIVED_FIELD = /^cached[A-Z]|^scoreLastComputedAt$/;
+const IGNORED_WRITE_FIELDS = ['updatedAt', 'version'];
+
+const WRITE_ACTIONS = ['create', 'createMany', 'update', 'updateMany', 'upsert', 'delete', 'deleteMany'];
+
+// Bulk writes touching more records are recorded as one summary entry
+const MAX_BULK_RECORDS = 200;
+
+const REDACTED_FIELDS = /password|secret|token/i;
+const MAX_TEXT_LENGTH = 1000;
+
+// Fields tried in order for a readable entity name
+const NAME_FIELDS = ['name', 'title', 'riskId', 'poamId', 'originalName', 'subcategoryId', 'email'];
+
+type AuditRecord = Record<string, unknown>;
+
+// Helper: scalar fields of a record, with secrets redacted and long text cut
+function snapshot(record: AuditRecord): AuditRecord {
+  const values: AuditRecord = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (Array.isArray(value) || (value !== null && typeof value === 'object' && !(value instanceof Date))) continue;
+    if (REDACTED_FIELDS.test(key) && value !== null) {
+      values[key] = '[redacted]';
+    } else if (typeof value === 'string' && value.length > MAX_TEXT_LENGTH) {
+      values[key] = `${value.slice(0, MAX_TEXT_LENGTH)}…`;
+    } else {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+function entityName(record: AuditRecord): string | undefined {
+  const field = NAME_FIELDS.find((f) => typeof record[f] === 'string' && record[f]);
+  return field ? (record[field] as string) : undefined;
+}
+
+// Helper: the model's delegate on the shared client (CSFBaseline -> prisma.cSFBaseline)
+function delegate(model: Prisma.ModelName) {
+  const name = model.charAt(0).toLowerCase() + model.slice(1);
+  return (prisma as unknown as Record<string, { findUnique: Function; findMany: Function }>)[name];
+}
+
+// Helper: the id an entry is recorded under
+function entityId(model: Prisma.ModelName, record: AuditRecord): string {
+  return record[ENTITY_ID_FIELDS[model] ?? 'id'] as string;
+}
+
+// Helper: whether a write's data touches only derived fields
+function onlyDerived(data: AuditRecord | undefined): boolean {
+  const fields = Object.keys(data ?? {}).filter((field) => !IGNORED_WRITE_FIELDS.includes(field));
+  return fields.length > 0 && fields.every((field) => DERIVED_FIELD.test(field));
+}
+
+function entry(
+  model: Prisma.ModelName,
+  entityType: AuditEntityType,
+  action: 'CREATE' | 'UPDATE' | 'DELETE',
+  before: AuditRecord | null,
+  after: AuditRecord | null
+): AuditLogInput | null {
+  const previous = before && snapshot(before);
+  const current = after && snapshot(after);
+  const record = (current || previous)!;
+
+  if (action === 'UPDATE') {
+    // Compared before redaction, so a changed secret still shows as changed
+    const changedFields = getChangedFields(before!, after!).filter((field) => !DERIVED_FIELD.test(field));
+    if (changedFields.length === 0) return null;
+    return {
+      action,
+      entityType,
+      entityId: entityId(model, record),
+      entityName: entityName(record),
+      previousValue: Object.fromEntries(changedFields.map((field) => [field, previous![field]])),
+      newValue: Object.fromEntries(changedFields.map((field) => [field, current![field]])),
+      changedFields,
+      details: { captured: true },
+    };
+  }
+
+  return {
+    action,
+    entityType,
+    entityId: entityId(model, record),
+    entityName: entityName(record),
+    previousValue: previous || undefined,
+    newValue: current || undefined,
+    details: { captured: true },
+  };
+}
+
+// Helper: update entry from the written fields alone, when the previous state can't be read
+function writtenFields(
+  model: Prisma.ModelName,
+  entityType: AuditEntityType,
+  result: AuditRecord,
+  data: AuditRecord = {}
+): AuditLogInput | null {
+  const current = snapshot(result);
+  const changedFields = Object.keys(data).filter(
+    (field) => field in current && !IGNORED_WRITE_FIELDS.includes(field) && !DERIVED_FIELD.test(field)
+  );
+  if (changedFields.length === 0) return null;
+  return {
+    action: 'UPDATE',
+    entityType,
+    entityId: entityId(model, current),
+    entityName: entityName(current),
+    newValue: Object.fromEntries(changedFields.map((field) => [field, current[field]])),
+    changedFields,
+    details: { captured: true },
+  };
+}
+
+// Prisma middleware: queue an audit entry for each write made during a request.
+// Inside a transaction the shared client cannot read the transaction's state, so
+// updates there record the written fields without their previous values.
+const captureWrites: Prisma.Middleware = async (params, next) => {
+  const state = requestAuditStorage.getStore();
+  const entityType = params.model ? ENTITY_TYPES[params.model] : null;
+  if (!state || !entityType || !WRITE_ACTIONS.includes(params.action)) {
+    return next(params);
+  }
+  if ((params.action === 'update' || params.action === 'updateMany') && onlyDerived(params.args?.data)) {
+    return next(params);
+  }
+
+  const modelName = params.model!;
+  const model = delegate(modelName);
+  const canRead = !params.runInTransaction;
+  const queue = (e: AuditLogInput | null) => e && state.captured.push(e);
+
+  switch (params.action) {
+    case 'create': {
+      const result = await next(params);
+      queue(entry(modelName, entityType, 'CREATE', null, result));
+      return result;
+    }
+
+    case 'delete': {
+      const result = await next(params);
+      queue(entry(modelName, entityType, 'DELETE', result, null));
+      return result;
+    }
+
+    case 'update':
+    case 'upsert': {
+      const before: AuditRecord | null = canRead ? await model.findUnique({ where: params.args.where }) : null;
+      const result = await next(params);
+      if (before) {
+        queue(entry(modelName, entityType, 'UPDATE', before, await model.findUnique({ where: { id: before.id } })));
+      } else if (params.action === 'upsert' && canRead) {
+        queue(entry(modelName, entityType, 'CREATE', null, result));
+      } else {
+        queue(writtenFields(modelName, entityType, result, params.action === 'upsert' ? params.args.update : params.args.data));
+      }
+      return result;
+    }
+
+    case 'updateMany':
+    case 'deleteMany': {
+      const action = params.action === 'updateMany' ? 'UPDATE' : 'DELETE';
+      const before: AuditRecord[] = canRead
+        ? await model.findMany({ where: params.args?.where, take: MAX_BULK_RECORDS + 1 })
+        : [];
+      const result = await next(params);
+
+      if (!canRead || before.length > MAX_BULK_RECORDS) {
+        queue({ action, entityType, details: { captured: true, bulk: true, count: result.count } });
+      } else if (action === 'DELETE') {
+        before.forEach((record) => queue(entry(modelName, entityType, 'DELETE', record, null)));
+      } else {
+        const after: AuditRecord[] = await model.findMany({ where: { id: { in: before.map((r) => r.id) } } });
+        const afterById = new Map(after.map((r) => [r.id, r]));
+        before.forEach((record) => {
+          const updated = afterById.get(record.id);
+          if (updated) queue(entry(modelName, entityType, 'UPDATE', record, updated));
+        });
+      }
+      return result;
+    }
+
+    case 'createMany': {
+      // SQLite createMany returns only a count, so the batch is one entry
+      const result = await next(params);
+      const data = Array.isArray(params.args.data) ? params.args.data : [params.args.data];
+      queue({
+        action: 'CREATE',
+        entityType,
+        details: { captured: true, bulk: true, count: result.count, records: data.slice(0, 20).map(snapshot) },
+      });
+      return result;
+    }
+  }
+
+  return next(params);
+};
+
+// Write a request's queued entries, skipping entities the handler audited itself
+async function flush(state: RequestAuditState) {
+  const context = getAuditContext(state.req);
+  if (!context) return;
+
+  for (const input of state.captured) {
+    if (input.entityId && state.audited.has(input.entityId)) continue;
+    await createAuditLog(context, input);
+  }
+}
+
+/**
+ * Install the capture middleware on the shared Prisma client
+ */
+export function registerAuditCapture() {
+  prisma.$use(captureWrites);
+}
+
+/**
+ * Express middleware: capture the request's writes and record them once a
+ * successful response has been sent
+ */
+export function auditCaptureMiddleware(req: Request, res: Response, next: NextFunction) {
+  const state: RequestAuditState = { req, captured: [], audited: new Set() };
+
+  res.on('finish', () => {
+    if (res.statusCode >= 400 || state.captured.length === 0) return;
+    flush(state).catch((error) => console.error('Failed to record captured audit entries:', error));
+  });
+
+  requestAuditStorage.run(state, () => next());
+}
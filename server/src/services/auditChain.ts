@@ -0,0 +1,87 @@
+/**
+ * Audit Chain
+ *
+ * Hashing and signing rules for the tamper-evident audit log, kept free of
+ * database and app imports so the offline verifier
+ * (scripts/verify-audit-package.ts) checks packages with exactly the same code:
+ * - Each entry's hash is SHA-256 over the previous entry's hash and the
+ *   entry's fields in a fixed order, so editing, inserting or deleting a row
+ *   breaks every later link
+ * - Checkpoints and export manifests are signed with Ed25519; the signatures
+ *   cannot be recomputed without the private key, so rewriting the whole chain
+ *   is caught too
+ */
+
+import { createHash, createPublicKey, sign, verify, KeyObject } from 'crypto';
+
+export const GENESIS_HASH = '0'.repeat(64);
+export const SIGNATURE_ALGORITHM = 'Ed25519';
+
+// Hashed fields, in hashing order
+export const CHAINED_FIELDS = [
+  'id',
+  'sequence',
+  'userId',
+  'userName',
+  'userEmail',
+  'action',
+  'entityType',
+  'entityId',
+  'entityName',
+  'previousValue',
+  'newValue',
+  'changedFields',
+  'details',
+  'ipAddress',
+  'userAgent',
+  'sessionId',
+  'timestamp',
+] as const;
+
+export type ChainedAuditEntry = {
+  [K in (typeof CHAINED_FIELDS)[number]]: K extends 'sequence' ? number : K extends 'timestamp' ? Date | string : string | null;
+};
+
+export function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash of an entry chained to the previous entry's hash
+ */
+export function hashAuditEntry(entry: ChainedAuditEntry, prevHash: string): string {
+  const fields = CHAINED_FIELDS.map((field) => {
+    const value = entry[field];
+    return value instanceof Date ? value.toISOString() : value ?? null;
+  });
+  return sha256(`${prevHash}\n${JSON.stringify(fields)}`);
+}
+
+/**
+ * What a checkpoint signs: the chain position and hash at a point in time
+ */
+export function checkpointPayload(checkpoint: { sequence: number; hash: string; createdAt: Date | string }): string {
+  const createdAt = checkpoint.createdAt instanceof Date ? checkpoint.createdAt.toISOString() : checkpoint.createdAt;
+  return `posture-audit-checkpoint\n${checkpoint.sequence}\n${checkpoint.hash}\n${createdAt}`;
+}
+
+/**
+ * Short fingerprint of a public key (SHA-256 of its SPKI encoding)
+ */
+export function keyFingerprint(publicKey: KeyObject | string): string {
+  const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  return sha256(key.export({ type: 'spki', format: 'der' })).slice(0, 16);
+}
+
+export function signPayload(payload: string | Buffer, privateKey: KeyObject): string {
+  return sign(null, Buffer.from(payload), privateKey).toString('base64');
+}
+
+export function verifyPayload(payload: string | Buffer, signature: string, publicKey: KeyObject | string): boolean {
+  try {
+    const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+    return verify(null, Buffer.from(payload), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Audit Integrity Service
+ *
+ * Makes the audit log tamper-evident (hashing rules in auditChain.ts):
+ * - Entries are appended one at a time, each chained to the previous entry's
+ *   hash with the next sequence number
+ * - Checkpoints sign the chain head periodically (AUDIT_CHECKPOINT_MINUTES)
+ *   and before every export
+ * - Verification walks the chain and reports missing sequences, broken links,
+ *   modified entries, and checkpoints that no longer match or don't verify
+ * - Exports are zip packages: the entries as JSONL, their checkpoints, and a
+ *   manifest signed with the same key, checkable offline with
+ *   scripts/verify-audit-package.ts
+ *
+ * Entries written before chaining have no sequence and are reported as legacy.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, randomUUID, KeyObject } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { config } from '../config';
+import { zip } from './documentRenderer';
+import {
+  CHAINED_FIELDS,
+  GENESIS_HASH,
+  SIGNATURE_ALGORITHM,
+  checkpointPayload,
+  hashAuditEntry,
+  keyFingerprint,
+  sha256,
+  signPayload,
+  verifyPayload,
+} from './auditChain';
+
+export type AuditLogData = Omit<Prisma.AuditLogUncheckedCreateInput, 'id' | 'sequence' | 'prevHash' | 'hash' | 'timestamp'>;
+
+export type AuditIssueType = 'GAP' | 'BROKEN_LINK' | 'MODIFIED' | 'CHECKPOINT_MISMATCH' | 'CHECKPOINT_SIGNATURE' | 'TRUNCATED';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  sequence: number;
+  message: string;
+}
+
+const BATCH_SIZE = 1000;
+const MAX_REPORTED_ISSUES = 100;
+const APPEND_ATTEMPTS = 3;
+
+// PKCS#8 DER prefix of an Ed25519 private key; the 32-byte seed follows
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+const PACKAGE_FORMAT = 'posture-audit-package';
+
+type ChainedRow = Prisma.AuditLogGetPayload<object> & { sequence: number; prevHash: string; hash: string };
+
+// Helper: an entry as exported and hashed, with the timestamp as ISO text
+function exportedEntry(row: ChainedRow) {
+  const entry: Record<string, unknown> = {};
+  for (const field of CHAINED_FIELDS) {
+    entry[field] = field === 'timestamp' ? row.timestamp.toISOString() : row[field];
+  }
+  return { ...entry, prevHash: row.prevHash, hash: row.hash };
+}
+
+class AuditIntegrityService {
+  private appendQueue: Promise<unknown> = Promise.resolve();
+  private signingKey: { privateKey: KeyObject; publicKey: KeyObject; keyId: string } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.checkpoint().catch((error) => console.error('[Audit] Checkpoint failed:', error));
+    }, config.auditCheckpointMinutes * 60 * 1000);
+    this.timer.unref();
+
+    await this.checkpoint();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Append an entry to the chain. Appends run one at a time in this process;
+   * the unique sequence makes a concurrent writer retry instead of forking.
+   */
+  async append(data: AuditLogData) {
+    const run = this.appendQueue.then(() => this.write(data));
+    this.appendQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(data: AuditLogData, attempt = 1): Promise<unknown> {
+    const head = await this.head();
+    const entry = {
+      id: randomUUID(),
+      sequence: (head?.sequence ?? 0) + 1,
+      userId: data.userId,
+      userName: data.userName,
+      userEmail: data.userEmail,
+      action: data.action,
+      entityType: data.entityType,
+      entityId: data.entityId ?? null,
+      entityName: data.entityName ?? null,
+      previousValue: data.previousValue ?? null,
+      newValue: data.newValue ?? null,
+      changedFields: data.changedFields ?? null,
+      details: data.details ?? null,
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent ?? null,
+      sessionId: data.sessionId ?? null,
+      timestamp: new Date(),
+    };
+    const prevHash = head?.hash ?? GENESIS_HASH;
+
+    try {
+      return await prisma.auditLog.create({ data: { ...entry, prevHash, hash: hashAuditEntry(entry, prevHash) } });
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (conflict && attempt < APPEND_ATTEMPTS) return this.write(data, attempt + 1);
+      throw error;
+    }
+  }
+
+  private async head() {
+    return prisma.auditLog.findFirst({
+      where: { sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    }) as Promise<{ sequence: number; hash: string } | null>;
+  }
+
+  /**
+   * Public half of the signing key, for auditors to pin
+   */
+  publicKey() {
+    const { publicKey, keyId } = this.keys();
+    return {
+      algorithm: SIGNATURE_ALGORITHM,
+      keyId,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    };
+  }
+
+  /**
+   * Sign the current chain head, unless the latest checkpoint already covers it
+   */
+  async checkpoint() {
+    const head = await this.head();
+    if (!head) return null;
+
+    const latest = await prisma.auditCheckpoint.findFirst({ orderBy: { sequence: 'desc' } });
+    if (latest && latest.sequence >= head.sequence) return latest;
+
+    const { privateKey, keyId } = this.keys();
+    const createdAt = new Date();
+    return prisma.auditCheckpoint.create({
+      data: {
+        sequence: head.sequence,
+        hash: head.hash,
+        createdAt,
+        keyId,
+        signature: signPayload(checkpointPayload({ ...head, createdAt }), privateKey),
+      },
+    });
+  }
+
+  /**
+   * Walk the whole chain and check every link, hash and checkpoint
+   */
+  async verify() {
+    const issues: AuditIssue[] = [];
+    let issueCount = 0;
+    const report = (issue: AuditIssue) => {
+      issueCount++;
+      if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue);
+    };
+
+    const checkpoints = await prisma.auditCheckpoint.findMany({ orderBy: { sequence: 'asc' } });
+    const checkpointHashes = new Map(checkpoints.map((c) => [c.sequence, null as string | null]));
+
+    let expected = 1;
+    let prevHash = GENESIS_HASH;
+    let entriesChecked = 0;
+    let cursor = 0;
+
+    for (;;) {
+      const batch = (await prisma.auditLog.findMany({
+        where: { sequence: { gt: cursor } },
+        orderBy: { sequence: 'asc' },
+        take: BATCH_SIZE,
+      })) as ChainedRow[];
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        if (row.sequence !== expected) {
+          report({
+            type: 'GAP',
+            sequence: expected,
+            message: `Entries ${expected}–${row.sequence - 1} are missing`,
+          });
+        } else if (row.prevHash !== prevHash) {
+          report({ type: 'BROKEN_LINK', sequence: row.sequence, message: 'Does not link to the previous entry' });
+        }
+
+        if (hashAuditEntry(row, row.prevHash) !== row.hash) {
+          report({ type: 'MODIFIED', sequence: row.sequence, message: 'Contents no longer match the entry hash' });
+        }
+
+        if (checkpointHashes.has(row.sequence)) checkpointHashes.set(row.sequence, row.hash);
+        prevHash = row.hash;
+        expected = row.sequence + 1;
+        entriesChecked++;
+      }
+      cursor = batch[batch.length - 1].sequence;
+    }
+
+    const lastSequence = expected - 1;
+    const { publicKey, keyId } = this.keys();
+    for (const checkpoint of checkpoints) {
+      if (!verifyPayload(checkpointPayload(checkpoint), checkpoint.signature, publicKey)) {
+        report({
+          type: 'CHECKPOINT_SIGNATURE',
+          sequence: checkpoint.sequence,
+          message:
+            checkpoint.keyId === keyId
+              ? 'Checkpoint signature does not verify'
+              : `Checkpoint was signed with another key (${checkpoint.keyId})`,
+        });
+      }
+      if (checkpoint.sequence > lastSequence) {
+        report({
+          type: 'TRUNCATED',
+          sequence: checkpoint.sequence,
+          message: `A checkpoint covers entry ${checkpoint.sequence} but the chain ends at ${lastSequence}`,
+        });
+      } else if (checkpointHashes.get(checkpoint.sequence) !== checkpoint.hash) {
+        report({
+          type: 'CHECKPOINT_MISMATCH',
+          sequence: checkpoint.sequence,
+          message: 'Entry no longer matches the signed checkpoint',
+        });
+      }
+    }
+
+    const latest = checkpoints[checkpoints.length - 1];
+    return {
+      valid: issueCount === 0,
+      verifiedAt: new Date().toISOString(),
+      entriesChecked,
+      lastSequence,
+      headHash: entriesChecked ? prevHash : null,
+      legacyEntries: await prisma.auditLog.count({ where: { sequence: null } }),
+      checkpointsChecked: checkpoints.length,
+      lastCheckpoint: latest ? { sequence: latest.sequence, createdAt: latest.createdAt } : null,
+      keyId,
+      issueCount,
+      issues,
+    };
+  }
+
+  /**
+   * Signed audit package for a date range, as a zip
+   */
+  async exportPackage(
+    range: { startDate?: Date; endDate?: Date },
+    actor: { id: string; name: string; email: string }
+  ) {
+    await this.checkpoint();
+
+    const where: Prisma.AuditLogWhereInput = {
+      sequence: { not: null },
+      ...((range.startDate || range.endDate) && { timestamp: { gte: range.startDate, lte: range.endDate } }),
+    };
+
+    const lines: string[] = [];
+    let first: ChainedRow | null = null;
+    let last: ChainedRow | null = null;
+    let cursor = 0;
+    for (;;) {
+      const batch = (await prisma.auditLog.findMany({
+        where: { AND: [where, { sequence: { gt: cursor } }] },
+        orderBy: { sequence: 'asc' },
+        take: BATCH_SIZE,
+      })) as ChainedRow[];
+      if (batch.length === 0) break;
+
+      first = first ?? batch[0];
+      last = batch[batch.length - 1];
+      batch.forEach((row) => lines.push(JSON.stringify(exportedEntry(row))));
+      cursor = last.sequence;
+    }
+
+    const checkpoints = first
+      ? await prisma.auditCheckpoint.findMany({
+          where: { sequence: { gte: first.sequence, lte: last!.sequence } },
+          orderBy: { sequence: 'asc' },
+        })
+      : [];
+
+    const files = [
+      { name: 'audit-log.jsonl', data: lines.length ? `${lines.join('\n')}\n` : '' },
+      {
+        name: 'checkpoints.jsonl',
+        data: checkpoints
+          .map((c) =>
+            JSON.stringify({
+              sequence: c.sequence,
+              hash: c.hash,
+              createdAt: c.createdAt.toISOString(),
+              keyId: c.keyId,
+              signature: c.signature,
+            })
+          )
+          .map((line) => `${line}\n`)
+          .join(''),
+      },
+    ];
+
+    const signing = this.publicKey();
+    const manifest = JSON.stringify(
+      {
+        format: PACKAGE_FORMAT,
+        version: 1,
+        generatedAt: new Date().toISOString(),
+        generatedBy: actor,
+        range: {
+          startDate: range.startDate?.toISOString() ?? null,
+          endDate: range.endDate?.toISOString() ?? null,
+          firstSequence: first?.sequence ?? null,
+          lastSequence: last?.sequence ?? null,
+        },
+        entryCount: lines.length,
+        chain: { prevHash: first?.prevHash ?? null, headHash: last?.hash ?? null },
+        checkpointCount: checkpoints.length,
+        files: files.map((f) => ({ name: f.name, sha256: sha256(f.data), bytes: Buffer.byteLength(f.data) })),
+        signing,
+      },
+      null,
+      2
+    );
+
+    const signature = signPayload(manifest, this.keys().privateKey);
+    return {
+      entryCount: lines.length,
+      buffer: zip([...files, { name: 'manifest.json', data: manifest }, { name: 'manifest.sig', data: `${signature}\n` }]),
+    };
+  }
+
+  // Signing key from AUDIT_SIGNING_KEY, or derived from the JWT secret
+  private keys() {
+    if (this.signingKey) return this.signingKey;
+
+    let privateKey: KeyObject;
+    if (config.auditSigningKey) {
+      privateKey = createPrivateKey(config.auditSigningKey);
+    } else {
+      console.warn('[Audit] AUDIT_SIGNING_KEY is not set; signing with a key derived from JWT_SECRET');
+      const seed = createHash('sha256').update(`posture-audit-signing:${config.jwtSecret}`).digest();
+      privateKey = createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+        format: 'der',
+        type: 'pkcs8',
+      });
+    }
+
+    const publicKey = createPublicKey(privateKey);
+    this.signingKey = { privateKey, publicKey, keyId: keyFingerprint(publicKey) };
+    return this.signingKey;
+  }
+}
+
+export const auditIntegrityService = new AuditIntegrityService();
+export default auditIntegrityService;
@@ -1,10 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { prisma } from '../prisma';
 import { Request } from 'express';
+import { webhookService } from './webhook.service';
+import { auditIntegrityService } from './auditIntegrity.service';
 
 
 
-export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'EXPORT' | 'LOGIN' | 'LOGOUT';
-export type AuditEntityType = 'Product' | 'System' | 'Assessment' | 'Framework' | 'Evidence' | 'Baseline' | 'User';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'EXPORT' | 'LOGIN' | 'LOGIN_FAILED' | 'LOGOUT' | 'REVIEW';
+
+// Entity types written by route handlers and by automatic change capture (see auditCapture.service.ts)
+export const AUDIT_ENTITY_TYPES = [
+  'Product', 'System', 'Assessment', 'Framework', 'Evidence', 'Baseline', 'User', 'PoamItem', 'RiskException',
+  'Risk', 'LossEstimate', 'Team', 'TeamMembership', 'RoleAssignment', 'CapabilityCentre', 'OrganizationTier',
+  'CSFProfile', 'CSFProfileEntry', 'BaselineTemplate', 'AssessmentReview', 'ControlCatalog', 'RemediationTask',
+  'TaskUpdate', 'TrackerConnection', 'PoamMilestone', 'Comment', 'ControlAssignment', 'AssessmentTemplate',
+  'SavedReport', 'RiskConfig', 'NotificationPreference', 'EmailDigestSubscription', 'Webhook',
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
 
 export interface AuditContext {
   userId: string;
@@ -26,6 +38,18 @@ export interface AuditLogInput {
   details?: Record<string, unknown>;
 }
 
+/**
+ * Audit state of the request being handled: the changes captured from Prisma
+ * writes and the entities a handler has already audited itself
+ */
+export interface RequestAuditState {
+  req: Request & { user?: { id: string; name: string; email: string } };
+  captured: AuditLogInput[];
+  audited: Set<string>;
+}
+
+export const requestAuditStorage = new AsyncLocalStorage<RequestAuditState>();
+
 /**
  * Extract audit context from Express request
  */
@@ -51,29 +75,34 @@ export async function createAuditLog(
   context: AuditContext,
   input: AuditLogInput
 ): Promise<void> {
+  if (input.entityId) {
+    requestAuditStorage.getStore()?.audited.add(input.entityId);
+  }
+
   try {
-    await prisma.auditLog.create({
-      data: {
-        userId: context.userId,
-        userName: context.userName,
-        userEmail: context.userEmail,
-        action: input.action,
-        entityType: input.entityType,
-        entityId: input.entityId,
-        entityName: input.entityName,
-        previousValue: input.previousValue ? JSON.stringify(input.previousValue) : null,
-        newValue: input.newValue ? JSON.stringify(input.newValue) : null,
-        changedFields: input.changedFields ? JSON.stringify(input.changedFields) : null,
-        details: input.details ? JSON.stringify(input.details) : null,
-        ipAddress: context.ipAddress,
-        userAgent: context.userAgent,
-        sessionId: context.sessionId,
-      },
+    await auditIntegrityService.append({
+      userId: context.userId,
+      userName: context.userName,
+      userEmail: context.userEmail,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      entityName: input.entityName,
+      previousValue: input.previousValue ? JSON.stringify(input.previousValue) : null,
+      newValue: input.newValue ? JSON.stringify(input.newValue) : null,
+      changedFields: input.changedFields ? JSON.stringify(input.changedFields) : null,
+      details: input.details ? JSON.stringify(input.details) : null,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      sessionId: context.sessionId,
     });
   } catch (error) {
     // Log error but don't throw - audit logging should not break the main operation
     console.error('Failed to create audit log:', error);
   }
+
+  // Audited changes that integrations subscribe to (status changes, baselines) go out as webhooks
+  await webhookService.emitForAudit(context, input);
 }
 
 /**
@@ -88,7 +117,7 @@ export function getChangedFields(
 
   for (const key of allKeys) {
     // Skip internal fields
-    if (['createdAt', 'updatedAt', 'id'].includes(key)) continue;
+    if (['createdAt', 'updatedAt', 'id', 'version'].includes(key)) continue;
 
     const prevValue = JSON.stringify(previous[key]);
     const currValue = JSON.stringify(current[key]);
@@ -6,9 +6,17 @@
  * - Criticality weighting: HIGH systems weigh more than LOW
  * - Control category weighting: MUST_HAVE = 2x, SHOULD_HAVE = 1x
  * - Cache invalidation on assessment changes
+ * - Optional approved-only rollups (unreviewed work counts as not assessed)
+ * - Accepted risk: a failing assessment with an active risk exception is left
+ *   out of the score and counted separately (see riskException.service.ts)
+ * - Daily snapshots of every recalculated scope (see complianceSnapshot.service.ts)
  */
 
+import { Prisma } from '@prisma/client';
 import { prisma } from '../prisma';
+import { complianceSnapshotService, SnapshotTrigger } from './complianceSnapshot.service';
+import { webhookService } from './webhook.service';
+import { controlCatalogService } from './controlCatalog.service';
 
 
 
@@ -34,8 +42,19 @@ const STATUS_SCORES: Record<string, number> = {
   NON_COMPLIANT: 0.0,
   NOT_ASSESSED: 0, // excluded from calculation
   NOT_APPLICABLE: 0, // excluded from calculation
+  RISK_ACCEPTED: 0, // excluded from calculation, counted as accepted risk
 };
 
+// Statuses a risk exception can be raised against; assessments are stored with
+// either the enum or the display status
+export const EXCEPTABLE_STATUSES = [
+  'NON_COMPLIANT',
+  'PARTIAL',
+  'PARTIALLY_COMPLIANT',
+  'Not Implemented',
+  'Partially Implemented',
+];
+
 export interface ComplianceMetrics {
   complianceScore: number;
   totalAssessments: number;
@@ -43,6 +62,7 @@ export interface ComplianceMetrics {
   partialCount: number;
   nonCompliantCount: number;
   notAssessedCount: number;
+  acceptedRiskCount: number;
 }
 
 export interface FunctionBreakdown {
@@ -54,10 +74,18 @@ export interface FunctionBreakdown {
   compliantCount: number;
   partialCount: number;
   nonCompliantCount: number;
+  acceptedRiskCount: number;
 }
 
 export type ScopeType = 'cc' | 'framework' | 'product' | 'system';
 
+export interface ComplianceQueryOptions {
+  // Only count assessments whose review has been approved
+  approvedOnly?: boolean;
+  // Limit the global scope to the capability centres the caller can view
+  visibleCentres?: Prisma.CapabilityCentreWhereInput;
+}
+
 export interface HierarchicalComplianceResult {
   scope: {
     type: ScopeType | null;
@@ -75,6 +103,26 @@ export interface HierarchicalComplianceResult {
   }>;
 }
 
+// Status counted for approved-only rollups: unapproved work is treated as not assessed
+function approvedStatus(a: { status: string; reviewStatus: string }): string {
+  return a.reviewStatus === 'APPROVED' ? a.status : 'NOT_ASSESSED';
+}
+
+// Select an assessment's active risk exception (approved and not yet expired). Mirrors
+// activeRiskExceptionWhere in riskException.service.ts, which depends on this service.
+function activeRiskException() {
+  return {
+    where: { status: 'APPROVED', expiresAt: { gt: new Date() } },
+    select: { id: true },
+    take: 1,
+  };
+}
+
+// Status counted for scoring: failing assessments with an active exception are accepted risk
+function scoringStatus(a: { status: string; riskExceptions: Array<{ id: string }> }): string {
+  return a.riskExceptions.length > 0 && EXCEPTABLE_STATUSES.includes(a.status) ? 'RISK_ACCEPTED' : a.status;
+}
+
 class ComplianceCalculationService {
   /**
    * Calculate compliance metrics from raw assessment data
@@ -85,6 +133,7 @@ class ComplianceCalculationService {
     let partial = 0;
     let nonCompliant = 0;
     let notAssessed = 0;
+    let accepted = 0;
 
     for (const a of assessments) {
       switch (a.status) {
@@ -102,10 +151,13 @@ class ComplianceCalculationService {
         case 'NOT_APPLICABLE':
           notAssessed++;
           break;
+        case 'RISK_ACCEPTED':
+          accepted++;
+          break;
       }
     }
 
-    const assessed = total - notAssessed;
+    const assessed = total - notAssessed - accepted;
     const score = assessed > 0
       ? Math.round(((compliant + partial * 0.5) / assessed) * 100)
       : 0;
@@ -117,6 +169,7 @@ class ComplianceCalculationService {
       partialCount: partial,
       nonCompliantCount: nonCompliant,
       notAssessedCount: notAssessed,
+      acceptedRiskCount: accepted,
     };
   }
 
@@ -135,6 +188,7 @@ class ComplianceCalculationService {
     let partial = 0;
     let nonCompliant = 0;
     let notAssessed = 0;
+    let accepted = 0;
 
     for (const a of assessments) {
       const categoryLevel = baselineMap.get(a.subcategoryId) || 'SHOULD_HAVE';
@@ -144,6 +198,10 @@ class ComplianceCalculationService {
         notAssessed++;
         continue;
       }
+      if (a.status === 'RISK_ACCEPTED') {
+        accepted++;
+        continue;
+      }
 
       totalWeight += weight;
       const statusScore = STATUS_SCORES[a.status] || 0;
@@ -174,6 +232,7 @@ class ComplianceCalculationService {
       partialCount: partial,
       nonCompliantCount: nonCompliant,
       notAssessedCount: notAssessed,
+      acceptedRiskCount: accepted,
     };
   }
 
@@ -184,7 +243,9 @@ class ComplianceCalculationService {
     const system = await prisma.system.findUnique({
       where: { id: systemId },
       include: {
-        assessments: { select: { status: true, subcategoryId: true } },
+        assessments: {
+          select: { status: true, subcategoryId: true, riskExceptions: activeRiskException() }
+        },
         product: {
           include: {
             csfBaseline: { select: { subcategoryId: true, categoryLevel: true } }
@@ -198,9 +259,10 @@ class ComplianceCalculationService {
     }
 
     // Use weighted calculation if baseline exists
+    const assessments = system.assessments.map(a => ({ ...a, status: scoringStatus(a) }));
     const metrics = system.product.csfBaseline.length > 0
-      ? this.calculateWeightedSystemScore(system.assessments, system.product.csfBaseline)
-      : this.calculateMetrics(system.assessments);
+      ? this.calculateWeightedSystemScore(assessments, system.product.csfBaseline)
+      : this.calculateMetrics(assessments);
 
     // Update cache
     await prisma.system.update({
@@ -212,6 +274,7 @@ class ComplianceCalculationService {
         cachedPartialCount: metrics.partialCount,
         cachedNonCompliantCount: metrics.nonCompliantCount,
         cachedNotAssessedCount: metrics.notAssessedCount,
+        cachedAcceptedRiskCount: metrics.acceptedRiskCount,
         scoreLastComputedAt: new Date(),
       }
     });
@@ -223,6 +286,12 @@ class ComplianceCalculationService {
    * Calculate and cache product compliance (weighted by system criticality)
    */
   async calculateProductCompliance(productId: string): Promise<ComplianceMetrics> {
+    const previous = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { cachedComplianceScore: true },
+    });
+    const previousScore = previous?.cachedComplianceScore ?? 0;
+
     const systems = await prisma.system.findMany({
       where: { productId },
       select: {
@@ -234,6 +303,7 @@ class ComplianceCalculationService {
         cachedPartialCount: true,
         cachedNonCompliantCount: true,
         cachedNotAssessedCount: true,
+        cachedAcceptedRiskCount: true,
       }
     });
 
@@ -245,6 +315,7 @@ class ComplianceCalculationService {
         partialCount: 0,
         nonCompliantCount: 0,
         notAssessedCount: 0,
+        acceptedRiskCount: 0,
       };
 
       await prisma.product.update({
@@ -257,10 +328,12 @@ class ComplianceCalculationService {
           cachedPartialCount: 0,
           cachedNonCompliantCount: 0,
           cachedNotAssessedCount: 0,
+          cachedAcceptedRiskCount: 0,
           scoreLastComputedAt: new Date(),
         }
       });
 
+      await webhookService.emitScoreChange(productId, previousScore, 0);
       return emptyMetrics;
     }
 
@@ -271,6 +344,7 @@ class ComplianceCalculationService {
     let partial = 0;
     let nonCompliant = 0;
     let notAssessed = 0;
+    let accepted = 0;
 
     for (const sys of systems) {
       const weight = CRITICALITY_WEIGHTS[sys.criticality] || 2;
@@ -283,6 +357,7 @@ class ComplianceCalculationService {
       partial += sys.cachedPartialCount || 0;
       nonCompliant += sys.cachedNonCompliantCount || 0;
       notAssessed += sys.cachedNotAssessedCount || 0;
+      accepted += sys.cachedAcceptedRiskCount || 0;
     }
 
     const metrics: ComplianceMetrics = {
@@ -292,6 +367,7 @@ class ComplianceCalculationService {
       partialCount: partial,
       nonCompliantCount: nonCompliant,
       notAssessedCount: notAssessed,
+      acceptedRiskCount: accepted,
     };
 
     await prisma.product.update({
@@ -303,10 +379,12 @@ class ComplianceCalculationService {
         cachedPartialCount: metrics.partialCount,
         cachedNonCompliantCount: metrics.nonCompliantCount,
         cachedNotAssessedCount: metrics.notAssessedCount,
+        cachedAcceptedRiskCount: metrics.acceptedRiskCount,
         scoreLastComputedAt: new Date(),
       }
     });
 
+    await webhookService.emitScoreChange(productId, previousScore, metrics.complianceScore);
     return metrics;
   }
 
@@ -325,6 +403,7 @@ class ComplianceCalculationService {
         cachedPartialCount: true,
         cachedNonCompliantCount: true,
         cachedNotAssessedCount: true,
+        cachedAcceptedRiskCount: true,
       }
     });
 
@@ -336,6 +415,7 @@ class ComplianceCalculationService {
         partialCount: 0,
         nonCompliantCount: 0,
         notAssessedCount: 0,
+        acceptedRiskCount: 0,
       };
 
       await prisma.framework.update({
@@ -347,6 +427,7 @@ class ComplianceCalculationService {
           cachedPartialCount: 0,
           cachedNonCompliantCount: 0,
           cachedNotAssessedCount: 0,
+          cachedAcceptedRiskCount: 0,
           scoreLastComputedAt: new Date(),
         }
       });
@@ -361,6 +442,7 @@ class ComplianceCalculationService {
     let partial = 0;
     let nonCompliant = 0;
     let notAssessed = 0;
+    let accepted = 0;
 
     for (const prod of products) {
       const weight = CRITICALITY_WEIGHTS[prod.criticality] || 2;
@@ -373,6 +455,7 @@ class ComplianceCalculationService {
       partial += prod.cachedPartialCount || 0;
       nonCompliant += prod.cachedNonCompliantCount || 0;
       notAssessed += prod.cachedNotAssessedCount || 0;
+      accepted += prod.cachedAcceptedRiskCount || 0;
     }
 
     const metrics: ComplianceMetrics = {
@@ -382,6 +465,7 @@ class ComplianceCalculationService {
       partialCount: partial,
       nonCompliantCount: nonCompliant,
       notAssessedCount: notAssessed,
+      acceptedRiskCount: accepted,
     };
 
     await prisma.framework.update({
@@ -393,6 +477,7 @@ class ComplianceCalculationService {
         cachedPartialCount: metrics.partialCount,
         cachedNonCompliantCount: metrics.nonCompliantCount,
         cachedNotAssessedCount: metrics.notAssessedCount,
+        cachedAcceptedRiskCount: metrics.acceptedRiskCount,
         scoreLastComputedAt: new Date(),
       }
     });
@@ -414,6 +499,7 @@ class ComplianceCalculationService {
         cachedPartialCount: true,
         cachedNonCompliantCount: true,
         cachedNotAssessedCount: true,
+        cachedAcceptedRiskCount: true,
       }
     });
 
@@ -425,6 +511,7 @@ class ComplianceCalculationService {
         partialCount: 0,
         nonCompliantCount: 0,
         notAssessedCount: 0,
+        acceptedRiskCount: 0,
       };
 
       await prisma.capabilityCentre.update({
@@ -436,6 +523,7 @@ class ComplianceCalculationService {
           cachedPartialCount: 0,
           cachedNonCompliantCount: 0,
           cachedNotAssessedCount: 0,
+          cachedAcceptedRiskCount: 0,
           scoreLastComputedAt: new Date(),
         }
       });
@@ -450,6 +538,7 @@ class ComplianceCalculationService {
     let partial = 0;
     let nonCompliant = 0;
     let notAssessed = 0;
+    let accepted = 0;
 
     for (const fw of frameworks) {
       totalScore += fw.cachedComplianceScore || 0;
@@ -458,6 +547,7 @@ class ComplianceCalculationService {
       partial += fw.cachedPartialCount || 0;
       nonCompliant += fw.cachedNonCompliantCount || 0;
       notAssessed += fw.cachedNotAssessedCount || 0;
+      accepted += fw.cachedAcceptedRiskCount || 0;
     }
 
     const metrics: ComplianceMetrics = {
@@ -467,6 +557,7 @@ class ComplianceCalculationService {
       partialCount: partial,
       nonCompliantCount: nonCompliant,
       notAssessedCount: notAssessed,
+      acceptedRiskCount: accepted,
     };
 
     await prisma.capabilityCentre.update({
@@ -478,6 +569,7 @@ class ComplianceCalculationService {
         cachedPartialCount: metrics.partialCount,
         cachedNonCompliantCount: metrics.nonCompliantCount,
         cachedNotAssessedCount: metrics.notAssessedCount,
+        cachedAcceptedRiskCount: metrics.acceptedRiskCount,
         scoreLastComputedAt: new Date(),
       }
     });
@@ -491,29 +583,12 @@ class ComplianceCalculationService {
   async invalidateHierarchy(assessmentId: string): Promise<void> {
     const assessment = await prisma.complianceAssessment.findUnique({
       where: { id: assessmentId },
-      include: {
-        system: {
-          include: {
-            product: {
-              include: {
-                framework: true
-              }
-            }
-          }
-        }
-      }
+      select: { systemId: true }
     });
 
     if (!assessment) return;
 
-    // Bottom-up recomputation
-    await this.calculateSystemCompliance(assessment.system.id);
-    await this.calculateProductCompliance(assessment.system.product.id);
-
-    if (assessment.system.product.framework) {
-      await this.calculateFrameworkCompliance(assessment.system.product.framework.id);
-      await this.calculateCapabilityCentreCompliance(assessment.system.product.framework.capabilityCentreId);
-    }
+    await this.invalidateSystemHierarchy(assessment.systemId);
   }
 
   /**
@@ -534,12 +609,13 @@ class ComplianceCalculationService {
     if (!system) return;
 
     // Bottom-up recomputation
-    await this.calculateSystemCompliance(systemId);
-    await this.calculateProductCompliance(system.product.id);
+    await this.snapshot('system', systemId, await this.calculateSystemCompliance(systemId));
+    await this.snapshot('product', system.product.id, await this.calculateProductCompliance(system.product.id));
 
     if (system.product.framework) {
-      await this.calculateFrameworkCompliance(system.product.framework.id);
-      await this.calculateCapabilityCentreCompliance(system.product.framework.capabilityCentreId);
+      const { id: frameworkId, capabilityCentreId } = system.product.framework;
+      await this.snapshot('framework', frameworkId, await this.calculateFrameworkCompliance(frameworkId));
+      await this.snapshot('cc', capabilityCentreId, await this.calculateCapabilityCentreCompliance(capabilityCentreId));
     }
   }
 
@@ -588,16 +664,34 @@ class ComplianceCalculationService {
 
     // Recompute in order (bottom-up)
     for (const systemId of affectedSystems) {
-      await this.calculateSystemCompliance(systemId);
+      await this.snapshot('system', systemId, await this.calculateSystemCompliance(systemId));
     }
     for (const productId of affectedProducts) {
-      await this.calculateProductCompliance(productId);
+      await this.snapshot('product', productId, await this.calculateProductCompliance(productId));
     }
     for (const frameworkId of affectedFrameworks) {
-      await this.calculateFrameworkCompliance(frameworkId);
+      await this.snapshot('framework', frameworkId, await this.calculateFrameworkCompliance(frameworkId));
     }
     for (const ccId of affectedCCs) {
-      await this.calculateCapabilityCentreCompliance(ccId);
+      await this.snapshot('cc', ccId, await this.calculateCapabilityCentreCompliance(ccId));
+    }
+  }
+
+  /**
+   * Record today's snapshot of a freshly calculated scope. Snapshot failures
+   * are logged rather than thrown so they never block an assessment save.
+   */
+  private async snapshot(
+    scopeType: ScopeType,
+    scopeId: string,
+    metrics: ComplianceMetrics,
+    trigger: SnapshotTrigger = 'RECALCULATION'
+  ): Promise<void> {
+    try {
+      const functions = await this.calculateFunctionBreakdown(scopeType, scopeId);
+      await complianceSnapshotService.record(scopeType, scopeId, metrics, functions, trigger);
+    } catch (error) {
+      console.error(`[Compliance Snapshot] Failed to snapshot ${scopeType} ${scopeId}:`, error);
     }
   }
 
@@ -606,11 +700,21 @@ class ComplianceCalculationService {
    */
   async getHierarchicalCompliance(
     scopeType: ScopeType | null,
-    scopeId: string | null
+    scopeId: string | null,
+    options: ComplianceQueryOptions = {}
+  ): Promise<HierarchicalComplianceResult> {
+    const result = await this.getCachedHierarchicalCompliance(scopeType, scopeId, options.visibleCentres);
+    return options.approvedOnly ? this.applyApprovedOnly(result, options.visibleCentres) : result;
+  }
+
+  private async getCachedHierarchicalCompliance(
+    scopeType: ScopeType | null,
+    scopeId: string | null,
+    visibleCentres?: Prisma.CapabilityCentreWhereInput
   ): Promise<HierarchicalComplianceResult> {
     // Global scope - all organizations
     if (!scopeType || !scopeId) {
-      return this.getGlobalCompliance();
+      return this.getGlobalCompliance(visibleCentres);
     }
 
     switch (scopeType) {
@@ -623,12 +727,46 @@ class ComplianceCalculationService {
       case 'system':
         return this.getSystemScopedCompliance(scopeId);
       default:
-        return this.getGlobalCompliance();
+        return this.getGlobalCompliance(visibleCentres);
     }
   }
 
-  private async getGlobalCompliance(): Promise<HierarchicalComplianceResult> {
+  /**
+   * Recompute a result counting only approved assessments. Cached scores
+   * include unreviewed work, so these figures are calculated live (unweighted).
+   */
+  private async applyApprovedOnly(
+    result: HierarchicalComplianceResult,
+    visibleCentres?: Prisma.CapabilityCentreWhereInput
+  ): Promise<HierarchicalComplianceResult> {
+    const approvedMetrics = async (scopeType: ScopeType | null, scopeId: string | null) => {
+      const systemIds = await this.getScopeSystemIds(scopeType, scopeId, visibleCentres);
+      const assessments = await prisma.complianceAssessment.findMany({
+        where: { systemId: { in: systemIds } },
+        select: { status: true, reviewStatus: true, riskExceptions: activeRiskException() }
+      });
+      return this.calculateMetrics(
+        assessments.map(a => ({ status: scoringStatus({ ...a, status: approvedStatus(a) }) }))
+      );
+    };
+
+    const rollup = await approvedMetrics(result.scope.type, result.scope.id);
+    const functions = await this.calculateFunctionBreakdown(result.scope.type, result.scope.id, true, visibleCentres);
+    const children = result.children && await Promise.all(
+      result.children.map(async child => ({
+        ...child,
+        complianceScore: (await approvedMetrics(child.type, child.id)).complianceScore,
+      }))
+    );
+
+    return { ...result, rollup, functions, children };
+  }
+
+  private async getGlobalCompliance(
+    visibleCentres?: Prisma.CapabilityCentreWhereInput
+  ): Promise<HierarchicalComplianceResult> {
     const ccs = await prisma.capabilityCentre.findMany({
+      where: visibleCentres,
       select: {
         id: true,
         name: true,
@@ -638,6 +776,7 @@ class ComplianceCalculationService {
         cachedPartialCount: true,
         cachedNonCompliantCount: true,
         cachedNotAssessedCount: true,
+        cachedAcceptedRiskCount: true,
       }
     });
 
@@ -648,6 +787,7 @@ class ComplianceCalculationService {
     let partial = 0;
     let nonCompliant = 0;
     let notAssessed = 0;
+    let accepted = 0;
 
     for (const cc of ccs) {
       totalScore += cc.cachedComplianceScore || 0;
@@ -656,9 +796,10 @@ class ComplianceCalculationService {
       partial += cc.cachedPartialCount || 0;
       nonCompliant += cc.cachedNonCompliantCount || 0;
       notAssessed += cc.cachedNotAssessedCount || 0;
+      accepted += cc.cachedAcceptedRiskCount || 0;
     }
 
-    const functions = await this.calculateFunctionBreakdown(null, null);
+    const functions = await this.calculateFunctionBreakdown(null, null, false, visibleCentres);
 
     return {
       scope: { type: null, id: null, name: 'All Organizations' },
@@ -669,6 +810,7 @@ class ComplianceCalculationService {
         partialCount: partial,
         nonCompliantCount: nonCompliant,
         notAssessedCount: notAssessed,
+        acceptedRiskCount: accepted,
       },
       functions,
       children: ccs.map(cc => ({
@@ -709,6 +851,7 @@ class ComplianceCalculationService {
         partialCount: cc.cachedPartialCount || 0,
         nonCompliantCount: cc.cachedNonCompliantCount || 0,
         notAssessedCount: cc.cachedNotAssessedCount || 0,
+        acceptedRiskCount: cc.cachedAcceptedRiskCount || 0,
       },
       functions,
       children: cc.frameworks.map(fw => ({
@@ -750,6 +893,7 @@ class ComplianceCalculationService {
         partialCount: framework.cachedPartialCount || 0,
         nonCompliantCount: framework.cachedNonCompliantCount || 0,
         notAssessedCount: framework.cachedNotAssessedCount || 0,
+        acceptedRiskCount: framework.cachedAcceptedRiskCount || 0,
       },
       functions,
       children: framework.products.map(p => ({
@@ -792,6 +936,7 @@ class ComplianceCalculationService {
         partialCount: product.cachedPartialCount || 0,
         nonCompliantCount: product.cachedNonCompliantCount || 0,
         notAssessedCount: product.cachedNotAssessedCount || 0,
+        acceptedRiskCount: product.cachedAcceptedRiskCount || 0,
       },
       functions,
       children: product.systems.map(s => ({
@@ -824,24 +969,29 @@ class ComplianceCalculationService {
         partialCount: system.cachedPartialCount || 0,
         nonCompliantCount: system.cachedNonCompliantCount || 0,
         notAssessedCount: system.cachedNotAssessedCount || 0,
+        acceptedRiskCount: system.cachedAcceptedRiskCount || 0,
       },
       functions,
     };
   }
 
   /**
-   * Calculate CSF function breakdown for a given scope
+   * Resolve the IDs of all systems within a scope. The global scope covers
+   * every system unless limited to some capability centres.
    */
-  private async calculateFunctionBreakdown(
+  private async getScopeSystemIds(
     scopeType: ScopeType | null,
-    scopeId: string | null
-  ): Promise<FunctionBreakdown[]> {
-    // Build where clause based on scope
+    scopeId: string | null,
+    visibleCentres?: Prisma.CapabilityCentreWhereInput
+  ): Promise<string[]> {
     let systemIds: string[] = [];
 
     if (!scopeType || !scopeId) {
-      // Global - get all systems
-      const systems = await prisma.system.findMany({ select: { id: true } });
+      // Global - get all (visible) systems
+      const systems = await prisma.system.findMany({
+        where: visibleCentres && { product: { framework: { capabilityCentre: visibleCentres } } },
+        select: { id: true }
+      });
       systemIds = systems.map(s => s.id);
     } else {
       switch (scopeType) {
@@ -875,43 +1025,62 @@ class ComplianceCalculationService {
       }
     }
 
+    return systemIds;
+  }
+
+  /**
+   * Calculate the function breakdown for a given scope, by the functions of
+   * the control catalogs its products are assessed against
+   */
+  private async calculateFunctionBreakdown(
+    scopeType: ScopeType | null,
+    scopeId: string | null,
+    approvedOnly = false,
+    visibleCentres?: Prisma.CapabilityCentreWhereInput
+  ): Promise<FunctionBreakdown[]> {
+    const systemIds = await this.getScopeSystemIds(scopeType, scopeId, visibleCentres);
+
     if (systemIds.length === 0) {
       return [];
     }
 
     // Get assessments for these systems
-    const assessments = await prisma.complianceAssessment.findMany({
+    const rawAssessments = await prisma.complianceAssessment.findMany({
       where: { systemId: { in: systemIds } },
-      select: { subcategoryId: true, status: true }
+      select: { subcategoryId: true, status: true, reviewStatus: true, riskExceptions: activeRiskException() }
     });
-
-    // Get CSF controls for function mapping
-    const controls = await prisma.cSFControl.findMany({
-      select: { id: true, functionId: true }
+    const assessments = rawAssessments.map(a =>
+      ({ ...a, status: scoringStatus(approvedOnly ? { ...a, status: approvedStatus(a) } : a) })
+    );
+
+    // Functions of the catalogs the scope's products are assessed against
+    const scopeProducts = await prisma.system.findMany({
+      where: { id: { in: systemIds } },
+      select: { product: { select: { catalogId: true } } },
+      distinct: ['productId']
     });
+    const catalogIds = Array.from(new Set(scopeProducts.map(s => s.product.catalogId)));
 
-    const controlToFunction = new Map(controls.map(c => [c.id, c.functionId]));
+    const [controls, functionNames] = await Promise.all([
+      prisma.cSFControl.findMany({
+        where: { catalogId: { in: catalogIds } },
+        select: { id: true, functionId: true }
+      }),
+      controlCatalogService.getGroupNames(catalogIds)
+    ]);
 
-    // CSF function definitions
-    const FUNCTIONS: Record<string, string> = {
-      GV: 'Govern',
-      ID: 'Identify',
-      PR: 'Protect',
-      DE: 'Detect',
-      RS: 'Respond',
-      RC: 'Recover',
-    };
+    const controlToFunction = new Map(controls.map(c => [c.id, c.functionId]));
 
     // Aggregate by function
-    const functionStats: Record<string, { compliant: number; partial: number; nonCompliant: number; notAssessed: number; total: number }> = {};
+    const functionStats: Record<string, { compliant: number; partial: number; nonCompliant: number; notAssessed: number; accepted: number; total: number }> = {};
 
-    for (const funcCode of Object.keys(FUNCTIONS)) {
-      functionStats[funcCode] = { compliant: 0, partial: 0, nonCompliant: 0, notAssessed: 0, total: 0 };
+    for (const funcCode of Array.from(functionNames.functions.keys())) {
+      functionStats[funcCode] = { compliant: 0, partial: 0, nonCompliant: 0, notAssessed: 0, accepted: 0, total: 0 };
     }
 
     for (const a of assessments) {
-      const funcCode = controlToFunction.get(a.subcategoryId) || a.subcategoryId.split('.')[0];
-      if (!functionStats[funcCode]) continue;
+      const funcCode = controlToFunction.get(a.subcategoryId);
+      if (!funcCode || !functionStats[funcCode]) continue;
 
       functionStats[funcCode].total++;
 
@@ -930,57 +1099,61 @@ class ComplianceCalculationService {
         case 'NOT_APPLICABLE':
           functionStats[funcCode].notAssessed++;
           break;
+        case 'RISK_ACCEPTED':
+          functionStats[funcCode].accepted++;
+          break;
       }
     }
 
     return Object.entries(functionStats).map(([funcCode, stats]) => {
-      const assessed = stats.total - stats.notAssessed;
+      const assessed = stats.total - stats.notAssessed - stats.accepted;
       const score = assessed > 0
         ? Math.round(((stats.compliant + stats.partial * 0.5) / assessed) * 100)
         : 0;
 
       return {
         functionCode: funcCode,
-        functionName: FUNCTIONS[funcCode] || funcCode,
+        functionName: functionNames.functions.get(funcCode)?.name || funcCode,
         complianceScore: score,
         totalControls: stats.total,
         assessedControls: assessed,
         compliantCount: stats.compliant,
         partialCount: stats.partial,
         nonCompliantCount: stats.nonCompliant,
+        acceptedRiskCount: stats.accepted,
       };
     });
   }
 
   /**
-   * Recalculate all cached scores (for backfill or repair)
+   * Recalculate all cached scores (for backfill or repair) and snapshot every scope
    */
-  async recalculateAll(): Promise<void> {
+  async recalculateAll(trigger: SnapshotTrigger = 'RECALCULATION'): Promise<void> {
     console.log('Starting full compliance cache recalculation...');
 
     // Get all systems and calculate bottom-up
     const systems = await prisma.system.findMany({ select: { id: true } });
     console.log(`Recalculating ${systems.length} systems...`);
     for (const sys of systems) {
-      await this.calculateSystemCompliance(sys.id);
+      await this.snapshot('system', sys.id, await this.calculateSystemCompliance(sys.id), trigger);
     }
 
     const products = await prisma.product.findMany({ select: { id: true } });
     console.log(`Recalculating ${products.length} products...`);
     for (const prod of products) {
-      await this.calculateProductCompliance(prod.id);
+      await this.snapshot('product', prod.id, await this.calculateProductCompliance(prod.id), trigger);
     }
 
     const frameworks = await prisma.framework.findMany({ select: { id: true } });
     console.log(`Recalculating ${frameworks.length} frameworks...`);
     for (const fw of frameworks) {
-      await this.calculateFrameworkCompliance(fw.id);
+      await this.snapshot('framework', fw.id, await this.calculateFrameworkCompliance(fw.id), trigger);
     }
 
     const ccs = await prisma.capabilityCentre.findMany({ select: { id: true } });
     console.log(`Recalculating ${ccs.length} capability centres...`);
     for (const cc of ccs) {
-      await this.calculateCapabilityCentreCompliance(cc.id);
+      await this.snapshot('cc', cc.id, await this.calculateCapabilityCentreCompliance(cc.id), trigger);
     }
 
     console.log('Full compliance cache recalculation complete.');
@@ -0,0 +1,264 @@
+/**
+ * ComplianceSnapshotService
+ *
+ * Point-in-time history of compliance rollups:
+ * - One snapshot per scope and CSF function per day; recalculations overwrite the day's row
+ * - A daily job snapshots every scope so quiet days still have a data point
+ * - Trend and as-of queries carry the last known value forward over days without a snapshot
+ */
+
+import { prisma } from '../prisma';
+import type { ComplianceMetrics, FunctionBreakdown, ScopeType } from './complianceCalculation.service';
+
+export type SnapshotTrigger = 'RECALCULATION' | 'SCHEDULED';
+
+// functionCode used for the overall rollup row
+export const ROLLUP_FUNCTION = 'ALL';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrendPoint {
+  date: string; // YYYY-MM-DD
+  complianceScore: number;
+  riskScore: number; // share of assessed controls with open gaps (partial counts half)
+  totalAssessments: number;
+  assessedCount: number;
+  compliantCount: number;
+  partialCount: number;
+  nonCompliantCount: number;
+  notAssessedCount: number;
+  acceptedRiskCount: number;
+  scopeCount: number; // scopes with data on or before this date
+  functions: Record<string, number>; // CSF function code -> compliance score
+}
+
+export interface SnapshotAsOf {
+  scopeType: ScopeType;
+  scopeId: string;
+  date: string;
+  capturedOn: string | null; // day of the latest snapshot at or before `date`
+  rollup: ComplianceMetrics | null;
+  functions: Array<ComplianceMetrics & { functionCode: string }>;
+}
+
+interface SnapshotRow {
+  scopeId: string;
+  functionCode: string;
+  snapshotDate: Date;
+  complianceScore: number;
+  totalAssessments: number;
+  compliantCount: number;
+  partialCount: number;
+  nonCompliantCount: number;
+  notAssessedCount: number;
+  acceptedRiskCount: number;
+}
+
+// UTC midnight of the day containing `date`
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function toMetrics(row: SnapshotRow): ComplianceMetrics {
+  return {
+    complianceScore: row.complianceScore,
+    totalAssessments: row.totalAssessments,
+    compliantCount: row.compliantCount,
+    partialCount: row.partialCount,
+    nonCompliantCount: row.nonCompliantCount,
+    notAssessedCount: row.notAssessedCount,
+    acceptedRiskCount: row.acceptedRiskCount,
+  };
+}
+
+class ComplianceSnapshotService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Record today's snapshot of a scope's rollup and CSF function breakdown
+   */
+  async record(
+    scopeType: ScopeType,
+    scopeId: string,
+    rollup: ComplianceMetrics,
+    functions: FunctionBreakdown[],
+    trigger: SnapshotTrigger
+  ): Promise<void> {
+    const snapshotDate = startOfDay(new Date());
+
+    const rows = [
+      { functionCode: ROLLUP_FUNCTION, ...rollup },
+      ...functions.map(f => ({
+        functionCode: f.functionCode,
+        complianceScore: f.complianceScore,
+        totalAssessments: f.totalControls,
+        compliantCount: f.compliantCount,
+        partialCount: f.partialCount,
+        nonCompliantCount: f.nonCompliantCount,
+        notAssessedCount: f.totalControls - f.assessedControls - f.acceptedRiskCount,
+        acceptedRiskCount: f.acceptedRiskCount,
+      })),
+    ];
+
+    await prisma.$transaction(
+      rows.map(({ functionCode, ...metrics }) =>
+        prisma.complianceSnapshot.upsert({
+          where: {
+            scopeType_scopeId_functionCode_snapshotDate: { scopeType, scopeId, functionCode, snapshotDate },
+          },
+          create: { scopeType, scopeId, functionCode, snapshotDate, trigger, ...metrics },
+          update: { trigger, capturedAt: new Date(), ...metrics },
+        })
+      )
+    );
+  }
+
+  /**
+   * Daily trend across one or more scopes of the same type. Scores are the
+   * unweighted mean of the scopes' rollups; function scores are weighted by
+   * assessed controls. Days before the first snapshot are omitted.
+   */
+  async getTrend(scopeType: ScopeType, scopeIds: string[], days: number): Promise<TrendPoint[]> {
+    if (scopeIds.length === 0) return [];
+
+    const today = startOfDay(new Date());
+    const startDate = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+    // Latest value of each scope/function before the window, to carry forward
+    const [carried, inWindow] = await Promise.all([
+      prisma.complianceSnapshot.findMany({
+        where: { scopeType, scopeId: { in: scopeIds }, snapshotDate: { lt: startDate } },
+        orderBy: { snapshotDate: 'desc' },
+        distinct: ['scopeId', 'functionCode'],
+      }),
+      prisma.complianceSnapshot.findMany({
+        where: { scopeType, scopeId: { in: scopeIds }, snapshotDate: { gte: startDate, lte: today } },
+        orderBy: { snapshotDate: 'asc' },
+      }),
+    ]);
+
+    const latest = new Map<string, SnapshotRow>();
+    for (const row of carried) {
+      latest.set(`${row.scopeId}:${row.functionCode}`, row);
+    }
+
+    const byDay = new Map<string, SnapshotRow[]>();
+    for (const row of inWindow) {
+      const key = toDateKey(row.snapshotDate);
+      if (!byDay.has(key)) byDay.set(key, []);
+      byDay.get(key)!.push(row);
+    }
+
+    const trend: TrendPoint[] = [];
+    for (let day = startDate; day <= today; day = new Date(day.getTime() + DAY_MS)) {
+      const dateKey = toDateKey(day);
+      for (const row of byDay.get(dateKey) || []) {
+        latest.set(`${row.scopeId}:${row.functionCode}`, row);
+      }
+
+      const point = this.aggregate(dateKey, Array.from(latest.values()));
+      if (point) trend.push(point);
+    }
+
+    return trend;
+  }
+
+  /**
+   * A scope's rollup and function breakdown as it stood at the end of a given day
+   */
+  async getAsOf(scopeType: ScopeType, scopeId: string, date: Date): Promise<SnapshotAsOf> {
+    const rows = await prisma.complianceSnapshot.findMany({
+      where: { scopeType, scopeId, snapshotDate: { lte: startOfDay(date) } },
+      orderBy: { snapshotDate: 'desc' },
+      distinct: ['functionCode'],
+    });
+
+    const rollup = rows.find(r => r.functionCode === ROLLUP_FUNCTION);
+
+    return {
+      scopeType,
+      scopeId,
+      date: toDateKey(date),
+      capturedOn: rollup ? toDateKey(rollup.snapshotDate) : null,
+      rollup: rollup ? toMetrics(rollup) : null,
+      functions: rows
+        .filter(r => r.functionCode !== ROLLUP_FUNCTION)
+        .map(r => ({ functionCode: r.functionCode, ...toMetrics(r) })),
+    };
+  }
+
+  /**
+   * Run a task every day at the given UTC hour (default 00:05). The task is
+   * expected to recalculate and snapshot every scope.
+   */
+  scheduleDaily(task: () => Promise<void>, hourUtc = 0, minuteUtc = 5): void {
+    if (this.timer) return;
+
+    const scheduleNext = () => {
+      const now = new Date();
+      const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hourUtc, minuteUtc));
+      if (next <= now) next.setTime(next.getTime() + DAY_MS);
+
+      this.timer = setTimeout(async () => {
+        try {
+          await task();
+        } catch (error) {
+          console.error('[Compliance Snapshot] Daily snapshot failed:', error);
+        }
+        scheduleNext();
+      }, next.getTime() - now.getTime());
+      this.timer.unref();
+    };
+
+    scheduleNext();
+  }
+
+  private aggregate(date: string, rows: SnapshotRow[]): TrendPoint | null {
+    const rollups = rows.filter(r => r.functionCode === ROLLUP_FUNCTION);
+    if (rollups.length === 0) return null;
+
+    const sum = (field: keyof ComplianceMetrics) => rollups.reduce((acc, r) => acc + r[field], 0);
+    const compliant = sum('compliantCount');
+    const partial = sum('partialCount');
+    const nonCompliant = sum('nonCompliantCount');
+    const assessed = compliant + partial + nonCompliant;
+
+    // Function scores weighted by assessed controls
+    const functionTotals: Record<string, { weighted: number; assessed: number }> = {};
+    for (const r of rows) {
+      if (r.functionCode === ROLLUP_FUNCTION) continue;
+      const fnAssessed = r.totalAssessments - r.notAssessedCount - r.acceptedRiskCount;
+      const totals = functionTotals[r.functionCode] || { weighted: 0, assessed: 0 };
+      totals.weighted += r.complianceScore * fnAssessed;
+      totals.assessed += fnAssessed;
+      functionTotals[r.functionCode] = totals;
+    }
+
+    return {
+      date,
+      complianceScore: Math.round(sum('complianceScore') / rollups.length),
+      riskScore: assessed > 0 ? Math.round(((nonCompliant + partial * 0.5) / assessed) * 100) : 0,
+      totalAssessments: sum('totalAssessments'),
+      assessedCount: assessed,
+      compliantCount: compliant,
+      partialCount: partial,
+      nonCompliantCount: nonCompliant,
+      notAssessedCount: sum('notAssessedCount'),
+      acceptedRiskCount: sum('acceptedRiskCount'),
+      scopeCount: rollups.length,
+      functions: Object.fromEntries(
+        Object.entries(functionTotals).map(([code, t]) => [
+          code,
+          t.assessed > 0 ? Math.round(t.weighted / t.assessed) : 0,
+        ])
+      ),
+    };
+  }
+}
+
+export const complianceSnapshotService = new ComplianceSnapshotService();
+export default complianceSnapshotService;
@@ -0,0 +1,95 @@
+/**
+ * Optimistic Concurrency
+ *
+ * Version tokens that stop two people editing the same record from silently
+ * overwriting each other:
+ * - Assessments and remediation tasks carry a version column, bumped on every
+ *   update by a Prisma middleware so writes from jobs and other routes count too
+ * - A product's baseline is edited as one set of entries, so its version is
+ *   derived from the entries (count and latest change) instead of stored
+ * - Clients send the version they loaded as If-Match (or `version` on bulk
+ *   items); a stale version gets a 409 with the server's current copy, for the
+ *   client to merge against
+ *
+ * Requests without a version are applied unconditionally, as before.
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+// Models with a version column
+const VERSIONED_MODELS: Prisma.ModelName[] = ['ComplianceAssessment', 'RemediationTask'];
+
+export const VERSION_CONFLICT = 'VERSION_CONFLICT';
+
+export type Version = number | string;
+
+// Prisma middleware: bump the version on every update of a versioned model
+const bumpVersions: Prisma.Middleware = (params, next) => {
+  if (!params.model || !VERSIONED_MODELS.includes(params.model)) {
+    return next(params);
+  }
+
+  if ((params.action === 'update' || params.action === 'updateMany') && params.args?.data) {
+    params.args.data = { ...params.args.data, version: { increment: 1 } };
+  } else if (params.action === 'upsert' && params.args?.update) {
+    params.args.update = { ...params.args.update, version: { increment: 1 } };
+  }
+  return next(params);
+};
+
+/**
+ * Install the version middleware on the shared Prisma client
+ */
+export function registerVersioning() {
+  prisma.$use(bumpVersions);
+}
+
+/**
+ * Version the client expects to change: the If-Match header, or a version in
+ * the body. Undefined when the request is unconditional.
+ */
+export function expectedVersion(req: Request, bodyVersion?: Version): string | undefined {
+  const header = req.get('If-Match');
+  if (header && header.trim() !== '*') {
+    return header.trim().replace(/^W\//, '').replace(/^"|"$/g, '');
+  }
+  return bodyVersion === undefined ? undefined : String(bodyVersion);
+}
+
+export function versionMatches(expected: string | undefined, current: Version): boolean {
+  return expected === undefined || expected === String(current);
+}
+
+/**
+ * Whether a conditional update (`where: { id, version }`) found no row, i.e.
+ * the record changed between the version check and the write
+ */
+export function isStaleUpdate(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+export function setVersionHeader(res: Response, version: Version) {
+  res.setHeader('ETag', `"${version}"`);
+}
+
+/**
+ * 409 with the server's current copy of the record
+ */
+export function sendVersionConflict(res: Response, entity: string, current: { version: Version }) {
+  setVersionHeader(res, current.version);
+  return res.status(409).json({
+    error: `This ${entity} was changed by someone else since you loaded it`,
+    code: VERSION_CONFLICT,
+    current,
+  });
+}
+
+/**
+ * Version of a product's baseline, from its entries
+ */
+export function baselineVersion(entries: { updatedAt: Date }[]): string {
+  const latest = entries.reduce((max, entry) => Math.max(max, entry.updatedAt.getTime()), 0);
+  return `${entries.length}.${latest}`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Control Assignment Service
+ *
+ * Resolves which users own a control through ControlAssignment patterns.
+ * Patterns are exact control IDs or wildcards: "PR.AC-01", "PR.AC.*", "PR.*", "*".
+ */
+
+import { prisma } from '../prisma';
+
+/**
+ * Every pattern that would match a control ID,
+ * e.g. "PR.AC-01" -> ["PR.AC-01", "*", "PR.*", "PR.AC.*"]
+ */
+export function generatePossiblePatterns(controlId: string): string[] {
+  const patterns = [controlId, '*'];
+
+  const parts = controlId.split('.');
+  if (parts.length >= 2) {
+    // Function + category wildcard (e.g., "PR.*")
+    patterns.push(`${parts[0]}.*`);
+
+    // Full category wildcard (e.g., "PR.AC.*")
+    const categoryParts = parts[1].split('-');
+    if (categoryParts.length === 2) {
+      patterns.push(`${parts[0]}.${categoryParts[0]}.*`);
+    } else {
+      patterns.push(`${parts[0]}.${parts[1]}.*`);
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * IDs of users assigned to a control on a product, including product-wide
+ * assignments when a system is given
+ */
+export async function findControlOwnerIds(
+  productId: string,
+  controlId: string,
+  systemId?: string
+): Promise<string[]> {
+  const assignments = await prisma.controlAssignment.findMany({
+    where: {
+      productId,
+      controlPattern: { in: generatePossiblePatterns(controlId) },
+      ...(systemId && { OR: [{ systemId }, { systemId: null }] }),
+    },
+    select: { assigneeId: true },
+  });
+
+  return Array.from(new Set(assignments.map((a) => a.assigneeId)));
+}
@@ -0,0 +1,586 @@
+/**
+ * Control Catalog Service
+ *
+ * Control catalogs that a product can be assessed against. A catalog groups
+ * its controls two levels deep (function -> category); control IDs are what
+ * ComplianceAssessment.subcategoryId and CSFBaseline.subcategoryId refer to,
+ * so they must be unique across catalogs.
+ *
+ * Built-in catalogs:
+ * - NIST CSF 2.0 from data/csf2_clean.json (the default)
+ * - NIST SP 800-53 Rev 5 from the OSCAL catalog (family -> control -> enhancements)
+ *
+ * Further catalogs are read from data/catalogs/:
+ * - <id>.json: { id, name, version, publisher, description, levels,
+ *   functions: [{ id, name, categories: [{ id, name, controls }] }] }
+ *   A function may list `controls` directly instead of categories.
+ * - <id>.csv: function_id, function_name, category_id, category_name,
+ *   control_id, control_title, control_text, with catalog metadata in an
+ *   optional <id>.meta.json. Blank category columns fall back to the function.
+ *
+ * Definitions are synced into control_catalogs/csf_controls at startup and
+ * on demand. Catalogs whose definition hasn't changed are skipped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import * as XLSX from 'xlsx';
+import { prisma } from '../prisma';
+import { oscalCatalogService } from './oscalCatalog.service';
+
+export const DEFAULT_CATALOG_ID = 'nist-csf-2.0';
+export const NIST_80053_CATALOG_ID = 'nist-800-53-rev5';
+
+export interface CatalogControl {
+  id: string;
+  title: string;
+  text: string;
+  implementationExamples?: { id: string; title: string; text: string }[];
+  informativeReferences?: string[];
+}
+
+export interface CatalogCategory {
+  id: string;
+  name: string;
+  description?: string;
+  controls: CatalogControl[];
+}
+
+export interface CatalogFunction {
+  id: string;
+  name: string;
+  description?: string;
+  categories: CatalogCategory[];
+}
+
+export interface CatalogLevels {
+  function: string;
+  category: string;
+  control: string;
+}
+
+export interface CatalogDefinition {
+  id: string;
+  name: string;
+  version?: string;
+  publisher?: string;
+  description?: string;
+  levels: CatalogLevels;
+  functions: CatalogFunction[];
+  source: string;
+}
+
+// Stored in ControlCatalog.groups: the hierarchy without its controls
+export interface CatalogGroup {
+  id: string;
+  name: string;
+  description?: string;
+  categories: { id: string; name: string; description?: string }[];
+}
+
+export interface CatalogSyncResult {
+  id: string;
+  source: string;
+  status: 'LOADED' | 'UNCHANGED' | 'FAILED';
+  controlCount: number;
+  error?: string;
+}
+
+export class CatalogLoadError extends Error {}
+
+const DATA_DIR = path.join(__dirname, '../../data');
+const CATALOG_DIR = path.join(DATA_DIR, 'catalogs');
+const CSF_FILE = path.join(DATA_DIR, 'csf2_clean.json');
+
+const CATALOG_ID_PATTERN = /^[a-z0-9][a-z0-9.-]*$/;
+const CSV_COLUMNS = ['function_id', 'function_name', 'control_id', 'control_title'];
+
+const DEFAULT_LEVELS: CatalogLevels = { function: 'Function', category: 'Category', control: 'Control' };
+
+const str = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase());
+
+// Helper: the flat list of controls with their place in the hierarchy
+function flatten(definition: CatalogDefinition) {
+  return definition.functions.flatMap((fn) =>
+    fn.categories.flatMap((category) =>
+      category.controls.map((control) => ({ ...control, functionId: fn.id, categoryId: category.id }))
+    )
+  );
+}
+
+// Helper: reject definitions that can't be stored
+function validate(definition: CatalogDefinition): CatalogDefinition {
+  const where = path.basename(definition.source);
+  if (!CATALOG_ID_PATTERN.test(definition.id)) {
+    throw new CatalogLoadError(`${where}: invalid catalog id "${definition.id}"`);
+  }
+  if (!definition.name) {
+    throw new CatalogLoadError(`${where}: catalog name is required`);
+  }
+
+  const seen = new Set<string>();
+  for (const control of flatten(definition)) {
+    if (!control.id || !control.title) {
+      throw new CatalogLoadError(`${where}: every control needs an id and a title`);
+    }
+    if (seen.has(control.id)) {
+      throw new CatalogLoadError(`${where}: duplicate control id "${control.id}"`);
+    }
+    seen.add(control.id);
+  }
+  if (seen.size === 0) {
+    throw new CatalogLoadError(`${where}: catalog has no controls`);
+  }
+  return definition;
+}
+
+function parseControl(raw: any): CatalogControl {
+  const title = str(raw.title);
+  return {
+    id: str(raw.id),
+    title,
+    text: str(raw.text) || title,
+    ...(Array.isArray(raw.informativeReferences) && { informativeReferences: raw.informativeReferences.map(str) }),
+  };
+}
+
+/**
+ * Parse a catalog in the nested JSON format
+ */
+export function parseJsonCatalog(document: any, source: string): CatalogDefinition {
+  if (!document || typeof document !== 'object' || !Array.isArray(document.functions)) {
+    throw new CatalogLoadError(`${path.basename(source)}: expected an object with a "functions" array`);
+  }
+
+  const functions: CatalogFunction[] = document.functions.map((fn: any) => {
+    const id = str(fn.id);
+    const name = str(fn.name) || id;
+    const categories: any[] = Array.isArray(fn.categories)
+      ? fn.categories
+      : [{ id, name, controls: fn.controls }];
+
+    return {
+      id,
+      name,
+      ...(fn.description && { description: str(fn.description) }),
+      categories: categories.map((category) => ({
+        id: str(category.id),
+        name: str(category.name) || str(category.id),
+        ...(category.description && { description: str(category.description) }),
+        controls: (Array.isArray(category.controls) ? category.controls : []).map(parseControl),
+      })),
+    };
+  });
+
+  return validate({
+    id: str(document.id) || path.basename(source, '.json'),
+    name: str(document.name),
+    version: str(document.version) || undefined,
+    publisher: str(document.publisher) || undefined,
+    description: str(document.description) || undefined,
+    levels: { ...DEFAULT_LEVELS, ...document.levels },
+    functions,
+    source,
+  });
+}
+
+/**
+ * Parse a catalog from CSV rows plus its optional metadata
+ */
+export function parseCsvCatalog(content: string, meta: any, source: string): CatalogDefinition {
+  // raw keeps IDs such as "1.10" as strings instead of reading them as numbers
+  const workbook = XLSX.read(content, { type: 'string', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }) : [];
+
+  const missing = CSV_COLUMNS.filter((column) => rows.length > 0 && !(column in rows[0]));
+  if (rows.length === 0 || missing.length > 0) {
+    throw new CatalogLoadError(
+      `${path.basename(source)}: expected columns ${CSV_COLUMNS.join(', ')}` +
+        (missing.length > 0 ? ` (missing ${missing.join(', ')})` : '')
+    );
+  }
+
+  const functions = new Map<string, CatalogFunction>();
+  for (const row of rows) {
+    const functionId = str(row.function_id);
+    const categoryId = str(row.category_id) || functionId;
+    if (!functions.has(functionId)) {
+      functions.set(functionId, { id: functionId, name: str(row.function_name) || functionId, categories: [] });
+    }
+    const fn = functions.get(functionId)!;
+
+    let category = fn.categories.find((c) => c.id === categoryId);
+    if (!category) {
+      category = { id: categoryId, name: str(row.category_name) || fn.name, controls: [] };
+      fn.categories.push(category);
+    }
+    category.controls.push(parseControl({ id: row.control_id, title: row.control_title, text: row.control_text }));
+  }
+
+  return validate({
+    id: str(meta?.id) || path.basename(source, '.csv'),
+    name: str(meta?.name),
+    version: str(meta?.version) || undefined,
+    publisher: str(meta?.publisher) || undefined,
+    description: str(meta?.description) || undefined,
+    levels: { ...DEFAULT_LEVELS, ...meta?.levels },
+    functions: Array.from(functions.values()),
+    source,
+  });
+}
+
+// Helper: NIST CSF 2.0 from the CPRT export (functions, categories, subcategories, examples)
+function loadCsf(): CatalogDefinition {
+  const elements: any[] = JSON.parse(fs.readFileSync(CSF_FILE, 'utf8')).response.elements.elements;
+  const ofType = (type: string) => elements.filter((e) => e.element_type === type);
+
+  // Subcategories repeat; keep the entry with text
+  const subcategories = new Map<string, any>();
+  for (const sub of ofType('subcategory')) {
+    const existing = subcategories.get(sub.element_identifier);
+    if (!existing || (str(sub.text) && !str(existing.text))) {
+      subcategories.set(sub.element_identifier, sub);
+    }
+  }
+
+  // Implementation example IDs are like "GV.OC-01.001" where parent is "GV.OC-01"
+  const examples = new Map<string, CatalogControl['implementationExamples']>();
+  for (const example of ofType('implementation_example')) {
+    const parent = example.element_identifier.split('.').slice(0, 2).join('.');
+    if (!examples.has(parent)) examples.set(parent, []);
+    examples.get(parent)!.push({ id: example.element_identifier, title: example.title, text: example.text });
+  }
+
+  const categoryTitles = new Map<string, any>();
+  for (const category of ofType('category')) {
+    if (!categoryTitles.has(category.element_identifier)) categoryTitles.set(category.element_identifier, category);
+  }
+
+  const functions: CatalogFunction[] = ofType('function').map((fn) => {
+    const byCategory = new Map<string, CatalogControl[]>();
+    for (const sub of Array.from(subcategories.values()).sort((a, b) => a.element_identifier.localeCompare(b.element_identifier))) {
+      const [functionId, rest] = sub.element_identifier.split('.');
+      if (functionId !== fn.element_identifier || !str(sub.text)) continue;
+      const categoryId = `${functionId}.${rest.split('-')[0]}`;
+      if (!byCategory.has(categoryId)) byCategory.set(categoryId, []);
+      byCategory.get(categoryId)!.push({
+        id: sub.element_identifier,
+        title: str(categoryTitles.get(categoryId)?.title) || sub.element_identifier,
+        text: str(sub.text),
+        implementationExamples: examples.get(sub.element_identifier) || [],
+        informativeReferences: [],
+      });
+    }
+
+    return {
+      id: fn.element_identifier,
+      name: titleCase(str(fn.title)),
+      description: str(fn.text),
+      categories: Array.from(byCategory.entries()).map(([id, controls]) => ({
+        id,
+        name: str(categoryTitles.get(id)?.title) || id,
+        description: str(categoryTitles.get(id)?.text),
+        controls,
+      })),
+    };
+  });
+
+  return validate({
+    id: DEFAULT_CATALOG_ID,
+    name: 'NIST Cybersecurity Framework',
+    version: '2.0',
+    publisher: 'NIST',
+    description: 'NIST CSF 2.0 functions, categories and subcategories with implementation examples',
+    levels: { function: 'Function', category: 'Category', control: 'Subcategory' },
+    functions,
+    source: CSF_FILE,
+  });
+}
+
+// Helper: NIST 800-53 Rev 5 from the imported OSCAL catalog (or its bundled fallback)
+function loadNist80053(): CatalogDefinition {
+  const data = oscalCatalogService.getCatalog();
+
+  const functions: CatalogFunction[] = data.families
+    .map((family) => ({
+      id: family.id,
+      name: family.name,
+      categories: data.controls
+        .filter((control) => control.family === family.id)
+        .map((control) => ({
+          id: control.id,
+          name: control.title,
+          controls: [
+            { id: control.id, title: control.title, text: control.statement || control.description },
+            ...control.enhancements.map((enhancement) => ({
+              id: enhancement.id,
+              title: `${control.title} | ${enhancement.title}`,
+              text: enhancement.statement || enhancement.title,
+            })),
+          ],
+        })),
+    }))
+    .filter((family) => family.categories.length > 0);
+
+  return validate({
+    id: NIST_80053_CATALOG_ID,
+    name: 'NIST SP 800-53',
+    version: data.metadata.version || 'Rev 5',
+    publisher: 'NIST',
+    description: 'Security and privacy controls and control enhancements',
+    levels: { function: 'Family', category: 'Control', control: 'Control / Enhancement' },
+    functions,
+    source: path.join(DATA_DIR, data.metadata.format === 'OSCAL' ? 'oscal/catalog.json' : 'nist-800-53-rev5.json'),
+  });
+}
+
+class ControlCatalogService {
+  private groups = new Map<string, CatalogGroup[]>();
+
+  /**
+   * Read every catalog definition from disk. Files that fail to parse are
+   * reported instead of stopping the others from loading.
+   */
+  loadDefinitions(): { definitions: CatalogDefinition[]; failures: CatalogSyncResult[] } {
+    const definitions: CatalogDefinition[] = [];
+    const failures: CatalogSyncResult[] = [];
+
+    const attempt = (source: string, load: () => CatalogDefinition) => {
+      try {
+        definitions.push(load());
+      } catch (error) {
+        failures.push({
+          id: path.basename(source).replace(/\.(json|csv)$/, ''),
+          source,
+          status: 'FAILED',
+          controlCount: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    attempt(CSF_FILE, loadCsf);
+    attempt(`${NIST_80053_CATALOG_ID}.json`, loadNist80053);
+
+    const files = fs.existsSync(CATALOG_DIR) ? fs.readdirSync(CATALOG_DIR).sort() : [];
+    for (const file of files) {
+      const source = path.join(CATALOG_DIR, file);
+      if (file.endsWith('.meta.json')) continue;
+
+      if (file.endsWith('.json')) {
+        attempt(source, () => {
+          let document: unknown;
+          try {
+            document = JSON.parse(fs.readFileSync(source, 'utf8'));
+          } catch {
+            throw new CatalogLoadError(`${file}: not valid JSON`);
+          }
+          return parseJsonCatalog(document, source);
+        });
+      } else if (file.endsWith('.csv')) {
+        attempt(source, () => {
+          const metaFile = source.replace(/\.csv$/, '.meta.json');
+          const meta = fs.existsSync(metaFile) ? JSON.parse(fs.readFileSync(metaFile, 'utf8')) : {};
+          return parseCsvCatalog(fs.readFileSync(source, 'utf8'), meta, source);
+        });
+      }
+    }
+
+    return { definitions, failures };
+  }
+
+  /**
+   * Store one catalog and its controls, replacing the previous version
+   */
+  async sync(definition: CatalogDefinition): Promise<CatalogSyncResult> {
+    const controls = flatten(definition);
+    const checksum = createHash('sha256').update(JSON.stringify(definition)).digest('hex');
+    const result: CatalogSyncResult = {
+      id: definition.id,
+      source: definition.source,
+      status: 'UNCHANGED',
+      controlCount: controls.length,
+    };
+
+    const existing = await prisma.controlCatalog.findUnique({
+      where: { id: definition.id },
+      select: { checksum: true },
+    });
+    if (existing?.checksum === checksum) return result;
+
+    // Control IDs are the primary key, so two catalogs can't share one
+    const stored = await prisma.cSFControl.findMany({ select: { id: true, catalogId: true } });
+    const owners = new Map(stored.map((c) => [c.id, c.catalogId]));
+    const clashes = controls.filter((c) => owners.has(c.id) && owners.get(c.id) !== definition.id);
+    if (clashes.length > 0) {
+      throw new CatalogLoadError(
+        `${definition.id}: control IDs already used by another catalog: ` +
+          clashes.slice(0, 5).map((c) => `${c.id} (${owners.get(c.id)})`).join(', ')
+      );
+    }
+
+    const ids = new Set(controls.map((c) => c.id));
+    const removed = stored.filter((c) => c.catalogId === definition.id && !ids.has(c.id)).map((c) => c.id);
+
+    const groups: CatalogGroup[] = definition.functions.map((fn) => ({
+      id: fn.id,
+      name: fn.name,
+      description: fn.description,
+      categories: fn.categories.map(({ id, name, description }) => ({ id, name, description })),
+    }));
+
+    const catalog = {
+      name: definition.name,
+      version: definition.version ?? null,
+      publisher: definition.publisher ?? null,
+      description: definition.description ?? null,
+      functionLabel: definition.levels.function,
+      categoryLabel: definition.levels.category,
+      controlLabel: definition.levels.control,
+      groups: JSON.stringify(groups),
+      source: path.relative(path.join(DATA_DIR, '..'), definition.source),
+      checksum,
+      loadedAt: new Date(),
+    };
+
+    await prisma.$transaction([
+      prisma.controlCatalog.upsert({
+        where: { id: definition.id },
+        create: { id: definition.id, ...catalog },
+        update: catalog,
+      }),
+      prisma.cSFControl.deleteMany({ where: { id: { in: removed } } }),
+      ...controls.map((control, sortOrder) => {
+        const data = {
+          catalogId: definition.id,
+          functionId: control.functionId,
+          categoryId: control.categoryId,
+          title: control.title,
+          text: control.text,
+          implementationExamples: JSON.stringify(control.implementationExamples || []),
+          informativeReferences: JSON.stringify(control.informativeReferences || []),
+          sortOrder,
+        };
+        return prisma.cSFControl.upsert({
+          where: { id: control.id },
+          create: { id: control.id, ...data },
+          update: data,
+        });
+      }),
+    ]);
+
+    this.groups.delete(definition.id);
+    return { ...result, status: 'LOADED' };
+  }
+
+  /**
+   * Load every catalog from disk and sync the ones that changed
+   */
+  async syncAll(): Promise<CatalogSyncResult[]> {
+    const { definitions, failures } = this.loadDefinitions();
+    const results: CatalogSyncResult[] = [];
+
+    for (const definition of definitions) {
+      try {
+        results.push(await this.sync(definition));
+      } catch (error) {
+        if (!(error instanceof CatalogLoadError)) throw error;
+        results.push({
+          id: definition.id,
+          source: definition.source,
+          status: 'FAILED',
+          controlCount: 0,
+          error: error.message,
+        });
+      }
+    }
+
+    for (const failure of [...failures, ...results.filter((r) => r.status === 'FAILED')]) {
+      console.warn(`Control catalog ${failure.id} not loaded: ${failure.error}`);
+    }
+    return [...results, ...failures];
+  }
+
+  /**
+   * Re-sync one catalog (e.g. 800-53 after an OSCAL import)
+   */
+  async syncCatalog(catalogId: string): Promise<CatalogSyncResult> {
+    const { definitions, failures } = this.loadDefinitions();
+    const definition = definitions.find((d) => d.id === catalogId);
+    if (!definition) {
+      const failure = failures.find((f) => f.id === catalogId);
+      throw new CatalogLoadError(failure?.error || `Unknown control catalog "${catalogId}"`);
+    }
+    return this.sync(definition);
+  }
+
+  /**
+   * The function -> category hierarchy of a catalog (without controls)
+   */
+  async getGroups(catalogId: string): Promise<CatalogGroup[]> {
+    const cached = this.groups.get(catalogId);
+    if (cached) return cached;
+
+    const catalog = await prisma.controlCatalog.findUnique({
+      where: { id: catalogId },
+      select: { groups: true },
+    });
+    const groups: CatalogGroup[] = catalog ? JSON.parse(catalog.groups) : [];
+    this.groups.set(catalogId, groups);
+    return groups;
+  }
+
+  /**
+   * Function and category names by ID, across the given catalogs (or all)
+   */
+  async getGroupNames(catalogIds?: string[]) {
+    const ids = catalogIds ?? (await prisma.controlCatalog.findMany({ select: { id: true } })).map((c) => c.id);
+    const functions = new Map<string, { name: string; description?: string }>();
+    const categories = new Map<string, { name: string; description?: string }>();
+
+    for (const id of ids) {
+      for (const fn of await this.getGroups(id)) {
+        if (!functions.has(fn.id)) functions.set(fn.id, { name: fn.name, description: fn.description });
+        for (const category of fn.categories) {
+          if (!categories.has(category.id)) {
+            categories.set(category.id, { name: category.name, description: category.description });
+          }
+        }
+      }
+    }
+    return { functions, categories };
+  }
+
+  async exists(catalogId: string): Promise<boolean> {
+    return (await prisma.controlCatalog.count({ where: { id: catalogId } })) > 0;
+  }
+
+  async getProductCatalogId(productId: string): Promise<string> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { catalogId: true },
+    });
+    return product?.catalogId || DEFAULT_CATALOG_ID;
+  }
+
+  /**
+   * Which of the given control IDs are not in the catalog
+   */
+  async findUnknownControls(catalogId: string, controlIds: string[]): Promise<string[]> {
+    if (controlIds.length === 0) return [];
+    const known = await prisma.cSFControl.findMany({
+      where: { catalogId, id: { in: Array.from(new Set(controlIds)) } },
+      select: { id: true },
+    });
+    const ids = new Set(known.map((c) => c.id));
+    return controlIds.filter((id) => !ids.has(id));
+  }
+}
+
+export const controlCatalogService = new ControlCatalogService();
+export default controlCatalogService;
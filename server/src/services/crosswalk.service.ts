@@ -0,0 +1,491 @@
+/**
+ * Crosswalk Service
+ *
+ * Projects a product's assessment results from its own control catalog onto
+ * another catalog through control-to-control mappings, so one assessment pass
+ * can be reported against several frameworks.
+ *
+ * Mappings come from:
+ * - the NIST CSF 2.0 -> 800-53 informative references (nist_80053_mappings)
+ * - data/crosswalks/<id>.json: { id, name, sourceCatalogId, targetCatalogId,
+ *   description, mappings: [{ source, target, relationship, confidence }] }
+ *
+ * A mapping reads "source <relationship> target" (EQUIVALENT, SUBSET_OF,
+ * SUPERSET_OF, INTERSECTS) and is used in both directions. When a target
+ * control has no direct mapping from the product's catalog, one hop through a
+ * third catalog is tried (e.g. ISO 27001 -> CSF 2.0 -> 800-53).
+ *
+ * Each mapped source control contributes a weight (relationship x confidence)
+ * for how much of the target it covers. A target's confidence combines the
+ * weights of all its sources; a target inferred COMPLIANT with at least
+ * SATISFIED_MIN_CONFIDENCE is flagged as satisfied via mapping.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { prisma } from '../prisma';
+import { controlCatalogService, DEFAULT_CATALOG_ID, NIST_80053_CATALOG_ID } from './controlCatalog.service';
+
+export const MAPPING_RELATIONSHIPS = ['EQUIVALENT', 'SUBSET_OF', 'SUPERSET_OF', 'INTERSECTS'] as const;
+export type MappingRelationship = (typeof MAPPING_RELATIONSHIPS)[number];
+
+export const MAPPING_CONFIDENCES = ['HIGH', 'MEDIUM', 'LOW'] as const;
+export type MappingConfidence = (typeof MAPPING_CONFIDENCES)[number];
+
+export type CrosswalkGap = 'UNMAPPED' | 'NOT_ASSESSED' | 'NON_COMPLIANT' | 'PARTIALLY_COMPLIANT' | 'LOW_CONFIDENCE';
+
+export interface Crosswalk {
+  id: string;
+  name: string;
+  description?: string;
+  sourceCatalogId: string;
+  targetCatalogId: string;
+  mappingCount: number;
+  source: string;
+}
+
+interface MappingEdge {
+  source: string;
+  target: string;
+  relationship: MappingRelationship;
+  confidence: MappingConfidence;
+  crosswalkId: string;
+}
+
+export interface ProjectedMapping {
+  sourceControlId: string;
+  sourceTitle: string;
+  relationship: MappingRelationship;
+  weight: number;
+  // Pivot control when the mapping goes through a third catalog
+  via: string | null;
+  crosswalkIds: string[];
+}
+
+export interface ProjectedSystemResult {
+  status: string;
+  coverage: number;
+  satisfiedViaMapping: boolean;
+  assessmentIds: string[];
+}
+
+export interface ProjectedControl {
+  controlId: string;
+  title: string;
+  functionId: string;
+  categoryId: string;
+  mappings: ProjectedMapping[];
+  confidence: number;
+  confidenceLevel: MappingConfidence | null;
+  status: string;
+  satisfiedViaMapping: boolean;
+  gap: CrosswalkGap | null;
+  systems: Record<string, ProjectedSystemResult>;
+  evidence: {
+    id: string;
+    originalName: string;
+    isExpired: boolean;
+    assessmentId: string;
+    sourceControlId: string;
+    systemId: string;
+  }[];
+}
+
+export interface CrosswalkProjection {
+  productId: string;
+  sourceCatalogId: string;
+  targetCatalogId: string;
+  systems: { id: string; name: string }[];
+  summary: {
+    totalControls: number;
+    mappedControls: number;
+    satisfiedViaMapping: number;
+    averageConfidence: number;
+    byStatus: Record<string, number>;
+    byGap: Record<string, number>;
+    byFunction: { functionId: string; name: string; total: number; mapped: number; satisfied: number }[];
+  };
+  controls: ProjectedControl[];
+}
+
+export class CrosswalkError extends Error {}
+
+const CROSSWALK_DIR = path.join(__dirname, '../../data/crosswalks');
+const BUILT_IN_CROSSWALK_ID = 'nist-csf-2.0_nist-800-53-rev5';
+
+// How much of the target a source covers, by "source <relationship> target"
+const RELATIONSHIP_WEIGHTS: Record<MappingRelationship, number> = {
+  EQUIVALENT: 1,
+  SUPERSET_OF: 1,
+  SUBSET_OF: 0.6,
+  INTERSECTS: 0.5,
+};
+
+const CONFIDENCE_WEIGHTS: Record<MappingConfidence, number> = {
+  HIGH: 1,
+  MEDIUM: 0.8,
+  LOW: 0.5,
+};
+
+export const SATISFIED_MIN_CONFIDENCE = 0.75;
+
+const INVERSE: Record<MappingRelationship, MappingRelationship> = {
+  EQUIVALENT: 'EQUIVALENT',
+  SUBSET_OF: 'SUPERSET_OF',
+  SUPERSET_OF: 'SUBSET_OF',
+  INTERSECTS: 'INTERSECTS',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const confidenceLevel = (confidence: number): MappingConfidence =>
+  confidence >= 0.75 ? 'HIGH' : confidence >= 0.5 ? 'MEDIUM' : 'LOW';
+
+// Helper: relationship of a two-hop path s -> p -> t
+function compose(first: MappingRelationship, second: MappingRelationship): MappingRelationship {
+  if (first === 'EQUIVALENT') return second;
+  if (second === 'EQUIVALENT') return first;
+  if (first === second && first !== 'INTERSECTS') return first;
+  return 'INTERSECTS';
+}
+
+// Assessments are stored with either the enum or the display status;
+// inference works with the enum
+const ENUM_STATUSES: Record<string, string> = {
+  Implemented: 'COMPLIANT',
+  'Partially Implemented': 'PARTIALLY_COMPLIANT',
+  'Not Implemented': 'NON_COMPLIANT',
+  'Not Assessed': 'NOT_ASSESSED',
+  'Not Applicable': 'NOT_APPLICABLE',
+};
+
+// Helper: inferred status of a target from the statuses of its mapped sources
+function inferStatus(sources: { weight: number; status: string }[]): string {
+  const applicable = sources.filter((s) => s.status !== 'NOT_APPLICABLE');
+  if (sources.length > 0 && applicable.length === 0) return 'NOT_APPLICABLE';
+
+  const assessed = applicable.filter((s) => s.status !== 'NOT_ASSESSED');
+  if (assessed.length === 0) return 'NOT_ASSESSED';
+  if (assessed.every((s) => s.status === 'NON_COMPLIANT')) return 'NON_COMPLIANT';
+
+  if (assessed.every((s) => s.status === 'COMPLIANT')) {
+    // Either every source is assessed, or one compliant source covers the whole target
+    const complete = assessed.length === applicable.length || assessed.some((s) => s.weight >= 1);
+    return complete ? 'COMPLIANT' : 'PARTIALLY_COMPLIANT';
+  }
+  return 'PARTIALLY_COMPLIANT';
+}
+
+// Helper: one status for a control across systems
+function combineStatuses(statuses: string[]): string {
+  const applicable = statuses.filter((s) => s !== 'NOT_APPLICABLE');
+  if (statuses.length > 0 && applicable.length === 0) return 'NOT_APPLICABLE';
+  if (applicable.length === 0) return 'NOT_ASSESSED';
+  for (const status of ['COMPLIANT', 'NOT_ASSESSED']) {
+    if (applicable.every((s) => s === status)) return status;
+  }
+  // Non-compliant systems with nothing met elsewhere
+  if (applicable.every((s) => s === 'NON_COMPLIANT' || s === 'NOT_ASSESSED')) return 'NON_COMPLIANT';
+  return 'PARTIALLY_COMPLIANT';
+}
+
+// Helper: validate one crosswalk file
+function parseCrosswalkFile(file: string): { crosswalk: Crosswalk; edges: MappingEdge[] } {
+  const name = path.basename(file);
+  let doc: any;
+  try {
+    doc = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    throw new CrosswalkError(`${name}: not valid JSON`);
+  }
+
+  if (!doc?.id || !doc.sourceCatalogId || !doc.targetCatalogId || !Array.isArray(doc.mappings)) {
+    throw new CrosswalkError(`${name}: id, sourceCatalogId, targetCatalogId and mappings are required`);
+  }
+
+  const edges: MappingEdge[] = doc.mappings.map((m: any, index: number) => {
+    const relationship = String(m.relationship || 'INTERSECTS').toUpperCase() as MappingRelationship;
+    const confidence = String(m.confidence || 'MEDIUM').toUpperCase() as MappingConfidence;
+    if (!m.source || !m.target) {
+      throw new CrosswalkError(`${name}: mapping ${index + 1} needs a source and a target`);
+    }
+    if (!MAPPING_RELATIONSHIPS.includes(relationship) || !MAPPING_CONFIDENCES.includes(confidence)) {
+      throw new CrosswalkError(`${name}: mapping ${index + 1} has an unknown relationship or confidence`);
+    }
+    return { source: String(m.source), target: String(m.target), relationship, confidence, crosswalkId: doc.id };
+  });
+
+  return {
+    crosswalk: {
+      id: doc.id,
+      name: doc.name || doc.id,
+      description: doc.description,
+      sourceCatalogId: doc.sourceCatalogId,
+      targetCatalogId: doc.targetCatalogId,
+      mappingCount: edges.length,
+      source: path.relative(path.join(CROSSWALK_DIR, '../..'), file),
+    },
+    edges,
+  };
+}
+
+class CrosswalkService {
+  private files: { crosswalks: Crosswalk[]; edges: MappingEdge[] } | null = null;
+
+  /**
+   * Re-read data/crosswalks on next use
+   */
+  reload() {
+    this.files = null;
+  }
+
+  // Crosswalk files are read once and cached until reload()
+  private loadFiles() {
+    if (this.files) return this.files;
+
+    const crosswalks: Crosswalk[] = [];
+    const edges: MappingEdge[] = [];
+    const files = fs.existsSync(CROSSWALK_DIR) ? fs.readdirSync(CROSSWALK_DIR).sort() : [];
+
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const parsed = parseCrosswalkFile(path.join(CROSSWALK_DIR, file));
+        crosswalks.push(parsed.crosswalk);
+        edges.push(...parsed.edges);
+      } catch (error) {
+        console.warn(`Crosswalk ${file} not loaded: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    this.files = { crosswalks, edges };
+    return this.files;
+  }
+
+  private async getEdges(): Promise<MappingEdge[]> {
+    const references = await prisma.nIST80053Mapping.findMany({
+      select: { csfControlId: true, nist80053Id: true },
+    });
+    const builtIn: MappingEdge[] = references.map((m) => ({
+      source: m.csfControlId,
+      target: m.nist80053Id,
+      relationship: 'INTERSECTS',
+      confidence: 'HIGH',
+      crosswalkId: BUILT_IN_CROSSWALK_ID,
+    }));
+    return [...builtIn, ...this.loadFiles().edges];
+  }
+
+  /**
+   * All crosswalks, the built-in CSF -> 800-53 references first
+   */
+  async listCrosswalks(): Promise<Crosswalk[]> {
+    const referenceCount = await prisma.nIST80053Mapping.count();
+    return [
+      {
+        id: BUILT_IN_CROSSWALK_ID,
+        name: 'NIST CSF 2.0 to NIST SP 800-53',
+        description: 'Informative references from CSF 2.0 subcategories to 800-53 controls',
+        sourceCatalogId: DEFAULT_CATALOG_ID,
+        targetCatalogId: NIST_80053_CATALOG_ID,
+        mappingCount: referenceCount,
+        source: 'data/csf-800-53-mappings.json',
+      },
+      ...this.loadFiles().crosswalks,
+    ];
+  }
+
+  /**
+   * Inferred status, coverage, evidence and gaps of a product's assessments
+   * projected onto every control of another catalog
+   */
+  async project(productId: string, targetCatalogId: string): Promise<CrosswalkProjection> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, catalogId: true, systems: { select: { id: true, name: true }, orderBy: { name: 'asc' } } },
+    });
+    if (!product) {
+      throw new CrosswalkError('Product not found');
+    }
+    const sourceCatalogId = product.catalogId;
+    if (targetCatalogId === sourceCatalogId) {
+      throw new CrosswalkError("Target catalog is the product's own catalog");
+    }
+    if (!(await controlCatalogService.exists(targetCatalogId))) {
+      throw new CrosswalkError('Unknown control catalog');
+    }
+
+    const [controls, edges, assessments] = await Promise.all([
+      prisma.cSFControl.findMany({
+        select: { id: true, catalogId: true, title: true, functionId: true, categoryId: true, sortOrder: true },
+        orderBy: { sortOrder: 'asc' },
+      }),
+      this.getEdges(),
+      prisma.complianceAssessment.findMany({
+        where: { system: { productId } },
+        select: {
+          id: true,
+          subcategoryId: true,
+          status: true,
+          systemId: true,
+          evidenceFiles: { select: { id: true, originalName: true, isExpired: true } },
+        },
+      }),
+    ]);
+
+    const catalogOf = new Map(controls.map((c) => [c.id, c.catalogId]));
+    const titles = new Map(controls.map((c) => [c.id, c.title]));
+
+    // Adjacency as "other <relationship> control", so weights read source -> target
+    const adjacency = new Map<string, { other: string; relationship: MappingRelationship; weight: number; crosswalkId: string }[]>();
+    const link = (from: string, to: string, relationship: MappingRelationship, edge: MappingEdge) => {
+      if (!catalogOf.has(from) || !catalogOf.has(to)) return;
+      const weight = RELATIONSHIP_WEIGHTS[relationship] * CONFIDENCE_WEIGHTS[edge.confidence];
+      adjacency.set(to, [...(adjacency.get(to) || []), { other: from, relationship, weight, crosswalkId: edge.crosswalkId }]);
+    };
+    for (const edge of edges) {
+      link(edge.source, edge.target, edge.relationship, edge);
+      link(edge.target, edge.source, INVERSE[edge.relationship], edge);
+    }
+
+    const assessmentsBySystemControl = new Map(assessments.map((a) => [`${a.systemId}:${a.subcategoryId}`, a]));
+
+    // Helper: best path from each source-catalog control to a target control
+    const mappingsFor = (targetId: string): ProjectedMapping[] => {
+      const best = new Map<string, ProjectedMapping>();
+      const consider = (mapping: ProjectedMapping) => {
+        const existing = best.get(mapping.sourceControlId);
+        if (!existing || mapping.weight > existing.weight) best.set(mapping.sourceControlId, mapping);
+      };
+
+      const neighbours = adjacency.get(targetId) || [];
+      for (const n of neighbours) {
+        if (catalogOf.get(n.other) !== sourceCatalogId) continue;
+        consider({
+          sourceControlId: n.other,
+          sourceTitle: titles.get(n.other) || n.other,
+          relationship: n.relationship,
+          weight: n.weight,
+          via: null,
+          crosswalkIds: [n.crosswalkId],
+        });
+      }
+      if (best.size > 0) return Array.from(best.values());
+
+      // No direct mapping: one hop through a control of a third catalog
+      for (const pivot of neighbours) {
+        const pivotCatalog = catalogOf.get(pivot.other);
+        if (pivotCatalog === sourceCatalogId || pivotCatalog === targetCatalogId) continue;
+        for (const n of adjacency.get(pivot.other) || []) {
+          if (catalogOf.get(n.other) !== sourceCatalogId) continue;
+          consider({
+            sourceControlId: n.other,
+            sourceTitle: titles.get(n.other) || n.other,
+            relationship: compose(n.relationship, pivot.relationship),
+            weight: n.weight * pivot.weight,
+            via: pivot.other,
+            crosswalkIds: Array.from(new Set([n.crosswalkId, pivot.crosswalkId])),
+          });
+        }
+      }
+      return Array.from(best.values());
+    };
+
+    const projected: ProjectedControl[] = controls
+      .filter((c) => c.catalogId === targetCatalogId)
+      .map((control) => {
+        const mappings = mappingsFor(control.id).sort((a, b) => b.weight - a.weight);
+        const confidence = mappings.length > 0 ? round(1 - mappings.reduce((rest, m) => rest * (1 - m.weight), 1)) : 0;
+
+        const systems: Record<string, ProjectedSystemResult> = {};
+        const evidence: ProjectedControl['evidence'] = [];
+        for (const system of product.systems) {
+          const sources = mappings.map((m) => {
+            const assessment = assessmentsBySystemControl.get(`${system.id}:${m.sourceControlId}`);
+            assessment?.evidenceFiles.forEach((file) =>
+              evidence.push({ ...file, assessmentId: assessment.id, sourceControlId: m.sourceControlId, systemId: system.id })
+            );
+            const status = assessment ? ENUM_STATUSES[assessment.status] ?? assessment.status : 'NOT_ASSESSED';
+            return { weight: m.weight, status, assessmentId: assessment?.id };
+          });
+
+          const applicable = sources.filter((s) => s.status !== 'NOT_APPLICABLE');
+          const total = applicable.reduce((sum, s) => sum + s.weight, 0);
+          const assessed = applicable.filter((s) => s.status !== 'NOT_ASSESSED').reduce((sum, s) => sum + s.weight, 0);
+          const status = mappings.length > 0 ? inferStatus(sources) : 'NOT_ASSESSED';
+
+          systems[system.id] = {
+            status,
+            coverage: total > 0 ? round(assessed / total) : 0,
+            satisfiedViaMapping: status === 'COMPLIANT' && confidence >= SATISFIED_MIN_CONFIDENCE,
+            assessmentIds: sources.flatMap((s) => (s.assessmentId ? [s.assessmentId] : [])),
+          };
+        }
+
+        const results = Object.values(systems);
+        const status = combineStatuses(results.map((r) => r.status));
+        const satisfiedViaMapping =
+          results.some((r) => r.satisfiedViaMapping) &&
+          results.every((r) => r.satisfiedViaMapping || r.status === 'NOT_APPLICABLE');
+
+        let gap: CrosswalkGap | null = null;
+        if (mappings.length === 0) gap = 'UNMAPPED';
+        else if (status === 'NOT_ASSESSED' || status === 'NON_COMPLIANT' || status === 'PARTIALLY_COMPLIANT') gap = status;
+        else if (status === 'COMPLIANT' && !satisfiedViaMapping) gap = 'LOW_CONFIDENCE';
+
+        return {
+          controlId: control.id,
+          title: control.title,
+          functionId: control.functionId,
+          categoryId: control.categoryId,
+          mappings,
+          confidence,
+          confidenceLevel: mappings.length > 0 ? confidenceLevel(confidence) : null,
+          status,
+          satisfiedViaMapping,
+          gap,
+          systems,
+          evidence,
+        };
+      });
+
+    const mapped = projected.filter((c) => c.mappings.length > 0);
+    const countBy = (key: (c: ProjectedControl) => string | null) =>
+      projected.reduce<Record<string, number>>((counts, c) => {
+        const value = key(c);
+        if (value) counts[value] = (counts[value] || 0) + 1;
+        return counts;
+      }, {});
+
+    const groups = await controlCatalogService.getGroups(targetCatalogId);
+    const byFunction = groups.map((fn) => {
+      const inFunction = projected.filter((c) => c.functionId === fn.id);
+      return {
+        functionId: fn.id,
+        name: fn.name,
+        total: inFunction.length,
+        mapped: inFunction.filter((c) => c.mappings.length > 0).length,
+        satisfied: inFunction.filter((c) => c.satisfiedViaMapping).length,
+      };
+    });
+
+    return {
+      productId,
+      sourceCatalogId,
+      targetCatalogId,
+      systems: product.systems,
+      summary: {
+        totalControls: projected.length,
+        mappedControls: mapped.length,
+        satisfiedViaMapping: projected.filter((c) => c.satisfiedViaMapping).length,
+        averageConfidence: mapped.length > 0 ? round(mapped.reduce((sum, c) => sum + c.confidence, 0) / mapped.length) : 0,
+        byStatus: countBy((c) => c.status),
+        byGap: countBy((c) => c.gap),
+        byFunction,
+      },
+      controls: projected,
+    };
+  }
+}
+
+export const crosswalkService = new CrosswalkService();
+export default crosswalkService;
@@ -0,0 +1,288 @@
+/**
+ * CSF Profile Service
+ *
+ * Current and Target Organizational Profiles (NIST CSF 2.0) with
+ * Implementation Tiers 1-4:
+ * - Tiers can be set per subcategory, per category, per profile or for the
+ *   whole organization; the most specific setting wins
+ * - Gaps are computed per subcategory (target tier - current tier) over the
+ *   product's applicable baseline, or its full control catalog when no
+ *   baseline is set
+ */
+
+import { prisma } from '../prisma';
+import { controlCatalogService } from './controlCatalog.service';
+
+export const PROFILE_TYPES = ['CURRENT', 'TARGET'] as const;
+export type ProfileType = (typeof PROFILE_TYPES)[number];
+
+export const IMPLEMENTATION_TIERS = [1, 2, 3, 4] as const;
+
+export const TIER_NAMES: Record<number, string> = {
+  1: 'Partial',
+  2: 'Risk Informed',
+  3: 'Repeatable',
+  4: 'Adaptive',
+};
+
+const ORGANIZATION_TIER_ID = 'default';
+
+export class ProfileTargetError extends Error {}
+
+// Where an effective tier came from, most specific first
+export type TierSource = 'SUBCATEGORY' | 'CATEGORY' | 'PROFILE' | 'ORGANIZATION';
+
+export interface SubcategoryGap {
+  subcategoryId: string;
+  categoryId: string;
+  functionId: string;
+  title: string;
+  categoryLevel: string | null;
+  currentTier: number;
+  currentSource: TierSource;
+  targetTier: number;
+  targetSource: TierSource;
+  gap: number;
+}
+
+export interface GroupGap {
+  id: string;
+  subcategoryCount: number;
+  gapCount: number;
+  averageCurrentTier: number;
+  averageTargetTier: number;
+  totalGap: number;
+}
+
+export interface ProfileGapReport {
+  productId: string;
+  scope: 'BASELINE' | 'FULL_CSF';
+  organizationTier: { currentTier: number; targetTier: number };
+  profileTiers: { current: number; target: number };
+  summary: GroupGap & { maxGap: number; gapsByTier: Record<number, number> };
+  byFunction: GroupGap[];
+  byCategory: (GroupGap & { functionId: string })[];
+  subcategories: SubcategoryGap[];
+}
+
+// Category code from a subcategory ID (e.g., "DE.AE-01" -> "DE.AE")
+export const categoryOf = (subcategoryId: string) => subcategoryId.split('-')[0];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Helper: roll a set of subcategory gaps up into one group
+function summarize(id: string, rows: SubcategoryGap[]): GroupGap {
+  const count = rows.length || 1;
+  return {
+    id,
+    subcategoryCount: rows.length,
+    gapCount: rows.filter((r) => r.gap > 0).length,
+    averageCurrentTier: round(rows.reduce((sum, r) => sum + r.currentTier, 0) / count),
+    averageTargetTier: round(rows.reduce((sum, r) => sum + r.targetTier, 0) / count),
+    totalGap: rows.reduce((sum, r) => sum + Math.max(r.gap, 0), 0),
+  };
+}
+
+class CSFProfileService {
+  /**
+   * Organization-wide tiers, created with defaults on first read
+   */
+  async getOrganizationTier() {
+    return prisma.organizationTier.upsert({
+      where: { id: ORGANIZATION_TIER_ID },
+      update: {},
+      create: { id: ORGANIZATION_TIER_ID },
+    });
+  }
+
+  async updateOrganizationTier(
+    data: { currentTier?: number; targetTier?: number; notes?: string | null },
+    userId: string
+  ) {
+    return prisma.organizationTier.upsert({
+      where: { id: ORGANIZATION_TIER_ID },
+      update: { ...data, updatedById: userId },
+      create: { id: ORGANIZATION_TIER_ID, ...data, updatedById: userId },
+    });
+  }
+
+  /**
+   * Both profiles for a product with their entries; missing profiles are
+   * returned as empty placeholders so callers always get CURRENT and TARGET
+   */
+  async getProfiles(productId: string) {
+    const profiles = await prisma.cSFProfile.findMany({
+      where: { productId },
+      include: { entries: { orderBy: { targetId: 'asc' } } },
+    });
+
+    return PROFILE_TYPES.map(
+      (type) =>
+        profiles.find((p) => p.type === type) || {
+          id: null,
+          productId,
+          type,
+          tier: null,
+          description: null,
+          updatedById: null,
+          createdAt: null,
+          updatedAt: null,
+          entries: [],
+        }
+    );
+  }
+
+  /**
+   * Update a profile's tier/description and upsert or clear entries
+   * (an entry with tier null falls back to the next level)
+   */
+  async updateProfile(
+    productId: string,
+    type: ProfileType,
+    data: {
+      tier?: number | null;
+      description?: string | null;
+      entries?: { targetId: string; tier: number | null; notes?: string | null }[];
+    },
+    userId: string
+  ) {
+    const { entries = [], ...fields } = data;
+
+    // Entries target a control or a category of the product's catalog
+    const catalogId = await controlCatalogService.getProductCatalogId(productId);
+    const controls = await prisma.cSFControl.findMany({
+      where: { catalogId },
+      select: { id: true, categoryId: true },
+    });
+    const controlIds = new Set(controls.map((c) => c.id));
+    const categoryIds = new Set(controls.map((c) => c.categoryId));
+    const unknown = entries.map((e) => e.targetId).filter((id) => !controlIds.has(id) && !categoryIds.has(id));
+    if (unknown.length > 0) {
+      throw new ProfileTargetError(`Not in the product's control catalog: ${unknown.join(', ')}`);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const profile = await tx.cSFProfile.upsert({
+        where: { productId_type: { productId, type } },
+        update: { ...fields, updatedById: userId },
+        create: { productId, type, ...fields, updatedById: userId },
+      });
+
+      for (const entry of entries) {
+        if (entry.tier === null) {
+          await tx.cSFProfileEntry.deleteMany({ where: { profileId: profile.id, targetId: entry.targetId } });
+          continue;
+        }
+
+        const scope = controlIds.has(entry.targetId) ? 'SUBCATEGORY' : 'CATEGORY';
+        await tx.cSFProfileEntry.upsert({
+          where: { profileId_targetId: { profileId: profile.id, targetId: entry.targetId } },
+          update: { tier: entry.tier, scope, ...(entry.notes !== undefined && { notes: entry.notes }) },
+          create: { profileId: profile.id, targetId: entry.targetId, scope, tier: entry.tier, notes: entry.notes },
+        });
+      }
+
+      return tx.cSFProfile.findUniqueOrThrow({
+        where: { id: profile.id },
+        include: { entries: { orderBy: { targetId: 'asc' } } },
+      });
+    });
+  }
+
+  /**
+   * Per-subcategory current vs target tiers, rolled up by category and function
+   */
+  async computeGaps(productId: string): Promise<ProfileGapReport> {
+    const catalogId = await controlCatalogService.getProductCatalogId(productId);
+    const [orgTier, profiles, baseline, controls] = await Promise.all([
+      this.getOrganizationTier(),
+      this.getProfiles(productId),
+      prisma.cSFBaseline.findMany({
+        where: { productId, applicable: true },
+        select: { subcategoryId: true, categoryLevel: true },
+      }),
+      prisma.cSFControl.findMany({
+        where: { catalogId },
+        select: { id: true, functionId: true, categoryId: true, title: true, text: true },
+        orderBy: { sortOrder: 'asc' },
+      }),
+    ]);
+
+    const levels = new Map(baseline.map((b) => [b.subcategoryId, b.categoryLevel]));
+    const categories = new Map(controls.map((c) => [c.id, c.categoryId]));
+    const inScope = baseline.length > 0 ? controls.filter((c) => levels.has(c.id)) : controls;
+
+    const [current, target] = profiles;
+    const resolver = (
+      profile: (typeof profiles)[number],
+      orgDefault: number
+    ): ((subcategoryId: string) => { tier: number; source: TierSource }) => {
+      const entries = new Map(profile.entries.map((e) => [e.targetId, e.tier]));
+      return (subcategoryId) => {
+        const own = entries.get(subcategoryId);
+        if (own !== undefined) return { tier: own, source: 'SUBCATEGORY' };
+        const category = entries.get(categories.get(subcategoryId) ?? categoryOf(subcategoryId));
+        if (category !== undefined) return { tier: category, source: 'CATEGORY' };
+        if (profile.tier !== null) return { tier: profile.tier, source: 'PROFILE' };
+        return { tier: orgDefault, source: 'ORGANIZATION' };
+      };
+    };
+    const resolveCurrent = resolver(current, orgTier.currentTier);
+    const resolveTarget = resolver(target, orgTier.targetTier);
+
+    const subcategories: SubcategoryGap[] = inScope.map((control) => {
+      const currentTier = resolveCurrent(control.id);
+      const targetTier = resolveTarget(control.id);
+      return {
+        subcategoryId: control.id,
+        categoryId: control.categoryId,
+        functionId: control.functionId,
+        title: control.text || control.title,
+        categoryLevel: levels.get(control.id) ?? null,
+        currentTier: currentTier.tier,
+        currentSource: currentTier.source,
+        targetTier: targetTier.tier,
+        targetSource: targetTier.source,
+        gap: targetTier.tier - currentTier.tier,
+      };
+    });
+
+    const groupBy = (key: (row: SubcategoryGap) => string) => {
+      const groups = new Map<string, SubcategoryGap[]>();
+      for (const row of subcategories) {
+        const id = key(row);
+        groups.set(id, [...(groups.get(id) || []), row]);
+      }
+      return groups;
+    };
+
+    const gapsByTier: Record<number, number> = { 1: 0, 2: 0, 3: 0 };
+    for (const row of subcategories) {
+      if (row.gap > 0) gapsByTier[row.gap] = (gapsByTier[row.gap] || 0) + 1;
+    }
+
+    return {
+      productId,
+      scope: baseline.length > 0 ? 'BASELINE' : 'FULL_CSF',
+      organizationTier: { currentTier: orgTier.currentTier, targetTier: orgTier.targetTier },
+      profileTiers: {
+        current: current.tier ?? orgTier.currentTier,
+        target: target.tier ?? orgTier.targetTier,
+      },
+      summary: {
+        ...summarize('ALL', subcategories),
+        maxGap: Math.max(0, ...subcategories.map((r) => r.gap)),
+        gapsByTier,
+      },
+      byFunction: Array.from(groupBy((r) => r.functionId)).map(([id, rows]) => summarize(id, rows)),
+      byCategory: Array.from(groupBy((r) => r.categoryId)).map(([id, rows]) => ({
+        ...summarize(id, rows),
+        functionId: rows[0].functionId,
+      })),
+      subcategories,
+    };
+  }
+}
+
+export const csfProfileService = new CSFProfileService();
+export default csfProfileService;
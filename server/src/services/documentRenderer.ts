@@ -0,0 +1,371 @@
+/**
+ * Document Renderer
+ *
+ * Renders a simple block model (headings, paragraphs, field lists, tables,
+ * page breaks) to PDF with PDFKit or to DOCX (WordprocessingML written
+ * directly and zipped with zlib), so one template can produce both formats.
+ */
+
+import * as zlib from 'zlib';
+import PDFDocument from 'pdfkit';
+
+export type DocumentBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string; italic?: boolean }
+  | { type: 'fields'; fields: { label: string; value: string }[] }
+  | { type: 'table'; columns: string[]; rows: string[][]; widths?: number[] }
+  | { type: 'pageBreak' };
+
+export interface DocumentMeta {
+  title: string;
+  subtitle?: string;
+  footer?: string;
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PDF_MARGIN = 50;
+const HEADING_SIZES = { 1: 16, 2: 13, 3: 11 } as const;
+
+/**
+ * Render blocks to a PDF, with a title page and page numbers
+ */
+export function renderPdf(blocks: DocumentBlock[], meta: DocumentMeta): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PDF_MARGIN, bufferPages: true, info: { Title: meta.title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const width = doc.page.width - PDF_MARGIN * 2;
+    const bottom = () => doc.page.height - PDF_MARGIN - 20;
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > bottom()) doc.addPage();
+    };
+
+    // Title page
+    doc.moveDown(8);
+    doc.fontSize(26).font('Helvetica-Bold').text(meta.title, { align: 'center' });
+    if (meta.subtitle) {
+      doc.moveDown();
+      doc.fontSize(16).font('Helvetica').text(meta.subtitle, { align: 'center' });
+    }
+    doc.moveDown(2);
+    doc.fontSize(10).font('Helvetica').text(`Generated: ${new Date().toLocaleDateString()}`, { align: 'center' });
+    doc.addPage();
+
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'heading':
+          ensureSpace(60);
+          if (block.level === 1) doc.moveDown(0.5);
+          doc.fontSize(HEADING_SIZES[block.level]).font('Helvetica-Bold').text(block.text, PDF_MARGIN, doc.y, { width });
+          doc.moveDown(0.4);
+          break;
+
+        case 'paragraph':
+          doc.fontSize(10).font(block.italic ? 'Helvetica-Oblique' : 'Helvetica');
+          ensureSpace(Math.min(doc.heightOfString(block.text, { width }), 100));
+          doc.text(block.text, PDF_MARGIN, doc.y, { width });
+          doc.moveDown(0.5);
+          break;
+
+        case 'fields':
+          for (const field of block.fields) {
+            doc.fontSize(10);
+            ensureSpace(14);
+            doc.font('Helvetica-Bold').text(`${field.label}: `, PDF_MARGIN, doc.y, { width, continued: true });
+            doc.font('Helvetica').text(field.value || '—');
+          }
+          doc.moveDown(0.5);
+          break;
+
+        case 'table':
+          renderPdfTable(doc, block, width, bottom);
+          doc.moveDown(0.5);
+          break;
+
+        case 'pageBreak':
+          doc.addPage();
+          break;
+      }
+    }
+
+    // Page numbers on every page but the title page
+    const range = doc.bufferedPageRange();
+    for (let i = 1; i < range.count; i++) {
+      doc.switchToPage(range.start + i);
+      // Writing inside the bottom margin would otherwise start a new page
+      doc.page.margins.bottom = 0;
+      doc.fontSize(8).font('Helvetica').text(
+        `${meta.footer || meta.title} - Page ${i} of ${range.count - 1}`,
+        PDF_MARGIN,
+        doc.page.height - PDF_MARGIN,
+        { width, align: 'center', lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+}
+
+// Helper: table with a repeated header row, wrapping cell text
+function renderPdfTable(
+  doc: PDFKit.PDFDocument,
+  table: Extract<DocumentBlock, { type: 'table' }>,
+  width: number,
+  bottom: () => number
+) {
+  const weights = table.widths || table.columns.map(() => 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const widths = weights.map((w) => (w / total) * width);
+  const padding = 3;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.fontSize(8).font(header ? 'Helvetica-Bold' : 'Helvetica');
+    const height =
+      Math.max(...cells.map((cell, i) => doc.heightOfString(cell || '', { width: widths[i] - padding * 2 }))) + padding * 2;
+
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+      if (!header) drawRow(table.columns, true);
+      doc.fontSize(8).font(header ? 'Helvetica-Bold' : 'Helvetica');
+    }
+
+    const top = doc.y;
+    let x = PDF_MARGIN;
+    cells.forEach((cell, i) => {
+      if (header) doc.rect(x, top, widths[i], height).fillAndStroke('#eeeeee', '#999999').fillColor('black');
+      else doc.rect(x, top, widths[i], height).stroke('#999999');
+      doc.text(cell || '', x + padding, top + padding, { width: widths[i] - padding * 2 });
+      x += widths[i];
+    });
+    doc.x = PDF_MARGIN;
+    doc.y = top + height;
+  };
+
+  drawRow(table.columns, true);
+  for (const row of table.rows) drawRow(row, false);
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+// Helper: escape text for XML, dropping characters XML can't carry
+function xml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Helper: runs for text, with line breaks for newlines
+function runs(text: string, props = ''): string {
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  return text
+    .split('\n')
+    .map((line, i) => `<w:r>${rPr}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${xml(line)}</w:t></w:r>`)
+    .join('');
+}
+
+function paragraph(content: string, style?: string): string {
+  return `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${content}</w:p>`;
+}
+
+function docxTable(columns: string[], rows: string[][], weights: number[], header = true): string {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  // Page width less margins, in twentieths of a point
+  const grid = weights.map((w) => Math.round((w / total) * 9360));
+  const cell = (text: string, i: number, bold: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${grid[i]}" w:type="dxa"/>${bold ? '<w:shd w:val="clear" w:color="auto" w:fill="EEEEEE"/>' : ''}</w:tcPr>` +
+    `${paragraph(runs(text || '', bold ? '<w:b/>' : ''), 'TableText')}</w:tc>`;
+
+  return (
+    '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>' +
+    `<w:tblGrid>${grid.map((w) => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>` +
+    (header ? `<w:tr><w:trPr><w:tblHeader/></w:trPr>${columns.map((c, i) => cell(c, i, true)).join('')}</w:tr>` : '') +
+    rows.map((row) => `<w:tr>${row.map((c, i) => cell(c, i, !header && i === 0)).join('')}</w:tr>`).join('') +
+    '</w:tbl>' +
+    paragraph('')
+  );
+}
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/><w:spacing w:before="2400" w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="17"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>
+<w:top w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:left w:val="single" w:sz="4" w:space="0" w:color="999999"/>
+<w:bottom w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:right w:val="single" w:sz="4" w:space="0" w:color="999999"/>
+<w:insideH w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="999999"/>
+</w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const DOCX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+</Relationships>`;
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+/**
+ * Render blocks to a Word document, with a title page and page numbers
+ */
+export function renderDocx(blocks: DocumentBlock[], meta: DocumentMeta): Buffer {
+  const body: string[] = [
+    paragraph(runs(meta.title), 'Title'),
+    ...(meta.subtitle ? [paragraph(runs(meta.subtitle), 'Subtitle')] : []),
+    paragraph(`<w:pPr><w:jc w:val="center"/></w:pPr>${runs(`Generated: ${new Date().toLocaleDateString()}`)}`),
+    '<w:p><w:r><w:br w:type="page"/></w:r></w:p>',
+  ];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+        body.push(paragraph(runs(block.text), `Heading${block.level}`));
+        break;
+      case 'paragraph':
+        body.push(paragraph(runs(block.text, block.italic ? '<w:i/>' : '')));
+        break;
+      case 'fields':
+        body.push(docxTable([], block.fields.map((f) => [f.label, f.value || '—']), [1, 3], false));
+        break;
+      case 'table':
+        body.push(docxTable(block.columns, block.rows, block.widths || block.columns.map(() => 1)));
+        break;
+      case 'pageBreak':
+        body.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+        break;
+    }
+  }
+
+  const document =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:document ${W_NS}><w:body>` +
+    body.join('') +
+    '<w:sectPr><w:footerReference w:type="default" r:id="rId2"/><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1273" w:right="1273" w:bottom="1273" w:left="1273" w:header="708" w:footer="708" w:gutter="0"/>' +
+    '<w:titlePg/></w:sectPr></w:body></w:document>';
+
+  const footer =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:ftr ${W_NS}><w:p><w:pPr><w:jc w:val="center"/></w:pPr>` +
+    `${runs(`${meta.footer || meta.title} - Page `, '<w:sz w:val="16"/>')}` +
+    '<w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:fldChar w:fldCharType="begin"/></w:r>' +
+    '<w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+    '<w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:fldChar w:fldCharType="end"/></w:r></w:p></w:ftr>';
+
+  const core =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${xml(meta.title)}</dc:title><dc:creator>Posture</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  return zip([
+    { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', data: DOCX_ROOT_RELS },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'word/_rels/document.xml.rels', data: DOCX_DOCUMENT_RELS },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: DOCX_STYLES },
+    { name: 'word/footer1.xml', data: footer },
+  ]);
+}
+
+// ============================================================================
+// ZIP (deflate, no encryption or zip64)
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function zip(files: { name: string; data: string }[]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const raw = Buffer.from(file.data, 'utf8');
+    const compressed = zlib.deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(0, 10); // time/date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4); // version made by
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(0, 12);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(raw.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    central.push(header, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...central, end]);
+}
@@ -0,0 +1,366 @@
+/**
+ * Email Digest Service
+ *
+ * Daily or weekly email summarising, for each opted-in user:
+ * - Their open remediation tasks, and tasks past their due date
+ * - Assessments past their target date on controls they own
+ * - Mentions since the last digest
+ * - Compliance score changes on products they own or are assigned to
+ *
+ * Daily digests go out at DIGEST_HOUR_UTC; weekly digests at the same hour on Mondays.
+ */
+
+import { prisma } from '../prisma';
+import { config } from '../config';
+import { complianceSnapshotService } from './complianceSnapshot.service';
+import { generatePossiblePatterns } from './controlAssignment.service';
+import { assessmentLink } from './notification.service';
+import { getMailTransport } from './mailTransport.service';
+import { renderDigestEmail } from './emailTemplates';
+
+export const DIGEST_FREQUENCIES = ['DAILY', 'WEEKLY'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_MS = 60 * 60 * 1000;
+const OPEN_TASK_STATUSES = ['OPEN', 'IN_PROGRESS', 'BLOCKED'];
+
+export interface DigestTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  dueDate: Date | null;
+  subcategoryId: string;
+  systemName: string;
+  link: string;
+}
+
+export interface DigestAssessment {
+  id: string;
+  subcategoryId: string;
+  status: string;
+  targetDate: Date;
+  systemName: string;
+  link: string;
+}
+
+export interface DigestMention {
+  title: string;
+  message: string;
+  link: string | null;
+  createdAt: Date;
+}
+
+export interface DigestScoreChange {
+  productId: string;
+  productName: string;
+  previousScore: number | null; // null when there is no snapshot from before the period
+  currentScore: number;
+  change: number;
+  link: string;
+}
+
+export interface Digest {
+  user: { id: string; name: string; email: string };
+  frequency: DigestFrequency;
+  since: Date;
+  generatedAt: Date;
+  openTasks: DigestTask[];
+  overdueTasks: DigestTask[];
+  overdueAssessments: DigestAssessment[];
+  mentions: DigestMention[];
+  scoreChanges: DigestScoreChange[];
+}
+
+export interface DigestSendResult {
+  sent: boolean;
+  reason?: string;
+  transport: string;
+}
+
+// Most recent scheduled send slot at or before `now`
+function lastSlot(frequency: DigestFrequency, now: Date): Date {
+  const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), config.mail.digestHourUtc));
+  if (slot > now) slot.setTime(slot.getTime() - DAY_MS);
+
+  if (frequency === 'WEEKLY') {
+    const daysSinceMonday = (slot.getUTCDay() + 6) % 7;
+    slot.setTime(slot.getTime() - daysSinceMonday * DAY_MS);
+  }
+  return slot;
+}
+
+function isEmpty(digest: Digest): boolean {
+  return (
+    digest.openTasks.length === 0 &&
+    digest.overdueAssessments.length === 0 &&
+    digest.mentions.length === 0 &&
+    digest.scoreChanges.length === 0
+  );
+}
+
+class EmailDigestService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Check for due digests now, then once an hour
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sendDue().catch((error) => console.error('[Email Digest] Run failed:', error));
+    }, CHECK_MS);
+    this.timer.unref();
+
+    await this.sendDue();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * The user's digest subscription; users without one are opted out
+   */
+  async getSubscription(userId: string) {
+    const subscription = await prisma.emailDigestSubscription.findUnique({ where: { userId } });
+    return {
+      enabled: subscription?.enabled ?? false,
+      frequency: (subscription?.frequency ?? 'WEEKLY') as DigestFrequency,
+      lastSentAt: subscription?.lastSentAt ?? null,
+    };
+  }
+
+  async updateSubscription(userId: string, data: { enabled?: boolean; frequency?: DigestFrequency }) {
+    await prisma.emailDigestSubscription.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+    return this.getSubscription(userId);
+  }
+
+  /**
+   * Send digests to every subscriber whose slot has passed since their last digest
+   */
+  async sendDue(now: Date = new Date()): Promise<number> {
+    const subscriptions = await prisma.emailDigestSubscription.findMany({
+      where: { enabled: true },
+      select: { userId: true, frequency: true, lastSentAt: true },
+    });
+
+    let sent = 0;
+    for (const subscription of subscriptions) {
+      const slot = lastSlot(subscription.frequency as DigestFrequency, now);
+      if (subscription.lastSentAt && subscription.lastSentAt >= slot) continue;
+
+      try {
+        const result = await this.sendDigest(subscription.userId, { now });
+        if (result.sent) sent++;
+      } catch (error) {
+        console.error(`[Email Digest] Failed to send digest to user ${subscription.userId}:`, error);
+      }
+    }
+
+    if (sent > 0) {
+      console.log(`[Email Digest] Sent ${sent} digest(s)`);
+    }
+    return sent;
+  }
+
+  /**
+   * Build and send a user's digest covering the period since their last one.
+   * Empty digests are skipped unless forced; the period advances either way.
+   */
+  async sendDigest(userId: string, options: { force?: boolean; now?: Date } = {}): Promise<DigestSendResult> {
+    const now = options.now || new Date();
+    const transport = getMailTransport();
+    const subscription = await this.getSubscription(userId);
+    const periodDays = subscription.frequency === 'DAILY' ? 1 : 7;
+    const since = subscription.lastSentAt || new Date(now.getTime() - periodDays * DAY_MS);
+
+    const digest = await this.buildDigest(userId, since, subscription.frequency, now);
+    if (!digest) {
+      return { sent: false, reason: 'User not found', transport: transport.name };
+    }
+
+    const markSent = () =>
+      prisma.emailDigestSubscription.upsert({
+        where: { userId },
+        create: { userId, lastSentAt: now },
+        update: { lastSentAt: now },
+      });
+
+    if (isEmpty(digest) && !options.force) {
+      await markSent();
+      return { sent: false, reason: 'Nothing to report', transport: transport.name };
+    }
+
+    const email = renderDigestEmail(digest, config.mail.appUrl);
+    await transport.send({ to: digest.user.email, ...email });
+
+    // A test send should not shift the regular schedule
+    if (!options.force) {
+      await markSent();
+    }
+    return { sent: true, transport: transport.name };
+  }
+
+  /**
+   * Collect a user's digest contents for the period starting at `since`
+   */
+  async buildDigest(
+    userId: string,
+    since: Date,
+    frequency: DigestFrequency,
+    now: Date = new Date()
+  ): Promise<Digest | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true },
+    });
+    if (!user) return null;
+
+    const taskSelect = {
+      id: true,
+      title: true,
+      status: true,
+      priority: true,
+      dueDate: true,
+      assessment: {
+        select: { subcategoryId: true, systemId: true, system: { select: { name: true, productId: true } } },
+      },
+    };
+
+    const [tasks, mentions, assignments, ownedProducts] = await Promise.all([
+      prisma.remediationTask.findMany({
+        where: { assigneeId: userId, status: { in: OPEN_TASK_STATUSES } },
+        select: taskSelect,
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+      prisma.notification.findMany({
+        where: { userId, type: 'MENTION', createdAt: { gt: since } },
+        select: { title: true, message: true, link: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.controlAssignment.findMany({
+        where: { assigneeId: userId },
+        select: { productId: true, systemId: true, controlPattern: true },
+      }),
+      prisma.product.findMany({
+        where: { userId },
+        select: { id: true },
+      }),
+    ]);
+
+    const digestTasks: DigestTask[] = tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      subcategoryId: task.assessment.subcategoryId,
+      systemName: task.assessment.system.name,
+      link: assessmentLink(task.assessment),
+    }));
+
+    return {
+      user,
+      frequency,
+      since,
+      generatedAt: now,
+      openTasks: digestTasks,
+      overdueTasks: digestTasks.filter((task) => task.dueDate && task.dueDate < now),
+      overdueAssessments: await this.findOverdueAssessments(assignments, now),
+      mentions,
+      scoreChanges: await this.findScoreChanges(
+        new Set([...ownedProducts.map((p) => p.id), ...assignments.map((a) => a.productId)]),
+        since
+      ),
+    };
+  }
+
+  // Helper: assessments past their target date on controls the user is assigned to
+  private async findOverdueAssessments(
+    assignments: Array<{ productId: string; systemId: string | null; controlPattern: string }>,
+    now: Date
+  ): Promise<DigestAssessment[]> {
+    if (assignments.length === 0) return [];
+
+    const assessments = await prisma.complianceAssessment.findMany({
+      where: {
+        targetDate: { lt: now },
+        status: { notIn: ['COMPLIANT', 'NOT_APPLICABLE'] },
+        system: { productId: { in: Array.from(new Set(assignments.map((a) => a.productId))) } },
+      },
+      select: {
+        id: true,
+        subcategoryId: true,
+        status: true,
+        targetDate: true,
+        systemId: true,
+        system: { select: { name: true, productId: true } },
+      },
+      orderBy: { targetDate: 'asc' },
+    });
+
+    return assessments
+      .filter((assessment) => {
+        const patterns = generatePossiblePatterns(assessment.subcategoryId);
+        return assignments.some(
+          (a) =>
+            a.productId === assessment.system.productId &&
+            (a.systemId === null || a.systemId === assessment.systemId) &&
+            patterns.includes(a.controlPattern)
+        );
+      })
+      .map((assessment) => ({
+        id: assessment.id,
+        subcategoryId: assessment.subcategoryId,
+        status: assessment.status,
+        targetDate: assessment.targetDate!,
+        systemName: assessment.system.name,
+        link: assessmentLink(assessment),
+      }));
+  }
+
+  // Helper: products whose compliance score moved since the start of the period
+  private async findScoreChanges(productIds: Set<string>, since: Date): Promise<DigestScoreChange[]> {
+    if (productIds.size === 0) return [];
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: Array.from(productIds) } },
+      select: { id: true, name: true, cachedComplianceScore: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const changes: DigestScoreChange[] = [];
+    for (const product of products) {
+      const currentScore = product.cachedComplianceScore ?? 0;
+      const asOf = await complianceSnapshotService.getAsOf('product', product.id, since);
+      const previousScore = asOf.rollup ? asOf.rollup.complianceScore : null;
+      const change = currentScore - (previousScore ?? 0);
+
+      if (previousScore === null ? currentScore > 0 : change !== 0) {
+        changes.push({
+          productId: product.id,
+          productName: product.name,
+          previousScore,
+          currentScore,
+          change,
+          link: `/products/${product.id}`,
+        });
+      }
+    }
+
+    return changes;
+  }
+}
+
+export const emailDigestService = new EmailDigestService();
+export default emailDigestService;
@@ -0,0 +1,214 @@
+/**
+ * Email Templates
+ *
+ * HTML and plain-text bodies for outbound email. Styles are inlined because
+ * most mail clients drop <style> blocks.
+ */
+
+import type { Digest, DigestTask } from './emailDigest.service';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const COLORS = {
+  primary: '#1a365d',
+  text: '#333333',
+  muted: '#718096',
+  border: '#e2e8f0',
+  background: '#f7fafc',
+  good: '#38a169',
+  bad: '#e53e3e',
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function layout(title: string, body: string, appUrl: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; background: ${COLORS.background}; font-family: Arial, sans-serif; color: ${COLORS.text};">
+  <div style="max-width: 640px; margin: 0 auto; padding: 24px; background: #ffffff;">
+    <h1 style="color: ${COLORS.primary}; font-size: 22px; border-bottom: 2px solid ${COLORS.primary}; padding-bottom: 8px;">${escapeHtml(title)}</h1>
+    ${body}
+    <p style="margin-top: 32px; padding-top: 16px; border-top: 1px solid ${COLORS.border}; color: ${COLORS.muted}; font-size: 12px;">
+      You are receiving this because email digests are enabled for your account.
+      <a href="${appUrl}/settings" style="color: ${COLORS.muted};">Change your preferences</a>.
+    </p>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function section(heading: string, content: string): string {
+  return `
+    <h2 style="color: #2d3748; font-size: 16px; margin-top: 24px;">${escapeHtml(heading)}</h2>
+    ${content}
+  `;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const th = headers
+    .map((h) => `<th style="padding: 8px; text-align: left; background: #edf2f7; border-bottom: 1px solid ${COLORS.border};">${h}</th>`)
+    .join('');
+  const tr = rows
+    .map((cells) => `<tr>${cells.map((c) => `<td style="padding: 8px; border-bottom: 1px solid ${COLORS.border};">${c}</td>`).join('')}</tr>`)
+    .join('');
+  return `<table style="width: 100%; border-collapse: collapse; font-size: 14px;"><tr>${th}</tr>${tr}</table>`;
+}
+
+function link(appUrl: string, path: string, label: string): string {
+  return `<a href="${escapeHtml(appUrl + path)}" style="color: ${COLORS.primary};">${escapeHtml(label)}</a>`;
+}
+
+function taskRows(tasks: DigestTask[], appUrl: string): string[][] {
+  return tasks.map((task) => [
+    link(appUrl, task.link, task.title),
+    escapeHtml(`${task.subcategoryId} · ${task.systemName}`),
+    escapeHtml(task.priority),
+    escapeHtml(task.status.replace(/_/g, ' ')),
+    task.dueDate ? formatDate(task.dueDate) : '—',
+  ]);
+}
+
+/**
+ * Assessor digest: open and overdue work, mentions and score changes
+ */
+export function renderDigestEmail(digest: Digest, appUrl: string): RenderedEmail {
+  const period = digest.frequency === 'DAILY' ? 'Daily' : 'Weekly';
+  const title = `${period} Compliance Digest`;
+  const sections: string[] = [];
+  const text: string[] = [
+    `${title} for ${digest.user.name}`,
+    `Activity since ${formatDate(digest.since)}`,
+    '',
+  ];
+
+  const summary = [
+    `${digest.openTasks.length} open task(s)`,
+    `${digest.overdueTasks.length + digest.overdueAssessments.length} overdue item(s)`,
+    `${digest.mentions.length} new mention(s)`,
+    `${digest.scoreChanges.length} score change(s)`,
+  ];
+  text.push(summary.join(', '), '');
+
+  if (digest.overdueTasks.length > 0 || digest.overdueAssessments.length > 0) {
+    const rows = [
+      ...digest.overdueTasks.map((task) => [
+        link(appUrl, task.link, task.title),
+        escapeHtml(`Task · ${task.subcategoryId} · ${task.systemName}`),
+        `<span style="color: ${COLORS.bad};">${formatDate(task.dueDate!)}</span>`,
+      ]),
+      ...digest.overdueAssessments.map((assessment) => [
+        link(appUrl, assessment.link, assessment.subcategoryId),
+        escapeHtml(`Assessment · ${assessment.systemName} · ${assessment.status.replace(/_/g, ' ')}`),
+        `<span style="color: ${COLORS.bad};">${formatDate(assessment.targetDate)}</span>`,
+      ]),
+    ];
+    sections.push(section('Overdue', table(['Item', 'Details', 'Due'], rows)));
+
+    text.push('OVERDUE');
+    digest.overdueTasks.forEach((task) =>
+      text.push(`- ${task.title} (${task.subcategoryId}, ${task.systemName}) due ${formatDate(task.dueDate!)}`)
+    );
+    digest.overdueAssessments.forEach((assessment) =>
+      text.push(`- ${assessment.subcategoryId} on ${assessment.systemName} target ${formatDate(assessment.targetDate)}`)
+    );
+    text.push('');
+  }
+
+  if (digest.openTasks.length > 0) {
+    sections.push(
+      section(
+        'Your Open Remediation Tasks',
+        table(['Task', 'Control', 'Priority', 'Status', 'Due'], taskRows(digest.openTasks, appUrl))
+      )
+    );
+
+    text.push('OPEN REMEDIATION TASKS');
+    digest.openTasks.forEach((task) =>
+      text.push(
+        `- [${task.priority}] ${task.title} (${task.subcategoryId}, ${task.systemName})` +
+          (task.dueDate ? ` due ${formatDate(task.dueDate)}` : '')
+      )
+    );
+    text.push('');
+  }
+
+  if (digest.mentions.length > 0) {
+    const items = digest.mentions
+      .map(
+        (mention) => `
+      <li style="margin-bottom: 8px;">
+        ${mention.link ? link(appUrl, mention.link, mention.title) : escapeHtml(mention.title)}
+        <div style="color: ${COLORS.muted}; font-size: 13px;">${escapeHtml(mention.message)}</div>
+      </li>`
+      )
+      .join('');
+    sections.push(section('New Mentions', `<ul style="padding-left: 20px;">${items}</ul>`));
+
+    text.push('NEW MENTIONS');
+    digest.mentions.forEach((mention) => text.push(`- ${mention.title}: ${mention.message}`));
+    text.push('');
+  }
+
+  if (digest.scoreChanges.length > 0) {
+    const rows = digest.scoreChanges.map((change) => {
+      const color = change.change >= 0 ? COLORS.good : COLORS.bad;
+      const sign = change.change > 0 ? '+' : '';
+      return [
+        link(appUrl, change.link, change.productName),
+        change.previousScore === null ? '—' : `${change.previousScore}%`,
+        `${change.currentScore}%`,
+        change.previousScore === null ? 'new' : `<span style="color: ${color};">${sign}${change.change}</span>`,
+      ];
+    });
+    sections.push(section('Compliance Score Changes', table(['Product', 'Before', 'Now', 'Change'], rows)));
+
+    text.push('COMPLIANCE SCORE CHANGES');
+    digest.scoreChanges.forEach((change) =>
+      text.push(
+        `- ${change.productName}: ` +
+          (change.previousScore === null ? `${change.currentScore}%` : `${change.previousScore}% -> ${change.currentScore}%`)
+      )
+    );
+    text.push('');
+  }
+
+  if (sections.length === 0) {
+    sections.push(`<p>Nothing needs your attention right now.</p>`);
+    text.push('Nothing needs your attention right now.', '');
+  }
+
+  const body = `
+    <p>Hi ${escapeHtml(digest.user.name)}, here is your activity since ${formatDate(digest.since)}.</p>
+    <p style="color: ${COLORS.muted};">${escapeHtml(summary.join(' · '))}</p>
+    ${sections.join('\n')}
+  `;
+
+  text.push(`Open the app: ${appUrl}`, `Change your preferences: ${appUrl}/settings`);
+
+  return {
+    subject: `${title}: ${summary[0]}, ${summary[1]}`,
+    html: layout(title, body, appUrl),
+    text: text.join('\n'),
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Evidence Expiry Service
+ *
+ * Keeps evidence validity current:
+ * - Assigns a default validity period from the evidence type when no expiry date is given
+ * - Sweeps hourly to mark evidence whose expiry date has passed as expired
+ * - Flags (or, if configured, downgrades to partially compliant) compliant
+ *   assessments once all of their evidence has expired
+ * - Notifies uploaders when their evidence expires
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { config } from '../config';
+import { AccessUser, productScope } from './access.service';
+import { createAuditLog, AuditContext } from './auditService';
+import { complianceCalculationService } from './complianceCalculation.service';
+import { notificationService, assessmentLink } from './notification.service';
+import { webhookService } from './webhook.service';
+
+export const EVIDENCE_TYPES = [
+  'PENETRATION_TEST',
+  'VULNERABILITY_SCAN',
+  'AUDIT_REPORT',
+  'POLICY_DOCUMENT',
+  'PROCEDURE',
+  'CONFIGURATION',
+  'SCREENSHOT',
+  'LOG',
+  'CERTIFICATE',
+  'TRAINING_RECORD',
+  'OTHER',
+] as const;
+
+export type EvidenceType = (typeof EVIDENCE_TYPES)[number];
+
+// Compliant statuses, in either the enum or the display form assessments are
+// stored with, and the matching form a lapsed one is downgraded to
+const LAPSE_DOWNGRADES: Record<string, string> = {
+  COMPLIANT: 'PARTIALLY_COMPLIANT',
+  Implemented: 'Partially Implemented',
+};
+
+// Default validity in days; null means the evidence does not expire unless a date is set
+export const DEFAULT_VALIDITY_DAYS: Record<EvidenceType, number | null> = {
+  PENETRATION_TEST: 365,
+  VULNERABILITY_SCAN: 30,
+  AUDIT_REPORT: 365,
+  POLICY_DOCUMENT: 365,
+  PROCEDURE: 365,
+  CONFIGURATION: 90,
+  SCREENSHOT: 90,
+  LOG: 30,
+  CERTIFICATE: null, // certificates carry their own expiry date
+  TRAINING_RECORD: 365,
+  OTHER: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_MS = 60 * 60 * 1000;
+
+// Audit identity for changes made by the sweep rather than a user
+const SWEEP_AUDIT_CONTEXT: AuditContext = {
+  userId: 'system',
+  userName: 'Evidence Expiry Sweep',
+  userEmail: 'system',
+};
+
+export interface SweepResult {
+  expired: number;
+  flagged: number;
+  downgraded: number;
+  cleared: number;
+}
+
+/**
+ * Validity window for a piece of evidence. An explicit expiry date wins;
+ * otherwise the type's default validity is applied from validFrom.
+ */
+export function resolveExpiry(
+  evidenceType: string,
+  validFrom?: Date | null,
+  expiresAt?: Date | null,
+  now: Date = new Date()
+): { validFrom: Date; expiresAt: Date | null; isExpired: boolean } {
+  const from = validFrom || now;
+  const validityDays = DEFAULT_VALIDITY_DAYS[evidenceType as EvidenceType] ?? null;
+  const expiry = expiresAt || (validityDays !== null ? new Date(from.getTime() + validityDays * DAY_MS) : null);
+
+  return {
+    validFrom: from,
+    expiresAt: expiry,
+    isExpired: expiry !== null && expiry <= now,
+  };
+}
+
+class EvidenceExpiryService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Sweep now, then once an hour
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error('[Evidence Expiry] Sweep failed:', error));
+    }, SWEEP_MS);
+    this.timer.unref();
+
+    await this.sweep();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Mark evidence past its expiry date as expired and re-evaluate the affected assessments
+   */
+  async sweep(now: Date = new Date()): Promise<SweepResult> {
+    const lapsed = await prisma.evidence.findMany({
+      where: { isExpired: false, expiresAt: { lte: now } },
+      select: {
+        id: true,
+        assessmentId: true,
+        originalName: true,
+        uploadedBy: true,
+        assessment: { select: { subcategoryId: true, systemId: true, system: { select: { productId: true } } } },
+      },
+    });
+
+    const result: SweepResult = { expired: lapsed.length, flagged: 0, downgraded: 0, cleared: 0 };
+    if (lapsed.length === 0) return result;
+
+    await prisma.evidence.updateMany({
+      where: { id: { in: lapsed.map((e) => e.id) } },
+      data: { isExpired: true },
+    });
+
+    await notificationService.notify(
+      lapsed.map((e) => ({
+        userId: e.uploadedBy,
+        type: 'EVIDENCE_EXPIRED' as const,
+        severity: 'error' as const,
+        title: 'Evidence expired',
+        message: `${e.originalName} for ${e.assessment.subcategoryId} has expired and no longer supports the assessment`,
+        link: assessmentLink(e.assessment),
+        entityType: 'Evidence',
+        entityId: e.id,
+        dedupeKey: `evidence-expired:${e.id}`,
+      }))
+    );
+
+    await webhookService.emit(
+      lapsed.map((e) => ({
+        type: 'EVIDENCE_EXPIRED' as const,
+        productId: e.assessment.system.productId,
+        data: {
+          evidenceId: e.id,
+          fileName: e.originalName,
+          assessmentId: e.assessmentId,
+          subcategoryId: e.assessment.subcategoryId,
+          systemId: e.assessment.systemId,
+        },
+        dedupeKey: `evidence-expired:${e.id}`,
+      }))
+    );
+
+    const assessmentIds = Array.from(new Set(lapsed.map((e) => e.assessmentId)));
+    for (const assessmentId of assessmentIds) {
+      const outcome = await this.refreshAssessment(assessmentId);
+      if (outcome) result[outcome]++;
+    }
+
+    console.log(
+      `[Evidence Expiry] ${result.expired} evidence file(s) expired; ` +
+        `${result.flagged} assessment(s) flagged, ${result.downgraded} downgraded`
+    );
+    return result;
+  }
+
+  /**
+   * Re-evaluate whether an assessment's evidence has lapsed, after a sweep or
+   * after its evidence changed. A compliant assessment whose evidence has all
+   * expired is flagged, and downgraded when EVIDENCE_LAPSE_ACTION=downgrade.
+   * The flag is cleared once current evidence is attached; a downgraded status
+   * is left for the assessor to restore.
+   */
+  async refreshAssessment(assessmentId: string): Promise<'flagged' | 'downgraded' | 'cleared' | null> {
+    const assessment = await prisma.complianceAssessment.findUnique({
+      where: { id: assessmentId },
+      select: {
+        id: true,
+        status: true,
+        subcategoryId: true,
+        systemId: true,
+        evidenceLapsedAt: true,
+        system: { select: { name: true } },
+        evidenceFiles: { select: { isExpired: true } },
+      },
+    });
+    if (!assessment) return null;
+
+    const files = assessment.evidenceFiles;
+    const allExpired = files.length > 0 && files.every((f) => f.isExpired);
+
+    if (!allExpired) {
+      if (!assessment.evidenceLapsedAt) return null;
+      await prisma.complianceAssessment.update({
+        where: { id: assessmentId },
+        data: { evidenceLapsedAt: null },
+      });
+      return 'cleared';
+    }
+
+    const action = config.evidenceLapseAction;
+    const downgradedStatus = LAPSE_DOWNGRADES[assessment.status];
+    if (action === 'none' || assessment.evidenceLapsedAt || !downgradedStatus) {
+      return null;
+    }
+
+    const downgrade = action === 'downgrade';
+    const data: Prisma.ComplianceAssessmentUpdateInput = {
+      evidenceLapsedAt: new Date(),
+      ...(downgrade && { status: downgradedStatus }),
+    };
+    await prisma.complianceAssessment.update({ where: { id: assessmentId }, data });
+
+    await createAuditLog(SWEEP_AUDIT_CONTEXT, {
+      action: 'UPDATE',
+      entityType: 'Assessment',
+      entityId: assessmentId,
+      entityName: `${assessment.subcategoryId} - ${assessment.system.name}`,
+      previousValue: { status: assessment.status, evidenceLapsedAt: null },
+      newValue: { status: downgrade ? downgradedStatus : assessment.status, evidenceLapsedAt: data.evidenceLapsedAt },
+      changedFields: downgrade ? ['status', 'evidenceLapsedAt'] : ['evidenceLapsedAt'],
+      details: {
+        reason: 'All supporting evidence has expired',
+        systemId: assessment.systemId,
+        expiredEvidenceCount: files.length,
+      },
+    });
+
+    if (downgrade) {
+      await complianceCalculationService.invalidateSystemHierarchy(assessment.systemId);
+    }
+
+    return downgrade ? 'downgraded' : 'flagged';
+  }
+
+  /**
+   * Evidence expiring within the next `days` days (and, optionally, already
+   * expired) on assessments the user can see, soonest first
+   */
+  async getExpiring(
+    user: AccessUser,
+    options: { days: number; includeExpired: boolean; systemId?: string; productId?: string }
+  ) {
+    const now = new Date();
+    const until = new Date(now.getTime() + options.days * DAY_MS);
+
+    const evidence = await prisma.evidence.findMany({
+      where: {
+        expiresAt: options.includeExpired ? { lte: until } : { gt: now, lte: until },
+        assessment: {
+          ...(options.systemId && { systemId: options.systemId }),
+          system: {
+            ...(options.productId && { productId: options.productId }),
+            product: productScope(user),
+          },
+        },
+      },
+      select: {
+        id: true,
+        originalName: true,
+        evidenceType: true,
+        validFrom: true,
+        expiresAt: true,
+        isExpired: true,
+        assessment: {
+          select: {
+            id: true,
+            subcategoryId: true,
+            status: true,
+            evidenceLapsedAt: true,
+            system: { select: { id: true, name: true, productId: true } },
+          },
+        },
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    const items = evidence.map((e) => ({
+      ...e,
+      daysRemaining: Math.ceil((e.expiresAt!.getTime() - now.getTime()) / DAY_MS),
+    }));
+
+    return {
+      days: options.days,
+      evidence: items,
+      summary: {
+        expired: items.filter((e) => e.daysRemaining <= 0).length,
+        expiringSoon: items.filter((e) => e.daysRemaining > 0).length,
+        lapsedAssessments: new Set(
+          items.filter((e) => e.assessment.evidenceLapsedAt).map((e) => e.assessment.id)
+        ).size,
+      },
+    };
+  }
+}
+
+export const evidenceExpiryService = new EvidenceExpiryService();
+export default evidenceExpiryService;
@@ -0,0 +1,146 @@
+/**
+ * Idempotency Service
+ *
+ * Makes writes safe to retry. A client that cannot tell whether a request
+ * reached the server (a dropped connection, or the offline outbox replaying
+ * its queue) sends the same Idempotency-Key header again:
+ * - The first request with a key is applied and its 2xx response stored
+ * - A retry with the same key and body gets the stored response back, with
+ *   its ETag and marked with Idempotent-Replayed, instead of being applied twice
+ * - A retry while the first is still running gets a 409; the same key with a
+ *   different body is a client bug and gets a 422
+ * - Non-2xx responses are not stored, so a request refused for a version
+ *   conflict or validation error can be retried under the same key
+ *
+ * Keys are per user and kept for KEY_TTL_MS.
+ */
+
+import { createHash } from 'crypto';
+import { NextFunction, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_IN_PROGRESS = 'IDEMPOTENCY_IN_PROGRESS';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const PRUNE_MS = 60 * 60 * 1000;
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+// Helper: what makes two requests with the same key "the same request"
+function fingerprint(req: AuthenticatedRequest): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+class IdempotencyService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Prune now, then once an hour
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.prune().catch((error) => console.error('[Idempotency] Prune failed:', error));
+    }, PRUNE_MS);
+    this.timer.unref();
+
+    await this.prune();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Forget keys older than the retention window
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.idempotencyKey.deleteMany({
+      where: { createdAt: { lt: new Date(now.getTime() - KEY_TTL_MS) } },
+    });
+    return count;
+  }
+
+  /**
+   * Route middleware. Requests without the header pass straight through.
+   */
+  middleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (!key || !req.user) return next();
+
+    if (!KEY_PATTERN.test(key)) {
+      return res.status(400).json({ error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header` });
+    }
+
+    const userId = req.user.id;
+    const hash = fingerprint(req);
+
+    try {
+      let recordId: string;
+      try {
+        ({ id: recordId } = await prisma.idempotencyKey.create({ data: { userId, key, fingerprint: hash } }));
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+
+        // Seen this key before
+        const existing = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+        if (!existing) {
+          return res.status(409).json({ error: 'Request is being retried; try again', code: IDEMPOTENCY_IN_PROGRESS });
+        }
+        if (existing.fingerprint !== hash) {
+          return res
+            .status(422)
+            .json({ error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` });
+        }
+        if (existing.statusCode === null) {
+          return res
+            .status(409)
+            .json({ error: 'The original request is still in progress', code: IDEMPOTENCY_IN_PROGRESS });
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        if (existing.etag) res.set('ETag', existing.etag);
+        return res.status(existing.statusCode).json(existing.response ? JSON.parse(existing.response) : null);
+      }
+
+      // Keep the body of a successful response; release the key otherwise,
+      // including when the handler failed without responding through res.json
+      let body: unknown;
+      const json = res.json.bind(res);
+      res.json = (payload?: unknown) => {
+        body = payload ?? null;
+        return json(payload);
+      };
+      res.on('close', () => {
+        const settle =
+          body !== undefined && res.statusCode >= 200 && res.statusCode < 300
+            ? prisma.idempotencyKey.update({
+                where: { id: recordId },
+                data: {
+                  statusCode: res.statusCode,
+                  response: JSON.stringify(body),
+                  etag: (res.getHeader('ETag') as string | undefined) ?? null,
+                },
+              })
+            : prisma.idempotencyKey.delete({ where: { id: recordId } });
+        settle.catch((error) => console.error('[Idempotency] Failed to record response:', error));
+      });
+
+      next();
+    } catch (error) {
+      console.error('Error checking idempotency key:', error);
+      res.status(500).json({ error: 'Failed to process request' });
+    }
+  };
+}
+
+export const idempotencyService = new IdempotencyService();
+export const idempotent = idempotencyService.middleware;
@@ -0,0 +1,351 @@
+/**
+ * Issue Tracker Service
+ *
+ * Mirrors remediation tasks to external issue trackers (see trackerAdapters.ts):
+ * - Creates a ticket when a task is created, using the product's connection
+ *   or the global default
+ * - Polls linked tickets and pulls status and assignee changes back into the
+ *   task, recording each as a TaskUpdate with source TRACKER
+ * - Local edits are not pushed back; only changes made in the tracker since
+ *   the last sync are applied
+ */
+
+import { prisma } from '../prisma';
+import { config } from '../config';
+import { createAuditLog, AuditContext } from './auditService';
+import { assessmentLink } from './notification.service';
+import { poamService } from './poam.service';
+import {
+  createTrackerAdapter,
+  ExternalIssue,
+  TaskStatus,
+  TASK_STATUSES,
+  TrackerError,
+} from './trackerAdapters';
+
+// Tracker status names understood without a custom statusMap (matched case-insensitively)
+const DEFAULT_STATUS_NAMES: Record<string, TaskStatus> = {
+  'open': 'OPEN',
+  'to do': 'OPEN',
+  'todo': 'OPEN',
+  'backlog': 'OPEN',
+  'new': 'OPEN',
+  'reopened': 'OPEN',
+  'in progress': 'IN_PROGRESS',
+  'in review': 'IN_PROGRESS',
+  'blocked': 'BLOCKED',
+  'on hold': 'BLOCKED',
+  'done': 'COMPLETED',
+  'closed': 'COMPLETED',
+  'resolved': 'COMPLETED',
+  'completed': 'COMPLETED',
+  "won't do": 'CANCELLED',
+  'cancelled': 'CANCELLED',
+  'canceled': 'CANCELLED',
+};
+
+// Completed tasks keep syncing for a while in case the ticket is reopened
+const COMPLETED_SYNC_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Audit identity for changes pulled from a tracker rather than made by a user
+const SYNC_AUDIT_CONTEXT: AuditContext = {
+  userId: 'system',
+  userName: 'Issue Tracker Sync',
+  userEmail: 'system',
+};
+
+export interface TaskSyncResult {
+  taskId: string;
+  statusChanged: boolean;
+  assigneeChanged: boolean;
+}
+
+/**
+ * Task status for a tracker status: custom map first, then well-known names,
+ * then the tracker's own category. Null when it cannot be mapped.
+ */
+export function mapTrackerStatus(issue: ExternalIssue, statusMap?: string | null): TaskStatus | null {
+  if (!issue.status) return issue.statusCategory ?? null;
+
+  const name = issue.status.trim().toLowerCase();
+  if (statusMap) {
+    try {
+      const custom = JSON.parse(statusMap) as Record<string, string>;
+      const match = Object.entries(custom).find(([key]) => key.trim().toLowerCase() === name);
+      if (match && (TASK_STATUSES as readonly string[]).includes(match[1])) {
+        return match[1] as TaskStatus;
+      }
+    } catch {
+      // Invalid map: fall through to the defaults
+    }
+  }
+
+  const normalized = name.replace(/[\s-]+/g, '_').toUpperCase();
+  if ((TASK_STATUSES as readonly string[]).includes(normalized)) return normalized as TaskStatus;
+
+  return DEFAULT_STATUS_NAMES[name] ?? issue.statusCategory ?? null;
+}
+
+const assigneeKey = (issue: ExternalIssue) => issue.assignee?.email || issue.assignee?.name || null;
+
+class IssueTrackerService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Sync now, then every TRACKER_SYNC_MINUTES
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.syncAll().catch((error) => console.error('[Issue Tracker] Sync failed:', error));
+    }, config.trackerSyncMinutes * 60 * 1000);
+    this.timer.unref();
+
+    await this.syncAll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Active connection for a product: its own, otherwise the global default
+   */
+  async resolveConnection(productId: string) {
+    const connections = await prisma.trackerConnection.findMany({
+      where: { isActive: true, OR: [{ productId }, { productId: null }] },
+      orderBy: { createdAt: 'asc' },
+    });
+    return connections.find((c) => c.productId === productId) || connections[0] || null;
+  }
+
+  /**
+   * Create an external ticket for a task and link it
+   */
+  async createTicket(taskId: string, connectionId: string) {
+    const [task, connection] = await Promise.all([
+      prisma.remediationTask.findUnique({
+        where: { id: taskId },
+        include: {
+          assessment: {
+            select: {
+              subcategoryId: true,
+              systemId: true,
+              system: { select: { name: true, productId: true, product: { select: { name: true } } } },
+            },
+          },
+        },
+      }),
+      prisma.trackerConnection.findUnique({ where: { id: connectionId } }),
+    ]);
+    if (!task) throw new TrackerError('Task not found');
+    if (!connection) throw new TrackerError('Tracker connection not found');
+
+    const { assessment } = task;
+    const { subcategoryId, system } = assessment;
+    const description = [
+      task.description || '',
+      '',
+      `Control: ${subcategoryId}`,
+      `System: ${system.name}`,
+      `Product: ${system.product.name}`,
+      `Assessment: ${config.mail.appUrl}${assessmentLink(assessment)}`,
+    ].join('\n').trim();
+
+    try {
+      const issue = await createTrackerAdapter(connection).createIssue({
+        title: `[${subcategoryId}] ${task.title}`,
+        description,
+        priority: task.priority,
+        dueDate: task.dueDate,
+        labels: ['compliance', subcategoryId.replace(/[^A-Za-z0-9_-]/g, '_')],
+        taskId: task.id,
+      });
+
+      return prisma.remediationTask.update({
+        where: { id: taskId },
+        data: {
+          trackerConnectionId: connection.id,
+          externalTicketId: issue.id,
+          externalTicketUrl: issue.url,
+          externalStatus: issue.status,
+          externalAssignee: assigneeKey(issue),
+          externalSyncedAt: new Date(),
+          externalSyncError: null,
+        },
+      });
+    } catch (error) {
+      await prisma.remediationTask.update({
+        where: { id: taskId },
+        data: { trackerConnectionId: connection.id, externalSyncError: (error as Error).message },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Pull a linked task's ticket and apply status/assignee changes made in the tracker
+   */
+  async syncTask(taskId: string): Promise<TaskSyncResult> {
+    const task = await prisma.remediationTask.findUnique({
+      where: { id: taskId },
+      include: { trackerConnection: true },
+    });
+    if (!task || !task.trackerConnection || !task.externalTicketId) {
+      throw new TrackerError('Task is not linked to an issue tracker');
+    }
+
+    const connection = task.trackerConnection;
+    const result: TaskSyncResult = { taskId, statusChanged: false, assigneeChanged: false };
+
+    let issue: ExternalIssue;
+    try {
+      issue = await createTrackerAdapter(connection).getIssue(task.externalTicketId);
+    } catch (error) {
+      await prisma.remediationTask.update({
+        where: { id: taskId },
+        data: { externalSyncError: (error as Error).message },
+      });
+      throw error;
+    }
+
+    const ticket = `${connection.name} ${issue.id}`;
+    const data: Record<string, unknown> = {
+      externalStatus: issue.status,
+      externalAssignee: assigneeKey(issue),
+      externalSyncedAt: new Date(),
+      externalSyncError: null,
+    };
+
+    // Status: only act when the tracker's status moved since we last saw it
+    const newStatus = issue.status !== task.externalStatus ? mapTrackerStatus(issue, connection.statusMap) : null;
+    if (newStatus && newStatus !== task.status) {
+      data.status = newStatus;
+      if (newStatus === 'COMPLETED') {
+        data.completedAt = new Date();
+        data.percentComplete = 100;
+      } else if (task.status === 'COMPLETED') {
+        data.completedAt = null;
+      }
+
+      await prisma.taskUpdate.create({
+        data: {
+          taskId,
+          content: `Status changed to "${issue.status}" in ${ticket}`,
+          oldStatus: task.status,
+          newStatus,
+          source: 'TRACKER',
+          createdById: SYNC_AUDIT_CONTEXT.userId,
+        },
+      });
+      result.statusChanged = true;
+    }
+
+    // Assignee: mirror onto a local user when the tracker's email matches one
+    const newAssignee = assigneeKey(issue);
+    if (newAssignee !== task.externalAssignee) {
+      const localUser = issue.assignee?.email
+        ? await prisma.user.findUnique({ where: { email: issue.assignee.email }, select: { id: true } })
+        : null;
+      if (localUser) {
+        data.assigneeId = localUser.id;
+      } else if (!issue.assignee) {
+        data.assigneeId = null;
+      }
+
+      await prisma.taskUpdate.create({
+        data: {
+          taskId,
+          content: `Assignee changed in ${ticket}: ${task.externalAssignee || 'Unassigned'} → ${
+            issue.assignee?.name || newAssignee || 'Unassigned'
+          }`,
+          source: 'TRACKER',
+          createdById: SYNC_AUDIT_CONTEXT.userId,
+        },
+      });
+      result.assigneeChanged = true;
+    }
+
+    await prisma.remediationTask.update({ where: { id: taskId }, data });
+    if (result.statusChanged) {
+      await poamService.syncAssessments([task.assessmentId]);
+    }
+
+    if (result.statusChanged || result.assigneeChanged) {
+      await createAuditLog(SYNC_AUDIT_CONTEXT, {
+        action: 'UPDATE',
+        entityType: 'Assessment',
+        entityId: taskId,
+        entityName: task.title,
+        previousValue: { status: task.status, assigneeId: task.assigneeId },
+        newValue: { status: data.status ?? task.status, assigneeId: data.assigneeId ?? task.assigneeId },
+        details: { type: 'RemediationTask', tracker: connection.name, ticket: issue.id },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sync every linked task on active connections (optionally just one connection)
+   */
+  async syncAll(connectionId?: string): Promise<{ synced: number; changed: number; failed: number }> {
+    const tasks = await prisma.remediationTask.findMany({
+      where: {
+        externalTicketId: { not: null },
+        trackerConnection: { isActive: true, ...(connectionId && { id: connectionId }) },
+        OR: [
+          { status: { notIn: ['COMPLETED', 'CANCELLED'] } },
+          { completedAt: { gte: new Date(Date.now() - COMPLETED_SYNC_DAYS * DAY_MS) } },
+        ],
+      },
+      select: { id: true, trackerConnectionId: true },
+    });
+
+    const summary = { synced: 0, changed: 0, failed: 0 };
+    const errors = new Map<string, string | null>();
+
+    for (const task of tasks) {
+      try {
+        const result = await this.syncTask(task.id);
+        summary.synced++;
+        if (result.statusChanged || result.assigneeChanged) summary.changed++;
+        if (!errors.has(task.trackerConnectionId!)) errors.set(task.trackerConnectionId!, null);
+      } catch (error) {
+        summary.failed++;
+        errors.set(task.trackerConnectionId!, (error as Error).message);
+      }
+    }
+
+    for (const [id, lastSyncError] of Array.from(errors)) {
+      await prisma.trackerConnection.update({
+        where: { id },
+        data: { lastSyncAt: new Date(), lastSyncError },
+      });
+    }
+
+    if (summary.changed > 0 || summary.failed > 0) {
+      console.log(
+        `[Issue Tracker] Synced ${summary.synced} task(s): ${summary.changed} changed, ${summary.failed} failed`
+      );
+    }
+    return summary;
+  }
+
+  /**
+   * Check that a connection's credentials and project are valid
+   */
+  async testConnection(connectionId: string): Promise<void> {
+    const connection = await prisma.trackerConnection.findUnique({ where: { id: connectionId } });
+    if (!connection) throw new TrackerError('Tracker connection not found');
+    await createTrackerAdapter(connection).testConnection();
+  }
+}
+
+export const issueTrackerService = new IssueTrackerService();
+export default issueTrackerService;
@@ -0,0 +1,67 @@
+/**
+ * Mail Transport
+ *
+ * Delivery layer for outbound email. SMTP is used when SMTP_HOST is set
+ * (point it at a MailHog-style sink on localhost:1025 for local testing);
+ * otherwise messages are written to the log so nothing is sent by accident.
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(options = config.mail) {
+    this.transporter = nodemailer.createTransport({
+      host: options.smtpHost,
+      port: options.smtpPort,
+      secure: options.smtpSecure,
+      ...(options.smtpUser && { auth: { user: options.smtpUser, pass: options.smtpPass } }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: config.mail.from, ...message });
+  }
+}
+
+export class LogTransport implements MailTransport {
+  readonly name = 'log';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] (not sent, SMTP_HOST unset) To: ${message.to} Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * The configured transport, created on first use
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = config.mail.smtpHost ? new SmtpTransport() : new LogTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the transport, e.g. with another provider or a capturing transport
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
@@ -0,0 +1,285 @@
+/**
+ * NIST 800-53 Baseline Service
+ *
+ * Baselines for products assessed against the NIST SP 800-53 Rev 5 catalog:
+ * - The LOW, MODERATE or HIGH baseline is selected from the product's FIPS 199
+ *   impactLevel, using the imported OSCAL baseline profiles
+ * - Tailoring adds controls/enhancements to, or removes them from, the selected
+ *   baseline; every tailoring decision carries a justification
+ * - Re-selecting (e.g. after an impactLevel change) keeps tailoring that still
+ *   deviates from the new baseline and drops the rest
+ *
+ * Selected and added controls get a NOT_ASSESSED assessment on every system,
+ * like a baseline template. Assessments of removed controls are kept.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { NIST_80053_CATALOG_ID } from './controlCatalog.service';
+import { oscalCatalogService } from './oscalCatalog.service';
+
+export const IMPACT_BASELINES = ['LOW', 'MODERATE', 'HIGH'] as const;
+export type ImpactBaseline = (typeof IMPACT_BASELINES)[number];
+
+export const TAILORING_ACTIONS = ['ADD', 'REMOVE', 'RESET'] as const;
+export type TailoringAction = (typeof TAILORING_ACTIONS)[number];
+
+export type BaselineTailoring = 'ADDED' | 'REMOVED';
+
+export class NistBaselineError extends Error {}
+
+export interface TailoringEntry {
+  controlId: string;
+  title: string;
+  tailoring: BaselineTailoring;
+  justification: string | null;
+  updatedAt: Date;
+}
+
+export interface NistBaselineStatus {
+  productId: string;
+  impactLevel: string;
+  baseline: ImpactBaseline;
+  // False until the baseline's OSCAL profile has been imported
+  profileImported: boolean;
+  baselineControlCount: number;
+  applicableCount: number;
+  // Baseline controls with no baseline entry, e.g. after a profile re-import
+  pendingCount: number;
+  tailoring: TailoringEntry[];
+}
+
+export interface BaselineSelectionResult {
+  baseline: ImpactBaseline;
+  controlCount: number;
+  assessmentsCreated: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+// Helper: baseline for a FIPS 199 impact level
+function baselineFor(impactLevel: string): ImpactBaseline {
+  return (IMPACT_BASELINES as readonly string[]).includes(impactLevel) ? (impactLevel as ImpactBaseline) : 'MODERATE';
+}
+
+// Helper: NOT_ASSESSED assessments for controls a system doesn't have yet
+async function createMissingAssessments(tx: Tx, systemIds: string[], controlIds: string[]): Promise<number> {
+  if (systemIds.length === 0 || controlIds.length === 0) return 0;
+
+  const existing = await tx.complianceAssessment.findMany({
+    where: { systemId: { in: systemIds }, subcategoryId: { in: controlIds } },
+    select: { systemId: true, subcategoryId: true },
+  });
+  const have = new Set(existing.map((a) => `${a.systemId}:${a.subcategoryId}`));
+
+  const data = systemIds.flatMap((systemId) =>
+    controlIds
+      .filter((subcategoryId) => !have.has(`${systemId}:${subcategoryId}`))
+      .map((subcategoryId) => ({ systemId, subcategoryId, status: 'NOT_ASSESSED' }))
+  );
+  if (data.length > 0) {
+    await tx.complianceAssessment.createMany({ data });
+  }
+  return data.length;
+}
+
+class NistBaselineService {
+  // Product on the 800-53 catalog, with its systems
+  private async getProduct(productId: string) {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, impactLevel: true, catalogId: true, systems: { select: { id: true } } },
+    });
+    if (!product) {
+      throw new NistBaselineError('Product not found');
+    }
+    if (product.catalogId !== NIST_80053_CATALOG_ID) {
+      throw new NistBaselineError('Product is not assessed against NIST SP 800-53');
+    }
+    return product;
+  }
+
+  // Baseline control IDs that exist in the loaded catalog
+  private async getSelection(baseline: ImpactBaseline): Promise<Set<string>> {
+    const ids = oscalCatalogService.getBaselineControlIds(baseline);
+    if (ids.size === 0) {
+      throw new NistBaselineError(
+        `The ${baseline} baseline profile has not been imported. Import it under Settings -> Integrations.`
+      );
+    }
+    const known = await prisma.cSFControl.findMany({
+      where: { catalogId: NIST_80053_CATALOG_ID, id: { in: Array.from(ids) } },
+      select: { id: true },
+    });
+    return new Set(known.map((c) => c.id));
+  }
+
+  /**
+   * Baseline selected by the product's impact level and its tailoring
+   */
+  async getStatus(productId: string): Promise<NistBaselineStatus> {
+    const product = await this.getProduct(productId);
+    const baseline = baselineFor(product.impactLevel);
+    const selection = oscalCatalogService.getBaselineControlIds(baseline);
+
+    const entries = await prisma.cSFBaseline.findMany({
+      where: { productId },
+      orderBy: { subcategoryId: 'asc' },
+    });
+    const tailored = entries.filter((e) => e.tailoring);
+    const titles = new Map(
+      (
+        await prisma.cSFControl.findMany({
+          where: { id: { in: tailored.map((e) => e.subcategoryId) } },
+          select: { id: true, title: true },
+        })
+      ).map((c) => [c.id, c.title])
+    );
+    const withEntry = new Set(entries.map((e) => e.subcategoryId));
+
+    return {
+      productId,
+      impactLevel: product.impactLevel,
+      baseline,
+      profileImported: selection.size > 0,
+      baselineControlCount: selection.size,
+      applicableCount: entries.filter((e) => e.applicable).length,
+      pendingCount: Array.from(selection).filter((id) => !withEntry.has(id)).length,
+      tailoring: tailored.map((e) => ({
+        controlId: e.subcategoryId,
+        title: titles.get(e.subcategoryId) || e.subcategoryId,
+        tailoring: e.tailoring as BaselineTailoring,
+        justification: e.justification,
+        updatedAt: e.updatedAt,
+      })),
+    };
+  }
+
+  /**
+   * Replace the product's baseline with the one its impact level selects,
+   * keeping tailoring that still deviates from it
+   */
+  async selectBaseline(productId: string): Promise<BaselineSelectionResult> {
+    const product = await this.getProduct(productId);
+    const baseline = baselineFor(product.impactLevel);
+    const selection = await this.getSelection(baseline);
+
+    return prisma.$transaction(async (tx) => {
+      const entries = await tx.cSFBaseline.findMany({ where: { productId } });
+
+      for (const entry of entries) {
+        const selected = selection.has(entry.subcategoryId);
+        if (entry.tailoring === 'ADDED' && !selected) continue;
+        if (entry.tailoring === 'REMOVED' && selected) continue;
+
+        if (selected) {
+          // Follows the baseline again
+          await tx.cSFBaseline.update({
+            where: { id: entry.id },
+            data: { applicable: true, categoryLevel: 'MUST_HAVE', tailoring: null, justification: null },
+          });
+        } else {
+          await tx.cSFBaseline.delete({ where: { id: entry.id } });
+        }
+      }
+
+      const existing = new Set(entries.map((e) => e.subcategoryId));
+      const missing = Array.from(selection).filter((id) => !existing.has(id));
+      if (missing.length > 0) {
+        await tx.cSFBaseline.createMany({
+          data: missing.map((subcategoryId) => ({
+            productId,
+            subcategoryId,
+            applicable: true,
+            categoryLevel: 'MUST_HAVE',
+          })),
+        });
+      }
+
+      const applicable = await tx.cSFBaseline.findMany({
+        where: { productId, applicable: true },
+        select: { subcategoryId: true },
+      });
+      const controlIds = applicable.map((e) => e.subcategoryId);
+
+      return {
+        baseline,
+        controlCount: controlIds.length,
+        assessmentsCreated: await createMissingAssessments(
+          tx,
+          product.systems.map((s) => s.id),
+          controlIds
+        ),
+      };
+    });
+  }
+
+  /**
+   * Add a control to or remove it from the selected baseline, or undo a
+   * previous tailoring decision (RESET)
+   */
+  async tailor(
+    productId: string,
+    controlId: string,
+    action: TailoringAction,
+    justification?: string | null
+  ): Promise<{ assessmentsCreated: number }> {
+    const product = await this.getProduct(productId);
+    const baseline = baselineFor(product.impactLevel);
+    const selection = await this.getSelection(baseline);
+
+    const control = await prisma.cSFControl.findFirst({
+      where: { id: controlId, catalogId: NIST_80053_CATALOG_ID },
+      select: { id: true },
+    });
+    if (!control) {
+      throw new NistBaselineError(`${controlId} is not a NIST SP 800-53 control or enhancement`);
+    }
+
+    const inBaseline = selection.has(controlId);
+    if (action === 'ADD' && inBaseline) {
+      throw new NistBaselineError(`${controlId} is already in the ${baseline} baseline`);
+    }
+    if (action === 'REMOVE' && !inBaseline) {
+      throw new NistBaselineError(`${controlId} is not in the ${baseline} baseline`);
+    }
+    if (action !== 'RESET' && !justification?.trim()) {
+      throw new NistBaselineError('Tailoring requires a justification');
+    }
+
+    const key = { productId_subcategoryId: { productId, subcategoryId: controlId } };
+
+    return prisma.$transaction(async (tx) => {
+      if (action === 'RESET' && !inBaseline) {
+        await tx.cSFBaseline.deleteMany({ where: { productId, subcategoryId: controlId } });
+        return { assessmentsCreated: 0 };
+      }
+
+      const data =
+        action === 'RESET'
+          ? { applicable: true, tailoring: null, justification: null }
+          : action === 'ADD'
+            ? { applicable: true, tailoring: 'ADDED', justification: justification!.trim() }
+            : { applicable: false, tailoring: 'REMOVED', justification: justification!.trim() };
+
+      await tx.cSFBaseline.upsert({
+        where: key,
+        update: data,
+        create: { productId, subcategoryId: controlId, categoryLevel: 'MUST_HAVE', ...data },
+      });
+
+      return {
+        assessmentsCreated: data.applicable
+          ? await createMissingAssessments(
+              tx,
+              product.systems.map((s) => s.id),
+              [controlId]
+            )
+          : 0,
+      };
+    });
+  }
+}
+
+export const nistBaselineService = new NistBaselineService();
+export default nistBaselineService;
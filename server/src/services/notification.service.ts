@@ -0,0 +1,363 @@
+/**
+ * Notification Service
+ *
+ * Persistent per-user notifications:
+ * - Raised by routes for mentions, task assignments and control assignments
+ * - Raised hourly for approaching task due dates, assessment target dates, evidence expiry
+ *   and risk exception expiry
+ * - Respects per-user opt-outs by type; repeat reminders are suppressed by dedupe key
+ */
+
+import { prisma } from '../prisma';
+import { findControlOwnerIds } from './controlAssignment.service';
+import { webhookService } from './webhook.service';
+
+export const NOTIFICATION_TYPES = [
+  'MENTION',
+  'TASK_ASSIGNED',
+  'CONTROL_ASSIGNED',
+  'TASK_DUE',
+  'ASSESSMENT_DUE',
+  'EVIDENCE_EXPIRING',
+  'EVIDENCE_EXPIRED',
+  'RISK_EXCEPTION_REQUESTED',
+  'RISK_EXCEPTION_DECIDED',
+  'RISK_EXCEPTION_EXPIRING',
+  'RISK_EXCEPTION_EXPIRED',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  severity?: NotificationSeverity;
+  link?: string;
+  entityType?: string;
+  entityId?: string;
+  actorId?: string; // never notified about their own action
+  dedupeKey?: string;
+}
+
+// Reminder windows, in days before the due date
+const TASK_DUE_DAYS = 3;
+const ASSESSMENT_DUE_DAYS = 7;
+const EVIDENCE_EXPIRING_DAYS = 14;
+const RISK_EXCEPTION_EXPIRING_DAYS = 30;
+// Read notifications older than this are pruned
+const RETENTION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_MS = 60 * 60 * 1000;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Client route for the assessment workspace, focused on a control
+ */
+export function assessmentLink(assessment: {
+  subcategoryId: string;
+  systemId: string;
+  system: { productId: string };
+}): string {
+  return `/assess/${assessment.system.productId}/${assessment.systemId}?control=${assessment.subcategoryId}`;
+}
+
+class NotificationService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Create notifications, skipping actors, users who opted out of the type,
+   * and reminders already raised. Failures are logged rather than thrown so
+   * they never break the operation that raised them.
+   */
+  async notify(inputs: NotificationInput | NotificationInput[]): Promise<number> {
+    const candidates = (Array.isArray(inputs) ? inputs : [inputs]).filter(
+      (n) => n.userId && n.userId !== n.actorId
+    );
+    if (candidates.length === 0) return 0;
+
+    try {
+      const optOuts = await prisma.notificationPreference.findMany({
+        where: {
+          userId: { in: Array.from(new Set(candidates.map((n) => n.userId))) },
+          inApp: false,
+        },
+        select: { userId: true, type: true },
+      });
+      const muted = new Set(optOuts.map((p) => `${p.userId}:${p.type}`));
+
+      let created = 0;
+      for (const { severity = 'info', ...input } of candidates) {
+        if (muted.has(`${input.userId}:${input.type}`)) continue;
+        try {
+          await prisma.notification.create({ data: { ...input, severity } });
+          created++;
+        } catch (error: any) {
+          // Unique (userId, dedupeKey): this reminder was already raised
+          if (error.code !== 'P2002') throw error;
+        }
+      }
+      return created;
+    } catch (error) {
+      console.error('Failed to create notifications:', error);
+      return 0;
+    }
+  }
+
+  async list(userId: string, options: { unreadOnly?: boolean; limit?: number; before?: Date } = {}) {
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(options.unreadOnly && { readAt: null }),
+          ...(options.before && { createdAt: { lt: options.before } }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit || 50,
+      }),
+      this.unreadCount(userId),
+    ]);
+
+    return { notifications, unreadCount };
+  }
+
+  unreadCount(userId: string): Promise<number> {
+    return prisma.notification.count({ where: { userId, readAt: null } });
+  }
+
+  /**
+   * Mark the given notifications (or all of them) as read
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+      data: { readAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Delete the given notification (or all of the user's notifications)
+   */
+  async remove(userId: string, id?: string): Promise<number> {
+    const result = await prisma.notification.deleteMany({
+      where: { userId, ...(id && { id }) },
+    });
+    return result.count;
+  }
+
+  /**
+   * In-app setting for every notification type
+   */
+  async getPreferences(userId: string): Promise<Array<{ type: NotificationType; inApp: boolean }>> {
+    const stored = await prisma.notificationPreference.findMany({ where: { userId } });
+    const byType = new Map(stored.map((p) => [p.type, p]));
+
+    return NOTIFICATION_TYPES.map((type) => ({
+      type,
+      inApp: byType.get(type)?.inApp ?? true,
+    }));
+  }
+
+  async updatePreferences(
+    userId: string,
+    preferences: Array<{ type: NotificationType; inApp: boolean }>
+  ) {
+    await prisma.$transaction(
+      preferences.map(({ type, inApp }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, inApp },
+          update: { inApp },
+        })
+      )
+    );
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Run the reminder sweep now, then once an hour
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweepReminders().catch((error) => console.error('[Notifications] Reminder sweep failed:', error));
+    }, SWEEP_MS);
+    this.timer.unref();
+
+    await this.sweepReminders();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Raise reminders for approaching due dates, expiring evidence and expiring
+   * risk exceptions, and prune old read notifications. Dedupe keys include
+   * the date, so a rescheduled item is reminded about again.
+   */
+  async sweepReminders(now: Date = new Date()): Promise<void> {
+    const inDays = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+    // Remediation tasks due soon (or overdue), to their assignee
+    const tasks = await prisma.remediationTask.findMany({
+      where: {
+        assigneeId: { not: null },
+        status: { notIn: ['COMPLETED', 'CANCELLED'] },
+        dueDate: { lte: inDays(TASK_DUE_DAYS) },
+      },
+      select: {
+        id: true,
+        title: true,
+        dueDate: true,
+        assigneeId: true,
+        assessmentId: true,
+        assessment: { select: { subcategoryId: true, systemId: true, system: { select: { productId: true } } } },
+      },
+    });
+
+    await this.notify(
+      tasks.map((task) => {
+        const overdue = task.dueDate! < now;
+        return {
+          userId: task.assigneeId!,
+          type: 'TASK_DUE' as const,
+          severity: overdue ? ('error' as const) : ('warning' as const),
+          title: overdue ? 'Remediation task overdue' : 'Remediation task due soon',
+          message: `"${task.title}" is ${overdue ? 'overdue' : 'due'} (${toDateKey(task.dueDate!)})`,
+          link: assessmentLink(task.assessment),
+          entityType: 'RemediationTask',
+          entityId: task.id,
+          dedupeKey: `task-due:${task.id}:${toDateKey(task.dueDate!)}:${overdue ? 'overdue' : 'soon'}`,
+        };
+      })
+    );
+
+    await webhookService.emit(
+      tasks
+        .filter((task) => task.dueDate! < now)
+        .map((task) => ({
+          type: 'TASK_OVERDUE' as const,
+          productId: task.assessment.system.productId,
+          data: {
+            taskId: task.id,
+            title: task.title,
+            dueDate: task.dueDate,
+            assigneeId: task.assigneeId,
+            assessmentId: task.assessmentId,
+            subcategoryId: task.assessment.subcategoryId,
+            systemId: task.assessment.systemId,
+          },
+          dedupeKey: `task-overdue:${task.id}:${toDateKey(task.dueDate!)}`,
+        }))
+    );
+
+    // Assessments with a target date coming up, to the control's owners
+    const assessments = await prisma.complianceAssessment.findMany({
+      where: {
+        targetDate: { gte: now, lte: inDays(ASSESSMENT_DUE_DAYS) },
+        status: { notIn: ['COMPLIANT', 'NOT_APPLICABLE'] },
+      },
+      select: {
+        id: true,
+        subcategoryId: true,
+        systemId: true,
+        targetDate: true,
+        system: { select: { name: true, productId: true } },
+      },
+    });
+
+    for (const assessment of assessments) {
+      const ownerIds = await findControlOwnerIds(
+        assessment.system.productId,
+        assessment.subcategoryId,
+        assessment.systemId
+      );
+      await this.notify(
+        ownerIds.map((userId) => ({
+          userId,
+          type: 'ASSESSMENT_DUE' as const,
+          severity: 'warning' as const,
+          title: 'Assessment target date approaching',
+          message: `${assessment.subcategoryId} on ${assessment.system.name} is due ${toDateKey(assessment.targetDate!)}`,
+          link: assessmentLink(assessment),
+          entityType: 'Assessment',
+          entityId: assessment.id,
+          dedupeKey: `assessment-due:${assessment.id}:${toDateKey(assessment.targetDate!)}`,
+        }))
+      );
+    }
+
+    // Evidence about to expire, to its uploader
+    const evidence = await prisma.evidence.findMany({
+      where: { isExpired: false, expiresAt: { gt: now, lte: inDays(EVIDENCE_EXPIRING_DAYS) } },
+      select: {
+        id: true,
+        originalName: true,
+        expiresAt: true,
+        uploadedBy: true,
+        assessment: { select: { subcategoryId: true, systemId: true, system: { select: { productId: true } } } },
+      },
+    });
+
+    await this.notify(
+      evidence.map((e) => ({
+        userId: e.uploadedBy,
+        type: 'EVIDENCE_EXPIRING' as const,
+        severity: 'warning' as const,
+        title: 'Evidence expiring soon',
+        message: `${e.originalName} for ${e.assessment.subcategoryId} expires ${toDateKey(e.expiresAt!)}`,
+        link: assessmentLink(e.assessment),
+        entityType: 'Evidence',
+        entityId: e.id,
+        dedupeKey: `evidence-expiring:${e.id}:${toDateKey(e.expiresAt!)}`,
+      }))
+    );
+
+    // Approved risk exceptions about to expire, to whoever requested and approved them
+    const exceptions = await prisma.riskException.findMany({
+      where: { status: 'APPROVED', expiresAt: { gt: now, lte: inDays(RISK_EXCEPTION_EXPIRING_DAYS) } },
+      select: {
+        id: true,
+        expiresAt: true,
+        requestedById: true,
+        decidedById: true,
+        assessment: {
+          select: { subcategoryId: true, systemId: true, system: { select: { name: true, productId: true } } },
+        },
+      },
+    });
+
+    await this.notify(
+      exceptions.flatMap((e) =>
+        Array.from(new Set([e.requestedById, e.decidedById].filter((id): id is string => !!id))).map((userId) => ({
+          userId,
+          type: 'RISK_EXCEPTION_EXPIRING' as const,
+          severity: 'warning' as const,
+          title: 'Risk exception expiring soon',
+          message: `The accepted risk on ${e.assessment.subcategoryId} for ${e.assessment.system.name} expires ${toDateKey(e.expiresAt)}; renew it or remediate the control`,
+          link: assessmentLink(e.assessment),
+          entityType: 'RiskException',
+          entityId: e.id,
+          dedupeKey: `risk-exception-expiring:${e.id}:${toDateKey(e.expiresAt)}`,
+        }))
+      )
+    );
+
+    await prisma.notification.deleteMany({
+      where: { readAt: { not: null }, createdAt: { lt: new Date(now.getTime() - RETENTION_DAYS * DAY_MS) } },
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
+export default notificationService;
@@ -0,0 +1,419 @@
+/**
+ * OSCAL Catalog Service
+ *
+ * Loads NIST SP 800-53 Rev 5 from OSCAL documents:
+ * - The catalog (groups -> controls -> enhancements) provides the controls
+ * - Baseline profiles (LOW, MODERATE, HIGH, PRIVACY) provide each control's
+ *   baselineImpact and priority
+ *
+ * Imported documents are kept as-is under data/oscal/. Until a catalog has
+ * been imported, the pre-flattened data/nist-800-53-rev5.json is used instead.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface NIST80053Enhancement {
+  id: string;
+  title: string;
+  statement: string;
+  guidance: string;
+  baselineImpact?: string[];
+}
+
+export interface NIST80053Control {
+  id: string;
+  family: string;
+  familyName: string;
+  title: string;
+  description: string;
+  statement: string;
+  guidance: string;
+  priority: string;
+  baselineImpact: string[];
+  relatedControls: string[];
+  enhancements: NIST80053Enhancement[];
+}
+
+export interface ControlFamily {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface NIST80053Data {
+  metadata: {
+    source: string;
+    version: string;
+    lastModified: string;
+    generatedAt: string;
+    totalControls: number;
+    totalEnhancements: number;
+    format?: 'OSCAL' | 'LEGACY';
+    baselines?: string[];
+  };
+  families: ControlFamily[];
+  controls: NIST80053Control[];
+}
+
+export const OSCAL_BASELINES = ['LOW', 'MODERATE', 'HIGH', 'PRIVACY'] as const;
+export type OscalBaseline = (typeof OSCAL_BASELINES)[number];
+
+export interface OscalSource {
+  kind: 'catalog' | 'profile';
+  baseline: OscalBaseline | null;
+  title: string;
+  version: string | null;
+  lastModified: string | null;
+  oscalVersion: string | null;
+  controlCount: number;
+  importedAt: string;
+}
+
+export class OscalImportError extends Error {}
+
+// Control family mapping
+const FAMILY_NAMES: Record<string, string> = {
+  'ac': 'Access Control',
+  'at': 'Awareness and Training',
+  'au': 'Audit and Accountability',
+  'ca': 'Assessment, Authorization, and Monitoring',
+  'cm': 'Configuration Management',
+  'cp': 'Contingency Planning',
+  'ia': 'Identification and Authentication',
+  'ir': 'Incident Response',
+  'ma': 'Maintenance',
+  'mp': 'Media Protection',
+  'pe': 'Physical and Environmental Protection',
+  'pl': 'Planning',
+  'pm': 'Program Management',
+  'ps': 'Personnel Security',
+  'pt': 'Personally Identifiable Information Processing and Transparency',
+  'ra': 'Risk Assessment',
+  'sa': 'System and Services Acquisition',
+  'sc': 'System and Communications Protection',
+  'si': 'System and Information Integrity',
+  'sr': 'Supply Chain Risk Management',
+};
+
+// Priority from the lowest baseline a control appears in: the LOW baseline is
+// the foundation every system needs, HIGH-only controls come last
+const BASELINE_PRIORITIES: Record<string, string> = {
+  LOW: 'P1',
+  MODERATE: 'P2',
+  HIGH: 'P3',
+};
+
+const DATA_DIR = path.join(__dirname, '../../data');
+const OSCAL_DIR = path.join(DATA_DIR, 'oscal');
+const CATALOG_FILE = path.join(OSCAL_DIR, 'catalog.json');
+const LEGACY_FILE = path.join(DATA_DIR, 'nist-800-53-rev5.json');
+
+const profileFile = (baseline: OscalBaseline) => path.join(OSCAL_DIR, `profile-${baseline.toLowerCase()}.json`);
+
+/**
+ * Internal control ID from an OSCAL or display ID
+ * (e.g., "ac-2.1", "AC-2(1)" -> "AC-2.1")
+ */
+export function normalizeControlId(id: string): string {
+  return id.trim().toUpperCase().replace(/\((\d+)\)$/, '.$1');
+}
+
+/**
+ * OSCAL control ID from an internal or display ID (e.g., "AC-2(1)" -> "ac-2.1")
+ */
+export function toOscalControlId(id: string): string {
+  return normalizeControlId(id).toLowerCase();
+}
+
+// Helper: render OSCAL parameter inserts the way the published catalog does
+function renderParams(text: string, params: Map<string, any>): string {
+  return text.replace(/\{\{\s*insert:\s*param,\s*([^}\s]+)\s*\}\}/g, (_match, id: string) => {
+    const param = params.get(id);
+    if (!param) return `[Assignment: ${id}]`;
+    if (param.select?.choice) {
+      const choices = (param.select.choice as string[]).map((c) => renderParams(c, params));
+      const many = param.select['how-many'] === 'one-or-more' ? ' (one or more)' : '';
+      return `[Selection${many}: ${choices.join('; ')}]`;
+    }
+    return `[Assignment: ${param.label || id}]`;
+  });
+}
+
+// Helper: prose of a named part and all of its sub-parts, one labelled item per line
+function extractText(parts: any[] | undefined, partName: string, params: Map<string, any>): string {
+  const part = parts?.find((p: any) => p.name === partName);
+  if (!part) return '';
+
+  const lines: string[] = [];
+  const walk = (node: any, depth: number) => {
+    let childDepth = depth;
+    if (node.prose) {
+      const label = node.props?.find((pr: any) => pr.name === 'label')?.value;
+      lines.push('  '.repeat(depth) + [label, renderParams(node.prose, params)].filter(Boolean).join(' '));
+      childDepth = depth + 1;
+    }
+    (node.parts || []).forEach((child: any) => walk(child, childDepth));
+  };
+  walk(part, 0);
+
+  return lines.join('\n').trim();
+}
+
+// Helper: parameters declared on a control and its enhancements
+function collectParams(control: any, params = new Map<string, any>()) {
+  (control.params || []).forEach((p: any) => params.set(p.id, p));
+  (control.controls || []).forEach((c: any) => collectParams(c, params));
+  return params;
+}
+
+function parseControl(control: any, familyId: string): NIST80053Control {
+  const params = collectParams(control);
+  const statement = extractText(control.parts, 'statement', params);
+
+  const relatedControls: string[] = (control.links || [])
+    .filter((link: any) => link.rel === 'related')
+    .map((link: any) => link.href.match(/#([a-z]+-\d+(?:\.\d+)?)/i)?.[1])
+    .filter(Boolean)
+    .map(normalizeControlId);
+
+  return {
+    id: normalizeControlId(control.id),
+    family: familyId.toUpperCase(),
+    familyName: FAMILY_NAMES[familyId] || familyId.toUpperCase(),
+    title: control.title || '',
+    description: statement.split('\n')[0] || control.title || '',
+    statement,
+    guidance: extractText(control.parts, 'guidance', params),
+    priority: 'P3',
+    baselineImpact: [],
+    relatedControls,
+    enhancements: (control.controls || []).map((enh: any) => ({
+      id: normalizeControlId(enh.id),
+      title: enh.title || '',
+      statement: extractText(enh.parts, 'statement', params),
+      guidance: extractText(enh.parts, 'guidance', params),
+      baselineImpact: [],
+    })),
+  };
+}
+
+/**
+ * Flatten an OSCAL catalog document into the controls/families structure
+ * served by /api/nist80053
+ */
+export function parseCatalog(document: any): NIST80053Data {
+  const catalog = document?.catalog;
+  if (!catalog || !Array.isArray(catalog.groups)) {
+    throw new OscalImportError('Not an OSCAL catalog: expected catalog.groups');
+  }
+
+  const families: ControlFamily[] = [];
+  const controls: NIST80053Control[] = [];
+
+  for (const group of catalog.groups) {
+    families.push({
+      id: group.id.toUpperCase(),
+      name: FAMILY_NAMES[group.id] || group.title,
+      description: group.title,
+    });
+    (group.controls || []).forEach((control: any) => controls.push(parseControl(control, group.id)));
+  }
+
+  if (controls.length === 0) {
+    throw new OscalImportError('OSCAL catalog contains no controls');
+  }
+
+  return {
+    metadata: {
+      source: catalog.metadata?.title || 'NIST SP 800-53 Revision 5',
+      version: catalog.metadata?.version || '',
+      lastModified: catalog.metadata?.['last-modified'] || '',
+      generatedAt: new Date().toISOString(),
+      totalControls: controls.length,
+      totalEnhancements: controls.reduce((sum, c) => sum + c.enhancements.length, 0),
+      format: 'OSCAL',
+    },
+    families,
+    controls,
+  };
+}
+
+/**
+ * Baseline level and selected control IDs of an OSCAL profile. The level comes
+ * from the explicit argument or the profile title (e.g., "... MODERATE IMPACT BASELINE").
+ */
+export function parseProfile(document: any, baseline?: OscalBaseline) {
+  const profile = document?.profile;
+  if (!profile || !Array.isArray(profile.imports)) {
+    throw new OscalImportError('Not an OSCAL profile: expected profile.imports');
+  }
+
+  const title: string = profile.metadata?.title || '';
+  const level = baseline || OSCAL_BASELINES.find((b) => new RegExp(`\\b${b}\\b`, 'i').test(title));
+  if (!level) {
+    throw new OscalImportError(`Could not tell which baseline "${title}" is; choose LOW, MODERATE, HIGH or PRIVACY`);
+  }
+
+  const controlIds = new Set<string>();
+  for (const imp of profile.imports) {
+    for (const include of imp['include-controls'] || []) {
+      (include['with-ids'] || []).forEach((id: string) => controlIds.add(normalizeControlId(id)));
+    }
+  }
+
+  if (controlIds.size === 0) {
+    throw new OscalImportError('OSCAL profile selects no controls (only include-controls with-ids is supported)');
+  }
+
+  return { baseline: level, title, controlIds };
+}
+
+// Helper: set baselineImpact and priority from the imported baseline profiles
+function applyProfiles(data: NIST80053Data, profiles: { baseline: OscalBaseline; controlIds: Set<string> }[]) {
+  if (profiles.length === 0) return data;
+
+  for (const control of data.controls) {
+    control.baselineImpact = profiles.filter((p) => p.controlIds.has(control.id)).map((p) => p.baseline);
+    const lowest = (['LOW', 'MODERATE', 'HIGH'] as const).find((b) => control.baselineImpact.includes(b));
+    control.priority = lowest ? BASELINE_PRIORITIES[lowest] : 'P3';
+    for (const enhancement of control.enhancements) {
+      enhancement.baselineImpact = profiles.filter((p) => p.controlIds.has(enhancement.id)).map((p) => p.baseline);
+    }
+  }
+  data.metadata.baselines = profiles.map((p) => p.baseline);
+
+  return data;
+}
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+class OscalCatalogService {
+  private data: NIST80053Data | null = null;
+  private profiles: { baseline: OscalBaseline; title: string; controlIds: Set<string> }[] | null = null;
+
+  /**
+   * The 800-53 catalog with baselines applied, loaded once and cached
+   */
+  getCatalog(): NIST80053Data {
+    if (this.data) {
+      return this.data;
+    }
+
+    let data: NIST80053Data;
+    if (fs.existsSync(CATALOG_FILE)) {
+      data = parseCatalog(readJson(CATALOG_FILE));
+    } else if (fs.existsSync(LEGACY_FILE)) {
+      console.warn('[NIST 800-53] No OSCAL catalog imported, using data/nist-800-53-rev5.json');
+      data = { ...readJson(LEGACY_FILE) };
+      data.metadata = { ...data.metadata, format: 'LEGACY' };
+    } else {
+      throw new Error('NIST 800-53 Rev 5 catalog not found. Import an OSCAL catalog or run: npx ts-node scripts/fetch-800-53-rev5.ts');
+    }
+
+    this.data = applyProfiles(data, this.getProfiles());
+    console.log(`[NIST 800-53] Loaded ${this.data.controls.length} controls with ${this.data.metadata.totalEnhancements} enhancements (${this.data.metadata.format}, baselines: ${this.data.metadata.baselines?.join(', ') || 'none'})`);
+
+    return this.data;
+  }
+
+  /**
+   * Imported baseline profiles
+   */
+  getProfiles() {
+    if (!this.profiles) {
+      this.profiles = OSCAL_BASELINES.filter((b) => fs.existsSync(profileFile(b))).map((b) =>
+        parseProfile(readJson(profileFile(b)), b)
+      );
+    }
+    return this.profiles;
+  }
+
+  /**
+   * Control and enhancement IDs selected by a baseline (empty if not imported)
+   */
+  getBaselineControlIds(baseline: OscalBaseline): Set<string> {
+    return this.getProfiles().find((p) => p.baseline === baseline)?.controlIds || new Set();
+  }
+
+  /**
+   * What is currently imported under data/oscal/
+   */
+  getSources(): OscalSource[] {
+    const describe = (file: string, kind: OscalSource['kind'], baseline: OscalBaseline | null): OscalSource => {
+      const root = readJson(file)[kind];
+      const controlCount = kind === 'catalog'
+        ? this.getCatalog().controls.length
+        : this.getBaselineControlIds(baseline!).size;
+      return {
+        kind,
+        baseline,
+        title: root.metadata?.title || '',
+        version: root.metadata?.version || null,
+        lastModified: root.metadata?.['last-modified'] || null,
+        oscalVersion: root.metadata?.['oscal-version'] || null,
+        controlCount,
+        importedAt: fs.statSync(file).mtime.toISOString(),
+      };
+    };
+
+    const sources: OscalSource[] = [];
+    if (fs.existsSync(CATALOG_FILE)) sources.push(describe(CATALOG_FILE, 'catalog', null));
+    OSCAL_BASELINES.filter((b) => fs.existsSync(profileFile(b))).forEach((b) =>
+      sources.push(describe(profileFile(b), 'profile', b))
+    );
+    return sources;
+  }
+
+  /**
+   * Validate and store an OSCAL catalog or baseline profile, replacing any
+   * previous import of the same kind, then reload the catalog
+   */
+  importDocument(document: any, baseline?: OscalBaseline) {
+    fs.mkdirSync(OSCAL_DIR, { recursive: true });
+
+    if (document?.catalog) {
+      const parsed = parseCatalog(document);
+      fs.writeFileSync(CATALOG_FILE, JSON.stringify(document));
+      this.invalidate();
+      return {
+        kind: 'catalog' as const,
+        baseline: null,
+        title: parsed.metadata.source,
+        controlCount: parsed.controls.length,
+        enhancementCount: parsed.metadata.totalEnhancements,
+        unknownControlIds: [] as string[],
+      };
+    }
+
+    if (document?.profile) {
+      const parsed = parseProfile(document, baseline);
+      const known = new Set(this.getCatalog().controls.flatMap((c) => [c.id, ...c.enhancements.map((e) => e.id)]));
+      fs.writeFileSync(profileFile(parsed.baseline), JSON.stringify(document));
+      this.invalidate();
+      return {
+        kind: 'profile' as const,
+        baseline: parsed.baseline,
+        title: parsed.title,
+        controlCount: parsed.controlIds.size,
+        enhancementCount: Array.from(parsed.controlIds).filter((id) => id.includes('.')).length,
+        unknownControlIds: Array.from(parsed.controlIds).filter((id) => !known.has(id)),
+      };
+    }
+
+    throw new OscalImportError('Not an OSCAL catalog or profile');
+  }
+
+  /**
+   * Drop the cached catalog so the next read reloads from disk
+   */
+  invalidate() {
+    this.data = null;
+    this.profiles = null;
+  }
+}
+
+export const oscalCatalogService = new OscalCatalogService();
+export default oscalCatalogService;
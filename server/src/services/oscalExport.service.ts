@@ -0,0 +1,472 @@
+/**
+ * OSCAL Export Service
+ *
+ * Builds OSCAL 1.1.2 JSON documents for a product:
+ * - System Security Plan: systems as components, CSF baseline subcategories
+ *   mapped to 800-53 controls through NIST80053Mapping, with each system's
+ *   assessment as the control implementation
+ * - Assessment Results: one observation and finding per assessed subcategory
+ *   and system, with evidence files as relevant evidence
+ * - Plan of Action and Milestones: a risk and POA&M item per non-compliant or
+ *   partially compliant assessment, with remediation tasks as milestones
+ *
+ * Identifiers of components, findings, risks etc. are derived from database IDs
+ * so that re-exporting the same product keeps them stable. Callers are
+ * responsible for access checks.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { prisma } from '../prisma';
+import { oscalCatalogService, toOscalControlId } from './oscalCatalog.service';
+
+export const OSCAL_VERSION = '1.1.2';
+
+// Namespace for props that are not part of the OSCAL core vocabulary
+const NS = 'https://posture.app/ns/oscal';
+
+const BASELINE_PROFILE_URL =
+  'https://raw.githubusercontent.com/usnistgov/oscal-content/main/nist.gov/SP800-53/rev5/json/NIST_SP-800-53_rev5_%s-baseline_profile.json';
+
+// Assessment status -> OSCAL implementation-status state
+const IMPLEMENTATION_STATES: Record<string, string> = {
+  COMPLIANT: 'implemented',
+  PARTIALLY_COMPLIANT: 'partial',
+  NON_COMPLIANT: 'planned',
+  NOT_APPLICABLE: 'not-applicable',
+};
+
+const OPEN_FINDING_STATUSES = ['NON_COMPLIANT', 'PARTIALLY_COMPLIANT'];
+
+// Assessments are stored with either the enum or the display status; the
+// export works with the enum
+const ENUM_STATUSES: Record<string, string> = {
+  Implemented: 'COMPLIANT',
+  'Partially Implemented': 'PARTIALLY_COMPLIANT',
+  'Not Implemented': 'NON_COMPLIANT',
+  'Not Assessed': 'NOT_ASSESSED',
+  'Not Applicable': 'NOT_APPLICABLE',
+};
+
+type ExportProduct = NonNullable<Awaited<ReturnType<typeof loadProduct>>>;
+type ExportSystem = ExportProduct['systems'][number];
+type ExportAssessment = ExportSystem['assessments'][number];
+
+interface Preparer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Name-based UUID (version 5 layout over SHA-1) for the given parts
+ */
+export function stableUuid(...parts: string[]): string {
+  const hash = createHash('sha1').update(parts.join(':')).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+const prop = (name: string, value: string, ns: string | undefined = NS) => ({ name, value, ...(ns && { ns }) });
+
+const sensitivity = (impactLevel: string) => `fips-199-${impactLevel.toLowerCase()}`;
+
+// Helper: everything the three documents draw on
+async function loadProduct(productId: string) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      framework: { select: { name: true } },
+      systems: {
+        orderBy: { name: 'asc' },
+        include: {
+          assessments: {
+            orderBy: { subcategoryId: 'asc' },
+            include: {
+              evidenceFiles: true,
+              remediationTasks: {
+                orderBy: { createdAt: 'asc' },
+                include: { assignee: { select: { name: true, email: true } } },
+              },
+            },
+          },
+        },
+      },
+      csfBaseline: { where: { applicable: true }, orderBy: { subcategoryId: 'asc' } },
+    },
+  });
+  if (!product) return null;
+
+  return {
+    ...product,
+    systems: product.systems.map((system) => ({
+      ...system,
+      assessments: system.assessments.map((a) => ({ ...a, status: ENUM_STATUSES[a.status] ?? a.status })),
+    })),
+  };
+}
+
+// Helper: CSF subcategory -> mapped 800-53 control IDs
+async function loadMappings() {
+  const mappings = await prisma.nIST80053Mapping.findMany({ orderBy: { nist80053Id: 'asc' } });
+  const bySubcategory = new Map<string, string[]>();
+  for (const m of mappings) {
+    bySubcategory.set(m.csfControlId, [...(bySubcategory.get(m.csfControlId) || []), m.nist80053Id]);
+  }
+  return bySubcategory;
+}
+
+async function loadCsfControls() {
+  const controls = await prisma.cSFControl.findMany({ select: { id: true, title: true, text: true } });
+  return new Map(controls.map((c) => [c.id, c]));
+}
+
+// Helper: combined implementation state of several assessments
+function rollupState(statuses: string[]): string | null {
+  const states = statuses.map((s) => IMPLEMENTATION_STATES[s]).filter(Boolean);
+  if (states.length === 0) return null;
+  if (states.every((s) => s === 'not-applicable')) return 'not-applicable';
+  const relevant = states.filter((s) => s !== 'not-applicable');
+  if (relevant.every((s) => s === 'implemented')) return 'implemented';
+  if (relevant.some((s) => s === 'implemented' || s === 'partial')) return 'partial';
+  return 'planned';
+}
+
+function componentUuid(productId: string, systemId?: string) {
+  return systemId ? stableUuid(productId, 'component', systemId) : stableUuid(productId, 'this-system');
+}
+
+function metadata(title: string, product: ExportProduct, preparer: Preparer) {
+  const owner = product.user;
+  const parties = [owner, ...(preparer.id !== owner.id ? [preparer] : [])].map((person) => ({
+    uuid: stableUuid('party', person.id),
+    type: 'person',
+    name: person.name,
+    'email-addresses': [person.email],
+  }));
+
+  return {
+    title,
+    'last-modified': new Date().toISOString(),
+    version: product.updatedAt.toISOString(),
+    'oscal-version': OSCAL_VERSION,
+    roles: [
+      { id: 'system-owner', title: 'System Owner' },
+      { id: 'prepared-by', title: 'Prepared By' },
+    ],
+    parties,
+    'responsible-parties': [
+      { 'role-id': 'system-owner', 'party-uuids': [stableUuid('party', owner.id)] },
+      { 'role-id': 'prepared-by', 'party-uuids': [stableUuid('party', preparer.id)] },
+    ],
+  };
+}
+
+function observation(product: ExportProduct, system: ExportSystem, assessment: ExportAssessment) {
+  return {
+    uuid: stableUuid(assessment.id, 'observation'),
+    title: `${assessment.subcategoryId} on ${system.name}`,
+    description: assessment.details || `Assessed as ${assessment.status}.`,
+    props: [
+      prop('assessment-status', assessment.status),
+      prop('csf-subcategory', assessment.subcategoryId),
+      ...(assessment.assessor ? [prop('assessor', assessment.assessor)] : []),
+    ],
+    methods: ['EXAMINE'],
+    types: ['control-objective'],
+    subjects: [{ 'subject-uuid': componentUuid(product.id, system.id), type: 'component' }],
+    ...(assessment.evidenceFiles.length > 0 && {
+      'relevant-evidence': assessment.evidenceFiles.map((evidence) => ({
+        href: `/api/evidence/${evidence.id}/download`,
+        description: evidence.description || evidence.originalName,
+        props: [
+          prop('evidence-type', evidence.evidenceType),
+          ...(evidence.expiresAt ? [prop('expires', evidence.expiresAt.toISOString())] : []),
+        ],
+      })),
+    }),
+    collected: (assessment.assessedDate || assessment.updatedAt).toISOString(),
+  };
+}
+
+class OscalExportService {
+  /**
+   * OSCAL system-security-plan; null if the product does not exist
+   */
+  async buildSSP(productId: string, preparer: Preparer) {
+    const product = await loadProduct(productId);
+    if (!product) return null;
+
+    const [mappings, csfControls] = await Promise.all([loadMappings(), loadCsfControls()]);
+    const catalog = oscalCatalogService.getCatalog();
+    const catalogIds = new Set(catalog.controls.map((c) => c.id));
+
+    // Scope is the applicable baseline, or every assessed subcategory when no baseline is set
+    const subcategories = product.csfBaseline.length > 0
+      ? product.csfBaseline.map((b) => b.subcategoryId)
+      : Array.from(new Set(product.systems.flatMap((s) => s.assessments.map((a) => a.subcategoryId)))).sort();
+
+    // 800-53 control -> CSF subcategories that map to it
+    const controls = new Map<string, string[]>();
+    for (const subcategoryId of subcategories) {
+      for (const controlId of mappings.get(subcategoryId) || []) {
+        controls.set(controlId, [...(controls.get(controlId) || []), subcategoryId]);
+      }
+    }
+
+    const implementedRequirements = Array.from(controls.entries())
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([controlId, mappedFrom]) => {
+        const byComponents = product.systems.flatMap((system) => {
+          const assessments = system.assessments.filter((a) => mappedFrom.includes(a.subcategoryId));
+          const state = rollupState(assessments.map((a) => a.status));
+          if (!state) return [];
+
+          return [{
+            'component-uuid': componentUuid(product.id, system.id),
+            uuid: stableUuid(product.id, 'by-component', controlId, system.id),
+            description: assessments
+              .map((a) => `${a.subcategoryId} (${a.status}): ${a.details || csfControls.get(a.subcategoryId)?.text || ''}`.trim())
+              .join('\n'),
+            'implementation-status': {
+              state,
+              ...(state === 'planned' && { remarks: assessments.map((a) => a.remediationPlan).filter(Boolean).join('\n') || undefined }),
+            },
+          }];
+        });
+
+        return {
+          uuid: stableUuid(product.id, 'implemented-requirement', controlId),
+          'control-id': toOscalControlId(controlId),
+          props: mappedFrom.map((subcategoryId) => prop('csf-subcategory', subcategoryId)),
+          ...(byComponents.length > 0 && { 'by-components': byComponents }),
+          ...(!catalogIds.has(controlId) && { remarks: `${controlId} is not in the loaded 800-53 catalog (withdrawn or from an earlier revision).` }),
+        };
+      });
+
+    const impact = sensitivity(product.impactLevel);
+
+    return {
+      'system-security-plan': {
+        uuid: randomUUID(),
+        metadata: metadata(`${product.name} System Security Plan`, product, preparer),
+        'import-profile': {
+          href: BASELINE_PROFILE_URL.replace('%s', product.impactLevel.toUpperCase()),
+        },
+        'system-characteristics': {
+          'system-ids': [{ 'identifier-type': 'https://ietf.org/rfc/rfc4122', id: stableUuid(product.id, 'system-id') }],
+          'system-name': product.name,
+          description: product.description || product.name,
+          props: [prop('product-type', product.type), prop('criticality', product.criticality), prop('framework', product.framework.name)],
+          'security-sensitivity-level': impact,
+          'system-information': {
+            'information-types': [{
+              uuid: stableUuid(product.id, 'information-type'),
+              title: `${product.name} information`,
+              description: `Information processed by ${product.name}, categorized at the product's FIPS 199 impact level.`,
+              'confidentiality-impact': { base: impact },
+              'integrity-impact': { base: impact },
+              'availability-impact': { base: impact },
+            }],
+          },
+          'security-impact-level': {
+            'security-objective-confidentiality': impact,
+            'security-objective-integrity': impact,
+            'security-objective-availability': impact,
+          },
+          status: { state: 'operational' },
+          'authorization-boundary': {
+            description: `The ${product.systems.length} system(s) of ${product.name}: ${product.systems.map((s) => s.name).join(', ') || 'none registered'}.`,
+          },
+        },
+        'system-implementation': {
+          users: [{
+            uuid: stableUuid(product.id, 'user', product.user.id),
+            title: product.user.name,
+            'role-ids': ['system-owner'],
+          }],
+          components: [
+            {
+              uuid: componentUuid(product.id),
+              type: 'this-system',
+              title: product.name,
+              description: product.description || product.name,
+              status: { state: 'operational' },
+            },
+            ...product.systems.map((system) => ({
+              uuid: componentUuid(product.id, system.id),
+              type: 'system',
+              title: system.name,
+              description: system.description || system.name,
+              props: [
+                prop('environment', system.environment),
+                prop('data-classification', system.dataClassification),
+                prop('criticality', system.criticality),
+              ],
+              status: { state: system.environment === 'DEVELOPMENT' ? 'under-development' : 'operational' },
+            })),
+          ],
+        },
+        'control-implementation': {
+          description: `NIST SP 800-53 Rev 5 controls mapped from the ${subcategories.length} CSF 2.0 subcategories in scope for ${product.name}.`,
+          'implemented-requirements': implementedRequirements,
+        },
+      },
+    };
+  }
+
+  /**
+   * OSCAL assessment-results; null if the product does not exist
+   */
+  async buildAssessmentResults(productId: string, preparer: Preparer) {
+    const product = await loadProduct(productId);
+    if (!product) return null;
+
+    const [mappings, csfControls] = await Promise.all([loadMappings(), loadCsfControls()]);
+
+    const assessed = product.systems.flatMap((system) =>
+      system.assessments.filter((a) => a.status !== 'NOT_ASSESSED').map((assessment) => ({ system, assessment }))
+    );
+    const dates = assessed.map(({ assessment }) => (assessment.assessedDate || assessment.updatedAt).getTime());
+    const reviewed = Array.from(new Set(assessed.flatMap(({ assessment }) => mappings.get(assessment.subcategoryId) || []))).sort();
+    const planUuid = stableUuid(product.id, 'assessment-plan');
+
+    return {
+      'assessment-results': {
+        uuid: randomUUID(),
+        metadata: metadata(`${product.name} Assessment Results`, product, preparer),
+        'import-ap': { href: `#${planUuid}` },
+        results: [{
+          uuid: randomUUID(),
+          title: `${product.name} control assessments`,
+          description: `${assessed.length} assessment(s) across ${product.systems.length} system(s).`,
+          start: new Date(dates.length ? Math.min(...dates) : product.createdAt.getTime()).toISOString(),
+          ...(dates.length > 0 && { end: new Date(Math.max(...dates)).toISOString() }),
+          'reviewed-controls': {
+            'control-selections': [
+              reviewed.length > 0
+                ? { 'include-controls': reviewed.map((id) => ({ 'control-id': toOscalControlId(id) })) }
+                : { 'include-all': {} },
+            ],
+          },
+          observations: assessed.map(({ system, assessment }) => observation(product, system, assessment)),
+          findings: assessed.map(({ system, assessment }) => ({
+            uuid: stableUuid(assessment.id, 'finding'),
+            title: `${assessment.subcategoryId} on ${system.name}`,
+            description: csfControls.get(assessment.subcategoryId)?.text || assessment.subcategoryId,
+            props: (mappings.get(assessment.subcategoryId) || []).map((id) => prop('nist-800-53-control', toOscalControlId(id))),
+            target: {
+              type: 'objective-id',
+              'target-id': assessment.subcategoryId,
+              props: [prop('framework', 'nist-csf-2.0')],
+              status: {
+                state: assessment.status === 'COMPLIANT' || assessment.status === 'NOT_APPLICABLE' ? 'satisfied' : 'not-satisfied',
+              },
+              'implementation-status': { state: IMPLEMENTATION_STATES[assessment.status] },
+            },
+            'related-observations': [{ 'observation-uuid': stableUuid(assessment.id, 'observation') }],
+          })),
+        }],
+        'back-matter': {
+          resources: [{
+            uuid: planUuid,
+            title: `${product.name} assessment plan`,
+            description: 'Assessments are planned in Posture; no OSCAL assessment plan is exported.',
+          }],
+        },
+      },
+    };
+  }
+
+  /**
+   * OSCAL plan-of-action-and-milestones; null if the product does not exist
+   */
+  async buildPOAM(productId: string, preparer: Preparer) {
+    const product = await loadProduct(productId);
+    if (!product) return null;
+
+    const [mappings, csfControls] = await Promise.all([loadMappings(), loadCsfControls()]);
+
+    const open = product.systems.flatMap((system) =>
+      system.assessments.filter((a) => OPEN_FINDING_STATUSES.includes(a.status)).map((assessment) => ({ system, assessment }))
+    );
+
+    const risks = open.map(({ system, assessment }) => {
+      const control = csfControls.get(assessment.subcategoryId);
+      return {
+        uuid: stableUuid(assessment.id, 'risk'),
+        title: `${assessment.subcategoryId} ${assessment.status === 'NON_COMPLIANT' ? 'not implemented' : 'partially implemented'} on ${system.name}`,
+        description: control?.text || assessment.subcategoryId,
+        statement: assessment.details || `${system.name} is ${assessment.status.toLowerCase().replace('_', ' ')} with ${assessment.subcategoryId}.`,
+        props: (mappings.get(assessment.subcategoryId) || []).map((id) => prop('nist-800-53-control', toOscalControlId(id))),
+        status: 'open',
+        ...(assessment.riskLevel && {
+          characterizations: [{
+            origin: { actors: [{ type: 'party', 'actor-uuid': stableUuid('party', product.user.id) }] },
+            facets: [{ name: 'risk', system: NS, value: assessment.riskLevel.toLowerCase() }],
+          }],
+        }),
+        ...(assessment.targetDate && { deadline: assessment.targetDate.toISOString() }),
+        ...((assessment.remediationPlan || assessment.remediationTasks.length > 0) && {
+          remediations: [
+            ...(assessment.remediationPlan
+              ? [{
+                  uuid: stableUuid(assessment.id, 'remediation-plan'),
+                  lifecycle: 'planned',
+                  title: 'Remediation plan',
+                  description: assessment.remediationPlan,
+                }]
+              : []),
+            ...assessment.remediationTasks.map((task) => ({
+              uuid: stableUuid(task.id, 'remediation'),
+              lifecycle: task.status === 'COMPLETED' ? 'completed' : 'planned',
+              title: task.title,
+              description: task.description || task.title,
+              props: [
+                prop('task-status', task.status),
+                prop('priority', task.priority),
+                prop('percent-complete', String(task.percentComplete)),
+                ...(task.assignee ? [prop('assignee', task.assignee.email)] : []),
+              ],
+              ...(task.externalTicketUrl && { links: [{ href: task.externalTicketUrl, rel: 'external-ticket', text: task.externalTicketId || undefined }] }),
+              ...((task.dueDate || task.completedAt) && {
+                tasks: [{
+                  uuid: stableUuid(task.id, 'milestone'),
+                  type: 'milestone',
+                  title: task.completedAt ? 'Completed' : 'Due',
+                  timing: { 'on-date': { date: (task.completedAt || task.dueDate)!.toISOString() } },
+                }],
+              }),
+            })),
+          ],
+        }),
+        'related-observations': [{ 'observation-uuid': stableUuid(assessment.id, 'observation') }],
+      };
+    });
+
+    return {
+      'plan-of-action-and-milestones': {
+        uuid: randomUUID(),
+        metadata: metadata(`${product.name} Plan of Action and Milestones`, product, preparer),
+        'system-id': { 'identifier-type': 'https://ietf.org/rfc/rfc4122', id: stableUuid(product.id, 'system-id') },
+        ...(open.length > 0 && {
+          observations: open.map(({ system, assessment }) => observation(product, system, assessment)),
+          risks,
+        }),
+        'poam-items': open.map(({ system, assessment }, index) => ({
+          uuid: stableUuid(assessment.id, 'poam-item'),
+          title: risks[index].title,
+          description: assessment.remediationPlan || risks[index].statement,
+          props: [prop('poam-id', `${system.name}:${assessment.subcategoryId}`)],
+          'related-observations': [{ 'observation-uuid': stableUuid(assessment.id, 'observation') }],
+          'related-risks': [{ 'risk-uuid': stableUuid(assessment.id, 'risk') }],
+        })),
+      },
+    };
+  }
+}
+
+export const oscalExportService = new OscalExportService();
+export default oscalExportService;
@@ -0,0 +1,488 @@
+/**
+ * POA&M Service
+ *
+ * The Plan of Action and Milestones register for a product:
+ * - Sync opens an item for every NON_COMPLIANT or PARTIALLY_COMPLIANT assessment
+ *   and closes it once the assessment is COMPLIANT or NOT_APPLICABLE
+ * - Remediation tasks on the assessment become milestones that follow the task
+ * - Every status change is recorded in the item's history
+ * - POA&M IDs are sequential per product and never reused; an assessment that
+ *   fails again after its item was closed gets a new item
+ * - Exports to the FedRAMP POA&M workbook layout (open and closed sheets)
+ */
+
+import { Prisma } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { prisma } from '../prisma';
+
+export const POAM_STATUSES = ['OPEN', 'IN_PROGRESS', 'DELAYED', 'RISK_ACCEPTED', 'CLOSED'] as const;
+export type PoamStatus = (typeof POAM_STATUSES)[number];
+
+export const POAM_RISK_RATINGS = ['LOW', 'MODERATE', 'HIGH', 'CRITICAL'] as const;
+export type PoamRiskRating = (typeof POAM_RISK_RATINGS)[number];
+
+export const POAM_WEAKNESS_SOURCES = [
+  'SECURITY_ASSESSMENT',
+  'CONTINUOUS_MONITORING',
+  'VULNERABILITY_SCAN',
+  'PENETRATION_TEST',
+  'AUDIT',
+  'INCIDENT',
+  'OTHER',
+] as const;
+
+export const POAM_DEVIATION_TYPES = ['RISK_ACCEPTANCE', 'FALSE_POSITIVE', 'OPERATIONAL_REQUIREMENT'] as const;
+export type PoamDeviationType = (typeof POAM_DEVIATION_TYPES)[number];
+
+export const POAM_MILESTONE_STATUSES = ['PENDING', 'COMPLETED', 'CANCELLED'] as const;
+
+export class PoamError extends Error {}
+
+export interface PoamUpdateInput {
+  weakness?: string;
+  weaknessDescription?: string | null;
+  weaknessSource?: string;
+  sourceIdentifier?: string | null;
+  riskRating?: PoamRiskRating;
+  status?: PoamStatus;
+  // Recorded in the status history with a status change
+  statusNote?: string;
+  pointOfContact?: string | null;
+  resourcesRequired?: string | null;
+  remediationPlan?: string | null;
+  scheduledCompletionDate?: Date | null;
+  deviationType?: PoamDeviationType | null;
+  deviationRationale?: string | null;
+  vendorDependency?: boolean;
+  comments?: string | null;
+}
+
+export interface PoamMilestoneInput {
+  description?: string;
+  dueDate?: Date | null;
+  status?: (typeof POAM_MILESTONE_STATUSES)[number];
+}
+
+export interface PoamSyncResult {
+  opened: number;
+  closed: number;
+  milestonesAdded: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+// Assessments are stored with either the enum or the display status
+const FAILING_STATUSES = ['NON_COMPLIANT', 'PARTIALLY_COMPLIANT', 'Not Implemented', 'Partially Implemented'];
+const RESOLVED_STATUSES = ['COMPLIANT', 'NOT_APPLICABLE', 'Implemented', 'Not Applicable'];
+
+const TASK_MILESTONE_STATUS: Record<string, string> = {
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+};
+
+const itemInclude = {
+  milestones: { orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }] },
+  deviationApprovedBy: { select: { id: true, name: true } },
+  assessment: { select: { id: true, status: true, systemId: true } },
+} satisfies Prisma.PoamItemInclude;
+
+// Helper: rating from the assessment's risk level, or from its status and the system's criticality
+function deriveRiskRating(status: string, riskLevel: string | null, criticality: string): PoamRiskRating {
+  const level = riskLevel?.toUpperCase();
+  if (level === 'MEDIUM') return 'MODERATE';
+  if ((POAM_RISK_RATINGS as readonly string[]).includes(level || '')) return level as PoamRiskRating;
+
+  const score =
+    (status === 'NON_COMPLIANT' || status === 'Not Implemented' ? 2 : 1) +
+    (criticality === 'CRITICAL' ? 2 : criticality === 'HIGH' ? 1 : 0);
+  return POAM_RISK_RATINGS[Math.min(score, 4) - 1];
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : '';
+}
+
+class PoamService {
+  /**
+   * A product's POA&M items, newest first
+   */
+  async list(productId: string, filters: { status?: string } = {}) {
+    return prisma.poamItem.findMany({
+      where: { productId, ...(filters.status && { status: filters.status }) },
+      include: itemInclude,
+      orderBy: { sequence: 'desc' },
+    });
+  }
+
+  /**
+   * One item with its milestones and status history
+   */
+  async get(id: string) {
+    return prisma.poamItem.findUnique({
+      where: { id },
+      include: {
+        ...itemInclude,
+        history: {
+          orderBy: { createdAt: 'desc' },
+          include: { changedBy: { select: { id: true, name: true } } },
+        },
+      },
+    });
+  }
+
+  /**
+   * Update an item's fields and status. Setting a deviation records the actor
+   * as its approver; RISK_ACCEPTED needs a risk acceptance or operational
+   * requirement deviation with a rationale.
+   */
+  async update(id: string, input: PoamUpdateInput, actorId: string) {
+    const existing = await prisma.poamItem.findUnique({ where: { id } });
+    if (!existing) {
+      throw new PoamError('POA&M item not found');
+    }
+
+    const { statusNote, ...fields } = input;
+    const data: Prisma.PoamItemUncheckedUpdateInput = { ...fields };
+
+    const deviationType = input.deviationType !== undefined ? input.deviationType : existing.deviationType;
+    const rationale =
+      input.deviationRationale !== undefined ? input.deviationRationale : existing.deviationRationale;
+    if (deviationType && !rationale?.trim()) {
+      throw new PoamError('A deviation requires a rationale');
+    }
+    if (input.deviationType !== undefined && input.deviationType !== existing.deviationType) {
+      data.deviationApprovedById = input.deviationType ? actorId : null;
+      data.deviationApprovedAt = input.deviationType ? new Date() : null;
+      if (!input.deviationType) data.deviationRationale = null;
+    }
+
+    const status = input.status ?? existing.status;
+    if (
+      status === 'RISK_ACCEPTED' &&
+      deviationType !== 'RISK_ACCEPTANCE' &&
+      deviationType !== 'OPERATIONAL_REQUIREMENT'
+    ) {
+      throw new PoamError('Risk acceptance requires a risk acceptance or operational requirement deviation');
+    }
+
+    const statusChanged = status !== existing.status;
+    if (statusChanged) {
+      data.completedAt = status === 'CLOSED' ? new Date() : null;
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.poamItem.update({ where: { id }, data });
+      if (statusChanged) {
+        await tx.poamStatusChange.create({
+          data: {
+            poamItemId: id,
+            fromStatus: existing.status,
+            toStatus: status,
+            note: statusNote?.trim() || null,
+            changedById: actorId,
+          },
+        });
+      }
+      return tx.poamItem.findUniqueOrThrow({ where: { id }, include: itemInclude });
+    });
+  }
+
+  async addMilestone(poamItemId: string, input: Required<Pick<PoamMilestoneInput, 'description'>> & PoamMilestoneInput) {
+    return prisma.poamMilestone.create({
+      data: {
+        poamItemId,
+        description: input.description,
+        dueDate: input.dueDate ?? null,
+      },
+    });
+  }
+
+  /**
+   * Update a milestone. Status and due date of a milestone that follows a
+   * remediation task are changed on the task.
+   */
+  async updateMilestone(poamItemId: string, milestoneId: string, input: PoamMilestoneInput) {
+    const milestone = await prisma.poamMilestone.findFirst({ where: { id: milestoneId, poamItemId } });
+    if (!milestone) {
+      throw new PoamError('Milestone not found');
+    }
+    if (milestone.remediationTaskId && (input.status !== undefined || input.dueDate !== undefined)) {
+      throw new PoamError('This milestone follows a remediation task; update the task instead');
+    }
+
+    return prisma.poamMilestone.update({
+      where: { id: milestoneId },
+      data: {
+        ...input,
+        ...(input.status && { completedAt: input.status === 'COMPLETED' ? new Date() : null }),
+      },
+    });
+  }
+
+  async deleteMilestone(poamItemId: string, milestoneId: string) {
+    const { count } = await prisma.poamMilestone.deleteMany({ where: { id: milestoneId, poamItemId } });
+    if (count === 0) {
+      throw new PoamError('Milestone not found');
+    }
+  }
+
+  /**
+   * Open and close items for every assessment on the product
+   */
+  async syncProduct(productId: string, actorId?: string): Promise<PoamSyncResult> {
+    const assessments = await prisma.complianceAssessment.findMany({
+      where: { system: { productId } },
+      select: { id: true },
+    });
+    return this.sync(assessments.map((a) => a.id), actorId);
+  }
+
+  /**
+   * Sync after assessments or their remediation tasks changed. Failures are
+   * logged rather than thrown so they never fail the change itself.
+   */
+  async syncAssessments(assessmentIds: string[], actorId?: string): Promise<PoamSyncResult | null> {
+    try {
+      return await this.sync(assessmentIds, actorId);
+    } catch (error) {
+      console.error('Failed to sync POA&M items:', error);
+      return null;
+    }
+  }
+
+  private async sync(assessmentIds: string[], actorId?: string): Promise<PoamSyncResult> {
+    const result: PoamSyncResult = { opened: 0, closed: 0, milestonesAdded: 0 };
+    if (assessmentIds.length === 0) return result;
+
+    const assessments = await prisma.complianceAssessment.findMany({
+      where: { id: { in: assessmentIds } },
+      include: {
+        system: { select: { name: true, criticality: true, productId: true } },
+        remediationTasks: { include: { poamMilestone: true } },
+        poamItems: { where: { status: { not: 'CLOSED' } } },
+      },
+    });
+
+    const titles = new Map(
+      (
+        await prisma.cSFControl.findMany({
+          where: { id: { in: Array.from(new Set(assessments.map((a) => a.subcategoryId))) } },
+          select: { id: true, title: true },
+        })
+      ).map((c) => [c.id, c.title])
+    );
+
+    for (const assessment of assessments) {
+      await prisma.$transaction(async (tx) => {
+        let [item] = assessment.poamItems;
+
+        if (RESOLVED_STATUSES.includes(assessment.status)) {
+          for (const open of assessment.poamItems) {
+            await this.close(tx, open.id, open.status, `Assessment is now ${assessment.status}`, actorId);
+            result.closed++;
+          }
+          return;
+        }
+        if (!FAILING_STATUSES.includes(assessment.status)) return;
+
+        if (!item) {
+          item = await this.open(tx, assessment, titles.get(assessment.subcategoryId), actorId);
+          result.opened++;
+        }
+        result.milestonesAdded += await this.syncMilestones(tx, item.id, assessment.remediationTasks);
+      });
+    }
+
+    return result;
+  }
+
+  // Open an item for a failing assessment, with the next POA&M ID for the product
+  private async open(
+    tx: Tx,
+    assessment: {
+      id: string;
+      subcategoryId: string;
+      status: string;
+      details: string | null;
+      riskLevel: string | null;
+      remediationPlan: string | null;
+      targetDate: Date | null;
+      system: { name: string; criticality: string; productId: string };
+    },
+    controlTitle: string | undefined,
+    actorId?: string
+  ) {
+    const productId = assessment.system.productId;
+    const last = await tx.poamItem.aggregate({ where: { productId }, _max: { sequence: true } });
+    const sequence = (last._max.sequence ?? 0) + 1;
+    const rating = deriveRiskRating(assessment.status, assessment.riskLevel, assessment.system.criticality);
+    const partial = assessment.status === 'PARTIALLY_COMPLIANT' || assessment.status === 'Partially Implemented';
+
+    const item = await tx.poamItem.create({
+      data: {
+        poamId: `POAM-${String(sequence).padStart(4, '0')}`,
+        sequence,
+        productId,
+        assessmentId: assessment.id,
+        controlId: assessment.subcategoryId,
+        systemName: assessment.system.name,
+        weakness: `${assessment.subcategoryId}${controlTitle ? ` ${controlTitle}` : ''} ${partial ? 'partially implemented' : 'not implemented'}`,
+        weaknessDescription: assessment.details,
+        originalRiskRating: rating,
+        riskRating: rating,
+        remediationPlan: assessment.remediationPlan,
+        scheduledCompletionDate: assessment.targetDate,
+        createdById: actorId ?? null,
+      },
+    });
+    await tx.poamStatusChange.create({
+      data: {
+        poamItemId: item.id,
+        toStatus: 'OPEN',
+        note: `Opened from ${assessment.subcategoryId} on ${assessment.system.name} (${assessment.status})`,
+        changedById: actorId ?? null,
+      },
+    });
+    return item;
+  }
+
+  private async close(tx: Tx, id: string, fromStatus: string, note: string, actorId?: string) {
+    await tx.poamItem.update({ where: { id }, data: { status: 'CLOSED', completedAt: new Date() } });
+    await tx.poamStatusChange.create({
+      data: { poamItemId: id, fromStatus, toStatus: 'CLOSED', note, changedById: actorId ?? null },
+    });
+  }
+
+  // Milestones follow the assessment's remediation tasks; returns how many were added
+  private async syncMilestones(
+    tx: Tx,
+    poamItemId: string,
+    tasks: {
+      id: string;
+      title: string;
+      status: string;
+      dueDate: Date | null;
+      completedAt: Date | null;
+      poamMilestone: { id: string; poamItemId: string } | null;
+    }[]
+  ): Promise<number> {
+    let added = 0;
+    for (const task of tasks) {
+      const data = {
+        description: task.title,
+        dueDate: task.dueDate,
+        status: TASK_MILESTONE_STATUS[task.status] || 'PENDING',
+        completedAt: task.status === 'COMPLETED' ? task.completedAt : null,
+      };
+      if (!task.poamMilestone) {
+        await tx.poamMilestone.create({ data: { ...data, poamItemId, remediationTaskId: task.id } });
+        added++;
+      } else if (task.poamMilestone.poamItemId === poamItemId) {
+        await tx.poamMilestone.update({ where: { id: task.poamMilestone.id }, data });
+      }
+    }
+    return added;
+  }
+
+  /**
+   * The product's register as a workbook in the FedRAMP POA&M template layout
+   */
+  async exportFedRamp(productId: string): Promise<{ productName: string; content: Buffer } | null> {
+    const product = await prisma.product.findUnique({ where: { id: productId }, select: { name: true } });
+    if (!product) {
+      return null;
+    }
+
+    const items = await prisma.poamItem.findMany({
+      where: { productId },
+      include: {
+        milestones: { orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }] },
+        history: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+      orderBy: { sequence: 'asc' },
+    });
+
+    const columns = [
+      'POAM ID',
+      'Controls',
+      'Weakness Name',
+      'Weakness Description',
+      'Weakness Detector Source',
+      'Weakness Source Identifier',
+      'Asset Identifier',
+      'Point of Contact',
+      'Resources Required',
+      'Overall Remediation Plan',
+      'Original Detection Date',
+      'Scheduled Completion Date',
+      'Planned Milestones',
+      'Milestone Changes',
+      'Status Date',
+      'Vendor Dependency',
+      'Original Risk Rating',
+      'Adjusted Risk Rating',
+      'Risk Adjustment',
+      'False Positive',
+      'Operational Requirement',
+      'Deviation Rationale',
+      'Comments',
+      'Status',
+    ];
+
+    const toRow = (item: (typeof items)[number]) => [
+      item.poamId,
+      item.controlId,
+      item.weakness,
+      item.weaknessDescription || '',
+      item.weaknessSource.replace(/_/g, ' '),
+      item.sourceIdentifier || '',
+      item.systemName,
+      item.pointOfContact || '',
+      item.resourcesRequired || '',
+      item.remediationPlan || '',
+      formatDate(item.detectedAt),
+      formatDate(item.scheduledCompletionDate),
+      item.milestones
+        .map((m, i) => `(${i + 1}) ${m.description}${m.dueDate ? ` - ${formatDate(m.dueDate)}` : ''}`)
+        .join('\n'),
+      item.milestones
+        .filter((m) => m.status !== 'PENDING')
+        .map((m) => `${m.description}: ${m.status.toLowerCase()}${m.completedAt ? ` ${formatDate(m.completedAt)}` : ''}`)
+        .join('\n'),
+      formatDate(item.history[0]?.createdAt ?? item.updatedAt),
+      item.vendorDependency ? 'Yes' : 'No',
+      item.originalRiskRating,
+      item.riskRating,
+      item.riskRating !== item.originalRiskRating ? 'Yes' : 'No',
+      item.deviationType === 'FALSE_POSITIVE' ? 'Yes' : 'No',
+      item.deviationType === 'OPERATIONAL_REQUIREMENT' ? 'Yes' : 'No',
+      item.deviationRationale || '',
+      item.comments || '',
+      item.status.replace(/_/g, ' '),
+    ];
+
+    const workbook = XLSX.utils.book_new();
+    const widths = columns.map((c) => ({ wch: Math.max(12, Math.min(c.length + 4, 40)) }));
+    for (const [name, sheetItems] of [
+      ['Open POA&M Items', items.filter((i) => i.status !== 'CLOSED')],
+      ['Closed POA&M Items', items.filter((i) => i.status === 'CLOSED')],
+    ] as const) {
+      const sheet = XLSX.utils.aoa_to_sheet([
+        [`Plan of Action and Milestones - ${product.name}`],
+        [`Exported ${formatDate(new Date())}`],
+        columns,
+        ...sheetItems.map(toRow),
+      ]);
+      sheet['!cols'] = widths;
+      XLSX.utils.book_append_sheet(workbook, sheet, name);
+    }
+
+    return {
+      productName: product.name,
+      content: XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' }) as Buffer,
+    };
+  }
+}
+
+export const poamService = new PoamService();
+export default poamService;
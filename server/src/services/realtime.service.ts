@@ -0,0 +1,215 @@
+/**
+ * Realtime Service
+ *
+ * Live collaboration on a product's assessments over Server-Sent Events:
+ * - Each browser tab opens one stream per product it is viewing, identified by
+ *   the X-Client-Id header it also sends with its API requests
+ * - Assessment, comment, evidence and task writes are broadcast to the
+ *   product's other streams, so their caches update without a refresh
+ * - Presence lists who is connected and what they are editing; a focused
+ *   field acts as a soft lock (a warning to others, never enforced) until it
+ *   is released, refreshed too late (FOCUS_TTL_MS), or the stream closes
+ *
+ * State is per process; with several server instances, each only sees its own
+ * streams.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../prisma';
+
+export const CLIENT_ID_HEADER = 'X-Client-Id';
+
+export type RealtimeEntity = 'assessment' | 'comment' | 'evidence' | 'task';
+export type RealtimeAction = 'created' | 'updated' | 'deleted';
+
+export interface RealtimeChange {
+  entity: RealtimeEntity;
+  action: RealtimeAction;
+  id: string;
+  assessmentId?: string;
+  systemId?: string;
+  controlId?: string;
+  data?: unknown;
+}
+
+export interface PresenceFocus {
+  systemId: string;
+  controlId: string;
+  field?: string;
+}
+
+interface Connection {
+  clientId: string;
+  productId: string;
+  user: { id: string; name: string };
+  res: Response;
+  focus: (PresenceFocus & { since: Date }) | null;
+}
+
+const HEARTBEAT_MS = 25 * 1000;
+const FOCUS_TTL_MS = 2 * 60 * 1000;
+
+// Helper: one SSE frame
+function frame(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+class RealtimeService {
+  // productId -> clientId -> connection
+  private channels = new Map<string, Map<string, Connection>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.timer) return;
+
+    // SSE comment lines keep proxies from closing idle streams; stale focus is released
+    this.timer = setInterval(() => {
+      const cutoff = Date.now() - FOCUS_TTL_MS;
+      for (const [productId, channel] of this.channels) {
+        let expired = false;
+        for (const connection of channel.values()) {
+          connection.res.write(': ping\n\n');
+          if (connection.focus && connection.focus.since.getTime() < cutoff) {
+            connection.focus = null;
+            expired = true;
+          }
+        }
+        if (expired) this.broadcastPresence(productId);
+      }
+    }, HEARTBEAT_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const channel of this.channels.values()) {
+      for (const connection of channel.values()) connection.res.end();
+    }
+    this.channels.clear();
+  }
+
+  /**
+   * Turn the response into a product's event stream. The caller has checked
+   * that the user can view the product. False, with nothing written, when the
+   * client ID belongs to another user's stream.
+   */
+  subscribe(
+    productId: string,
+    user: { id: string; name: string },
+    clientId: string,
+    req: Request,
+    res: Response
+  ): boolean {
+    const channel = this.channels.get(productId) || new Map<string, Connection>();
+    const existing = channel.get(clientId);
+    if (existing && existing.user.id !== user.id) return false;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    this.channels.set(productId, channel);
+
+    // A reconnecting tab replaces its previous stream
+    existing?.res.end();
+    const connection: Connection = { clientId, productId, user: { id: user.id, name: user.name }, res, focus: null };
+    channel.set(clientId, connection);
+
+    req.on('close', () => {
+      if (channel.get(clientId) !== connection) return;
+      channel.delete(clientId);
+      if (channel.size === 0) this.channels.delete(productId);
+      this.broadcastPresence(productId);
+    });
+
+    res.write(frame('ready', { clientId }));
+    this.broadcastPresence(productId);
+    return true;
+  }
+
+  /**
+   * Set or clear what a tab is editing. False when the tab has no open stream
+   * for the product.
+   */
+  setFocus(productId: string, clientId: string, userId: string, focus: PresenceFocus | null): boolean {
+    const connection = this.channels.get(productId)?.get(clientId);
+    if (!connection || connection.user.id !== userId) return false;
+
+    connection.focus = focus ? { ...focus, since: new Date() } : null;
+    this.broadcastPresence(productId);
+    return true;
+  }
+
+  /**
+   * Who is connected to a product and what they are editing
+   */
+  getPresence(productId: string) {
+    return Array.from(this.channels.get(productId)?.values() || []).map((connection) => ({
+      clientId: connection.clientId,
+      user: connection.user,
+      focus: connection.focus,
+    }));
+  }
+
+  /**
+   * Broadcast a change to a product's streams, except the tab that made it
+   */
+  publish(productId: string, change: RealtimeChange, req?: Request & { user?: { id: string; name: string } }) {
+    const channel = this.channels.get(productId);
+    if (!channel) return;
+
+    const origin = req?.get(CLIENT_ID_HEADER);
+    const message = frame('change', {
+      ...change,
+      actor: req?.user ? { id: req.user.id, name: req.user.name } : null,
+      at: new Date().toISOString(),
+    });
+    for (const connection of channel.values()) {
+      if (connection.clientId !== origin) connection.res.write(message);
+    }
+  }
+
+  /**
+   * Broadcast a change to whatever depends on an assessment, looking up its
+   * product. Never throws: a failed broadcast must not fail the write.
+   */
+  async publishForAssessment(
+    assessmentId: string,
+    change: Omit<RealtimeChange, 'assessmentId' | 'systemId' | 'controlId'>,
+    req?: Request & { user?: { id: string; name: string } }
+  ) {
+    if (this.channels.size === 0) return;
+    try {
+      const assessment = await prisma.complianceAssessment.findUnique({
+        where: { id: assessmentId },
+        select: { systemId: true, subcategoryId: true, system: { select: { productId: true } } },
+      });
+      if (!assessment) return;
+
+      this.publish(
+        assessment.system.productId,
+        { ...change, assessmentId, systemId: assessment.systemId, controlId: assessment.subcategoryId },
+        req
+      );
+    } catch (error) {
+      console.error('[Realtime] Failed to publish change:', error);
+    }
+  }
+
+  private broadcastPresence(productId: string) {
+    const channel = this.channels.get(productId);
+    if (!channel) return;
+
+    const message = frame('presence', { users: this.getPresence(productId) });
+    for (const connection of channel.values()) connection.res.write(message);
+  }
+}
+
+export const realtimeService = new RealtimeService();
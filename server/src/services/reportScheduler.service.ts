@@ -0,0 +1,402 @@
+/**
+ * Report Scheduler Service
+ *
+ * In-process job runner for scheduled SavedReports:
+ * - Parses standard 5-field cron expressions (minute hour day-of-month month day-of-week)
+ *   plus @hourly/@daily/@weekly/@monthly/@yearly, evaluated in server local time
+ * - Checks for due reports once a minute and runs them with the report owner's permissions
+ * - Writes rendered output to disk and records every run with its outcome
+ *   (JSON, or a PDF/DOCX document for System Security Plans)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { prisma } from '../prisma';
+import { loadAccessUser, verifyProductAccess } from './access.service';
+import { REPORT_GENERATORS, ReportType } from './reportGenerator.service';
+import { SspFormat, generateSsp } from './sspGenerator.service';
+
+export type ReportRunTrigger = 'SCHEDULED' | 'MANUAL';
+
+const OUTPUT_DIR = process.env.REPORT_OUTPUT_PATH || path.join(__dirname, '../../data/reports');
+const TICK_MS = 60 * 1000;
+
+// ============================================================================
+// CRON PARSING
+// ============================================================================
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const nameIndex = names ? names.indexOf(value.toLowerCase()) : -1;
+  if (nameIndex >= 0) return nameIndex + min;
+  if (!/^\d+$/.test(value)) {
+    throw new CronError(`Invalid cron value "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!step || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new CronError(`Invalid cron step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, names);
+      end = parseValue(to, min, names);
+    } else {
+      start = parseValue(range, min, names);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new CronError(`Cron value out of range in "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing CronError if it is invalid
+ */
+export function parseCron(expression: string): CronFields {
+  const normalized = CRON_ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    // As in Vixie cron, a field starting with "*" (including "*/2") does not
+    // switch day matching to "either field"
+    dayOfMonthRestricted: !dayOfMonth.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeek.startsWith('*'),
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const domMatch = fields.daysOfMonth.has(date.getDate());
+  const dowMatch = fields.daysOfWeek.has(date.getDay());
+  // Standard cron: when both day fields are explicit lists or ranges, either
+  // may match; otherwise both must (a "*" field matches every day on its own)
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time after `from` matching a cron expression, or null if none within 5 years
+ */
+export function nextCronRun(expression: string, from: Date = new Date()): Date | null {
+  const fields = parseCron(expression);
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(from);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (date <= limit) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// REPORT RUNNER
+// ============================================================================
+
+interface SavedReportConfig {
+  productIds?: string[];
+  systemIds?: string[];
+  dateRange?: { start?: string; end?: string };
+  priorityThreshold?: string;
+  format?: SspFormat;
+}
+
+class ReportScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = new Set<string>();
+
+  /**
+   * Next run time for a report's schedule, or null if it isn't scheduled
+   */
+  computeNextRun(report: { isScheduled: boolean; schedule: string | null }, from: Date = new Date()): Date | null {
+    if (!report.isScheduled || !report.schedule || !isValidCron(report.schedule)) {
+      return null;
+    }
+    return nextCronRun(report.schedule, from);
+  }
+
+  /**
+   * Start checking for due reports once a minute
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.syncSchedules();
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error('[Report Scheduler] Tick failed:', error));
+    }, TICK_MS);
+    this.timer.unref();
+
+    // Catch up on anything that fell due while the server was down
+    await this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Remove all stored output for a report (used when it is deleted)
+   */
+  removeOutput(reportId: string): void {
+    fs.rmSync(path.join(OUTPUT_DIR, reportId), { recursive: true, force: true });
+  }
+
+  isRunning(reportId: string): boolean {
+    return this.running.has(reportId);
+  }
+
+  /**
+   * Run a saved report now, recording the run. Failures are recorded on the
+   * run rather than thrown. Returns null if the report is already running.
+   */
+  async runReport(reportId: string, trigger: ReportRunTrigger) {
+    if (this.running.has(reportId)) return null;
+    this.running.add(reportId);
+
+    let run;
+    try {
+      run = await prisma.reportRun.create({
+        data: { reportId, trigger },
+      });
+    } catch (error) {
+      // No run to record the failure on; free the report for the next attempt
+      this.running.delete(reportId);
+      throw error;
+    }
+
+    try {
+      const report = await prisma.savedReport.findUniqueOrThrow({ where: { id: reportId } });
+      const { content, extension } = await this.render(report);
+
+      const dir = path.join(OUTPUT_DIR, report.id);
+      fs.mkdirSync(dir, { recursive: true });
+      const outputPath = path.join(dir, `${run.id}${extension}`);
+      fs.writeFileSync(outputPath, content);
+
+      const finishedAt = new Date();
+      const [completed] = await prisma.$transaction([
+        prisma.reportRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'SUCCESS',
+            finishedAt,
+            outputPath,
+            outputSize: Buffer.byteLength(content),
+          },
+        }),
+        prisma.savedReport.update({
+          where: { id: report.id },
+          data: { lastRunAt: finishedAt, lastOutput: outputPath },
+        }),
+      ]);
+      return completed;
+    } catch (error) {
+      console.error(`[Report Scheduler] Report ${reportId} failed:`, error);
+      return prisma.reportRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          finishedAt: new Date(),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    } finally {
+      this.running.delete(reportId);
+    }
+  }
+
+  /**
+   * Generate a report's output for each configured product, as its owner
+   */
+  private async render(report: {
+    id: string;
+    name: string;
+    reportType: string;
+    config: string;
+    createdById: string;
+  }): Promise<{ content: string | Buffer; extension: string }> {
+    const generator = REPORT_GENERATORS[report.reportType as ReportType];
+    if (!generator && report.reportType !== 'SYSTEM_SECURITY_PLAN') {
+      throw new Error(`Unknown report type: ${report.reportType}`);
+    }
+
+    const config: SavedReportConfig = JSON.parse(report.config);
+    if (!config.productIds || config.productIds.length === 0) {
+      throw new Error('No products are configured for this report');
+    }
+
+    const owner = await loadAccessUser(report.createdById);
+    if (!owner) {
+      throw new Error('The report owner no longer exists');
+    }
+
+    for (const productId of config.productIds) {
+      if (!(await verifyProductAccess(productId, owner, 'report:generate'))) {
+        throw new Error(`The report owner can no longer generate reports for product ${productId}`);
+      }
+    }
+
+    // An SSP is one document for one product
+    if (!generator) {
+      const ssp = await generateSsp(config.productIds[0], { systemIds: config.systemIds, format: config.format });
+      if (!ssp) {
+        throw new Error(`Product not found: ${config.productIds[0]}`);
+      }
+      return { content: ssp.content, extension: ssp.extension };
+    }
+
+    const products = [];
+    for (const productId of config.productIds) {
+
+      const result = await generator(productId, {
+        systemIds: config.systemIds,
+        dateRange: config.dateRange,
+        priorityThreshold: config.priorityThreshold,
+      });
+      if (!result) {
+        throw new Error(`Product not found: ${productId}`);
+      }
+      products.push(result);
+    }
+
+    const output = {
+      report: { id: report.id, name: report.name, reportType: report.reportType },
+      generatedAt: new Date().toISOString(),
+      products,
+    };
+    return { content: JSON.stringify(output, null, 2), extension: '.json' };
+  }
+
+  /**
+   * Run every scheduled report whose next run time has passed
+   */
+  private async tick(): Promise<void> {
+    const now = new Date();
+    const due = await prisma.savedReport.findMany({
+      where: { isScheduled: true, nextRunAt: { lte: now } },
+      select: { id: true, isScheduled: true, schedule: true },
+    });
+
+    for (const report of due) {
+      // Advance the schedule first so a slow or failing run isn't retried every tick
+      await prisma.savedReport.update({
+        where: { id: report.id },
+        data: { nextRunAt: this.computeNextRun(report, now) },
+      });
+      await this.runReport(report.id, 'SCHEDULED');
+    }
+  }
+
+  /**
+   * Fill in next run times for scheduled reports that don't have one
+   */
+  private async syncSchedules(): Promise<void> {
+    const reports = await prisma.savedReport.findMany({
+      where: { isScheduled: true, nextRunAt: null },
+      select: { id: true, isScheduled: true, schedule: true },
+    });
+
+    for (const report of reports) {
+      const nextRunAt = this.computeNextRun(report);
+      if (nextRunAt) {
+        await prisma.savedReport.update({ where: { id: report.id }, data: { nextRunAt } });
+      }
+    }
+  }
+}
+
+export const reportScheduler = new ReportScheduler();
+export default reportScheduler;
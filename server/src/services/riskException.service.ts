@@ -0,0 +1,338 @@
+/**
+ * Risk Exception Service
+ *
+ * Formal acceptance of a NON_COMPLIANT or PARTIALLY_COMPLIANT control:
+ * - An assessor requests an exception with a justification, compensating
+ *   controls, the residual risk and an expiry date
+ * - A reviewer other than the requester approves or rejects it; an approved
+ *   exception can be revoked
+ * - While approved and unexpired the exception is active: compliance scoring
+ *   counts the assessment as accepted risk instead of a gap, and the risk views
+ *   list it apart from open risks
+ * - Sweeps hourly to expire lapsed exceptions, which puts the gap back into
+ *   scores; reminders before expiry come from the notification sweep
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { createAuditLog, AuditContext } from './auditService';
+import { EXCEPTABLE_STATUSES, complianceCalculationService } from './complianceCalculation.service';
+import { notificationService, assessmentLink } from './notification.service';
+
+export const RISK_EXCEPTION_STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'REVOKED', 'EXPIRED'] as const;
+export type RiskExceptionStatus = (typeof RISK_EXCEPTION_STATUSES)[number];
+
+export const RESIDUAL_RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+export type ResidualRiskLevel = (typeof RESIDUAL_RISK_LEVELS)[number];
+
+export class RiskExceptionError extends Error {}
+
+export interface RiskExceptionInput {
+  justification: string;
+  compensatingControls?: string | null;
+  residualRisk: ResidualRiskLevel;
+  expiresAt: Date;
+}
+
+const SWEEP_MS = 60 * 60 * 1000;
+
+// Audit identity for changes made by the sweep rather than a user
+const SWEEP_AUDIT_CONTEXT: AuditContext = {
+  userId: 'system',
+  userName: 'Risk Exception Sweep',
+  userEmail: 'system',
+};
+
+const exceptionInclude = {
+  requestedBy: { select: { id: true, name: true } },
+  decidedBy: { select: { id: true, name: true } },
+} satisfies Prisma.RiskExceptionInclude;
+
+const assessmentSelect = {
+  id: true,
+  subcategoryId: true,
+  status: true,
+  systemId: true,
+  reviewerId: true,
+  system: { select: { name: true, productId: true } },
+} satisfies Prisma.ComplianceAssessmentSelect;
+
+/**
+ * Filter for exceptions that are currently in force
+ */
+export function activeRiskExceptionWhere(now: Date = new Date()): Prisma.RiskExceptionWhereInput {
+  return { status: 'APPROVED', expiresAt: { gt: now } };
+}
+
+/**
+ * Include for an assessment's active exception (at most one)
+ */
+export function activeRiskExceptionInclude(now: Date = new Date()) {
+  return {
+    where: activeRiskExceptionWhere(now),
+    select: { id: true, residualRisk: true, expiresAt: true, justification: true },
+    take: 1,
+  } satisfies Prisma.ComplianceAssessment$riskExceptionsArgs;
+}
+
+class RiskExceptionService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * An assessment's exceptions, newest first
+   */
+  async listForAssessment(assessmentId: string) {
+    return prisma.riskException.findMany({
+      where: { assessmentId },
+      include: exceptionInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Exceptions across a product's assessments, soonest expiry first
+   */
+  async listForProduct(productId: string, filters: { status?: string } = {}) {
+    return prisma.riskException.findMany({
+      where: {
+        assessment: { system: { productId } },
+        ...(filters.status && { status: filters.status }),
+      },
+      include: {
+        ...exceptionInclude,
+        assessment: { select: { id: true, subcategoryId: true, status: true, system: { select: { id: true, name: true } } } },
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+  }
+
+  async get(id: string) {
+    return prisma.riskException.findUnique({
+      where: { id },
+      include: { ...exceptionInclude, assessment: { select: assessmentSelect } },
+    });
+  }
+
+  /**
+   * Request an exception for a failing assessment. Only one exception may be
+   * pending or active on an assessment at a time.
+   */
+  async request(assessmentId: string, input: RiskExceptionInput, actorId: string) {
+    const assessment = await prisma.complianceAssessment.findUnique({
+      where: { id: assessmentId },
+      select: assessmentSelect,
+    });
+    if (!assessment) throw new RiskExceptionError('Assessment not found');
+    if (!EXCEPTABLE_STATUSES.includes(assessment.status)) {
+      throw new RiskExceptionError('Exceptions can only be requested for non-compliant or partially compliant controls');
+    }
+    if (input.expiresAt <= new Date()) {
+      throw new RiskExceptionError('Expiry date must be in the future');
+    }
+
+    const open = await prisma.riskException.findFirst({
+      where: { assessmentId, OR: [{ status: 'PENDING' }, activeRiskExceptionWhere()] },
+      select: { status: true },
+    });
+    if (open) {
+      throw new RiskExceptionError(
+        open.status === 'PENDING'
+          ? 'An exception request is already pending for this assessment'
+          : 'This assessment already has an active exception'
+      );
+    }
+
+    const exception = await prisma.riskException.create({
+      data: {
+        assessmentId,
+        justification: input.justification,
+        compensatingControls: input.compensatingControls || null,
+        residualRisk: input.residualRisk,
+        expiresAt: input.expiresAt,
+        requestedById: actorId,
+      },
+      include: exceptionInclude,
+    });
+
+    if (assessment.reviewerId) {
+      await notificationService.notify({
+        userId: assessment.reviewerId,
+        type: 'RISK_EXCEPTION_REQUESTED',
+        severity: 'warning',
+        title: 'Risk exception requested',
+        message: `${exception.requestedBy?.name || 'Someone'} asked to accept the risk on ${assessment.subcategoryId} for ${assessment.system.name}`,
+        link: assessmentLink(assessment),
+        entityType: 'RiskException',
+        entityId: exception.id,
+        actorId,
+      });
+    }
+
+    return exception;
+  }
+
+  /**
+   * Approve or reject a pending request. The requester cannot decide their own request.
+   */
+  async decide(id: string, approve: boolean, note: string | undefined, actorId: string) {
+    const existing = await this.get(id);
+    if (!existing) throw new RiskExceptionError('Risk exception not found');
+    if (existing.status !== 'PENDING') {
+      throw new RiskExceptionError(`Only pending requests can be decided (this one is ${existing.status.toLowerCase()})`);
+    }
+    if (existing.requestedById === actorId) {
+      throw new RiskExceptionError('A risk exception must be decided by someone other than the requester');
+    }
+    if (approve && existing.expiresAt <= new Date()) {
+      throw new RiskExceptionError('This request has already passed its expiry date');
+    }
+
+    const exception = await prisma.riskException.update({
+      where: { id },
+      data: {
+        status: approve ? 'APPROVED' : 'REJECTED',
+        decidedById: actorId,
+        decidedAt: new Date(),
+        decisionNote: note || null,
+      },
+      include: exceptionInclude,
+    });
+
+    if (approve) {
+      await complianceCalculationService.invalidateHierarchy(existing.assessmentId);
+    }
+
+    if (existing.requestedById) {
+      await notificationService.notify({
+        userId: existing.requestedById,
+        type: 'RISK_EXCEPTION_DECIDED',
+        severity: approve ? 'success' : 'warning',
+        title: approve ? 'Risk exception approved' : 'Risk exception rejected',
+        message: `Exception for ${existing.assessment.subcategoryId} on ${existing.assessment.system.name} was ${approve ? 'approved' : 'rejected'}${note ? `: ${note}` : ''}`,
+        link: assessmentLink(existing.assessment),
+        entityType: 'RiskException',
+        entityId: id,
+        actorId,
+      });
+    }
+
+    return { previous: existing, exception };
+  }
+
+  /**
+   * Withdraw a pending request or revoke an approved exception
+   */
+  async revoke(id: string, note: string | undefined, actorId: string) {
+    const existing = await this.get(id);
+    if (!existing) throw new RiskExceptionError('Risk exception not found');
+    if (existing.status !== 'PENDING' && existing.status !== 'APPROVED') {
+      throw new RiskExceptionError(`This exception is already ${existing.status.toLowerCase()}`);
+    }
+
+    const exception = await prisma.riskException.update({
+      where: { id },
+      data: {
+        status: 'REVOKED',
+        revokedAt: new Date(),
+        ...(note && { decisionNote: note }),
+        ...(existing.status === 'PENDING' && { decidedById: actorId, decidedAt: new Date() }),
+      },
+      include: exceptionInclude,
+    });
+
+    if (existing.status === 'APPROVED') {
+      await complianceCalculationService.invalidateHierarchy(existing.assessmentId);
+    }
+
+    return { previous: existing, exception };
+  }
+
+  /**
+   * Sweep now, then once an hour
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => console.error('[Risk Exceptions] Sweep failed:', error));
+    }, SWEEP_MS);
+    this.timer.unref();
+
+    await this.sweep();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire approved exceptions past their expiry date, so their assessments
+   * count as gaps again, and tell the requester and approver
+   */
+  async sweep(now: Date = new Date()): Promise<number> {
+    const lapsed = await prisma.riskException.findMany({
+      where: { status: 'APPROVED', expiresAt: { lte: now } },
+      select: {
+        id: true,
+        assessmentId: true,
+        expiresAt: true,
+        requestedById: true,
+        decidedById: true,
+        assessment: { select: assessmentSelect },
+      },
+    });
+    if (lapsed.length === 0) return 0;
+
+    await prisma.riskException.updateMany({
+      where: { id: { in: lapsed.map((e) => e.id) } },
+      data: { status: 'EXPIRED' },
+    });
+
+    for (const exception of lapsed) {
+      const { assessment } = exception;
+      const entityName = `${assessment.subcategoryId} - ${assessment.system.name}`;
+
+      await createAuditLog(SWEEP_AUDIT_CONTEXT, {
+        action: 'UPDATE',
+        entityType: 'RiskException',
+        entityId: exception.id,
+        entityName,
+        previousValue: { status: 'APPROVED' },
+        newValue: { status: 'EXPIRED' },
+        changedFields: ['status'],
+        details: { assessmentId: exception.assessmentId, expiresAt: exception.expiresAt },
+      });
+
+      const recipients = Array.from(
+        new Set([exception.requestedById, exception.decidedById].filter((id): id is string => !!id))
+      );
+      await notificationService.notify(
+        recipients.map((userId) => ({
+          userId,
+          type: 'RISK_EXCEPTION_EXPIRED' as const,
+          severity: 'error' as const,
+          title: 'Risk exception expired',
+          message: `The accepted risk on ${entityName} has expired and counts as a gap again`,
+          link: assessmentLink(assessment),
+          entityType: 'RiskException',
+          entityId: exception.id,
+          dedupeKey: `risk-exception-expired:${exception.id}`,
+        }))
+      );
+    }
+
+    const assessmentIds = Array.from(new Set(lapsed.map((e) => e.assessmentId)));
+    for (const assessmentId of assessmentIds) {
+      await complianceCalculationService.invalidateHierarchy(assessmentId);
+    }
+
+    console.log(`[Risk Exceptions] ${lapsed.length} exception(s) expired`);
+    return lapsed.length;
+  }
+}
+
+export const riskExceptionService = new RiskExceptionService();
+export default riskExceptionService;
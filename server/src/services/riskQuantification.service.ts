@@ -0,0 +1,457 @@
+/**
+ * Risk Quantification Service
+ *
+ * FAIR-style Monte Carlo simulation of a product's annualized loss exposure:
+ * - Register risks and control gaps can carry a loss estimate: minimum, most
+ *   likely and maximum loss event frequency (per year) and loss magnitude (per
+ *   event), each sampled from a PERT distribution
+ * - Estimates describe the unmitigated case. A risk's frequency is scaled by
+ *   1 - its controls' effectiveness (see riskRegister.service.ts), a gap's by
+ *   how far its assessment is implemented (partial halves it, compliant or not
+ *   applicable removes it); closed risks are left out
+ * - Each iteration draws an event count from a Poisson distribution and sums a
+ *   magnitude per event; iterations give the loss distribution and the
+ *   loss-exceedance curve
+ * - Each open remediation task is credited with the expected loss removed by
+ *   making its assessment compliant. Mean loss is linear in the frequency
+ *   scale, so the reduction follows from the simulated means without rerunning
+ * - Runs are seeded, so the same estimates and seed give the same results
+ * - Work is bounded: frequencies are capped, iterations are reduced when the
+ *   estimates would sample more than MAX_SAMPLED_EVENTS, and the loop yields
+ *   to the event loop so a simulation never stalls other requests
+ */
+
+import { prisma } from '../prisma';
+import {
+  ControlEffectiveness,
+  assessedEffectiveness,
+  combinedEffectiveness,
+  riskRegisterService,
+} from './riskRegister.service';
+
+export const DEFAULT_ITERATIONS = 10000;
+export const MAX_ITERATIONS = 50000;
+export const MIN_ITERATIONS = 100;
+// Loss events per year an estimate can assume
+export const MAX_FREQUENCY = 1000;
+// Upper bound on events (and scenario draws) sampled by one simulation
+const MAX_SAMPLED_EVENTS = 20_000_000;
+// Sampled events between yields to the event loop
+const YIELD_EVERY_EVENTS = 200_000;
+
+export class RiskQuantificationError extends Error {}
+
+export interface LossEstimateInput {
+  frequencyMin: number;
+  frequencyMostLikely: number;
+  frequencyMax: number;
+  magnitudeMin: number;
+  magnitudeMostLikely: number;
+  magnitudeMax: number;
+  notes?: string | null;
+}
+
+export interface SimulationOptions {
+  iterations?: number;
+  seed?: number;
+}
+
+const HISTOGRAM_BINS = 30;
+const EXCEEDANCE_POINTS = 40;
+const OPEN_TASK_STATUSES = ['OPEN', 'IN_PROGRESS', 'BLOCKED'];
+
+const estimateInclude = {
+  risk: { select: { id: true, riskId: true, title: true, status: true } },
+  assessment: {
+    select: { id: true, subcategoryId: true, status: true, system: { select: { id: true, name: true } } },
+  },
+} as const;
+
+interface Scenario {
+  estimateId: string;
+  type: 'RISK' | 'GAP';
+  targetId: string;
+  label: string;
+  // Frequency scale from mitigation (0 = fully mitigated, 1 = unmitigated)
+  exposure: number;
+  frequency: [number, number, number];
+  magnitude: [number, number, number];
+  // Register risks: controls with their assessments, for what-if reductions
+  controls?: ControlEffectiveness[];
+  assessmentId?: string;
+}
+
+// Helper: seeded uniform PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Helper: standard normal draw (Box-Muller)
+function sampleNormal(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Helper: gamma draw (Marsaglia-Tsang), boosted for shape < 1
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+// Helper: PERT draw for a minimum / most likely / maximum range
+function samplePert([min, mostLikely, max]: [number, number, number], random: () => number): number {
+  if (max <= min) return min;
+  const alpha = 1 + (4 * (mostLikely - min)) / (max - min);
+  const beta = 1 + (4 * (max - mostLikely)) / (max - min);
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return min + (x / (x + y)) * (max - min);
+}
+
+// Helper: Poisson draw (Knuth for small means, normal approximation above)
+function samplePoisson(mean: number, random: () => number): number {
+  if (mean <= 0) return 0;
+  if (mean > 30) {
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * sampleNormal(random)));
+  }
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+// Helper: value at a percentile (0-1) of an ascending array
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// Helper: share of an ascending array strictly above a value
+function exceedance(sorted: Float64Array, value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return (sorted.length - lo) / sorted.length;
+}
+
+function mean(values: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length ? sum / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Helper: let pending I/O run between chunks of a long simulation
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+class RiskQuantificationService {
+  /**
+   * A product's loss estimates with the risk or assessment they belong to
+   */
+  async list(productId: string) {
+    return prisma.lossEstimate.findMany({
+      where: { productId },
+      include: estimateInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Create or replace the estimate for a register risk
+   */
+  async saveForRisk(riskId: string, input: LossEstimateInput, actorId: string) {
+    this.validate(input);
+    const risk = await prisma.risk.findUnique({ where: { id: riskId }, select: { productId: true } });
+    if (!risk) throw new RiskQuantificationError('Risk not found');
+
+    return prisma.lossEstimate.upsert({
+      where: { riskId },
+      create: { ...input, productId: risk.productId, riskId, createdById: actorId },
+      update: input,
+      include: estimateInclude,
+    });
+  }
+
+  /**
+   * Create or replace the estimate for a control gap
+   */
+  async saveForAssessment(assessmentId: string, input: LossEstimateInput, actorId: string) {
+    this.validate(input);
+    const assessment = await prisma.complianceAssessment.findUnique({
+      where: { id: assessmentId },
+      select: { system: { select: { productId: true } } },
+    });
+    if (!assessment) throw new RiskQuantificationError('Assessment not found');
+
+    return prisma.lossEstimate.upsert({
+      where: { assessmentId },
+      create: { ...input, productId: assessment.system.productId, assessmentId, createdById: actorId },
+      update: input,
+      include: estimateInclude,
+    });
+  }
+
+  async delete(id: string) {
+    await prisma.lossEstimate.delete({ where: { id } });
+  }
+
+  /**
+   * Simulate the product's annualized loss exposure
+   */
+  async simulate(productId: string, options: SimulationOptions = {}) {
+    const seed = options.seed ?? 1;
+    const random = createRandom(seed);
+
+    const scenarios = await this.scenarios(productId);
+
+    // Fewer iterations when the estimates would sample too many events
+    const eventsPerIteration = scenarios.reduce(
+      (sum, scenario) => sum + 1 + Math.min(scenario.frequency[2], MAX_FREQUENCY) * Math.max(scenario.exposure, 0),
+      0
+    );
+    const iterations = Math.max(
+      MIN_ITERATIONS,
+      Math.min(
+        options.iterations ?? DEFAULT_ITERATIONS,
+        MAX_ITERATIONS,
+        Math.floor(MAX_SAMPLED_EVENTS / Math.max(eventsPerIteration, 1))
+      )
+    );
+
+    const losses = scenarios.map(() => new Float64Array(iterations));
+    const totals = new Float64Array(iterations);
+    let sampled = 0;
+    for (let i = 0; i < iterations; i++) {
+      scenarios.forEach((scenario, s) => {
+        sampled++;
+        if (scenario.exposure <= 0) return;
+        const frequency = samplePert(scenario.frequency, random);
+        const events = samplePoisson(Math.min(frequency, MAX_FREQUENCY) * scenario.exposure, random);
+        let loss = 0;
+        for (let e = 0; e < events; e++) loss += samplePert(scenario.magnitude, random);
+        losses[s][i] = loss;
+        totals[i] += loss;
+        sampled += events;
+      });
+      if (sampled >= YIELD_EVERY_EVENTS) {
+        sampled = 0;
+        await yieldToEventLoop();
+      }
+    }
+
+    const scenarioMeans = losses.map(mean);
+    const sortedTotals = totals.slice().sort();
+    const totalMean = mean(totals);
+
+    return {
+      productId,
+      iterations,
+      seed,
+      currency: 'USD',
+      annualizedLoss: {
+        mean: round(totalMean),
+        p10: round(percentile(sortedTotals, 0.1)),
+        p50: round(percentile(sortedTotals, 0.5)),
+        p90: round(percentile(sortedTotals, 0.9)),
+        p95: round(percentile(sortedTotals, 0.95)),
+        p99: round(percentile(sortedTotals, 0.99)),
+        max: round(sortedTotals[iterations - 1] ?? 0),
+      },
+      histogram: this.histogram(sortedTotals),
+      lossExceedance: this.lossExceedance(sortedTotals),
+      scenarios: scenarios
+        .map((scenario, s) => {
+          const sorted = losses[s].slice().sort();
+          return {
+            estimateId: scenario.estimateId,
+            type: scenario.type,
+            targetId: scenario.targetId,
+            label: scenario.label,
+            exposure: round(scenario.exposure),
+            mean: round(scenarioMeans[s]),
+            p90: round(percentile(sorted, 0.9)),
+          };
+        })
+        .sort((a, b) => b.mean - a.mean),
+      remediation: await this.remediation(productId, scenarios, scenarioMeans, totalMean),
+      simulatedAt: new Date().toISOString(),
+    };
+  }
+
+  private validate(input: LossEstimateInput) {
+    const ranges: Array<[string, number, number, number]> = [
+      ['Frequency', input.frequencyMin, input.frequencyMostLikely, input.frequencyMax],
+      ['Magnitude', input.magnitudeMin, input.magnitudeMostLikely, input.magnitudeMax],
+    ];
+    for (const [name, min, mostLikely, max] of ranges) {
+      if (min < 0) throw new RiskQuantificationError(`${name} cannot be negative`);
+      if (!(min <= mostLikely && mostLikely <= max)) {
+        throw new RiskQuantificationError(`${name} must satisfy minimum <= most likely <= maximum`);
+      }
+    }
+    if (input.frequencyMax > MAX_FREQUENCY) {
+      throw new RiskQuantificationError(`Frequency cannot exceed ${MAX_FREQUENCY} events per year`);
+    }
+  }
+
+  // Estimates with their current mitigation; closed risks are left out
+  private async scenarios(productId: string): Promise<Scenario[]> {
+    const [estimates, openRisks] = await Promise.all([
+      this.list(productId),
+      riskRegisterService.list(productId, { status: 'OPEN' }),
+    ]);
+    const risksById = new Map(openRisks.map((r) => [r.id, r]));
+
+    const scenarios: Scenario[] = [];
+    for (const estimate of estimates) {
+      const ranges = {
+        frequency: [estimate.frequencyMin, estimate.frequencyMostLikely, estimate.frequencyMax] as [number, number, number],
+        magnitude: [estimate.magnitudeMin, estimate.magnitudeMostLikely, estimate.magnitudeMax] as [number, number, number],
+      };
+
+      if (estimate.risk) {
+        const risk = risksById.get(estimate.risk.id);
+        if (!risk) continue;
+        scenarios.push({
+          estimateId: estimate.id,
+          type: 'RISK',
+          targetId: risk.id,
+          label: `${risk.riskId} ${risk.title}`,
+          exposure: 1 - combinedEffectiveness(risk.controls),
+          controls: risk.controls,
+          ...ranges,
+        });
+      } else if (estimate.assessment) {
+        const { assessment } = estimate;
+        scenarios.push({
+          estimateId: estimate.id,
+          type: 'GAP',
+          targetId: assessment.id,
+          label: `${assessment.subcategoryId} on ${assessment.system.name}`,
+          exposure: 1 - (assessedEffectiveness([assessment.status]) ?? 1),
+          assessmentId: assessment.id,
+          ...ranges,
+        });
+      }
+    }
+    return scenarios;
+  }
+
+  // Expected loss removed by each open task, if its assessment became compliant
+  private async remediation(productId: string, scenarios: Scenario[], scenarioMeans: number[], totalMean: number) {
+    const tasks = await prisma.remediationTask.findMany({
+      where: { status: { in: OPEN_TASK_STATUSES }, assessment: { system: { productId } } },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        dueDate: true,
+        assessment: {
+          select: { id: true, subcategoryId: true, system: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    return tasks
+      .map((task) => {
+        const { assessment } = task;
+        let reduction = 0;
+
+        scenarios.forEach((scenario, s) => {
+          if (scenario.exposure <= 0 || scenarioMeans[s] === 0) return;
+
+          if (scenario.assessmentId === assessment.id) {
+            reduction += scenarioMeans[s];
+          } else if (scenario.controls?.some((c) => c.controlId === assessment.subcategoryId)) {
+            const remediated = scenario.controls.map((c) => {
+              if (c.controlId !== assessment.subcategoryId) return c;
+              const assessments = c.assessments.map((a) =>
+                a.systemId === assessment.system.id ? { ...a, status: 'COMPLIANT' } : a
+              );
+              return { ...c, assessments, effectiveness: assessedEffectiveness(assessments.map((a) => a.status)) };
+            });
+            const exposure = 1 - combinedEffectiveness(remediated);
+            reduction += scenarioMeans[s] * (1 - exposure / scenario.exposure);
+          }
+        });
+
+        return {
+          taskId: task.id,
+          title: task.title,
+          status: task.status,
+          dueDate: task.dueDate,
+          assessmentId: assessment.id,
+          controlId: assessment.subcategoryId,
+          systemName: assessment.system.name,
+          expectedReduction: round(reduction),
+          reductionPercent: totalMean > 0 ? round((reduction / totalMean) * 100) : 0,
+        };
+      })
+      .filter((t) => t.expectedReduction > 0)
+      .sort((a, b) => b.expectedReduction - a.expectedReduction);
+  }
+
+  private histogram(sorted: Float64Array) {
+    // Bins up to the 99th percentile; the last bin takes the tail
+    const upper = percentile(sorted, 0.99);
+    if (upper <= 0) return [];
+    const width = upper / HISTOGRAM_BINS;
+    const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+      from: round(i * width),
+      to: round((i + 1) * width),
+      count: 0,
+    }));
+    for (let i = 0; i < sorted.length; i++) {
+      bins[Math.min(HISTOGRAM_BINS - 1, Math.floor(sorted[i] / width))].count++;
+    }
+    return bins;
+  }
+
+  private lossExceedance(sorted: Float64Array) {
+    const upper = percentile(sorted, 0.999);
+    if (upper <= 0) return [];
+    return Array.from({ length: EXCEEDANCE_POINTS + 1 }, (_, i) => {
+      const loss = (upper * i) / EXCEEDANCE_POINTS;
+      return { loss: round(loss), probability: round(exceedance(sorted, loss) * 100) / 100 };
+    });
+  }
+}
+
+export const riskQuantificationService = new RiskQuantificationService();
+export default riskQuantificationService;
@@ -0,0 +1,280 @@
+/**
+ * Risk Register Service
+ *
+ * Risk scenarios recorded per product, independent of control gaps:
+ * - Each risk has a threat, a vulnerability, an owner, a treatment and an
+ *   inherent score of likelihood x impact on a 5x5 matrix
+ * - Risks link to systems and to mitigating controls of the product's catalog
+ * - Residual risk is derived from the linked controls' assessments: their
+ *   average compliance (control effectiveness) lowers the likelihood, so the
+ *   residual score follows the assessments without being stored
+ * - Risk IDs (RISK-0001) are sequential per product
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { controlCatalogService } from './controlCatalog.service';
+
+export const RISK_TREATMENTS = ['MITIGATE', 'ACCEPT', 'TRANSFER', 'AVOID'] as const;
+export type RiskTreatment = (typeof RISK_TREATMENTS)[number];
+
+export const RISK_STATUSES = ['OPEN', 'CLOSED'] as const;
+export type RiskStatus = (typeof RISK_STATUSES)[number];
+
+export type RiskRating = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export class RiskRegisterError extends Error {}
+
+export interface RiskInput {
+  title: string;
+  description?: string | null;
+  threat: string;
+  vulnerability: string;
+  likelihood: number;
+  impact: number;
+  treatment?: RiskTreatment;
+  treatmentPlan?: string | null;
+  status?: RiskStatus;
+  reviewDate?: Date | null;
+  ownerId?: string | null;
+  systemIds?: string[];
+  controlIds?: string[];
+}
+
+// Control effectiveness per assessment status; stored as enum or display status.
+// NOT_APPLICABLE is left out, anything unlisted (not assessed) counts as 0.
+const STATUS_EFFECTIVENESS: Record<string, number> = {
+  COMPLIANT: 1,
+  Implemented: 1,
+  PARTIALLY_COMPLIANT: 0.5,
+  PARTIAL: 0.5,
+  'Partially Implemented': 0.5,
+  NON_COMPLIANT: 0,
+  'Not Implemented': 0,
+};
+const NOT_APPLICABLE_STATUSES = ['NOT_APPLICABLE', 'Not Applicable'];
+
+const riskInclude = {
+  owner: { select: { id: true, name: true, email: true } },
+  systems: { select: { system: { select: { id: true, name: true } } } },
+  controls: { select: { subcategoryId: true }, orderBy: { subcategoryId: 'asc' } },
+} satisfies Prisma.RiskInclude;
+
+type RiskWithLinks = Prisma.RiskGetPayload<{ include: typeof riskInclude }>;
+
+export interface ControlEffectiveness {
+  controlId: string;
+  // Average over the assessed systems, null when no system has an applicable assessment
+  effectiveness: number | null;
+  assessments: Array<{ systemId: string; systemName: string; status: string }>;
+}
+
+/**
+ * Rating band for a 1-25 likelihood x impact score
+ */
+export function riskRating(score: number): RiskRating {
+  if (score >= 17) return 'CRITICAL';
+  if (score >= 10) return 'HIGH';
+  if (score >= 5) return 'MEDIUM';
+  return 'LOW';
+}
+
+/**
+ * Effectiveness (0-1) of one control from its assessments' statuses, or null
+ * when none of them is applicable
+ */
+export function assessedEffectiveness(statuses: string[]): number | null {
+  const applicable = statuses.filter((status) => !NOT_APPLICABLE_STATUSES.includes(status));
+  if (applicable.length === 0) return null;
+  return applicable.reduce((sum, status) => sum + (STATUS_EFFECTIVENESS[status] ?? 0), 0) / applicable.length;
+}
+
+/**
+ * Combined effectiveness (0-1) of a risk's controls. Unassessed controls
+ * mitigate nothing; controls that are not applicable everywhere are left out.
+ */
+export function combinedEffectiveness(controls: ControlEffectiveness[]): number {
+  const counted = controls.filter((c) => c.effectiveness !== null || c.assessments.length === 0);
+  return counted.length ? counted.reduce((sum, c) => sum + (c.effectiveness ?? 0), 0) / counted.length : 0;
+}
+
+/**
+ * Residual likelihood once controls of the given effectiveness (0-1) are in
+ * place: full effectiveness brings any likelihood down to 1 (rare). Impact is
+ * unchanged, as controls here reduce how often a risk occurs, not its cost.
+ */
+export function residualLikelihood(likelihood: number, effectiveness: number): number {
+  return Math.max(1, Math.round(likelihood - (likelihood - 1) * effectiveness));
+}
+
+class RiskRegisterService {
+  /**
+   * A product's risks with residual scores, highest residual score first
+   */
+  async list(productId: string, filters: { status?: string; ownerId?: string; systemId?: string } = {}) {
+    const risks = await prisma.risk.findMany({
+      where: {
+        productId,
+        ...(filters.status && { status: filters.status }),
+        ...(filters.ownerId && { ownerId: filters.ownerId }),
+        ...(filters.systemId && { systems: { some: { systemId: filters.systemId } } }),
+      },
+      include: riskInclude,
+      orderBy: { sequence: 'asc' },
+    });
+
+    const scored = await this.score(productId, risks);
+    return scored.sort((a, b) => b.residualScore - a.residualScore || b.inherentScore - a.inherentScore);
+  }
+
+  /**
+   * One risk with its residual score and per-control effectiveness
+   */
+  async get(id: string) {
+    const risk = await prisma.risk.findUnique({ where: { id }, include: riskInclude });
+    if (!risk) return null;
+    const [scored] = await this.score(risk.productId, [risk]);
+    return scored;
+  }
+
+  /**
+   * Record a risk with the next risk ID for the product
+   */
+  async create(productId: string, input: RiskInput, actorId: string) {
+    await this.validateLinks(productId, input);
+
+    const risk = await prisma.$transaction(async (tx) => {
+      const last = await tx.risk.aggregate({ where: { productId }, _max: { sequence: true } });
+      const sequence = (last._max.sequence ?? 0) + 1;
+
+      return tx.risk.create({
+        data: {
+          riskId: `RISK-${String(sequence).padStart(4, '0')}`,
+          sequence,
+          productId,
+          title: input.title,
+          description: input.description ?? null,
+          threat: input.threat,
+          vulnerability: input.vulnerability,
+          likelihood: input.likelihood,
+          impact: input.impact,
+          treatment: input.treatment ?? 'MITIGATE',
+          treatmentPlan: input.treatmentPlan ?? null,
+          status: input.status ?? 'OPEN',
+          reviewDate: input.reviewDate ?? null,
+          ownerId: input.ownerId ?? null,
+          createdById: actorId,
+          systems: { create: (input.systemIds || []).map((systemId) => ({ systemId })) },
+          controls: { create: unique(input.controlIds || []).map((subcategoryId) => ({ subcategoryId })) },
+        },
+      });
+    });
+
+    return (await this.get(risk.id))!;
+  }
+
+  /**
+   * Update a risk's fields; systemIds and controlIds replace the current links
+   */
+  async update(id: string, input: Partial<RiskInput>) {
+    const existing = await prisma.risk.findUnique({ where: { id }, select: { productId: true } });
+    if (!existing) throw new RiskRegisterError('Risk not found');
+    await this.validateLinks(existing.productId, input);
+
+    const { systemIds, controlIds, ...fields } = input;
+    await prisma.$transaction(async (tx) => {
+      await tx.risk.update({ where: { id }, data: fields });
+
+      if (systemIds) {
+        await tx.riskSystem.deleteMany({ where: { riskId: id } });
+        await tx.riskSystem.createMany({ data: systemIds.map((systemId) => ({ riskId: id, systemId })) });
+      }
+      if (controlIds) {
+        await tx.riskControl.deleteMany({ where: { riskId: id } });
+        await tx.riskControl.createMany({
+          data: unique(controlIds).map((subcategoryId) => ({ riskId: id, subcategoryId })),
+        });
+      }
+    });
+
+    return (await this.get(id))!;
+  }
+
+  async delete(id: string) {
+    await prisma.risk.delete({ where: { id } });
+  }
+
+  // Systems must belong to the product, controls to its catalog, and the owner must exist
+  private async validateLinks(productId: string, input: Partial<RiskInput>) {
+    if (input.systemIds?.length) {
+      const count = await prisma.system.count({ where: { id: { in: input.systemIds }, productId } });
+      if (count !== new Set(input.systemIds).size) {
+        throw new RiskRegisterError('Linked systems must belong to the product');
+      }
+    }
+
+    if (input.controlIds?.length) {
+      const product = await prisma.product.findUnique({ where: { id: productId }, select: { catalogId: true } });
+      const unknown = await controlCatalogService.findUnknownControls(product!.catalogId, input.controlIds);
+      if (unknown.length > 0) {
+        throw new RiskRegisterError(`Not in the product's control catalog: ${unknown.slice(0, 10).join(', ')}`);
+      }
+    }
+
+    if (input.ownerId) {
+      const owner = await prisma.user.findUnique({ where: { id: input.ownerId }, select: { id: true } });
+      if (!owner) throw new RiskRegisterError('Owner not found');
+    }
+  }
+
+  // Add inherent and residual scores from the linked controls' assessments
+  private async score(productId: string, risks: RiskWithLinks[]) {
+    const controlIds = unique(risks.flatMap((r) => r.controls.map((c) => c.subcategoryId)));
+    const assessments = controlIds.length
+      ? await prisma.complianceAssessment.findMany({
+          where: { subcategoryId: { in: controlIds }, system: { productId } },
+          select: { subcategoryId: true, status: true, system: { select: { id: true, name: true } } },
+        })
+      : [];
+
+    return risks.map((risk) => {
+      const systemIds = new Set(risk.systems.map((s) => s.system.id));
+      const controls: ControlEffectiveness[] = risk.controls.map(({ subcategoryId }) => {
+        const onSystems = assessments.filter(
+          (a) => a.subcategoryId === subcategoryId && (systemIds.size === 0 || systemIds.has(a.system.id))
+        );
+        return {
+          controlId: subcategoryId,
+          effectiveness: assessedEffectiveness(onSystems.map((a) => a.status)),
+          assessments: onSystems.map((a) => ({ systemId: a.system.id, systemName: a.system.name, status: a.status })),
+        };
+      });
+
+      const effectiveness = combinedEffectiveness(controls);
+
+      const inherentScore = risk.likelihood * risk.impact;
+      const residual = residualLikelihood(risk.likelihood, effectiveness);
+      const residualScore = residual * risk.impact;
+
+      return {
+        ...risk,
+        systems: risk.systems.map((s) => s.system),
+        controls,
+        inherentScore,
+        inherentRating: riskRating(inherentScore),
+        controlEffectiveness: Math.round(effectiveness * 100),
+        residualLikelihood: residual,
+        residualImpact: risk.impact,
+        residualScore,
+        residualRating: riskRating(residualScore),
+      };
+    });
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+export const riskRegisterService = new RiskRegisterService();
+export default riskRegisterService;
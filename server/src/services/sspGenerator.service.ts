@@ -0,0 +1,380 @@
+/**
+ * SSP Generator Service
+ *
+ * Builds a System Security Plan for a product from its systems, baseline,
+ * assessments, control owners (ControlAssignment) and evidence, and renders it
+ * to PDF or DOCX. Sections:
+ * 1. System Identification
+ * 2. Security Categorization
+ * 3. System Environment
+ * 4. Control Baseline (exclusions and tailoring)
+ * 5. Control Implementation, one statement per control and system
+ * Appendix A. Evidence
+ *
+ * Callers are responsible for access checks.
+ */
+
+import { prisma } from '../prisma';
+import { generatePossiblePatterns } from './controlAssignment.service';
+import { NIST_80053_CATALOG_ID, controlCatalogService } from './controlCatalog.service';
+import { DocumentBlock, renderDocx, renderPdf } from './documentRenderer';
+
+export const SSP_FORMATS = ['PDF', 'DOCX'] as const;
+export type SspFormat = (typeof SSP_FORMATS)[number];
+
+export interface SspOptions {
+  systemIds?: string[];
+  format?: SspFormat;
+}
+
+export interface SspDocument {
+  fileName: string;
+  mimeType: string;
+  extension: string;
+  content: Buffer;
+}
+
+const SSP_MIME_TYPES: Record<SspFormat, string> = {
+  PDF: 'application/pdf',
+  DOCX: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  COMPLIANT: 'Implemented',
+  PARTIALLY_COMPLIANT: 'Partially implemented',
+  NON_COMPLIANT: 'Planned',
+  NOT_APPLICABLE: 'Not applicable',
+  NOT_ASSESSED: 'Not assessed',
+};
+
+// Helper: "MODERATE" -> "Moderate"
+function label(value: string): string {
+  return value
+    .toLowerCase()
+    .split('_')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : '';
+}
+
+// Helper: assignee names per control pattern, product-wide and per system
+async function loadOwners(productId: string) {
+  const assignments = await prisma.controlAssignment.findMany({
+    where: { productId },
+    include: { assignee: { select: { name: true, email: true } } },
+  });
+  return (controlId: string, systemId?: string): string[] => {
+    const patterns = new Set(generatePossiblePatterns(controlId));
+    const names = assignments
+      .filter((a) => patterns.has(a.controlPattern) && (a.systemId === null || a.systemId === systemId))
+      .map((a) => a.assignee.name || a.assignee.email);
+    return Array.from(new Set(names));
+  };
+}
+
+/**
+ * Build the SSP content blocks. Returns null if the product does not exist.
+ */
+export async function buildSsp(productId: string, options: SspOptions = {}) {
+  const { systemIds } = options;
+
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    include: {
+      user: { select: { name: true, email: true } },
+      framework: true,
+      catalog: true,
+      csfBaseline: true,
+      systems: {
+        where: systemIds ? { id: { in: systemIds } } : undefined,
+        orderBy: { name: 'asc' },
+        include: {
+          assessments: {
+            include: { evidenceFiles: { orderBy: { uploadedAt: 'asc' } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!product) {
+    return null;
+  }
+
+  const catalog = product.catalog;
+  const baseline = new Map(product.csfBaseline.map((b) => [b.subcategoryId, b]));
+  const assessed = new Set(product.systems.flatMap((s) => s.assessments.map((a) => a.subcategoryId)));
+
+  // Controls in scope: applicable in the baseline, or assessed on a system
+  const controls = await prisma.cSFControl.findMany({
+    where: {
+      catalogId: product.catalogId,
+      id: {
+        in: Array.from(
+          new Set([...product.csfBaseline.filter((b) => b.applicable).map((b) => b.subcategoryId), ...assessed])
+        ),
+      },
+    },
+    orderBy: { sortOrder: 'asc' },
+  });
+  const controlTitles = new Map(
+    (
+      await prisma.cSFControl.findMany({
+        where: { id: { in: product.csfBaseline.map((b) => b.subcategoryId) } },
+        select: { id: true, title: true },
+      })
+    ).map((c) => [c.id, c.title])
+  );
+  const groups = await controlCatalogService.getGroups(product.catalogId);
+  const ownersOf = await loadOwners(productId);
+
+  const uploaderIds = Array.from(
+    new Set(product.systems.flatMap((s) => s.assessments.flatMap((a) => a.evidenceFiles.map((e) => e.uploadedBy))))
+  );
+  const uploaders = new Map(
+    (await prisma.user.findMany({ where: { id: { in: uploaderIds } }, select: { id: true, name: true } })).map((u) => [
+      u.id,
+      u.name,
+    ])
+  );
+
+  const assessmentsByControl = new Map<string, { system: (typeof product.systems)[number]; assessment: (typeof product.systems)[number]['assessments'][number] }[]>();
+  for (const system of product.systems) {
+    for (const assessment of system.assessments) {
+      const list = assessmentsByControl.get(assessment.subcategoryId) || [];
+      list.push({ system, assessment });
+      assessmentsByControl.set(assessment.subcategoryId, list);
+    }
+  }
+
+  // Evidence numbered in the order it appears in section 5
+  const evidenceRefs = new Map<string, string>();
+  const appendix: string[][] = [];
+
+  const blocks: DocumentBlock[] = [];
+
+  // 1. System Identification
+  blocks.push(
+    { type: 'heading', level: 1, text: '1. System Identification' },
+    {
+      type: 'fields',
+      fields: [
+        { label: 'System name', value: product.name },
+        { label: 'Description', value: product.description || '' },
+        { label: 'Type', value: label(product.type) },
+        { label: 'Criticality', value: label(product.criticality) },
+        { label: 'System owner', value: product.user.name || product.user.email },
+        { label: 'Framework', value: product.framework?.name || '' },
+        { label: 'Control catalog', value: `${catalog.name}${catalog.version ? ` (${catalog.version})` : ''}` },
+      ],
+    }
+  );
+
+  // 2. Security Categorization
+  const isNist80053 = product.catalogId === NIST_80053_CATALOG_ID;
+  blocks.push(
+    { type: 'heading', level: 1, text: '2. Security Categorization' },
+    {
+      type: 'paragraph',
+      text:
+        `The system is categorized as ${label(product.impactLevel)} impact under FIPS 199.` +
+        (isNist80053 ? ` Controls are selected from the NIST SP 800-53 ${product.impactLevel} baseline.` : ''),
+    }
+  );
+
+  // 3. System Environment
+  blocks.push(
+    { type: 'heading', level: 1, text: '3. System Environment' },
+    {
+      type: 'paragraph',
+      text: `The plan covers ${product.systems.length} system component${product.systems.length === 1 ? '' : 's'}.`,
+    }
+  );
+  if (product.systems.length > 0) {
+    blocks.push({
+      type: 'table',
+      columns: ['Component', 'Description', 'Environment', 'Criticality', 'Data Classification'],
+      widths: [2, 4, 1.5, 1.5, 1.5],
+      rows: product.systems.map((s) => [
+        s.name,
+        s.description || '',
+        label(s.environment),
+        label(s.criticality),
+        label(s.dataClassification),
+      ]),
+    });
+  }
+
+  // 4. Control Baseline
+  const excluded = product.csfBaseline.filter((b) => !b.applicable && !b.tailoring);
+  const tailored = product.csfBaseline.filter((b) => b.tailoring);
+  blocks.push(
+    { type: 'heading', level: 1, text: '4. Control Baseline' },
+    {
+      type: 'paragraph',
+      text: `${controls.length} ${catalog.controlLabel.toLowerCase()} controls are in scope for this plan.`,
+    }
+  );
+  if (tailored.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: '4.1 Tailoring' },
+      {
+        type: 'table',
+        columns: ['Control', 'Tailoring', 'Justification'],
+        widths: [3, 1, 4],
+        rows: tailored.map((b) => [
+          `${b.subcategoryId} ${controlTitles.get(b.subcategoryId) || ''}`.trim(),
+          b.tailoring === 'ADDED' ? 'Added' : 'Removed',
+          b.justification || '',
+        ]),
+      }
+    );
+  }
+  if (excluded.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: `4.${tailored.length > 0 ? 2 : 1} Excluded Controls` },
+      {
+        type: 'table',
+        columns: ['Control', 'Justification'],
+        widths: [3, 5],
+        rows: excluded.map((b) => [
+          `${b.subcategoryId} ${controlTitles.get(b.subcategoryId) || ''}`.trim(),
+          b.justification || 'No justification recorded',
+        ]),
+      }
+    );
+  }
+
+  // 5. Control Implementation
+  blocks.push({ type: 'pageBreak' }, { type: 'heading', level: 1, text: '5. Control Implementation' });
+
+  const byFunction = new Map<string, typeof controls>();
+  for (const control of controls) {
+    const list = byFunction.get(control.functionId) || [];
+    list.push(control);
+    byFunction.set(control.functionId, list);
+  }
+  const functionOrder = [
+    ...groups.map((g) => g.id).filter((id) => byFunction.has(id)),
+    ...Array.from(byFunction.keys()).filter((id) => !groups.some((g) => g.id === id)),
+  ];
+
+  for (const functionId of functionOrder) {
+    const group = groups.find((g) => g.id === functionId);
+    blocks.push({
+      type: 'heading',
+      level: 2,
+      text: group ? `${group.id}: ${group.name}` : functionId,
+    });
+
+    for (const control of byFunction.get(functionId)!) {
+      const entry = baseline.get(control.id);
+      const productOwners = ownersOf(control.id);
+
+      blocks.push(
+        { type: 'heading', level: 3, text: `${control.id} ${control.title}` },
+        { type: 'paragraph', text: control.text, italic: true },
+        {
+          type: 'fields',
+          fields: [
+            { label: 'Responsible', value: productOwners.join(', ') || 'Unassigned' },
+            ...(entry ? [{ label: 'Baseline level', value: label(entry.categoryLevel) }] : []),
+          ],
+        }
+      );
+
+      const implementations = assessmentsByControl.get(control.id) || [];
+      if (implementations.length === 0) {
+        blocks.push({ type: 'paragraph', text: 'No implementation has been recorded for this control.' });
+        continue;
+      }
+
+      blocks.push({
+        type: 'table',
+        columns: ['Component', 'Status', 'Implementation Statement', 'Evidence'],
+        widths: [1.5, 1.2, 5, 1.3],
+        rows: implementations.map(({ system, assessment }) => {
+          const refs = assessment.evidenceFiles.map((evidence) => {
+            let ref = evidenceRefs.get(evidence.id);
+            if (!ref) {
+              ref = `E-${evidenceRefs.size + 1}`;
+              evidenceRefs.set(evidence.id, ref);
+              appendix.push([
+                ref,
+                evidence.originalName,
+                evidence.description || '',
+                `${control.id} / ${system.name}`,
+                `${uploaders.get(evidence.uploadedBy) || 'Unknown'}, ${formatDate(evidence.uploadedAt)}`,
+                evidence.isExpired ? 'Expired' : evidence.expiresAt ? `Until ${formatDate(evidence.expiresAt)}` : 'Current',
+              ]);
+            }
+            return ref;
+          });
+
+          const owners = ownersOf(control.id, system.id).filter((o) => !productOwners.includes(o));
+          const statement = [
+            assessment.details || 'No implementation statement recorded.',
+            assessment.remediationPlan
+              ? `Planned: ${assessment.remediationPlan}${assessment.targetDate ? ` (target ${formatDate(assessment.targetDate)})` : ''}`
+              : '',
+            owners.length > 0 ? `Component owner: ${owners.join(', ')}` : '',
+          ]
+            .filter(Boolean)
+            .join('\n');
+
+          return [
+            system.name,
+            STATUS_LABELS[assessment.status] || assessment.status,
+            statement,
+            refs.join(', '),
+          ];
+        }),
+      });
+    }
+  }
+
+  // Appendix A. Evidence
+  blocks.push({ type: 'pageBreak' }, { type: 'heading', level: 1, text: 'Appendix A. Evidence' });
+  if (appendix.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No evidence has been attached to the controls in this plan.' });
+  } else {
+    blocks.push({
+      type: 'table',
+      columns: ['Ref', 'File', 'Description', 'Control / Component', 'Uploaded', 'Validity'],
+      widths: [0.7, 2, 2.5, 2, 1.8, 1.2],
+      rows: appendix,
+    });
+  }
+
+  return {
+    title: 'System Security Plan',
+    productName: product.name,
+    blocks,
+  };
+}
+
+/**
+ * Generate the SSP document in the requested format (PDF by default).
+ * Returns null if the product does not exist.
+ */
+export async function generateSsp(productId: string, options: SspOptions = {}): Promise<SspDocument | null> {
+  const ssp = await buildSsp(productId, options);
+  if (!ssp) {
+    return null;
+  }
+
+  const format = options.format || 'PDF';
+  const meta = { title: ssp.title, subtitle: ssp.productName, footer: `${ssp.productName} SSP` };
+  const content = format === 'DOCX' ? renderDocx(ssp.blocks, meta) : await renderPdf(ssp.blocks, meta);
+  const extension = format === 'DOCX' ? '.docx' : '.pdf';
+
+  return {
+    fileName: `ssp-${ssp.productName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${new Date().toISOString().slice(0, 10)}${extension}`,
+    mimeType: SSP_MIME_TYPES[format],
+    extension,
+    content,
+  };
+}
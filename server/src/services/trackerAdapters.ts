@@ -0,0 +1,251 @@
+/**
+ * Issue Tracker Adapters
+ *
+ * Protocol adapters used by the issue tracker service:
+ * - JIRA: Jira REST API v2 (Cloud, Server and compatible trackers)
+ * - GENERIC_REST: a minimal JSON contract for in-house trackers and mock servers
+ *     POST {baseUrl}/issues       -> { id, url?, status?, assignee? }
+ *     GET  {baseUrl}/issues/:id   -> { id, url?, status, assignee?: { name?, email? } | null }
+ */
+
+export const TRACKER_TYPES = ['JIRA', 'GENERIC_REST'] as const;
+export type TrackerType = (typeof TRACKER_TYPES)[number];
+
+export const TASK_STATUSES = ['OPEN', 'IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED'] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export interface TrackerConfig {
+  type: string;
+  baseUrl: string;
+  username?: string | null;
+  apiToken?: string | null;
+  projectKey?: string | null;
+  issueType: string;
+}
+
+export interface NewIssue {
+  title: string;
+  description: string;
+  priority: string; // TaskPriority
+  dueDate: Date | null;
+  labels: string[];
+  taskId: string;
+}
+
+export interface ExternalIssue {
+  id: string;
+  url: string;
+  status: string | null;
+  // Tracker-provided hint for mapping unknown status names (Jira status categories)
+  statusCategory?: TaskStatus | null;
+  assignee: { name: string | null; email: string | null } | null;
+}
+
+export interface TrackerAdapter {
+  createIssue(issue: NewIssue): Promise<ExternalIssue>;
+  getIssue(id: string): Promise<ExternalIssue>;
+  testConnection(): Promise<void>;
+}
+
+export class TrackerError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'TrackerError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Helper: JSON request with a timeout; non-2xx responses become TrackerErrors
+async function requestJson<T>(url: string, init: RequestInit & { headers: Record<string, string> }): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new TrackerError(`Could not reach tracker: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new TrackerError(`Tracker responded ${response.status}: ${text.slice(0, 300)}`, response.status);
+  }
+  try {
+    return (text ? JSON.parse(text) : {}) as T;
+  } catch {
+    throw new TrackerError('Tracker returned a non-JSON response');
+  }
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Jira status categories: new / indeterminate / done
+const JIRA_CATEGORY_STATUS: Record<string, TaskStatus> = {
+  new: 'OPEN',
+  indeterminate: 'IN_PROGRESS',
+  done: 'COMPLETED',
+};
+
+const JIRA_PRIORITIES: Record<string, string> = {
+  CRITICAL: 'Highest',
+  HIGH: 'High',
+  MEDIUM: 'Medium',
+  LOW: 'Low',
+};
+
+interface JiraIssue {
+  id: string;
+  key: string;
+  fields?: {
+    status?: { name: string; statusCategory?: { key: string } };
+    assignee?: { displayName?: string; emailAddress?: string } | null;
+  };
+}
+
+export class JiraAdapter implements TrackerAdapter {
+  constructor(private config: TrackerConfig) {}
+
+  private get headers(): Record<string, string> {
+    const { username, apiToken } = this.config;
+    if (!apiToken) return {};
+    return username
+      ? { Authorization: `Basic ${Buffer.from(`${username}:${apiToken}`).toString('base64')}` }
+      : { Authorization: `Bearer ${apiToken}` };
+  }
+
+  private api(path: string): string {
+    return `${trimSlash(this.config.baseUrl)}/rest/api/2${path}`;
+  }
+
+  private toExternal(issue: JiraIssue): ExternalIssue {
+    const category = issue.fields?.status?.statusCategory?.key;
+    return {
+      id: issue.key,
+      url: `${trimSlash(this.config.baseUrl)}/browse/${issue.key}`,
+      status: issue.fields?.status?.name ?? null,
+      statusCategory: category ? JIRA_CATEGORY_STATUS[category] ?? null : null,
+      assignee: issue.fields?.assignee
+        ? {
+            name: issue.fields.assignee.displayName ?? null,
+            email: issue.fields.assignee.emailAddress ?? null,
+          }
+        : null,
+    };
+  }
+
+  async createIssue(issue: NewIssue): Promise<ExternalIssue> {
+    if (!this.config.projectKey) {
+      throw new TrackerError('Jira connection has no project key');
+    }
+
+    const created = await requestJson<{ id: string; key: string }>(this.api('/issue'), {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({
+        fields: {
+          project: { key: this.config.projectKey },
+          issuetype: { name: this.config.issueType },
+          summary: issue.title,
+          description: issue.description,
+          priority: { name: JIRA_PRIORITIES[issue.priority] || 'Medium' },
+          labels: issue.labels,
+          ...(issue.dueDate && { duedate: issue.dueDate.toISOString().split('T')[0] }),
+        },
+      }),
+    });
+
+    // The create response carries no fields; read the issue back for its initial status
+    return this.getIssue(created.key);
+  }
+
+  async getIssue(id: string): Promise<ExternalIssue> {
+    const issue = await requestJson<JiraIssue>(
+      this.api(`/issue/${encodeURIComponent(id)}?fields=status,assignee`),
+      { method: 'GET', headers: this.headers }
+    );
+    return this.toExternal(issue);
+  }
+
+  async testConnection(): Promise<void> {
+    if (this.config.projectKey) {
+      await requestJson(this.api(`/project/${encodeURIComponent(this.config.projectKey)}`), {
+        method: 'GET',
+        headers: this.headers,
+      });
+    } else {
+      await requestJson(this.api('/myself'), { method: 'GET', headers: this.headers });
+    }
+  }
+}
+
+interface GenericIssue {
+  id: string | number;
+  url?: string;
+  status?: string | null;
+  assignee?: { name?: string | null; email?: string | null } | null;
+}
+
+export class GenericRestAdapter implements TrackerAdapter {
+  constructor(private config: TrackerConfig) {}
+
+  private get headers(): Record<string, string> {
+    return this.config.apiToken ? { Authorization: `Bearer ${this.config.apiToken}` } : {};
+  }
+
+  private toExternal(issue: GenericIssue): ExternalIssue {
+    const id = String(issue.id);
+    return {
+      id,
+      url: issue.url || `${trimSlash(this.config.baseUrl)}/issues/${encodeURIComponent(id)}`,
+      status: issue.status ?? null,
+      assignee: issue.assignee
+        ? { name: issue.assignee.name ?? null, email: issue.assignee.email ?? null }
+        : null,
+    };
+  }
+
+  async createIssue(issue: NewIssue): Promise<ExternalIssue> {
+    const created = await requestJson<GenericIssue>(`${trimSlash(this.config.baseUrl)}/issues`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({
+        title: issue.title,
+        description: issue.description,
+        priority: issue.priority,
+        dueDate: issue.dueDate ? issue.dueDate.toISOString() : null,
+        labels: issue.labels,
+        externalId: issue.taskId,
+      }),
+    });
+    if (created.id === undefined || created.id === null) {
+      throw new TrackerError('Tracker response did not include an issue id');
+    }
+    return this.toExternal(created);
+  }
+
+  async getIssue(id: string): Promise<ExternalIssue> {
+    const issue = await requestJson<GenericIssue>(
+      `${trimSlash(this.config.baseUrl)}/issues/${encodeURIComponent(id)}`,
+      { method: 'GET', headers: this.headers }
+    );
+    return this.toExternal(issue);
+  }
+
+  async testConnection(): Promise<void> {
+    await requestJson(`${trimSlash(this.config.baseUrl)}/issues?limit=1`, { method: 'GET', headers: this.headers });
+  }
+}
+
+export function createTrackerAdapter(config: TrackerConfig): TrackerAdapter {
+  switch (config.type) {
+    case 'JIRA':
+      return new JiraAdapter(config);
+    case 'GENERIC_REST':
+      return new GenericRestAdapter(config);
+    default:
+      throw new TrackerError(`Unsupported tracker type: ${config.type}`);
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Webhook Service
+ *
+ * Outbound event delivery to admin-registered URLs:
+ * - Events are raised alongside audit logging (assessment status, baseline changes),
+ *   by compliance recalculation (score thresholds) and by the hourly sweeps
+ *   (overdue tasks, expired evidence)
+ * - Each event becomes one delivery per subscribed webhook, kept as a delivery log
+ * - Requests are signed with HMAC-SHA256 over "<timestamp>.<body>"
+ * - Failed deliveries are retried with backoff, then marked FAILED
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { AuditContext, AuditLogInput } from './auditService';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'ASSESSMENT_STATUS_CHANGED',
+  'SCORE_THRESHOLD_CROSSED',
+  'TASK_OVERDUE',
+  'EVIDENCE_EXPIRED',
+  'BASELINE_CHANGED',
+] as const;
+
+// PING is only sent by the test endpoint and cannot be subscribed to
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number] | 'PING';
+
+export interface WebhookEventInput {
+  type: WebhookEventType;
+  productId?: string | null;
+  actor?: { id: string; name: string } | null;
+  data: Record<string, unknown>;
+  dedupeKey?: string;
+}
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// Delay before each retry; a delivery fails for good after the last one
+const RETRY_DELAYS_MS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60].map((s) => s * 1000);
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const POLL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+const RESPONSE_BODY_LIMIT = 2000;
+// Delivery log entries older than this are pruned
+const RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Signature for a request body; receivers recompute it with their copy of
+ * the secret and compare in constant time
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function parseEvents(events: string): WebhookEventType[] {
+  try {
+    return JSON.parse(events);
+  } catch {
+    return [];
+  }
+}
+
+class WebhookService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Deliver anything outstanding now, then poll for due retries
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.prune()
+        .then(() => this.processDue())
+        .catch((error) => console.error('[Webhooks] Delivery run failed:', error));
+    }, POLL_MS);
+    this.timer.unref();
+
+    await this.prune();
+    await this.processDue();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue events for every active webhook subscribed to them and start
+   * delivering. Failures are logged rather than thrown so they never break
+   * the operation that raised the event.
+   */
+  async emit(inputs: WebhookEventInput | WebhookEventInput[]): Promise<number> {
+    const events = Array.isArray(inputs) ? inputs : [inputs];
+    if (events.length === 0) return 0;
+
+    let queued = 0;
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { isActive: true },
+        select: { id: true, events: true, productId: true },
+      });
+
+      for (const event of events) {
+        const subscribers = webhooks.filter(
+          (w) =>
+            parseEvents(w.events).includes(event.type) &&
+            (!w.productId || w.productId === event.productId)
+        );
+        queued += (await this.queue(subscribers.map((w) => w.id), event)).length;
+      }
+    } catch (error) {
+      console.error('Failed to queue webhook events:', error);
+    }
+
+    if (queued > 0) this.kick();
+    return queued;
+  }
+
+  /**
+   * Raise events for audit log entries that map to webhook events
+   */
+  async emitForAudit(context: AuditContext, input: AuditLogInput): Promise<void> {
+    // Entries recorded by audit capture are raw row changes, not the events integrations subscribe to
+    if (input.details?.captured) return;
+
+    const actor = context.userId === 'system' ? null : { id: context.userId, name: context.userName };
+
+    try {
+      // Remediation tasks are audited under the Assessment entity type with details.type set
+      if (
+        input.entityType === 'Assessment' &&
+        !input.details?.type &&
+        input.action === 'UPDATE' &&
+        input.changedFields?.includes('status') &&
+        input.entityId
+      ) {
+        const assessment = await prisma.complianceAssessment.findUnique({
+          where: { id: input.entityId },
+          select: {
+            id: true,
+            subcategoryId: true,
+            status: true,
+            systemId: true,
+            system: { select: { name: true, productId: true, product: { select: { name: true } } } },
+          },
+        });
+        if (!assessment) return;
+
+        await this.emit({
+          type: 'ASSESSMENT_STATUS_CHANGED',
+          productId: assessment.system.productId,
+          actor,
+          data: {
+            assessmentId: assessment.id,
+            subcategoryId: assessment.subcategoryId,
+            systemId: assessment.systemId,
+            systemName: assessment.system.name,
+            productName: assessment.system.product.name,
+            previousStatus: input.previousValue?.status ?? null,
+            status: assessment.status,
+            reason: input.details?.reason ?? null,
+          },
+        });
+      } else if (input.entityType === 'Baseline' && input.entityId) {
+        // Baselines are audited under their product; anything else is not a product's baseline
+        const product = await prisma.product.findUnique({
+          where: { id: input.entityId },
+          select: { id: true, name: true },
+        });
+        if (!product) return;
+
+        await this.emit({
+          type: 'BASELINE_CHANGED',
+          productId: product.id,
+          actor,
+          data: {
+            productId: product.id,
+            productName: product.name,
+            action: input.action,
+            ...input.details,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to raise webhook for audit event:', error);
+    }
+  }
+
+  /**
+   * Raise SCORE_THRESHOLD_CROSSED to webhooks whose threshold lies between a
+   * product's previous and new score. Each webhook is told about its own threshold.
+   */
+  async emitScoreChange(productId: string, previousScore: number, score: number): Promise<void> {
+    if (previousScore === score) return;
+
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { isActive: true, OR: [{ productId: null }, { productId }] },
+        select: { id: true, events: true, scoreThreshold: true },
+      });
+
+      const byThreshold = new Map<number, string[]>();
+      for (const w of webhooks) {
+        if (!parseEvents(w.events).includes('SCORE_THRESHOLD_CROSSED')) continue;
+        if ((previousScore < w.scoreThreshold) === (score < w.scoreThreshold)) continue;
+        byThreshold.set(w.scoreThreshold, [...(byThreshold.get(w.scoreThreshold) || []), w.id]);
+      }
+      if (byThreshold.size === 0) return;
+
+      const product = await prisma.product.findUnique({ where: { id: productId }, select: { name: true } });
+
+      for (const [threshold, webhookIds] of Array.from(byThreshold)) {
+        await this.queue(webhookIds, {
+          type: 'SCORE_THRESHOLD_CROSSED',
+          productId,
+          data: {
+            productId,
+            productName: product?.name ?? null,
+            threshold,
+            previousScore,
+            score,
+            direction: score >= threshold ? 'UP' : 'DOWN',
+          },
+        });
+      }
+      this.kick();
+    } catch (error) {
+      console.error('Failed to raise score threshold webhook:', error);
+    }
+  }
+
+  /**
+   * Send a PING to one webhook now, regardless of its subscriptions
+   */
+  async sendTest(webhookId: string, actor: { id: string; name: string }) {
+    const [deliveryId] = await this.queue([webhookId], {
+      type: 'PING',
+      actor,
+      data: { message: 'Test delivery' },
+    });
+    return this.deliver(deliveryId);
+  }
+
+  /**
+   * Reset a delivery so it is attempted again from scratch
+   */
+  async redeliver(deliveryId: string) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), error: null },
+    });
+    return this.deliver(deliveryId);
+  }
+
+  // Helper: create one delivery of an event per webhook; returns the new delivery IDs
+  private async queue(webhookIds: string[], event: WebhookEventInput): Promise<string[]> {
+    if (webhookIds.length === 0) return [];
+
+    const eventId = uuidv4();
+    const payload = JSON.stringify({
+      id: eventId,
+      type: event.type,
+      occurredAt: new Date().toISOString(),
+      productId: event.productId || null,
+      actor: event.actor || null,
+      data: event.data,
+    });
+
+    const created: string[] = [];
+    for (const webhookId of webhookIds) {
+      try {
+        const delivery = await prisma.webhookDelivery.create({
+          data: { webhookId, eventId, eventType: event.type, payload, dedupeKey: event.dedupeKey },
+          select: { id: true },
+        });
+        created.push(delivery.id);
+      } catch (error) {
+        // Unique (webhookId, dedupeKey): this event was already queued
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+      }
+    }
+    return created;
+  }
+
+  // Helper: start a delivery run without waiting for it
+  private kick(): void {
+    setImmediate(() => {
+      this.processDue().catch((error) => console.error('[Webhooks] Delivery run failed:', error));
+    });
+  }
+
+  /**
+   * Attempt every delivery whose next attempt is due
+   */
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      for (;;) {
+        const due = await prisma.webhookDelivery.findMany({
+          where: { status: 'PENDING', nextAttemptAt: { lte: new Date() }, webhook: { isActive: true } },
+          select: { id: true },
+          orderBy: { nextAttemptAt: 'asc' },
+          take: BATCH_SIZE,
+        });
+        if (due.length === 0) break;
+
+        for (const { id } of due) {
+          await this.deliver(id);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Send one delivery and record the outcome, scheduling a retry on failure
+   */
+  async deliver(deliveryId: string) {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: { select: { url: true, secret: true } } },
+    });
+    if (!delivery) return null;
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const started = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Posture-Webhooks/1.0',
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Delivery': delivery.id,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signPayload(delivery.webhook.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    const succeeded = error === null;
+    const retryDelay = RETRY_DELAYS_MS[attempts - 1];
+
+    return prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts,
+        lastAttemptAt: now,
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - started,
+        status: succeeded ? 'SUCCEEDED' : retryDelay !== undefined ? 'PENDING' : 'FAILED',
+        nextAttemptAt: !succeeded && retryDelay !== undefined ? new Date(now.getTime() + retryDelay) : null,
+        deliveredAt: succeeded ? now : null,
+      },
+    });
+  }
+
+  /**
+   * Drop delivery log entries past the retention period
+   */
+  async prune(now: Date = new Date()): Promise<void> {
+    await prisma.webhookDelivery.deleteMany({
+      where: {
+        createdAt: { lt: new Date(now.getTime() - RETENTION_DAYS * DAY_MS) },
+        status: { not: 'PENDING' },
+      },
+    });
+  }
+}
+
+export const webhookService = new WebhookService();
+export default webhookService;